@@ -26,16 +26,26 @@ const ROOT_EXPORTS = [
   "PermissionTemplates",
   "RelationField",
   "RelationsField",
+  "SOFT_DELETE_FIELD",
   "SelectField",
   "TextField",
   "URLField",
   "baseSchema",
   "dedentSql",
   "defineCollection",
+  "defineMixin",
+  "defineSeed",
+  "defineSettings",
   "defineView",
   "extractFieldMetadata",
   "extractRelationMetadata",
+  "fromEnv",
+  "isEnvValue",
+  "isMixinDefinition",
+  "isSeedDefinition",
+  "isSettingsDefinition",
   "resolveTemplate",
+  "ruleFor",
   "sql",
   "validateViewQuery",
 ];
@@ -52,15 +62,66 @@ const SERVER_ONLY_EXPORTS = [
   "categorizeChangesBySeverity",
   "compare",
   "filterDiff",
+  "filterSeedChanges",
+  "filterSettingsChanges",
   // Destructive-change detection
   "detectDestructiveChanges",
   "formatDestructiveChanges",
   "hasDestructiveChanges",
   "requiresForceFlag",
   "summarizeDestructiveChanges",
+  // Schema-wide rule validation
+  "formatSchemaRuleIssue",
+  "validateSchemaRules",
+  // Access simulation
+  "AccessCheckError",
+  "checkAccess",
+  // Seed data
+  "diffSeeds",
+  // App settings
+  "diffSettings",
+  "formatSettingValue",
+  "summarizeSettingValue",
+  // Mixins
+  "attributeMixinChanges",
+  // Drift
+  "detectDrift",
+  "diffDatabaseCollections",
+  // Squashing
+  "applySquash",
+  "planSquash",
+  // Rollback
+  "planRevertMigrations",
+  "planRollback",
+  // Rebasing
+  "applyRebase",
+  "diagnoseMigrations",
+  "planRebase",
+  // Checksums
+  "acceptMigrationChanges",
+  "checkMigrationChecksums",
+  "computeMigrationChecksum",
+  "readMigrationChecksum",
+  "withChecksumHeader",
+  // Questions about ambiguous changes
+  "applyBackfills",
+  "findBackfillQuestions",
+  "findDestructiveQuestions",
+  "findRenameQuestions",
+  "formatDiffQuestion",
+  "listDiffQuestions",
+  "parseBackfillAnswer",
+  "splitRenames",
+  // Applying to SQLite
+  "DatabaseApplyError",
+  "applyMigrationsToDatabase",
+  "planDatabaseApply",
   // Generator
   "generate",
   "planMigrations",
+  "planReconcileMigration",
+  "planSeedMigrations",
+  "planSettingsMigration",
   "writePlannedMigrations",
   // Engine
   "AppliedMigrationsError",
@@ -86,8 +147,13 @@ const SERVER_ONLY_EXPORTS = [
   "MigrationError",
   "MigrationExecutionError",
   "MigrationGenerationError",
+  "MigrationReasonsError",
   "SchemaParsingError",
   "SnapshotError",
+  "SquashError",
+  "RollbackError",
+  "RebaseError",
+  "ChecksumError",
   // Programmatic CLI API
   "generateMigration",
   "getMigrationStatus",
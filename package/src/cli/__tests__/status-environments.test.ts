@@ -0,0 +1,123 @@
+/**
+ * `status --all-envs` lines up the migrations each environment has applied
+ * against the files on disk. An environment that is only behind can catch up
+ * by applying what is pending; one that applied a file the directory no
+ * longer has, or still has to apply a file older than ones it ran, cannot —
+ * that is divergence, and it is flagged.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { buildEnvironmentMatrix } from "../commands/status";
+import {
+  applyEnvironment,
+  getDataDirectory,
+  getDefaultConfig,
+  getEnvironmentNames,
+  getMigrationsDirectory,
+  loadEnvironmentConfigs,
+} from "../utils/config";
+import { ConfigurationError } from "../../migration/errors";
+import { appliedMigrationsFromList } from "../../migration/engine/applied-migrations";
+import { planMigrationReplay } from "../../migration/engine/migration-plan";
+
+const FILES = ["1700000000_created_notes.js", "1700000100_created_posts.js", "1700000200_updated_posts.js"];
+
+describe("environments", () => {
+  let workdir: string;
+  let migrationsDir: string;
+
+  beforeEach(() => {
+    workdir = fs.mkdtempSync(path.join(os.tmpdir(), "status-environments-"));
+    migrationsDir = path.join(workdir, "pb_migrations");
+    fs.mkdirSync(migrationsDir);
+    for (const file of FILES) {
+      fs.writeFileSync(path.join(migrationsDir, file), "migrate((app) => {}, (app) => {});\n", "utf-8");
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(workdir, { recursive: true, force: true });
+  });
+
+  /** A lookup for a database that has run these files */
+  function lookup(name: string, files: string[]) {
+    const applied = appliedMigrationsFromList(files, path.join(workdir, name, "data.db"));
+    return { status: "found" as const, applied, plan: planMigrationReplay(migrationsDir, { applied }) };
+  }
+
+  it("applies a named environment over the migrations section", () => {
+    const config = {
+      ...getDefaultConfig(),
+      environments: { staging: { dataDirectory: "staging/pb_data" }, prod: { dataDirectory: "prod/pb_data" } },
+    };
+
+    expect(getEnvironmentNames(config)).toEqual(["staging", "prod"]);
+    const staging = applyEnvironment(config, "staging");
+    expect(getDataDirectory(staging)).toBe(path.resolve("staging/pb_data"));
+    expect(staging.migrations.directory).toBe(config.migrations.directory);
+    expect(config.migrations.dataDirectory).toBe("");
+
+    expect(() => applyEnvironment(config, "qa")).toThrow(ConfigurationError);
+    expect(() => applyEnvironment(config, "qa")).toThrow('Unknown environment "qa" (configured: staging, prod)');
+  });
+
+  it("lets -o override every environment's migrations directory when loading them all", async () => {
+    const configPath = path.join(workdir, "pocketbase-migrate.config.json");
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        schema: { directory: workdir },
+        migrations: { directory: path.join(workdir, "base") },
+        environments: {
+          staging: { directory: path.join(workdir, "staging"), dataDirectory: path.join(workdir, "staging_data") },
+          prod: { dataDirectory: path.join(workdir, "prod_data") },
+        },
+      })
+    );
+
+    const fromFile = await loadEnvironmentConfigs({ config: configPath });
+    expect([...fromFile.keys()]).toEqual(["staging", "prod"]);
+    expect(getMigrationsDirectory(fromFile.get("staging")!)).toBe(path.join(workdir, "staging"));
+    expect(getMigrationsDirectory(fromFile.get("prod")!)).toBe(path.join(workdir, "base"));
+
+    const withOutput = await loadEnvironmentConfigs({ config: configPath, output: migrationsDir });
+    for (const environment of withOutput.values()) {
+      expect(getMigrationsDirectory(environment)).toBe(migrationsDir);
+    }
+    expect(getDataDirectory(withOutput.get("staging")!)).toBe(path.join(workdir, "staging_data"));
+  });
+
+  it("flags environments that applied a migration missing from disk or are pending out of order", () => {
+    const matrix = buildEnvironmentMatrix(
+      migrationsDir,
+      new Map([
+        ["dev", lookup("dev", FILES)],
+        ["staging", lookup("staging", FILES.slice(0, 2))],
+        ["prod", lookup("prod", [FILES[0], FILES[2]])],
+        ["qa", lookup("qa", [...FILES, "1700000150_created_tags.js"])],
+      ])
+    );
+
+    expect(matrix.migrations).toEqual(FILES);
+    expect(matrix.missing).toEqual(["1700000150_created_tags.js"]);
+    expect(matrix.environments.map((column) => [column.name, column.diverged])).toEqual([
+      ["dev", false],
+      ["staging", false],
+      ["prod", true],
+      ["qa", true],
+    ]);
+  });
+
+  it("does not count an environment without a database as diverged", () => {
+    const matrix = buildEnvironmentMatrix(
+      migrationsDir,
+      new Map([["prod", { status: "unavailable" as const, dataPath: path.join(workdir, "prod") }]])
+    );
+
+    expect(matrix.environments[0].diverged).toBe(false);
+    expect(matrix.missing).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Accept-change command implementation
+ *
+ * `status` and `lint` report a migration edited after PocketBase applied it,
+ * since replay now reconstructs something the database never ran. When the
+ * edit is intended (a comment, a fix the database already has), this records
+ * the file's current content as the accepted one.
+ */
+
+import chalk from "chalk";
+import { Command } from "commander";
+import { acceptMigrationChanges } from "../../migration/checksums.js";
+import { ChecksumError, ConfigurationError, FileSystemError } from "../../migration/errors.js";
+import { getMigrationsDirectory, loadConfig } from "../utils/config.js";
+import { logError, logInfo, logKeyValue, logSection, logSuccess, setVerbosity } from "../utils/logger.js";
+
+/**
+ * Executes the accept-change command
+ *
+ * @param files - Migrations whose current content is intended
+ * @param options - Command options
+ */
+export async function executeAcceptChange(files: string[], options: any): Promise<void> {
+  try {
+    const parentOpts = options.parent?.opts?.() || {};
+    if (parentOpts.verbose) {
+      setVerbosity("verbose");
+    } else if (parentOpts.quiet) {
+      setVerbosity("quiet");
+    }
+
+    const config = await loadConfig(options);
+    const migrationsDir = getMigrationsDirectory(config);
+
+    logSection("✏️  Accepting Migration Changes");
+    logKeyValue("Migrations", migrationsDir);
+    console.log();
+
+    for (const change of acceptMigrationChanges(migrationsDir, files)) {
+      if (change.previous === change.checksum) {
+        logInfo(`${change.file} already matches its checksum`);
+      } else if (change.previous === null) {
+        logSuccess(`${change.file}: checksum recorded ${chalk.gray(change.checksum.slice(0, 12))}`);
+      } else {
+        logSuccess(
+          `${change.file}: checksum ${chalk.gray(change.previous.slice(0, 12))} → ${chalk.gray(change.checksum.slice(0, 12))}`
+        );
+      }
+    }
+    console.log();
+  } catch (error) {
+    if (error instanceof ChecksumError) {
+      logError("Checksum Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Name migrations by filename or timestamp, e.g. 1712000000_updated_posts.js or 1712000000");
+      console.log("  • Use -o to point at another migrations directory");
+    } else if (error instanceof FileSystemError) {
+      logError("File System Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+    } else if (error instanceof ConfigurationError) {
+      logError("Configuration Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+    } else {
+      logError(`Failed to accept migration changes: ${error}`);
+      if (error instanceof Error && error.stack) {
+        console.error(error.stack);
+      }
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Creates the accept-change command
+ *
+ * @returns Commander command instance
+ */
+export function createAcceptChangeCommand(): Command {
+  return new Command("accept-change")
+    .description("Record an intended edit to an applied migration, so status and lint stop reporting it")
+    .argument("<files...>", "Migrations to accept, by filename or timestamp")
+    .option("-o, --output <directory>", "Directory containing migration files")
+    .option("--env <name>", "Use a named environment's migrations directory from the config file")
+    .addHelpText(
+      "after",
+      `
+Examples:
+  $ pocketbase-migrate accept-change 1712000000_updated_posts.js   Accept an edit to one migration
+  $ pocketbase-migrate accept-change 1712000000 1712000300         Accept edits by timestamp
+`
+    )
+    .action(executeAcceptChange);
+}
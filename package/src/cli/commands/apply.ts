@@ -0,0 +1,139 @@
+/**
+ * Apply command implementation
+ *
+ * Runs the pending migrations against pb_data/data.db without PocketBase:
+ * the engine executes them, and the collections, tables, indexes, records
+ * and `_migrations` entries they produce are written in PocketBase's format.
+ * Meant for CI and test fixtures; PocketBase must not be running.
+ */
+
+import chalk from "chalk";
+import { Command } from "commander";
+import { DatabaseApplyError, applyMigrationsToDatabase } from "../../migration/engine/index.js";
+import { ConfigurationError, MigrationExecutionError } from "../../migration/errors.js";
+import { getDataDirectory, getMigrationsDirectory, loadConfig } from "../utils/config.js";
+import {
+  logDebug,
+  logError,
+  logInfo,
+  logKeyValue,
+  logSection,
+  logSuccess,
+  logWarning,
+  setVerbosity,
+} from "../utils/logger.js";
+
+/**
+ * Executes the apply command
+ *
+ * @param options - Command options
+ */
+export async function executeApply(options: any): Promise<void> {
+  try {
+    const parentOpts = options.parent?.opts?.() || {};
+    if (parentOpts.verbose) {
+      setVerbosity("verbose");
+    } else if (parentOpts.quiet) {
+      setVerbosity("quiet");
+    }
+
+    logDebug("Applying migrations to the database...");
+    logDebug(`Options: ${JSON.stringify(options, null, 2)}`);
+
+    const config = await loadConfig(options);
+    const migrationsDir = getMigrationsDirectory(config);
+    const dataPath = getDataDirectory(config);
+
+    logSection("🗄️  Applying Migrations");
+
+    const result = applyMigrationsToDatabase(migrationsDir, dataPath, { dryRun: options.dryRun === true });
+    logKeyValue("Database", result.database + (result.created ? " (new)" : ""));
+    logKeyValue("Migrations", migrationsDir);
+
+    for (const warning of result.warnings) {
+      logDebug(`${warning.file ?? "migration"}: ${warning.message}`);
+    }
+
+    if (options.dryRun) {
+      console.log();
+      logInfo(
+        `Dry run — would apply ${result.applied.length} migration(s) with ${result.statements.length} statement(s):`
+      );
+      for (const statement of result.statements) {
+        const params = statement.params.length > 0 ? chalk.gray(`  -- ${JSON.stringify(statement.params)}`) : "";
+        console.log(`  ${statement.sql.replace(/\s*\n\s*/g, " ")};${params}`);
+      }
+    } else if (result.applied.length === 0 && !result.created) {
+      console.log();
+      logSuccess("Nothing to apply: every migration is already in _migrations");
+      return;
+    } else {
+      console.log();
+      for (const file of result.applied) {
+        console.log(`  ${chalk.green("✓")} ${file}`);
+      }
+      logSuccess(
+        `Applied ${result.applied.length} migration(s)` + (result.created ? " to a new PocketBase database" : "")
+      );
+    }
+
+    if (result.notes.length > 0) {
+      console.log();
+      for (const note of result.notes) {
+        logWarning(note);
+      }
+    }
+    console.log();
+  } catch (error) {
+    if (error instanceof DatabaseApplyError) {
+      logError("Could not apply the migrations to the database");
+      console.error();
+      console.error(error.message);
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Writing pb_data/data.db needs Node >= 22.5 (built-in node:sqlite)");
+      console.log("  • Stop PocketBase before applying migrations to its database");
+      console.log("  • Point at another location with --pb-data <path>");
+    } else if (error instanceof MigrationExecutionError) {
+      logError("A migration failed; the database was not changed");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Run pocketbase-migrate lint to find the failing migration");
+    } else if (error instanceof ConfigurationError) {
+      logError("Configuration Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+    } else {
+      logError(`Failed to apply migrations: ${error}`);
+      if (error instanceof Error && error.stack) {
+        console.error(error.stack);
+      }
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Creates the apply command
+ *
+ * @returns Commander command instance
+ */
+export function createApplyCommand(): Command {
+  return new Command("apply")
+    .description("Apply pending migrations to a SQLite database without running PocketBase")
+    .option("--pb-data <path>", "PocketBase data directory or data.db file (defaults to pb_data next to migrations)")
+    .option("-o, --output <directory>", "Migrations directory to apply")
+    .option("--dry-run", "Print the SQL that would run without writing", false)
+    .addHelpText(
+      "after",
+      `
+Examples:
+  $ pocketbase-migrate apply                        Bring pb_data/data.db up to date (creating it if needed)
+  $ pocketbase-migrate apply --pb-data ./fixture    Build a test database in another directory
+  $ pocketbase-migrate apply --dry-run              Print the SQL without writing
+`
+    )
+    .action(executeApply);
+}
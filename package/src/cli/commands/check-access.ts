@@ -0,0 +1,189 @@
+/**
+ * Check-access command implementation
+ *
+ * Evaluates a collection's API rule for one simulated request — who is
+ * asking, what they send, which record they touch — and prints whether
+ * PocketBase would allow it, and why. Sample records come from a JSON file
+ * keyed by collection name, so relation and back-relation hops resolve.
+ */
+
+import chalk from "chalk";
+import { Command } from "commander";
+import * as fs from "fs";
+import * as path from "path";
+import { CLIUsageError, ConfigurationError } from "../../migration/errors.js";
+import {
+  checkAccess,
+  parseSchemaFiles,
+  type AccessAction,
+  type AccessRequest,
+  type SimulatedRecord,
+  type SimulatedRecords,
+} from "../../migration/index.js";
+import { getSchemaDirectory, loadConfig } from "../utils/config.js";
+import { logDebug, logError, logSection, logSuccess, setVerbosity, withProgress } from "../utils/logger.js";
+
+const ACTIONS: AccessAction[] = ["list", "view", "create", "update", "delete", "manage"];
+
+/**
+ * Reads a JSON option, given inline or as `@file`
+ */
+function readJsonOption(value: string, option: string): unknown {
+  const source = value.startsWith("@") ? fs.readFileSync(path.resolve(process.cwd(), value.slice(1)), "utf-8") : value;
+  try {
+    return JSON.parse(source);
+  } catch (error) {
+    throw new CLIUsageError(`${option} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Reads the sample records file: `{ "<collection>": [{ "id": ..., ... }] }`
+ */
+function readRecords(file: string | undefined): SimulatedRecords {
+  if (!file) {
+    return {};
+  }
+  const data = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), file), "utf-8"));
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new CLIUsageError(`${file} must hold an object of record arrays keyed by collection name`);
+  }
+  return data as SimulatedRecords;
+}
+
+/**
+ * Resolves `--auth <collection:id>` (or a bare id, searched in every
+ * collection) to a sample record. `_superusers:<id>` needs no sample record.
+ */
+function resolveAuth(value: string | undefined, records: SimulatedRecords): AccessRequest["auth"] {
+  if (!value) {
+    return null;
+  }
+
+  const separator = value.indexOf(":");
+  const collectionName = separator === -1 ? undefined : value.slice(0, separator);
+  const id = separator === -1 ? value : value.slice(separator + 1);
+
+  if (collectionName === "_superusers") {
+    return { id, collectionName };
+  }
+
+  const candidates = collectionName ? [collectionName] : Object.keys(records);
+  for (const candidate of candidates) {
+    const record = records[candidate]?.find((entry) => entry.id === id);
+    if (record) {
+      return { ...record, collectionName: candidate };
+    }
+  }
+
+  throw new CLIUsageError(
+    `Auth record '${value}' is not in the sample records; pass --data with a file that contains it`
+  );
+}
+
+/**
+ * Executes the check-access command
+ *
+ * @param collection - Collection whose rule is checked
+ * @param action - list, view, create, update, delete or manage
+ * @param options - Command options
+ */
+export async function executeCheckAccess(collection: string, action: string, options: any): Promise<void> {
+  try {
+    const parentOpts = options.parent?.opts?.() || {};
+    if (parentOpts.verbose) {
+      setVerbosity("verbose");
+    } else if (parentOpts.quiet) {
+      setVerbosity("quiet");
+    }
+
+    if (!ACTIONS.includes(action as AccessAction)) {
+      throw new CLIUsageError(`Unknown action '${action}', expected one of: ${ACTIONS.join(", ")}`);
+    }
+
+    const config = await loadConfig(options);
+    const schemaDir = getSchemaDirectory(config);
+
+    const schema = await withProgress("Parsing Zod schemas...", () =>
+      parseSchemaFiles({
+        schemaDir,
+        excludePatterns: config.schema.exclude,
+        useCompiledFiles: false,
+      })
+    );
+
+    const records = readRecords(options.data);
+    const body = options.body ? (readJsonOption(options.body, "--body") as Record<string, unknown>) : undefined;
+    const record: SimulatedRecord | string | undefined = options.record?.trim().startsWith("{")
+      ? (readJsonOption(options.record, "--record") as SimulatedRecord)
+      : options.record;
+
+    const request: AccessRequest = {
+      collection,
+      action: action as AccessAction,
+      record,
+      auth: resolveAuth(options.auth, records),
+      body,
+      method: options.method,
+    };
+    logDebug(`Request: ${JSON.stringify(request, null, 2)}`);
+
+    const decision = checkAccess(schema, records, request);
+
+    logSection(`🔐 ${collection}.${decision.ruleType}`);
+    console.log();
+    console.log(
+      `  Rule: ${decision.rule === null ? chalk.gray("null (superusers only)") : decision.rule || chalk.gray('"" (public)')}`
+    );
+    console.log();
+    for (const reason of decision.reasons) {
+      console.log(`  • ${reason}`);
+    }
+    console.log();
+
+    if (!decision.allowed) {
+      logError(`DENY: ${action} on ${collection}`);
+      process.exit(1);
+    }
+    logSuccess(`ALLOW: ${action} on ${collection}`);
+  } catch (error) {
+    if (error instanceof ConfigurationError) {
+      logError("Configuration Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+    } else {
+      logError(`Failed to check access: ${error instanceof Error ? error.message : error}`);
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Creates the check-access command
+ *
+ * @returns Commander command instance
+ */
+export function createCheckAccessCommand(): Command {
+  return new Command("check-access")
+    .description("Evaluate a collection's API rule for a simulated request")
+    .argument("<collection>", "Collection whose rule is checked")
+    .argument("<action>", `One of: ${ACTIONS.join(", ")}`)
+    .option("--data <file>", "JSON file of sample records keyed by collection name")
+    .option("--record <id|json>", "Record acted on: an id in the sample records, or the record as JSON")
+    .option("--auth <collection:id>", "Authenticated record (omit for a guest; _superusers:<id> for a superuser)")
+    .option("--body <json|@file>", "Request body, as JSON or @file")
+    .option("--method <method>", "Request method (defaults to the action's)")
+    .option("--schema-dir <directory>", "Directory containing Zod schema files")
+    .addHelpText(
+      "after",
+      `
+Examples:
+  $ pocketbase-migrate check-access posts list                                  As a guest
+  $ pocketbase-migrate check-access posts update --data fixtures.json \\
+      --record p1 --auth users:u1 --body '{"title":"Renamed"}'                As user u1
+
+Exits with code 1 when the request is denied.
+`
+    )
+    .action(executeCheckAccess);
+}
@@ -0,0 +1,125 @@
+/**
+ * Doctor command implementation
+ *
+ * After two branches that each generated migrations are merged, a migration
+ * can run after changes its author never saw. This replays the migrations
+ * directory, round-trips every migration against the state its predecessors
+ * leave, and reports the ones written for another pre-state along with the
+ * earlier migrations they collide with.
+ */
+
+import chalk from "chalk";
+import { Command } from "commander";
+import { ConfigurationError, MigrationExecutionError } from "../../migration/errors.js";
+import { diagnoseMigrations, type MigrationConflict } from "../../migration/rebase.js";
+import { getMigrationsDirectory, loadConfig } from "../utils/config.js";
+import { logDebug, logError, logInfo, logKeyValue, logSection, logSuccess, setVerbosity } from "../utils/logger.js";
+
+/**
+ * Prints one conflict
+ */
+function reportConflict(conflict: MigrationConflict): void {
+  const problem =
+    conflict.kind === "up-failed"
+      ? "up() fails against the state the migrations before it leave"
+      : "down() does not restore the state the migrations before it leave";
+
+  console.log(chalk.red(`  ✗ ${conflict.file}`));
+  console.log(`      ${problem}`);
+  for (const detail of conflict.details) {
+    console.log(chalk.gray(`      ${detail}`));
+  }
+  if (conflict.conflictsWith.length > 0) {
+    console.log(chalk.yellow(`      conflicts with ${conflict.conflictsWith.join(", ")}`));
+  }
+  console.log();
+}
+
+/**
+ * Executes the doctor command
+ *
+ * @param options - Command options
+ */
+export async function executeDoctor(options: any): Promise<void> {
+  try {
+    const parentOpts = options.parent?.opts?.() || {};
+    if (parentOpts.verbose) {
+      setVerbosity("verbose");
+    } else if (parentOpts.quiet) {
+      setVerbosity("quiet");
+    }
+
+    const config = await loadConfig(options);
+    const migrationsDir = getMigrationsDirectory(config);
+
+    logSection("🩺 Checking Migrations");
+    logKeyValue("Migrations", migrationsDir);
+    console.log();
+
+    const diagnosis = diagnoseMigrations(migrationsDir);
+    for (const warning of diagnosis.warnings) {
+      logDebug(`${warning.file ?? "migration"}: ${warning.message}`);
+    }
+
+    if (diagnosis.checked.length === 0) {
+      logInfo(`No migration files found in ${migrationsDir}`);
+      return;
+    }
+
+    if (diagnosis.conflicts.length === 0) {
+      logSuccess(`${diagnosis.checked.length} migration(s) each meet the state they were written for`);
+      return;
+    }
+
+    for (const conflict of diagnosis.conflicts) {
+      reportConflict(conflict);
+    }
+
+    logError(
+      `${diagnosis.conflicts.length} of ${diagnosis.checked.length} migration(s) were written for another state`
+    );
+    console.log();
+    logInfo("Suggestions:");
+    console.log("  • Regenerate them on top of the merged migrations with: pocketbase-migrate rebase");
+    console.log("  • Name the later branch's other migrations too: pocketbase-migrate rebase <files...>");
+    console.log();
+    process.exit(1);
+  } catch (error) {
+    if (error instanceof MigrationExecutionError) {
+      logError("Could not replay the migrations");
+      console.error();
+      console.error(error.getDetailedMessage());
+    } else if (error instanceof ConfigurationError) {
+      logError("Configuration Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+    } else {
+      logError(`Failed to check migrations: ${error}`);
+      if (error instanceof Error && error.stack) {
+        console.error(error.stack);
+      }
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Creates the doctor command
+ *
+ * @returns Commander command instance
+ */
+export function createDoctorCommand(): Command {
+  return new Command("doctor")
+    .description("Find migrations written for a state they no longer meet, e.g. after merging branches")
+    .option("-o, --output <directory>", "Directory containing migration files")
+    .option("--env <name>", "Use a named environment's migrations directory from the config file")
+    .addHelpText(
+      "after",
+      `
+Examples:
+  $ pocketbase-migrate doctor                  Check every migration after a merge
+  $ pocketbase-migrate doctor -o ./migrations  Check another migrations directory
+`
+    )
+    .action(executeDoctor);
+}
@@ -0,0 +1,212 @@
+/**
+ * Drift command implementation
+ *
+ * `status` trusts `_migrations`: a database that ran every migration is taken
+ * to be in the state they describe. This checks that trust. The applied
+ * migrations are replayed and compared with the collections the database
+ * actually holds, naming every collection, field, rule and index edited
+ * outside the migrations — typically in the admin UI. With `--reconcile`
+ * the drift is written up as a migration, so the other environments get the
+ * same edits and the migrations describe this database again.
+ */
+
+import chalk from "chalk";
+import { Command } from "commander";
+import {
+  AppliedMigrationsError,
+  DatabaseCollectionsError,
+  detectDrift,
+  discoverMigrations,
+  type CollectionDrift,
+  type DriftReport,
+} from "../../migration/engine/index.js";
+import { ConfigurationError, MigrationExecutionError } from "../../migration/errors.js";
+import { planReconcileMigration, writePlannedMigrations } from "../../migration/generator/index.js";
+import { getDataDirectory, getMigrationsDirectory, loadConfig } from "../utils/config.js";
+import {
+  logDebug,
+  logError,
+  logInfo,
+  logKeyValue,
+  logSection,
+  logSuccess,
+  logWarning,
+  setVerbosity,
+} from "../utils/logger.js";
+
+/**
+ * Formats one drifted collection: a heading, then one line per difference
+ *
+ * @param entry - The drifted collection
+ * @returns Lines for console output
+ */
+function formatCollectionDrift(entry: CollectionDrift): string[] {
+  const heading = !entry.expected
+    ? chalk.green(`+ ${entry.collection} (only in the database)`)
+    : !entry.actual
+      ? chalk.red(`- ${entry.collection} (missing from the database)`)
+      : chalk.yellow(`~ ${entry.collection}`);
+
+  if (!entry.expected || !entry.actual) {
+    return [`  ${heading}`];
+  }
+  return [`  ${heading}`, ...entry.differences.map((difference) => `      • ${difference.message}`)];
+}
+
+/**
+ * Prints how the replayed migrations relate to `_migrations`, when they differ
+ *
+ * @param report - The drift report
+ */
+function reportPlan(report: DriftReport): void {
+  const { plan } = report;
+  if (plan.missing.length > 0) {
+    logWarning(`${plan.missing.length} applied migration(s) are no longer on disk; their changes count as drift:`);
+    for (const file of plan.missing) {
+      console.log(`  ${file}`);
+    }
+  }
+  if (plan.pending.length > 0) {
+    logInfo(`${plan.pending.length} migration(s) on disk are not applied yet and were left out of the comparison`);
+  }
+}
+
+/**
+ * Executes the drift command
+ *
+ * @param options - Command options
+ */
+export async function executeDrift(options: any): Promise<void> {
+  try {
+    const parentOpts = options.parent?.opts?.() || {};
+    if (parentOpts.verbose) {
+      setVerbosity("verbose");
+    } else if (parentOpts.quiet) {
+      setVerbosity("quiet");
+    }
+
+    logDebug("Comparing the migrations with the database...");
+    logDebug(`Options: ${JSON.stringify(options, null, 2)}`);
+
+    const config = await loadConfig(options);
+    const migrationsDir = getMigrationsDirectory(config);
+    const dataPath = getDataDirectory(config);
+
+    logSection("🔎 Checking for Drift");
+
+    const report = detectDrift(migrationsDir, dataPath, { includeSystem: options.includeSystem === true });
+    logKeyValue("Database", report.database);
+    logKeyValue("Migrations", migrationsDir);
+    logKeyValue("Applied migrations", String(report.plan.appliedCount));
+
+    reportPlan(report);
+    for (const warning of report.warnings) {
+      logDebug(`${warning.file ?? "migration"}: ${warning.message}`);
+    }
+
+    if (report.collections.length === 0) {
+      console.log();
+      logSuccess("No drift: the database matches its applied migrations");
+      return;
+    }
+
+    console.log();
+    logWarning(
+      `${report.collections.length} collection(s) differ from the applied migrations ` +
+        `(${report.differences.length} difference(s)):`
+    );
+    console.log();
+    for (const entry of report.collections) {
+      for (const line of formatCollectionDrift(entry)) {
+        console.log(line);
+      }
+    }
+    console.log();
+
+    if (!options.reconcile) {
+      logInfo("To record these changes as a migration:");
+      console.log(chalk.cyan("     pocketbase-migrate drift --reconcile"));
+      console.log();
+      process.exit(1);
+    }
+
+    // After every migration on disk, so it replays on top of all of them
+    const lastTimestamp = discoverMigrations(migrationsDir).reduce(
+      (latest, migration) => Math.max(latest, migration.timestamp),
+      0
+    );
+    const timestamp = Math.max(lastTimestamp + 1, Math.floor(Date.now() / 1000));
+    const planned = planReconcileMigration(report.collections, {
+      migrationDir: migrationsDir,
+      timestampGenerator: () => String(timestamp),
+    });
+    if (!planned) {
+      return;
+    }
+
+    const [migrationPath] = writePlannedMigrations([planned], migrationsDir);
+    logSuccess(`Wrote ${migrationPath}`);
+    logInfo("It changes nothing in this database; commit it so other environments pick up the same edits.");
+    if (report.plan.pending.length > 0) {
+      logWarning("Migrations not applied here yet will run before it; review it against them.");
+    }
+    console.log();
+  } catch (error) {
+    if (error instanceof AppliedMigrationsError || error instanceof DatabaseCollectionsError) {
+      logError("Could not read the database");
+      console.error();
+      console.error(error.message);
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Reading pb_data/data.db needs Node >= 22.5 (built-in node:sqlite)");
+      console.log("  • Point at another location with --pb-data <path>");
+    } else if (error instanceof MigrationExecutionError) {
+      logError("Could not replay the applied migrations");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Run pocketbase-migrate lint to find the failing migration");
+    } else if (error instanceof ConfigurationError) {
+      logError("Configuration Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Check your configuration file syntax");
+      console.log("  • Check the migrations directory passed to --output");
+    } else {
+      logError(`Failed to check for drift: ${error}`);
+      if (error instanceof Error && error.stack) {
+        console.error(error.stack);
+      }
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Creates the drift command
+ *
+ * @returns Commander command instance
+ */
+export function createDriftCommand(): Command {
+  return new Command("drift")
+    .description("Compare the collections in a PocketBase database with its applied migrations")
+    .option("--pb-data <path>", "PocketBase data directory or data.db file (defaults to pb_data next to migrations)")
+    .option("-o, --output <directory>", "Migrations directory to replay and write into")
+    .option("--reconcile", "Write a migration that records the drift", false)
+    .option("--include-system", "Also compare PocketBase's own collections (system and default users)", false)
+    .addHelpText(
+      "after",
+      `
+Examples:
+  $ pocketbase-migrate drift                       Report changes made outside the migrations
+  $ pocketbase-migrate drift --pb-data ./pb_data   Check a specific data directory
+  $ pocketbase-migrate drift --reconcile           Write the drift up as a migration
+
+Exits with status 1 when the database has drifted and no migration was written.
+`
+    )
+    .action(executeDrift);
+}
@@ -4,8 +4,159 @@ import * as path from "path";
 import { parseSchemaFiles } from "../../migration/index.js";
 import type { SchemaDefinition } from "../../migration/types.js";
 import { TypeGenerator } from "../../type-gen/generator.js";
-import { getSchemaDirectory, loadConfig } from "../utils/config.js";
-import { logDebug, logError, logSection, logSuccess, setVerbosity, withProgress } from "../utils/logger.js";
+import { ValidatorGenerator } from "../../type-gen/validators.js";
+import { getSchemaDirectory, loadConfig, type MigrationConfig } from "../utils/config.js";
+import { logDebug, logError, logInfo, logSection, logSuccess, setVerbosity, withProgress } from "../utils/logger.js";
+import { watchSchemaDirectory } from "../utils/watch.js";
+
+/**
+ * What one run of generate-types produced
+ */
+interface GeneratedTypes {
+  schema: SchemaDefinition;
+  outputPath: string;
+  validatorsPath?: string;
+  /** Output files whose content changed and were rewritten */
+  written: string[];
+}
+
+/**
+ * Writes a file unless it already holds the content, so tools watching the
+ * output (tsc, bundlers) are not retriggered by a run that changed nothing
+ *
+ * @returns True if the file was written
+ */
+function writeIfChanged(filePath: string, content: string): boolean {
+  const resolved = path.resolve(process.cwd(), filePath);
+  if (fs.existsSync(resolved) && fs.readFileSync(resolved, "utf-8") === content) {
+    return false;
+  }
+  fs.writeFileSync(resolved, content);
+  return true;
+}
+
+/**
+ * Parses the schema and generates the types, and the validators when asked
+ *
+ * @param options - Command options
+ * @param config - Loaded configuration
+ * @param reload - Import the schema modules afresh (watch mode)
+ */
+async function generateTypeFiles(options: any, config: MigrationConfig, reload = false): Promise<GeneratedTypes> {
+  const schemaDir = getSchemaDirectory(config);
+
+  logSection("🔍 Analyzing Schema");
+
+  // Parse schema files
+  const analyzerConfig = {
+    schemaDir,
+    excludePatterns: config.schema.exclude,
+    useCompiledFiles: false,
+    reload,
+  };
+  const currentSchema: SchemaDefinition = await withProgress("Parsing Zod schemas...", () => parseSchemaFiles(analyzerConfig));
+
+  logSuccess(`Found ${currentSchema.collections.size} collection(s)`);
+
+  // Generate types
+  logSection("📝 Generating Types");
+  const generator = new TypeGenerator(currentSchema);
+  const output = await withProgress("Generating TypeScript definitions...", () => Promise.resolve(generator.generate()));
+
+  // Write output file
+  const outputPath = options.output || config.typeGen.outPath;
+  const written: string[] = [];
+  if (writeIfChanged(outputPath, output)) {
+    written.push(outputPath);
+  }
+
+  // Generate validators
+  // The input schemas for each collection's create and update requests,
+  // written next to the types unless given a path of their own
+  let validatorsPath: string | undefined;
+  if (options.validators) {
+    const validatorsOutPath =
+      typeof options.validators === "string"
+        ? options.validators
+        : path.join(path.dirname(outputPath), "pocketbase-validators.ts");
+
+    const validatorGenerator = new ValidatorGenerator(currentSchema);
+    const validators = await withProgress("Generating Zod validators...", () =>
+      Promise.resolve(validatorGenerator.generate())
+    );
+    if (writeIfChanged(validatorsOutPath, validators)) {
+      written.push(validatorsOutPath);
+    }
+    validatorsPath = validatorsOutPath;
+  }
+
+  return { schema: currentSchema, outputPath, validatorsPath, written };
+}
+
+/**
+ * Names the collections that were added, removed or changed between two runs
+ *
+ * @param previous - Each collection's serialized schema from the previous run
+ * @param current - Each collection's serialized schema now
+ */
+function describeCollectionChanges(previous: Map<string, string>, current: Map<string, string>): string[] {
+  const changes: string[] = [];
+  for (const [name, serialized] of current) {
+    if (!previous.has(name)) {
+      changes.push(`+${name}`);
+    } else if (previous.get(name) !== serialized) {
+      changes.push(name);
+    }
+  }
+  for (const name of previous.keys()) {
+    if (!current.has(name)) {
+      changes.push(`-${name}`);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Serializes each collection's parsed schema, for comparing runs
+ */
+function serializeCollections(schema: SchemaDefinition): Map<string, string> {
+  return new Map([...schema.collections].map(([name, collection]) => [name, JSON.stringify(collection)]));
+}
+
+/**
+ * Regenerates on every schema change, rewriting only the files whose
+ * content changed and naming the collections that did
+ *
+ * @param options - Command options
+ * @param config - Loaded configuration
+ */
+async function watchGenerateTypes(options: any, config: MigrationConfig): Promise<void> {
+  let previous: Map<string, string> | null = null;
+
+  await watchSchemaDirectory(getSchemaDirectory(config), async () => {
+    try {
+      const result = await generateTypeFiles(options, config, true);
+      const current = serializeCollections(result.schema);
+
+      if (previous) {
+        const changes = describeCollectionChanges(previous, current);
+        if (changes.length > 0) {
+          logInfo(`Collections changed: ${changes.join(", ")}`);
+        }
+      }
+      previous = current;
+
+      if (result.written.length === 0) {
+        logSuccess("Types are up to date");
+      }
+      for (const written of result.written) {
+        logSuccess(`Updated ${written}`);
+      }
+    } catch (error) {
+      logError(`Failed to generate types: ${error}`);
+    }
+  });
+}
 
 export async function executeGenerateTypes(options: any): Promise<void> {
   try {
@@ -22,38 +173,29 @@ export async function executeGenerateTypes(options: any): Promise<void> {
 
     // Load configuration
     const config = await loadConfig(options);
-    const schemaDir = getSchemaDirectory(config);
-
-    logSection("🔍 Analyzing Schema");
-
-    // Parse schema files
-    const analyzerConfig = {
-      schemaDir,
-      excludePatterns: config.schema.exclude,
-      useCompiledFiles: false,
-    };
-    const currentSchema: SchemaDefinition = await withProgress("Parsing Zod schemas...", () => parseSchemaFiles(analyzerConfig));
-
-    logSuccess(`Found ${currentSchema.collections.size} collection(s)`);
 
-    // Generate types
-    logSection("📝 Generating Types");
-    const generator = new TypeGenerator(currentSchema);
-    const output = await withProgress("Generating TypeScript definitions...", () => Promise.resolve(generator.generate()));
-
-    // Write output file
-    const outputPath = options.output || config.typeGen.outPath;
-    const resolvedPath = path.resolve(process.cwd(), outputPath);
+    if (options.watch) {
+      await watchGenerateTypes(options, config);
+      return;
+    }
 
-    fs.writeFileSync(resolvedPath, output);
+    const { outputPath, validatorsPath } = await generateTypeFiles(options, config);
 
     logSuccess(`Types generated successfully at: ${outputPath}`);
+    if (validatorsPath) {
+      logSuccess(`Validators generated successfully at: ${validatorsPath}`);
+    }
 
     // Display next steps
     logSection("✅ Next Steps");
     console.log();
     console.log("  1. Import types in your application:");
     console.log(`     import { TypedPocketBase } from "./${path.basename(outputPath).replace(/\.ts$/, '')}";`);
+    if (validatorsPath) {
+      console.log();
+      console.log("  2. Validate input before sending it:");
+      console.log(`     import { collectionValidators } from "./${path.basename(validatorsPath).replace(/\.ts$/, "")}";`);
+    }
     console.log();
 
   } catch (error) {
@@ -71,5 +213,10 @@ export function createGenerateTypesCommand(): Command {
     .description("Generate TypeScript definitions from Zod schemas")
     .option("-o, --output <path>", "Output file path")
     .option("--schema-dir <directory>", "Directory containing Zod schema files")
+    .option(
+      "--validators [path]",
+      "Also generate Zod validators for create/update input (default: pocketbase-validators.ts next to the types)"
+    )
+    .option("-w, --watch", "Regenerate on every schema change", false)
     .action(executeGenerateTypes);
 }
@@ -3,9 +3,17 @@
  * Generates migrations from schema changes
  */
 
+import chalk from "chalk";
 import { Command } from "commander";
 import * as path from "path";
+import { listFieldTypeConversions } from "../../migration/conversions.js";
 import {
+  verifyFieldConversions,
+  type FieldConversionCheck,
+  type FieldConversionReport,
+} from "../../migration/engine/index.js";
+import {
+  CLIUsageError,
   ConfigurationError,
   FileSystemError,
   MigrationExecutionError,
@@ -17,35 +25,59 @@ import {
   CollectionStore,
   compare,
   detectDestructiveChanges,
+  diffSeeds,
+  diffSettings,
   filterDiff,
-  formatDestructiveChanges,
+  filterSeedChanges,
+  filterSettingsChanges,
   formatGojaLintFinding,
+  formatSettingValue,
   lintMigrationSource,
   parseSchemaFiles,
   planMigrations,
+  planSeedMigrations,
+  planSettingsMigration,
   replayMigrationsDirectory,
-  requiresForceFlag,
-  summarizeDestructiveChanges,
+  validateSchemaRules,
   verifyMigrationSources,
   writePlannedMigrations,
+  type DestructiveChange,
   type GojaLintResult,
   type MigrationRoundTripResult,
   type PlannedMigration,
+  type SeedChanges,
+  type SettingChange,
 } from "../../migration/index.js";
+import {
+  applyBackfills,
+  findBackfillQuestions,
+  findDestructiveQuestions,
+  findRenameQuestions,
+  formatDiffQuestion,
+  listDiffQuestions,
+  parseBackfillAnswer,
+  splitRenames,
+  type BackfillQuestion,
+  type RenameQuestion,
+} from "../../migration/questions.js";
 import { loadSnapshotWithMigrations } from "../../migration/snapshot.js";
-import type { SchemaDefinition } from "../../migration/types.js";
+import type { FieldBackfill, SchemaDefinition, SchemaDiff } from "../../migration/types.js";
 import { getMigrationsDirectory, getSchemaDirectory, loadConfig, type MigrationConfig } from "../utils/config.js";
+import { handleDestructiveChanges } from "../utils/destructive.js";
 import {
   formatChangeSummary,
   logDebug,
   logError,
   logInfo,
+  logRuleIssues,
   logSection,
   logSuccess,
   logWarning,
   setVerbosity,
   withProgress,
 } from "../utils/logger.js";
+import { ask, confirm } from "../utils/prompt.js";
+import { watchSchemaDirectory } from "../utils/watch.js";
 
 /**
  * Checks if there are any changes in the diff
@@ -60,74 +92,67 @@ function hasChanges(diff: any): boolean {
 }
 
 /**
- * Handles destructive changes with warnings and force flag
+ * Compares the schema's seeds with the records the existing migrations
+ * produce, replaying them with record operations executed
  *
- * @param diff - Schema diff containing changes
- * @param config - Migration configuration
- * @param force - Force flag from CLI
- * @returns True if should proceed, false otherwise
+ * @param schema - Parsed schema, carrying its seeds
+ * @param migrationsDir - Directory holding the existing migrations
+ * @returns Changes per seeded collection that is out of sync
  */
-function handleDestructiveChanges(diff: any, config: MigrationConfig, force: boolean): boolean {
-  // Detect destructive changes
-  const destructiveChanges = detectDestructiveChanges(diff);
-
-  if (destructiveChanges.length === 0) {
-    return true; // No destructive changes, proceed
+function diffSchemaSeeds(schema: SchemaDefinition, migrationsDir: string): SeedChanges[] {
+  if (!schema.seeds || schema.seeds.length === 0) {
+    return [];
   }
+  const replayed = replayMigrationsDirectory(migrationsDir, { records: "simulate" });
+  return diffSeeds(schema.seeds, replayed?.store ?? null);
+}
 
-  // Display destructive changes warning
-  logSection("⚠️  Destructive Changes Detected");
-  console.log();
-
-  // Format and display destructive changes
-  console.log(formatDestructiveChanges(destructiveChanges));
-
-  // Display summary
-  const summary = summarizeDestructiveChanges(destructiveChanges);
-  console.log("Summary:");
-  console.log(`  Total: ${summary.total} destructive change(s)`);
-  if (summary.high > 0) {
-    console.log(`  High Severity: ${summary.high}`);
-  }
-  if (summary.medium > 0) {
-    console.log(`  Medium Severity: ${summary.medium}`);
-  }
-  if (summary.low > 0) {
-    console.log(`  Low Severity: ${summary.low}`);
-  }
-  console.log();
-
-  // Check if force flag is required
-  const forceRequired = config.diff.requireForceForDestructive && requiresForceFlag(destructiveChanges);
-
-  if (forceRequired && !force) {
-    // This path should technically be unreachable if we filtered destructive changes when !force
-    // But keeping it as a safety net
-    logError("Destructive changes require the --force flag to proceed.");
-    console.log();
-    logInfo("To proceed with these changes, run the command again with --force:");
-    console.log("  yarn migrate:generate --force");
-    console.log();
-    logWarning("⚠️  WARNING: Using --force will apply these changes and may result in data loss!");
-    return false;
+/**
+ * Compares the schema's app settings with the settings the existing
+ * migrations leave
+ *
+ * @param schema - Parsed schema, carrying its settings
+ * @param migrationsDir - Directory holding the existing migrations
+ * @returns One change per declared setting that differs
+ */
+function diffSchemaSettings(schema: SchemaDefinition, migrationsDir: string): SettingChange[] {
+  if (!schema.settings) {
+    return [];
   }
+  const replayed = replayMigrationsDirectory(migrationsDir);
+  return diffSettings(schema.settings, replayed?.store ?? null);
+}
 
-  if (force) {
-    logWarning("Proceeding with destructive changes (--force flag provided)");
-    console.log();
-  }
+/**
+ * Formats one collection's seed changes for the change summary
+ */
+function formatSeedChanges(changes: SeedChanges): string {
+  const parts = [
+    changes.inserts.length > 0 ? `${changes.inserts.length} to insert` : "",
+    changes.updates.length > 0 ? `${changes.updates.length} to update` : "",
+    changes.deletes.length > 0 ? `${changes.deletes.length} to delete` : "",
+  ].filter(Boolean);
+  return `  🌱 ${changes.collection}: ${parts.join(", ")}`;
+}
 
-  return true;
+/**
+ * Formats one settings change for the change summary
+ */
+function formatSettingChange(change: SettingChange): string {
+  const before = formatSettingValue(change.path, change.before);
+  return `  ⚙️  ${change.path}: ${before} → ${formatSettingValue(change.path, change.after)}`;
 }
 
 /**
  * Outcome of the pre-write verification pass
  */
 type VerificationOutcome =
-  | { status: "verified"; count: number }
+  | { status: "verified"; count: number; conversions: number }
   /** The existing migrations could not be executed, so there is no baseline */
   | { status: "baseline-unexecutable"; error: MigrationExecutionError }
   | { status: "failed"; failures: MigrationRoundTripResult[] }
+  /** A type conversion lost or mangled values in the simulated records */
+  | { status: "conversion-failed"; report: FieldConversionReport }
   /** The migration would not run in PocketBase's goja runtime */
   | { status: "incompatible"; results: GojaLintResult[] };
 
@@ -136,11 +161,19 @@ type VerificationOutcome =
  * PocketBase JSVM, starting from the state the existing migrations
  * reconstruct, and reports anything that does not roll back cleanly.
  *
+ * Field type conversions are then run over sample records, so a conversion
+ * that would fail or mangle values is caught before anything is written.
+ *
  * @param planned - Migrations generated but not yet written
  * @param migrationsDir - Directory holding the existing migrations
+ * @param conversions - Fields whose type the planned migrations change
  * @returns What the verification found (rendered by reportVerification)
  */
-function verifyPlannedMigrations(planned: PlannedMigration[], migrationsDir: string): VerificationOutcome {
+function verifyPlannedMigrations(
+  planned: Array<Pick<PlannedMigration, "filename" | "content">>,
+  migrationsDir: string,
+  conversions: FieldConversionCheck[] = []
+): VerificationOutcome {
   // Executing in the engine proves nothing about goja, which is what will
   // actually run the file — so check compatibility before round-tripping
   const lintResults = planned.map((migration) => lintMigrationSource(migration.content, { file: migration.filename }));
@@ -159,14 +192,21 @@ function verifyPlannedMigrations(planned: PlannedMigration[], migrationsDir: str
     throw error;
   }
 
-  const report = verifyMigrationSources(
-    planned.map((migration) => ({ file: migration.filename, source: migration.content })),
-    { initialStore: baseline }
-  );
+  const sources = planned.map((migration) => ({ file: migration.filename, source: migration.content }));
+  const report = verifyMigrationSources(sources, { initialStore: baseline });
+  if (!report.ok) {
+    return { status: "failed", failures: report.failures };
+  }
+
+  if (conversions.length > 0) {
+    const conversionReport = verifyFieldConversions(sources, conversions, { initialStore: baseline });
+    if (!conversionReport.ok) {
+      return { status: "conversion-failed", report: conversionReport };
+    }
+    return { status: "verified", count: report.results.length, conversions: conversionReport.checked };
+  }
 
-  return report.ok
-    ? { status: "verified", count: report.results.length }
-    : { status: "failed", failures: report.failures };
+  return { status: "verified", count: report.results.length, conversions: 0 };
 }
 
 /**
@@ -177,9 +217,33 @@ function verifyPlannedMigrations(planned: PlannedMigration[], migrationsDir: str
 function reportVerification(outcome: VerificationOutcome): boolean {
   if (outcome.status === "verified") {
     logSuccess(`Verified ${outcome.count} migration(s): up and down both apply and the state round-trips`);
+    if (outcome.conversions > 0) {
+      logSuccess(`Verified field conversions on ${outcome.conversions} sample record(s), both ways`);
+    }
     return true;
   }
 
+  if (outcome.status === "conversion-failed") {
+    logError("Field conversion verification failed - no files were written.");
+    console.log();
+    const { error, problems } = outcome.report;
+    if (error) {
+      console.log(`  ${error.file}: ${error.phase}() failed with sample records in place`);
+      console.log(`    ${error.message}`);
+    }
+    for (const problem of problems) {
+      const direction = problem.phase === "up" ? "converting" : "converting back";
+      console.log(
+        `  ${problem.collection}.${problem.field}: ${direction} ${JSON.stringify(problem.input)}: ${problem.message}`
+      );
+    }
+    console.log();
+    logInfo("Suggestions:");
+    console.log("  • Give the field a convert hook that handles these values: TextField({ convert: (value) => ... })");
+    console.log("  • Re-run with --no-verify to write the migration(s) anyway");
+    return false;
+  }
+
   if (outcome.status === "incompatible") {
     logError("Generated migration uses JavaScript PocketBase cannot run - no files were written.");
     console.log();
@@ -226,6 +290,418 @@ function reportVerification(outcome: VerificationOutcome): boolean {
   return false;
 }
 
+/**
+ * What generate writes migrations for
+ */
+interface PendingChanges {
+  diff: SchemaDiff;
+  seedChanges: SeedChanges[];
+  settingsChanges: SettingChange[];
+}
+
+/**
+ * Whether any migration is owed: schema, seed records or settings
+ */
+function hasPendingChanges({ diff, seedChanges, settingsChanges }: PendingChanges): boolean {
+  return hasChanges(diff) || seedChanges.length > 0 || settingsChanges.length > 0;
+}
+
+/**
+ * Parses the schema and compares it with the state the migrations reconstruct
+ *
+ * @param filters - Optional filters for collection/field names
+ * @param options - Command options
+ * @param config - Loaded configuration
+ * @param reload - Import the schema modules afresh (watch mode)
+ * @returns The pending changes, or null when the schema's rules are broken (already reported)
+ */
+async function analyzeSchemaChanges(
+  filters: string[],
+  options: any,
+  config: MigrationConfig,
+  reload = false
+): Promise<PendingChanges | null> {
+  // Get paths
+  const schemaDir = getSchemaDirectory(config);
+  const migrationsDir = getMigrationsDirectory(config);
+
+  logSection("🔍 Analyzing Schema");
+  if (typeof options.env === "string") {
+    logInfo(`Environment: ${options.env}`);
+  }
+
+  // Parse schema files with full config (including exclude patterns)
+  const analyzerConfig = {
+    schemaDir,
+    excludePatterns: config.schema.exclude,
+    useCompiledFiles: false, // Use source files since we're in development/testing
+    reload,
+  };
+  const currentSchema: SchemaDefinition = await withProgress("Parsing Zod schemas...", () =>
+    parseSchemaFiles(analyzerConfig)
+  );
+
+  logSuccess(`Found ${currentSchema.collections.size} collection(s)`);
+
+  // Rules are resolved against the whole schema, so a reference PocketBase
+  // would reject stops here instead of when the migration is applied
+  const ruleIssues = validateSchemaRules(currentSchema);
+  logRuleIssues(ruleIssues);
+  if (ruleIssues.some((issue) => issue.severity === "error")) {
+    logError("Rules reference fields or collections that do not exist - no files were written.");
+    console.log();
+    logInfo("Suggestions:");
+    console.log("  • Fix the rules listed above in your schema files");
+    console.log("  • Build rules with ruleFor() so field names are checked as you write them");
+    return null;
+  }
+
+  // Load previous snapshot from migrations directory and apply subsequent migrations
+  logInfo("Loading previous snapshot...");
+  const previousSnapshot = loadSnapshotWithMigrations({
+    migrationsPath: migrationsDir,
+  });
+
+  if (!previousSnapshot) {
+    logInfo("No previous snapshot found - treating as empty database (first-time generation)");
+  } else {
+    logSuccess("Loaded previous snapshot as base reference");
+  }
+
+  // Compare schemas
+  logSection("📊 Comparing Schemas");
+  let diff = compare(currentSchema, previousSnapshot);
+
+  // Apply filtering (patterns and destructive skipping)
+  // An interactive run asks about each destructive change instead
+  const skipDestructive = !options.force && !options.interactive;
+
+  // Check for destructive changes BEFORE filtering if we are going to skip them (for logging)
+  // Only if we are NOT forcing.
+  if (skipDestructive) {
+    // Low-severity changes (type conversions) are kept
+    const destructive = detectDestructiveChanges(diff).filter((change) => change.severity !== "low");
+    if (destructive.length > 0) {
+      logInfo(`ℹ️  Omitting ${destructive.length} destructive change(s) because --force is not set.`);
+    }
+  }
+
+  // Apply filter
+  diff = filterDiff(diff, {
+    patterns: filters,
+    skipDestructive: skipDestructive,
+  });
+
+  // Seed records are compared against what the existing migrations put in
+  // place, which takes a replay that executes their record operations
+  const seedChanges = filterSeedChanges(
+    await withProgress("Comparing seed records...", () =>
+      Promise.resolve(diffSchemaSeeds(currentSchema, migrationsDir))
+    ),
+    filters
+  );
+
+  const settingsChanges = filterSettingsChanges(
+    await withProgress("Comparing app settings...", () =>
+      Promise.resolve(diffSchemaSettings(currentSchema, migrationsDir))
+    ),
+    filters
+  );
+
+  return { diff, seedChanges, settingsChanges };
+}
+
+/**
+ * Prints the change summary for the pending changes
+ */
+function displayPendingChanges({ diff, seedChanges, settingsChanges }: PendingChanges): void {
+  console.log();
+  if (hasChanges(diff)) {
+    console.log(formatChangeSummary(diff));
+  }
+  if (seedChanges.length > 0) {
+    console.log("Seed records:");
+    seedChanges.forEach((changes) => console.log(formatSeedChanges(changes)));
+    console.log();
+  }
+  if (settingsChanges.length > 0) {
+    console.log("App settings:");
+    settingsChanges.forEach((change) => console.log(formatSettingChange(change)));
+    console.log();
+  }
+}
+
+/**
+ * Plans, verifies and writes the migrations for the pending changes
+ *
+ * @param changes - Result of analyzeSchemaChanges()
+ * @param config - Loaded configuration
+ * @param options - Command options
+ * @returns False when the destructive gate or the verification stopped it
+ */
+async function writeMigrations(
+  { diff, seedChanges, settingsChanges }: PendingChanges,
+  config: MigrationConfig,
+  options: any
+): Promise<boolean> {
+  const migrationsDir = getMigrationsDirectory(config);
+
+  // Handle destructive changes
+  // If skipDestructive was true, diff shouldn't have any destructive changes, so this will pass.
+  // If force was true, skipDestructive was false, diff might have destructive changes, this will warn and proceed.
+  // Destructive changes left in an interactive run were kept on purpose
+  if (!handleDestructiveChanges(diff, config, options.force || options.interactive, "yarn migrate:generate --force")) {
+    return false;
+  }
+
+  // Generate migration
+  logSection("📝 Generating Migration");
+
+  const schemaPlanned = await withProgress("Creating migration file...", () =>
+    Promise.resolve(planMigrations(diff, { migrationDir: migrationsDir, force: options.force }))
+  );
+
+  // Seed migrations follow the schema migrations, so a collection created
+  // in this run exists before its records are inserted
+  const lastSchemaTimestamp = schemaPlanned.reduce(
+    (latest, migration) => Math.max(latest, parseInt(migration.filename, 10)),
+    0
+  );
+  const seedStart = Math.max(lastSchemaTimestamp + 1, Math.floor(Date.now() / 1000));
+  const seedPlanned = planSeedMigrations(seedChanges, {
+    migrationDir: migrationsDir,
+    timestampGenerator: () => String(seedStart),
+  });
+  // The settings migration goes after the rest of the run
+  const settingsPlanned = planSettingsMigration(settingsChanges, {
+    migrationDir: migrationsDir,
+    timestampGenerator: () => String(seedStart + seedPlanned.length),
+  });
+  const planned = [...schemaPlanned, ...seedPlanned, ...(settingsPlanned ? [settingsPlanned] : [])];
+
+  if (planned.length === 0) {
+    logWarning("No migration files were generated (no changes detected or duplicate migration).");
+    return true;
+  }
+
+  // Self-verify before writing: execute up() and down() in the simulated
+  // PocketBase JSVM and confirm the state round-trips
+  if (config.migrations.verify) {
+    logSection("🔁 Verifying Migration");
+
+    const outcome = await withProgress("Executing up() and down()...", () =>
+      Promise.resolve(verifyPlannedMigrations(planned, migrationsDir, listFieldTypeConversions(diff)))
+    );
+
+    if (!reportVerification(outcome)) {
+      return false;
+    }
+  }
+
+  const migrationPaths = writePlannedMigrations(planned, migrationsDir);
+
+  if (migrationPaths.length === 1) {
+    logSuccess(`Migration file created: ${path.basename(migrationPaths[0])}`);
+  } else {
+    logSuccess(`Created ${migrationPaths.length} migration files`);
+  }
+
+  // Note: Snapshot is embedded in the generated migration file
+  // No separate snapshot file needed
+
+  // Display next steps
+  logSection("✅ Next Steps");
+  console.log();
+  console.log("  1. Review the generated migration file(s):");
+  migrationPaths.forEach((migrationPath: string) => {
+    console.log(`     ${migrationPath}`);
+  });
+  console.log();
+  console.log("  2. Apply the migration by running PocketBase:");
+  console.log("     yarn pb");
+  console.log();
+  console.log("  Or apply migrations manually:");
+  console.log("     cd pb && ./pocketbase migrate up");
+  console.log();
+  return true;
+}
+
+/**
+ * Asks about each ambiguous change — guessed renames, required fields added
+ * to existing collections, destructive changes — and applies the answers
+ *
+ * @param diff - The diff, destructive changes included
+ * @returns The diff to generate, or null when stdin is not a terminal (the questions are listed instead)
+ */
+async function resolveDiffQuestions(diff: SchemaDiff): Promise<SchemaDiff | null> {
+  const questions = listDiffQuestions(diff);
+  if (questions.length === 0) {
+    return diff;
+  }
+
+  if (!process.stdin.isTTY) {
+    logError(`--interactive needs a terminal to ask ${questions.length} question(s) - no files were written.`);
+    console.log();
+    for (const question of questions) {
+      console.log(`  • ${formatDiffQuestion(question)}`);
+    }
+    console.log();
+    logInfo("Suggestions:");
+    console.log("  • Run generate --interactive in a terminal to answer them");
+    console.log("  • Mark renames in the schema with renamedFrom so they are not guessed");
+    console.log("  • Re-run without --interactive to omit destructive changes, or with --force to keep them");
+    return null;
+  }
+
+  logSection("❓ Resolving Ambiguous Changes");
+
+  const dropped: RenameQuestion[] = [];
+  for (const question of findRenameQuestions(diff)) {
+    for (;;) {
+      const answer = ((await ask(`${formatDiffQuestion(question)} ${chalk.gray("[R/d]")}`)) ?? "").trim();
+      if (/^(r(ename)?)?$/i.test(answer)) {
+        break;
+      }
+      if (/^d(rop)?$/i.test(answer)) {
+        dropped.push(question);
+        break;
+      }
+      logWarning("Answer r to rename the field, or d to drop it and add the new one");
+    }
+  }
+  let resolved = splitRenames(diff, dropped);
+
+  const backfills: Array<{ question: BackfillQuestion; backfill: FieldBackfill }> = [];
+  for (const question of findBackfillQuestions(resolved)) {
+    for (;;) {
+      const answer = (await ask(`${formatDiffQuestion(question)} ${chalk.gray("(blank for none)")}`)) ?? "";
+      try {
+        const backfill = parseBackfillAnswer(question.field, answer);
+        if (backfill) {
+          backfills.push({ question, backfill });
+        }
+        break;
+      } catch (error) {
+        logWarning(error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+  resolved = applyBackfills(resolved, backfills);
+
+  const skipChanges: DestructiveChange[] = [];
+  for (const question of findDestructiveQuestions(resolved)) {
+    console.log(chalk.gray(`  ${question.change.warning}`));
+    const answer = ((await ask(`${formatDiffQuestion(question)} ${chalk.gray("[Y/n]")}`)) ?? "").trim();
+    if (!/^no?$/i.test(answer)) {
+      skipChanges.push(question.change);
+    }
+  }
+
+  return filterDiff(resolved, { skipChanges });
+}
+
+/**
+ * Prints a generate failure with suggestions
+ */
+function reportGenerateError(error: unknown): void {
+  // Handle specific error types with helpful messages
+  if (error instanceof SchemaParsingError) {
+    logError("Schema Parsing Error");
+    console.error();
+    console.error(error.getDetailedMessage());
+    console.error();
+    logInfo("Suggestions:");
+    console.log("  • Make sure your schema files are valid Zod schemas");
+    console.log('  • Run "yarn build" in the shared workspace to compile TypeScript files');
+    console.log(
+      "  • Check that each schema file exports a defineCollection()/defineView() result (default export preferred)"
+    );
+  } else if (error instanceof SnapshotError) {
+    logError("Snapshot Error");
+    console.error();
+    console.error(error.getDetailedMessage());
+    console.error();
+    logInfo("Suggestions:");
+    console.log("  • Check that the snapshot file is not corrupted");
+    console.log("  • Verify file permissions for the snapshot file");
+    console.log("  • If this is the first run, this error should not occur");
+  } else if (error instanceof MigrationGenerationError) {
+    logError("Migration Generation Error");
+    console.error();
+    console.error(error.getDetailedMessage());
+    console.error();
+    logInfo("Suggestions:");
+    console.log("  • Check that the migration directory exists and is writable");
+    console.log("  • Verify you have sufficient disk space");
+    console.log("  • Check file permissions for the migration directory");
+  } else if (error instanceof FileSystemError) {
+    logError("File System Error");
+    console.error();
+    console.error(error.getDetailedMessage());
+    console.error();
+    logInfo("Suggestions:");
+    console.log("  • Check file and directory permissions");
+    console.log("  • Verify you have sufficient disk space");
+    console.log("  • Ensure the paths are correct and accessible");
+  } else if (error instanceof CLIUsageError) {
+    logError("Usage Error");
+    console.error();
+    console.error(error.getDetailedMessage());
+  } else if (error instanceof ConfigurationError) {
+    logError("Configuration Error");
+    console.error();
+    console.error(error.getDetailedMessage());
+    console.error();
+    logInfo("Suggestions:");
+    console.log("  • Check your configuration file syntax");
+    console.log("  • Verify all paths are correct and accessible");
+    console.log("  • Run with --verbose flag for more details");
+  } else {
+    // Generic error handling
+    logError(`Failed to generate migration: ${error}`);
+    if (error instanceof Error && error.stack) {
+      console.error();
+      console.error(error.stack);
+    }
+  }
+}
+
+/**
+ * Re-runs the analysis on every schema change and writes a migration only
+ * once the user confirms it
+ *
+ * @param filters - Optional filters for collection/field names
+ * @param options - Command options
+ * @param config - Loaded configuration
+ */
+async function watchGenerate(filters: string[], options: any, config: MigrationConfig): Promise<void> {
+  if (!process.stdin.isTTY) {
+    logWarning("stdin is not a terminal: changes are previewed, but no migration can be confirmed or written");
+  }
+
+  await watchSchemaDirectory(getSchemaDirectory(config), async ({ signal }) => {
+    try {
+      const changes = await analyzeSchemaChanges(filters, options, config, true);
+      if (!changes) {
+        return;
+      }
+      if (!hasPendingChanges(changes)) {
+        logSuccess("Schema is up to date!");
+        return;
+      }
+
+      displayPendingChanges(changes);
+      if (!(await confirm("Write a migration for these changes?", signal))) {
+        logInfo("No migration written");
+        return;
+      }
+      await writeMigrations(changes, config, options);
+    } catch (error) {
+      reportGenerateError(error);
+    }
+  });
+}
+
 /**
  * Executes the generate command
  *
@@ -248,188 +724,59 @@ export async function executeGenerate(filters: string[], options: any): Promise<
       logDebug(`Filters: ${JSON.stringify(filters)}`);
     }
 
+    if (options.watch && options.interactive) {
+      throw new CLIUsageError(
+        "--watch and --interactive cannot be combined",
+        "generate",
+        "Run generate --interactive once the schema is ready"
+      );
+    }
+
     // Load configuration
     const config = await loadConfig(options);
 
-    // Get paths
-    const schemaDir = getSchemaDirectory(config);
-    const migrationsDir = getMigrationsDirectory(config);
-
-    logSection("🔍 Analyzing Schema");
-
-    // Parse schema files with full config (including exclude patterns)
-    const analyzerConfig = {
-      schemaDir,
-      excludePatterns: config.schema.exclude,
-      useCompiledFiles: false, // Use source files since we're in development/testing
-    };
-    const currentSchema: SchemaDefinition = await withProgress("Parsing Zod schemas...", () =>
-      parseSchemaFiles(analyzerConfig)
-    );
-
-    logSuccess(`Found ${currentSchema.collections.size} collection(s)`);
-
-    // Load previous snapshot from migrations directory and apply subsequent migrations
-    logInfo("Loading previous snapshot...");
-    const previousSnapshot = loadSnapshotWithMigrations({
-      migrationsPath: migrationsDir,
-    });
-
-    if (!previousSnapshot) {
-      logInfo("No previous snapshot found - treating as empty database (first-time generation)");
-    } else {
-      logSuccess("Loaded previous snapshot as base reference");
+    if (options.watch) {
+      await watchGenerate(filters, options, config);
+      return;
     }
 
-    // Compare schemas
-    logSection("📊 Comparing Schemas");
-    let diff = compare(currentSchema, previousSnapshot);
-
-    // Apply filtering (patterns and destructive skipping)
-    const skipDestructive = !options.force;
-
-    // Check for destructive changes BEFORE filtering if we are going to skip them (for logging)
-    // Only if we are NOT forcing.
-    if (skipDestructive) {
-      const destructive = detectDestructiveChanges(diff);
-      if (destructive.length > 0) {
-        logInfo(`ℹ️  Omitting ${destructive.length} destructive change(s) because --force is not set.`);
-      }
+    const changes = await analyzeSchemaChanges(filters, options, config);
+    if (!changes) {
+      console.error();
+      process.exit(1);
     }
 
-    // Apply filter
-    diff = filterDiff(diff, {
-      patterns: filters,
-      skipDestructive: skipDestructive,
-    });
-
     // Check if there are any changes
-    if (!hasChanges(diff)) {
+    if (!hasPendingChanges(changes)) {
       logInfo("No changes detected");
       console.log();
       logSuccess("Schema is up to date!");
       return;
     }
 
-    // Display change summary
-    console.log();
-    console.log(formatChangeSummary(diff));
-
-    // Handle destructive changes
-    // If skipDestructive was true, diff shouldn't have any destructive changes, so this will pass.
-    // If force was true, skipDestructive was false, diff might have destructive changes, this will warn and proceed.
-    if (!handleDestructiveChanges(diff, config, options.force)) {
-      process.exit(1);
-    }
-
-    // Generate migration
-    logSection("📝 Generating Migration");
-
-    const planned = await withProgress("Creating migration file...", () =>
-      Promise.resolve(planMigrations(diff, { migrationDir: migrationsDir, force: options.force }))
-    );
-
-    if (planned.length === 0) {
-      logWarning("No migration files were generated (no changes detected or duplicate migration).");
-      return;
-    }
-
-    // Self-verify before writing: execute up() and down() in the simulated
-    // PocketBase JSVM and confirm the state round-trips
-    if (config.migrations.verify) {
-      logSection("🔁 Verifying Migration");
-
-      const outcome = await withProgress("Executing up() and down()...", () =>
-        Promise.resolve(verifyPlannedMigrations(planned, migrationsDir))
-      );
-
-      if (!reportVerification(outcome)) {
+    if (options.interactive) {
+      const resolved = await resolveDiffQuestions(changes.diff);
+      if (!resolved) {
         console.error();
         process.exit(1);
       }
+      changes.diff = resolved;
+      if (!hasPendingChanges(changes)) {
+        console.log();
+        logInfo("Every change was skipped - no files were written");
+        return;
+      }
     }
 
-    const migrationPaths = writePlannedMigrations(planned, migrationsDir);
-
-    if (migrationPaths.length === 1) {
-      logSuccess(`Migration file created: ${path.basename(migrationPaths[0])}`);
-    } else {
-      logSuccess(`Created ${migrationPaths.length} migration files`);
-    }
-
-    // Note: Snapshot is embedded in the generated migration file
-    // No separate snapshot file needed
+    // Display change summary
+    displayPendingChanges(changes);
 
-    // Display next steps
-    logSection("✅ Next Steps");
-    console.log();
-    console.log("  1. Review the generated migration file(s):");
-    migrationPaths.forEach((migrationPath: string) => {
-      console.log(`     ${migrationPath}`);
-    });
-    console.log();
-    console.log("  2. Apply the migration by running PocketBase:");
-    console.log("     yarn pb");
-    console.log();
-    console.log("  Or apply migrations manually:");
-    console.log("     cd pb && ./pocketbase migrate up");
-    console.log();
-  } catch (error) {
-    // Handle specific error types with helpful messages
-    if (error instanceof SchemaParsingError) {
-      logError("Schema Parsing Error");
-      console.error();
-      console.error(error.getDetailedMessage());
+    if (!(await writeMigrations(changes, config, options))) {
       console.error();
-      logInfo("Suggestions:");
-      console.log("  • Make sure your schema files are valid Zod schemas");
-      console.log('  • Run "yarn build" in the shared workspace to compile TypeScript files');
-      console.log('  • Check that each schema file exports a defineCollection()/defineView() result (default export preferred)');
-    } else if (error instanceof SnapshotError) {
-      logError("Snapshot Error");
-      console.error();
-      console.error(error.getDetailedMessage());
-      console.error();
-      logInfo("Suggestions:");
-      console.log("  • Check that the snapshot file is not corrupted");
-      console.log("  • Verify file permissions for the snapshot file");
-      console.log("  • If this is the first run, this error should not occur");
-    } else if (error instanceof MigrationGenerationError) {
-      logError("Migration Generation Error");
-      console.error();
-      console.error(error.getDetailedMessage());
-      console.error();
-      logInfo("Suggestions:");
-      console.log("  • Check that the migration directory exists and is writable");
-      console.log("  • Verify you have sufficient disk space");
-      console.log("  • Check file permissions for the migration directory");
-    } else if (error instanceof FileSystemError) {
-      logError("File System Error");
-      console.error();
-      console.error(error.getDetailedMessage());
-      console.error();
-      logInfo("Suggestions:");
-      console.log("  • Check file and directory permissions");
-      console.log("  • Verify you have sufficient disk space");
-      console.log("  • Ensure the paths are correct and accessible");
-    } else if (error instanceof ConfigurationError) {
-      logError("Configuration Error");
-      console.error();
-      console.error(error.getDetailedMessage());
-      console.error();
-      logInfo("Suggestions:");
-      console.log("  • Check your configuration file syntax");
-      console.log("  • Verify all paths are correct and accessible");
-      console.log("  • Run with --verbose flag for more details");
-    } else {
-      // Generic error handling
-      logError(`Failed to generate migration: ${error}`);
-      if (error instanceof Error && error.stack) {
-        console.error();
-        console.error(error.stack);
-      }
+      process.exit(1);
     }
-
+  } catch (error) {
+    reportGenerateError(error);
     console.error();
     process.exit(1);
   }
@@ -450,6 +797,13 @@ export function createGenerateCommand(): Command {
     .option("--schema-dir <directory>", "Directory containing Zod schema files")
     .option("--verify", "Execute up() and down() before writing, and refuse migrations that do not roll back")
     .option("--no-verify", "Skip round-trip verification even when it is enabled in the configuration")
+    .option("--env <name>", "Use a named environment from the config file")
+    .option("-w, --watch", "Re-run on every schema change; a migration is written only after you confirm it", false)
+    .option(
+      "-i, --interactive",
+      "Ask about guessed renames, values for new required fields and each destructive change",
+      false
+    )
     .addHelpText(
       "after",
       `
@@ -457,10 +811,14 @@ Examples:
   $ pocketbase-migrate generate                    Generate migration from schema changes
   $ pocketbase-migrate generate User               Generate migration only for User collection
   $ pocketbase-migrate generate User.name          Generate migration only for User.name field
+  $ pocketbase-migrate generate settings           Generate migration only for the app settings
   $ pocketbase-migrate generate --force            Force generation with destructive changes
   $ pocketbase-migrate generate --dry-run          Preview changes without generating files
   $ pocketbase-migrate generate --verify           Verify up() and down() round-trip before writing
   $ pocketbase-migrate generate -o ./migrations    Specify output directory
+  $ pocketbase-migrate generate --env staging      Use the staging environment's settings
+  $ pocketbase-migrate generate --watch            Preview the diff on every schema change
+  $ pocketbase-migrate generate --interactive      Decide renames, backfills and destructive changes one by one
 `
     )
     .action(executeGenerate);
@@ -12,15 +12,20 @@ import { Command } from "commander";
 import * as path from "path";
 import { ConfigurationError } from "../../migration/errors.js";
 import {
+  AppliedMigrationsError,
+  checkMigrationChecksums,
   CollectionStore,
   discoverMigrations,
   executeMigrationFile,
   formatGojaLintFinding,
   lintMigrationFile,
+  readAppliedMigrationsIfPresent,
+  type AppliedMigrationsSource,
   type EngineWarning,
   type GojaLintResult,
+  type MigrationChecksum,
 } from "../../migration/index.js";
-import { getMigrationsDirectory, loadConfig } from "../utils/config.js";
+import { getDataDirectory, getMigrationsDirectory, loadConfig } from "../utils/config.js";
 import { logDebug, logError, logInfo, logSection, logSuccess, logWarning, setVerbosity } from "../utils/logger.js";
 
 /**
@@ -78,6 +83,35 @@ function reportResult(result: GojaLintResult): boolean {
   return errors.length === 0;
 }
 
+/**
+ * Reads `_migrations` when a database is there to read. Without one, edited
+ * migrations are still reported, as warnings.
+ */
+function readAppliedMigrationsQuietly(dataPath: string): AppliedMigrationsSource | null {
+  try {
+    return readAppliedMigrationsIfPresent(dataPath);
+  } catch (error) {
+    if (error instanceof AppliedMigrationsError) {
+      logDebug(`Not checking which migrations are applied: ${error.message}`);
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Prints one edited migration
+ */
+function reportModified(migration: MigrationChecksum): void {
+  if (migration.applied) {
+    console.log(chalk.red(`  ✗ ${migration.file}`));
+    console.log(chalk.red("      edited after PocketBase applied it (checksum mismatch)"));
+  } else {
+    console.log(chalk.yellow(`  ! ${migration.file}`));
+    console.log(chalk.yellow("      edited since it was generated (checksum mismatch)"));
+  }
+}
+
 /**
  * Executes the lint command
  *
@@ -102,6 +136,9 @@ export async function executeLint(files: string[], options: any): Promise<void>
         : discoverMigrations(migrationsDir).map((migration) => migration.path);
 
     logSection("🔎 Checking goja Compatibility");
+    if (typeof options.env === "string") {
+      logInfo(`Environment: ${options.env}`);
+    }
     console.log();
 
     if (targets.length === 0) {
@@ -119,17 +156,37 @@ export async function executeLint(files: string[], options: any): Promise<void>
       (result) => result.ok && result.findings.some((finding) => finding.severity === "warning")
     );
 
+    // An edit only matters once the migration is applied; those known to be
+    // unapplied may still change
+    const applied = readAppliedMigrationsQuietly(getDataDirectory(config));
+    const modified = checkMigrationChecksums(migrationsDir, applied).modified.filter(
+      (migration) => migration.applied !== false && targets.includes(path.resolve(migration.path))
+    );
+    modified.forEach(reportModified);
+    const tampered = modified.filter((migration) => migration.applied === true);
+
     console.log();
 
-    if (failed.length > 0) {
-      logError(
-        `${failed.length} of ${results.length} migration(s) use JavaScript PocketBase's runtime does not support`
-      );
+    if (failed.length > 0 || tampered.length > 0) {
+      if (failed.length > 0) {
+        logError(
+          `${failed.length} of ${results.length} migration(s) use JavaScript PocketBase's runtime does not support`
+        );
+      }
+      if (tampered.length > 0) {
+        logError(`${tampered.length} applied migration(s) were edited after PocketBase ran them`);
+      }
       console.log();
       logInfo("Suggestions:");
-      console.log("  • Replace Node-only globals with PocketBase JSVM bindings ($os, $http, $filesystem)");
-      console.log("  • Rewrite async/await as synchronous code — goja migrations run to completion inline");
-      console.log("  • Avoid class fields and private members; assign in the constructor instead");
+      if (failed.length > 0) {
+        console.log("  • Replace Node-only globals with PocketBase JSVM bindings ($os, $http, $filesystem)");
+        console.log("  • Rewrite async/await as synchronous code — goja migrations run to completion inline");
+        console.log("  • Avoid class fields and private members; assign in the constructor instead");
+      }
+      if (tampered.length > 0) {
+        console.log("  • Revert the edit and write a new migration for the change instead");
+        console.log("  • If the edit is intended, record it with: pocketbase-migrate accept-change <file>");
+      }
       console.log();
       process.exit(1);
     }
@@ -139,6 +196,11 @@ export async function executeLint(files: string[], options: any): Promise<void>
       console.log();
     }
 
+    if (modified.length > 0) {
+      logWarning(`${modified.length} migration(s) were edited since they were generated; no database says if applied`);
+      console.log();
+    }
+
     logSuccess(`${results.length} migration(s) are goja-compatible`);
   } catch (error) {
     if (error instanceof ConfigurationError) {
@@ -165,6 +227,11 @@ export function createLintCommand(): Command {
     .description("Check migration files for JavaScript PocketBase's goja runtime cannot run")
     .argument("[files...]", "Migration files to lint (defaults to every file in the migrations directory)")
     .option("-o, --output <directory>", "Directory containing migration files")
+    .option("--env <name>", "Use a named environment's migrations directory from the config file")
+    .option(
+      "--pb-data <path>",
+      "PocketBase data directory or data.db file, to tell which edited migrations are applied"
+    )
     .option("--no-execute", "Skip executing the migrations, reporting only what static analysis finds")
     .addHelpText(
       "after",
@@ -173,6 +240,7 @@ Examples:
   $ pocketbase-migrate lint                              Lint every migration
   $ pocketbase-migrate lint pb_migrations/1712_seed.js   Lint one file
   $ pocketbase-migrate lint --no-execute                 Static checks only
+  $ pocketbase-migrate lint --env staging                Lint the staging environment's migrations
 `
     )
     .action(executeLint);
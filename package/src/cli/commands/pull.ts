@@ -0,0 +1,185 @@
+/**
+ * Pull command implementation
+ *
+ * The way in for a project that already has a PocketBase database: reads the
+ * collections PocketBase has stored in `_collections` and writes one Zod
+ * schema file per collection, so the next `generate` starts from the schema
+ * the database is actually in and has nothing to write.
+ */
+
+import chalk from "chalk";
+import { Command } from "commander";
+import * as path from "path";
+import { DatabaseCollectionsError, readDatabaseCollections } from "../../migration/engine/index.js";
+import { ConfigurationError, FileSystemError } from "../../migration/errors.js";
+import { renderSchemaFiles, writeSchemaFiles, type RenderedSchemaFile } from "../../migration/schema-writer.js";
+import { getDataDirectory, getSchemaDirectory, loadConfig } from "../utils/config.js";
+import {
+  logDebug,
+  logError,
+  logInfo,
+  logKeyValue,
+  logSection,
+  logSuccess,
+  logWarning,
+  setVerbosity,
+} from "../utils/logger.js";
+
+/**
+ * Narrows the rendered files to the collections named on the command line
+ *
+ * @param files - Every rendered file
+ * @param collections - Comma-separated collection names, if given
+ */
+function selectFiles(files: RenderedSchemaFile[], collections?: string): RenderedSchemaFile[] {
+  if (!collections) {
+    return files;
+  }
+
+  const wanted = new Set(
+    collections
+      .split(",")
+      .map((name) => name.trim())
+      .filter((name) => name !== "")
+  );
+  const selected = files.filter((file) => wanted.has(file.collection));
+
+  const missing = [...wanted].filter((name) => !selected.some((file) => file.collection === name));
+  if (missing.length > 0) {
+    throw new ConfigurationError(`Collection(s) not found in the database: ${missing.join(", ")}`);
+  }
+
+  return selected;
+}
+
+/**
+ * Executes the pull command
+ *
+ * @param options - Command options
+ */
+export async function executePull(options: any): Promise<void> {
+  try {
+    const parentOpts = options.parent?.opts?.() || {};
+    if (parentOpts.verbose) {
+      setVerbosity("verbose");
+    } else if (parentOpts.quiet) {
+      setVerbosity("quiet");
+    }
+
+    logDebug("Pulling collections from the database...");
+    logDebug(`Options: ${JSON.stringify(options, null, 2)}`);
+
+    const config = await loadConfig(options);
+    const schemaDir = getSchemaDirectory(config);
+    const dataPath = getDataDirectory(config);
+
+    logSection("📥 Pulling Collections");
+
+    const source = readDatabaseCollections(dataPath);
+    logKeyValue("Database", source.origin);
+    logKeyValue("Schema directory", schemaDir);
+
+    const files = selectFiles(
+      renderSchemaFiles(source.collections, { includeSystem: options.includeSystem === true }),
+      options.collections
+    );
+
+    if (files.length === 0) {
+      logInfo("The database holds no user collections; nothing to write");
+      return;
+    }
+
+    const warnings = files.flatMap((file) => file.warnings);
+
+    if (options.dryRun) {
+      logInfo(`Dry run — would write ${files.length} schema file(s):`);
+      for (const file of files) {
+        console.log(`  ${path.join(schemaDir, file.filename)}`);
+      }
+    } else {
+      const result = writeSchemaFiles(files, schemaDir, { overwrite: options.force === true });
+
+      for (const filePath of result.written) {
+        logSuccess(`Wrote ${filePath}`);
+      }
+      if (result.skipped.length > 0) {
+        logWarning(`Skipped ${result.skipped.length} existing file(s) (use --force to overwrite):`);
+        for (const filePath of result.skipped) {
+          console.log(`  ${filePath}`);
+        }
+      }
+    }
+
+    if (warnings.length > 0) {
+      console.log();
+      logWarning("Some settings have no field helper and were left out; generate will report them as changes:");
+      for (const warning of warnings) {
+        console.log(`  • ${warning}`);
+      }
+    }
+
+    console.log();
+    logInfo("Next step — confirm the schema matches the database:");
+    console.log(chalk.cyan("     pocketbase-migrate status"));
+    console.log();
+  } catch (error) {
+    if (error instanceof DatabaseCollectionsError) {
+      logError("Could not read collections from the database");
+      console.error();
+      console.error(error.message);
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Reading pb_data/data.db needs Node >= 22.5 (built-in node:sqlite)");
+      console.log("  • Point at another location with --pb-data <path>");
+    } else if (error instanceof FileSystemError) {
+      logError("File System Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Check that the schema directory is writable");
+      console.log("  • Choose another location with --schema-dir <directory>");
+    } else if (error instanceof ConfigurationError) {
+      logError("Configuration Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Check your configuration file syntax");
+      console.log("  • Check the names passed to --collections");
+    } else {
+      logError(`Failed to pull collections: ${error}`);
+      if (error instanceof Error && error.stack) {
+        console.error(error.stack);
+      }
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Creates the pull command
+ *
+ * @returns Commander command instance
+ */
+export function createPullCommand(): Command {
+  return new Command("pull")
+    .description("Write Zod schema files for the collections in an existing PocketBase database")
+    .option("--pb-data <path>", "PocketBase data directory or data.db file (defaults to pb_data next to migrations)")
+    .option("--schema-dir <directory>", "Directory to write the schema files into")
+    .option("--collections <names>", "Comma-separated collection names to pull (default: all)")
+    .option("--include-system", "Also pull PocketBase's own system collections", false)
+    .option("--force", "Overwrite schema files that already exist", false)
+    .option("--dry-run", "List the files that would be written without writing them", false)
+    .addHelpText(
+      "after",
+      `
+Examples:
+  $ pocketbase-migrate pull                          Write a schema file per collection in pb_data
+  $ pocketbase-migrate pull --pb-data ./pb_data      Read a specific data directory
+  $ pocketbase-migrate pull --collections posts,tags Pull only some collections
+  $ pocketbase-migrate pull --force                  Overwrite existing schema files
+`
+    )
+    .action(executePull);
+}
@@ -0,0 +1,214 @@
+/**
+ * Rebase command implementation
+ *
+ * Takes the migrations `doctor` finds in conflict after a merge (or the ones
+ * named on the command line) out of the migrations directory, replays the
+ * rest as the merged state, and regenerates the schema's changes on top of
+ * it with fresh timestamps.
+ */
+
+import chalk from "chalk";
+import { Command } from "commander";
+import * as path from "path";
+import {
+  AppliedMigrationsError,
+  readAppliedMigrationsIfPresent,
+  type AppliedMigrationsSource,
+} from "../../migration/engine/index.js";
+import {
+  ConfigurationError,
+  FileSystemError,
+  MigrationExecutionError,
+  RebaseError,
+  SchemaParsingError,
+} from "../../migration/errors.js";
+import { parseSchemaFiles } from "../../migration/index.js";
+import { applyRebase, planRebase } from "../../migration/rebase.js";
+import type { SchemaDefinition } from "../../migration/types.js";
+import { getDataDirectory, getMigrationsDirectory, getSchemaDirectory, loadConfig } from "../utils/config.js";
+import { handleDestructiveChanges } from "../utils/destructive.js";
+import {
+  formatChangeSummary,
+  logDebug,
+  logError,
+  logInfo,
+  logKeyValue,
+  logSection,
+  logSuccess,
+  logWarning,
+  setVerbosity,
+  withProgress,
+} from "../utils/logger.js";
+
+/**
+ * Executes the rebase command
+ *
+ * @param files - Migrations to regenerate; defaults to the conflicting ones
+ * @param options - Command options
+ */
+export async function executeRebase(files: string[], options: any): Promise<void> {
+  try {
+    const parentOpts = options.parent?.opts?.() || {};
+    if (parentOpts.verbose) {
+      setVerbosity("verbose");
+    } else if (parentOpts.quiet) {
+      setVerbosity("quiet");
+    }
+
+    logDebug("Rebasing migrations...");
+    logDebug(`Options: ${JSON.stringify(options, null, 2)}`);
+
+    const config = await loadConfig(options);
+    const schemaDir = getSchemaDirectory(config);
+    const migrationsDir = getMigrationsDirectory(config);
+    const dataPath = getDataDirectory(config);
+
+    logSection("🔀 Rebasing Migrations");
+    logKeyValue("Migrations", migrationsDir);
+
+    const applied: AppliedMigrationsSource | null = readAppliedMigrationsIfPresent(dataPath);
+    if (applied) {
+      logKeyValue("Database", applied.origin);
+    } else {
+      logWarning(`No database at ${dataPath}; the rebase cannot be checked against _migrations.`);
+      logWarning("No database may have applied the migrations being rebased.");
+    }
+
+    const schema: SchemaDefinition = await withProgress("Parsing Zod schemas...", () =>
+      parseSchemaFiles({ schemaDir, excludePatterns: config.schema.exclude, useCompiledFiles: false })
+    );
+
+    const plan = planRebase(migrationsDir, schema, { files, applied });
+    for (const warning of plan.warnings) {
+      logDebug(`${warning.file ?? "migration"}: ${warning.message}`);
+    }
+
+    console.log();
+    for (const conflict of plan.conflicts) {
+      const against = conflict.conflictsWith.length > 0 ? ` (conflicts with ${conflict.conflictsWith.join(", ")})` : "";
+      logInfo(`${conflict.file}: ${conflict.kind === "up-failed" ? "up() fails" : "down() is stale"}${against}`);
+    }
+    logInfo(`Regenerating ${plan.replaced.length} migration(s) on top of the merged state:`);
+    for (const migration of plan.replaced) {
+      const dependent = plan.dependents.includes(migration.name) ? chalk.gray(" (builds on a rebased migration)") : "";
+      console.log(`  ${chalk.yellow("↻")} ${migration.name}${dependent}`);
+    }
+
+    console.log();
+    if (plan.migrations.length === 0) {
+      logInfo("The merged state already matches the schema: the replaced migrations are dropped, none are written");
+    } else {
+      console.log(formatChangeSummary(plan.diff));
+      logSuccess("Verified: the regenerated migrations reach the schema and roll back cleanly");
+    }
+
+    if (!handleDestructiveChanges(plan.diff, config, options.force, "pocketbase-migrate rebase --force")) {
+      process.exit(1);
+    }
+
+    const archiveDir = options.delete ? null : path.resolve(options.archiveDir ?? path.join(migrationsDir, "rebased"));
+
+    if (options.dryRun) {
+      const disposal = archiveDir ? `move the replaced files to ${archiveDir}` : "delete the replaced files";
+      console.log();
+      logInfo(`Dry run — would ${disposal} and write:`);
+      for (const migration of plan.migrations) {
+        console.log(`  ${migration.filename}`);
+      }
+      console.log();
+      return;
+    }
+
+    const result = applyRebase(plan, migrationsDir, archiveDir);
+    console.log();
+    logSuccess(
+      archiveDir
+        ? `Moved ${result.moved.length} replaced file(s) to ${archiveDir}`
+        : `Deleted ${result.moved.length} replaced file(s)`
+    );
+    for (const written of result.written) {
+      logSuccess(`Migration file created: ${path.basename(written)}`);
+    }
+
+    console.log();
+    logInfo("Check the result with:");
+    console.log(chalk.cyan("     pocketbase-migrate doctor"));
+    console.log();
+  } catch (error) {
+    if (error instanceof RebaseError) {
+      logError("Rebase Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Run pocketbase-migrate doctor to see which migrations conflict");
+      console.log("  • Name the migrations to regenerate: pocketbase-migrate rebase <files...>");
+    } else if (error instanceof SchemaParsingError) {
+      logError("Schema Parsing Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+    } else if (error instanceof AppliedMigrationsError) {
+      logError("Could not read the database");
+      console.error();
+      console.error(error.message);
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Reading pb_data/data.db needs Node >= 22.5 (built-in node:sqlite)");
+      console.log("  • Point at another location with --pb-data <path>");
+    } else if (error instanceof MigrationExecutionError) {
+      logError("Could not replay the merged migrations");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • The failing migration does not depend on the rebased ones; fix it first");
+    } else if (error instanceof FileSystemError) {
+      logError("File System Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Check that the migrations directory is writable");
+      console.log("  • Restore any moved files from the archive directory before retrying");
+    } else if (error instanceof ConfigurationError) {
+      logError("Configuration Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+    } else {
+      logError(`Failed to rebase migrations: ${error}`);
+      if (error instanceof Error && error.stack) {
+        console.error(error.stack);
+      }
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Creates the rebase command
+ *
+ * @returns Commander command instance
+ */
+export function createRebaseCommand(): Command {
+  return new Command("rebase")
+    .description("Regenerate conflicting migrations on top of the merged ones, with fresh timestamps")
+    .argument("[files...]", "Migrations to regenerate, by filename or timestamp (default: those doctor reports)")
+    .option("-o, --output <directory>", "Directory containing migration files")
+    .option("--schema-dir <directory>", "Directory containing Zod schema files")
+    .option("--pb-data <path>", "PocketBase data directory or data.db file (defaults to pb_data next to migrations)")
+    .option("--env <name>", "Use a named environment from the config file")
+    .option("--archive-dir <directory>", "Where to move the replaced files (default: <migrations>/rebased)")
+    .option("--delete", "Delete the replaced files instead of archiving them", false)
+    .option("-f, --force", "Regenerate even when the changes are destructive", false)
+    .option("--dry-run", "Verify the regenerated migrations and list them without writing", false)
+    .addHelpText(
+      "after",
+      `
+Examples:
+  $ pocketbase-migrate rebase                              Regenerate the migrations doctor reports
+  $ pocketbase-migrate rebase 1712000000 1712000300        Regenerate a branch's migrations by timestamp
+  $ pocketbase-migrate rebase --dry-run                    Verify without touching any file
+`
+    )
+    .action(executeRebase);
+}
@@ -0,0 +1,241 @@
+/**
+ * Rollback command implementation
+ *
+ * Previews what `./pocketbase migrate down` would do to the schema by running
+ * the `down()` of the newest applied migrations in the engine, gates the
+ * destructive part like `generate` does, and then either prints the
+ * PocketBase command or writes a forward migration that reverts the schema.
+ */
+
+import chalk from "chalk";
+import { Command } from "commander";
+import * as path from "path";
+import {
+  AppliedMigrationsError,
+  readAppliedMigrationsIfPresent,
+  type AppliedMigrationsSource,
+} from "../../migration/engine/index.js";
+import {
+  CLIUsageError,
+  ConfigurationError,
+  FileSystemError,
+  MigrationExecutionError,
+  RollbackError,
+} from "../../migration/errors.js";
+import { writePlannedMigrations } from "../../migration/generator/index.js";
+import { planRevertMigrations, planRollback } from "../../migration/rollback.js";
+import { getDataDirectory, getMigrationsDirectory, loadConfig } from "../utils/config.js";
+import { handleDestructiveChanges } from "../utils/destructive.js";
+import {
+  formatChangeSummary,
+  logDebug,
+  logError,
+  logInfo,
+  logKeyValue,
+  logSection,
+  logSuccess,
+  logWarning,
+  setVerbosity,
+} from "../utils/logger.js";
+
+/**
+ * Parses --steps as a positive whole number
+ *
+ * @param value - The option's value, if given
+ */
+function parseSteps(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const steps = Number(value);
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new CLIUsageError(`Invalid --steps value: ${value}`, "rollback", "Pass a positive whole number (--steps 2)");
+  }
+  return steps;
+}
+
+/**
+ * The rollback command as invoked, for suggesting it again with more flags
+ */
+function rollbackCommand(options: any): string {
+  if (options.to !== undefined) {
+    return `pocketbase-migrate rollback --to ${options.to}`;
+  }
+  if (options.steps !== undefined) {
+    return `pocketbase-migrate rollback --steps ${options.steps}`;
+  }
+  return "pocketbase-migrate rollback";
+}
+
+/**
+ * Executes the rollback command
+ *
+ * @param options - Command options
+ */
+export async function executeRollback(options: any): Promise<void> {
+  try {
+    const parentOpts = options.parent?.opts?.() || {};
+    if (parentOpts.verbose) {
+      setVerbosity("verbose");
+    } else if (parentOpts.quiet) {
+      setVerbosity("quiet");
+    }
+
+    logDebug("Planning rollback...");
+    logDebug(`Options: ${JSON.stringify(options, null, 2)}`);
+
+    if (options.steps !== undefined && options.to !== undefined) {
+      throw new CLIUsageError(
+        "--steps and --to cannot be combined",
+        "rollback",
+        "Pass one of --steps <n> or --to <file>"
+      );
+    }
+    const steps = parseSteps(options.steps);
+    const to = options.to !== undefined ? path.basename(options.to) : undefined;
+
+    const config = await loadConfig(options);
+    const migrationsDir = getMigrationsDirectory(config);
+    const dataPath = getDataDirectory(config);
+
+    logSection("⏪ Rolling Back Migrations");
+    logKeyValue("Migrations", migrationsDir);
+
+    const applied: AppliedMigrationsSource | null = readAppliedMigrationsIfPresent(dataPath);
+    if (applied) {
+      logKeyValue("Database", applied.origin);
+    } else {
+      logWarning(`No database at ${dataPath}; treating every migration on disk as applied.`);
+    }
+
+    const plan = planRollback(migrationsDir, { steps, to, applied });
+    for (const warning of plan.warnings) {
+      logDebug(`${warning.file ?? "migration"}: ${warning.message}`);
+    }
+
+    console.log();
+    logInfo(`Reverting ${plan.reverted.length} migration(s), newest first:`);
+    for (const migration of plan.reverted) {
+      console.log(`  ${chalk.yellow("↺")} ${migration.name}`);
+    }
+
+    console.log();
+    const diff = plan.diff;
+    if (diff.collectionsToCreate.length + diff.collectionsToDelete.length + diff.collectionsToModify.length === 0) {
+      logInfo("Their down() leaves the schema unchanged");
+    } else {
+      console.log(formatChangeSummary(diff));
+    }
+
+    if (
+      !handleDestructiveChanges(
+        diff,
+        config,
+        options.force,
+        `${rollbackCommand(options)}${options.generate ? " --generate" : ""} --force`
+      )
+    ) {
+      process.exit(1);
+    }
+
+    if (!options.generate) {
+      logSection("✅ Next Steps");
+      console.log();
+      console.log("  Stop PocketBase, then revert the migrations with:");
+      console.log(chalk.cyan(`     ${plan.downCommand}`));
+      console.log();
+      console.log("  Or keep the history moving forward and write a revert migration:");
+      console.log(`     ${rollbackCommand(options)} --generate`);
+      console.log();
+      return;
+    }
+
+    logSection("📝 Generating Revert Migration");
+
+    const planned = planRevertMigrations(plan, { migrationDir: migrationsDir });
+    if (planned.length === 0) {
+      logInfo("Nothing to write: the rollback does not change the schema");
+      return;
+    }
+    logSuccess("Verified: the revert migration reproduces the rolled-back schema");
+
+    const migrationPaths = writePlannedMigrations(planned, migrationsDir);
+    for (const migrationPath of migrationPaths) {
+      logSuccess(`Migration file created: ${path.basename(migrationPath)}`);
+    }
+
+    console.log();
+    logInfo("The reverted migrations stay in _migrations; apply the revert with:");
+    console.log(chalk.cyan("     ./pocketbase migrate up"));
+    console.log();
+  } catch (error) {
+    if (error instanceof RollbackError) {
+      logError("Rollback Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Roll back fewer migrations with --steps <n> or --to <file>");
+      console.log("  • Check pocketbase-migrate status for the migrations the database has applied");
+    } else if (error instanceof AppliedMigrationsError) {
+      logError("Could not read the database");
+      console.error();
+      console.error(error.message);
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Reading pb_data/data.db needs Node >= 22.5 (built-in node:sqlite)");
+      console.log("  • Point at another location with --pb-data <path>");
+    } else if (error instanceof MigrationExecutionError) {
+      logError("Could not execute the migrations");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Run pocketbase-migrate lint to find the failing migration");
+    } else if (error instanceof FileSystemError) {
+      logError("File System Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Check that the migrations directory is writable");
+    } else if (error instanceof CLIUsageError || error instanceof ConfigurationError) {
+      logError(error instanceof CLIUsageError ? "Usage Error" : "Configuration Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+    } else {
+      logError(`Failed to roll back migrations: ${error}`);
+      if (error instanceof Error && error.stack) {
+        console.error(error.stack);
+      }
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Creates the rollback command
+ *
+ * @returns Commander command instance
+ */
+export function createRollbackCommand(): Command {
+  return new Command("rollback")
+    .description("Preview reverting the newest applied migrations, or write a migration that reverts them")
+    .option("--steps <n>", "How many of the newest applied migrations to revert (default: 1)")
+    .option("--to <file>", "Revert every migration applied after this one (filename or timestamp)")
+    .option("--pb-data <path>", "PocketBase data directory or data.db file (defaults to pb_data next to migrations)")
+    .option("-o, --output <directory>", "Migrations directory")
+    .option("--generate", "Write a forward migration that reverts the schema instead of printing `migrate down`", false)
+    .option("--force", "Proceed even if the rollback contains destructive changes", false)
+    .addHelpText(
+      "after",
+      `
+Examples:
+  $ pocketbase-migrate rollback                       Preview reverting the newest applied migration
+  $ pocketbase-migrate rollback --steps 3             Preview reverting the last three
+  $ pocketbase-migrate rollback --to 1700000000       Revert everything applied after a migration
+  $ pocketbase-migrate rollback --generate --force    Write a revert migration, even if it drops data
+`
+    )
+    .action(executeRollback);
+}
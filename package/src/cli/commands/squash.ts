@@ -0,0 +1,214 @@
+/**
+ * Squash command implementation
+ *
+ * Every `generate` and `status` replays the migrations from the newest
+ * snapshot on. A long history makes that slow; this folds it into one
+ * `importCollections` snapshot, verified against the replayed state, and
+ * moves the files it replaces out of the migrations directory.
+ */
+
+import chalk from "chalk";
+import { Command } from "commander";
+import * as path from "path";
+import {
+  AppliedMigrationsError,
+  discoverMigrations,
+  readAppliedMigrationsIfPresent,
+  resolveMigrationRef,
+  type AppliedMigrationsSource,
+} from "../../migration/engine/index.js";
+import {
+  CLIUsageError,
+  ConfigurationError,
+  FileSystemError,
+  MigrationExecutionError,
+  SquashError,
+} from "../../migration/errors.js";
+import { applySquash, planSquash } from "../../migration/squash.js";
+import { getDataDirectory, getMigrationsDirectory, loadConfig } from "../utils/config.js";
+import {
+  logDebug,
+  logError,
+  logInfo,
+  logKeyValue,
+  logSection,
+  logSuccess,
+  logWarning,
+  setVerbosity,
+} from "../utils/logger.js";
+
+/**
+ * Resolves --to to the timestamp of the migration it names
+ *
+ * @param value - The option's value, if given
+ * @param migrationsDir - The migrations directory
+ */
+function parseCutoff(value: string | undefined, migrationsDir: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const migration = resolveMigrationRef(discoverMigrations(migrationsDir), value);
+  if (!migration) {
+    throw new CLIUsageError(
+      `Invalid --to value: ${value}`,
+      "squash",
+      `Pass the timestamp (1700000000) or filename (1700000000_created_posts.js) of a migration in ${migrationsDir}`
+    );
+  }
+  return migration.timestamp;
+}
+
+/**
+ * Executes the squash command
+ *
+ * @param options - Command options
+ */
+export async function executeSquash(options: any): Promise<void> {
+  try {
+    const parentOpts = options.parent?.opts?.() || {};
+    if (parentOpts.verbose) {
+      setVerbosity("verbose");
+    } else if (parentOpts.quiet) {
+      setVerbosity("quiet");
+    }
+
+    logDebug("Squashing migrations...");
+    logDebug(`Options: ${JSON.stringify(options, null, 2)}`);
+
+    const config = await loadConfig(options);
+    const migrationsDir = getMigrationsDirectory(config);
+    const dataPath = getDataDirectory(config);
+    const cutoff = parseCutoff(options.to, migrationsDir);
+
+    logSection("🗜️  Squashing Migrations");
+    logKeyValue("Migrations", migrationsDir);
+
+    const applied: AppliedMigrationsSource | null = readAppliedMigrationsIfPresent(dataPath);
+    if (applied) {
+      logKeyValue("Database", applied.origin);
+    } else {
+      logWarning(`No database at ${dataPath}; the squash cannot be checked against _migrations.`);
+      if (options.assumeApplied) {
+        logWarning("Every database must have applied exactly the squashed migrations before it runs the snapshot.");
+      }
+    }
+
+    const plan = planSquash(migrationsDir, { to: cutoff, applied, assumeApplied: options.assumeApplied });
+    for (const warning of plan.warnings) {
+      logDebug(`${warning.file ?? "migration"}: ${warning.message}`);
+    }
+
+    console.log();
+    logInfo(
+      `${plan.superseded.length} migration(s) up to ${plan.cutoff} fold into ${plan.filename} ` +
+        `(${plan.collectionCount} collection(s)); ${plan.remaining.length} remain after it.`
+    );
+    logSuccess("Verified: the snapshot, and the migrations after it, reproduce the original state");
+
+    const archiveDir = options.delete ? null : path.resolve(options.archiveDir ?? path.join(migrationsDir, "squashed"));
+
+    if (options.dryRun) {
+      const disposal = archiveDir ? `move to ${archiveDir}` : "delete";
+      console.log();
+      logInfo(`Dry run — would write ${path.join(migrationsDir, plan.filename)} and ${disposal}:`);
+      for (const migration of plan.superseded) {
+        console.log(`  ${migration.name}`);
+      }
+      console.log();
+      return;
+    }
+
+    const result = applySquash(plan, migrationsDir, archiveDir);
+    console.log();
+    logSuccess(`Wrote ${result.snapshotPath}`);
+    logSuccess(
+      archiveDir
+        ? `Moved ${result.moved.length} superseded file(s) to ${archiveDir}`
+        : `Deleted ${result.moved.length} superseded file(s)`
+    );
+
+    console.log();
+    logInfo("Next steps, in every database that applied the squashed migrations:");
+    console.log(chalk.cyan("     ./pocketbase migrate up            ") + "records the snapshot (it changes nothing)");
+    console.log(chalk.cyan("     ./pocketbase migrate history-sync  ") + "forgets the files that are gone");
+    console.log();
+  } catch (error) {
+    if (error instanceof SquashError) {
+      logError("Squash Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Choose another squash point with --to <timestamp>");
+      console.log("  • Point at the database with --pb-data <path>");
+    } else if (error instanceof AppliedMigrationsError) {
+      logError("Could not read the database");
+      console.error();
+      console.error(error.message);
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Reading pb_data/data.db needs Node >= 22.5 (built-in node:sqlite)");
+      console.log("  • Point at another location with --pb-data <path>");
+    } else if (error instanceof MigrationExecutionError) {
+      logError("Could not replay the migrations");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Run pocketbase-migrate lint to find the failing migration");
+    } else if (error instanceof FileSystemError) {
+      logError("File System Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+      console.error();
+      logInfo("Suggestions:");
+      console.log("  • Check that the migrations directory is writable");
+      console.log("  • Restore any moved files from the archive directory before retrying");
+    } else if (error instanceof CLIUsageError || error instanceof ConfigurationError) {
+      logError(error instanceof CLIUsageError ? "Usage Error" : "Configuration Error");
+      console.error();
+      console.error(error.getDetailedMessage());
+    } else {
+      logError(`Failed to squash migrations: ${error}`);
+      if (error instanceof Error && error.stack) {
+        console.error(error.stack);
+      }
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Creates the squash command
+ *
+ * @returns Commander command instance
+ */
+export function createSquashCommand(): Command {
+  return new Command("squash")
+    .description("Fold migrations into a single collections snapshot")
+    .option(
+      "--to <file>",
+      "Newest migration to fold in, by filename or timestamp (default: the newest applied, or the newest on disk)"
+    )
+    .option("--pb-data <path>", "PocketBase data directory or data.db file (defaults to pb_data next to migrations)")
+    .option("-o, --output <directory>", "Migrations directory to squash")
+    .option("--archive-dir <directory>", "Where to move the superseded files (default: <migrations>/squashed)")
+    .option(
+      "--assume-applied",
+      "Squash without a database, trusting every environment applied exactly the squashed migrations",
+      false
+    )
+    .option("--delete", "Delete the superseded files instead of archiving them", false)
+    .option("--dry-run", "Verify the snapshot and list the files it replaces without writing", false)
+    .addHelpText(
+      "after",
+      `
+Examples:
+  $ pocketbase-migrate squash                       Squash every migration the database has applied
+  $ pocketbase-migrate squash --to 1700000000       Squash up to a given migration
+  $ pocketbase-migrate squash --dry-run             Verify without touching any file
+  $ pocketbase-migrate squash --delete              Delete the superseded files (git keeps them)
+`
+    )
+    .action(executeSquash);
+}
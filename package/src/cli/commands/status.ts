@@ -7,18 +7,36 @@ import chalk from "chalk";
 import { Command } from "commander";
 import {
   AppliedMigrationsError,
+  attributeMixinChanges,
   categorizeChangesBySeverity,
+  checkMigrationChecksums,
   compare,
+  diffSettings,
+  discoverMigrations,
+  formatSettingValue,
   parseSchemaFiles,
   planMigrationReplay,
   readAppliedMigrationsIfPresent,
+  replayMigrationsDirectory,
+  summarizeSettingValue,
+  validateSchemaRules,
   type AppliedMigrationsSource,
+  type MigrationChecksum,
   type MigrationPlan,
+  type MixinChanges,
+  type SettingChange,
 } from "../../migration/index.js";
 import { ConfigurationError, SchemaParsingError, SnapshotError } from "../../migration/errors.js";
 import { loadSnapshotWithMigrations } from "../../migration/snapshot.js";
 import type { SchemaDefinition, SchemaDiff, SchemaSnapshot } from "../../migration/types.js";
-import { getDataDirectory, getMigrationsDirectory, getSchemaDirectory, loadConfig } from "../utils/config.js";
+import {
+  getDataDirectory,
+  getMigrationsDirectory,
+  getSchemaDirectory,
+  loadConfig,
+  loadEnvironmentConfigs,
+  type MigrationConfig,
+} from "../utils/config.js";
 import {
   formatChangeSummary,
   formatStatusJson,
@@ -26,6 +44,7 @@ import {
   logError,
   logInfo,
   logKeyValue,
+  logRuleIssues,
   logSection,
   logSuccess,
   logTable,
@@ -33,6 +52,7 @@ import {
   withProgress,
   type StatusOutput,
 } from "../utils/logger.js";
+import { watchSchemaDirectory } from "../utils/watch.js";
 
 /**
  * Checks if there are any changes in the diff
@@ -64,6 +84,8 @@ function hasDestructiveChanges(diff: SchemaDiff): boolean {
  * @param currentCount - Current schema collection count
  * @param snapshotCount - Snapshot collection count
  * @param diff - Schema diff (optional)
+ * @param modified - Migrations edited since they were written, that are or may be applied
+ * @param settings - Declared app settings the migrations do not set yet
  * @returns Status output object
  */
 function createStatusOutput(
@@ -72,7 +94,9 @@ function createStatusOutput(
   snapshotCount: number,
   diff?: SchemaDiff,
   plan?: MigrationPlan | null,
-  appliedDiff?: SchemaDiff | null
+  appliedDiff?: SchemaDiff | null,
+  modified: MigrationChecksum[] = [],
+  settings: SettingChange[] = []
 ): StatusOutput {
   return {
     status,
@@ -107,6 +131,20 @@ function createStatusOutput(
           },
         }
       : {}),
+    ...(modified.length > 0
+      ? {
+          modified: modified.map((migration) => ({ file: migration.file, applied: migration.applied })),
+        }
+      : {}),
+    ...(settings.length > 0
+      ? {
+          settings: settings.map((change) => ({
+            path: change.path,
+            before: summarizeSettingValue(change.path, change.before),
+            after: summarizeSettingValue(change.path, change.after),
+          })),
+        }
+      : {}),
   };
 }
 
@@ -141,6 +179,221 @@ function lookupAppliedMigrations(migrationsDir: string, dataPath: string): Appli
   }
 }
 
+/**
+ * One environment's column in the `--all-envs` matrix
+ */
+export interface EnvironmentColumn {
+  name: string;
+  lookup: AppliedLookup;
+  /**
+   * True when the environment cannot reach the files on disk by applying
+   * what is pending: it ran a migration that is no longer on disk, or one of
+   * its pending migrations is older than one it already applied. Being behind
+   * is not diverging.
+   */
+  diverged: boolean;
+}
+
+/**
+ * Which migrations each environment has applied
+ */
+export interface EnvironmentMatrix {
+  /** Every migration on disk, in timestamp order */
+  migrations: string[];
+  /** Migrations some environment has applied that are no longer on disk */
+  missing: string[];
+  environments: EnvironmentColumn[];
+}
+
+/**
+ * Plans the replay against each environment's `_migrations` table and lines
+ * the results up against the migration files on disk.
+ *
+ * @param migrationsDir - Directory holding the migration files
+ * @param lookups - Applied-migrations lookup per environment name
+ */
+export function buildEnvironmentMatrix(migrationsDir: string, lookups: Map<string, AppliedLookup>): EnvironmentMatrix {
+  const migrations = discoverMigrations(migrationsDir).map((migration) => migration.name);
+  const missing = new Set<string>();
+  const environments: EnvironmentColumn[] = [];
+
+  for (const [name, lookup] of lookups) {
+    const plan = lookup.status === "found" ? lookup.plan : null;
+    for (const file of plan?.missing ?? []) {
+      missing.add(file);
+    }
+    environments.push({
+      name,
+      lookup,
+      diverged: plan !== null && (plan.missing.length > 0 || plan.outOfOrder.length > 0),
+    });
+  }
+
+  return { migrations, missing: [...missing].sort(), environments };
+}
+
+/**
+ * Marks one migration's state in one environment: applied, pending, pending
+ * out of order, applied but missing from disk, or unknown. Uncolored, since
+ * logTable pads cells by their length.
+ */
+function environmentCell(column: EnvironmentColumn, migration: string, onDisk: boolean): string {
+  if (column.lookup.status !== "found") {
+    return "?";
+  }
+  const { plan } = column.lookup;
+  if (!onDisk) {
+    return plan.missing.includes(migration) ? "✗" : "";
+  }
+  if (plan.outOfOrder.includes(migration)) {
+    return "!";
+  }
+  return plan.pending.includes(migration) ? "·" : "✓";
+}
+
+/**
+ * Describes where one environment stands, in a few words
+ */
+function describeEnvironment(column: EnvironmentColumn): string {
+  const { lookup } = column;
+  if (lookup.status === "unavailable") {
+    return `no database at ${lookup.dataPath}`;
+  }
+  if (lookup.status === "failed") {
+    return `could not read ${lookup.dataPath}: ${lookup.message}`;
+  }
+
+  const { plan } = lookup;
+  if (column.diverged) {
+    const reasons: string[] = [];
+    if (plan.missing.length > 0) {
+      reasons.push(`${plan.missing.length} applied migration(s) missing from disk`);
+    }
+    if (plan.outOfOrder.length > 0) {
+      reasons.push(`${plan.outOfOrder.length} pending migration(s) older than applied ones`);
+    }
+    return `diverged - ${reasons.join(", ")}`;
+  }
+  return plan.inSync ? "in sync" : `${plan.pending.length} pending`;
+}
+
+/**
+ * Prints which migrations every configured environment has applied, and
+ * flags the environments that diverge from the files on disk.
+ *
+ * @param options - Command options
+ * @param environments - Each environment's configuration, from loadEnvironmentConfigs()
+ */
+function reportEnvironments(options: any, environments: Map<string, MigrationConfig>): void {
+  const isJsonMode = options.json === true;
+  const names = [...environments.keys()];
+
+  if (names.length === 0) {
+    logError("No environments are configured");
+    console.error();
+    logInfo("Suggestions:");
+    console.log('  • Add environments to the config file: environments: { staging: { dataDirectory: "..." } }');
+    process.exit(1);
+  }
+
+  // Every environment shares the schema, but each may point at its own
+  // migrations directory as well as its own database
+  const lookups = new Map<string, AppliedLookup>();
+  const directories = new Set<string>();
+  for (const [name, environment] of environments) {
+    const migrationsDir = getMigrationsDirectory(environment);
+    directories.add(migrationsDir);
+    lookups.set(name, lookupAppliedMigrations(migrationsDir, getDataDirectory(environment)));
+  }
+
+  if (directories.size > 1) {
+    logError("--all-envs needs every environment to share one migrations directory");
+    console.error();
+    logInfo("Suggestions:");
+    console.log("  • Check each environment on its own with --env <name>");
+    process.exit(1);
+  }
+
+  const matrix = buildEnvironmentMatrix([...directories][0], lookups);
+  const diverged = matrix.environments.filter((column) => column.diverged);
+  if (options.verify === true && diverged.length > 0) {
+    process.exitCode = 1;
+  }
+
+  if (isJsonMode) {
+    const output = {
+      migrations: matrix.migrations,
+      missing: matrix.missing,
+      environments: matrix.environments.map((column) => ({
+        name: column.name,
+        dataPath: column.lookup.status === "found" ? (column.lookup.plan.appliedOrigin ?? "") : column.lookup.dataPath,
+        status: column.lookup.status,
+        ...(column.lookup.status === "found"
+          ? {
+              applied: column.lookup.plan.appliedCount,
+              pending: column.lookup.plan.pending,
+              missing: column.lookup.plan.missing,
+              outOfOrder: column.lookup.plan.outOfOrder,
+              inSync: column.lookup.plan.inSync,
+            }
+          : {}),
+        ...(column.lookup.status === "failed" ? { error: column.lookup.message } : {}),
+        diverged: column.diverged,
+      })),
+    };
+    console.log(JSON.stringify(output, null, 2));
+    return;
+  }
+
+  logSection("🌐 Environments");
+  console.log();
+
+  if (matrix.migrations.length === 0 && matrix.missing.length === 0) {
+    logInfo(`No migration files found in ${[...directories][0]}`);
+  } else {
+    const rows = [
+      ...matrix.migrations.map((migration) => [
+        migration,
+        ...matrix.environments.map((column) => environmentCell(column, migration, true)),
+      ]),
+      ...matrix.missing.map((migration) => [
+        migration,
+        ...matrix.environments.map((column) => environmentCell(column, migration, false)),
+      ]),
+    ];
+    logTable(["Migration", ...names], rows);
+    console.log();
+    console.log(
+      chalk.gray(
+        "  ✓ applied  · pending  ! pending, older than an applied migration  ✗ applied, missing from disk  ? no database"
+      )
+    );
+  }
+
+  console.log();
+  for (const column of matrix.environments) {
+    const description = describeEnvironment(column);
+    if (column.diverged) {
+      console.log(chalk.red(`  ✗ ${column.name}: ${description}`));
+    } else if (column.lookup.status !== "found") {
+      console.log(chalk.gray(`  ? ${column.name}: ${description}`));
+    } else if (column.lookup.plan.inSync) {
+      console.log(chalk.green(`  ✓ ${column.name}: ${description}`));
+    } else {
+      console.log(chalk.yellow(`  · ${column.name}: ${description}`));
+    }
+  }
+  console.log();
+
+  if (diverged.length > 0) {
+    logInfo("Suggestions:");
+    console.log("  • Restore migration files an environment applied but the directory no longer has");
+    console.log("  • Regenerate pending migrations older than applied ones, so they get a newer timestamp");
+    console.log("  • Check one environment in detail with status --env <name> --verify");
+    console.log();
+  }
+}
+
 /**
  * The two states `status` compares the schema against.
  */
@@ -227,6 +480,63 @@ function reportUnappliedChanges(appliedDiff: SchemaDiff): void {
   console.log();
 }
 
+/**
+ * Prints the migrations edited since they were written. One PocketBase has
+ * applied no longer describes the database; one that may have been applied
+ * (no database was read) is reported as a warning.
+ *
+ * @param modified - Edited migrations, leaving out those known to be unapplied
+ */
+function reportModifiedMigrations(modified: MigrationChecksum[]): void {
+  logSection("✏️  Modified Migrations");
+  console.log();
+  for (const migration of modified) {
+    if (migration.applied) {
+      console.log(chalk.red(`  ✗ ${migration.file} was edited after it was applied`));
+    } else {
+      console.log(chalk.yellow(`  ! ${migration.file} was edited since it was generated`));
+    }
+  }
+  console.log();
+  if (modified.some((migration) => migration.applied === null)) {
+    console.log(chalk.gray("  No database was read, so whether these were applied is unknown (--verify checks)."));
+    console.log();
+  }
+  logInfo("Suggestions:");
+  console.log("  • Revert the edit and write a new migration for the change instead");
+  console.log("  • If the edit is intended, record it with: pocketbase-migrate accept-change <file>");
+  console.log();
+}
+
+/**
+ * Prints the declared app settings the migration files do not set yet
+ *
+ * @param changes - Settings changes from diffSettings()
+ */
+function reportSettingsChanges(changes: SettingChange[]): void {
+  logSection("⚙️  App Settings");
+  console.log();
+  for (const change of changes) {
+    const before = formatSettingValue(change.path, change.before);
+    console.log(chalk.yellow(`  ~ ${change.path}: ${before} → ${formatSettingValue(change.path, change.after)}`));
+  }
+  console.log();
+}
+
+/**
+ * Prints which pending changes come from the collections' mixins
+ *
+ * @param attributions - Changes per collection and mixin from attributeMixinChanges()
+ */
+function reportMixinChanges(attributions: MixinChanges[]): void {
+  logSection("🧩 From Mixins");
+  console.log();
+  for (const { collection, mixin, changes } of attributions) {
+    console.log(`  ${collection} ${chalk.gray(`← ${mixin}:`)} ${changes.join(", ")}`);
+  }
+  console.log();
+}
+
 /**
  * Prints the disk vs. `_migrations` comparison.
  *
@@ -343,166 +653,186 @@ function displayChangeTable(diff: SchemaDiff): void {
 }
 
 /**
- * Executes the status command
+ * Parses the schema and reports the migration status
  *
  * @param options - Command options
+ * @param config - Loaded configuration
+ * @param reload - Import the schema modules afresh (watch mode)
  */
-export async function executeStatus(options: any): Promise<void> {
+async function reportStatus(options: any, config: MigrationConfig, reload = false): Promise<void> {
   const isJsonMode = options.json === true;
 
-  try {
-    // Set verbosity based on global options (quiet in JSON mode)
-    if (isJsonMode) {
-      setVerbosity("quiet");
-    } else {
-      const parentOpts = options.parent?.opts?.() || {};
-      if (parentOpts.verbose) {
-        setVerbosity("verbose");
-      } else if (parentOpts.quiet) {
-        setVerbosity("quiet");
-      }
-    }
-
-    logDebug("Checking migration status...");
-    logDebug(`Options: ${JSON.stringify(options, null, 2)}`);
+  // Get paths
+  const schemaDir = getSchemaDirectory(config);
+  const migrationsDir = getMigrationsDirectory(config);
 
-    // Load configuration
-    const config = await loadConfig(options);
+  logSection("🔍 Checking Migration Status");
+  if (typeof options.env === "string") {
+    logKeyValue("Environment", options.env);
+  }
 
-    // Get paths
-    const schemaDir = getSchemaDirectory(config);
-    const migrationsDir = getMigrationsDirectory(config);
+  // Parse schema files with full config (including exclude patterns)
+  const analyzerConfig = {
+    schemaDir,
+    excludePatterns: config.schema.exclude,
+    useCompiledFiles: false, // Use source files since we're in development/testing
+    reload,
+  };
+  const currentSchema: SchemaDefinition = await withProgress("Parsing Zod schemas...", () => parseSchemaFiles(analyzerConfig));
 
-    logSection("🔍 Checking Migration Status");
+  logSuccess(`Found ${currentSchema.collections.size} collection(s) in schema`);
 
-    // Parse schema files with full config (including exclude patterns)
-    const analyzerConfig = {
-      schemaDir,
-      excludePatterns: config.schema.exclude,
-      useCompiledFiles: false, // Use source files since we're in development/testing
-    };
-    const currentSchema: SchemaDefinition = await withProgress("Parsing Zod schemas...", () => parseSchemaFiles(analyzerConfig));
+  // Reported, not fatal: generate is what refuses a broken rule
+  logRuleIssues(validateSchemaRules(currentSchema));
 
-    logSuccess(`Found ${currentSchema.collections.size} collection(s) in schema`);
+  // Reconstruct state from what PocketBase has actually applied, rather
+  // than from every file on disk, when a database is available to ask
+  const useAppliedMigrations =
+    options.verify === true || typeof options.pbData === "string" || typeof options.env === "string";
+  const applied: AppliedLookup | null = useAppliedMigrations
+    ? lookupAppliedMigrations(migrationsDir, getDataDirectory(config))
+    : null;
 
-    // Reconstruct state from what PocketBase has actually applied, rather
-    // than from every file on disk, when a database is available to ask
-    const useAppliedMigrations = options.verify === true || typeof options.pbData === "string";
-    const applied: AppliedLookup | null = useAppliedMigrations
-      ? lookupAppliedMigrations(migrationsDir, getDataDirectory(config))
-      : null;
-
-    if (applied?.status === "failed") {
-      logError(`Could not read applied migrations: ${applied.message}`);
-      process.exit(1);
-    }
+  if (applied?.status === "failed") {
+    logError(`Could not read applied migrations: ${applied.message}`);
+    process.exit(1);
+  }
 
-    if (applied?.status === "unavailable") {
-      logError(`No PocketBase database found at ${applied.dataPath}`);
-      console.error();
-      logInfo("Suggestions:");
-      console.log("  • Start PocketBase once so it creates pb_data/data.db");
-      console.log("  • Point at another location with --pb-data <path>");
-      process.exit(1);
+  if (applied?.status === "unavailable") {
+    logError(`No PocketBase database found at ${applied.dataPath}`);
+    console.error();
+    logInfo("Suggestions:");
+    console.log("  • Start PocketBase once so it creates pb_data/data.db");
+    console.log("  • Point at another location with --pb-data <path>");
+    if (typeof options.env === "string") {
+      console.log(`  • Set environments.${options.env}.dataDirectory in the config file`);
     }
+    process.exit(1);
+  }
 
-    logInfo("Loading previous snapshot...");
-    const { previousSnapshot, appliedDiff } = loadStatusBaselines(currentSchema, migrationsDir, applied);
-
-    // Drift is reported before the schema comparison, and fails the command
-    // when it was explicitly asked for — but the rest of the status still
-    // prints, because knowing what else changed is the point of running it
-    if (applied?.status === "found" && !isJsonMode) {
-      const inSync = reportAppliedMigrations(applied.plan);
-      if (!inSync) {
-        if (appliedDiff) {
-          reportUnappliedChanges(appliedDiff);
-        }
-        if (options.verify === true) {
-          process.exitCode = 1;
-        }
+  logInfo("Loading previous snapshot...");
+  const { previousSnapshot, appliedDiff } = loadStatusBaselines(currentSchema, migrationsDir, applied);
+
+  // Drift is reported before the schema comparison, and fails the command
+  // when it was explicitly asked for — but the rest of the status still
+  // prints, because knowing what else changed is the point of running it
+  if (applied?.status === "found" && !isJsonMode) {
+    const inSync = reportAppliedMigrations(applied.plan);
+    if (!inSync) {
+      if (appliedDiff) {
+        reportUnappliedChanges(appliedDiff);
       }
-    } else if (applied?.status === "found" && !applied.plan.inSync && options.verify === true) {
-      process.exitCode = 1;
-    }
-
-    // Handle first-time setup
-    if (!previousSnapshot) {
-      if (isJsonMode) {
-        const output = createStatusOutput(
-          "first-time-setup",
-          currentSchema.collections.size,
-          0,
-          undefined,
-          applied?.status === "found" ? applied.plan : null,
-          appliedDiff
-        );
-        console.log(formatStatusJson(output));
-        return;
+      if (options.verify === true) {
+        process.exitCode = 1;
       }
-
-      logSection("🆕 First-Time Setup Detected");
-      console.log();
-      logInfo("No previous snapshot found. This appears to be a first-time setup.");
-      console.log();
-      logKeyValue("Collections in schema", String(currentSchema.collections.size));
-      console.log();
-      logInfo('Run "pocketbase-migrate generate" to create the initial migration.');
-      return;
     }
+  } else if (applied?.status === "found" && !applied.plan.inSync && options.verify === true) {
+    process.exitCode = 1;
+  }
 
-    logSuccess(`Loaded snapshot with ${previousSnapshot.collections.size} collection(s)`);
+  // An applied migration edited since replays into a state the database never
+  // ran; those known to be unapplied may still change
+  const modified = checkMigrationChecksums(
+    migrationsDir,
+    applied?.status === "found" ? applied.applied : null
+  ).modified.filter((migration) => migration.applied !== false);
+  if (modified.length > 0 && !isJsonMode) {
+    reportModifiedMigrations(modified);
+  }
+  if (options.verify === true && modified.some((migration) => migration.applied === true)) {
+    process.exitCode = 1;
+  }
+
+  // Declared settings are compared against what the migration files set,
+  // the same baseline the schema comparison uses
+  const settingsChanges = currentSchema.settings
+    ? diffSettings(currentSchema.settings, replayMigrationsDirectory(migrationsDir)?.store ?? null)
+    : [];
 
-    // Compare schemas against the migration files, not against the database:
-    // this section answers "what still needs a migration written?"
-    logSection("📊 Schema Comparison");
-    if (appliedDiff && !isJsonMode) {
-      console.log(chalk.gray("  Compared against the migration files on disk, the same baseline generate uses."));
+  // Handle first-time setup
+  if (!previousSnapshot) {
+    if (isJsonMode) {
+      const output = createStatusOutput(
+        "first-time-setup",
+        currentSchema.collections.size,
+        0,
+        undefined,
+        applied?.status === "found" ? applied.plan : null,
+        appliedDiff,
+        modified,
+        settingsChanges
+      );
+      console.log(formatStatusJson(output));
+      return;
     }
-    const diff = compare(currentSchema, previousSnapshot);
 
-    // Check if there are any changes
-    if (!hasChanges(diff)) {
-      if (isJsonMode) {
-        const output = createStatusOutput(
-          "up-to-date",
-          currentSchema.collections.size,
-          previousSnapshot.collections.size,
-          diff,
-          applied?.status === "found" ? applied.plan : null,
-          appliedDiff
-        );
-        console.log(formatStatusJson(output));
-        return;
-      }
+    logSection("🆕 First-Time Setup Detected");
+    console.log();
+    logInfo("No previous snapshot found. This appears to be a first-time setup.");
+    console.log();
+    logKeyValue("Collections in schema", String(currentSchema.collections.size));
+    console.log();
+    logInfo('Run "pocketbase-migrate generate" to create the initial migration.');
+    return;
+  }
 
-      console.log();
-      logSuccess("✓ Schema is in sync with the migration files");
-      logInfo("No pending changes detected");
-      console.log();
-      logKeyValue("Collections", String(currentSchema.collections.size));
+  logSuccess(`Loaded snapshot with ${previousSnapshot.collections.size} collection(s)`);
 
-      if (appliedDiff && hasChanges(appliedDiff)) {
-        console.log();
-        logInfo("The database is still behind those files — see Applied Migrations above.");
-      }
-      return;
-    }
+  // Compare schemas against the migration files, not against the database:
+  // this section answers "what still needs a migration written?"
+  logSection("📊 Schema Comparison");
+  if (appliedDiff && !isJsonMode) {
+    console.log(chalk.gray("  Compared against the migration files on disk, the same baseline generate uses."));
+  }
+  const diff = compare(currentSchema, previousSnapshot);
 
-    // Handle JSON output mode
+  // Check if there are any changes
+  if (!hasChanges(diff) && settingsChanges.length === 0) {
     if (isJsonMode) {
       const output = createStatusOutput(
-        "changes-pending",
+        "up-to-date",
         currentSchema.collections.size,
         previousSnapshot.collections.size,
         diff,
         applied?.status === "found" ? applied.plan : null,
-        appliedDiff
+        appliedDiff,
+        modified,
+        settingsChanges
       );
       console.log(formatStatusJson(output));
       return;
     }
 
+    console.log();
+    logSuccess("✓ Schema is in sync with the migration files");
+    logInfo("No pending changes detected");
+    console.log();
+    logKeyValue("Collections", String(currentSchema.collections.size));
+
+    if (appliedDiff && hasChanges(appliedDiff)) {
+      console.log();
+      logInfo("The database is still behind those files — see Applied Migrations above.");
+    }
+    return;
+  }
+
+  // Handle JSON output mode
+  if (isJsonMode) {
+    const output = createStatusOutput(
+      "changes-pending",
+      currentSchema.collections.size,
+      previousSnapshot.collections.size,
+      diff,
+      applied?.status === "found" ? applied.plan : null,
+      appliedDiff,
+      modified,
+      settingsChanges
+    );
+    console.log(formatStatusJson(output));
+    return;
+  }
+
+  if (hasChanges(diff)) {
     // Display change summary
     console.log();
     console.log(formatChangeSummary(diff));
@@ -514,51 +844,132 @@ export async function executeStatus(options: any): Promise<void> {
     // Display categorized changes
     displayDestructiveChangesSummary(diff);
 
-    // Display next steps
-    logSection("📝 Next Steps");
+    const attributions = attributeMixinChanges(diff, currentSchema);
+    if (attributions.length > 0) {
+      reportMixinChanges(attributions);
+    }
+  } else {
     console.log();
-    console.log("  To generate a migration for these changes, run:");
-    console.log(chalk.cyan("     pocketbase-migrate generate"));
+    logSuccess("Collections are in sync with the migration files");
+  }
+
+  if (settingsChanges.length > 0) {
+    reportSettingsChanges(settingsChanges);
+  }
+
+  // Display next steps
+  logSection("📝 Next Steps");
+  console.log();
+  console.log("  To generate a migration for these changes, run:");
+  console.log(chalk.cyan("     pocketbase-migrate generate"));
+  console.log();
+
+  const { destructive } = categorizeChangesBySeverity(diff);
+  if (destructive.length > 0) {
+    console.log(chalk.yellow("  ⚠️  Destructive changes detected. Use --force flag when generating:"));
+    console.log(chalk.cyan("     pocketbase-migrate generate --force"));
     console.log();
+  }
+}
 
-    const { destructive } = categorizeChangesBySeverity(diff);
-    if (destructive.length > 0) {
-      console.log(chalk.yellow("  ⚠️  Destructive changes detected. Use --force flag when generating:"));
-      console.log(chalk.cyan("     pocketbase-migrate generate --force"));
-      console.log();
+/**
+ * Prints a status failure with suggestions
+ */
+function reportStatusError(error: unknown): void {
+  // Handle specific error types with helpful messages
+  if (error instanceof SchemaParsingError) {
+    logError("Schema Parsing Error");
+    console.error();
+    console.error(error.getDetailedMessage());
+    console.error();
+    logInfo("Suggestions:");
+    console.log("  • Make sure your schema files are valid Zod schemas");
+    console.log('  • Check that each schema file exports a defineCollection()/defineView() result (default export preferred)');
+  } else if (error instanceof SnapshotError) {
+    logError("Snapshot Error");
+    console.error();
+    console.error(error.getDetailedMessage());
+    console.error();
+    logInfo("Suggestions:");
+    console.log("  • Check that the snapshot file is not corrupted");
+    console.log("  • Verify file permissions for the snapshot file");
+  } else if (error instanceof ConfigurationError) {
+    logError("Configuration Error");
+    console.error();
+    console.error(error.getDetailedMessage());
+    console.error();
+    logInfo("Suggestions:");
+    console.log("  • Check your configuration file syntax");
+    console.log("  • Verify all paths are correct and accessible");
+  } else {
+    logError(`Failed to check status: ${error}`);
+    if (error instanceof Error && error.stack) {
+      console.error(error.stack);
     }
-  } catch (error) {
-    // Handle specific error types with helpful messages
-    if (error instanceof SchemaParsingError) {
-      logError("Schema Parsing Error");
-      console.error();
-      console.error(error.getDetailedMessage());
-      console.error();
-      logInfo("Suggestions:");
-      console.log("  • Make sure your schema files are valid Zod schemas");
-      console.log('  • Check that each schema file exports a defineCollection()/defineView() result (default export preferred)');
-    } else if (error instanceof SnapshotError) {
-      logError("Snapshot Error");
-      console.error();
-      console.error(error.getDetailedMessage());
-      console.error();
-      logInfo("Suggestions:");
-      console.log("  • Check that the snapshot file is not corrupted");
-      console.log("  • Verify file permissions for the snapshot file");
-    } else if (error instanceof ConfigurationError) {
-      logError("Configuration Error");
-      console.error();
-      console.error(error.getDetailedMessage());
-      console.error();
-      logInfo("Suggestions:");
-      console.log("  • Check your configuration file syntax");
-      console.log("  • Verify all paths are correct and accessible");
+  }
+}
+
+/**
+ * Executes the status command
+ *
+ * @param options - Command options
+ */
+export async function executeStatus(options: any): Promise<void> {
+  const isJsonMode = options.json === true;
+
+  try {
+    // Set verbosity based on global options (quiet in JSON mode)
+    if (isJsonMode) {
+      setVerbosity("quiet");
     } else {
-      logError(`Failed to check status: ${error}`);
-      if (error instanceof Error && error.stack) {
-        console.error(error.stack);
+      const parentOpts = options.parent?.opts?.() || {};
+      if (parentOpts.verbose) {
+        setVerbosity("verbose");
+      } else if (parentOpts.quiet) {
+        setVerbosity("quiet");
       }
     }
+
+    logDebug("Checking migration status...");
+    logDebug(`Options: ${JSON.stringify(options, null, 2)}`);
+
+    if (options.allEnvs) {
+      // Each environment brings its own database, and the matrix is not live
+      const flags = { "--env": options.env, "--pb-data": options.pbData, "--watch": options.watch };
+      const conflicting = Object.entries(flags)
+        .filter(([, value]) => value !== undefined && value !== false)
+        .map(([flag]) => flag);
+      if (conflicting.length > 0) {
+        logError(`--all-envs cannot be combined with ${conflicting.join(", ")}`);
+        process.exit(1);
+      }
+      reportEnvironments(options, await loadEnvironmentConfigs(options));
+      return;
+    }
+
+    // Load configuration
+    const config = await loadConfig(options);
+
+    if (options.watch) {
+      if (isJsonMode) {
+        logError("--watch cannot be combined with --json");
+        process.exit(1);
+      }
+      // The status is re-read on every change; one that fails to parse is
+      // reported and the watch goes on
+      await watchSchemaDirectory(getSchemaDirectory(config), async () => {
+        try {
+          await reportStatus(options, config, true);
+        } catch (error) {
+          reportStatusError(error);
+        }
+      });
+      return;
+    }
+
+    await reportStatus(options, config);
+  } catch (error) {
+    reportStatusError(error);
     process.exit(1);
   }
 }
@@ -578,6 +989,9 @@ export function createStatusCommand(): Command {
       "Compare the migration files on disk against PocketBase's _migrations table and fail on any drift"
     )
     .option("--pb-data <path>", "PocketBase data directory or data.db file (defaults to pb_data next to migrations)")
+    .option("--env <name>", "Use a named environment from the config file (its data directory and migrations)")
+    .option("--all-envs", "Show which migrations every configured environment has applied, and flag divergence", false)
+    .option("-w, --watch", "Re-check on every schema change and show the pending diff", false)
     .addHelpText(
       "after",
       `
@@ -586,6 +1000,9 @@ Examples:
   $ pocketbase-migrate status --json       Output status as JSON
   $ pocketbase-migrate status --verbose    Show detailed status information
   $ pocketbase-migrate status --verify     Fail if disk and the database disagree on applied migrations
+  $ pocketbase-migrate status --env prod   Check against the prod environment's database
+  $ pocketbase-migrate status --all-envs   Compare the migrations every environment has applied
+  $ pocketbase-migrate status --watch      Show the pending diff live while editing the schema
 `
     )
     .action(executeStatus);
@@ -15,9 +15,18 @@ import { Command } from "commander";
 import { readFileSync } from "fs";
 import { dirname, join } from "path";
 import { fileURLToPath } from "url";
-import { createGenerateCommand } from "./commands/generate.js";
+import { createAcceptChangeCommand } from "./commands/accept-change.js";
+import { createApplyCommand } from "./commands/apply.js";
+import { createCheckAccessCommand } from "./commands/check-access.js";
+import { createDoctorCommand } from "./commands/doctor.js";
+import { createDriftCommand } from "./commands/drift.js";
 import { createGenerateTypesCommand } from "./commands/generate-types.js";
+import { createGenerateCommand } from "./commands/generate.js";
 import { createLintCommand } from "./commands/lint.js";
+import { createPullCommand } from "./commands/pull.js";
+import { createRebaseCommand } from "./commands/rebase.js";
+import { createRollbackCommand } from "./commands/rollback.js";
+import { createSquashCommand } from "./commands/squash.js";
 import { createStatusCommand } from "./commands/status.js";
 
 // Get package version from package.json
@@ -88,6 +97,15 @@ program.addCommand(createGenerateCommand());
 program.addCommand(createGenerateTypesCommand());
 program.addCommand(createStatusCommand());
 program.addCommand(createLintCommand());
+program.addCommand(createPullCommand());
+program.addCommand(createCheckAccessCommand());
+program.addCommand(createDriftCommand());
+program.addCommand(createSquashCommand());
+program.addCommand(createApplyCommand());
+program.addCommand(createRollbackCommand());
+program.addCommand(createDoctorCommand());
+program.addCommand(createRebaseCommand());
+program.addCommand(createAcceptChangeCommand());
 
 // Add examples to help output
 program.addHelpText(
@@ -99,6 +117,15 @@ ${chalk.bold("Examples:")}
   $ pocketbase-migrate generate-types      Generate TypeScript definitions
   $ pocketbase-migrate generate --force    Generate migration with destructive changes
   $ pocketbase-migrate lint                Check migrations against PocketBase's goja runtime
+  $ pocketbase-migrate pull                Write schema files for an existing pb_data database
+  $ pocketbase-migrate check-access posts list   Evaluate an API rule for a simulated request
+  $ pocketbase-migrate drift               Find collection edits made outside the migrations
+  $ pocketbase-migrate squash              Fold applied migrations into one snapshot
+  $ pocketbase-migrate apply               Apply migrations to pb_data without running PocketBase
+  $ pocketbase-migrate rollback            Preview reverting the newest applied migration
+  $ pocketbase-migrate doctor              Find migrations that conflict after merging branches
+  $ pocketbase-migrate rebase              Regenerate conflicting migrations on the merged state
+  $ pocketbase-migrate accept-change <file>   Accept an intended edit to an applied migration
   $ pocketbase-migrate --help              Show this help message
 
 ${chalk.bold("Configuration:")}
@@ -40,8 +40,18 @@ export interface MigrationConfig {
   typeGen: {
     outPath: string;
   };
+  /**
+   * Named deployments of the same schema, each overriding `migrations` -
+   * usually just its `dataDirectory`. Selected with `--env <name>`.
+   */
+  environments: Record<string, EnvironmentConfig>;
 }
 
+/**
+ * One named environment's overrides of the `migrations` section
+ */
+export type EnvironmentConfig = Partial<MigrationConfig["migrations"]>;
+
 /**
  * Partial configuration for merging
  */
@@ -50,6 +60,7 @@ export type PartialMigrationConfig = {
   migrations?: Partial<MigrationConfig["migrations"]>;
   diff?: Partial<MigrationConfig["diff"]>;
   typeGen?: Partial<MigrationConfig["typeGen"]>;
+  environments?: Record<string, EnvironmentConfig>;
 };
 
 /**
@@ -85,6 +96,7 @@ const DEFAULT_CONFIG: MigrationConfig = {
   typeGen: {
     outPath: "pocketbase-types.ts",
   },
+  environments: {},
 };
 
 /**
@@ -166,9 +178,41 @@ function mergeConfig(base: MigrationConfig, override: PartialMigrationConfig): M
     migrations: { ...base.migrations, ...override.migrations },
     diff: { ...base.diff, ...override.diff },
     typeGen: { ...base.typeGen, ...override.typeGen },
+    environments: { ...base.environments, ...override.environments },
   };
 }
 
+/**
+ * Lists the configured environments, in the order the config declares them
+ */
+export function getEnvironmentNames(config: MigrationConfig): string[] {
+  return Object.keys(config.environments);
+}
+
+/**
+ * Applies one named environment's overrides to the configuration
+ *
+ * @param config - Configuration holding the environment
+ * @param name - Environment name, a key of `environments`
+ * @param configPath - Configuration file, for the error
+ * @returns A new configuration; the given one is not modified
+ * @throws ConfigurationError when no environment has that name
+ */
+export function applyEnvironment(config: MigrationConfig, name: string, configPath?: string): MigrationConfig {
+  const environment = Object.hasOwn(config.environments, name) ? config.environments[name] : undefined;
+  if (!environment || typeof environment !== "object") {
+    const names = getEnvironmentNames(config);
+    throw new ConfigurationError(
+      names.length > 0
+        ? `Unknown environment "${name}" (configured: ${names.join(", ")})`
+        : `Unknown environment "${name}": no environments are configured`,
+      configPath,
+      [`environments.${name}`]
+    );
+  }
+  return mergeConfig(config, { migrations: environment });
+}
+
 /**
  * Loads configuration from environment variables
  */
@@ -276,6 +320,29 @@ function validateConfig(config: MigrationConfig, configPath?: string): void {
     invalidFields.push("typeGen.outPath (must be a non-empty string)");
   }
 
+  if (typeof config.environments !== "object" || config.environments === null || Array.isArray(config.environments)) {
+    invalidFields.push("environments (must be an object of environment names to overrides)");
+  } else {
+    for (const [name, environment] of Object.entries(config.environments)) {
+      if (typeof environment !== "object" || environment === null || Array.isArray(environment)) {
+        invalidFields.push(`environments.${name} (must be an object)`);
+        continue;
+      }
+      if (
+        environment.directory !== undefined &&
+        (typeof environment.directory !== "string" || environment.directory.trim() === "")
+      ) {
+        invalidFields.push(`environments.${name}.directory (must be a non-empty string)`);
+      }
+      if (environment.dataDirectory !== undefined && typeof environment.dataDirectory !== "string") {
+        invalidFields.push(`environments.${name}.dataDirectory (must be a string)`);
+      }
+      if (environment.verify !== undefined && typeof environment.verify !== "boolean") {
+        invalidFields.push(`environments.${name}.verify (must be a boolean)`);
+      }
+    }
+  }
+
   if (invalidFields.length > 0) {
     throw new ConfigurationError("Invalid configuration values", configPath, invalidFields);
   }
@@ -298,7 +365,7 @@ function validateConfig(config: MigrationConfig, configPath?: string): void {
 
 /**
  * Loads and merges configuration from all sources
- * Priority: CLI args > Environment variables > Config file > Defaults
+ * Priority: CLI args > Environment variables > Selected environment > Config file > Defaults
  */
 export async function loadConfig(options: any = {}): Promise<MigrationConfig> {
   let config: MigrationConfig = { ...DEFAULT_CONFIG };
@@ -336,6 +403,12 @@ export async function loadConfig(options: any = {}): Promise<MigrationConfig> {
     }
   }
 
+  // Apply the named environment (--env, or MIGRATION_ENV) over the file
+  const environment = options.env ?? process.env.MIGRATION_ENV;
+  if (typeof environment === "string" && environment !== "") {
+    config = applyEnvironment(config, environment, configFilePath);
+  }
+
   // Merge environment variables
   const envConfig = loadConfigFromEnv();
   if (Object.keys(envConfig).length > 0) {
@@ -354,6 +427,23 @@ export async function loadConfig(options: any = {}): Promise<MigrationConfig> {
   return config;
 }
 
+/**
+ * Loads the configuration once for every configured environment
+ * Each follows loadConfig()'s priority, so CLI args and environment variables
+ * still override what the environment sets.
+ *
+ * @param options - Command options; their own `env` is ignored
+ * @returns The configuration of each environment, by name, in declaration order
+ */
+export async function loadEnvironmentConfigs(options: any = {}): Promise<Map<string, MigrationConfig>> {
+  const names = getEnvironmentNames(await loadConfig(options));
+  const configs = new Map<string, MigrationConfig>();
+  for (const name of names) {
+    configs.set(name, await loadConfig({ ...options, env: name }));
+  }
+  return configs;
+}
+
 /**
  * Gets the absolute path to the schema directory
  */
@@ -431,6 +521,9 @@ export default {
   typeGen: {
     outPath: "pocketbase-types.ts",
   },
+  environments: {
+    // staging: { dataDirectory: "../staging/pb_data" },
+  },
 };
 `;
 }
@@ -0,0 +1,80 @@
+/**
+ * Destructive change gating shared by the commands that write migrations
+ */
+
+import type { SchemaDiff } from "../../migration/types.js";
+import {
+  detectDestructiveChanges,
+  formatDestructiveChanges,
+  requiresForceFlag,
+  summarizeDestructiveChanges,
+} from "../../migration/validation.js";
+import type { MigrationConfig } from "./config.js";
+import { logError, logInfo, logSection, logWarning } from "./logger.js";
+
+/**
+ * Handles destructive changes with warnings and force flag
+ *
+ * @param diff - Schema diff containing changes
+ * @param config - Migration configuration
+ * @param force - Force flag from CLI
+ * @param rerunCommand - The command to suggest, with --force added
+ * @returns True if should proceed, false otherwise
+ */
+export function handleDestructiveChanges(
+  diff: SchemaDiff,
+  config: MigrationConfig,
+  force: boolean,
+  rerunCommand: string
+): boolean {
+  // Detect destructive changes
+  const destructiveChanges = detectDestructiveChanges(diff);
+
+  if (destructiveChanges.length === 0) {
+    return true; // No destructive changes, proceed
+  }
+
+  // Display destructive changes warning
+  logSection("⚠️  Destructive Changes Detected");
+  console.log();
+
+  // Format and display destructive changes
+  console.log(formatDestructiveChanges(destructiveChanges));
+
+  // Display summary
+  const summary = summarizeDestructiveChanges(destructiveChanges);
+  console.log("Summary:");
+  console.log(`  Total: ${summary.total} destructive change(s)`);
+  if (summary.high > 0) {
+    console.log(`  High Severity: ${summary.high}`);
+  }
+  if (summary.medium > 0) {
+    console.log(`  Medium Severity: ${summary.medium}`);
+  }
+  if (summary.low > 0) {
+    console.log(`  Low Severity: ${summary.low}`);
+  }
+  console.log();
+
+  // Check if force flag is required
+  const forceRequired = config.diff.requireForceForDestructive && requiresForceFlag(destructiveChanges);
+
+  if (forceRequired && !force) {
+    // generate filters destructive changes out when !force, so for it this
+    // is a safety net; rollback cannot drop part of a reversion and stops here
+    logError("Destructive changes require the --force flag to proceed.");
+    console.log();
+    logInfo("To proceed with these changes, run the command again with --force:");
+    console.log(`  ${rerunCommand}`);
+    console.log();
+    logWarning("⚠️  WARNING: Using --force will apply these changes and may result in data loss!");
+    return false;
+  }
+
+  if (force) {
+    logWarning("Proceeding with destructive changes (--force flag provided)");
+    console.log();
+  }
+
+  return true;
+}
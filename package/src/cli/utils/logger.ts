@@ -5,6 +5,7 @@
 
 import chalk from "chalk";
 import ora, { type Ora } from "ora";
+import { formatSchemaRuleIssue, type SchemaRuleIssue } from "../../migration/schema-rule-validator.js";
 import type { FieldChange, SchemaDiff } from "../../migration/types.js";
 
 /**
@@ -198,6 +199,11 @@ export function formatChangeSummary(diff: SchemaDiff): string {
     for (const modification of diff.collectionsToModify) {
       lines.push(chalk.yellow(`  ~ ${modification.collection}`));
 
+      // Rename
+      if (modification.nameUpdate) {
+        lines.push(chalk.yellow(`    ~ renamed from ${modification.nameUpdate.oldValue}`));
+      }
+
       // Fields to add
       if (modification.fieldsToAdd.length > 0) {
         lines.push(chalk.green(`    + ${modification.fieldsToAdd.length} field(s) to add:`));
@@ -244,6 +250,12 @@ export function formatChangeSummary(diff: SchemaDiff): string {
         lines.push(chalk.yellow(`    ~ view query to update`));
       }
 
+      // Auth options
+      if (modification.authOptionsUpdate) {
+        const options = Object.keys(modification.authOptionsUpdate.newValue).join(", ");
+        lines.push(chalk.yellow(`    ~ auth options to update: ${options}`));
+      }
+
       lines.push("");
     }
   }
@@ -423,6 +435,27 @@ export function logTimed(message: string, startTime: number): void {
   }
 }
 
+/**
+ * Prints the issues schema-wide rule validation found, errors first
+ *
+ * @param issues - Issues from validateSchemaRules
+ */
+export function logRuleIssues(issues: SchemaRuleIssue[]): void {
+  if (issues.length === 0 || !shouldLog("normal")) {
+    return;
+  }
+
+  logSection("🔐 Rule Validation");
+  console.log();
+  for (const issue of issues.filter((entry) => entry.severity === "error")) {
+    console.log(chalk.red(`  ✗ ${formatSchemaRuleIssue(issue)}`));
+  }
+  for (const issue of issues.filter((entry) => entry.severity === "warning")) {
+    console.log(chalk.yellow(`  ! ${formatSchemaRuleIssue(issue)}`));
+  }
+  console.log();
+}
+
 /**
  * Status output interface for JSON output mode
  */
@@ -463,6 +496,16 @@ export interface StatusOutput {
       modify: number;
     };
   };
+  /**
+   * Migrations edited since they were written, other than those known to be
+   * unapplied. `applied` is null when no applied migrations list was read.
+   */
+  modified?: Array<{ file: string; applied: boolean | null }>;
+  /**
+   * Declared app settings the migration files do not set yet. Literal
+   * secrets are masked; environment references read `{ env: name }`.
+   */
+  settings?: Array<{ path: string; before: unknown; after: unknown }>;
 }
 
 /**
@@ -0,0 +1,56 @@
+/**
+ * Terminal prompts for watch mode and interactive generation
+ */
+
+import chalk from "chalk";
+import * as readline from "readline/promises";
+
+/**
+ * Asks a question on the terminal
+ *
+ * @param question - The question, including any hint about the expected answer
+ * @param signal - Cancels the question
+ * @returns The answer as typed, or null when stdin is not a terminal or the question was cancelled
+ */
+export async function ask(question: string, signal?: AbortSignal): Promise<string | null> {
+  if (!process.stdin.isTTY) {
+    return null;
+  }
+
+  const cancel = new AbortController();
+  const onAbort = (): void => cancel.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  // readline swallows Ctrl+C while it is reading; pass it on to the process
+  // (the watcher stops, anything else exits)
+  rl.on("SIGINT", () => {
+    cancel.abort();
+    process.kill(process.pid, "SIGINT");
+  });
+
+  try {
+    return await rl.question(`${question} `, { signal: cancel.signal });
+  } catch (error) {
+    if (cancel.signal.aborted) {
+      console.log();
+      return null;
+    }
+    throw error;
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    rl.close();
+  }
+}
+
+/**
+ * Asks a yes/no question on the terminal; anything but yes is no
+ *
+ * @param question - The question, without the [y/N] suffix
+ * @param signal - Cancels the question, answering no
+ * @returns False without asking when stdin is not a terminal
+ */
+export async function confirm(question: string, signal?: AbortSignal): Promise<boolean> {
+  const answer = await ask(`${question} ${chalk.gray("[y/N]")}`, signal);
+  return answer !== null && /^y(es)?$/i.test(answer.trim());
+}
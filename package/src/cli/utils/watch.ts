@@ -0,0 +1,116 @@
+/**
+ * Watch mode shared by generate, generate-types and status
+ *
+ * Runs a command once, then again whenever a file in the schema directory
+ * changes, until Ctrl+C. Runs never overlap: a change arriving mid-run
+ * cancels whatever the run is waiting on (a confirmation prompt) and the
+ * command runs again once it settles.
+ */
+
+import chalk from "chalk";
+import * as fs from "fs";
+import { FileSystemError } from "../../migration/errors.js";
+import { logError, logInfo, logSection } from "./logger.js";
+
+/**
+ * Edits arrive as bursts of events (save, format-on-save, temp files);
+ * they are collected for this long before the command runs again
+ */
+const DEBOUNCE_MS = 150;
+
+/**
+ * What a watch run is given
+ */
+export interface WatchRun {
+  /** Files that changed since the last run, relative to the schema directory; empty on the first run */
+  changed: string[];
+  /** Aborted when another change arrives before the run finishes */
+  signal: AbortSignal;
+}
+
+/**
+ * Runs a command now and after every change in the schema directory
+ *
+ * @param schemaDir - Directory to watch, recursively
+ * @param run - The command; it reports its own errors and must not exit the process
+ * @param extensions - Only changes to files with these extensions count
+ * @returns Resolves when the user stops watching with Ctrl+C
+ * @throws FileSystemError when the directory cannot be watched
+ */
+export function watchSchemaDirectory(
+  schemaDir: string,
+  run: (context: WatchRun) => Promise<void>,
+  extensions: string[] = [".ts", ".js"]
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let pending = new Set<string>();
+    let timer: NodeJS.Timeout | undefined;
+    let controller: AbortController | null = null;
+    let running = false;
+    let stopped = false;
+
+    const start = async (changed: string[]): Promise<void> => {
+      running = true;
+      controller = new AbortController();
+      if (changed.length > 0) {
+        logSection(`🔁 ${new Date().toLocaleTimeString()} — ${changed.join(", ")} changed`);
+      }
+      try {
+        await run({ changed, signal: controller.signal });
+      } catch (error) {
+        logError(`${error}`);
+      }
+      running = false;
+      if (stopped) {
+        return;
+      }
+      if (pending.size > 0) {
+        flush();
+      } else {
+        console.log(chalk.gray(`\n  Watching ${schemaDir} for changes — press Ctrl+C to stop`));
+      }
+    };
+
+    const flush = (): void => {
+      timer = undefined;
+      if (running) {
+        // Picked up by start() once the aborted run settles
+        controller?.abort();
+        return;
+      }
+      const changed = [...pending].sort();
+      pending = new Set();
+      void start(changed);
+    };
+
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(schemaDir, { recursive: true }, (_event, filename) => {
+        if (!filename || !extensions.some((extension) => filename.endsWith(extension))) {
+          return;
+        }
+        pending.add(filename);
+        clearTimeout(timer);
+        timer = setTimeout(flush, DEBOUNCE_MS);
+      });
+    } catch (error) {
+      const fsError = error as NodeJS.ErrnoException;
+      reject(
+        new FileSystemError(`Cannot watch schema directory: ${schemaDir}`, schemaDir, "access", fsError.code, fsError)
+      );
+      return;
+    }
+
+    process.once("SIGINT", () => {
+      stopped = true;
+      clearTimeout(timer);
+      controller?.abort();
+      watcher.close();
+      console.log();
+      logInfo("Stopped watching");
+      resolve();
+    });
+
+    void start([]);
+  });
+}
@@ -153,4 +153,76 @@ describe("Analyzer discovery", () => {
     expect(Array.from(result.collections.keys())).toEqual(["Gizmos"]);
     expect(result.collections.get("Gizmos")?.type).toBe("base");
   });
+
+  it("should collect seeds from collection files and seed-only files", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    // Seed files import defineSeed from the source tree, three levels up
+    const dir = createSchemaDir({
+      "roles.ts": `
+        import { z } from "zod";
+        import { defineSeed } from "../../../schema/seed";
+        export default z
+          .object({ slug: z.string() })
+          .describe(JSON.stringify({ collectionName: "Roles" }));
+        export const RoleSeed = defineSeed({ collection: "Roles", key: "slug", records: [{ slug: "admin" }] });
+      `,
+      "flags.ts": `
+        import { z } from "zod";
+        export default z.object({ name: z.string() }).describe(JSON.stringify({ collectionName: "Flags" }));
+      `,
+      "flag-seed.ts": `
+        import { defineSeed } from "../../../schema/seed";
+        export default defineSeed({ collection: "Flags", key: "name", records: [{ name: "beta" }] });
+      `,
+    });
+
+    const result = await parse(dir);
+
+    expect(result.seeds?.map((seed) => seed.collection).sort()).toEqual(["Flags", "Roles"]);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("should error when a seed names a collection no file defines", async () => {
+    const dir = createSchemaDir({
+      "orphan.ts": `
+        import { defineSeed } from "../../../schema/seed";
+        export default defineSeed({ collection: "Ghosts", key: "name", records: [{ name: "boo" }] });
+      `,
+    });
+
+    await expect(parse(dir)).rejects.toThrow(/Seed records are declared for "Ghosts", which no schema file defines/);
+  });
+
+  it("should re-read an edited file and the project files it imports when reload is set", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const dir = createSchemaDir({
+      "fields.ts": `
+        import { z } from "zod";
+        export const fields = { title: z.string() };
+      `,
+      "note.ts": `
+        import { z } from "zod";
+        import { fields } from "./fields";
+        export default z.object(fields).describe(JSON.stringify({ collectionName: "Notes" }));
+      `,
+    });
+    const fieldNames = async () =>
+      (await parseSchemaFiles({ schemaDir: dir, useCompiledFiles: false, reload: true })).collections
+        .get("Notes")!
+        .fields.map((field) => field.name);
+
+    expect(await fieldNames()).toEqual(["title"]);
+
+    fs.writeFileSync(
+      path.join(dir, "fields.ts"),
+      `
+        import { z } from "zod";
+        export const fields = { title: z.string(), body: z.string() };
+      `
+    );
+
+    expect(await fieldNames()).toEqual(["title", "body"]);
+  });
 });
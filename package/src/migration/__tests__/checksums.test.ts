@@ -0,0 +1,123 @@
+/**
+ * Tests for migration checksums: every written migration must carry a header
+ * matching its content, an edit must be reported (and told apart by whether
+ * the migration was applied), and an accepted edit must stop being reported
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  acceptMigrationChanges,
+  checkMigrationChecksums,
+  CHECKSUM_HEADER_PREFIX,
+  computeMigrationChecksum,
+  readMigrationChecksum,
+  withChecksumHeader,
+} from "../checksums";
+import { appliedMigrationsFromList } from "../engine/applied-migrations";
+import { ChecksumError } from "../errors";
+import { writeMigrationFile } from "../generator/file-writer";
+
+const CREATED_POSTS = `migrate((app) => {
+  return app.save(new Collection({ id: "pbc_posts", name: "posts", type: "base", fields: [] }));
+}, (app) => {
+  return app.delete(app.findCollectionByNameOrId("posts"));
+});
+`;
+
+let migrationsDir: string;
+
+beforeEach(() => {
+  migrationsDir = fs.mkdtempSync(path.join(os.tmpdir(), "migration-checksums-"));
+});
+
+afterEach(() => {
+  fs.rmSync(migrationsDir, { recursive: true, force: true });
+});
+
+function edit(file: string, from: string, to: string): void {
+  const filePath = path.join(migrationsDir, file);
+  fs.writeFileSync(filePath, fs.readFileSync(filePath, "utf-8").replace(from, to));
+}
+
+describe("checksum headers", () => {
+  it("records the checksum of the rest of the file, ignoring line endings", () => {
+    const content = withChecksumHeader(CREATED_POSTS);
+
+    expect(content.startsWith(CHECKSUM_HEADER_PREFIX)).toBe(true);
+    expect(content.endsWith(CREATED_POSTS)).toBe(true);
+    expect(readMigrationChecksum(content)).toBe(computeMigrationChecksum(CREATED_POSTS));
+    expect(withChecksumHeader(content)).toBe(content);
+    expect(computeMigrationChecksum(content.replace(/\n/g, "\r\n"))).toBe(computeMigrationChecksum(CREATED_POSTS));
+    expect(readMigrationChecksum(CREATED_POSTS)).toBeNull();
+  });
+
+  it("is written with every migration file", () => {
+    const filePath = writeMigrationFile(migrationsDir, "1000_created_posts.js", CREATED_POSTS);
+
+    expect(fs.readFileSync(filePath, "utf-8")).toBe(withChecksumHeader(CREATED_POSTS));
+    expect(checkMigrationChecksums(migrationsDir).checked).toEqual([
+      expect.objectContaining({ file: "1000_created_posts.js", status: "unchanged", applied: null }),
+    ]);
+  });
+});
+
+describe("checkMigrationChecksums", () => {
+  beforeEach(() => {
+    writeMigrationFile(migrationsDir, "1000_created_posts.js", CREATED_POSTS);
+    writeMigrationFile(migrationsDir, "2000_created_tags.js", CREATED_POSTS.replace(/posts/g, "tags"));
+    fs.writeFileSync(path.join(migrationsDir, "3000_handwritten.js"), CREATED_POSTS.replace(/posts/g, "notes"));
+  });
+
+  it("reports edited migrations and those without a header", () => {
+    edit("1000_created_posts.js", "fields: []", 'fields: [{ name: "title", type: "text" }]');
+
+    const report = checkMigrationChecksums(migrationsDir);
+
+    expect(report.modified).toEqual([
+      expect.objectContaining({ file: "1000_created_posts.js", status: "modified", applied: null }),
+    ]);
+    expect(report.unrecorded).toEqual(["3000_handwritten.js"]);
+  });
+
+  it("tells which edited migrations _migrations lists as applied", () => {
+    edit("1000_created_posts.js", "fields: []", 'fields: [{ name: "title", type: "text" }]');
+    edit("2000_created_tags.js", "fields: []", 'fields: [{ name: "label", type: "text" }]');
+
+    const report = checkMigrationChecksums(migrationsDir, appliedMigrationsFromList(["1000_created_posts.js"]));
+
+    expect(report.modified.map(({ file, applied }) => ({ file, applied }))).toEqual([
+      { file: "1000_created_posts.js", applied: true },
+      { file: "2000_created_tags.js", applied: false },
+    ]);
+  });
+});
+
+describe("acceptMigrationChanges", () => {
+  beforeEach(() => {
+    writeMigrationFile(migrationsDir, "1000_created_posts.js", CREATED_POSTS);
+    fs.writeFileSync(path.join(migrationsDir, "2000_handwritten.js"), CREATED_POSTS.replace(/posts/g, "notes"));
+  });
+
+  it("records the current content of edited and unrecorded migrations", () => {
+    edit("1000_created_posts.js", "return app.save", "// reviewed\n  return app.save");
+    const before = checkMigrationChecksums(migrationsDir).checked[0];
+
+    const accepted = acceptMigrationChanges(migrationsDir, ["1000", "2000_handwritten.js"]);
+
+    expect(accepted).toEqual([
+      expect.objectContaining({ file: "1000_created_posts.js", previous: before.recorded, checksum: before.actual }),
+      expect.objectContaining({ file: "2000_handwritten.js", previous: null }),
+    ]);
+    const report = checkMigrationChecksums(migrationsDir);
+    expect(report.modified).toEqual([]);
+    expect(report.unrecorded).toEqual([]);
+  });
+
+  it("refuses migrations that are not in the directory", () => {
+    expect(() => acceptMigrationChanges(migrationsDir, ["1000", "9999_missing.js"])).toThrow(ChecksumError);
+    expect(() => acceptMigrationChanges(migrationsDir, ["9999_missing.js"])).toThrow(/9999_missing\.js/);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from "vitest";
-import { sortCollectionsByDependency } from "../utils/dependency-sorter";
+import { sortCollectionsByDependency, splitCircularRelations } from "../utils/dependency-sorter";
 import type { CollectionSchema } from "../types";
 
 // Helper to create mock collection
@@ -116,4 +116,80 @@ describe("sortCollectionsByDependency", () => {
 
     consoleSpy.mockRestore();
   });
+
+  it("should create a tenant's membership collection before the collections it scopes", () => {
+    // Documents' rules read members_via_workspace; neither relates to the other
+    const documents = {
+      ...createMockCollection("documents", ["workspaces"]),
+      tenant: {
+        field: "rel_workspaces",
+        collection: "workspaces",
+        membership: { collection: "members", userField: "user", tenantField: "rel_workspaces" },
+      },
+    };
+    const collections = [documents, createMockCollection("members", ["workspaces"]), createMockCollection("workspaces")];
+
+    const sorted = sortCollectionsByDependency(collections);
+    expect(sorted.map(c => c.name)).toEqual(["workspaces", "members", "documents"]);
+  });
+});
+
+describe("splitCircularRelations", () => {
+  it("should leave collections without cycles untouched", () => {
+    const collections = [
+      createMockCollection("A", ["B"]),
+      createMockCollection("B", ["External"]),
+    ];
+
+    const { collections: sorted, deferred } = splitCircularRelations(collections);
+    expect(sorted.map(c => c.name)).toEqual(["B", "A"]);
+    expect(sorted[1]).toBe(collections[0]);
+    expect(deferred.size).toBe(0);
+  });
+
+  it("should hold back relations within a cycle until its last collection", () => {
+    // A -> B -> C -> A, D -> A, and B -> B
+    const collections = [
+      createMockCollection("A", ["B"]),
+      createMockCollection("B", ["C", "B"]),
+      createMockCollection("C", ["A"]),
+      createMockCollection("D", ["A"]),
+    ];
+    const consoleSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { collections: sorted, deferred } = splitCircularRelations(collections);
+
+    expect(consoleSpy).not.toHaveBeenCalled();
+    consoleSpy.mockRestore();
+
+    expect(sorted.map(c => c.name)).toEqual(["A", "B", "C", "D"]);
+    expect(sorted.map(c => c.fields.map(f => f.name))).toEqual([[], [], [], ["rel_A"]]);
+    expect([...deferred.keys()]).toEqual(["C"]);
+    expect(deferred.get("C")!.map(r => [r.collection, r.fields.map(f => f.name)])).toEqual([
+      ["A", ["rel_B"]],
+      ["B", ["rel_C", "rel_B"]],
+      ["C", ["rel_A"]],
+    ]);
+  });
+
+  it("should hold back the indexes and rules that mention a held-back relation", () => {
+    const comments = {
+      ...createMockCollection("comments", ["comments"]),
+      indexes: ["CREATE INDEX idx_parent ON comments (rel_comments)", "CREATE INDEX idx_created ON comments (created)"],
+      rules: { listRule: "rel_comments.id != ''", viewRule: "" },
+    } as CollectionSchema;
+
+    const { collections: sorted, deferred } = splitCircularRelations([comments]);
+
+    expect(sorted[0].indexes).toEqual(["CREATE INDEX idx_created ON comments (created)"]);
+    expect(sorted[0].rules).toEqual({ viewRule: "" });
+    expect(deferred.get("comments")).toEqual([
+      {
+        collection: "comments",
+        fields: comments.fields,
+        indexes: ["CREATE INDEX idx_parent ON comments (rel_comments)"],
+        rules: [{ ruleType: "listRule", value: "rel_comments.id != ''" }],
+      },
+    ]);
+  });
 });
@@ -123,6 +123,32 @@ describe("filterDiff", () => {
       const filtered = filterDiff(diff, { patterns: ["User.name"] });
       expect(filtered.collectionsToModify).toHaveLength(0);
     });
+
+    it("should keep a collection rename with any change kept from it", () => {
+       const diff = createDiff(
+        [],
+        [],
+        [
+            {
+                collection: "Member",
+                nameUpdate: { oldValue: "User", newValue: "Member" },
+                fieldsToAdd: [{ name: "name" }],
+                fieldsToRemove: [],
+                fieldsToModify: [],
+                indexesToAdd: [],
+                indexesToRemove: [],
+                rulesToUpdate: [],
+                permissionsToUpdate: []
+            }
+        ]
+      );
+
+      // The added field addresses the collection by its new name
+      const byField = filterDiff(diff, { patterns: ["Member.name"] });
+      expect(byField.collectionsToModify[0].nameUpdate).toEqual({ oldValue: "User", newValue: "Member" });
+
+      expect(filterDiff(diff, { patterns: ["Post"] }).collectionsToModify).toHaveLength(0);
+    });
   });
 
   describe("skipDestructive", () => {
@@ -0,0 +1,86 @@
+/**
+ * A migrations directory on disk, for the tests of what reads or rewrites a
+ * migration history: `_migrations` planning, squash and rollback
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach } from "vitest";
+
+/** A migration creating a base collection with one text field, `name` */
+export function createdCollection(id: string, name: string): string {
+  return `migrate((app) => {
+  const collection = new Collection({
+    id: ${JSON.stringify(id)},
+    name: ${JSON.stringify(name)},
+    type: "base",
+    fields: [{ id: "text_name", name: "name", type: "text" }],
+    indexes: [],
+  });
+  return app.save(collection);
+}, (app) => {
+  return app.delete(app.findCollectionByNameOrId(${JSON.stringify(name)}));
+});
+`;
+}
+
+/** A migration adding a text field to a collection */
+export function addedField(collection: string, field: string): string {
+  return `migrate((app) => {
+  const collection = app.findCollectionByNameOrId(${JSON.stringify(collection)});
+  collection.fields.add(new TextField({ id: "text_${field}", name: ${JSON.stringify(field)} }));
+  return app.save(collection);
+}, (app) => {
+  const collection = app.findCollectionByNameOrId(${JSON.stringify(collection)});
+  collection.fields.removeByName(${JSON.stringify(field)});
+  return app.save(collection);
+});
+`;
+}
+
+/** Three migrations by filename: posts created, a field added to it, tags created */
+export const HISTORY: Record<string, string> = {
+  "1700000100_created_posts.js": createdCollection("pbc_posts", "posts"),
+  "1700000200_updated_posts.js": addedField("posts", "summary"),
+  "1700000300_created_tags.js": createdCollection("pbc_tags", "tags"),
+};
+
+/** The filenames of HISTORY, oldest first */
+export const HISTORY_FILES = Object.keys(HISTORY);
+
+export interface MigrationsDirectory {
+  /** Temporary working directory, removed after each test */
+  readonly workdir: string;
+  /** `pb_migrations` inside the working directory */
+  readonly migrationsDir: string;
+}
+
+/**
+ * Gives each test of the calling file a fresh `pb_migrations` directory
+ * holding the given migrations
+ *
+ * Registers the beforeEach/afterEach hooks; read the paths from the returned
+ * object inside the tests, after the hooks have set them.
+ *
+ * @param prefix - Prefix of the temporary directory's name
+ * @param files - Migration sources by filename
+ */
+export function useMigrationsDirectory(prefix: string, files: Record<string, string> = {}): MigrationsDirectory {
+  const directory = { workdir: "", migrationsDir: "" };
+
+  beforeEach(() => {
+    directory.workdir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+    directory.migrationsDir = path.join(directory.workdir, "pb_migrations");
+    fs.mkdirSync(directory.migrationsDir);
+    for (const [name, source] of Object.entries(files)) {
+      fs.writeFileSync(path.join(directory.migrationsDir, name), source);
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory.workdir, { recursive: true, force: true });
+  });
+
+  return directory;
+}
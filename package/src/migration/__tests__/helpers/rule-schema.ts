@@ -0,0 +1,78 @@
+/**
+ * A small schema for the tests of API rules: validating them across the
+ * schema and simulating them against sample records
+ *
+ * users, teams, posts and comments are linked by relations both ways;
+ * `posts.legacy` points at a collection that does not exist, and `stats` is
+ * a view collection.
+ */
+
+import type { CollectionSchema, FieldDefinition, SchemaDefinition } from "../../types";
+
+export function field(
+  name: string,
+  type: FieldDefinition["type"],
+  extra: Partial<FieldDefinition> = {}
+): FieldDefinition {
+  return { name, id: `${name}_id`, type, required: false, ...extra };
+}
+
+export function relation(name: string, collection: string, maxSelect = 1): FieldDefinition {
+  return field(name, "relation", { relation: { collection, maxSelect } });
+}
+
+/**
+ * The schema with the given rules on `posts`
+ *
+ * @param rules - Rules of the posts collection
+ */
+export function schemaWithPostRules(rules: CollectionSchema["rules"]): SchemaDefinition {
+  const collections: CollectionSchema[] = [
+    {
+      name: "users",
+      type: "auth",
+      fields: [
+        field("name", "text"),
+        field("role", "select", { options: { values: ["member", "admin"] } }),
+        relation("team", "teams"),
+      ],
+      rules: { listRule: "id = @request.auth.id", manageRule: '@request.auth.role = "admin"' },
+    },
+    {
+      name: "teams",
+      type: "base",
+      fields: [field("title", "text"), relation("owner", "users"), relation("members", "users", 10)],
+    },
+    {
+      name: "posts",
+      type: "base",
+      fields: [
+        field("title", "text"),
+        field("status", "select", { options: { values: ["draft", "published"] } }),
+        field("views", "number"),
+        field("published", "bool"),
+        field("meta", "json"),
+        field("tags", "select", { options: { values: ["a", "b", "c"], maxSelect: 3 } }),
+        relation("author", "users"),
+        relation("editors", "users", 5),
+        relation("team", "teams"),
+        relation("legacy", "archive"),
+      ],
+      rules,
+    },
+    {
+      name: "comments",
+      type: "base",
+      fields: [field("body", "text"), relation("post", "posts"), relation("author", "users")],
+    },
+    {
+      name: "stats",
+      type: "view",
+      fields: [],
+      viewQuery: "SELECT id FROM posts",
+      rules: { listRule: "", createRule: "" },
+    },
+  ];
+
+  return { collections: new Map(collections.map((collection) => [collection.name, collection])) };
+}
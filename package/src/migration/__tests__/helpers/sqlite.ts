@@ -0,0 +1,23 @@
+/**
+ * node:sqlite for the tests that write a real database file
+ *
+ * Runtimes without node:sqlite (before Node 22.5) leave `sqlite` null; guard
+ * those tests with `it.skipIf(!sqlite)` / `describe.skipIf(!sqlite)`.
+ */
+
+import { loadSqliteModule, openWritableDatabase, type SqliteDatabase } from "../../engine/sqlite";
+
+export const sqlite = loadSqliteModule();
+
+/**
+ * Opens a database file for writing, creating it when it does not exist
+ *
+ * @param databasePath - Path of the data.db file
+ * @throws Error on a runtime without node:sqlite; skip the test there
+ */
+export function openTestDatabase(databasePath: string): SqliteDatabase {
+  if (!sqlite) {
+    throw new Error("node:sqlite is not available on this runtime");
+  }
+  return openWritableDatabase(sqlite, databasePath);
+}
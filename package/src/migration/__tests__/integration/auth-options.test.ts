@@ -0,0 +1,219 @@
+/**
+ * Integration tests for auth collection options
+ *
+ * Validates that the `auth` block of defineCollection():
+ * - is written into the created collection, with secrets read by $os.getenv()
+ * - replays to a state the schema has nothing more to say about
+ * - diffs only the options the schema declares, against PocketBase's defaults
+ *   when the collection never set them
+ * - is updated with unmarshal() and restored by down()
+ * - never copies a stored secret into a migration
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import type { AuthCollectionOptions } from "../../../schema/auth";
+import { baseSchema, defineCollection } from "../../../schema/base";
+import { fromEnv } from "../../../schema/env";
+import { TextField } from "../../../schema/fields";
+import { convertZodSchemaToCollectionSchema } from "../../analyzer";
+import { compare } from "../../diff";
+import { categorizeChangesBySeverity } from "../../diff/summary";
+import { lintMigrationFile } from "../../engine/goja-lint";
+import { executeMigrationDownFile } from "../../engine/runner";
+import { verifyMigrationFiles } from "../../engine/verify";
+import { generate } from "../../generator";
+import { convertPocketBaseCollection } from "../../pocketbase-converter";
+import type { SchemaDefinition, SchemaSnapshot } from "../../types";
+import { executeMigrationFiles, requireCollection } from "../helpers/migration-executor";
+
+function members(auth?: AuthCollectionOptions) {
+  return defineCollection({
+    collectionName: "members",
+    type: "auth",
+    auth,
+    schema: z.object({ username: TextField() }).extend(baseSchema),
+    indexes: ["CREATE UNIQUE INDEX idx_members_username ON members (username)"],
+  });
+}
+
+function schemaDefinition(collection: z.ZodObject<any>): SchemaDefinition {
+  return { collections: new Map([["members", convertZodSchemaToCollectionSchema("members", collection)]]) };
+}
+
+const GOOGLE = {
+  name: "google",
+  clientId: { env: "GOOGLE_CLIENT_ID" },
+  clientSecret: { env: "GOOGLE_CLIENT_SECRET" },
+};
+
+const MembersV1 = members({
+  passwordAuth: { identityFields: ["email", "username"] },
+  oauth2: { enabled: true, providers: [GOOGLE] },
+});
+
+describe("auth collection options", () => {
+  const tempDir = path.join(os.tmpdir(), "migration-test-auth-options-" + Date.now());
+
+  beforeAll(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function applyV1(name: string) {
+    const dir = path.join(tempDir, name);
+    fs.mkdirSync(dir, { recursive: true });
+    const createPaths = generate(compare(schemaDefinition(MembersV1), null), dir);
+    return { dir, createPaths, ...executeMigrationFiles(createPaths) };
+  }
+
+  it("carries the options into the analyzer and ignores them on other collection types", () => {
+    expect(convertZodSchemaToCollectionSchema("members", MembersV1).auth).toEqual({
+      passwordAuth: { identityFields: ["email", "username"] },
+      oauth2: { enabled: true, providers: [GOOGLE] },
+    });
+
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const posts = defineCollection({
+      collectionName: "posts",
+      auth: { otp: { enabled: true } },
+      schema: z.object({ title: TextField() }).extend(baseSchema),
+    });
+    expect(convertZodSchemaToCollectionSchema("posts", posts).auth).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("only used by auth collections"));
+    warn.mockRestore();
+  });
+
+  it("creates the collection with its options and reads secrets from the environment", () => {
+    const { createPaths, snapshot } = applyV1("create");
+    const content = fs.readFileSync(createPaths[0], "utf-8");
+
+    expect(content).toContain(`"passwordAuth": {`);
+    expect(content).toContain(`"clientSecret": $os.getenv("GOOGLE_CLIENT_SECRET")`);
+    expect(content).toContain(`"clientId": $os.getenv("GOOGLE_CLIENT_ID")`);
+    expect(lintMigrationFile(createPaths[0]).ok).toBe(true);
+
+    const members = requireCollection(snapshot, "members");
+    expect(members.auth?.passwordAuth).toEqual({ identityFields: ["email", "username"] });
+    expect(compare(schemaDefinition(MembersV1), snapshot).collectionsToModify).toHaveLength(0);
+  });
+
+  it("reads fromEnv() secrets from the environment like { env } ones", () => {
+    const dir = path.join(tempDir, "from-env");
+    fs.mkdirSync(dir, { recursive: true });
+    const github = { name: "github", clientId: fromEnv("GITHUB_CLIENT_ID"), clientSecret: fromEnv("GITHUB_SECRET") };
+    const Members = members({ oauth2: { enabled: true, providers: [github] } });
+
+    const createPaths = generate(compare(schemaDefinition(Members), null), dir);
+    const content = fs.readFileSync(createPaths[0], "utf-8");
+    expect(content).toContain(`"clientSecret": $os.getenv("GITHUB_SECRET")`);
+    expect(content).toContain(`"clientId": $os.getenv("GITHUB_CLIENT_ID")`);
+    const { snapshot } = executeMigrationFiles(createPaths);
+    expect(compare(schemaDefinition(Members), snapshot).collectionsToModify).toHaveLength(0);
+  });
+
+  it("updates only the declared options and restores them on rollback", () => {
+    const { dir, createPaths, snapshot } = applyV1("modify");
+    const MembersV2 = members({
+      passwordAuth: { identityFields: ["email", "username"] },
+      oauth2: { enabled: true, providers: [GOOGLE] },
+      otp: { enabled: true, duration: 300 },
+      authToken: { duration: 3600 },
+    });
+
+    const diff = compare(schemaDefinition(MembersV2), snapshot);
+    expect(diff.collectionsToModify).toHaveLength(1);
+    expect(diff.collectionsToModify[0].authOptionsUpdate).toEqual({
+      newValue: { otp: { enabled: true, duration: 300 }, authToken: { duration: 3600 } },
+      // Never set before, so PocketBase's defaults are what down() restores
+      oldValue: { otp: { enabled: false, duration: 180 }, authToken: { duration: 604800 } },
+    });
+    expect(categorizeChangesBySeverity(diff)).toEqual({
+      destructive: [],
+      nonDestructive: ["Update auth options: members (otp, authToken)"],
+    });
+
+    const updatePaths = generate(diff, dir);
+    const content = fs.readFileSync(updatePaths[0], "utf-8");
+    expect(content).toContain("unmarshal({");
+    expect(content).not.toContain("passwordAuth");
+    expect(verifyMigrationFiles(updatePaths, { initialStore: executeMigrationFiles(createPaths).store }).ok).toBe(true);
+
+    const { store, snapshot: after } = executeMigrationFiles([...createPaths, ...updatePaths]);
+    expect(requireCollection(after, "members").auth?.otp).toEqual({ enabled: true, duration: 300 });
+    expect(compare(schemaDefinition(MembersV2), after).collectionsToModify).toHaveLength(0);
+
+    executeMigrationDownFile(updatePaths[0], store);
+    expect(requireCollection(store.toSnapshot(), "members").auth?.otp).toEqual({ enabled: false, duration: 180 });
+  });
+
+  it("replaces the provider list and keeps stored secrets out of the migration", () => {
+    const dir = path.join(tempDir, "secrets");
+    fs.mkdirSync(dir, { recursive: true });
+
+    // State read from a database PocketBase wrote: secrets in plain text
+    const stored = convertPocketBaseCollection({
+      id: "pbc_members",
+      name: "members",
+      type: "auth",
+      fields: [{ id: "text_username", name: "username", type: "text" }],
+      indexes: ["CREATE UNIQUE INDEX idx_members_username ON members (username)"],
+      oauth2: {
+        enabled: true,
+        mappedFields: { id: "", name: "", username: "", avatarURL: "" },
+        providers: [{ name: "google", clientId: "1234.apps", clientSecret: "super-secret", pkce: null }],
+      },
+      authToken: { duration: 604800, secret: "token-secret" },
+    });
+    const previous: SchemaSnapshot = {
+      version: "1.0.0",
+      timestamp: new Date().toISOString(),
+      collections: new Map([["members", stored]]),
+    };
+
+    const github = { name: "github", clientId: "gh-client", clientSecret: { env: "GITHUB_CLIENT_SECRET" } };
+    const MembersV2 = members({
+      oauth2: { enabled: true, providers: [GOOGLE, github] },
+      authToken: { duration: 3600 },
+    });
+    const diff = compare(schemaDefinition(MembersV2), previous);
+
+    const content = generate(diff, dir)
+      .map((file) => fs.readFileSync(file, "utf-8"))
+      .join("\n");
+    expect(content).toContain(`"clientSecret": $os.getenv("GITHUB_CLIENT_SECRET")`);
+    expect(content).not.toContain("super-secret");
+    expect(content).not.toContain("token-secret");
+    // down() restores the Google provider, reading its secret the way up() does
+    expect(content).toContain(`"clientId": "1234.apps"`);
+    expect(content.match(/\$os\.getenv\("GOOGLE_CLIENT_SECRET"\)/g)).toHaveLength(2);
+  });
+
+  it("names the options down() cannot restore", () => {
+    const { dir, snapshot } = applyV1("templates");
+    const template = { subject: "Welcome to {APP_NAME}", body: "<p>{TOKEN}</p>" };
+    const diff = compare(
+      schemaDefinition(
+        members({
+          passwordAuth: { identityFields: ["email", "username"] },
+          oauth2: { enabled: true, providers: [GOOGLE] },
+          verificationTemplate: template,
+        })
+      ),
+      snapshot
+    );
+
+    expect(diff.collectionsToModify[0].authOptionsUpdate).toEqual({
+      newValue: { verificationTemplate: template },
+      oldValue: {},
+    });
+    const content = fs.readFileSync(generate(diff, dir)[0], "utf-8");
+    expect(content).toContain("// Not restored, the previous value is not known: verificationTemplate");
+  });
+});
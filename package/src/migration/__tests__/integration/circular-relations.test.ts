@@ -0,0 +1,112 @@
+/**
+ * Integration tests for creating collections whose relations form a cycle
+ *
+ * Validates that:
+ * - relations between collections of the same cycle, self-references
+ *   included, are left out of the collections' creation
+ * - the indexes and rules that mention them are held back with them
+ * - they are added in the migration creating the cycle's last collection,
+ *   whose down() removes them again before deleting it
+ * - the migrations reproduce the schema and roll back cleanly
+ */
+
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { baseSchema, defineCollection, RelationField } from "../../../schema/base";
+import { TextField } from "../../../schema/fields";
+import { convertZodSchemaToCollectionSchema } from "../../analyzer";
+import { compare } from "../../diff";
+import { verifyMigrationSources } from "../../engine/verify";
+import { planMigrations } from "../../generator";
+import type { SchemaDefinition } from "../../types";
+import { snapshotFromMigrationSources } from "../helpers/migration-executor";
+
+const Users = defineCollection({
+  collectionName: "members",
+  schema: z.object({ name: TextField(), team: RelationField({ collection: "teams" }) }).extend(baseSchema),
+  permissions: { listRule: "team.owner = @request.auth.id", viewRule: "" },
+  indexes: ["CREATE INDEX idx_members_team ON members (team)"],
+});
+
+const Teams = defineCollection({
+  collectionName: "teams",
+  schema: z.object({ title: TextField(), owner: RelationField({ collection: "members" }) }).extend(baseSchema),
+});
+
+const Comments = defineCollection({
+  collectionName: "comments",
+  schema: z
+    .object({
+      body: TextField(),
+      parent: RelationField({ collection: "comments" }).optional(),
+      team: RelationField({ collection: "teams" }),
+    })
+    .extend(baseSchema),
+});
+
+function schemaDefinition(collections: Record<string, z.ZodObject<any>>): SchemaDefinition {
+  return {
+    collections: new Map(
+      Object.entries(collections).map(([name, schema]) => [name, convertZodSchemaToCollectionSchema(name, schema)])
+    ),
+  };
+}
+
+const schema = schemaDefinition({ comments: Comments, members: Users, teams: Teams });
+
+function plan() {
+  return planMigrations(compare(schema, null), { migrationDir: "/tmp/unused", force: true });
+}
+
+describe("circular relations between new collections", () => {
+  it("creates the cycle's collections without the relations between them", () => {
+    const [members, teams, comments] = plan();
+
+    expect(members.filename).toMatch(/_created_members\.js$/);
+    expect(teams.filename).toMatch(/_created_teams\.js$/);
+    expect(comments.filename).toMatch(/_created_comments\.js$/);
+
+    const membersCreation = members.content.slice(0, members.content.indexOf("}, (app) =>"));
+    expect(membersCreation).not.toContain('"name": "team"');
+    expect(membersCreation).not.toContain("idx_members_team");
+    expect(membersCreation).not.toContain('"listRule"');
+    expect(membersCreation).toContain('"viewRule": ""');
+
+    // A relation to a collection outside the cycle stays where it is
+    expect(comments.content).toContain('"name": "team"');
+  });
+
+  it("adds them, with their indexes and rules, once the cycle's last collection exists", () => {
+    const teams = plan()[1];
+    const [up, down] = teams.content.split("}, (app) =>");
+
+    expect(up.indexOf("app.save(collection);")).toBeLessThan(up.indexOf(".fields.add(new RelationField"));
+    expect(up).toContain('"name": "team"');
+    expect(up).toContain('"name": "owner"');
+    expect(up).toContain('indexes.push("CREATE INDEX idx_members_team ON members (team)")');
+    expect(up).toContain('"listRule": "team.owner = @request.auth.id"');
+
+    expect(down.indexOf('removeByName("team")')).toBeLessThan(down.indexOf("app.delete(collection)"));
+    expect(down.indexOf('"listRule": null')).toBeLessThan(down.indexOf('removeByName("team")'));
+  });
+
+  it("adds a self-referencing relation after its collection is created", () => {
+    const comments = plan()[2];
+    const [up, down] = comments.content.split("}, (app) =>");
+
+    expect(up.indexOf('"name": "parent"')).toBeGreaterThan(up.indexOf("app.save(collection);"));
+    expect(down).toContain('removeByName("parent")');
+  });
+
+  it("reproduces the schema and rolls back cleanly", () => {
+    const sources = plan().map((migration) => migration.content);
+
+    const report = verifyMigrationSources(sources.map((source, i) => ({ source, file: `${i}.js` })));
+    expect(report.failures).toEqual([]);
+
+    const diff = compare(schema, snapshotFromMigrationSources(sources));
+    expect(diff.collectionsToCreate).toEqual([]);
+    expect(diff.collectionsToModify).toEqual([]);
+    expect(diff.collectionsToDelete).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Integration tests for backfilling required fields added to existing
+ * collections
+ *
+ * Validates that:
+ * - a required field added without a backfill is a destructive change, and
+ *   is left out when skipping destructive changes
+ * - a backfill value or function is read from the field helper
+ * - the generated migration adds the field as optional, fills every existing
+ *   record, and only then makes the field required
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { baseSchema, defineCollection, RelationField } from "../../../schema/base";
+import { NumberField, TextField } from "../../../schema/fields";
+import { convertZodSchemaToCollectionSchema } from "../../analyzer";
+import { compare } from "../../diff";
+import { filterDiff } from "../../diff/filter";
+import { categorizeChangesBySeverity } from "../../diff/summary";
+import { lintMigrationFile } from "../../engine/goja-lint";
+import { RecordModel } from "../../engine/records";
+import { executeMigrationSource } from "../../engine/runner";
+import { generate } from "../../generator";
+import type { SchemaDefinition } from "../../types";
+import { DestructiveChangeType, detectDestructiveChanges } from "../../validation";
+import { executeMigrationFiles } from "../helpers/migration-executor";
+
+function schemaDefinition(collection: z.ZodObject<any>): SchemaDefinition {
+  return { collections: new Map([["articles", convertZodSchemaToCollectionSchema("articles", collection)]]) };
+}
+
+function articles(fields: z.ZodRawShape) {
+  return defineCollection({
+    collectionName: "articles",
+    schema: z.object({ title: TextField(), ...fields }).extend(baseSchema),
+  });
+}
+
+const ArticlesV1 = articles({});
+
+describe("field backfills", () => {
+  const tempDir = path.join(os.tmpdir(), "migration-test-backfill-" + Date.now());
+
+  beforeAll(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /** Creates the collection with two records in it */
+  function applyV1(name: string) {
+    const dir = path.join(tempDir, name);
+    fs.mkdirSync(dir, { recursive: true });
+    const executed = executeMigrationFiles(generate(compare(schemaDefinition(ArticlesV1), null), dir));
+    const collection = executed.store.getByNameOrId("articles")!;
+    executed.store.records.save(new RecordModel(collection, { title: "First" }));
+    executed.store.records.save(new RecordModel(collection, { title: "Second post" }));
+    return { dir, ...executed };
+  }
+
+  /** Generates the migration and runs it against the records */
+  function migrate(name: string, fields: z.ZodRawShape) {
+    const { dir, store, snapshot } = applyV1(name);
+    const diff = compare(schemaDefinition(articles(fields)), snapshot);
+    const [file] = generate(diff, dir);
+    const content = fs.readFileSync(file, "utf-8");
+
+    expect(lintMigrationFile(file).ok).toBe(true);
+    executeMigrationSource(content, store, { records: "simulate" });
+
+    const records = store.records.list(store.getByNameOrId("articles")!.id);
+    return { content, store, records };
+  }
+
+  it("reports a required field added without a backfill as destructive", () => {
+    const { snapshot } = applyV1("destructive");
+    const diff = compare(schemaDefinition(articles({ slug: TextField({ min: 1 }) })), snapshot);
+
+    expect(detectDestructiveChanges(diff)).toEqual([
+      expect.objectContaining({
+        type: DestructiveChangeType.FIELD_REQUIRED_ADDITION,
+        collection: "articles",
+        field: "slug",
+        severity: "medium",
+      }),
+    ]);
+    expect(categorizeChangesBySeverity(diff).destructive).toEqual([
+      "Add required field without a backfill: articles.slug",
+    ]);
+    expect(filterDiff(diff, { skipDestructive: true }).collectionsToModify).toHaveLength(0);
+
+    const optional = compare(schemaDefinition(articles({ slug: TextField().optional() })), snapshot);
+    expect(detectDestructiveChanges(optional)).toEqual([]);
+  });
+
+  it("fills existing records with a value before making the field required", () => {
+    const fields = { slug: TextField({ min: 1, backfill: "untitled" }) };
+    expect(schemaDefinition(articles(fields)).collections.get("articles")?.fields[1].backfill).toEqual({
+      value: "untitled",
+    });
+
+    const { content, store, records } = migrate("value", fields);
+
+    expect(content).toContain('"required": false');
+    expect(content).toContain('record.set("slug", "untitled")');
+    expect(content.indexOf("saveNoValidate")).toBeLessThan(content.indexOf(".required = true"));
+    expect(records.map((record) => record.get("slug"))).toEqual(["untitled", "untitled"]);
+    expect(store.getByNameOrId("articles")!.fields.getByName("slug")?.required).toBe(true);
+  });
+
+  it("computes each record's value with a backfill function", () => {
+    const { content, records } = migrate("function", {
+      words: NumberField({ required: true, backfill: (record) => record.get("title").split(" ").length }),
+    });
+
+    expect(content).toContain('.split(" ").length');
+    expect(records.map((record) => record.get("words"))).toEqual([1, 2]);
+  });
+
+  it("is not destructive once a backfill is given, for relations too", () => {
+    const { snapshot } = applyV1("relation");
+    const diff = compare(
+      schemaDefinition(articles({ author: RelationField({ collection: "articles", backfill: "abc123def456ghi" }) })),
+      snapshot
+    );
+
+    expect(diff.collectionsToModify[0].fieldsToAdd[0].backfill).toEqual({ value: "abc123def456ghi" });
+    expect(detectDestructiveChanges(diff)).toEqual([]);
+  });
+});
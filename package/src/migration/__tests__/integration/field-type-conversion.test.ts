@@ -0,0 +1,178 @@
+/**
+ * Integration tests for field type conversions
+ *
+ * Validates that changing a field's type:
+ * - is reported as a conversion, not a destructive change, when the values
+ *   can be carried across, and is kept by --skip-destructive
+ * - generates goja-compatible code that copies and converts every record
+ * - uses the field's `convert` hook when the schema declares one
+ * - passes the record-level verification when the conversion is sound, and
+ *   fails it when the hook produces values the new type cannot hold
+ * - stays destructive when no conversion exists
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { baseSchema, defineCollection } from "../../../schema/base";
+import { JSONField, NumberField, SelectField, TextField } from "../../../schema/fields";
+import { convertZodSchemaToCollectionSchema } from "../../analyzer";
+import { listFieldTypeConversions } from "../../conversions";
+import { compare } from "../../diff";
+import { filterDiff } from "../../diff/filter";
+import { categorizeChangesBySeverity } from "../../diff/summary";
+import { lintMigrationFile } from "../../engine/goja-lint";
+import { verifyFieldConversions } from "../../engine/verify-conversions";
+import { generate } from "../../generator";
+import type { SchemaDefinition } from "../../types";
+import { DestructiveChangeType, detectDestructiveChanges } from "../../validation";
+import { executeMigrationFiles, requireCollection } from "../helpers/migration-executor";
+
+function schemaDefinition(collection: z.ZodObject<any>): SchemaDefinition {
+  return { collections: new Map([["products", convertZodSchemaToCollectionSchema("products", collection)]]) };
+}
+
+function products(fields: z.ZodRawShape) {
+  return defineCollection({
+    collectionName: "products",
+    schema: z.object({ name: TextField(), ...fields }).extend(baseSchema),
+  });
+}
+
+function sources(files: string[]) {
+  return files.map((file) => ({ file, source: fs.readFileSync(file, "utf-8") }));
+}
+
+const ProductsV1 = products({ price: TextField(), status: TextField() });
+
+describe("field type conversions", () => {
+  const tempDir = path.join(os.tmpdir(), "migration-test-conversion-" + Date.now());
+
+  beforeAll(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function applyV1(name: string) {
+    const dir = path.join(tempDir, name);
+    fs.mkdirSync(dir, { recursive: true });
+    const createPaths = generate(compare(schemaDefinition(ProductsV1), null), dir);
+    return { dir, createPaths, ...executeMigrationFiles(createPaths) };
+  }
+
+  it("reports a convertible type change as a conversion and keeps it when skipping destructive changes", () => {
+    const { snapshot } = applyV1("detect");
+    const diff = compare(schemaDefinition(products({ price: NumberField(), status: TextField() })), snapshot);
+
+    const changes = detectDestructiveChanges(diff);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      type: DestructiveChangeType.FIELD_TYPE_CONVERSION,
+      field: "price",
+      severity: "low",
+    });
+
+    expect(categorizeChangesBySeverity(diff).destructive).toEqual([]);
+    expect(listFieldTypeConversions(diff)).toEqual([
+      { collection: "products", field: "price", from: "text", to: "number" },
+    ]);
+
+    const filtered = filterDiff(diff, { skipDestructive: true });
+    expect(filtered.collectionsToModify[0].fieldsToModify.map((fieldMod) => fieldMod.fieldName)).toEqual(["price"]);
+  });
+
+  it("generates a goja-compatible migration that converts the values and verifies both ways", () => {
+    const { dir, createPaths, store, snapshot } = applyV1("builtin");
+    const ProductsV2 = products({ price: NumberField(), status: SelectField(["draft", "live"]) });
+    const diff = compare(schemaDefinition(ProductsV2), snapshot);
+
+    const conversionPaths = generate(diff, dir);
+    const content = conversionPaths.map((file) => fs.readFileSync(file, "utf-8")).join("\n");
+    expect(content).toContain("findRecordsByFilter");
+    expect(content).toContain("saveNoValidate");
+    expect(content).toContain("price__converted");
+    for (const file of conversionPaths) {
+      expect(lintMigrationFile(file).ok).toBe(true);
+    }
+
+    const report = verifyFieldConversions(sources(conversionPaths), listFieldTypeConversions(diff), {
+      initialStore: store,
+    });
+    expect(report.error).toBeUndefined();
+    expect(report.problems).toEqual([]);
+    expect(report.checked).toBeGreaterThan(0);
+
+    const after = executeMigrationFiles([...createPaths, ...conversionPaths]).snapshot;
+    const collection = requireCollection(after, "products");
+    expect(collection.fields.find((field) => field.name === "price")?.type).toBe("number");
+    expect(collection.fields.find((field) => field.name === "status")?.type).toBe("select");
+    expect(collection.fields.some((field) => field.name.endsWith("__converted"))).toBe(false);
+    expect(compare(schemaDefinition(ProductsV2), after).collectionsToModify).toHaveLength(0);
+  });
+
+  it("emits the convert hook and flags values the new type cannot hold", () => {
+    const { dir, store, snapshot } = applyV1("hook");
+    const naive = products({ price: NumberField({ convert: (value) => Number(value) }), status: TextField() });
+    const diff = compare(schemaDefinition(naive), snapshot);
+
+    expect(detectDestructiveChanges(diff)[0].warning).toContain("convert hook");
+
+    const conversionPaths = generate(diff, dir);
+    expect(fs.readFileSync(conversionPaths[0], "utf-8")).toContain("Number(value)");
+
+    const report = verifyFieldConversions(sources(conversionPaths), listFieldTypeConversions(diff), {
+      initialStore: store,
+    });
+    expect(report.ok).toBe(false);
+    expect(report.problems).toContainEqual(
+      expect.objectContaining({
+        field: "price",
+        phase: "up",
+        input: "plain text",
+        message: "null is not a finite number",
+      })
+    );
+  });
+
+  it("converts back with the hook's down converter on rollback", () => {
+    const { dir, store, snapshot } = applyV1("hook-down");
+    const cents = products({
+      price: NumberField({
+        convert: {
+          up: (value) => Math.round((parseFloat(value) || 0) * 100),
+          down: (value) => (value / 100).toFixed(2),
+        },
+      }),
+      status: TextField(),
+    });
+    const diff = compare(schemaDefinition(cents), snapshot);
+    const conversionPaths = generate(diff, dir);
+
+    const report = verifyFieldConversions(sources(conversionPaths), listFieldTypeConversions(diff), {
+      initialStore: store,
+    });
+    expect(report.problems).toEqual([]);
+    expect(fs.readFileSync(conversionPaths[0], "utf-8")).toContain("toFixed(2)");
+  });
+
+  it("keeps a type change without a conversion destructive", () => {
+    const { dir, snapshot } = applyV1("unconvertible");
+    const diff = compare(schemaDefinition(products({ price: JSONField(), status: TextField() })), snapshot);
+
+    expect(detectDestructiveChanges(diff)[0]).toMatchObject({
+      type: DestructiveChangeType.FIELD_TYPE_CHANGE,
+      severity: "high",
+    });
+    expect(listFieldTypeConversions(diff)).toEqual([]);
+    expect(filterDiff(diff, { skipDestructive: true }).collectionsToModify).toHaveLength(0);
+
+    const content = fs.readFileSync(generate(diff, dir)[0], "utf-8");
+    expect(content).toContain("not carried over");
+    expect(content).not.toContain("findRecordsByFilter");
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Integration tests for `renamedFrom` hints
+ *
+ * Validates that a rename declared in the schema:
+ * - is diffed as an in-place rename, even where the one-removed/one-added
+ *   heuristic would not pair the fields up
+ * - keeps the collection and field ids, so PocketBase keeps the data
+ * - is reverted by down()
+ * - leaves nothing to generate once applied, and is ignored after that
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { baseSchema, defineCollection } from "../../../schema/base";
+import { BoolField, TextField } from "../../../schema/fields";
+import { convertZodSchemaToCollectionSchema } from "../../analyzer";
+import { compare } from "../../diff";
+import { categorizeChangesBySeverity } from "../../diff/summary";
+import { executeMigrationDownFile } from "../../engine/runner";
+import { generate } from "../../generator";
+import type { SchemaDefinition } from "../../types";
+import { executeMigrationFiles, requireCollection } from "../helpers/migration-executor";
+
+function schemaDefinition(collection: z.ZodObject<any>, name: string): SchemaDefinition {
+  return { collections: new Map([[name, convertZodSchemaToCollectionSchema(name, collection)]]) };
+}
+
+const PostsV1 = defineCollection({
+  collectionName: "posts",
+  schema: z
+    .object({
+      title: TextField(),
+      subtitle: TextField(),
+      published: BoolField(),
+    })
+    .extend(baseSchema),
+});
+
+// Two text fields renamed at once: the heuristic alone cannot pair them
+const ArticlesV2 = defineCollection({
+  collectionName: "articles",
+  renamedFrom: "posts",
+  schema: z
+    .object({
+      headline: TextField({ renamedFrom: "title" }),
+      standfirst: TextField({ renamedFrom: "subtitle" }),
+      live: BoolField({ renamedFrom: "published" }),
+    })
+    .extend(baseSchema),
+});
+
+describe("renamedFrom hints", () => {
+  const tempDir = path.join(os.tmpdir(), "migration-test-rename-" + Date.now());
+
+  beforeAll(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("carries the hints from the schema helpers into the analyzer", () => {
+    const articles = convertZodSchemaToCollectionSchema("articles", ArticlesV2);
+
+    expect(articles.renamedFrom).toBe("posts");
+    expect(articles.fields.find((field) => field.name === "headline")?.renamedFrom).toBe("title");
+    expect(articles.fields.find((field) => field.name === "live")?.renamedFrom).toBe("published");
+    expect(articles.fields.find((field) => field.name === "headline")?.options?.renamedFrom).toBeUndefined();
+  });
+
+  it("diffs a hinted collection and its fields as renames", () => {
+    const dir = path.join(tempDir, "diff");
+    fs.mkdirSync(dir, { recursive: true });
+    const { snapshot } = executeMigrationFiles(generate(compare(schemaDefinition(PostsV1, "posts"), null), dir));
+
+    const diff = compare(schemaDefinition(ArticlesV2, "articles"), snapshot);
+
+    expect(diff.collectionsToCreate).toHaveLength(0);
+    expect(diff.collectionsToDelete).toHaveLength(0);
+    expect(diff.collectionsToModify).toHaveLength(1);
+
+    const modification = diff.collectionsToModify[0];
+    expect(modification.collection).toBe("articles");
+    expect(modification.nameUpdate).toEqual({ oldValue: "posts", newValue: "articles" });
+    expect(modification.fieldsToAdd).toHaveLength(0);
+    expect(modification.fieldsToRemove).toHaveLength(0);
+    expect(
+      modification.fieldsToModify.map((fieldMod) => [
+        fieldMod.fieldName,
+        fieldMod.changes.find((change) => change.property === "name")?.newValue,
+      ])
+    ).toEqual([
+      ["title", "headline"],
+      ["subtitle", "standfirst"],
+      ["published", "live"],
+    ]);
+
+    expect(categorizeChangesBySeverity(diff)).toEqual({
+      destructive: [],
+      nonDestructive: [
+        "Rename collection: posts → articles",
+        "Modify field: articles.title",
+        "Modify field: articles.subtitle",
+        "Modify field: articles.published",
+      ],
+    });
+  });
+
+  it("renames in place, keeping ids, and leaves nothing to generate afterwards", () => {
+    const dir = path.join(tempDir, "apply");
+    fs.mkdirSync(dir, { recursive: true });
+    const createPaths = generate(compare(schemaDefinition(PostsV1, "posts"), null), dir);
+    const before = executeMigrationFiles(createPaths).snapshot;
+    const posts = requireCollection(before, "posts");
+
+    const renamePaths = generate(compare(schemaDefinition(ArticlesV2, "articles"), before), dir);
+    const after = executeMigrationFiles([...createPaths, ...renamePaths]).snapshot;
+    const articles = requireCollection(after, "articles");
+
+    expect(after.collections.has("posts")).toBe(false);
+    expect(articles.id).toBe(posts.id);
+    expect(articles.fields.find((field) => field.name === "headline")?.id).toBe(
+      posts.fields.find((field) => field.name === "title")?.id
+    );
+
+    // The hints are stale once applied and must not turn into anything
+    const followUp = compare(schemaDefinition(ArticlesV2, "articles"), after);
+    expect(followUp.collectionsToCreate).toHaveLength(0);
+    expect(followUp.collectionsToDelete).toHaveLength(0);
+    expect(followUp.collectionsToModify).toHaveLength(0);
+  });
+
+  it("restores the previous names on rollback", () => {
+    const dir = path.join(tempDir, "rollback");
+    fs.mkdirSync(dir, { recursive: true });
+    const createPaths = generate(compare(schemaDefinition(PostsV1, "posts"), null), dir);
+    const before = executeMigrationFiles(createPaths).snapshot;
+    const renamePaths = generate(compare(schemaDefinition(ArticlesV2, "articles"), before), dir);
+
+    const { store } = executeMigrationFiles([...createPaths, ...renamePaths]);
+    for (const file of [...renamePaths].reverse()) {
+      executeMigrationDownFile(file, store);
+    }
+
+    const reverted = store.toSnapshot();
+    expect(reverted.collections.has("articles")).toBe(false);
+    expect(compare(schemaDefinition(PostsV1, "posts"), reverted).collectionsToModify).toHaveLength(0);
+  });
+
+  it("ignores a field hint across types and falls back to add and remove", () => {
+    const dir = path.join(tempDir, "types");
+    fs.mkdirSync(dir, { recursive: true });
+    const { snapshot } = executeMigrationFiles(generate(compare(schemaDefinition(PostsV1, "posts"), null), dir));
+
+    const Retyped = defineCollection({
+      collectionName: "posts",
+      schema: z
+        .object({
+          title: TextField(),
+          subtitle: TextField(),
+          publishedOn: TextField({ renamedFrom: "published" }),
+        })
+        .extend(baseSchema),
+    });
+
+    const diff = compare(schemaDefinition(Retyped, "posts"), snapshot);
+    const modification = diff.collectionsToModify[0];
+
+    expect(modification.fieldsToModify).toHaveLength(0);
+    expect(modification.fieldsToAdd.map((field) => field.name)).toEqual(["publishedOn"]);
+    expect(modification.fieldsToRemove.map((field) => field.name)).toEqual(["published"]);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for the questions an interactive generate asks: guessed renames,
+ * values for required fields added to existing collections, and destructive
+ * changes, each answer applied to the diff before it is generated
+ */
+
+import { describe, expect, it } from "vitest";
+import { compare, filterDiff } from "../diff";
+import { Collection } from "../engine/collection";
+import { RecordModel } from "../engine/records";
+import { executeMigrationSource } from "../engine/runner";
+import { CollectionStore } from "../engine/store";
+import { planMigrations } from "../generator/index";
+import {
+  applyBackfills,
+  findBackfillQuestions,
+  findDestructiveQuestions,
+  findRenameQuestions,
+  formatDiffQuestion,
+  listDiffQuestions,
+  parseBackfillAnswer,
+  splitRenames,
+} from "../questions";
+import type { CollectionSchema, FieldDefinition, SchemaDefinition, SchemaSnapshot } from "../types";
+
+function posts(fields: FieldDefinition[]): CollectionSchema {
+  return { name: "posts", id: "pbc_posts", type: "base", fields };
+}
+
+function text(name: string, required = false): FieldDefinition {
+  return { name, id: `text_${name}`, type: "text", required };
+}
+
+function schema(...collections: CollectionSchema[]): SchemaDefinition {
+  return { collections: new Map(collections.map((collection) => [collection.name, collection])) };
+}
+
+function snapshot(...collections: CollectionSchema[]): SchemaSnapshot {
+  return { version: "1.0.0", timestamp: "2024-01-01", collections: schema(...collections).collections };
+}
+
+describe("rename questions", () => {
+  it("asks about a rename guessed from the field type, not one hinted with renamedFrom", () => {
+    const guessed = compare(schema(posts([text("excerpt")])), snapshot(posts([text("summary")])));
+    expect(findRenameQuestions(guessed)).toEqual([
+      { kind: "rename", collection: "posts", from: "summary", to: "excerpt" },
+    ]);
+
+    const hinted = compare(
+      schema(posts([{ ...text("excerpt"), renamedFrom: "summary" }])),
+      snapshot(posts([text("summary")]))
+    );
+    expect(findRenameQuestions(hinted)).toEqual([]);
+  });
+
+  it("splits a rejected rename into a removal and an addition", () => {
+    const diff = compare(schema(posts([text("excerpt")])), snapshot(posts([text("summary")])));
+    const split = splitRenames(diff, findRenameQuestions(diff));
+
+    const [modification] = split.collectionsToModify;
+    expect(modification.fieldsToModify).toEqual([]);
+    expect(modification.fieldsToAdd.map((field) => field.name)).toEqual(["excerpt"]);
+    expect(modification.fieldsToRemove.map((field) => field.name)).toEqual(["summary"]);
+    expect(diff.collectionsToModify[0].fieldsToModify).toHaveLength(1);
+  });
+});
+
+describe("backfill questions", () => {
+  it("asks for a value for required fields added to existing collections only", () => {
+    const diff = compare(
+      schema(posts([text("title"), text("slug", true), text("note")]), {
+        name: "tags",
+        id: "pbc_tags",
+        type: "base",
+        fields: [text("label", true)],
+      }),
+      snapshot(posts([text("title")]))
+    );
+
+    const questions = findBackfillQuestions(diff);
+    expect(questions.map((question) => `${question.collection}.${question.field.name}`)).toEqual(["posts.slug"]);
+    expect(formatDiffQuestion(questions[0])).toBe("Value for posts.slug (text, required) on existing records?");
+
+    const answered = applyBackfills(diff, [{ question: questions[0], backfill: { value: "untitled" } }]);
+    expect(answered.collectionsToModify[0].fieldsToAdd.find((field) => field.name === "slug")?.backfill).toEqual({
+      value: "untitled",
+    });
+    expect(findBackfillQuestions(answered)).toEqual([]);
+  });
+
+  it("reads answers as values of the field's type", () => {
+    const number: FieldDefinition = { name: "views", id: "number_views", type: "number", required: true };
+    const bool: FieldDefinition = { name: "live", id: "bool_live", type: "bool", required: true };
+    const tags: FieldDefinition = {
+      name: "tags",
+      id: "select_tags",
+      type: "select",
+      required: true,
+      options: { values: ["news", "blog"], maxSelect: 2 },
+    };
+
+    expect(parseBackfillAnswer(number, " 42 ")).toEqual({ value: 42 });
+    expect(parseBackfillAnswer(bool, "yes")).toEqual({ value: true });
+    expect(parseBackfillAnswer(tags, "news, blog")).toEqual({ value: ["news", "blog"] });
+    expect(parseBackfillAnswer(text("title"), "42")).toEqual({ value: "42" });
+    expect(parseBackfillAnswer(text("title"), "  ")).toBeNull();
+
+    expect(() => parseBackfillAnswer(number, "many")).toThrow('"many" is not a number');
+    expect(() => parseBackfillAnswer(tags, "news, misc")).toThrow("Not one of news, blog: misc");
+  });
+
+  it("fills existing records before the field becomes required", () => {
+    const diff = compare(schema(posts([text("title"), text("slug", true)])), snapshot(posts([text("title")])));
+    const [question] = findBackfillQuestions(diff);
+    const [planned] = planMigrations(applyBackfills(diff, [{ question, backfill: { value: "untitled" } }]), {
+      migrationDir: "/tmp/pb_migrations",
+    });
+
+    const store = new CollectionStore();
+    store.upsert(
+      new Collection({ id: "pbc_posts", name: "posts", type: "base", fields: [text("title")], indexes: [] })
+    );
+    store.records.save(new RecordModel(store.getByNameOrId("posts")!, { title: "Hello" }));
+
+    executeMigrationSource(planned.content, store, { records: "simulate" });
+
+    expect(store.records.list("pbc_posts").map((record) => record.get("slug"))).toEqual(["untitled"]);
+    expect(store.getByNameOrId("posts")!.fields.getByName("slug")?.required).toBe(true);
+  });
+});
+
+describe("destructive questions", () => {
+  it("leaves out exactly the destructive changes answered skip", () => {
+    const diff = compare(
+      schema(posts([text("title", true)])),
+      snapshot(posts([text("title"), { name: "views", id: "number_views", type: "number", required: false }]), {
+        name: "tags",
+        id: "pbc_tags",
+        type: "base",
+        fields: [text("label")],
+      })
+    );
+
+    const questions = findDestructiveQuestions(diff);
+    expect(questions.map((question) => question.change.description)).toEqual([
+      "Delete collection: tags",
+      "Delete field: posts.views",
+      "Make field required: posts.title",
+    ]);
+
+    const filtered = filterDiff(diff, { skipChanges: [questions[0].change, questions[2].change] });
+    expect(filtered.collectionsToDelete).toEqual([]);
+    expect(filtered.collectionsToModify[0].fieldsToRemove.map((field) => field.name)).toEqual(["views"]);
+    expect(filtered.collectionsToModify[0].fieldsToModify).toEqual([]);
+  });
+
+  it("lists every question in the order they are asked", () => {
+    const diff = compare(
+      schema(posts([text("excerpt"), { name: "views", id: "number_views", type: "number", required: true }])),
+      snapshot(posts([text("summary")]), { name: "tags", id: "pbc_tags", type: "base", fields: [] })
+    );
+
+    expect(listDiffQuestions(diff).map(formatDiffQuestion)).toEqual([
+      "Rename posts.summary to excerpt, or drop summary and add excerpt?",
+      "Value for posts.views (number, required) on existing records?",
+      "Skip this destructive change? Delete collection: tags",
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Tests for diagnosing and rebasing migrations from merged branches: a
+ * migration must be reported when the state its predecessors leave is not
+ * the one it was written for, and rebasing must regenerate the schema's
+ * changes on top of what is left
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { appliedMigrationsFromList } from "../engine/applied-migrations";
+import { discoverMigrations } from "../engine/migration-plan";
+import { replayMigrationsDirectory } from "../engine/replayer";
+import { RebaseError } from "../errors";
+import { applyRebase, diagnoseMigrations, planRebase } from "../rebase";
+import type { SchemaDefinition } from "../types";
+
+const CREATED_POSTS = `migrate((app) => {
+  const collection = new Collection({
+    id: "pbc_posts",
+    name: "posts",
+    type: "base",
+    fields: [{ id: "text_name", name: "name", type: "text" }],
+    indexes: [],
+  });
+  return app.save(collection);
+}, (app) => {
+  return app.delete(app.findCollectionByNameOrId("posts"));
+});
+`;
+
+function updatedPosts(up: string, down: string): string {
+  return `migrate((app) => {
+  const collection = app.findCollectionByNameOrId("posts");
+  ${up}
+  return app.save(collection);
+}, (app) => {
+  const collection = app.findCollectionByNameOrId("posts");
+  ${down}
+  return app.save(collection);
+});
+`;
+}
+
+const REMOVED_NAME = updatedPosts(
+  `collection.fields.removeByName("name");`,
+  `collection.fields.add(new TextField({ id: "text_name", name: "name" }));`
+);
+const ADDED_SLUG = updatedPosts(
+  `collection.fields.add(new TextField({ id: "text_slug", name: "slug" }));`,
+  `collection.fields.removeByName("slug");`
+);
+const REQUIRED_SLUG = updatedPosts(
+  `collection.fields.getByName("slug").required = true;`,
+  `collection.fields.getByName("slug").required = false;`
+);
+
+let workdir: string;
+let migrationsDir: string;
+
+function write(files: Record<string, string>): void {
+  for (const [name, source] of Object.entries(files)) {
+    fs.writeFileSync(path.join(migrationsDir, name), source);
+  }
+}
+
+beforeEach(() => {
+  workdir = fs.mkdtempSync(path.join(os.tmpdir(), "pbzs-rebase-"));
+  migrationsDir = path.join(workdir, "pb_migrations");
+  fs.mkdirSync(migrationsDir);
+  write({ "1700000100_created_posts.js": CREATED_POSTS });
+});
+
+afterEach(() => {
+  fs.rmSync(workdir, { recursive: true, force: true });
+});
+
+describe("diagnoseMigrations", () => {
+  it("finds nothing when every migration meets the state it was written for", () => {
+    write({ "1700000200_updated_posts.js": ADDED_SLUG, "1700000300_updated_posts.js": REQUIRED_SLUG });
+
+    const diagnosis = diagnoseMigrations(migrationsDir);
+    expect(diagnosis.checked).toHaveLength(3);
+    expect(diagnosis.conflicts).toEqual([]);
+  });
+
+  it("reports an up() that fails on what another branch changed", () => {
+    write({
+      "1700000200_updated_posts.js": REMOVED_NAME,
+      "1700000250_updated_posts.js": updatedPosts(
+        `collection.fields.getByName("name").required = true;`,
+        `collection.fields.getByName("name").required = false;`
+      ),
+    });
+
+    expect(diagnoseMigrations(migrationsDir).conflicts).toEqual([
+      {
+        file: "1700000250_updated_posts.js",
+        kind: "up-failed",
+        details: [expect.any(String)],
+        conflictsWith: ["1700000200_updated_posts.js"],
+      },
+    ]);
+  });
+
+  it("reports a down() that restores state only its own branch had", () => {
+    write({
+      "1700000200_updated_posts.js": updatedPosts(`collection.listRule = "";`, `collection.listRule = null;`),
+      "1700000250_updated_posts.js": updatedPosts(
+        `collection.listRule = "@request.auth.id != ''";`,
+        `collection.listRule = null;`
+      ),
+    });
+
+    const [conflict] = diagnoseMigrations(migrationsDir).conflicts;
+    expect(conflict).toMatchObject({
+      file: "1700000250_updated_posts.js",
+      kind: "stale-down",
+      conflictsWith: ["1700000200_updated_posts.js"],
+    });
+    expect(conflict.details.join("\n")).toContain("listRule");
+  });
+});
+
+describe("planRebase", () => {
+  /** The merged schema: one branch removed `name`, the other added a required `slug` */
+  const schema: SchemaDefinition = {
+    collections: new Map([
+      [
+        "posts",
+        {
+          name: "posts",
+          id: "pbc_posts",
+          type: "base",
+          fields: [{ name: "slug", id: "text_slug", type: "text", required: true }],
+        },
+      ],
+    ]),
+  };
+
+  beforeEach(() => {
+    write({
+      "1700000200_updated_posts.js": REMOVED_NAME,
+      "1700000250_updated_posts.js": ADDED_SLUG,
+      "1700000300_updated_posts.js": REQUIRED_SLUG,
+    });
+  });
+
+  it("regenerates the named migrations, and those built on them, on the merged state", () => {
+    const plan = planRebase(migrationsDir, schema, { files: ["1700000250"] });
+
+    expect(plan.replaced.map((migration) => migration.name)).toEqual([
+      "1700000250_updated_posts.js",
+      "1700000300_updated_posts.js",
+    ]);
+    expect(plan.dependents).toEqual(["1700000300_updated_posts.js"]);
+    expect(plan.migrations).toHaveLength(1);
+    expect(plan.migrations[0].content).toContain('"slug"');
+
+    const result = applyRebase(plan, migrationsDir, path.join(workdir, "rebased"));
+    expect(result.moved.map((move) => move.to && path.basename(move.to))).toEqual([
+      "1700000250_updated_posts.js",
+      "1700000300_updated_posts.js",
+    ]);
+    expect(discoverMigrations(migrationsDir).map((migration) => migration.name)).toEqual([
+      "1700000100_created_posts.js",
+      "1700000200_updated_posts.js",
+      path.basename(result.written[0]),
+    ]);
+
+    const posts = replayMigrationsDirectory(migrationsDir)!.store.getByNameOrId("posts")!;
+    expect(posts.fields.getByName("name")).toBeFalsy();
+    expect(posts.fields.getByName("slug")?.required).toBe(true);
+  });
+
+  it("refuses migrations a database has already applied", () => {
+    const applied = appliedMigrationsFromList(
+      ["1700000100_created_posts.js", "1700000200_updated_posts.js", "1700000250_updated_posts.js"],
+      "data.db"
+    );
+
+    let error: unknown;
+    try {
+      planRebase(migrationsDir, schema, { files: ["1700000250"], applied });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(RebaseError);
+    expect((error as RebaseError).reasons).toEqual([
+      expect.stringContaining("already applied to data.db: 1700000250_updated_posts.js."),
+    ]);
+  });
+
+  it("has nothing to rebase when no migration conflicts", () => {
+    expect(() => planRebase(migrationsDir, schema)).toThrow("Nothing to rebase");
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for planning a rollback: the migrations reverted must be the newest
+ * applied ones, their down() must produce the previewed diff, and a revert
+ * migration must arrive at the same schema
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { appliedMigrationsFromList } from "../engine/applied-migrations";
+import { replayMigrations } from "../engine/replayer";
+import { executeMigrationDownFile, executeMigrationSource } from "../engine/runner";
+import { compareStores } from "../engine/state-compare";
+import { RollbackError } from "../errors";
+import { planRevertMigrations, planRollback, type RollbackOptions } from "../rollback";
+import { HISTORY, HISTORY_FILES, useMigrationsDirectory } from "./helpers/migration-history";
+
+const directory = useMigrationsDirectory("pbzs-rollback-", HISTORY);
+
+function rollbackError(options: RollbackOptions): RollbackError {
+  try {
+    planRollback(directory.migrationsDir, options);
+  } catch (error) {
+    if (error instanceof RollbackError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error("planRollback did not refuse");
+}
+
+describe("planRollback", () => {
+  it("reverts the newest migration by default and previews its down()", () => {
+    const plan = planRollback(directory.migrationsDir);
+
+    expect(plan.reverted.map((migration) => migration.name)).toEqual([HISTORY_FILES[2]]);
+    expect(plan.downCommand).toBe("./pocketbase migrate down 1");
+    expect(plan.diff.collectionsToDelete.map((collection) => collection.name)).toEqual(["tags"]);
+    expect(plan.diff.collectionsToCreate).toEqual([]);
+    expect(plan.diff.collectionsToModify).toEqual([]);
+  });
+
+  it("reverts everything applied after --to, newest first", () => {
+    const plan = planRollback(directory.migrationsDir, { to: "1700000100" });
+
+    expect(plan.reverted.map((migration) => migration.name)).toEqual([HISTORY_FILES[2], HISTORY_FILES[1]]);
+    expect(plan.downCommand).toBe("./pocketbase migrate down 2");
+    expect(plan.diff.collectionsToDelete.map((collection) => collection.name)).toEqual(["tags"]);
+    expect(plan.diff.collectionsToModify).toHaveLength(1);
+    expect(plan.diff.collectionsToModify[0].collection).toBe("posts");
+    expect(plan.diff.collectionsToModify[0].fieldsToRemove.map((field) => field.name)).toEqual(["summary"]);
+  });
+
+  it("counts steps from the newest migration the database has applied", () => {
+    const applied = appliedMigrationsFromList(HISTORY_FILES.slice(0, 2), "data.db");
+    const plan = planRollback(directory.migrationsDir, { steps: 1, applied });
+
+    expect(plan.reverted.map((migration) => migration.name)).toEqual([HISTORY_FILES[1]]);
+    expect(plan.current.collections.has("tags")).toBe(false);
+    expect(plan.target.collections.get("posts")?.fields.map((field) => field.name)).not.toContain("summary");
+  });
+
+  it("refuses what cannot be reverted", () => {
+    expect(rollbackError({ steps: 4 }).message).toContain("only 3 migration(s) are applied");
+    expect(rollbackError({ to: "1700000300" }).message).toContain("is the newest applied migration");
+    expect(
+      rollbackError({ to: "1700000300", applied: appliedMigrationsFromList(HISTORY_FILES.slice(0, 2)) }).message
+    ).toContain("is not an applied migration");
+
+    fs.rmSync(path.join(directory.migrationsDir, HISTORY_FILES[2]));
+    const missing = rollbackError({ applied: appliedMigrationsFromList(HISTORY_FILES) });
+    expect(missing.reasons).toEqual([
+      expect.stringContaining(`no longer on disk, so their down() cannot run: ${HISTORY_FILES[2]}`),
+    ]);
+  });
+
+  it("refuses a migration without a down()", () => {
+    fs.writeFileSync(
+      path.join(directory.migrationsDir, "1700000400_created_notes.js"),
+      `migrate((app) => {
+  return app.save(new Collection({ id: "pbc_notes", name: "notes", type: "base", fields: [] }));
+});
+`
+    );
+
+    expect(rollbackError({}).reasons).toEqual([
+      expect.stringContaining("no down() is registered in 1700000400_created_notes.js"),
+    ]);
+  });
+
+  it("refuses migrations the database applied out of filename order", () => {
+    const applied = appliedMigrationsFromList([HISTORY_FILES[0], HISTORY_FILES[2], HISTORY_FILES[1]], "data.db");
+
+    expect(rollbackError({ steps: 1, applied }).reasons).toEqual([
+      expect.stringContaining("not applied in filename order"),
+    ]);
+  });
+});
+
+describe("planRevertMigrations", () => {
+  it("writes migrations that take the schema where the down() closures do", () => {
+    const plan = planRollback(directory.migrationsDir, { to: "1700000100" });
+    const planned = planRevertMigrations(plan, { migrationDir: directory.migrationsDir });
+
+    expect(planned.length).toBeGreaterThan(0);
+
+    const reverted = replayMigrations(HISTORY_FILES.map((file) => path.join(directory.migrationsDir, file))).store;
+    for (const migration of planned) {
+      executeMigrationSource(migration.content, reverted, { filename: migration.filename });
+    }
+
+    const expected = replayMigrations(HISTORY_FILES.map((file) => path.join(directory.migrationsDir, file))).store;
+    executeMigrationDownFile(path.join(directory.migrationsDir, HISTORY_FILES[2]), expected);
+    executeMigrationDownFile(path.join(directory.migrationsDir, HISTORY_FILES[1]), expected);
+
+    expect(compareStores(expected, reverted)).toEqual([]);
+  });
+});
@@ -64,6 +64,17 @@ describe("RuleValidator", () => {
       expect(result.fieldReferences).toContain("User.email");
     });
 
+    it("should not mistake modifiers, aliases or literals for fields", () => {
+      const validator = new RuleValidator("posts", mockFields);
+      const result = validator.validate(
+        "updateRule",
+        "(@request.body.status:isset = false || tags:length > 0) && @collection.users:owner.id ?= User"
+      );
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.fieldReferences).toEqual(["tags", "User"]);
+    });
+
     it("should error on nested reference for non-relation field", () => {
       const validator = new RuleValidator("posts", mockFields);
       const result = validator.validate("listRule", 'title.something = "value"');
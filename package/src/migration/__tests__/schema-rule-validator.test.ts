@@ -0,0 +1,115 @@
+/**
+ * Tests for schema-wide rule validation
+ *
+ * Covers the references RuleValidator leaves unresolved — relation chains,
+ * back-relations, @collection and @request.auth paths — and the operator
+ * checks that need each operand's field type.
+ */
+
+import { describe, expect, it } from "vitest";
+import { formatSchemaRuleIssue, validateSchemaRules } from "../schema-rule-validator";
+import { schemaWithPostRules } from "./helpers/rule-schema";
+
+function messages(rule: string): string[] {
+  return validateSchemaRules(schemaWithPostRules({ listRule: rule })).map((issue) => issue.message);
+}
+
+describe("validateSchemaRules", () => {
+  it("accepts rules whose every hop resolves", () => {
+    const rules = [
+      '@request.auth.id != "" && author = @request.auth.id',
+      'author.team.owner.role = "admin"',
+      "editors.name ?= @request.auth.name",
+      "comments_via_post.author ?= @request.auth.id",
+      "comments_via_post.author.team.title ?~ 'core'",
+      '@collection.teams.members ?= @request.auth.id && @collection.teams:t.title = "x"',
+      "@request.auth.team.members.id ?= @request.auth.id",
+      "@request.body.title:isset = false && @request.body.tags:length <= 2",
+      "created >= @todayStart && tags:length > 0 && tags:each ~ 'a' && title:lower ~ 'x'",
+      'meta.anything.nested = "ok" && legacy.whatever = 1',
+    ];
+
+    for (const rule of rules) {
+      expect(messages(rule), rule).toEqual([]);
+    }
+  });
+
+  it("reports hops that do not resolve", () => {
+    expect(messages('author.nmae = ""')).toEqual(["Field 'nmae' does not exist in collection 'users'"]);
+    expect(messages('author.team.title.x = ""')).toEqual([
+      "Field 'title' is not a relation field, cannot access nested property 'x'",
+    ]);
+    expect(messages('@request.auth.rol = "admin"')).toEqual(["Field 'rol' does not exist in collection 'users'"]);
+    expect(messages('@collection.tems.title = ""')).toEqual([
+      "Collection 'tems' in '@collection.tems.title' does not exist",
+    ]);
+    expect(messages('@collection.teams.titel = ""')).toEqual(["Field 'titel' does not exist in collection 'teams'"]);
+  });
+
+  it("checks that a back-relation names a relation pointing back", () => {
+    expect(messages('comment_via_post.body = ""')).toEqual([
+      "Collection 'comment' in back-relation 'comment_via_post' does not exist",
+    ]);
+    expect(messages('comments_via_author.body = ""')).toEqual([
+      "Field 'author' of collection 'comments' is not a relation to 'posts', so 'comments_via_author' is not a back-relation",
+    ]);
+    expect(messages('comments_via_post.bdy = ""')).toEqual(["Field 'bdy' does not exist in collection 'comments'"]);
+  });
+
+  it("checks modifiers against the fields they apply to", () => {
+    expect(messages("title:length > 3")).toEqual([
+      "Modifier ':length' needs a multi-value field, but 'title' holds a single value",
+    ]);
+    expect(messages("title:isset = true")).toEqual([
+      "Modifier ':isset' only applies to @request.body fields, in 'title:isset'",
+    ]);
+    expect(messages("tags:first = 'a'")).toEqual(["Unknown modifier ':first' in 'tags:first'"]);
+    expect(messages("@request.body.titel:isset = true")).toEqual([
+      "Field 'titel' does not exist in collection 'posts'",
+    ]);
+  });
+
+  it("warns when an operator does not suit its operands", () => {
+    const issues = validateSchemaRules(
+      schemaWithPostRules({
+        listRule: "views ~ '1'",
+        viewRule: "published > false",
+        updateRule: "author ?= @request.auth.id",
+        deleteRule: "editors ?= @request.auth.id && author.team ?= @request.auth.team && tags:length ?= 1",
+      })
+    );
+
+    expect(issues.map(formatSchemaRuleIssue)).toEqual([
+      "posts.listRule: Operator '~' matches text, but number field 'views' holds a number",
+      "posts.viewRule: Operator '>' orders values, but bool field 'published' is a bool",
+      "posts.updateRule: Operator '?=' matches any of several values, but relation field 'author' holds a single value; use '='",
+      "posts.deleteRule: Operator '?=' matches any of several values, but relation field 'author.team' holds a single value; use '='",
+      "posts.deleteRule: Operator '?=' matches any of several values, but 'tags:length' holds a single value; use '='",
+    ]);
+    expect(issues.every((issue) => issue.severity === "warning")).toBe(true);
+  });
+
+  it("reports unresolved references as errors", () => {
+    const [issue] = validateSchemaRules(schemaWithPostRules({ createRule: "nope = 1" }));
+    expect(issue).toEqual({
+      collection: "posts",
+      rule: "createRule",
+      severity: "error",
+      message: "Field 'nope' does not exist in collection 'posts'",
+    });
+  });
+
+  it("ignores string contents, comments and view collections", () => {
+    expect(messages("title = 'author.nmae ?= 1' // nmae.x = 1")).toEqual([]);
+
+    const schema = schemaWithPostRules({});
+    schema.collections.set("stats", {
+      name: "stats",
+      type: "view",
+      fields: [],
+      viewQuery: "SELECT id FROM posts",
+      rules: { listRule: "anything.goes = 1" },
+    });
+    expect(validateSchemaRules(schema)).toEqual([]);
+  });
+});
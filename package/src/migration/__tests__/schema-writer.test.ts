@@ -0,0 +1,215 @@
+/**
+ * `pull` renders collections back into schema files; the files must parse to
+ * exactly the collections they came from, or the first `generate` after a
+ * pull writes a migration for a schema nobody changed.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { parseSchemaFiles } from "../analyzer";
+import { compare } from "../diff";
+import { rawCollectionsToSnapshot } from "../pocketbase-converter";
+import { renderSchemaFiles, writeSchemaFiles } from "../schema-writer";
+
+const USERS = {
+  id: "_pb_users_auth_",
+  name: "users",
+  type: "auth",
+  system: false,
+  fields: [
+    { id: "text3208210256", name: "id", type: "text", system: true, primaryKey: true, required: true },
+    { id: "password901924565", name: "password", type: "password", system: true, required: true, hidden: true, min: 8 },
+    {
+      id: "text2504183744",
+      name: "tokenKey",
+      type: "text",
+      system: true,
+      required: true,
+      hidden: true,
+      autogeneratePattern: "[a-zA-Z0-9]{50}",
+      min: 30,
+      max: 60,
+    },
+    { id: "email3885137012", name: "email", type: "email", system: true, required: true },
+    { id: "bool1547992806", name: "emailVisibility", type: "bool", system: true },
+    { id: "bool256245529", name: "verified", type: "bool", system: true },
+    { id: "text1579384326", name: "name", type: "text", required: false, max: 255, min: 0, pattern: "" },
+    { id: "autodate2990389176", name: "created", type: "autodate", system: false, onCreate: true, onUpdate: false },
+    { id: "autodate3332085495", name: "updated", type: "autodate", system: false, onCreate: true, onUpdate: true },
+  ],
+  indexes: [
+    "CREATE UNIQUE INDEX `idx_tokenKey__pb_users_auth_` ON `users` (`tokenKey`)",
+    "CREATE UNIQUE INDEX `idx_email__pb_users_auth_` ON `users` (`email`) WHERE `email` != ''",
+  ],
+  listRule: "id = @request.auth.id",
+  viewRule: "id = @request.auth.id",
+  createRule: "",
+  updateRule: "id = @request.auth.id",
+  deleteRule: "id = @request.auth.id",
+  manageRule: null,
+};
+
+const POSTS = {
+  id: "pbc_1125843985",
+  name: "posts",
+  type: "base",
+  system: false,
+  fields: [
+    { id: "text3208210256", name: "id", type: "text", system: true, primaryKey: true, required: true },
+    { id: "text724990059", name: "title", type: "text", required: true, min: 1, max: 200, pattern: "" },
+    { id: "number1", name: "views", type: "number", required: false, min: 0, max: null, onlyInt: true },
+    { id: "number2", name: "rating", type: "number", required: true, min: null, max: 5, onlyInt: false },
+    { id: "bool1", name: "published", type: "bool", required: false },
+    { id: "select1", name: "status", type: "select", required: true, values: ["draft", "live"], maxSelect: 1 },
+    { id: "select2", name: "tags", type: "select", required: false, values: ["a", "b", "c"], maxSelect: 3 },
+    {
+      id: "file1",
+      name: "cover",
+      type: "file",
+      required: false,
+      maxSelect: 1,
+      maxSize: 5242880,
+      mimeTypes: ["image/png"],
+      thumbs: [],
+      protected: false,
+    },
+    { id: "file2", name: "attachments", type: "file", required: false, maxSelect: 5, maxSize: 0, mimeTypes: [] },
+    {
+      id: "relation1",
+      name: "author",
+      type: "relation",
+      required: true,
+      collectionId: "_pb_users_auth_",
+      cascadeDelete: true,
+      maxSelect: 1,
+      minSelect: 0,
+    },
+    {
+      id: "relation2",
+      name: "related",
+      type: "relation",
+      required: false,
+      collectionId: "pbc_1125843985",
+      cascadeDelete: false,
+      maxSelect: 10,
+      minSelect: 0,
+    },
+    { id: "json1", name: "meta", type: "json", required: false, maxSize: 2000 },
+    { id: "date1", name: "publishedAt", type: "date", required: false, min: "", max: "" },
+    { id: "autodate1", name: "created", type: "autodate", onCreate: true, onUpdate: false },
+    { id: "autodate2", name: "updated", type: "autodate", onCreate: true, onUpdate: true },
+  ],
+  indexes: ["CREATE INDEX `idx_posts_title` ON `posts` (`title`)"],
+  listRule: "",
+  viewRule: "",
+  createRule: "@request.auth.id != ''",
+  updateRule: "author = @request.auth.id",
+  deleteRule: null,
+};
+
+const POST_COUNTS = {
+  id: "pbc_2000",
+  name: "post_counts",
+  type: "view",
+  system: false,
+  fields: [],
+  indexes: [],
+  viewQuery: "SELECT p.author AS id, COUNT(*) AS total\n  FROM posts p\n GROUP BY p.author",
+  listRule: "",
+  viewRule: null,
+  createRule: null,
+  updateRule: null,
+  deleteRule: null,
+};
+
+const SUPERUSERS = { id: "pbc_3142635823", name: "_superusers", type: "auth", system: true, fields: [], indexes: [] };
+
+let tempDir: string;
+
+beforeEach(() => {
+  // Inside the package so the rendered files resolve "zod"
+  tempDir = fs.mkdtempSync(path.join(__dirname, ".schema-writer-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+/** Import path from the temp directory to the schema helpers in src */
+function helpersImport(): string {
+  return path.relative(tempDir, path.resolve(__dirname, "../../schema/index")).split(path.sep).join("/");
+}
+
+describe("renderSchemaFiles", () => {
+  it("renders one file per user collection and skips system collections", () => {
+    const files = renderSchemaFiles([SUPERUSERS, USERS, POSTS, POST_COUNTS]);
+
+    expect(files.map((file) => file.filename)).toEqual(["users.ts", "posts.ts", "post_counts.ts"]);
+    expect(renderSchemaFiles([SUPERUSERS], { includeSystem: true })).toHaveLength(1);
+  });
+
+  it("names relation targets instead of their collection ids", () => {
+    const [, posts] = renderSchemaFiles([USERS, POSTS]);
+
+    expect(posts.content).toContain(`author: RelationField({ collection: "users", cascadeDelete: true })`);
+    expect(posts.content).toContain(`related: RelationsField({ collection: "posts", maxSelect: 10 }).optional()`);
+  });
+
+  it("leaves auth system fields to the analyzer", () => {
+    const [users] = renderSchemaFiles([USERS]);
+
+    expect(users.content).toContain(`type: "auth"`);
+    expect(users.content).not.toMatch(/\btokenKey:/);
+    expect(users.content).not.toMatch(/\bemail:/);
+    expect(users.content).toContain("manageRule: null");
+  });
+
+  it("warns about options no field helper can express", () => {
+    const [file] = renderSchemaFiles([
+      {
+        id: "pbc_contacts",
+        name: "contacts",
+        type: "base",
+        fields: [
+          { id: "email1", name: "email", type: "email", onlyDomains: ["example.com"], presentable: true },
+          { id: "editor1", name: "notes", type: "editor", convertURLs: false, maxSize: 0 },
+        ],
+        indexes: [],
+      },
+    ]);
+
+    expect(file.warnings).toEqual([
+      `contacts.email: "presentable" is not expressible with a field helper and is left out`,
+      `contacts.email: "onlyDomains" is not expressible with a field helper and is left out`,
+    ]);
+  });
+});
+
+describe("pulled schema files", () => {
+  it("parse back to the collections they were rendered from", async () => {
+    const raw = [SUPERUSERS, USERS, POSTS, POST_COUNTS];
+    const files = renderSchemaFiles(raw, { importSource: helpersImport() });
+    const result = writeSchemaFiles(files, tempDir);
+    expect(result.written).toHaveLength(3);
+
+    const schema = await parseSchemaFiles({ schemaDir: tempDir, useCompiledFiles: false });
+    expect([...schema.collections.keys()].sort()).toEqual(["post_counts", "posts", "users"]);
+
+    const diff = compare(schema, rawCollectionsToSnapshot(raw));
+    expect(diff.collectionsToCreate).toHaveLength(0);
+    expect(diff.collectionsToDelete).toHaveLength(0);
+    expect(diff.collectionsToModify).toEqual([]);
+  });
+
+  it("keeps existing files unless asked to overwrite them", () => {
+    const files = renderSchemaFiles([POSTS]);
+    fs.writeFileSync(path.join(tempDir, "posts.ts"), "// edited by hand\n");
+
+    expect(writeSchemaFiles(files, tempDir).skipped).toEqual([path.join(tempDir, "posts.ts")]);
+    expect(fs.readFileSync(path.join(tempDir, "posts.ts"), "utf-8")).toBe("// edited by hand\n");
+
+    expect(writeSchemaFiles(files, tempDir, { overwrite: true }).written).toHaveLength(1);
+    expect(fs.readFileSync(path.join(tempDir, "posts.ts"), "utf-8")).toContain("defineCollection");
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for seed data: declared records diffed against the records the
+ * migrations produce, and the data migrations generated from the diff
+ *
+ * The generated migrations are executed with `records: "simulate"`, so the
+ * tests see the rows they actually write, both ways.
+ */
+
+import { describe, expect, it } from "vitest";
+import { defineSeed, isSeedDefinition } from "../../schema/seed";
+import { Collection } from "../engine/collection";
+import { lintMigrationSource } from "../engine/goja-lint";
+import { RecordModel } from "../engine/records";
+import { executeMigrationDownSource, executeMigrationSource } from "../engine/runner";
+import { CollectionStore } from "../engine/store";
+import { planSeedMigrations } from "../generator/index";
+import { diffSeeds } from "../seeds";
+
+const SIMULATE = { records: "simulate" as const, strictness: "strict" as const };
+
+function storeWithRoles(rows: Record<string, unknown>[] = []): CollectionStore {
+  const store = new CollectionStore();
+  const collection = new Collection({
+    id: "pbc_roles",
+    name: "roles",
+    type: "base",
+    fields: [
+      { id: "text_slug", name: "slug", type: "text" },
+      { id: "text_label", name: "label", type: "text" },
+      { id: "number_level", name: "level", type: "number" },
+    ],
+    indexes: [],
+  });
+  store.upsert(collection);
+  for (const row of rows) {
+    store.records.save(new RecordModel(collection, row));
+  }
+  return store;
+}
+
+function roles(store: CollectionStore): Record<string, unknown>[] {
+  return store.records
+    .list("pbc_roles")
+    .map((record) => record.export())
+    .sort((a, b) => String(a.slug).localeCompare(String(b.slug)));
+}
+
+const seed = defineSeed({
+  collection: "roles",
+  key: "slug",
+  records: [
+    { slug: "admin", label: "Administrator", level: 100 },
+    { slug: "member", label: "Member", level: 10 },
+  ],
+});
+
+describe("defineSeed", () => {
+  it("normalizes the key and marks the definition", () => {
+    expect(seed.key).toEqual(["slug"]);
+    expect(isSeedDefinition(seed)).toBe(true);
+    expect(isSeedDefinition({ collection: "roles", key: ["slug"], records: [] })).toBe(false);
+  });
+
+  it("rejects records without their key or sharing one", () => {
+    expect(() => defineSeed({ collection: "roles", key: "slug", records: [{ slug: null, label: "x" }] })).toThrow(
+      /missing key field\(s\) slug/
+    );
+    expect(() =>
+      defineSeed({
+        collection: "flags",
+        key: ["scope", "name"],
+        records: [
+          { scope: "app", name: "beta" },
+          { scope: "app", name: "beta" },
+        ],
+      })
+    ).toThrow('Seed for "flags" declares scope, name = ["app","beta"] more than once');
+  });
+});
+
+describe("diffSeeds", () => {
+  it("inserts every record into a collection the migrations left empty", () => {
+    expect(diffSeeds([seed], storeWithRoles())).toEqual([
+      { collection: "roles", key: ["slug"], inserts: seed.records, updates: [], deletes: [] },
+    ]);
+    expect(diffSeeds([seed], null)[0].inserts).toHaveLength(2);
+  });
+
+  it("updates only the declared fields that differ, and deletes undeclared records", () => {
+    const store = storeWithRoles([
+      { id: "r_admin", slug: "admin", label: "Admin", level: 100, created: "2026-01-01 00:00:00.000Z" },
+      { id: "r_member", slug: "member", label: "Member", level: 10 },
+      { id: "r_guest", slug: "guest", label: "Guest", level: 0, created: "2026-01-01 00:00:00.000Z" },
+    ]);
+
+    expect(diffSeeds([seed], store)).toEqual([
+      {
+        collection: "roles",
+        key: ["slug"],
+        inserts: [],
+        updates: [{ key: { slug: "admin" }, before: { label: "Admin" }, after: { label: "Administrator" } }],
+        deletes: [{ id: "r_guest", slug: "guest", label: "Guest", level: 0 }],
+      },
+    ]);
+  });
+
+  it("reports nothing once the records match", () => {
+    const store = storeWithRoles([
+      { id: "r_admin", slug: "admin", label: "Administrator", level: 100, note: "kept" },
+      { id: "r_member", slug: "member", label: "Member", level: 10 },
+    ]);
+
+    expect(diffSeeds([seed], store)).toEqual([]);
+  });
+});
+
+describe("planSeedMigrations", () => {
+  it("writes a migration whose up() applies the diff and down() reverses it", () => {
+    const store = storeWithRoles([
+      { id: "r_admin", slug: "admin", label: "Admin", level: 100 },
+      { id: "r_guest", slug: "guest", label: "Guest", level: 0 },
+    ]);
+    const before = roles(store);
+
+    const [planned] = planSeedMigrations(diffSeeds([seed], store), {
+      migrationDir: "/tmp/pb_migrations",
+      timestampGenerator: () => "1800000000",
+    });
+    expect(planned.filename).toBe("1800000000_seeded_roles.js");
+    expect(lintMigrationSource(planned.content).ok).toBe(true);
+
+    executeMigrationSource(planned.content, store, SIMULATE);
+    expect(roles(store)).toEqual([
+      { id: "r_admin", slug: "admin", label: "Administrator", level: 100 },
+      expect.objectContaining({ slug: "member", label: "Member", level: 10 }),
+    ]);
+    expect(diffSeeds([seed], store)).toEqual([]);
+
+    executeMigrationDownSource(planned.content, store, SIMULATE);
+    expect(roles(store)).toEqual(before);
+  });
+
+  it("updates a record that already exists instead of inserting a duplicate", () => {
+    const [planned] = planSeedMigrations(diffSeeds([seed], storeWithRoles()), "/tmp/pb_migrations");
+
+    // The record was created by hand in this database, not by a migration
+    const store = storeWithRoles([{ id: "r_manual", slug: "admin", label: "Boss", level: 1 }]);
+    executeMigrationSource(planned.content, store, SIMULATE);
+
+    expect(roles(store)).toEqual([
+      { id: "r_manual", slug: "admin", label: "Administrator", level: 100 },
+      expect.objectContaining({ slug: "member" }),
+    ]);
+  });
+});
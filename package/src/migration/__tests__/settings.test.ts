@@ -0,0 +1,157 @@
+/**
+ * Tests for app settings: declared settings diffed against the settings the
+ * migrations leave, and the migrations generated from the diff
+ *
+ * The generated migrations are executed against the simulated
+ * `app.settings()`, so the tests see what they actually store, both ways.
+ */
+
+import { describe, expect, it } from "vitest";
+import { fromEnv } from "../../schema/env";
+import { defineSettings, isSettingsDefinition } from "../../schema/settings";
+import { lintMigrationSource } from "../engine/goja-lint";
+import { executeMigrationDownSource, executeMigrationSource } from "../engine/runner";
+import { DEFAULT_SETTINGS } from "../engine/settings";
+import { CollectionStore } from "../engine/store";
+import { planSettingsMigration } from "../generator/index";
+import { diffSettings, formatSettingValue, summarizeSettingValue } from "../settings";
+
+const settings = defineSettings({
+  meta: { appName: "Acme CRM", appURL: fromEnv("APP_URL") },
+  smtp: { enabled: true, host: "smtp.acme.test", password: fromEnv("SMTP_PASSWORD") },
+  backups: { cron: "0 3 * * *", s3: { enabled: true, bucket: "acme-backups" } },
+  rateLimits: { enabled: true, rules: [{ label: "/api/", duration: 10, maxRequests: 100 }] },
+});
+
+const HAND_WRITTEN = `migrate((app) => {
+  const settings = app.settings();
+  settings.meta.appName = "Acme CRM";
+  settings.smtp.password = $os.getenv("SMTP_PASSWORD");
+  app.save(settings);
+});`;
+
+describe("defineSettings", () => {
+  it("marks the definition and completes rate limit rules", () => {
+    expect(isSettingsDefinition(settings)).toBe(true);
+    expect(isSettingsDefinition({ settings: {} })).toBe(false);
+    expect(settings.settings.rateLimits?.rules).toEqual([
+      { label: "/api/", audience: "", duration: 10, maxRequests: 100 },
+    ]);
+  });
+
+  it("rejects unknown settings and invalid rate limit rules", () => {
+    expect(() => defineSettings({ smtp: { hostname: "x" } } as any)).toThrow('Unknown setting "smtp.hostname"');
+    expect(() => defineSettings({ logs: {} } as any)).toThrow('Unknown settings section "logs"');
+    expect(() => defineSettings({ backups: { s3: { bucketName: "x" } } } as any)).toThrow(
+      'Unknown setting "backups.s3.bucketName"'
+    );
+    expect(() => defineSettings({ rateLimits: { rules: [{ label: "/api/", duration: 0, maxRequests: 10 }] } })).toThrow(
+      /positive duration/
+    );
+  });
+
+  it("checks each setting's type, taking environment references for strings only", () => {
+    expect(() => defineSettings({ smtp: { port: "587" } } as any)).toThrow(
+      'Setting "smtp.port" must be a number, got "587"'
+    );
+    expect(() => defineSettings({ smtp: { tls: { env: "SMTP_TLS" } } } as any)).toThrow(
+      'Setting "smtp.tls" must be a boolean'
+    );
+    expect(() => defineSettings({ smtp: { password: { name: "SMTP_PASSWORD" } } } as any)).toThrow(
+      'Setting "smtp.password" must be a string or an environment reference'
+    );
+    expect(() => defineSettings({ trustedProxy: { headers: "X-Forwarded-For" } } as any)).toThrow(/must be an array/);
+    expect(defineSettings({ smtp: { password: { env: "SMTP_PASSWORD" } } }).settings.smtp?.password).toEqual(
+      fromEnv("SMTP_PASSWORD")
+    );
+  });
+});
+
+describe("simulated app.settings()", () => {
+  it("stores what a migration saves, keeping $os.getenv() reads by variable", () => {
+    const store = new CollectionStore();
+    executeMigrationSource(HAND_WRITTEN, store);
+
+    expect(store.settings.meta.appName).toBe("Acme CRM");
+    expect(store.settings.meta.appURL).toBe(DEFAULT_SETTINGS.meta.appURL);
+    expect(diffSettings(defineSettings({ smtp: { password: fromEnv("SMTP_PASSWORD") } }), store)).toEqual([]);
+    expect(diffSettings(defineSettings({ smtp: { password: fromEnv("SMTP_PASS") } }), store)).toHaveLength(1);
+  });
+
+  it("discards edits that are never saved", () => {
+    const store = new CollectionStore();
+    executeMigrationSource(`migrate((app) => { app.settings().meta.appName = "Unsaved"; });`, store);
+
+    expect(store.settings.meta.appName).toBe("Acme");
+  });
+});
+
+describe("diffSettings", () => {
+  it("compares the declared settings against a fresh PocketBase's", () => {
+    const changes = diffSettings(settings, null);
+
+    expect(changes.map((change) => change.path)).toEqual([
+      "meta.appName",
+      "meta.appURL",
+      "smtp.enabled",
+      "smtp.host",
+      "smtp.password",
+      "backups.cron",
+      "backups.s3.enabled",
+      "backups.s3.bucket",
+      "rateLimits.enabled",
+      "rateLimits.rules",
+    ]);
+    expect(changes[0]).toEqual({ path: "meta.appName", before: "Acme", after: "Acme CRM" });
+  });
+
+  it("masks literal secrets and names environment references when formatting", () => {
+    expect(formatSettingValue("smtp.password", "hunter2")).toBe("(secret)");
+    expect(formatSettingValue("smtp.password", fromEnv("SMTP_PASSWORD"))).toBe('$os.getenv("SMTP_PASSWORD")');
+    expect(formatSettingValue("smtp.host", "smtp.acme.test")).toBe('"smtp.acme.test"');
+    expect(summarizeSettingValue("smtp.password", fromEnv("SMTP_PASSWORD"))).toEqual({ env: "SMTP_PASSWORD" });
+    expect(summarizeSettingValue("s3.secret", "hunter2")).toBe("(secret)");
+  });
+});
+
+describe("planSettingsMigration", () => {
+  it("writes a migration whose up() sets the declared values and down() restores the previous ones", () => {
+    const store = new CollectionStore();
+    executeMigrationSource(HAND_WRITTEN, store);
+    const changes = diffSettings(settings, store);
+
+    const planned = planSettingsMigration(changes, {
+      migrationDir: "/tmp/pb_migrations",
+      timestampGenerator: () => "1800000000",
+    });
+    expect(planned?.filename).toBe("1800000000_updated_settings.js");
+    expect(planned?.content).toContain('appURL: $os.getenv("APP_URL"),');
+    // The earlier migration already reads the password from the same variable
+    expect(planned?.content).not.toContain("password");
+    expect(lintMigrationSource(planned!.content).ok).toBe(true);
+
+    executeMigrationSource(planned!.content, store);
+    expect(diffSettings(settings, store)).toEqual([]);
+    // Settings left out of the declaration are not touched
+    expect(store.settings.smtp.port).toBe(587);
+
+    executeMigrationDownSource(planned!.content, store);
+    expect(diffSettings(settings, store)).toEqual(changes);
+  });
+
+  it("reads { env } settings with $os.getenv() both ways", () => {
+    const changes = diffSettings(defineSettings({ smtp: { password: { env: "SMTP_PASSWORD" } } }), null);
+    const planned = planSettingsMigration(changes, {
+      migrationDir: "/tmp/pb_migrations",
+      timestampGenerator: () => "1800000000",
+    });
+
+    expect(changes).toEqual([{ path: "smtp.password", before: "", after: { env: "SMTP_PASSWORD" } }]);
+    expect(planned?.content).toContain('password: $os.getenv("SMTP_PASSWORD"),');
+    expect(planned?.content).toContain('password: "",');
+  });
+
+  it("plans nothing when the settings match", () => {
+    expect(planSettingsMigration([], "/tmp/pb_migrations")).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for squashing migrations into a collections snapshot: the snapshot
+ * must replay to the same state, and squashing must refuse what the
+ * database's `_migrations` says would make the snapshot undo later changes
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { appliedMigrationsFromList } from "../engine/applied-migrations";
+import { discoverMigrations } from "../engine/migration-plan";
+import { replayMigrationsDirectory } from "../engine/replayer";
+import { compareStores } from "../engine/state-compare";
+import { FileSystemError, SquashError } from "../errors";
+import { applySquash, planSquash } from "../squash";
+import { HISTORY, HISTORY_FILES, useMigrationsDirectory } from "./helpers/migration-history";
+
+const directory = useMigrationsDirectory("pbzs-squash-", HISTORY);
+
+function squashError(to: number, applied: ReturnType<typeof appliedMigrationsFromList> | null = null): SquashError {
+  try {
+    planSquash(directory.migrationsDir, { to, applied, assumeApplied: applied === null });
+  } catch (error) {
+    if (error instanceof SquashError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error("planSquash did not refuse");
+}
+
+describe("planSquash", () => {
+  it("folds the migrations up to the cutoff into a snapshot that replays to the same state", () => {
+    const before = replayMigrationsDirectory(directory.migrationsDir)!.store;
+
+    const plan = planSquash(directory.migrationsDir, { to: 1700000200, assumeApplied: true });
+    expect(plan.filename).toBe("1700000200_collections_snapshot.js");
+    expect(plan.superseded.map((migration) => migration.name)).toEqual(HISTORY_FILES.slice(0, 2));
+    expect(plan.remaining).toEqual([HISTORY_FILES[2]]);
+    expect(plan.content).toContain("app.importCollections(snapshot, false)");
+
+    const result = applySquash(plan, directory.migrationsDir, path.join(directory.workdir, "archive"));
+    expect(result.moved.map((move) => move.to && path.basename(move.to))).toEqual(HISTORY_FILES.slice(0, 2));
+    expect(discoverMigrations(directory.migrationsDir).map((migration) => migration.name)).toEqual([
+      "1700000200_collections_snapshot.js",
+      HISTORY_FILES[2],
+    ]);
+
+    const after = replayMigrationsDirectory(directory.migrationsDir)!.store;
+    expect(compareStores(before, after, { strictFieldOrder: true })).toEqual([]);
+  });
+
+  it("defaults the cutoff to the newest migration the database has applied", () => {
+    const plan = planSquash(directory.migrationsDir, {
+      applied: appliedMigrationsFromList(HISTORY_FILES.slice(0, 2), "data.db"),
+    });
+
+    expect(plan.cutoff).toBe(1700000200);
+  });
+
+  it("refuses to squash past what the database has applied, or short of it", () => {
+    const applied = appliedMigrationsFromList(HISTORY_FILES.slice(0, 2), "data.db");
+
+    expect(squashError(1700000300, applied).reasons).toEqual([
+      expect.stringContaining(`not yet applied to data.db: ${HISTORY_FILES[2]}`),
+    ]);
+    expect(squashError(1700000100, applied).reasons).toEqual([
+      expect.stringContaining(`applied to data.db after the squash point: ${HISTORY_FILES[1]}`),
+    ]);
+  });
+
+  it("refuses to squash without _migrations unless told to assume it", () => {
+    expect(() => planSquash(directory.migrationsDir, { to: 1700000200 })).toThrow(SquashError);
+    expect(() => planSquash(directory.migrationsDir, { applied: null })).toThrow(
+      /without the database's _migrations table/
+    );
+  });
+
+  it("refuses migrations that write records", () => {
+    fs.writeFileSync(
+      path.join(directory.migrationsDir, "1700000150_seeded_posts.js"),
+      `migrate((app) => {
+  const record = new Record(app.findCollectionByNameOrId("posts"));
+  record.set("name", "hello");
+  app.save(record);
+});
+`
+    );
+
+    expect(squashError(1700000200).reasons).toEqual([expect.stringContaining("write records to posts")]);
+  });
+
+  it("keeps the superseded migrations when the snapshot cannot be written", () => {
+    const plan = planSquash(directory.migrationsDir, { to: 1700000200, assumeApplied: true });
+    // A directory where the snapshot is staged makes the write fail
+    fs.mkdirSync(path.join(directory.migrationsDir, `.${plan.filename}.tmp`));
+
+    expect(() => applySquash(plan, directory.migrationsDir, null)).toThrow(FileSystemError);
+    expect(discoverMigrations(directory.migrationsDir).map((migration) => migration.name)).toEqual(HISTORY_FILES);
+  });
+
+  it("refuses when only a snapshot precedes the cutoff", () => {
+    const plan = planSquash(directory.migrationsDir, { to: 1700000200, assumeApplied: true });
+    applySquash(plan, directory.migrationsDir, null);
+
+    expect(() => planSquash(directory.migrationsDir, { to: 1700000200, assumeApplied: true })).toThrow(
+      /Nothing to squash/
+    );
+  });
+});
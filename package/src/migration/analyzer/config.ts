@@ -41,6 +41,13 @@ export interface SchemaAnalyzerConfig {
    * If not provided, uses the schemaDir directly
    */
   pathTransformer?: (sourcePath: string) => string;
+
+  /**
+   * Whether to import the schema modules afresh instead of from Node's module cache
+   * Watch mode sets this so an edited file, and the project files it imports, are re-read
+   * Defaults to false
+   */
+  reload?: boolean;
 }
 
 /**
@@ -60,6 +67,7 @@ export const DEFAULT_CONFIG: Required<Omit<SchemaAnalyzerConfig, "schemaDir" | "
   ],
   includeExtensions: [".ts", ".js"],
   useCompiledFiles: true,
+  reload: false,
 };
 
 /**
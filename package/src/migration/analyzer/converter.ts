@@ -1,10 +1,10 @@
 import { z } from "zod";
-import { extractRelationMetadata } from "../../schema/base";
+import { extractRelationMetadata, SOFT_DELETE_FIELD } from "../../schema/base";
 import { extractFieldMetadata } from "../../schema/fields";
-import type { PermissionSchema } from "../../utils/permissions";
+import type { APIRuleType, PermissionSchema } from "../../utils/permissions";
 import { PermissionAnalyzer } from "../permission-analyzer";
 import type { PocketBaseFieldType } from "../../schema/fields";
-import type { CollectionSchema, FieldDefinition } from "../types";
+import type { CollectionSchema, FieldBackfill, FieldConverterSource, FieldDefinition } from "../types";
 import {
   extractFieldOptions,
   filterSupportedFieldOptions,
@@ -15,9 +15,14 @@ import {
 } from "../utils/type-mapper";
 import { validateViewQuery } from "../../schema/view";
 import {
+  extractAuthOptionsFromSchema,
   extractCollectionTypeFromSchema,
   extractFieldDefinitions,
   extractIndexes,
+  extractMixinsFromSchema,
+  extractRenamedFromSchema,
+  extractSoftDeleteFromSchema,
+  extractTenantFromSchema,
   extractViewQueryFromSchema,
 } from "./extractors";
 import { generateFieldId } from "../utils/collection-id-generator.js";
@@ -71,8 +76,9 @@ export function buildFieldDefinition(fieldName: string, zodType: z.ZodTypeAny):
       required = isFieldRequired(zodType);
     }
 
-    // Remove 'required' from options if present (it's a top-level property, not an option)
-    const { required: _required, ...metadataOptions } = fieldMetadata.options || {};
+    // Remove 'required', 'renamedFrom', 'convert' and 'backfill' from options if present
+    // (they are top-level properties, not PocketBase options)
+    const { required: _required, renamedFrom, convert, backfill, ...metadataOptions } = fieldMetadata.options || {};
 
     // A validator chained onto a field helper (`TextField().max(60)`, or a
     // shared rule reused with `.regex(...)`) states the same constraint as the
@@ -89,6 +95,20 @@ export function buildFieldDefinition(fieldName: string, zodType: z.ZodTypeAny):
       zodType: zodType,
     };
 
+    if (typeof renamedFrom === "string" && renamedFrom !== "") {
+      fieldDef.renamedFrom = renamedFrom;
+    }
+
+    const converter = extractConverterSource(convert);
+    if (converter) {
+      fieldDef.convert = converter;
+    }
+
+    const fieldBackfill = extractBackfill(backfill);
+    if (fieldBackfill) {
+      fieldDef.backfill = fieldBackfill;
+    }
+
     // If it's a relation type from metadata, we still need to extract relation config
     if (fieldMetadata.type === "relation") {
       const relationMetadata = extractRelationMetadata(unwrappedType.description ?? zodType.description);
@@ -110,9 +130,12 @@ export function buildFieldDefinition(fieldName: string, zodType: z.ZodTypeAny):
   const relationMetadata = extractRelationMetadata(unwrappedType.description ?? zodType.description);
 
   if (relationMetadata) {
+    const relationBackfill = extractBackfill(relationMetadata.backfill);
     return {
       name: fieldName,
       id: generateFieldId("relation", fieldName),
+      ...(relationMetadata.renamedFrom ? { renamedFrom: relationMetadata.renamedFrom } : {}),
+      ...(relationBackfill ? { backfill: relationBackfill } : {}),
       type: "relation",
       required: isFieldRequired(zodType),
       // Zod validators on the field (array min/max etc.) are already captured
@@ -197,6 +220,42 @@ function extractChainedFieldOptions(fieldType: string, unwrappedType: z.ZodTypeA
   return extractFieldOptions(unwrappedType);
 }
 
+/**
+ * Reads a field helper's `convert` hook, which the helper serialized to
+ * source: either one converter or an `{ up, down }` pair.
+ *
+ * @param convert - The `convert` entry of the field metadata options
+ * @returns The converter source, or null when the field declares none
+ */
+function extractConverterSource(convert: unknown): FieldConverterSource | null {
+  if (typeof convert === "string" && convert.trim() !== "") {
+    return { up: convert };
+  }
+  if (convert && typeof convert === "object" && typeof (convert as { up?: unknown }).up === "string") {
+    const { up, down } = convert as { up: string; down?: unknown };
+    return typeof down === "string" ? { up, down } : { up };
+  }
+  return null;
+}
+
+/**
+ * Reads a field helper's `backfill`, which the helper serialized as
+ * `{ source }` for a function or `{ value }` for anything else
+ *
+ * @param backfill - The `backfill` entry of the field metadata options
+ * @returns The backfill, or null when the field declares none
+ */
+function extractBackfill(backfill: unknown): FieldBackfill | null {
+  if (!backfill || typeof backfill !== "object") {
+    return null;
+  }
+  const { source } = backfill as { source?: unknown };
+  if (typeof source === "string" && source.trim() !== "") {
+    return { source };
+  }
+  return "value" in backfill ? { value: (backfill as { value: unknown }).value } : null;
+}
+
 /**
  * Converts a Zod schema to a CollectionSchema interface
  *
@@ -228,6 +287,15 @@ export function convertZodSchemaToCollectionSchema(
     );
   }
 
+  // Auth options only exist on auth collections
+  const authOptions = extractAuthOptionsFromSchema(zodSchema);
+  if (authOptions !== null && collectionType !== "auth") {
+    console.warn(
+      `[${collectionName}] auth options are only used by auth collections and will be ignored. ` +
+        `Set type: "auth" to define an auth collection.`
+    );
+  }
+
   // Build field definitions with constraints
   const fields: FieldDefinition[] = rawFields
     // Explicitly filter out system fields that might have slipped through
@@ -285,6 +353,15 @@ export function convertZodSchemaToCollectionSchema(
     );
   }
 
+  const softDelete = extractSoftDeleteFromSchema(zodSchema);
+
+  // Mixins whose rules the collection's rules include, for attributing rule problems
+  const mixins = extractMixinsFromSchema(zodSchema);
+  const ruleSources = (ruleType: APIRuleType): string => {
+    const names = (mixins ?? []).filter((mixin) => mixin.rules.includes(ruleType)).map((mixin) => mixin.name);
+    return names.length > 0 ? ` (combined with mixin ${names.map((name) => `"${name}"`).join(", ")})` : "";
+  };
+
   // Extract and validate permissions from schema
   const permissionAnalyzer = new PermissionAnalyzer();
   let permissions: PermissionSchema | undefined = undefined;
@@ -294,8 +371,12 @@ export function convertZodSchemaToCollectionSchema(
   const extractedPermissions = permissionAnalyzer.extractPermissions(schemaDescription);
 
   if (extractedPermissions) {
-    // Resolve template configurations to concrete rules
-    const resolvedPermissions = permissionAnalyzer.resolvePermissions(extractedPermissions);
+    // Resolve template configurations to concrete rules, hiding soft-deleted
+    // records from the list and view rules
+    let resolvedPermissions = permissionAnalyzer.resolvePermissions(extractedPermissions);
+    if (softDelete) {
+      resolvedPermissions = permissionAnalyzer.applySoftDelete(resolvedPermissions, SOFT_DELETE_FIELD);
+    }
 
     // View collections are read-only - warn and drop any write rules
     if (isView) {
@@ -323,12 +404,12 @@ export function convertZodSchemaToCollectionSchema(
       // Log validation errors and warnings
       for (const [ruleType, result] of validationResults) {
         if (!result.valid) {
-          console.error(`[${collectionName}] Permission validation failed for ${ruleType}:`);
+          console.error(`[${collectionName}] Permission validation failed for ${ruleType}${ruleSources(ruleType)}:`);
           result.errors.forEach((error) => console.error(`  - ${error}`));
         }
 
         if (result.warnings.length > 0) {
-          console.warn(`[${collectionName}] Permission warnings for ${ruleType}:`);
+          console.warn(`[${collectionName}] Permission warnings for ${ruleType}${ruleSources(ruleType)}:`);
           result.warnings.forEach((warning) => console.warn(`  - ${warning}`));
         }
       }
@@ -361,5 +442,27 @@ export function convertZodSchemaToCollectionSchema(
     collectionSchema.viewQuery = viewQuery as string;
   }
 
+  if (authOptions !== null && collectionType === "auth") {
+    collectionSchema.auth = authOptions;
+  }
+
+  if (mixins !== null) {
+    collectionSchema.mixins = mixins;
+  }
+
+  if (softDelete) {
+    collectionSchema.softDelete = true;
+  }
+
+  const tenant = extractTenantFromSchema(zodSchema);
+  if (tenant !== null) {
+    collectionSchema.tenant = tenant;
+  }
+
+  const renamedFrom = extractRenamedFromSchema(zodSchema);
+  if (renamedFrom !== null && renamedFrom !== collectionName) {
+    collectionSchema.renamedFrom = renamedFrom;
+  }
+
   return collectionSchema;
 }
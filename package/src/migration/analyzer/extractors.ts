@@ -1,4 +1,8 @@
 import { z } from "zod";
+import { isMixinDefinition, type MixinContribution } from "../../schema/mixin";
+import { isSeedDefinition, type SeedDefinition } from "../../schema/seed";
+import { isSettingsDefinition, type SettingsDefinition } from "../../schema/settings";
+import type { TenantConfig } from "../../schema/tenant";
 
 /**
  * Extracts the collection name from a Zod schema's metadata
@@ -74,6 +78,54 @@ export function extractViewQueryFromSchema(zodSchema: z.ZodTypeAny): string | nu
   return null;
 }
 
+/**
+ * Extracts the auth collection options from a Zod schema's metadata
+ * Set by the `auth` option of defineCollection()
+ *
+ * @param zodSchema - The Zod schema to extract the auth options from
+ * @returns The auth options if found in metadata, null otherwise
+ */
+export function extractAuthOptionsFromSchema(zodSchema: z.ZodTypeAny): Record<string, any> | null {
+  if (!zodSchema.description) {
+    return null;
+  }
+
+  try {
+    const metadata = JSON.parse(zodSchema.description);
+    if (metadata.auth && typeof metadata.auth === "object" && !Array.isArray(metadata.auth)) {
+      return metadata.auth;
+    }
+  } catch {
+    // Not JSON or no auth options - expected for most collections
+  }
+
+  return null;
+}
+
+/**
+ * Extracts a renamed collection's previous name from a Zod schema's metadata
+ * Set by the `renamedFrom` option of defineCollection()/defineView()
+ *
+ * @param zodSchema - The Zod schema to extract the previous name from
+ * @returns The previous collection name if found in metadata, null otherwise
+ */
+export function extractRenamedFromSchema(zodSchema: z.ZodTypeAny): string | null {
+  if (!zodSchema.description) {
+    return null;
+  }
+
+  try {
+    const metadata = JSON.parse(zodSchema.description);
+    if (typeof metadata.renamedFrom === "string" && metadata.renamedFrom !== "") {
+      return metadata.renamedFrom;
+    }
+  } catch {
+    // Not JSON or no renamedFrom - expected for collections that were never renamed
+  }
+
+  return null;
+}
+
 /**
  * A collection schema found in a module's exports
  */
@@ -138,6 +190,125 @@ export function selectCollectionSchema(module: any): CollectionSchemaExport | nu
   return candidates[0];
 }
 
+/**
+ * Selects the seeds from a module's exports
+ *
+ * Any export produced by defineSeed() counts, deduplicated by object
+ * reference like collection exports. A file may declare a collection and
+ * its seed, a seed alone, or several seeds.
+ *
+ * @param module - The imported schema module
+ * @returns The module's seeds, in export order
+ */
+export function selectSeedDefinitions(module: any): SeedDefinition[] {
+  const seeds = new Set<SeedDefinition>();
+  for (const value of [module.default, ...Object.values(module)]) {
+    if (isSeedDefinition(value)) {
+      seeds.add(value);
+    }
+  }
+  return [...seeds];
+}
+
+/**
+ * Extracts what each mixin contributed to a collection from a Zod schema's metadata
+ * Recorded by the `mixins` option of defineCollection()
+ *
+ * @param zodSchema - The Zod schema to extract the mixin attribution from
+ * @returns The contributions in mixin order, or null when no mixin was applied
+ */
+export function extractMixinsFromSchema(zodSchema: z.ZodTypeAny): MixinContribution[] | null {
+  if (!zodSchema.description) {
+    return null;
+  }
+
+  try {
+    const metadata = JSON.parse(zodSchema.description);
+    if (Array.isArray(metadata.mixins) && metadata.mixins.length > 0) {
+      return metadata.mixins;
+    }
+  } catch {
+    // Not JSON or no mixins - expected for collections declaring everything themselves
+  }
+
+  return null;
+}
+
+/**
+ * Whether a collection soft-deletes its records, from a Zod schema's metadata
+ * Set by the `softDelete` option of defineCollection()
+ *
+ * @param zodSchema - The Zod schema to check
+ * @returns True when records are marked deleted instead of removed
+ */
+export function extractSoftDeleteFromSchema(zodSchema: z.ZodTypeAny): boolean {
+  if (!zodSchema.description) {
+    return false;
+  }
+
+  try {
+    return JSON.parse(zodSchema.description).softDelete === true;
+  } catch {
+    // Not JSON - a plain description, never soft-deleted
+    return false;
+  }
+}
+
+/**
+ * Extracts the tenant a collection is scoped by from a Zod schema's metadata
+ * Set by the `tenant` option of defineCollection()
+ *
+ * @param zodSchema - The Zod schema to extract the tenant from
+ * @returns The tenant configuration if found in metadata, null otherwise
+ */
+export function extractTenantFromSchema(zodSchema: z.ZodTypeAny): TenantConfig | null {
+  if (!zodSchema.description) {
+    return null;
+  }
+
+  try {
+    const metadata = JSON.parse(zodSchema.description);
+    if (metadata.tenant && typeof metadata.tenant === "object") {
+      return metadata.tenant;
+    }
+  } catch {
+    // Not JSON or no tenant - expected for collections shared by all tenants
+  }
+
+  return null;
+}
+
+/**
+ * Whether a module exports a mixin (defineMixin())
+ * Such a file may hold no collection of its own
+ *
+ * @param module - The imported schema module
+ * @returns True when any export is a mixin
+ */
+export function hasMixinDefinitions(module: any): boolean {
+  return [module.default, ...Object.values(module)].some((value) => isMixinDefinition(value));
+}
+
+/**
+ * Selects the app settings from a module's exports
+ *
+ * Any export produced by defineSettings() counts, deduplicated by object
+ * reference. A schema declares its settings once, so the caller rejects
+ * more than one across files.
+ *
+ * @param module - The imported schema module
+ * @returns The module's settings, in export order
+ */
+export function selectSettingsDefinitions(module: any): SettingsDefinition[] {
+  const settings = new Set<SettingsDefinition>();
+  for (const value of [module.default, ...Object.values(module)]) {
+    if (isSettingsDefinition(value)) {
+      settings.add(value);
+    }
+  }
+  return [...settings];
+}
+
 /**
  * Extracts field definitions from a Zod object schema
  * Filters out base schema fields (id, collectionId, created, updated, expand)
@@ -7,10 +7,17 @@
 
 import * as fs from "fs";
 import { SchemaParsingError } from "../errors";
+import type { SeedDefinition } from "../../schema/seed";
+import type { SettingsDefinition } from "../../schema/settings";
 import type { CollectionSchema, SchemaDefinition } from "../types";
 import { mergeConfig, resolveSchemaDir, type SchemaAnalyzerConfig } from "./config";
 import { convertZodSchemaToCollectionSchema } from "./converter";
-import { selectCollectionSchema } from "./extractors";
+import {
+  hasMixinDefinitions,
+  selectCollectionSchema,
+  selectSeedDefinitions,
+  selectSettingsDefinitions,
+} from "./extractors";
 import { discoverSchemaFiles, importSchemaModule } from "./loader";
 
 // Curated submodule surface — config internals (mergeConfig, DEFAULT_CONFIG,
@@ -18,12 +25,19 @@ import { discoverSchemaFiles, importSchemaModule } from "./loader";
 export { type SchemaAnalyzerConfig } from "./config";
 export { buildFieldDefinition, convertZodSchemaToCollectionSchema } from "./converter";
 export {
+  extractAuthOptionsFromSchema,
   extractCollectionNameFromSchema,
   extractCollectionTypeFromSchema,
   extractFieldDefinitions,
   extractIndexes,
+  extractMixinsFromSchema,
+  extractRenamedFromSchema,
+  extractSoftDeleteFromSchema,
+  extractTenantFromSchema,
   extractViewQueryFromSchema,
   selectCollectionSchema,
+  selectSeedDefinitions,
+  selectSettingsDefinitions,
   type CollectionSchemaExport,
 } from "./extractors";
 export { discoverSchemaFiles, importSchemaModule } from "./loader";
@@ -36,7 +50,9 @@ export { discoverSchemaFiles, importSchemaModule } from "./loader";
  * whose description carries collection metadata (what defineCollection()/
  * defineView() produce). Files without such an export are skipped with a
  * warning; a file with more than one, or two files declaring the same
- * collection name, are errors.
+ * collection name, are errors. Seeds (defineSeed()) are collected from every
+ * file; two seeds for the same collection are an error. So are two
+ * defineSettings(): a schema declares its app settings once.
  *
  * @param config - Schema analyzer configuration
  * @returns Complete SchemaDefinition with all collections
@@ -45,6 +61,10 @@ export async function parseSchemaFiles(config: SchemaAnalyzerConfig): Promise<Sc
   const mergedConfig = mergeConfig(config);
   const collections = new Map<string, CollectionSchema>();
   const collectionSources = new Map<string, string>();
+  const seeds: SeedDefinition[] = [];
+  const seedSources = new Map<string, string>();
+  let settings: SettingsDefinition | undefined;
+  let settingsSource: string | undefined;
 
   // Discover schema files
   const schemaFiles = discoverSchemaFiles(config);
@@ -82,9 +102,41 @@ export async function parseSchemaFiles(config: SchemaAnalyzerConfig): Promise<Sc
       // Import the module
       const module = await importSchemaModule(importPath, config);
 
+      const fileSeeds = selectSeedDefinitions(module);
+      for (const seed of fileSeeds) {
+        const existingSeedSource = seedSources.get(seed.collection);
+        if (existingSeedSource) {
+          throw new SchemaParsingError(
+            `Seed records for "${seed.collection}" are declared in both ${existingSeedSource} and ${filePath}. ` +
+              `Declare each collection's records in one defineSeed().`,
+            filePath
+          );
+        }
+        seeds.push(seed);
+        seedSources.set(seed.collection, filePath);
+      }
+
+      const fileSettings = selectSettingsDefinitions(module);
+      for (const definition of fileSettings) {
+        if (settingsSource) {
+          const sources = settingsSource === filePath ? filePath : `both ${settingsSource} and ${filePath}`;
+          throw new SchemaParsingError(
+            `App settings are declared more than once, in ${sources}. Declare them in one defineSettings().`,
+            filePath
+          );
+        }
+        settings = definition;
+        settingsSource = filePath;
+      }
+
       // Find the export carrying collection metadata
       const collectionExport = selectCollectionSchema(module);
 
+      // A file of seeds, settings or mixins alone is not missing anything
+      if (!collectionExport && (fileSeeds.length + fileSettings.length > 0 || hasMixinDefinitions(module))) {
+        continue;
+      }
+
       if (!collectionExport) {
         console.warn(
           `${filePath}: no export carries collection metadata (use defineCollection()/defineView()); skipping. ` +
@@ -127,5 +179,25 @@ export async function parseSchemaFiles(config: SchemaAnalyzerConfig): Promise<Sc
     }
   }
 
-  return { collections };
+  for (const seed of seeds) {
+    const collection = collections.get(seed.collection);
+    if (!collection) {
+      throw new SchemaParsingError(
+        `Seed records are declared for "${seed.collection}", which no schema file defines.`,
+        seedSources.get(seed.collection)
+      );
+    }
+    if (collection.type === "view") {
+      throw new SchemaParsingError(
+        `Seed records are declared for "${seed.collection}", but view collections hold no records of their own.`,
+        seedSources.get(seed.collection)
+      );
+    }
+  }
+
+  return {
+    collections,
+    ...(seeds.length > 0 ? { seeds } : {}),
+    ...(settings ? { settings } : {}),
+  };
 }
@@ -20,6 +20,17 @@ async function ensureTsxLoader(): Promise<void> {
   }
 }
 
+/**
+ * Imports a module through a tsx namespace of its own, so the module and the
+ * project files it imports are evaluated again while packages stay shared
+ *
+ * @param fileUrl - file:// URL of the module
+ */
+async function importFresh(fileUrl: string): Promise<any> {
+  const { tsImport } = await import("tsx/esm/api");
+  return tsImport(fileUrl, fileUrl);
+}
+
 /**
  * Discovers schema files in the specified directory
  * Filters based on configuration patterns
@@ -131,6 +142,14 @@ export async function importSchemaModule(filePath: string, config?: SchemaAnalyz
       resolvedPath = jsPath;
     }
 
+    // Convert to file URL for proper ESM import
+    const fileUrl = new URL(`file://${path.resolve(resolvedPath)}`);
+
+    // Node caches modules by URL for the life of the process
+    if (config?.reload) {
+      return await importFresh(fileUrl.href);
+    }
+
     // If it's a TypeScript file, ensure tsx loader is registered
     if (resolvedPath.endsWith(".ts")) {
       await ensureTsxLoader();
@@ -146,9 +165,6 @@ export async function importSchemaModule(filePath: string, config?: SchemaAnalyz
       }
     }
 
-    // Convert to file URL for proper ESM import
-    const fileUrl = new URL(`file://${path.resolve(resolvedPath)}`);
-
     // Use dynamic import to load the module
     // tsx/esm will handle TypeScript files automatically if registered
     const module = await import(fileUrl.href);
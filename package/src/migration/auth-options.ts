@@ -0,0 +1,94 @@
+/**
+ * Auth collection options
+ *
+ * The per-collection auth settings PocketBase keeps next to fields, indexes
+ * and rules (`passwordAuth`, `oauth2`, `otp`, ...). The schema declares them
+ * with `defineCollection({ auth })`; migrations set them with `unmarshal()`.
+ *
+ * Secrets are never written into a migration. The schema declares them as
+ * `{ env: "NAME" }` and the migration reads them with `$os.getenv("NAME")`;
+ * a secret found as a plain string - in a database PocketBase wrote - is
+ * dropped rather than copied.
+ */
+
+import { isEnvValue } from "../schema/env";
+
+/** The auth option keys, in the order PocketBase serializes them */
+export const AUTH_OPTION_KEYS = [
+  "authAlert",
+  "oauth2",
+  "passwordAuth",
+  "mfa",
+  "otp",
+  "authToken",
+  "passwordResetToken",
+  "emailChangeToken",
+  "verificationToken",
+  "fileToken",
+  "verificationTemplate",
+  "resetPasswordTemplate",
+  "confirmEmailChangeTemplate",
+] as const;
+
+export type AuthOptionKey = (typeof AUTH_OPTION_KEYS)[number];
+
+/**
+ * What PocketBase gives an auth collection that does not set an option
+ *
+ * Lets a diff against a collection that never declared an option tell
+ * whether the schema changes anything, and lets down() put the default back.
+ * Email templates are left out: an undeclared template cannot be restored.
+ */
+export const AUTH_OPTION_DEFAULTS: Record<string, any> = {
+  authAlert: { enabled: true },
+  oauth2: { enabled: false, mappedFields: { id: "", name: "", username: "", avatarURL: "" }, providers: [] },
+  passwordAuth: { enabled: true, identityFields: ["email"] },
+  mfa: { enabled: false, duration: 1800, rule: "" },
+  otp: { enabled: false, duration: 180, length: 8 },
+  authToken: { duration: 604800 },
+  passwordResetToken: { duration: 1800 },
+  emailChangeToken: { duration: 1800 },
+  verificationToken: { duration: 259200 },
+  fileToken: { duration: 180 },
+};
+
+/** Keys holding a secret, on an OAuth2 provider or a token config */
+const SECRET_KEYS = new Set(["clientSecret", "secret"]);
+
+/**
+ * Picks the auth options out of a PocketBase collection object
+ *
+ * @returns The options present, or undefined when there are none
+ */
+export function pickAuthOptions(collection: Record<string, any>): Record<string, any> | undefined {
+  const options: Record<string, any> = {};
+  for (const key of AUTH_OPTION_KEYS) {
+    if (collection[key] !== undefined) {
+      options[key] = collection[key];
+    }
+  }
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+/**
+ * Removes secrets stored as plain strings, keeping `{ env }` references
+ *
+ * @param value - An option value, or a whole options object
+ */
+export function stripAuthSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((entry) => stripAuthSecrets(entry)) as T;
+  }
+  if (value === null || typeof value !== "object" || isEnvValue(value)) {
+    return value;
+  }
+
+  const stripped: Record<string, any> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (SECRET_KEYS.has(key) && !isEnvValue(entry)) {
+      continue;
+    }
+    stripped[key] = stripAuthSecrets(entry);
+  }
+  return stripped as T;
+}
@@ -0,0 +1,199 @@
+/**
+ * Migration checksums — noticing applied migrations edited after the fact
+ *
+ * PocketBase runs a migration once and records only its filename. A file
+ * edited after it ran changes what replay (and so `status` and `generate`)
+ * reconstructs, while the database keeps what the original did: the two
+ * diverge without anything saying so.
+ *
+ * Every migration the generator writes starts with a header comment holding
+ * a hash of the rest of the file. A file that no longer matches its header
+ * was edited since it was written. That only matters once the migration has
+ * been applied; until then it is still free to change. An intended edit to
+ * an applied migration (a comment, a fix the database already has) is
+ * recorded with acceptMigrationChanges(), which rewrites the header.
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import type { AppliedMigrationsSource } from "./engine/applied-migrations";
+import { discoverMigrations, resolveMigrationRef, type DiscoveredMigration } from "./engine/migration-plan";
+import { ChecksumError, FileSystemError } from "./errors";
+
+/** Start of the header line carrying a migration's checksum */
+export const CHECKSUM_HEADER_PREFIX = "// pocketbase-migrate checksum sha256:";
+
+const CHECKSUM_HEADER_PATTERN = /^\/\/ pocketbase-migrate checksum sha256:([0-9a-f]{64})[ \t]*\r?\n/;
+
+/**
+ * - `unchanged`: the file matches its header
+ * - `modified`: the file was edited since its header was written
+ * - `unrecorded`: no header, e.g. a hand-written migration or one generated
+ *   before checksums were recorded
+ */
+export type MigrationChecksumStatus = "unchanged" | "modified" | "unrecorded";
+
+export interface MigrationChecksum {
+  /** Migration filename */
+  file: string;
+  /** Absolute path to the file */
+  path: string;
+  status: MigrationChecksumStatus;
+  /** Checksum in the header, if there is one */
+  recorded: string | null;
+  /** Checksum of the current content */
+  actual: string;
+  /** Whether `_migrations` lists the file; null when no applied list was given */
+  applied: boolean | null;
+}
+
+export interface ChecksumReport {
+  /** Every migration on disk, in timestamp order */
+  checked: MigrationChecksum[];
+  /** Migrations edited since their header was written, applied or not */
+  modified: MigrationChecksum[];
+  /** Migrations without a header */
+  unrecorded: string[];
+}
+
+export interface AcceptedChange {
+  file: string;
+  path: string;
+  /** Checksum the header held before; null when the file had none */
+  previous: string | null;
+  /** Checksum now recorded */
+  checksum: string;
+}
+
+function stripChecksumHeader(content: string): string {
+  return content.replace(CHECKSUM_HEADER_PATTERN, "");
+}
+
+/**
+ * Hashes a migration's content, leaving out its checksum header
+ *
+ * Line endings are normalized first, so a checkout that converts them does
+ * not read as an edit.
+ *
+ * @param content - Migration file content, with or without a header
+ * @returns Hex SHA-256 digest
+ */
+export function computeMigrationChecksum(content: string): string {
+  const normalized = stripChecksumHeader(content).replace(/\r\n/g, "\n");
+  return createHash("sha256").update(normalized, "utf-8").digest("hex");
+}
+
+/**
+ * Reads the checksum a migration's header records
+ *
+ * @param content - Migration file content
+ * @returns The recorded checksum, or null when the file has no header
+ */
+export function readMigrationChecksum(content: string): string | null {
+  return CHECKSUM_HEADER_PATTERN.exec(content)?.[1] ?? null;
+}
+
+/**
+ * Gives migration content a header recording its checksum, replacing any
+ * header it already has
+ *
+ * @param content - Migration file content
+ * @returns The content with its checksum header first
+ */
+export function withChecksumHeader(content: string): string {
+  const body = stripChecksumHeader(content);
+  return `${CHECKSUM_HEADER_PREFIX}${computeMigrationChecksum(body)}\n${body}`;
+}
+
+function checkMigration(migration: DiscoveredMigration, appliedFiles: Set<string> | null): MigrationChecksum {
+  const content = fs.readFileSync(migration.path, "utf-8");
+  const recorded = readMigrationChecksum(content);
+  const actual = computeMigrationChecksum(content);
+
+  let status: MigrationChecksumStatus = "unrecorded";
+  if (recorded) {
+    status = recorded === actual ? "unchanged" : "modified";
+  }
+
+  return {
+    file: migration.name,
+    path: migration.path,
+    status,
+    recorded,
+    actual,
+    applied: appliedFiles ? appliedFiles.has(migration.name) : null,
+  };
+}
+
+/**
+ * Checks every migration in a directory against its checksum header
+ *
+ * @param migrationsPath - The pb_migrations directory
+ * @param applied - What `_migrations` lists, to tell which edits matter; null when unknown
+ * @returns Each migration's status, with the modified and unrecorded ones picked out
+ */
+export function checkMigrationChecksums(
+  migrationsPath: string,
+  applied: AppliedMigrationsSource | null = null
+): ChecksumReport {
+  const appliedFiles = applied ? new Set(applied.entries.map((entry) => entry.file)) : null;
+  const checked = discoverMigrations(migrationsPath).map((migration) => checkMigration(migration, appliedFiles));
+
+  return {
+    checked,
+    modified: checked.filter((migration) => migration.status === "modified"),
+    unrecorded: checked.filter((migration) => migration.status === "unrecorded").map((migration) => migration.file),
+  };
+}
+
+/**
+ * Records the current content of migrations as intended, rewriting their
+ * checksum headers (or adding one to a file without)
+ *
+ * @param migrationsPath - The pb_migrations directory
+ * @param refs - Migrations by filename, path or timestamp
+ * @returns One entry per migration, in the order given
+ * @throws ChecksumError when a migration is not in the directory
+ * @throws FileSystemError when a file cannot be rewritten
+ */
+export function acceptMigrationChanges(migrationsPath: string, refs: string[]): AcceptedChange[] {
+  const discovered = discoverMigrations(migrationsPath);
+  const unknown: string[] = [];
+  const migrations = refs.flatMap((ref) => {
+    const migration = resolveMigrationRef(discovered, ref);
+    if (!migration) {
+      unknown.push(ref);
+      return [];
+    }
+    return [migration];
+  });
+
+  if (unknown.length > 0) {
+    throw new ChecksumError(`Cannot accept changes to ${unknown.join(", ")}: no such migration in ${migrationsPath}`);
+  }
+
+  return migrations.map((migration) => {
+    try {
+      const content = fs.readFileSync(migration.path, "utf-8");
+      const updated = withChecksumHeader(content);
+      if (updated !== content) {
+        fs.writeFileSync(migration.path, updated, "utf-8");
+      }
+      return {
+        file: migration.name,
+        path: migration.path,
+        previous: readMigrationChecksum(content),
+        checksum: computeMigrationChecksum(updated),
+      };
+    } catch (error) {
+      const fsError = error as NodeJS.ErrnoException;
+      throw new FileSystemError(
+        `Failed to record the checksum of ${migration.name}: ${fsError.message}`,
+        migration.path,
+        "write",
+        fsError.code,
+        fsError
+      );
+    }
+  });
+}
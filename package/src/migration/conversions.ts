@@ -0,0 +1,174 @@
+/**
+ * Field type conversions
+ *
+ * PocketBase cannot change a field's type in place. A migration that changes
+ * one adds a field of the new type next to the old one, copies every record's
+ * value across - converted - and then drops the old field and gives the new
+ * one its name. This module decides how one value is converted: with the
+ * field's `convert` hook when the schema declares one, otherwise with one of
+ * the built-in conversions below.
+ *
+ * A type change that has a conversion keeps its data, so it is not treated as
+ * destructive. One without a conversion still is, and still needs --force.
+ */
+
+import type { FieldDefinition, FieldModification, SchemaDiff } from "./types";
+
+/** Field types whose values are plain strings */
+const TEXT_TYPES = new Set(["text", "email", "url", "editor"]);
+
+/** Field types any scalar converts to by taking its string form */
+const FREE_TEXT_TYPES = new Set(["text", "editor"]);
+
+/** A field type change, and how its values get carried across */
+export interface FieldTypeConversion {
+  from: FieldDefinition;
+  to: FieldDefinition;
+  /** Converter source, `(value, record) => converted`; null when the values cannot be carried across */
+  converter: string | null;
+  /** Where the converter comes from */
+  origin: "hook" | "builtin" | null;
+}
+
+/** A convertible type change in a diff, as the record simulation checks it */
+export interface FieldTypeConversionTarget {
+  collection: string;
+  field: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Works out how a field modification converts existing values
+ *
+ * The converter comes from the new definition's `convert.up`, or - when the
+ * modification is the reverse of one, as in down() - from the `convert.down`
+ * of the definition it reverts; the built-in conversion is the fallback.
+ *
+ * @param modification - A field modification from the diff
+ * @returns The conversion, or null when the modification does not change the
+ *   field's type or lacks the definitions needed to rebuild the field
+ */
+export function resolveFieldTypeConversion(modification: FieldModification): FieldTypeConversion | null {
+  const typeChange = modification.changes.some((change) => change.property === "type");
+  const from = modification.currentDefinition;
+  const to = modification.newDefinition;
+  if (!typeChange || !from || !to) {
+    return null;
+  }
+
+  const hook = to.convert?.up ?? from.convert?.down;
+  if (hook !== undefined) {
+    return { from, to, converter: hook, origin: "hook" };
+  }
+
+  const builtin = builtinConverter(from, to);
+  return { from, to, converter: builtin, origin: builtin === null ? null : "builtin" };
+}
+
+/**
+ * Whether a modification changes a field's type in a way the generated
+ * migration can carry the existing values across
+ */
+export function isConvertibleTypeChange(modification: FieldModification): boolean {
+  return resolveFieldTypeConversion(modification)?.converter != null;
+}
+
+/**
+ * Lists the convertible type changes in a diff
+ *
+ * @param diff - Schema diff
+ * @returns One entry per converted field, named as they are after the migration
+ */
+export function listFieldTypeConversions(diff: SchemaDiff): FieldTypeConversionTarget[] {
+  const targets: FieldTypeConversionTarget[] = [];
+
+  for (const modification of diff.collectionsToModify) {
+    for (const fieldMod of modification.fieldsToModify) {
+      const conversion = resolveFieldTypeConversion(fieldMod);
+      if (conversion?.converter != null) {
+        targets.push({
+          collection: modification.collection,
+          field: fieldMod.fieldName,
+          from: conversion.from.type,
+          to: conversion.to.type,
+        });
+      }
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * The built-in conversion between two field types, as converter source
+ *
+ * Covers the conversions with an obvious meaning: anything scalar to text,
+ * text and booleans to numbers, text and numbers to booleans, and text to a
+ * select, keeping only allowed values. Values that do not convert become the
+ * new type's empty value (`0`, `false`, `""`). Email and URL targets, dates,
+ * files, relations and JSON need a `convert` hook.
+ *
+ * @returns Converter source, or null when no conversion is built in
+ */
+export function builtinConverter(from: FieldDefinition, to: FieldDefinition): string | null {
+  const fromSingleSelect = from.type === "select" && (from.options?.maxSelect ?? 1) <= 1;
+
+  if (FREE_TEXT_TYPES.has(to.type) && (TEXT_TYPES.has(from.type) || ["number", "bool", "select"].includes(from.type))) {
+    return [
+      `(value) => {`,
+      `  if (Array.isArray(value)) return value.join(", ");`,
+      `  return value === null || value === undefined ? "" : String(value);`,
+      `}`,
+    ].join("\n");
+  }
+
+  if (to.type === "number" && (TEXT_TYPES.has(from.type) || from.type === "bool" || fromSingleSelect)) {
+    return [
+      `(value) => {`,
+      `  if (typeof value === "boolean") return value ? 1 : 0;`,
+      `  const number = parseFloat(value);`,
+      `  return isFinite(number) ? number : 0;`,
+      `}`,
+    ].join("\n");
+  }
+
+  if (to.type === "bool" && (FREE_TEXT_TYPES.has(from.type) || from.type === "number" || fromSingleSelect)) {
+    return [
+      `(value) => {`,
+      `  if (typeof value !== "string") return Boolean(value);`,
+      `  const text = value.trim().toLowerCase();`,
+      `  return text !== "" && text !== "0" && text !== "false";`,
+      `}`,
+    ].join("\n");
+  }
+
+  if (to.type === "select" && (TEXT_TYPES.has(from.type) || from.type === "number" || from.type === "bool")) {
+    const allowed = JSON.stringify(to.options?.values ?? []);
+    const maxSelect = to.options?.maxSelect ?? 1;
+
+    if (maxSelect <= 1) {
+      return [
+        `(value) => {`,
+        `  const allowed = ${allowed};`,
+        `  const text = value === null || value === undefined ? "" : String(value).trim();`,
+        `  return allowed.indexOf(text) >= 0 ? text : "";`,
+        `}`,
+      ].join("\n");
+    }
+
+    return [
+      `(value) => {`,
+      `  const allowed = ${allowed};`,
+      `  const text = value === null || value === undefined ? "" : String(value);`,
+      `  return text`,
+      `    .split(",")`,
+      `    .map((entry) => entry.trim())`,
+      `    .filter((entry) => allowed.indexOf(entry) >= 0)`,
+      `    .slice(0, ${maxSelect});`,
+      `}`,
+    ].join("\n");
+  }
+
+  return null;
+}
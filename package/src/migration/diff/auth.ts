@@ -0,0 +1,128 @@
+import { isEnvValue } from "../../schema/env";
+import { AUTH_OPTION_DEFAULTS, AUTH_OPTION_KEYS, stripAuthSecrets } from "../auth-options";
+import type { AuthOptionsUpdate, CollectionSchema } from "../types";
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value) && !isEnvValue(value);
+}
+
+/**
+ * Limits a previous option value to the keys the schema declares
+ *
+ * A key the previous state does not carry falls back to PocketBase's default
+ * for it; arrays (providers, identity fields) are taken whole.
+ *
+ * @returns The previous value, or undefined when it is not known
+ */
+function projectDeclared(declared: unknown, previous: unknown, fallback: unknown): unknown {
+  if (!isPlainObject(declared)) {
+    return previous !== undefined ? previous : fallback;
+  }
+
+  const projected: Record<string, unknown> = {};
+  for (const key of Object.keys(declared)) {
+    const value = projectDeclared(
+      declared[key],
+      isPlainObject(previous) ? previous[key] : undefined,
+      isPlainObject(fallback) ? fallback[key] : undefined
+    );
+    if (value !== undefined) {
+      projected[key] = value;
+    }
+  }
+  return Object.keys(projected).length > 0 ? projected : undefined;
+}
+
+/**
+ * Whether a previous value already holds everything the schema declares
+ *
+ * Only declared keys are compared, so options PocketBase adds itself do not
+ * count as changes. A value read from the environment cannot be known ahead
+ * of time and always matches.
+ */
+function matchesDeclared(declared: unknown, previous: unknown): boolean {
+  if (isEnvValue(declared)) {
+    return true;
+  }
+  if (Array.isArray(declared)) {
+    return (
+      Array.isArray(previous) &&
+      previous.length === declared.length &&
+      declared.every((entry, index) => matchesDeclared(entry, previous[index]))
+    );
+  }
+  if (isPlainObject(declared)) {
+    return (
+      isPlainObject(previous) && Object.keys(declared).every((key) => matchesDeclared(declared[key], previous[key]))
+    );
+  }
+  return declared === previous;
+}
+
+/**
+ * Gives the providers being restored by down() the same environment
+ * variables the schema reads for them, since their stored secrets are not
+ * copied into the migration
+ */
+function restoreProviderSecrets(previous: Record<string, any>, declared: Record<string, any>): Record<string, any> {
+  if (!Array.isArray(previous.providers) || !Array.isArray(declared.providers)) {
+    return previous;
+  }
+
+  const providers = previous.providers.map((provider: Record<string, any>) => {
+    const match = declared.providers.find((entry: Record<string, any>) => entry?.name === provider?.name);
+    if (!match) {
+      return provider;
+    }
+    const restored = { ...provider };
+    if (restored.clientSecret === undefined && isEnvValue(match.clientSecret)) {
+      restored.clientSecret = match.clientSecret;
+    }
+    if ((restored.clientId === undefined || restored.clientId === "") && isEnvValue(match.clientId)) {
+      restored.clientId = match.clientId;
+    }
+    return restored;
+  });
+
+  return { ...previous, providers };
+}
+
+/**
+ * Compares the auth options a schema declares with a previous collection
+ *
+ * @param currentCollection - Current collection schema
+ * @param previousCollection - Previous collection schema
+ * @returns An AuthOptionsUpdate when a declared option changed, undefined otherwise
+ */
+export function compareAuthOptions(
+  currentCollection: CollectionSchema,
+  previousCollection: CollectionSchema
+): AuthOptionsUpdate | undefined {
+  const declared = currentCollection.auth;
+  if (currentCollection.type !== "auth" || !declared) {
+    return undefined;
+  }
+
+  const oldValue: Record<string, any> = {};
+  const newValue: Record<string, any> = {};
+
+  for (const key of AUTH_OPTION_KEYS) {
+    if (declared[key] === undefined) {
+      continue;
+    }
+
+    const previous = projectDeclared(declared[key], previousCollection.auth?.[key], AUTH_OPTION_DEFAULTS[key]);
+    if (matchesDeclared(declared[key], previous)) {
+      continue;
+    }
+
+    newValue[key] = declared[key];
+    if (previous !== undefined) {
+      const stripped = stripAuthSecrets(previous);
+      oldValue[key] =
+        key === "oauth2" && isPlainObject(stripped) ? restoreProviderSecrets(stripped, declared[key]) : stripped;
+    }
+  }
+
+  return Object.keys(newValue).length > 0 ? { oldValue, newValue } : undefined;
+}
@@ -7,12 +7,16 @@ import type {
   SchemaSnapshot,
   ViewQueryUpdate,
 } from "../types";
+import { compareAuthOptions } from "./auth";
 import { type DiffEngineConfig } from "./config";
-import { detectFieldChanges, findNewFields, findRemovedFields, matchFieldsByName } from "./fields";
+import { detectFieldChanges, findNewFields, findRemovedFields, matchFieldsByName, matchRenamedFields } from "./fields";
 import { compareIndexes } from "./indexes";
 import { comparePermissions, compareRules } from "./rules";
 import { getUsersSystemFields, isSystemCollection } from "./utils";
 
+/** PocketBase names its auth indexes `idx_tokenKey_<id>` and `idx_email_<id>` */
+const AUTH_SYSTEM_INDEX_PATTERN = /^CREATE\s+UNIQUE\s+INDEX\s+[`"]?idx_(tokenKey|email)_/i;
+
 /**
  * Filters system collections from a schema definition
  * Returns a new SchemaDefinition with only custom (non-system) collections
@@ -129,6 +133,48 @@ export function matchCollectionsByName(
   return matches;
 }
 
+/**
+ * Matches renamed collections to their previous state through `renamedFrom`
+ * Returns pairs of [current, previous] for collections renamed since the snapshot
+ *
+ * A hint is only honored while the snapshot still has the old name and not
+ * the new one - once the rename has been applied the collection matches by
+ * name again, so the hint can stay in the schema.
+ *
+ * @param currentSchema - Current schema definition
+ * @param previousSnapshot - Previous schema snapshot
+ * @returns Array of renamed collection pairs
+ */
+export function matchRenamedCollections(
+  currentSchema: SchemaDefinition,
+  previousSnapshot: SchemaSnapshot | null
+): Array<[CollectionSchema, CollectionSchema]> {
+  const matches: Array<[CollectionSchema, CollectionSchema]> = [];
+
+  if (!previousSnapshot) {
+    return matches;
+  }
+
+  const claimed = new Set<string>();
+  for (const [collectionName, currentCollection] of currentSchema.collections) {
+    const renamedFrom = currentCollection.renamedFrom;
+    if (!renamedFrom || previousSnapshot.collections.has(collectionName)) {
+      continue;
+    }
+
+    // The old name still being declared means the hint describes a copy, not a rename
+    const previousCollection = previousSnapshot.collections.get(renamedFrom);
+    if (!previousCollection || currentSchema.collections.has(renamedFrom) || claimed.has(renamedFrom)) {
+      continue;
+    }
+
+    claimed.add(renamedFrom);
+    matches.push([currentCollection, previousCollection]);
+  }
+
+  return matches;
+}
+
 /**
  * Compares fields between current and previous collections
  * Identifies new, removed, and modified fields
@@ -176,6 +222,33 @@ function compareCollectionFields(
     }
   }
 
+  // A rename keeps the old field (getByName on its old name) and carries the
+  // name change along with whatever else changed
+  const pushRename = (addedField: FieldDefinition, removedField: FieldDefinition) => {
+    const changes = detectFieldChanges(addedField, removedField, collectionIdToName);
+    changes.push({
+      property: "name",
+      oldValue: removedField.name,
+      newValue: addedField.name,
+    });
+
+    fieldsToModify.push({
+      fieldName: removedField.name, // Use OLD name so generator can find it
+      currentDefinition: removedField, // OLD definition
+      newDefinition: addedField, // NEW definition
+      changes,
+    });
+  };
+
+  // Explicit rename hints (`renamedFrom`) are honored first - the schema says
+  // which removed field an added one used to be, so nothing is guessed
+  const hintedRenames = matchRenamedFields(fieldsToAdd, fieldsToRemove, currentCollection.name);
+  for (const [addedField, removedField] of hintedRenames) {
+    pushRename(addedField, removedField);
+  }
+  fieldsToAdd = fieldsToAdd.filter((field) => !hintedRenames.some(([added]) => added === field));
+  fieldsToRemove = fieldsToRemove.filter((field) => !hintedRenames.some(([, removed]) => removed === field));
+
   // Detect Renames (Heuristic)
   // If we have single removed and added fields of the same type, consider it a rename
   const processedAddIndices = new Set<number>();
@@ -229,21 +302,7 @@ function compareCollectionFields(
         // It's a rename!
         processedAddIndices.add(addedIndex);
         processedRemoveIndices.add(removedIndex);
-
-        // Calculate changes (including name change)
-        const changes = detectFieldChanges(addedField, removedField, collectionIdToName);
-        changes.push({
-          property: "name",
-          oldValue: removedField.name,
-          newValue: addedField.name,
-        });
-
-        fieldsToModify.push({
-          fieldName: removedField.name, // Use OLD name so generator can find it
-          currentDefinition: removedField, // OLD definition
-          newDefinition: addedField, // NEW definition
-          changes,
-        });
+        pushRename(addedField, removedField);
       }
     }
   }
@@ -350,7 +409,17 @@ export function buildCollectionModification(
   );
 
   // Compare indexes
-  const { indexesToAdd, indexesToRemove } = compareIndexes(currentCollection.indexes, previousCollection.indexes);
+  // Auth collections carry PocketBase's own unique indexes on tokenKey and
+  // email, which the generator adds itself; a schema may or may not declare
+  // them, so they are left out on both sides
+  const withoutAuthSystemIndexes = (collection: CollectionSchema) =>
+    collection.type === "auth"
+      ? (collection.indexes ?? []).filter((index) => !AUTH_SYSTEM_INDEX_PATTERN.test(index))
+      : collection.indexes;
+  const { indexesToAdd, indexesToRemove } = compareIndexes(
+    withoutAuthSystemIndexes(currentCollection),
+    withoutAuthSystemIndexes(previousCollection)
+  );
 
   // Compare rules (also check permissions as fallback since they're the same thing)
   const rulesToUpdate = compareRules(
@@ -363,6 +432,9 @@ export function buildCollectionModification(
   // Compare permissions
   const permissionsToUpdate = comparePermissions(currentCollection.permissions, previousCollection.permissions);
 
+  // Compare the declared auth options (auth collections only)
+  const authOptionsUpdate = compareAuthOptions(currentCollection, previousCollection);
+
   return {
     collection: currentCollection.name,
     fieldsToAdd,
@@ -372,5 +444,6 @@ export function buildCollectionModification(
     indexesToRemove,
     rulesToUpdate,
     permissionsToUpdate,
+    authOptionsUpdate,
   };
 }
@@ -76,6 +76,53 @@ export function matchFieldsByName(
   return matches;
 }
 
+/**
+ * Pairs added fields with the removed fields their `renamedFrom` hint names
+ * Returns pairs of [current, previous], one per honored hint
+ *
+ * A hint naming a field that was not removed is stale (the rename has already
+ * been applied) and is ignored. A hint across field types is not honored:
+ * PocketBase cannot change the type of an existing field, so the pair stays a
+ * drop and an add.
+ *
+ * @param addedFields - Fields only in the current collection
+ * @param removedFields - Fields only in the previous collection
+ * @param collectionName - Collection name, used in warnings
+ * @returns Array of renamed field pairs
+ */
+export function matchRenamedFields(
+  addedFields: FieldDefinition[],
+  removedFields: FieldDefinition[],
+  collectionName: string
+): Array<[FieldDefinition, FieldDefinition]> {
+  const matches: Array<[FieldDefinition, FieldDefinition]> = [];
+  const removedFieldMap = new Map(removedFields.map((field) => [field.name, field]));
+
+  for (const addedField of addedFields) {
+    if (!addedField.renamedFrom) {
+      continue;
+    }
+
+    const removedField = removedFieldMap.get(addedField.renamedFrom);
+    if (!removedField) {
+      continue;
+    }
+
+    if (removedField.type !== addedField.type) {
+      console.warn(
+        `[${collectionName}] renamedFrom on "${addedField.name}" is ignored: "${removedField.name}" is a ` +
+          `${removedField.type} field and PocketBase cannot change a field's type in place.`
+      );
+      continue;
+    }
+
+    removedFieldMap.delete(removedField.name);
+    matches.push([addedField, removedField]);
+  }
+
+  return matches;
+}
+
 /**
  * Compares field types between current and previous
  *
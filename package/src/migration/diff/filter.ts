@@ -1,8 +1,14 @@
-import type { SchemaDiff, FieldModification } from "../types";
+import { isConvertibleTypeChange } from "../conversions";
+import type { SeedChanges } from "../seeds";
+import type { SettingChange } from "../settings";
+import type { SchemaDiff, FieldDefinition, FieldModification } from "../types";
+import { DestructiveChangeType, type DestructiveChange } from "../validation";
 
 export interface FilterOptions {
   patterns?: string[];
   skipDestructive?: boolean;
+  /** Individual destructive changes to leave out, as detectDestructiveChanges() reports them */
+  skipChanges?: DestructiveChange[];
 }
 
 function matchesPattern(text: string, patterns: string[]): boolean {
@@ -18,13 +24,36 @@ function matchesPattern(text: string, patterns: string[]): boolean {
 }
 
 function isDestructiveFieldModification(mod: FieldModification): boolean {
-    const typeChange = mod.changes.find(c => c.property === "type");
+    // A type change with a conversion carries the data across
+    const typeChange = mod.changes.find(c => c.property === "type") && !isConvertibleTypeChange(mod);
     const requiredChange = mod.changes.find(c => c.property === "required" && c.newValue === true);
     return !!(typeChange || requiredChange);
 }
 
+// Existing records would be left without a value for the field
+function isDestructiveFieldAddition(field: FieldDefinition): boolean {
+    return field.required && !field.backfill;
+}
+
+function isSkipped(
+  skipChanges: DestructiveChange[],
+  types: DestructiveChangeType[],
+  collection: string,
+  field?: string
+): boolean {
+  return skipChanges.some(
+    change => types.includes(change.type) && change.collection === collection && change.field === field
+  );
+}
+
+const FIELD_MODIFICATION_CHANGES = [
+  DestructiveChangeType.FIELD_TYPE_CHANGE,
+  DestructiveChangeType.FIELD_TYPE_CONVERSION,
+  DestructiveChangeType.FIELD_REQUIRED_CHANGE,
+];
+
 export function filterDiff(diff: SchemaDiff, options: FilterOptions): SchemaDiff {
-  const { patterns = [], skipDestructive = false } = options;
+  const { patterns = [], skipDestructive = false, skipChanges = [] } = options;
 
   // 1. Filter Collections to Create
   const collectionsToCreate = diff.collectionsToCreate.filter(col => {
@@ -39,7 +68,8 @@ export function filterDiff(diff: SchemaDiff, options: FilterOptions): SchemaDiff
     collectionsToDelete = collectionsToDelete.filter(col => col.type === "view");
   }
   collectionsToDelete = collectionsToDelete.filter(col => {
-    return matchesPattern(col.name, patterns);
+    return matchesPattern(col.name, patterns) &&
+      !isSkipped(skipChanges, [DestructiveChangeType.COLLECTION_DELETION], col.name);
   });
 
   // 3. Filter Collections to Modify
@@ -48,8 +78,13 @@ export function filterDiff(diff: SchemaDiff, options: FilterOptions): SchemaDiff
     const collectionMatches = matchesPattern(mod.collection, patterns);
 
     // Filter fields to add
-    const fieldsToAdd = mod.fieldsToAdd.filter(field => {
-      return collectionMatches || matchesPattern(`${mod.collection}.${field.name}`, patterns);
+    let fieldsToAdd = mod.fieldsToAdd;
+    if (skipDestructive) {
+      fieldsToAdd = fieldsToAdd.filter(field => !isDestructiveFieldAddition(field));
+    }
+    fieldsToAdd = fieldsToAdd.filter(field => {
+      return (collectionMatches || matchesPattern(`${mod.collection}.${field.name}`, patterns)) &&
+        !isSkipped(skipChanges, [DestructiveChangeType.FIELD_REQUIRED_ADDITION], mod.collection, field.name);
     });
 
     // Filter fields to remove
@@ -58,7 +93,8 @@ export function filterDiff(diff: SchemaDiff, options: FilterOptions): SchemaDiff
       fieldsToRemove = [];
     } else {
       fieldsToRemove = fieldsToRemove.filter(field => {
-         return collectionMatches || matchesPattern(`${mod.collection}.${field.name}`, patterns);
+         return (collectionMatches || matchesPattern(`${mod.collection}.${field.name}`, patterns)) &&
+           !isSkipped(skipChanges, [DestructiveChangeType.FIELD_DELETION], mod.collection, field.name);
       });
     }
 
@@ -68,7 +104,8 @@ export function filterDiff(diff: SchemaDiff, options: FilterOptions): SchemaDiff
         fieldsToModify = fieldsToModify.filter(f => !isDestructiveFieldModification(f));
     }
     fieldsToModify = fieldsToModify.filter(f => {
-        return collectionMatches || matchesPattern(`${mod.collection}.${f.fieldName}`, patterns);
+        return (collectionMatches || matchesPattern(`${mod.collection}.${f.fieldName}`, patterns)) &&
+          !isSkipped(skipChanges, FIELD_MODIFICATION_CHANGES, mod.collection, f.fieldName);
     });
 
     // Filter collection-level changes (indexes, rules, permissions)
@@ -79,6 +116,21 @@ export function filterDiff(diff: SchemaDiff, options: FilterOptions): SchemaDiff
     const rulesToUpdate = collectionMatches ? mod.rulesToUpdate : [];
     const permissionsToUpdate = collectionMatches ? mod.permissionsToUpdate : [];
     const viewQueryUpdate = collectionMatches ? mod.viewQueryUpdate : undefined;
+    const authOptionsUpdate = collectionMatches ? mod.authOptionsUpdate : undefined;
+
+    // Every other change addresses the collection by its new name, so the
+    // rename stays whenever anything else about the collection is kept
+    const keepsOtherChanges =
+      fieldsToAdd.length > 0 ||
+      fieldsToRemove.length > 0 ||
+      fieldsToModify.length > 0 ||
+      indexesToAdd.length > 0 ||
+      indexesToRemove.length > 0 ||
+      rulesToUpdate.length > 0 ||
+      permissionsToUpdate.length > 0 ||
+      viewQueryUpdate !== undefined ||
+      authOptionsUpdate !== undefined;
+    const nameUpdate = collectionMatches || keepsOtherChanges ? mod.nameUpdate : undefined;
 
     return {
       ...mod,
@@ -89,7 +141,9 @@ export function filterDiff(diff: SchemaDiff, options: FilterOptions): SchemaDiff
       indexesToRemove,
       rulesToUpdate,
       permissionsToUpdate,
-      viewQueryUpdate
+      viewQueryUpdate,
+      authOptionsUpdate,
+      nameUpdate
     };
   }).filter(mod => {
      // Keep modification object only if there is something left to modify
@@ -100,7 +154,9 @@ export function filterDiff(diff: SchemaDiff, options: FilterOptions): SchemaDiff
             mod.indexesToRemove.length > 0 ||
             mod.rulesToUpdate.length > 0 ||
             mod.permissionsToUpdate.length > 0 ||
-            mod.viewQueryUpdate !== undefined;
+            mod.viewQueryUpdate !== undefined ||
+            mod.authOptionsUpdate !== undefined ||
+            mod.nameUpdate !== undefined;
   });
 
   return {
@@ -110,3 +166,26 @@ export function filterDiff(diff: SchemaDiff, options: FilterOptions): SchemaDiff
     collectionsToModify
   };
 }
+
+/**
+ * Restricts seed changes to the collections matching the patterns
+ *
+ * @param changes - Seed changes from diffSeeds()
+ * @param patterns - Collection name patterns (regex supported); none keeps everything
+ * @returns The matching changes
+ */
+export function filterSeedChanges(changes: SeedChanges[], patterns: string[] = []): SeedChanges[] {
+  return changes.filter((change) => matchesPattern(change.collection, patterns));
+}
+
+/**
+ * Restricts settings changes to those matching the patterns
+ * A setting is matched as `settings.<path>`, so "settings" keeps them all
+ *
+ * @param changes - Settings changes from diffSettings()
+ * @param patterns - Patterns (regex supported); none keeps everything
+ * @returns The matching changes
+ */
+export function filterSettingsChanges(changes: SettingChange[], patterns: string[] = []): SettingChange[] {
+  return changes.filter((change) => matchesPattern(`settings.${change.path}`, patterns));
+}
@@ -13,6 +13,7 @@ import {
   findNewCollections,
   findRemovedCollections,
   matchCollectionsByName,
+  matchRenamedCollections,
 } from "./collections";
 import { type DiffEngineConfig } from "./config";
 import { isSystemCollection } from "./utils";
@@ -23,7 +24,7 @@ import { isSystemCollection } from "./utils";
 export { filterSystemCollections } from "./collections";
 export { type DiffEngineConfig } from "./config";
 export { compareFieldOptions } from "./fields";
-export { filterDiff, type FilterOptions } from "./filter";
+export { filterDiff, filterSeedChanges, filterSettingsChanges, type FilterOptions } from "./filter";
 export { comparePermissions } from "./rules";
 export { categorizeChangesBySeverity } from "./summary";
 export { isSystemCollection } from "./utils";
@@ -43,7 +44,9 @@ function hasChanges(modification: CollectionModification): boolean {
     modification.indexesToRemove.length > 0 ||
     modification.rulesToUpdate.length > 0 ||
     modification.permissionsToUpdate.length > 0 ||
-    modification.viewQueryUpdate !== undefined
+    modification.viewQueryUpdate !== undefined ||
+    modification.authOptionsUpdate !== undefined ||
+    modification.nameUpdate !== undefined
   );
 }
 
@@ -72,9 +75,28 @@ export function compare(
     }
   }
 
+  // Collections renamed through a `renamedFrom` hint are neither new nor
+  // removed: they are modified in place under their previous id
+  const renamedCollections = matchRenamedCollections(currentSchema, previousSnapshot);
+  const renamedCurrent = new Set(renamedCollections.map(([current]) => current.name));
+  const renamedPrevious = new Set(renamedCollections.map(([, previous]) => previous.name));
+
+  // A relation that still names (or ids) the old collection points at the
+  // renamed one
+  for (const [current, previous] of renamedCollections) {
+    collectionIdToName.set(previous.name, current.name);
+    if (previous.id) {
+      collectionIdToName.set(previous.id, current.name);
+    }
+  }
+
   // Find new and removed collections
-  const collectionsToCreate = findNewCollections(currentSchema, previousSnapshot);
-  const collectionsToDelete = findRemovedCollections(currentSchema, previousSnapshot);
+  const collectionsToCreate = findNewCollections(currentSchema, previousSnapshot).filter(
+    (collection) => !renamedCurrent.has(collection.name)
+  );
+  const collectionsToDelete = findRemovedCollections(currentSchema, previousSnapshot).filter(
+    (collection) => !renamedPrevious.has(collection.name)
+  );
 
   // Filter out system collections from create and delete operations
   const filteredCollectionsToCreate = collectionsToCreate.filter(
@@ -115,6 +137,12 @@ export function compare(
     }
   }
 
+  for (const [currentCollection, previousCollection] of renamedCollections) {
+    const modification = buildCollectionModification(currentCollection, previousCollection, config, collectionIdToName);
+    modification.nameUpdate = { oldValue: previousCollection.name, newValue: currentCollection.name };
+    collectionsToModify.push(modification);
+  }
+
   // Build map of existing collection names to their IDs from the snapshot
   // This is used by the generator to resolve relation field references
   const existingCollectionIds = new Map<string, string>();
@@ -126,6 +154,13 @@ export function compare(
     }
   }
 
+  // A renamed collection keeps its id, so it is addressed by id under both names
+  for (const [current, previous] of renamedCollections) {
+    if (previous.id) {
+      existingCollectionIds.set(current.name, previous.id);
+    }
+  }
+
   return {
     collectionsToCreate: collectionsWithIds,
     collectionsToDelete: filteredCollectionsToDelete,
@@ -1,3 +1,4 @@
+import { isConvertibleTypeChange } from "../conversions";
 import type { SchemaDiff } from "../types";
 import { type DiffEngineConfig } from "./config";
 
@@ -37,14 +38,24 @@ export function categorizeChangesBySeverity(
   for (const modification of diff.collectionsToModify) {
     const collectionName = modification.collection;
 
+    // Renames keep the collection id, so its records stay where they are
+    if (modification.nameUpdate) {
+      nonDestructive.push(`Rename collection: ${modification.nameUpdate.oldValue} → ${collectionName}`);
+    }
+
     // Field deletions are destructive
     for (const field of modification.fieldsToRemove) {
       destructive.push(`Delete field: ${collectionName}.${field.name}`);
     }
 
-    // Field additions are non-destructive
+    // Field additions are non-destructive, unless existing records are left
+    // without a value for a required field
     for (const field of modification.fieldsToAdd) {
-      nonDestructive.push(`Add field: ${collectionName}.${field.name}`);
+      if (field.required && !field.backfill) {
+        destructive.push(`Add required field without a backfill: ${collectionName}.${field.name}`);
+      } else {
+        nonDestructive.push(`Add field: ${collectionName}.${field.name}`);
+      }
     }
 
     // Field modifications can be destructive or non-destructive
@@ -52,7 +63,11 @@ export function categorizeChangesBySeverity(
       const hasTypeChange = fieldMod.changes.some((c) => c.property === "type");
       const hasRequiredChange = fieldMod.changes.some((c) => c.property === "required" && c.newValue === true);
 
-      if (hasTypeChange) {
+      if (hasTypeChange && isConvertibleTypeChange(fieldMod)) {
+        nonDestructive.push(
+          `Convert field type: ${collectionName}.${fieldMod.fieldName} (${fieldMod.changes.find((c) => c.property === "type")?.oldValue} → ${fieldMod.changes.find((c) => c.property === "type")?.newValue})`
+        );
+      } else if (hasTypeChange) {
         destructive.push(
           `Change field type: ${collectionName}.${fieldMod.fieldName} (${fieldMod.changes.find((c) => c.property === "type")?.oldValue} → ${fieldMod.changes.find((c) => c.property === "type")?.newValue})`
         );
@@ -81,6 +96,13 @@ export function categorizeChangesBySeverity(
     if (modification.viewQueryUpdate) {
       nonDestructive.push(`Update view query: ${collectionName}`);
     }
+
+    // Auth option changes are non-destructive
+    if (modification.authOptionsUpdate) {
+      nonDestructive.push(
+        `Update auth options: ${collectionName} (${Object.keys(modification.authOptionsUpdate.newValue).join(", ")})`
+      );
+    }
   }
 
   return { destructive, nonDestructive };
@@ -0,0 +1,174 @@
+/**
+ * Tests for the access simulator
+ *
+ * Rules are evaluated against sample records the way PocketBase evaluates
+ * them: auth and body references, modifiers, relation and back-relation
+ * hops, and the any-of (`?`) operators.
+ */
+
+import { describe, expect, it } from "vitest";
+import { schemaWithPostRules } from "../../__tests__/helpers/rule-schema";
+import { AccessCheckError, checkAccess, type AccessRequest, type SimulatedRecords } from "../access";
+import { ExpressionError } from "../expression";
+
+const records: SimulatedRecords = {
+  users: [
+    { id: "u1", email: "alice@example.com", role: "member", team: "t1" },
+    { id: "u2", email: "bob@example.com", role: "admin", team: "" },
+  ],
+  teams: [{ id: "t1", title: "Core", members: ["u1"] }],
+  posts: [
+    { id: "p1", title: "Hello", status: "published", tags: ["a", "b"], author: "u1", team: "t1" },
+    { id: "p2", title: "Draft", status: "draft", tags: [], author: "u2", team: "" },
+  ],
+  comments: [{ id: "c1", body: "Nice", post: "p1", author: "u2" }],
+};
+
+const alice = { ...records.users[0], collectionName: "users" };
+const bob = { ...records.users[1], collectionName: "users" };
+
+function allowed(rule: string, request: Partial<AccessRequest> & Pick<AccessRequest, "action">): boolean {
+  const ruleType = `${request.action}Rule` as const;
+  return checkAccess(schemaWithPostRules({ [ruleType]: rule }), records, { collection: "posts", ...request }).allowed;
+}
+
+describe("checkAccess", () => {
+  it("locks null rules to superusers and opens empty ones to everyone", () => {
+    const schema = schemaWithPostRules({ listRule: "", viewRule: null });
+
+    expect(checkAccess(schema, records, { collection: "posts", action: "list" })).toEqual({
+      allowed: true,
+      ruleType: "listRule",
+      rule: "",
+      reasons: ["listRule is empty: everyone is allowed"],
+    });
+    expect(checkAccess(schema, records, { collection: "posts", action: "view", record: "p1", auth: alice })).toEqual({
+      allowed: false,
+      ruleType: "viewRule",
+      rule: null,
+      reasons: ["viewRule is locked: only superusers are allowed"],
+    });
+    expect(
+      checkAccess(schema, records, {
+        collection: "posts",
+        action: "view",
+        record: "p1",
+        auth: { id: "s1", collectionName: "_superusers" },
+      }).allowed
+    ).toBe(true);
+  });
+
+  it("explains a decision with the values each condition compared", () => {
+    const schema = schemaWithPostRules({ updateRule: '@request.auth.id != "" && author = @request.auth.id' });
+
+    expect(checkAccess(schema, records, { collection: "posts", action: "update", record: "p1", auth: bob })).toEqual({
+      allowed: false,
+      ruleType: "updateRule",
+      rule: '@request.auth.id != "" && author = @request.auth.id',
+      reasons: ['author = @request.auth.id is false (author: "u1", @request.auth.id: "u2")'],
+    });
+    expect(
+      checkAccess(schema, records, { collection: "posts", action: "update", record: "p1", auth: null }).reasons
+    ).toEqual([
+      '@request.auth.id != "" is false (@request.auth.id: null)',
+      'author = @request.auth.id is false (author: "u1", @request.auth.id: null)',
+    ]);
+    expect(
+      checkAccess(schema, records, { collection: "posts", action: "update", record: "p1", auth: alice }).allowed
+    ).toBe(true);
+  });
+
+  it("reads the request body with :isset and :changed", () => {
+    const rule = "@request.body.author:isset = false && @request.body.title:changed = false";
+
+    expect(allowed(rule, { action: "update", record: "p1", auth: alice, body: { title: "Hello" } })).toBe(true);
+    expect(allowed(rule, { action: "update", record: "p1", auth: alice, body: { title: "Renamed" } })).toBe(false);
+    expect(allowed(rule, { action: "update", record: "p1", auth: alice, body: { author: "u2" } })).toBe(false);
+    expect(allowed('@request.body.status = "draft"', { action: "create", body: { status: "draft" } })).toBe(true);
+  });
+
+  it("follows relations and back-relations through the sample records", () => {
+    expect(allowed('author.team.title = "Core"', { action: "view", record: "p1" })).toBe(true);
+    expect(allowed('author.team.title = "Core"', { action: "view", record: "p2" })).toBe(false);
+    expect(allowed("team.members ?= @request.auth.id", { action: "view", record: "p1", auth: alice })).toBe(true);
+    expect(allowed("team.members ?= @request.auth.id", { action: "view", record: "p1", auth: bob })).toBe(false);
+    expect(allowed("comments_via_post.author ?= @request.auth.id", { action: "view", record: "p1", auth: bob })).toBe(
+      true
+    );
+    expect(allowed('@request.auth.team.title = "Core"', { action: "list", auth: alice })).toBe(true);
+    expect(
+      allowed("@collection.teams.members ?= @request.auth.id && author = @request.auth.id", {
+        action: "view",
+        record: "p1",
+        auth: alice,
+      })
+    ).toBe(true);
+  });
+
+  it("reads one row of a @collection join across its any-of comparisons", () => {
+    const withComments = { ...records, comments: [...records.comments, { id: "c2", post: "p2", author: "u1" }] };
+    const commented = (rule: string, auth: AccessRequest["auth"]) =>
+      checkAccess(schemaWithPostRules({ viewRule: rule }), withComments, {
+        collection: "posts",
+        action: "view",
+        record: "p2",
+        auth,
+      }).allowed;
+    const sameRow = "@collection.comments.author ?= @request.auth.id && @collection.comments.post ?= id";
+
+    expect(commented(sameRow, alice)).toBe(true);
+    expect(commented(sameRow, bob)).toBe(false);
+    expect(commented(sameRow.replace("comments.post", "comments:other.post"), bob)).toBe(true);
+  });
+
+  it("requires all values to match unless the operator is an any-of one", () => {
+    expect(allowed("tags ?= 'a'", { action: "view", record: "p1" })).toBe(true);
+    expect(allowed("tags = 'a'", { action: "view", record: "p1" })).toBe(false);
+    expect(allowed("tags:each ~ '%'", { action: "view", record: "p1" })).toBe(true);
+    expect(allowed("tags:length > 1", { action: "view", record: "p1" })).toBe(true);
+    expect(allowed("tags:length > 1", { action: "view", record: "p2" })).toBe(false);
+    expect(allowed("title:lower = 'hello'", { action: "view", record: "p1" })).toBe(true);
+  });
+
+  it("takes the method, context and date macros from the request", () => {
+    const now = new Date("2026-03-15T10:30:00.000Z");
+
+    expect(allowed('@request.method = "PATCH"', { action: "update", record: "p1" })).toBe(true);
+    expect(allowed('@request.context = "default"', { action: "list" })).toBe(true);
+    expect(allowed('@request.query.page = "2"', { action: "list", query: { page: "2" } })).toBe(true);
+    expect(allowed("@now > '2026-03-15 10:00:00.000Z' && @month = 3", { action: "list", now })).toBe(true);
+    expect(allowed("@todayEnd < '2026-03-16'", { action: "list", now })).toBe(true);
+  });
+
+  it("checks auth collections' manage rule and keeps view collections read-only", () => {
+    const schema = schemaWithPostRules({});
+
+    expect(
+      checkAccess(schema, records, { collection: "users", action: "manage", record: "u1", auth: bob }).allowed
+    ).toBe(true);
+    expect(
+      checkAccess(schema, records, { collection: "users", action: "manage", record: "u1", auth: alice }).allowed
+    ).toBe(false);
+    expect(checkAccess(schema, records, { collection: "stats", action: "list" }).allowed).toBe(true);
+    expect(checkAccess(schema, records, { collection: "stats", action: "create" })).toMatchObject({
+      allowed: false,
+      reasons: ["View collections are read-only"],
+    });
+  });
+
+  it("throws for unknown collections, records and fields", () => {
+    const schema = schemaWithPostRules({ viewRule: "titel = 'x'", deleteRule: "title:isset = true" });
+
+    expect(() => checkAccess(schema, records, { collection: "pots", action: "list" })).toThrow(AccessCheckError);
+    expect(() => checkAccess(schema, records, { collection: "posts", action: "manage" })).toThrow(AccessCheckError);
+    expect(() => checkAccess(schema, records, { collection: "posts", action: "view", record: "p9" })).toThrow(
+      "Record 'p9' does not exist in the sample 'posts' records"
+    );
+    expect(() => checkAccess(schema, records, { collection: "posts", action: "view", record: "p1" })).toThrow(
+      new ExpressionError("Field 'titel' does not exist in collection 'posts'")
+    );
+    expect(() => checkAccess(schema, records, { collection: "posts", action: "delete", record: "p1" })).toThrow(
+      "Modifier ':isset' only applies to @request.body fields, in 'title:isset'"
+    );
+  });
+});
@@ -4,9 +4,10 @@
  */
 
 import * as fs from "fs";
-import * as os from "os";
 import * as path from "path";
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { describe, expect, it } from "vitest";
+import { createdCollection, useMigrationsDirectory } from "../../__tests__/helpers/migration-history";
+import { openTestDatabase, sqlite } from "../../__tests__/helpers/sqlite";
 import {
   AppliedMigrationsError,
   appliedMigrationsFromList,
@@ -15,7 +16,7 @@ import {
   readAppliedMigrationsIfPresent,
   resolveDatabasePath,
 } from "../applied-migrations";
-import { discoverMigrations, planMigrationReplay } from "../migration-plan";
+import { discoverMigrations, planMigrationReplay, resolveMigrationRef } from "../migration-plan";
 import { replayMigrationsDirectory } from "../replayer";
 
 const SNAPSHOT = `migrate((app) => {
@@ -32,38 +33,10 @@ const SNAPSHOT = `migrate((app) => {
 }, (app) => {});
 `;
 
-function createdCollection(id: string, name: string): string {
-  return `migrate((app) => {
-  const collection = new Collection({
-    id: ${JSON.stringify(id)},
-    name: ${JSON.stringify(name)},
-    type: "base",
-    fields: [{ id: "text_name", name: "name", type: "text" }],
-    indexes: [],
-  });
-  return app.save(collection);
-}, (app) => {
-  const collection = app.findCollectionByNameOrId(${JSON.stringify(name)});
-  return app.delete(collection);
-});
-`;
-}
-
-let workdir: string;
-let migrationsDir: string;
-
-beforeEach(() => {
-  workdir = fs.mkdtempSync(path.join(os.tmpdir(), "pbzs-applied-"));
-  migrationsDir = path.join(workdir, "pb_migrations");
-  fs.mkdirSync(migrationsDir);
-});
-
-afterEach(() => {
-  fs.rmSync(workdir, { recursive: true, force: true });
-});
+const directory = useMigrationsDirectory("pbzs-applied-");
 
 function writeMigration(name: string, source: string): void {
-  fs.writeFileSync(path.join(migrationsDir, name), source, "utf-8");
+  fs.writeFileSync(path.join(directory.migrationsDir, name), source, "utf-8");
 }
 
 function seedDirectory(): void {
@@ -75,10 +48,10 @@ function seedDirectory(): void {
 describe("discoverMigrations", () => {
   it("lists timestamped .js files in timestamp order and flags snapshots", () => {
     seedDirectory();
-    fs.writeFileSync(path.join(migrationsDir, "notes.md"), "ignored", "utf-8");
-    fs.writeFileSync(path.join(migrationsDir, "helper.js"), "// no timestamp", "utf-8");
+    fs.writeFileSync(path.join(directory.migrationsDir, "notes.md"), "ignored", "utf-8");
+    fs.writeFileSync(path.join(directory.migrationsDir, "helper.js"), "// no timestamp", "utf-8");
 
-    const discovered = discoverMigrations(migrationsDir);
+    const discovered = discoverMigrations(directory.migrationsDir);
 
     expect(discovered.map((migration) => migration.name)).toEqual([
       "1700000000_collections_snapshot.js",
@@ -90,7 +63,23 @@ describe("discoverMigrations", () => {
   });
 
   it("returns an empty list for a directory that does not exist", () => {
-    expect(discoverMigrations(path.join(workdir, "nope"))).toEqual([]);
+    expect(discoverMigrations(path.join(directory.workdir, "nope"))).toEqual([]);
+  });
+});
+
+describe("resolveMigrationRef", () => {
+  it("finds a migration by filename, path or timestamp", () => {
+    seedDirectory();
+    const discovered = discoverMigrations(directory.migrationsDir);
+
+    expect(resolveMigrationRef(discovered, "1700000100_created_Authors.js")?.name).toBe(
+      "1700000100_created_Authors.js"
+    );
+    expect(resolveMigrationRef(discovered, path.join("pb_migrations", "1700000200_created_Tags.js"))?.timestamp).toBe(
+      1700000200
+    );
+    expect(resolveMigrationRef(discovered, "1700000100")?.name).toBe("1700000100_created_Authors.js");
+    expect(resolveMigrationRef(discovered, "170000010")).toBeUndefined();
   });
 });
 
@@ -98,7 +87,7 @@ describe("planMigrationReplay without an applied list", () => {
   it("replays the newest snapshot plus everything after it", () => {
     seedDirectory();
 
-    const plan = planMigrationReplay(migrationsDir);
+    const plan = planMigrationReplay(directory.migrationsDir);
 
     expect(plan.appliedKnown).toBe(false);
     expect(plan.inSync).toBe(true);
@@ -114,7 +103,7 @@ describe("planMigrationReplay without an applied list", () => {
     writeMigration("1700000100_collections_snapshot.js", SNAPSHOT);
     writeMigration("1700000200_created_Tags.js", createdCollection("pbc_tags", "tags"));
 
-    const plan = planMigrationReplay(migrationsDir);
+    const plan = planMigrationReplay(directory.migrationsDir);
 
     expect(plan.filesToReplay.map((file) => path.basename(file))).toEqual([
       "1700000100_collections_snapshot.js",
@@ -127,7 +116,7 @@ describe("planMigrationReplay with an applied list", () => {
   it("stops the replay at the applied set and names what is pending", () => {
     seedDirectory();
 
-    const plan = planMigrationReplay(migrationsDir, {
+    const plan = planMigrationReplay(directory.migrationsDir, {
       applied: ["1700000000_collections_snapshot.js", "1700000100_created_Authors.js"],
     });
 
@@ -144,7 +133,7 @@ describe("planMigrationReplay with an applied list", () => {
   it("reports applied migrations that are no longer on disk", () => {
     seedDirectory();
 
-    const plan = planMigrationReplay(migrationsDir, {
+    const plan = planMigrationReplay(directory.migrationsDir, {
       applied: [
         "1700000000_collections_snapshot.js",
         "1700000100_created_Authors.js",
@@ -162,7 +151,7 @@ describe("planMigrationReplay with an applied list", () => {
     seedDirectory();
     writeMigration("1700000150_created_Late.js", createdCollection("pbc_late", "late"));
 
-    const plan = planMigrationReplay(migrationsDir, {
+    const plan = planMigrationReplay(directory.migrationsDir, {
       applied: ["1700000000_collections_snapshot.js", "1700000100_created_Authors.js", "1700000200_created_Tags.js"],
     });
 
@@ -175,7 +164,7 @@ describe("planMigrationReplay with an applied list", () => {
     // A newer snapshot exists on disk but the database never ran it
     writeMigration("1700000300_collections_snapshot.js", SNAPSHOT);
 
-    const plan = planMigrationReplay(migrationsDir, {
+    const plan = planMigrationReplay(directory.migrationsDir, {
       applied: ["1700000000_collections_snapshot.js", "1700000100_created_Authors.js", "1700000200_created_Tags.js"],
     });
 
@@ -183,10 +172,31 @@ describe("planMigrationReplay with an applied list", () => {
     expect(plan.pending).toEqual(["1700000300_collections_snapshot.js"]);
   });
 
+  it("starts from a squash's snapshot that replaced applied files before PocketBase ran it", () => {
+    // The squash replaced everything up to 1700000200 with a snapshot of that name
+    writeMigration("1700000200_collections_snapshot.js", SNAPSHOT);
+    writeMigration("1700000300_created_Notes.js", createdCollection("pbc_notes", "notes"));
+
+    const plan = planMigrationReplay(directory.migrationsDir, {
+      applied: [
+        "1700000000_collections_snapshot.js",
+        "1700000100_created_Authors.js",
+        "1700000200_created_Tags.js",
+        "1700000300_created_Notes.js",
+      ],
+    });
+
+    expect(plan.filesToReplay.map((file) => path.basename(file))).toEqual([
+      "1700000200_collections_snapshot.js",
+      "1700000300_created_Notes.js",
+    ]);
+    expect(plan.pending).toEqual(["1700000200_collections_snapshot.js"]);
+  });
+
   it("is in sync when disk and the applied list match exactly", () => {
     seedDirectory();
 
-    const plan = planMigrationReplay(migrationsDir, {
+    const plan = planMigrationReplay(directory.migrationsDir, {
       applied: ["1700000000_collections_snapshot.js", "1700000100_created_Authors.js", "1700000200_created_Tags.js"],
     });
 
@@ -200,10 +210,10 @@ describe("replayMigrationsDirectory with an applied list", () => {
   it("reconstructs only the state the database actually reached", () => {
     seedDirectory();
 
-    const full = replayMigrationsDirectory(migrationsDir);
+    const full = replayMigrationsDirectory(directory.migrationsDir);
     expect([...(full?.snapshot.collections.keys() ?? [])].sort()).toEqual(["authors", "posts", "tags"]);
 
-    const partial = replayMigrationsDirectory(migrationsDir, {
+    const partial = replayMigrationsDirectory(directory.migrationsDir, {
       applied: ["1700000000_collections_snapshot.js", "1700000100_created_Authors.js"],
     });
 
@@ -213,7 +223,7 @@ describe("replayMigrationsDirectory with an applied list", () => {
 
   it("returns null when nothing has been applied", () => {
     seedDirectory();
-    expect(replayMigrationsDirectory(migrationsDir, { applied: [] })).toBeNull();
+    expect(replayMigrationsDirectory(directory.migrationsDir, { applied: [] })).toBeNull();
   });
 });
 
@@ -236,17 +246,13 @@ describe("defaultDataDirectory", () => {
   });
 });
 
-const sqlite = (process as NodeJS.Process & { getBuiltinModule?: (id: string) => any }).getBuiltinModule?.(
-  "node:sqlite"
-);
-
 describe.skipIf(!sqlite)("readAppliedMigrations", () => {
   function createDatabase(rows: { file: string; applied: number }[]): string {
-    const dataDir = path.join(workdir, "pb_data");
+    const dataDir = path.join(directory.workdir, "pb_data");
     fs.mkdirSync(dataDir, { recursive: true });
     const databasePath = path.join(dataDir, "data.db");
 
-    const database = new sqlite.DatabaseSync(databasePath);
+    const database = openTestDatabase(databasePath);
     database.exec("CREATE TABLE _migrations (file TEXT PRIMARY KEY NOT NULL, applied INTEGER NOT NULL)");
     const insert = database.prepare("INSERT INTO _migrations (file, applied) VALUES (?, ?)");
     for (const row of rows) {
@@ -289,7 +295,7 @@ describe.skipIf(!sqlite)("readAppliedMigrations", () => {
       { file: "1700000100_created_Authors.js", applied: 3 },
     ]);
 
-    const plan = planMigrationReplay(migrationsDir, { applied: readAppliedMigrations(dataDir) });
+    const plan = planMigrationReplay(directory.migrationsDir, { applied: readAppliedMigrations(dataDir) });
 
     expect(plan.appliedCount).toBe(2);
     expect(plan.pending).toEqual(["1700000200_created_Tags.js"]);
@@ -297,9 +303,9 @@ describe.skipIf(!sqlite)("readAppliedMigrations", () => {
   });
 
   it("throws when the database has no _migrations table", () => {
-    const dataDir = path.join(workdir, "pb_data");
+    const dataDir = path.join(directory.workdir, "pb_data");
     fs.mkdirSync(dataDir, { recursive: true });
-    const database = new sqlite.DatabaseSync(path.join(dataDir, "data.db"));
+    const database = openTestDatabase(path.join(dataDir, "data.db"));
     database.exec("CREATE TABLE unrelated (id TEXT)");
     database.close();
 
@@ -307,18 +313,18 @@ describe.skipIf(!sqlite)("readAppliedMigrations", () => {
   });
 
   it("throws for a path with no database", () => {
-    expect(() => readAppliedMigrations(path.join(workdir, "pb_data"))).toThrow(AppliedMigrationsError);
+    expect(() => readAppliedMigrations(path.join(directory.workdir, "pb_data"))).toThrow(AppliedMigrationsError);
   });
 });
 
 describe("readAppliedMigrationsIfPresent", () => {
   it("returns null when there is no database to read", () => {
-    expect(readAppliedMigrationsIfPresent(path.join(workdir, "pb_data"))).toBeNull();
+    expect(readAppliedMigrationsIfPresent(path.join(directory.workdir, "pb_data"))).toBeNull();
   });
 });
 
 describe("resolveDatabasePath", () => {
   it("returns null for a directory without data.db", () => {
-    expect(resolveDatabasePath(migrationsDir)).toBeNull();
+    expect(resolveDatabasePath(directory.migrationsDir)).toBeNull();
   });
 });
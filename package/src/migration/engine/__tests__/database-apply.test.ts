@@ -0,0 +1,203 @@
+/**
+ * Applying migrations to a SQLite database without PocketBase: the plan is
+ * checked here against in-memory database states, and — where node:sqlite
+ * is available — written to a real file and read back.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { openTestDatabase, sqlite } from "../../__tests__/helpers/sqlite";
+import { readAppliedMigrations } from "../applied-migrations";
+import { applyMigrationsToDatabase, planDatabaseApply, type DatabaseState } from "../database-apply";
+import { readDatabaseCollections } from "../database-collections";
+import { POCKETBASE_INIT_MIGRATION } from "../system-collections";
+
+const CREATE_POSTS = `migrate((app) => {
+  const collection = new Collection({
+    id: "pbc_posts",
+    name: "posts",
+    type: "base",
+    fields: [{ id: "text_title", name: "title", type: "text" }],
+    indexes: ["CREATE INDEX \`idx_posts_title\` ON \`posts\` (\`title\`)"],
+  });
+  return app.save(collection);
+});
+`;
+
+const RENAME_AND_SEED = `migrate((app) => {
+  const collection = app.findCollectionByNameOrId("posts");
+  collection.fields.getByName("title").name = "headline";
+  collection.fields.add(new BoolField({ id: "bool_published", name: "published" }));
+  collection.indexes = ["CREATE INDEX \`idx_posts_headline\` ON \`posts\` (\`headline\`)"];
+  app.save(collection);
+
+  const record = new Record(collection);
+  record.set("id", "post00000000002");
+  record.set("headline", "second");
+  record.set("published", true);
+  app.save(record);
+});
+`;
+
+const POSTS = {
+  id: "pbc_posts",
+  name: "posts",
+  type: "base",
+  system: false,
+  fields: [
+    { id: "text3208210256", name: "id", type: "text", primaryKey: true, autogeneratePattern: "[a-z0-9]{15}" },
+    { id: "text_title", name: "title", type: "text" },
+  ],
+  indexes: ["CREATE INDEX `idx_posts_title` ON `posts` (`title`)"],
+  listRule: null,
+  viewRule: null,
+  createRule: null,
+  updateRule: null,
+  deleteRule: null,
+};
+
+let workdir: string;
+let migrationsDir: string;
+
+beforeEach(() => {
+  workdir = fs.mkdtempSync(path.join(os.tmpdir(), "pbzs-apply-"));
+  migrationsDir = path.join(workdir, "pb_migrations");
+  fs.mkdirSync(migrationsDir);
+  fs.writeFileSync(path.join(migrationsDir, "1700000100_created_posts.js"), CREATE_POSTS);
+});
+
+afterEach(() => {
+  fs.rmSync(workdir, { recursive: true, force: true });
+});
+
+function sqlOf(state: DatabaseState | null): string[] {
+  return planDatabaseApply(migrationsDir, state).statements.map((statement) => statement.sql);
+}
+
+describe("planDatabaseApply", () => {
+  it("creates a new database the way PocketBase's init migration does, then applies every file", () => {
+    const plan = planDatabaseApply(migrationsDir, null);
+    const sql = plan.statements.map((statement) => statement.sql);
+
+    expect(plan.created).toBe(true);
+    expect(plan.applied).toEqual(["1700000100_created_posts.js"]);
+    expect(sql.filter((statement) => statement.startsWith("CREATE TABLE")).map((s) => /`([^`]+)`/.exec(s)![1])).toEqual(
+      [
+        "_params",
+        "_collections",
+        "_migrations",
+        "_mfas",
+        "_otps",
+        "_authOrigins",
+        "_externalAuths",
+        "_superusers",
+        "users",
+        "posts",
+      ]
+    );
+    expect(sql).toContain("CREATE INDEX `idx_posts_title` ON `posts` (`title`)");
+    expect(sql).toContain("CREATE UNIQUE INDEX `idx_tokenKey__pb_users_auth_` ON `users` (`tokenKey`)");
+
+    const migrations = plan.statements.filter((statement) => statement.sql.startsWith("INSERT INTO `_migrations`"));
+    expect(migrations.map((statement) => statement.params[0])).toEqual([
+      POCKETBASE_INIT_MIGRATION,
+      "1700000100_created_posts.js",
+    ]);
+  });
+
+  it("gives the collections what PocketBase adds on save: the id field and auth secrets", () => {
+    const plan = planDatabaseApply(migrationsDir, null);
+    const collectionRows = plan.statements
+      .filter((statement) => statement.sql.startsWith("INSERT INTO `_collections`"))
+      .map((statement) => statement.params);
+
+    const posts = collectionRows.find((params) => params[3] === "posts")!;
+    expect(JSON.parse(String(posts[4]))[0]).toMatchObject({ name: "id", primaryKey: true });
+
+    const users = collectionRows.find((params) => params[3] === "users")!;
+    const options = JSON.parse(String(users[11]));
+    expect(options.authToken.secret).toMatch(/^[A-Za-z0-9]{50}$/);
+    expect(options.verificationTemplate.body).toContain("{TOKEN}");
+  });
+
+  it("applies only pending files, carrying the stored rows through renames", () => {
+    fs.writeFileSync(path.join(migrationsDir, "1700000200_updated_posts.js"), RENAME_AND_SEED);
+    const state: DatabaseState = {
+      collections: [POSTS],
+      rows: new Map([["pbc_posts", [{ id: "post00000000001", title: "first" }]]]),
+      applied: [POCKETBASE_INIT_MIGRATION, "1700000100_created_posts.js"],
+    };
+
+    const plan = planDatabaseApply(migrationsDir, state);
+
+    expect(plan.created).toBe(false);
+    expect(plan.applied).toEqual(["1700000200_updated_posts.js"]);
+    expect(sqlOf(state)).toEqual([
+      "DROP INDEX IF EXISTS `idx_posts_title`",
+      "ALTER TABLE `posts` RENAME COLUMN `title` TO `headline`",
+      "ALTER TABLE `posts` ADD COLUMN `published` BOOLEAN DEFAULT FALSE NOT NULL",
+      "CREATE INDEX `idx_posts_headline` ON `posts` (`headline`)",
+      "UPDATE `_collections` SET `fields` = ?, `indexes` = ?, `updated` = ? WHERE `id` = ?",
+      "INSERT INTO `posts` (`id`, `headline`, `published`) VALUES (?, ?, ?)",
+      "INSERT INTO `_migrations` (`file`, `applied`) VALUES (?, ?)",
+    ]);
+    const insert = plan.statements.find((statement) => statement.sql.startsWith("INSERT INTO `posts`"))!;
+    expect(insert.params).toEqual(["post00000000002", "second", 1]);
+  });
+
+  it("does not store a password set in plain text", () => {
+    fs.writeFileSync(
+      path.join(migrationsDir, "1700000200_seeded_users.js"),
+      `migrate((app) => {
+  const record = new Record(app.findCollectionByNameOrId("users"));
+  record.set("email", "test@example.com");
+  record.setPassword("secret123");
+  app.save(record);
+});
+`
+    );
+
+    const plan = planDatabaseApply(migrationsDir, null);
+    const insert = plan.statements.find((statement) => statement.sql.startsWith("INSERT INTO `users`"))!;
+    const columns = /\(([^)]*)\) VALUES/.exec(insert.sql)![1].split(", ");
+
+    expect(insert.params[columns.indexOf("`password`")]).toBe("");
+    expect(insert.params[columns.indexOf("`tokenKey`")]).toMatch(/^[a-zA-Z0-9]{50}$/);
+    expect(plan.notes).toEqual([expect.stringContaining("users/")]);
+  });
+});
+
+describe("applyMigrationsToDatabase", () => {
+  it("plans a dry run for a database that does not exist without creating it", () => {
+    const result = applyMigrationsToDatabase(migrationsDir, path.join(workdir, "pb_data"), { dryRun: true });
+
+    expect(result.created).toBe(true);
+    expect(result.database).toBe(path.join(workdir, "pb_data", "data.db"));
+    expect(fs.existsSync(path.join(workdir, "pb_data"))).toBe(false);
+  });
+
+  it.skipIf(!sqlite)("writes a database PocketBase's own tables read back, and applies each file once", () => {
+    const dataDir = path.join(workdir, "pb_data");
+    applyMigrationsToDatabase(migrationsDir, dataDir);
+    fs.writeFileSync(path.join(migrationsDir, "1700000200_updated_posts.js"), RENAME_AND_SEED);
+    const second = applyMigrationsToDatabase(migrationsDir, dataDir);
+
+    expect(second.applied).toEqual(["1700000200_updated_posts.js"]);
+    expect(applyMigrationsToDatabase(migrationsDir, dataDir).applied).toEqual([]);
+    expect(readAppliedMigrations(dataDir).entries.map((entry) => entry.file)).toEqual([
+      "1700000100_created_posts.js",
+      "1700000200_updated_posts.js",
+    ]);
+
+    const posts = readDatabaseCollections(dataDir).collections.find((collection) => collection.name === "posts")!;
+    expect(posts.fields.map((field: { name: string }) => field.name)).toEqual(["id", "headline", "published"]);
+
+    const database = openTestDatabase(path.join(dataDir, "data.db"));
+    expect(database.prepare("SELECT id, headline, published FROM posts").all()).toEqual([
+      { id: "post00000000002", headline: "second", published: 1 },
+    ]);
+    database.close();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * `_collections` awareness: reading the collections PocketBase has stored,
+ * in the shape the rest of the engine consumes.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { openTestDatabase, sqlite } from "../../__tests__/helpers/sqlite";
+import { DatabaseCollectionsError, readDatabaseCollections, rowToRawCollection } from "../database-collections";
+
+const POSTS_ROW = {
+  id: "pbc_posts",
+  name: "posts",
+  type: "base",
+  system: 0,
+  fields: JSON.stringify([{ id: "text_title", name: "title", type: "text", max: 200 }]),
+  indexes: JSON.stringify(["CREATE INDEX `idx_posts_title` ON `posts` (`title`)"]),
+  listRule: "",
+  viewRule: null,
+  createRule: "@request.auth.id != ''",
+  updateRule: null,
+  deleteRule: null,
+  options: "{}",
+  created: "2025-01-01 00:00:00.000Z",
+  updated: "2025-01-01 00:00:00.000Z",
+};
+
+describe("rowToRawCollection", () => {
+  it("parses the JSON columns and keeps the rules as stored", () => {
+    const collection = rowToRawCollection(POSTS_ROW);
+
+    expect(collection).toMatchObject({
+      id: "pbc_posts",
+      name: "posts",
+      type: "base",
+      system: false,
+      fields: [{ name: "title", type: "text", max: 200 }],
+      indexes: ["CREATE INDEX `idx_posts_title` ON `posts` (`title`)"],
+      listRule: "",
+      viewRule: null,
+      createRule: "@request.auth.id != ''",
+    });
+  });
+
+  it("flattens type-specific options onto the collection", () => {
+    const collection = rowToRawCollection({
+      ...POSTS_ROW,
+      id: "pbc_stats",
+      name: "stats",
+      type: "view",
+      options: JSON.stringify({ viewQuery: "SELECT id FROM posts" }),
+    });
+
+    expect(collection.viewQuery).toBe("SELECT id FROM posts");
+    expect(collection).not.toHaveProperty("options");
+  });
+
+  it("reports malformed JSON with the collection it belongs to", () => {
+    expect(() => rowToRawCollection({ ...POSTS_ROW, fields: "[{" })).toThrow(/"posts".*_collections\.fields/);
+  });
+});
+
+describe("readDatabaseCollections", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "pbzs-collections-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("fails clearly when there is no database", () => {
+    expect(() => readDatabaseCollections(dataDir)).toThrow(DatabaseCollectionsError);
+  });
+
+  it.skipIf(!sqlite)("reads every row of _collections", () => {
+    const database = openTestDatabase(path.join(dataDir, "data.db"));
+    database.exec(`CREATE TABLE _collections (
+      id TEXT PRIMARY KEY, system BOOLEAN, type TEXT, name TEXT, fields JSON, indexes JSON,
+      listRule TEXT, viewRule TEXT, createRule TEXT, updateRule TEXT, deleteRule TEXT,
+      options JSON, created TEXT, updated TEXT
+    )`);
+    const insert = database.prepare(
+      `INSERT INTO _collections VALUES (:id, :system, :type, :name, :fields, :indexes,
+        :listRule, :viewRule, :createRule, :updateRule, :deleteRule, :options, :created, :updated)`
+    );
+    insert.run(POSTS_ROW);
+    insert.run({ ...POSTS_ROW, id: "pbc_superusers", name: "_superusers", type: "auth", system: 1 });
+    database.close();
+
+    const source = readDatabaseCollections(dataDir);
+
+    expect(source.origin).toBe(path.join(dataDir, "data.db"));
+    expect(source.collections.map((collection) => [collection.name, collection.system])).toEqual([
+      ["_superusers", true],
+      ["posts", false],
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for drift detection: a replayed state against the collections a
+ * database holds, and the reconcile migration generated from the drift
+ *
+ * The database side is given as raw `_collections` rows, so no SQLite file
+ * is needed; the reconcile migration is executed against the replayed state
+ * and must land it on the database's, and back.
+ */
+
+import { describe, expect, it } from "vitest";
+import { planReconcileMigration } from "../../generator/index";
+import { Collection } from "../collection";
+import { diffDatabaseCollections } from "../drift";
+import { lintMigrationSource } from "../goja-lint";
+import { executeMigrationDownSource, executeMigrationSource } from "../runner";
+import { compareStores } from "../state-compare";
+import { CollectionStore } from "../store";
+import type { RawCollection } from "../types";
+
+function storeOf(...collections: RawCollection[]): CollectionStore {
+  const store = new CollectionStore();
+  for (const raw of collections) {
+    store.upsert(new Collection(structuredClone(raw)));
+  }
+  return store;
+}
+
+const POSTS: RawCollection = {
+  id: "pbc_posts",
+  name: "posts",
+  type: "base",
+  listRule: "",
+  fields: [
+    { id: "text_title", name: "title", type: "text", required: true },
+    { id: "text_body", name: "body", type: "text" },
+  ],
+  indexes: [],
+};
+
+const TAGS: RawCollection = {
+  id: "pbc_tags",
+  name: "tags",
+  type: "base",
+  fields: [{ id: "text_label", name: "label", type: "text" }],
+  indexes: [],
+};
+
+const SUPERUSERS: RawCollection = {
+  id: "pbc_3142635823",
+  name: "_superusers",
+  type: "auth",
+  system: true,
+  fields: [{ id: "email3885137012", name: "email", type: "email", system: true }],
+  indexes: [],
+};
+
+const USERS: RawCollection = {
+  id: "_pb_users_auth_",
+  name: "users",
+  type: "auth",
+  fields: [{ id: "email3885137012", name: "email", type: "email", system: true }],
+  indexes: [],
+};
+
+/** POSTS as edited in the admin UI: a rule tightened and a field added */
+const EDITED_POSTS: RawCollection = {
+  ...POSTS,
+  listRule: "@request.auth.id != ''",
+  fields: [...POSTS.fields, { id: "bool_pinned", name: "pinned", type: "bool" }],
+};
+
+describe("diffDatabaseCollections", () => {
+  it("reports nothing when the database holds what the migrations describe", () => {
+    const database = [SUPERUSERS, USERS, POSTS, TAGS];
+
+    expect(diffDatabaseCollections(storeOf(POSTS, TAGS), database)).toEqual([]);
+  });
+
+  it("groups differences per collection", () => {
+    const drift = diffDatabaseCollections(storeOf(POSTS, TAGS), [EDITED_POSTS]);
+
+    expect(drift.map((entry) => [entry.collection, entry.expected?.id ?? null, entry.actual?.id ?? null])).toEqual([
+      ["tags", "pbc_tags", null],
+      ["posts", "pbc_posts", "pbc_posts"],
+    ]);
+    expect(drift[1].differences.map((difference) => difference.kind).sort()).toEqual([
+      "collection-property",
+      "field-added",
+    ]);
+    expect(drift[1].differences[0].message).toMatch(/database/);
+  });
+
+  it("reports a collection created outside the migrations under its database name", () => {
+    const renamed = { ...TAGS, name: "labels" };
+    const drift = diffDatabaseCollections(storeOf(POSTS, TAGS), [
+      POSTS,
+      renamed,
+      { ...TAGS, id: "pbc_new", name: "notes" },
+    ]);
+
+    expect(drift.map((entry) => entry.collection)).toEqual(["notes", "labels"]);
+    expect(drift[0].expected).toBeNull();
+    expect(drift[1].differences[0].property).toBe("name");
+  });
+
+  it("compares system collections and the default users collection only when asked", () => {
+    expect(diffDatabaseCollections(storeOf(POSTS), [SUPERUSERS, USERS, POSTS])).toEqual([]);
+
+    const drift = diffDatabaseCollections(storeOf(POSTS), [SUPERUSERS, USERS, POSTS], { includeSystem: true });
+    expect(drift.map((entry) => entry.collection)).toEqual(["_superusers", "users"]);
+
+    // Once a migration defines it, the users collection is compared like any other
+    const editedUsers = { ...USERS, fields: [...USERS.fields, { id: "text_name", name: "name", type: "text" }] };
+    expect(diffDatabaseCollections(storeOf(POSTS, USERS), [POSTS, editedUsers]).map((e) => e.collection)).toEqual([
+      "users",
+    ]);
+  });
+});
+
+describe("planReconcileMigration", () => {
+  it("returns null without drift", () => {
+    expect(planReconcileMigration([], "/tmp/pb_migrations")).toBeNull();
+  });
+
+  it("writes a migration whose up() reaches the database's state and down() the migrations'", () => {
+    const notes: RawCollection = { ...TAGS, id: "pbc_notes", name: "notes" };
+    const database = [EDITED_POSTS, notes];
+    const drift = diffDatabaseCollections(storeOf(POSTS, TAGS), database);
+
+    const planned = planReconcileMigration(drift, {
+      migrationDir: "/tmp/pb_migrations",
+      timestampGenerator: () => "1800000000",
+    });
+    expect(planned?.filename).toBe("1800000000_reconciled_drift.js");
+    expect(lintMigrationSource(planned!.content).ok).toBe(true);
+
+    const store = storeOf(POSTS, TAGS);
+    executeMigrationSource(planned!.content, store, { strictness: "strict" });
+    expect(compareStores(store, storeOf(...database))).toEqual([]);
+    expect(diffDatabaseCollections(store, database)).toEqual([]);
+
+    executeMigrationDownSource(planned!.content, store, { strictness: "strict" });
+    expect(compareStores(store, storeOf(POSTS, TAGS))).toEqual([]);
+  });
+});
@@ -271,6 +271,58 @@ describe("record operations inside a migration", () => {
   });
 });
 
+describe("columns follow the schema", () => {
+  it("drops a removed field's values and moves a renamed field's values", () => {
+    const store = storeWithPosts();
+    seed(store, [{ id: "r1", title: "one", status: "draft", views: 3 }]);
+
+    run(
+      store,
+      `const posts = app.findCollectionByNameOrId("posts");
+       posts.fields.removeByName("status");
+       posts.fields.getByName("views").name = "hits";
+       app.save(posts);`
+    );
+
+    expect(rows(store)[0]).toMatchObject({ title: "one", hits: 3 });
+    expect(rows(store)[0]).not.toHaveProperty("status");
+    expect(rows(store)[0]).not.toHaveProperty("views");
+  });
+
+  it("normalizes stored values when a field switches between single and multiple", () => {
+    const store = storeWithPosts();
+    store.upsert(
+      new Collection({
+        ...store.getByNameOrId("posts")!,
+        fields: [
+          ...store.getByNameOrId("posts")!.fields,
+          { id: "relation_tags", name: "tags", type: "relation", collectionId: "pbc_tags", maxSelect: 1 },
+        ],
+      })
+    );
+    seed(store, [
+      { id: "r1", tags: "t1" },
+      { id: "r2", tags: "" },
+    ]);
+
+    run(
+      store,
+      `const posts = app.findCollectionByNameOrId("posts");
+       posts.fields.getByName("tags").maxSelect = 5;
+       app.save(posts);`
+    );
+    expect(rows(store).map((row) => row.tags)).toEqual([["t1"], []]);
+
+    run(
+      store,
+      `const posts = app.findCollectionByNameOrId("posts");
+       posts.fields.getByName("tags").maxSelect = 1;
+       app.save(posts);`
+    );
+    expect(rows(store).map((row) => row.tags)).toEqual(["t1", ""]);
+  });
+});
+
 describe("app.db() DML", () => {
   it("updates rows matching a bound WHERE clause", () => {
     const store = storeWithPosts();
@@ -0,0 +1,124 @@
+/**
+ * PocketBase's on-disk format: column types, the DDL that follows a
+ * collection from one version to the next, and records as rows.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  columnType,
+  createCollectionStatements,
+  fromColumnValue,
+  schemaChangeStatements,
+  toColumnValue,
+} from "../sqlite-schema";
+
+const ID_FIELD = { id: "text3208210256", name: "id", type: "text", primaryKey: true };
+
+function posts(fields: Record<string, unknown>[], extra: Record<string, unknown> = {}) {
+  return { id: "pbc_posts", name: "posts", type: "base", fields: [ID_FIELD, ...fields], indexes: [], ...extra };
+}
+
+describe("columnType", () => {
+  it("declares columns the way PocketBase does", () => {
+    expect(columnType(ID_FIELD)).toBe("TEXT PRIMARY KEY DEFAULT ('r'||lower(hex(randomblob(7)))) NOT NULL");
+    expect(columnType({ type: "number" })).toBe("NUMERIC DEFAULT 0 NOT NULL");
+    expect(columnType({ type: "bool" })).toBe("BOOLEAN DEFAULT FALSE NOT NULL");
+    expect(columnType({ type: "json" })).toBe("JSON DEFAULT NULL");
+    expect(columnType({ type: "relation", maxSelect: 1 })).toBe("TEXT DEFAULT '' NOT NULL");
+    expect(columnType({ type: "relation", maxSelect: 5 })).toBe("JSON DEFAULT '[]' NOT NULL");
+  });
+});
+
+describe("createCollectionStatements", () => {
+  it("creates a table with its indexes, or a view", () => {
+    const index = "CREATE INDEX `idx_posts_title` ON `posts` (`title`)";
+    expect(
+      createCollectionStatements(posts([{ id: "text_title", name: "title", type: "text" }], { indexes: [index] }))
+    ).toEqual([
+      "CREATE TABLE `posts` (`id` TEXT PRIMARY KEY DEFAULT ('r'||lower(hex(randomblob(7)))) NOT NULL, " +
+        "`title` TEXT DEFAULT '' NOT NULL)",
+      index,
+    ]);
+    expect(createCollectionStatements({ name: "stats", type: "view", viewQuery: "SELECT id FROM posts" })).toEqual([
+      "CREATE VIEW `stats` AS SELECT id FROM posts",
+    ]);
+  });
+});
+
+describe("schemaChangeStatements", () => {
+  it("follows columns by field id: renames keep data, removals drop the column", () => {
+    const before = posts([
+      { id: "text_title", name: "title", type: "text" },
+      { id: "text_legacy", name: "legacy", type: "text" },
+    ]);
+    const after = posts([
+      { id: "text_title", name: "headline", type: "text" },
+      { id: "number_views", name: "views", type: "number" },
+    ]);
+
+    expect(schemaChangeStatements([before], [after])).toEqual([
+      "ALTER TABLE `posts` DROP COLUMN `legacy`",
+      "ALTER TABLE `posts` RENAME COLUMN `title` TO `headline`",
+      "ALTER TABLE `posts` ADD COLUMN `views` NUMERIC DEFAULT 0 NOT NULL",
+    ]);
+  });
+
+  it("rebuilds a column whose maxSelect crosses 1", () => {
+    const before = posts([{ id: "relation_tags", name: "tags", type: "relation", maxSelect: 1 }]);
+    const after = posts([{ id: "relation_tags", name: "tags", type: "relation", maxSelect: 3 }]);
+
+    const statements = schemaChangeStatements([before], [after]);
+    expect(statements[0]).toBe("ALTER TABLE `posts` ADD COLUMN `tags__pbzs_tmp` JSON DEFAULT '[]' NOT NULL");
+    expect(statements[1]).toContain("json_array(`tags`)");
+    expect(statements.slice(2)).toEqual([
+      "ALTER TABLE `posts` DROP COLUMN `tags`",
+      "ALTER TABLE `posts` RENAME COLUMN `tags__pbzs_tmp` TO `tags`",
+    ]);
+  });
+
+  it("recreates the indexes of a changed table and leaves unchanged tables alone", () => {
+    const index = "CREATE UNIQUE INDEX `idx_posts_title` ON `posts` (`title`)";
+    const before = posts([{ id: "text_title", name: "title", type: "text" }], { indexes: [index] });
+    const renamed = { ...before, name: "articles", indexes: [index.replace("`posts`", "`articles`")] };
+
+    expect(schemaChangeStatements([before], [before])).toEqual([]);
+    expect(schemaChangeStatements([before], [renamed])).toEqual([
+      "DROP INDEX IF EXISTS `idx_posts_title`",
+      "ALTER TABLE `posts` RENAME TO `articles`",
+      "CREATE UNIQUE INDEX `idx_posts_title` ON `articles` (`title`)",
+    ]);
+  });
+
+  it("drops views first and creates them last, around the table changes", () => {
+    const view = { id: "pbc_stats", name: "stats", type: "view", viewQuery: "SELECT id FROM posts" };
+    const before = posts([{ id: "text_title", name: "title", type: "text" }]);
+    const after = posts([]);
+
+    expect(schemaChangeStatements([before, view], [after, view])).toEqual([
+      "DROP VIEW IF EXISTS `stats`",
+      "ALTER TABLE `posts` DROP COLUMN `title`",
+      "CREATE VIEW `stats` AS SELECT id FROM posts",
+    ]);
+    expect(schemaChangeStatements([before], [])).toEqual(["DROP TABLE IF EXISTS `posts`"]);
+  });
+});
+
+describe("column values", () => {
+  it("stores record values as PocketBase's columns hold them, and reads them back", () => {
+    const cases: Array<[Record<string, unknown>, unknown, unknown]> = [
+      [{ type: "bool" }, true, 1],
+      [{ type: "number" }, "12.5", 12.5],
+      [{ type: "json" }, { a: [1] }, '{"a":[1]}'],
+      [{ type: "select", maxSelect: 3 }, "draft", '["draft"]'],
+      [{ type: "select", maxSelect: 1 }, ["a", "b"], "b"],
+      [{ type: "text" }, null, ""],
+    ];
+    for (const [field, value, stored] of cases) {
+      expect(toColumnValue(field, value)).toEqual(stored);
+    }
+
+    expect(fromColumnValue({ type: "bool" }, 1)).toBe(true);
+    expect(fromColumnValue({ type: "relation", maxSelect: 2 }, '["a","b"]')).toEqual(["a", "b"]);
+    expect(fromColumnValue({ type: "json" }, null)).toBeNull();
+  });
+});
@@ -0,0 +1,694 @@
+/**
+ * Access simulation — API rules evaluated against sample requests
+ *
+ * Answers "can this auth record, sending this body, list/view/create/update/
+ * delete this record?" without a server, so access rules can be unit-tested.
+ * A rule is parsed with the same grammar as `$dbx` conditions and evaluated
+ * the way PocketBase evaluates it:
+ *
+ * - fields read the record acted on; relations and back-relations
+ *   (`<collection>_via_<field>`) are followed through the sample records
+ * - `@request.auth.*` reads the auth record (empty for a guest), following
+ *   relations the same way; `@request.body.*` reads the submitted body
+ * - `:isset`, `:changed`, `:length`, `:each` and `:lower` modifiers
+ * - a comparison on several values must hold for all of them; its `?`
+ *   form for any of them
+ * - `?` comparisons on the same `@collection` join read one row of it, as
+ *   PocketBase's join does; `@collection.<name>:<alias>` is a join of its own
+ * - both sides of `=`/`!=`/`~` treat a missing value as `""`, as
+ *   PocketBase's COALESCE does
+ *
+ * Superusers bypass every rule; a `null` rule allows only them, and an
+ * empty rule allows everyone.
+ */
+
+import type { APIRuleType } from "../../utils/permissions";
+import type { CollectionSchema, FieldDefinition, SchemaDefinition } from "../types";
+import {
+  compareValues,
+  ExpressionError,
+  looseEquals,
+  matchesLike,
+  parseCondition,
+  type Condition,
+  type Operand,
+} from "./expression";
+
+export type AccessAction = "list" | "view" | "create" | "update" | "delete" | "manage";
+
+/** A sample record; relations hold record ids, as PocketBase stores them */
+export type SimulatedRecord = { id: string; [field: string]: unknown };
+
+/** Sample records keyed by collection name, for relations to resolve against */
+export type SimulatedRecords = Record<string, SimulatedRecord[]>;
+
+export interface AccessRequest {
+  collection: string;
+  action: AccessAction;
+  /**
+   * The record acted on, or its id in the sample records. For create, the
+   * record as it would be created, with the body applied over it.
+   */
+  record?: SimulatedRecord | string;
+  /**
+   * The authenticated record, or null/undefined for a guest. Its
+   * `collectionName` picks the auth collection (`_superusers` bypasses every
+   * rule); without one, the schema's first auth collection is assumed.
+   */
+  auth?: (SimulatedRecord & { collectionName?: string }) | null;
+  body?: Record<string, unknown>;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  /** Defaults to the method of the action's API request */
+  method?: string;
+  /** Defaults to "default" */
+  context?: string;
+  /** The time `@now` and the other date macros are taken from */
+  now?: Date;
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  ruleType: APIRuleType;
+  /** The rule evaluated: null when locked to superusers, "" when public */
+  rule: string | null;
+  /** Why the decision went the way it did, one condition per entry */
+  reasons: string[];
+}
+
+/**
+ * Raised when a request names a collection or record the simulation does
+ * not have
+ */
+export class AccessCheckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AccessCheckError";
+    Object.setPrototypeOf(this, AccessCheckError.prototype);
+  }
+}
+
+const SUPERUSERS_COLLECTION = "_superusers";
+
+const ACTION_METHODS: Record<AccessAction, string> = {
+  list: "GET",
+  view: "GET",
+  create: "POST",
+  update: "PATCH",
+  delete: "DELETE",
+  manage: "PATCH",
+};
+
+const SYSTEM_FIELDS: Record<string, FieldDefinition["type"]> = {
+  id: "text",
+  created: "autodate",
+  updated: "autodate",
+  collectionId: "text",
+  collectionName: "text",
+};
+
+const AUTH_SYSTEM_FIELDS: Record<string, FieldDefinition["type"]> = {
+  email: "email",
+  emailVisibility: "bool",
+  verified: "bool",
+  tokenKey: "text",
+  password: "password",
+};
+
+/** Auth fields a request body can carry beyond the collection's own */
+const AUTH_BODY_FIELDS = [...Object.keys(AUTH_SYSTEM_FIELDS), "passwordConfirm", "oldPassword"];
+
+const BACK_RELATION_SEGMENT = /^([a-zA-Z_][a-zA-Z0-9_]*)_via_([a-zA-Z_][a-zA-Z0-9_]*)$/;
+
+/** An operand's values; a comparison holds for all of them, or any with `?` */
+interface Values {
+  values: unknown[];
+  multiple: boolean;
+}
+
+interface Outcome {
+  result: boolean;
+  reasons: string[];
+}
+
+type Comparison = Extract<Condition, { kind: "compare" | "like" }>;
+
+function isMultipleField(field: FieldDefinition): boolean {
+  if (field.type === "relation") {
+    return (field.relation?.maxSelect ?? 1) > 1;
+  }
+  if (field.type === "select" || field.type === "file") {
+    return (field.options?.maxSelect ?? 1) > 1;
+  }
+  return false;
+}
+
+/** The values of a multi-value field; an empty one holds none */
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) {
+    return value.filter((item) => item !== "" && item !== null && item !== undefined);
+  }
+  return value === "" || value === null || value === undefined ? [] : [value];
+}
+
+/** PocketBase's datetime format: "2006-01-02 15:04:05.000Z" */
+function formatDate(date: Date): string {
+  return date.toISOString().replace("T", " ");
+}
+
+function dateMacro(name: string, now: Date): string | undefined {
+  const day = 24 * 60 * 60 * 1000;
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const date = now.getUTCDate();
+
+  switch (name) {
+    case "@now":
+      return formatDate(now);
+    case "@yesterday":
+      return formatDate(new Date(now.getTime() - day));
+    case "@tomorrow":
+      return formatDate(new Date(now.getTime() + day));
+    case "@todayStart":
+      return formatDate(new Date(Date.UTC(year, month, date)));
+    case "@todayEnd":
+      return formatDate(new Date(Date.UTC(year, month, date + 1) - 1));
+    case "@monthStart":
+      return formatDate(new Date(Date.UTC(year, month, 1)));
+    case "@monthEnd":
+      return formatDate(new Date(Date.UTC(year, month + 1, 1) - 1));
+    case "@yearStart":
+      return formatDate(new Date(Date.UTC(year, 0, 1)));
+    case "@yearEnd":
+      return formatDate(new Date(Date.UTC(year + 1, 0, 1) - 1));
+    default:
+      return undefined;
+  }
+}
+
+function numberMacro(name: string, now: Date): number | undefined {
+  switch (name) {
+    case "@second":
+      return now.getUTCSeconds();
+    case "@minute":
+      return now.getUTCMinutes();
+    case "@hour":
+      return now.getUTCHours();
+    case "@weekday":
+      return now.getUTCDay();
+    case "@day":
+      return now.getUTCDate();
+    case "@month":
+      return now.getUTCMonth() + 1;
+    case "@year":
+      return now.getUTCFullYear();
+    default:
+      return undefined;
+  }
+}
+
+function formatOperand(operand: Operand): string {
+  switch (operand.kind) {
+    case "field":
+      return operand.name;
+    case "value":
+      return JSON.stringify(operand.value);
+    case "param":
+      return `{:${operand.name}}`;
+  }
+}
+
+/**
+ * The `@collection` joins (`<name>` or `<name>:<alias>`) any-of comparisons
+ * read, which PocketBase resolves against one joined row
+ */
+function anyOfJoins(condition: Condition, joins: Set<string> = new Set()): Set<string> {
+  switch (condition.kind) {
+    case "and":
+    case "or":
+      condition.operands.forEach((operand) => anyOfJoins(operand, joins));
+      break;
+    case "not":
+      anyOfJoins(condition.operand, joins);
+      break;
+    case "compare":
+    case "like":
+      if (condition.any) {
+        for (const operand of [condition.left, condition.kind === "like" ? condition.pattern : condition.right]) {
+          if (operand.kind === "field" && operand.name.startsWith("@collection.")) {
+            joins.add(operand.name.split(".")[1]);
+          }
+        }
+      }
+      break;
+  }
+  return joins;
+}
+
+/** Every way of picking one item from each list */
+function combinations<T>(lists: T[][]): T[][] {
+  return lists.reduce<T[][]>((picks, list) => picks.flatMap((pick) => list.map((item) => [...pick, item])), [[]]);
+}
+
+function formatValues(values: Values): string {
+  if (values.multiple) {
+    return JSON.stringify(values.values);
+  }
+  return JSON.stringify(values.values[0] ?? null);
+}
+
+/**
+ * Evaluates one rule for one request
+ */
+class AccessEvaluator {
+  private readonly now: Date;
+  private readonly body: Record<string, unknown>;
+  /** The row each `@collection` join is bound to; null for a join without rows */
+  private readonly joinedRows = new Map<string, SimulatedRecord | null>();
+
+  constructor(
+    private readonly schema: SchemaDefinition,
+    private readonly records: SimulatedRecords,
+    private readonly request: AccessRequest,
+    private readonly collection: CollectionSchema,
+    private readonly target: SimulatedRecord,
+    private readonly auth: (SimulatedRecord & { collectionName?: string }) | null
+  ) {
+    this.now = request.now ?? new Date();
+    this.body = request.body ?? {};
+  }
+
+  /**
+   * Evaluates a rule once per combination of the rows its `@collection`
+   * joins can take; it holds when any combination makes it hold
+   */
+  evaluate(condition: Condition): Outcome {
+    const joins = [...anyOfJoins(condition)];
+    const rows = joins.map((join) => {
+      const joinRecords = this.records[join.split(":")[0]] ?? [];
+      return joinRecords.length > 0 ? joinRecords : [null];
+    });
+
+    let failed: Outcome | undefined;
+    for (const combination of combinations(rows)) {
+      joins.forEach((join, index) => this.joinedRows.set(join, combination[index]));
+      const outcome = this.explain(condition);
+      if (outcome.result) {
+        return outcome;
+      }
+      failed ??= outcome;
+    }
+    return failed!;
+  }
+
+  private explain(condition: Condition): Outcome {
+    switch (condition.kind) {
+      case "literal":
+        return { result: condition.value, reasons: [] };
+      case "and": {
+        const outcomes = condition.operands.map((operand) => this.explain(operand));
+        const failed = outcomes.filter((outcome) => !outcome.result);
+        return failed.length === 0
+          ? { result: true, reasons: outcomes.flatMap((outcome) => outcome.reasons) }
+          : { result: false, reasons: failed.flatMap((outcome) => outcome.reasons) };
+      }
+      case "or": {
+        const outcomes = condition.operands.map((operand) => this.explain(operand));
+        const passed = outcomes.find((outcome) => outcome.result);
+        return passed
+          ? { result: true, reasons: passed.reasons }
+          : { result: false, reasons: outcomes.flatMap((outcome) => outcome.reasons) };
+      }
+      case "compare":
+      case "like":
+        return this.explainComparison(condition);
+      default:
+        throw new ExpressionError(`${condition.kind.toUpperCase()} is SQL, not API rule syntax`);
+    }
+  }
+
+  private explainComparison(condition: Comparison): Outcome {
+    const rightOperand = condition.kind === "like" ? condition.pattern : condition.right;
+    const left = this.resolve(condition.left, condition.any ?? false);
+    const right = this.resolve(rightOperand, condition.any ?? false);
+
+    const test = (a: unknown, b: unknown): boolean => {
+      if (condition.kind === "like") {
+        const matches = matchesLike(a ?? "", b ?? "", true);
+        return condition.negated ? !matches : matches;
+      }
+      switch (condition.operator) {
+        case "=":
+          return looseEquals(a ?? "", b ?? "");
+        case "!=":
+          return !looseEquals(a ?? "", b ?? "");
+        case ">":
+          return compareValues(a, b) > 0;
+        case ">=":
+          return compareValues(a, b) >= 0;
+        case "<":
+          return compareValues(a, b) < 0;
+        case "<=":
+          return compareValues(a, b) <= 0;
+      }
+    };
+
+    // An operand without values compares as a single missing one
+    const leftValues = left.values.length > 0 ? left.values : [null];
+    const rightValues = right.values.length > 0 ? right.values : [null];
+    const result = condition.any
+      ? leftValues.some((a) => rightValues.some((b) => test(a, b)))
+      : leftValues.every((a) => rightValues.every((b) => test(a, b)));
+
+    const operator =
+      (condition.any ? "?" : "") + (condition.kind === "like" ? (condition.negated ? "!~" : "~") : condition.operator);
+    const resolved = [
+      [condition.left, left],
+      [rightOperand, right],
+    ]
+      .filter(([operand]) => (operand as Operand).kind === "field")
+      .map(([operand, values]) => `${formatOperand(operand as Operand)}: ${formatValues(values as Values)}`);
+    const details = resolved.length > 0 ? ` (${resolved.join(", ")})` : "";
+
+    return {
+      result,
+      reasons: [`${formatOperand(condition.left)} ${operator} ${formatOperand(rightOperand)} is ${result}${details}`],
+    };
+  }
+
+  private resolve(operand: Operand, anyOf: boolean): Values {
+    switch (operand.kind) {
+      case "value":
+        return { values: [operand.value], multiple: false };
+      case "param":
+        throw new ExpressionError(`API rules take no parameters, found {:${operand.name}}`);
+      case "field":
+        return this.resolveReference(operand.name, anyOf);
+    }
+  }
+
+  private resolveReference(name: string, anyOf: boolean): Values {
+    if (name.startsWith("@request.auth.")) {
+      const path = name.slice("@request.auth.".length);
+      if (!this.auth) {
+        return { values: [null], multiple: false };
+      }
+      return this.resolvePath([this.auth], this.authCollectionName(), path);
+    }
+    if (name.startsWith("@request.body.")) {
+      return this.resolveBody(name.slice("@request.body.".length));
+    }
+    if (name.startsWith("@request.query.")) {
+      return { values: [this.request.query?.[name.slice("@request.query.".length)] ?? null], multiple: false };
+    }
+    if (name.startsWith("@request.headers.")) {
+      return { values: [this.request.headers?.[name.slice("@request.headers.".length)] ?? null], multiple: false };
+    }
+    if (name === "@request.method") {
+      return { values: [this.request.method ?? ACTION_METHODS[this.request.action]], multiple: false };
+    }
+    if (name === "@request.context") {
+      return { values: [this.request.context ?? "default"], multiple: false };
+    }
+    if (name.startsWith("@collection.")) {
+      const [, nameAndAlias = "", ...path] = name.split(".");
+      const collectionName = nameAndAlias.split(":")[0];
+      if (!this.schema.collections.has(collectionName) && !this.records[collectionName]) {
+        throw new ExpressionError(`Collection '${collectionName}' in '${name}' does not exist`);
+      }
+      const joined = anyOf ? this.joinedRows.get(nameAndAlias) : undefined;
+      const rows = joined === undefined ? (this.records[collectionName] ?? []) : joined ? [joined] : [];
+      return this.resolvePath(rows, collectionName, path.join("."), true);
+    }
+
+    const date = dateMacro(name, this.now);
+    if (date !== undefined) {
+      return { values: [date], multiple: false };
+    }
+    const number = numberMacro(name, this.now);
+    if (number !== undefined) {
+      return { values: [number], multiple: false };
+    }
+    if (name.startsWith("@")) {
+      throw new ExpressionError(`Unknown macro '${name}'`);
+    }
+
+    return this.resolvePath([this.target], this.collection.name, name);
+  }
+
+  /**
+   * `@request.body.<field>`, whose modifiers also include `:isset` and
+   * `:changed`
+   */
+  private resolveBody(path: string): Values {
+    const [name, modifier] = path.split(":");
+    const isAuthField = this.collection.type === "auth" && AUTH_BODY_FIELDS.includes(name);
+    const field = this.findField(this.collection.name, name);
+    if (!field && !isAuthField) {
+      throw new ExpressionError(`Field '${name}' does not exist in collection '${this.collection.name}'`);
+    }
+
+    const isset = Object.hasOwn(this.body, name);
+    if (modifier === "isset") {
+      return { values: [isset], multiple: false };
+    }
+    if (modifier === "changed") {
+      return { values: [isset && !looseEquals(this.body[name] ?? "", this.target[name] ?? "")], multiple: false };
+    }
+    return this.fieldValues([{ id: "", ...this.body }], name, field, modifier, false);
+  }
+
+  private authCollectionName(): string | undefined {
+    if (this.auth?.collectionName) {
+      return this.auth.collectionName;
+    }
+    return Array.from(this.schema.collections.values()).find((collection) => collection.type === "auth")?.name;
+  }
+
+  private findField(collectionName: string | undefined, name: string): FieldDefinition | undefined {
+    const collection = collectionName ? this.schema.collections.get(collectionName) : undefined;
+    const field = collection?.fields.find((candidate) => candidate.name === name);
+    if (field) {
+      return field;
+    }
+    const systemFields = collection?.type === "auth" ? { ...SYSTEM_FIELDS, ...AUTH_SYSTEM_FIELDS } : SYSTEM_FIELDS;
+    return Object.hasOwn(systemFields, name) ? { name, id: name, type: systemFields[name], required: true } : undefined;
+  }
+
+  private findRecord(collectionName: string, id: unknown): SimulatedRecord | undefined {
+    return this.records[collectionName]?.find((record) => record.id === id);
+  }
+
+  /**
+   * The records of `<collection>_via_<field>`: those whose relation field
+   * points at any of `records`
+   */
+  private backRelation(
+    segment: string,
+    records: SimulatedRecord[]
+  ): { collection: string; records: SimulatedRecord[] } | null {
+    const match = BACK_RELATION_SEGMENT.exec(segment);
+    if (!match) {
+      return null;
+    }
+    const [, source, field] = match;
+    const ids = new Set(records.map((record) => record.id));
+    return {
+      collection: source,
+      records: (this.records[source] ?? []).filter((record) =>
+        toList(record[field]).some((id) => ids.has(id as string))
+      ),
+    };
+  }
+
+  /**
+   * Follows a dotted path from records of a collection, hop by hop
+   *
+   * @param multiple - Whether the path already passes through several records
+   */
+  private resolvePath(
+    records: SimulatedRecord[],
+    collectionName: string | undefined,
+    path: string,
+    multiple: boolean = false
+  ): Values {
+    const segments = path.split(".");
+    let current = records;
+    let currentCollection = collectionName;
+
+    for (let index = 0; index < segments.length; index++) {
+      const [name, modifier] = segments[index].split(":");
+      const field = this.findField(currentCollection, name);
+      const isLast = index === segments.length - 1;
+
+      if (!field) {
+        const back = this.backRelation(name, current);
+        if (back && isLast) {
+          return this.applyModifier(
+            back.records.map((record) => record.id),
+            name,
+            modifier,
+            true
+          );
+        }
+        if (back) {
+          current = back.records;
+          currentCollection = back.collection;
+          multiple = true;
+          continue;
+        }
+        // Without a schema for the collection, read what the records hold
+        if (isLast && !(currentCollection && this.schema.collections.has(currentCollection))) {
+          return this.fieldValues(current, name, undefined, modifier, multiple);
+        }
+        throw new ExpressionError(`Field '${name}' does not exist in collection '${currentCollection ?? "unknown"}'`);
+      }
+
+      if (isLast) {
+        return this.fieldValues(current, name, field, modifier, multiple);
+      }
+
+      if (field.type === "json") {
+        // The rest of the path are keys into the JSON value
+        const keys = segments.slice(index + 1);
+        const values = current.map((record) =>
+          keys.reduce<unknown>((value, key) => (value as Record<string, unknown> | null)?.[key] ?? null, record[name])
+        );
+        return { values, multiple: multiple || values.length > 1 };
+      }
+
+      if (field.type !== "relation" || !field.relation) {
+        throw new ExpressionError(
+          `Field '${name}' is not a relation field, cannot access nested property '${segments[index + 1].split(":")[0]}'`
+        );
+      }
+
+      const target = field.relation.collection;
+      current = current
+        .flatMap((record) => toList(record[name]))
+        .map((id) => this.findRecord(target, id))
+        .filter((record): record is SimulatedRecord => record !== undefined);
+      currentCollection = target;
+      multiple = multiple || isMultipleField(field);
+    }
+
+    return { values: [], multiple };
+  }
+
+  /**
+   * The values a field holds across records, with the path's modifier applied
+   */
+  private fieldValues(
+    records: SimulatedRecord[],
+    name: string,
+    field: FieldDefinition | undefined,
+    modifier: string | undefined,
+    multiple: boolean
+  ): Values {
+    const fieldMultiple = field ? isMultipleField(field) : records.some((record) => Array.isArray(record[name]));
+
+    if (modifier === "length") {
+      return { values: records.map((record) => toList(record[name]).length), multiple: records.length > 1 };
+    }
+
+    const values = fieldMultiple
+      ? records.flatMap((record) => toList(record[name]))
+      : records.map((record) => record[name] ?? null);
+    return this.applyModifier(values, name, modifier, multiple || fieldMultiple);
+  }
+
+  private applyModifier(values: unknown[], name: string, modifier: string | undefined, multiple: boolean): Values {
+    switch (modifier) {
+      case undefined:
+        return { values, multiple };
+      case "each":
+        // Every value must match, which a plain comparison on several values already requires
+        return { values, multiple: true };
+      case "length":
+        return { values: [values.length], multiple: false };
+      case "lower":
+        return { values: values.map((value) => (typeof value === "string" ? value.toLowerCase() : value)), multiple };
+      case "isset":
+      case "changed":
+        throw new ExpressionError(
+          `Modifier ':${modifier}' only applies to @request.body fields, in '${name}:${modifier}'`
+        );
+      default:
+        throw new ExpressionError(`Unknown modifier ':${modifier}' in '${name}:${modifier}'`);
+    }
+  }
+}
+
+/**
+ * Decides whether a request passes a collection's API rule
+ *
+ * @param schema - Schema holding the collection and the collections its rules reach
+ * @param records - Sample records relations and `@collection` references resolve against
+ * @param request - Who does what to which record
+ * @returns Whether the request is allowed, and the conditions that decided it
+ * @throws AccessCheckError when the collection or record does not exist
+ * @throws ExpressionError when the rule does not parse or references a missing field
+ *
+ * @example
+ * const decision = checkAccess(schema, { users: [alice], posts: [post] }, {
+ *   collection: "posts",
+ *   action: "update",
+ *   record: post.id,
+ *   auth: alice,
+ *   body: { title: "Renamed" },
+ * });
+ * // { allowed: true, ruleType: "updateRule", rule: "owner = @request.auth.id",
+ * //   reasons: ['owner = @request.auth.id is true (owner: "u1", @request.auth.id: "u1")'] }
+ */
+export function checkAccess(
+  schema: SchemaDefinition,
+  records: SimulatedRecords,
+  request: AccessRequest
+): AccessDecision {
+  const collection = schema.collections.get(request.collection);
+  if (!collection) {
+    throw new AccessCheckError(`Collection '${request.collection}' does not exist in the schema`);
+  }
+  if (request.action === "manage" && collection.type !== "auth") {
+    throw new AccessCheckError(
+      `manageRule is only valid for auth collections, '${collection.name}' is ${collection.type}`
+    );
+  }
+
+  const ruleType = `${request.action}Rule` as APIRuleType;
+  const rule = collection.rules?.[ruleType] ?? collection.permissions?.[ruleType] ?? null;
+
+  if (collection.type === "view" && !["list", "view"].includes(request.action)) {
+    return { allowed: false, ruleType, rule: null, reasons: ["View collections are read-only"] };
+  }
+  if (request.auth?.collectionName === SUPERUSERS_COLLECTION) {
+    return { allowed: true, ruleType, rule, reasons: ["Superusers bypass API rules"] };
+  }
+  if (rule === null) {
+    return { allowed: false, ruleType, rule, reasons: [`${ruleType} is locked: only superusers are allowed`] };
+  }
+  if (rule.trim() === "") {
+    return { allowed: true, ruleType, rule, reasons: [`${ruleType} is empty: everyone is allowed`] };
+  }
+
+  let target: SimulatedRecord;
+  if (typeof request.record === "string") {
+    const found = records[collection.name]?.find((record) => record.id === request.record);
+    if (!found) {
+      throw new AccessCheckError(
+        `Record '${request.record}' does not exist in the sample '${collection.name}' records`
+      );
+    }
+    target = found;
+  } else {
+    target = request.record ?? { id: "" };
+  }
+  if (request.action === "create") {
+    target = { ...target, ...request.body };
+  }
+  target = { collectionId: collection.id ?? "", collectionName: collection.name, ...target };
+
+  const evaluator = new AccessEvaluator(schema, records, request, collection, target, request.auth ?? null);
+  const outcome = evaluator.evaluate(parseCondition(rule));
+  return { allowed: outcome.result, ruleType, rule, reasons: outcome.reasons };
+}
@@ -2,11 +2,11 @@
  * SimulatedApp — the `app` handed to a migration's up() function
  *
  * Implements the schema-level surface of PocketBase's transactional app
- * (findCollectionByNameOrId / save / delete / importCollections). Everything
- * else — record and query APIs like findRecordById, db(), etc. — is handled
- * by a strictness-controlled Proxy: lenient mode records a warning and
- * returns an inert no-op value so schema-only replay of hand-written data
- * migrations still succeeds; strict mode throws.
+ * (findCollectionByNameOrId / save / delete / importCollections, plus
+ * settings()). Everything else — record and query APIs like findRecordById,
+ * db(), etc. — is handled by a strictness-controlled Proxy: lenient mode
+ * records a warning and returns an inert no-op value so schema-only replay
+ * of hand-written data migrations still succeeds; strict mode throws.
  *
  * With `records: "simulate"` those data-layer methods are real instead
  * (see `data-api.ts`), backed by the in-memory record store.
@@ -16,6 +16,7 @@ import { Collection, ensureAuthSystemFields } from "./collection";
 import { createDataApi } from "./data-api";
 import { generateRuntimeFieldId } from "./fields";
 import { RecordModel } from "./records";
+import { Settings } from "./settings";
 import type { CollectionStore } from "./store";
 import type { EngineOptions, EngineWarning, RawCollection } from "./types";
 
@@ -33,6 +34,22 @@ export function isInertStub(value: unknown): boolean {
   return (value as Record<symbol, unknown>)[INERT_STUB] === true;
 }
 
+/** Tags the stub `$os.getenv(name)` returns with the variable it reads */
+const ENV_VARIABLE = Symbol.for("pocketbase-zod-schema.envVariable");
+
+/**
+ * The environment variable a value was read from with `$os.getenv()`, or
+ * null for any other value. Its value is unknown to the simulation, but
+ * settings compare by the variable itself.
+ */
+export function envVariableOf(value: unknown): string | null {
+  if (!isInertStub(value)) {
+    return null;
+  }
+  const variable = (value as Record<symbol, unknown>)[ENV_VARIABLE];
+  return typeof variable === "string" ? variable : null;
+}
+
 /**
  * A callable, chainable, inert value returned by lenient stubs so chains
  * like `app.db().newQuery("...").execute()` don't crash. Every call and
@@ -45,7 +62,7 @@ export function isInertStub(value: unknown): boolean {
  * `while (found.length) {}` shapes in hand-written data migrations must
  * behave as "nothing matched" rather than crash or spin forever.
  */
-export function createInertStub(name: string, options: EngineOptions, warn: WarningSink): any {
+export function createInertStub(name: string, options: EngineOptions, warn: WarningSink, envVariable?: string): any {
   // Must be a full function (not an arrow) so the Proxy construct trap can
   // service `new Record()`-style calls
   const target = function inertStubTarget() {
@@ -56,6 +73,9 @@ export function createInertStub(name: string, options: EngineOptions, warn: Warn
       if (prop === INERT_STUB) {
         return true;
       }
+      if (prop === ENV_VARIABLE) {
+        return envVariable;
+      }
       if (prop === Symbol.toPrimitive) {
         return () => "";
       }
@@ -84,7 +104,7 @@ export function createInertStub(name: string, options: EngineOptions, warn: Warn
       }
       return createInertStub(`${name}.${prop}`, options, warn);
     },
-    apply() {
+    apply(_target, _thisArg, args) {
       if (options.strictness === "strict") {
         throw new Error(`[engine] ${name}() is not supported by the migration simulation engine (strict mode)`);
       }
@@ -93,6 +113,9 @@ export function createInertStub(name: string, options: EngineOptions, warn: Warn
         api: name,
         message: `${name}() is not simulated; call was a no-op`,
       });
+      if (name === "$os.getenv" && typeof args[0] === "string") {
+        return createInertStub(`${name}(${JSON.stringify(args[0])})`, options, warn, args[0]);
+      }
       return stub;
     },
     construct() {
@@ -133,6 +156,10 @@ class SimulatedAppImpl {
       this.store.records.save(model);
       return;
     }
+    if (model instanceof Settings) {
+      this.store.settings = model.serialize();
+      return;
+    }
     if (this.skipInertModel(model, "save")) {
       return;
     }
@@ -154,6 +181,22 @@ class SimulatedAppImpl {
       }
     }
     this.store.upsert(collection);
+    if (this.options.records === "simulate") {
+      this.store.records.syncColumns(collection);
+    }
+  }
+
+  /** A copy of the app settings, stored back by `app.save(settings)` */
+  settings(): Settings {
+    return new Settings(this.store.settings);
+  }
+
+  /**
+   * Validation is PocketBase's business - the simulation never validates - so
+   * this is the same save
+   */
+  saveNoValidate(model: any): void {
+    this.save(model);
   }
 
   delete(model: any): void {
@@ -217,6 +260,9 @@ class SimulatedAppImpl {
       const collection = this.toCollection(raw);
       ensureAuthSystemFields(collection);
       this.store.upsert(collection);
+      if (this.options.records === "simulate") {
+        this.store.records.syncColumns(collection);
+      }
       imported.add(collection.id);
     }
     if (deleteMissing) {
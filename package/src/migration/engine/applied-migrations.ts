@@ -18,6 +18,7 @@
 
 import * as fs from "fs";
 import * as path from "path";
+import { closeQuietly, loadSqliteModule, openReadOnlyDatabase, type SqliteDatabase } from "./sqlite";
 
 /** PocketBase's internal table of applied migrations */
 export const APPLIED_MIGRATIONS_TABLE = "_migrations";
@@ -128,9 +129,9 @@ export function readAppliedMigrations(dataPathOrFile: string): AppliedMigrations
     );
   }
 
-  let database: { prepare: (sql: string) => { all: () => unknown[] }; close: () => void };
+  let database: SqliteDatabase;
   try {
-    database = withoutSqliteExperimentalWarning(() => new sqlite.DatabaseSync(databasePath, { readOnly: true }));
+    database = openReadOnlyDatabase(sqlite, databasePath);
   } catch (error) {
     throw new AppliedMigrationsError(
       `Failed to open ${databasePath}: ${errorMessage(error)}`,
@@ -170,11 +171,7 @@ export function readAppliedMigrations(dataPathOrFile: string): AppliedMigrations
       error instanceof Error ? error : undefined
     );
   } finally {
-    try {
-      database.close();
-    } catch {
-      // A close failure cannot invalidate rows already read
-    }
+    closeQuietly(database);
   }
 }
 
@@ -200,56 +197,6 @@ function isCoreMigration(file: string): boolean {
   return !file.endsWith(".js");
 }
 
-interface SqliteModule {
-  DatabaseSync: new (
-    path: string,
-    options?: { readOnly?: boolean }
-  ) => { prepare: (sql: string) => { all: () => unknown[] }; close: () => void };
-}
-
-/**
- * Loads node:sqlite without a static import, so the module keeps working on
- * runtimes that do not ship it (the rest of the engine does not need it).
- */
-function loadSqliteModule(): SqliteModule | null {
-  const getBuiltinModule = (process as NodeJS.Process & { getBuiltinModule?: (id: string) => unknown })
-    .getBuiltinModule;
-  if (typeof getBuiltinModule !== "function") {
-    return null;
-  }
-  try {
-    const module = withoutSqliteExperimentalWarning(() => getBuiltinModule("node:sqlite") as SqliteModule | undefined);
-    return module && typeof module.DatabaseSync === "function" ? module : null;
-  } catch {
-    return null;
-  }
-}
-
-/**
- * node:sqlite emits an ExperimentalWarning on load and on open. Reading a
- * read-only table is a bounded, deliberate use of it, and a CLI that prints a
- * Node warning every time someone runs `status --verify` is just noise —
- * so the warning is dropped for the duration of the call, and only that one.
- */
-function withoutSqliteExperimentalWarning<T>(operation: () => T): T {
-  const original = process.emitWarning;
-
-  process.emitWarning = ((warning: unknown, ...rest: unknown[]) => {
-    const name = typeof warning === "object" && warning !== null ? (warning as Error).name : rest[0];
-    const message = typeof warning === "string" ? warning : ((warning as Error)?.message ?? "");
-    if (name === "ExperimentalWarning" && /sqlite/i.test(message)) {
-      return;
-    }
-    (original as (...args: unknown[]) => void).call(process, warning, ...rest);
-  }) as typeof process.emitWarning;
-
-  try {
-    return operation();
-  } finally {
-    process.emitWarning = original;
-  }
-}
-
 function errorMessage(error: unknown): string {
   return error instanceof Error ? error.message : String(error);
 }
@@ -24,7 +24,7 @@ import type { RawCollection } from "./types";
  * migration that dropped one. Shapes and ids mirror what PocketBase
  * serializes into its own migration files.
  */
-const AUTH_SYSTEM_FIELDS: RawCollection[] = [
+export const AUTH_SYSTEM_FIELDS: RawCollection[] = [
   {
     autogeneratePattern: "",
     hidden: true,
@@ -0,0 +1,510 @@
+/**
+ * Applying migrations to a SQLite database without PocketBase
+ *
+ * The engine already knows what each pending migration does to the
+ * collections and, with record simulation on, to the rows. This module
+ * writes that outcome into `pb_data/data.db` the way PocketBase would have:
+ * the `_collections` rows, a table per base and auth collection with
+ * PocketBase's column types, a SQL view per view collection, the indexes,
+ * the rows themselves, and a `_migrations` entry per file — so CI and test
+ * fixtures get a migrated database without downloading and booting the
+ * PocketBase binary.
+ *
+ * A database that does not exist yet is created the way PocketBase's init
+ * migration creates one (see `system-collections.ts`), so PocketBase boots on
+ * it and runs its own later core migrations.
+ *
+ * Everything is planned in memory first — the current collections and rows
+ * are read, the pending files run against them, and the difference becomes
+ * SQL — then written in a single transaction. PocketBase must not be running
+ * against the file while it is written.
+ *
+ * What the simulation cannot produce is reported rather than guessed: a
+ * password set in plain text is not stored (PocketBase stores bcrypt hashes),
+ * and a secret read with `$os.getenv()` is empty.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { POCKETBASE_DATABASE_FILENAME, resolveDatabasePath } from "./applied-migrations";
+import { Collection } from "./collection";
+import { COLLECTIONS_TABLE, rawCollectionToRow, rowToRawCollection } from "./database-collections";
+import { discoverMigrations } from "./migration-plan";
+import { RecordModel } from "./records";
+import { replayMigrations } from "./replayer";
+import {
+  closeQuietly,
+  loadSqliteModule,
+  openReadOnlyDatabase,
+  openWritableDatabase,
+  type SqliteDatabase,
+} from "./sqlite";
+import {
+  deleteStatement,
+  formatTimestamp,
+  insertStatement,
+  quoteIdentifier,
+  recordDataToRow,
+  rowToRecordData,
+  schemaChangeStatements,
+  toColumnValue,
+  updateStatement,
+  type SqlStatement,
+} from "./sqlite-schema";
+import { CollectionStore } from "./store";
+import {
+  POCKETBASE_CORE_TABLES_SQL,
+  POCKETBASE_INIT_MIGRATION,
+  pocketBaseSystemCollections,
+  withPocketBaseDefaults,
+} from "./system-collections";
+import type { EngineOptions, EngineWarning, RawCollection } from "./types";
+
+/**
+ * Raised when the database cannot be read or written
+ */
+export class DatabaseApplyError extends Error {
+  public readonly source?: string;
+  public readonly originalError?: Error;
+
+  constructor(message: string, source?: string, originalError?: Error) {
+    super(message);
+    this.name = "DatabaseApplyError";
+    this.source = source;
+    this.originalError = originalError;
+    Object.setPrototypeOf(this, DatabaseApplyError.prototype);
+  }
+}
+
+/**
+ * What a database holds before the pending migrations are applied
+ */
+export interface DatabaseState {
+  /** Every `_collections` row, in the shape PocketBase serializes a collection to */
+  collections: RawCollection[];
+  /** Each table's rows as SQLite returns them, keyed by collection id */
+  rows: Map<string, Record<string, unknown>[]>;
+  /** Every file `_migrations` lists, Go core migrations included */
+  applied: string[];
+}
+
+export interface DatabaseApplyOptions extends EngineOptions {
+  /** Plan the statements without writing anything */
+  dryRun?: boolean;
+}
+
+export interface DatabaseApplyPlan {
+  /** Whether the database is created from scratch */
+  created: boolean;
+  /** Basenames of the migrations applied, in order */
+  applied: string[];
+  /** Everything written, in order, in one transaction */
+  statements: SqlStatement[];
+  /** Warnings from executing the migrations */
+  warnings: EngineWarning[];
+  /** What the database will hold that differs from what PocketBase would have written */
+  notes: string[];
+}
+
+export interface DatabaseApplyResult extends DatabaseApplyPlan {
+  /** The database file written (or, for a dry run, that would be) */
+  database: string;
+}
+
+/** A bcrypt hash, the only password value PocketBase can check against */
+const BCRYPT_HASH = /^\$2[aby]\$\d{2}\$[./A-Za-z0-9]{53}$/;
+
+/**
+ * A value for an `autogeneratePattern` of the form PocketBase uses,
+ * `[a-z0-9]{15}`. Returns null for anything more elaborate.
+ */
+function generateFromPattern(pattern: string): string | null {
+  const match = /^\[([^\]]+)\]\{(\d+)\}$/.exec(pattern);
+  if (!match) {
+    return null;
+  }
+  const alphabet = match[1].replace(/(.)-(.)/g, (_, from: string, to: string) => {
+    let expanded = "";
+    for (let code = from.charCodeAt(0); code <= to.charCodeAt(0); code++) {
+      expanded += String.fromCharCode(code);
+    }
+    return expanded;
+  });
+  let value = "";
+  for (let index = 0; index < Number(match[2]); index++) {
+    value += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return value;
+}
+
+function sameColumnValue(a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a ?? null) === (b ?? null);
+  }
+  return String(a) === String(b);
+}
+
+function fieldsOf(collection: RawCollection): RawCollection[] {
+  return Array.isArray(collection.fields) ? collection.fields : [];
+}
+
+/**
+ * Fills in what PocketBase sets when it writes a row: autogenerated text
+ * (an auth record's `tokenKey`), autodate stamps, and passwords — which
+ * only keep a value PocketBase could have hashed
+ */
+function completeRow(
+  collection: RawCollection,
+  row: Record<string, unknown>,
+  previous: Record<string, unknown> | undefined,
+  notes: string[]
+): void {
+  for (const field of fieldsOf(collection)) {
+    const value = row[field.name];
+    if (field.type === "password" && value !== "" && !BCRYPT_HASH.test(String(value))) {
+      row[field.name] = previous?.[field.name] ?? "";
+      notes.push(
+        `${collection.name}/${String(row.id)}: the ${field.name} was set in plain text and is not stored; ` +
+          `PocketBase stores bcrypt hashes. Set it again once PocketBase runs.`
+      );
+    } else if (field.type === "text" && value === "" && field.autogeneratePattern && field.primaryKey !== true) {
+      row[field.name] = generateFromPattern(String(field.autogeneratePattern)) ?? "";
+    }
+  }
+}
+
+/**
+ * Stamps autodate fields the record leaves empty, and `onUpdate` ones
+ * whenever an existing row changed
+ */
+function stampAutodates(collection: RawCollection, row: Record<string, unknown>, isNew: boolean, now: string): void {
+  for (const field of fieldsOf(collection)) {
+    if (field.type !== "autodate") {
+      continue;
+    }
+    if (isNew ? (field.onCreate || field.onUpdate) && row[field.name] === "" : field.onUpdate) {
+      row[field.name] = now;
+    }
+  }
+}
+
+/** The INSERT, UPDATE and DELETE statements that bring one table's rows in line */
+function recordStatements(
+  before: RawCollection | undefined,
+  after: RawCollection,
+  beforeRows: Record<string, unknown>[],
+  records: RecordModel[],
+  now: string,
+  notes: string[]
+): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  // The previous row's columns, renamed to the fields they now belong to
+  const previousNames = new Map(fieldsOf(before ?? {}).map((field) => [field.id, field.name]));
+  const previousRows = new Map<string, Record<string, unknown>>();
+  for (const row of beforeRows) {
+    const renamed: Record<string, unknown> = {};
+    for (const field of fieldsOf(after)) {
+      const previousName = previousNames.get(field.id);
+      if (previousName !== undefined && previousName in row) {
+        renamed[field.name] = row[previousName];
+      } else {
+        // A column added by this apply holds its default
+        renamed[field.name] = toColumnValue(field, undefined);
+      }
+    }
+    previousRows.set(String(row.id), renamed);
+  }
+
+  const kept = new Set<string>();
+  for (const record of records) {
+    kept.add(record.id);
+    const previous = previousRows.get(record.id);
+    const row = recordDataToRow(after, record.export());
+    completeRow(after, row, previous, notes);
+
+    if (!previous) {
+      stampAutodates(after, row, true, now);
+      statements.push(insertStatement(after.name, row));
+      continue;
+    }
+    const changes: Record<string, unknown> = {};
+    for (const [column, value] of Object.entries(row)) {
+      if (!sameColumnValue(value, previous[column])) {
+        changes[column] = value;
+      }
+    }
+    if (Object.keys(changes).length > 0) {
+      stampAutodates(after, changes, false, now);
+      statements.push(updateStatement(after.name, record.id, changes));
+    }
+  }
+  for (const id of previousRows.keys()) {
+    if (!kept.has(id)) {
+      statements.push(deleteStatement(after.name, id));
+    }
+  }
+  return statements;
+}
+
+/** The `_collections` row changes, timestamps included */
+function collectionRowStatements(before: RawCollection[], after: RawCollection[], now: string): SqlStatement[] {
+  const previous = new Map(before.map((collection) => [collection.id, collection]));
+  const current = new Set(after.map((collection) => collection.id));
+  const statements: SqlStatement[] = [];
+
+  for (const collection of before) {
+    if (!current.has(collection.id)) {
+      statements.push(deleteStatement(COLLECTIONS_TABLE, collection.id));
+    }
+  }
+  for (const collection of after) {
+    const row = rawCollectionToRow(collection);
+    const old = previous.get(collection.id);
+    if (!old) {
+      statements.push(insertStatement(COLLECTIONS_TABLE, { ...row, created: now, updated: now }));
+      continue;
+    }
+    const oldRow = rawCollectionToRow(old);
+    const changes = Object.fromEntries(Object.entries(row).filter(([column, value]) => value !== oldRow[column]));
+    if (Object.keys(changes).length > 0) {
+      statements.push(updateStatement(COLLECTIONS_TABLE, collection.id, { ...changes, updated: now }));
+    }
+  }
+  return statements;
+}
+
+/** What the database will hold that PocketBase would have filled in itself */
+function collectionNotes(before: RawCollection[], after: RawCollection[]): string[] {
+  const previous = new Map(before.map((collection) => [collection.id, collection]));
+  const notes: string[] = [];
+  for (const collection of after) {
+    const old = previous.get(collection.id);
+    if (collection.type === "view" && fieldsOf(collection).length === 0 && old?.viewQuery !== collection.viewQuery) {
+      notes.push(
+        `${collection.name}: a view's fields are inferred by PocketBase when it saves the view; ` +
+          `this one has none until it is saved again in the dashboard.`
+      );
+    }
+    const providers = Array.isArray(collection.oauth2?.providers) ? collection.oauth2.providers : [];
+    for (const provider of providers) {
+      if (!provider?.clientSecret) {
+        notes.push(
+          `${collection.name}: the ${String(provider?.name)} OAuth2 provider has no client secret ` +
+            `($os.getenv() is empty outside PocketBase).`
+        );
+      }
+    }
+  }
+  return notes;
+}
+
+/**
+ * Plans applying the pending migrations to a database, without touching it
+ *
+ * @param migrationsPath - The pb_migrations directory
+ * @param state - What the database holds, or null for a database to create
+ * @param options - Engine options; records are always simulated
+ * @returns The statements to run and the migrations they apply
+ * @throws MigrationExecutionError when a pending migration fails
+ */
+export function planDatabaseApply(
+  migrationsPath: string,
+  state: DatabaseState | null,
+  options: EngineOptions = {}
+): DatabaseApplyPlan {
+  const now = formatTimestamp();
+  const statements: SqlStatement[] = [];
+  const before = state?.collections ?? [];
+  const appliedFiles = new Set(state?.applied ?? []);
+
+  const store = new CollectionStore();
+  for (const raw of state ? state.collections : pocketBaseSystemCollections()) {
+    store.upsert(new Collection(structuredClone(raw)));
+  }
+  for (const raw of before) {
+    const collection = store.getById(raw.id)!;
+    for (const row of state?.rows.get(raw.id) ?? []) {
+      store.records.save(new RecordModel(collection, rowToRecordData(raw, row)));
+    }
+  }
+
+  const pending = discoverMigrations(migrationsPath).filter((migration) => !appliedFiles.has(migration.name));
+  const replay = replayMigrations(
+    pending.map((migration) => migration.path),
+    { ...options, records: "simulate", initialStore: store }
+  );
+
+  const after = replay.store.serialize().map((collection) => withPocketBaseDefaults(collection));
+  const notes = collectionNotes(before, after);
+
+  if (!state) {
+    statements.push(...POCKETBASE_CORE_TABLES_SQL.map((sql) => ({ sql, params: [] })));
+  }
+  statements.push(...schemaChangeStatements(before, after).map((sql) => ({ sql, params: [] })));
+  statements.push(...collectionRowStatements(before, after, now));
+
+  const previous = new Map(before.map((collection) => [collection.id, collection]));
+  for (const collection of after) {
+    if (collection.type === "view") {
+      continue;
+    }
+    const old = previous.get(collection.id);
+    statements.push(
+      ...recordStatements(
+        old?.type === "view" ? undefined : old,
+        collection,
+        old && old.type !== "view" ? (state?.rows.get(collection.id) ?? []) : [],
+        replay.store.records.list(collection.id),
+        now,
+        notes
+      )
+    );
+  }
+
+  // PocketBase records `applied` in microseconds
+  const appliedAt = Date.now() * 1000;
+  const migrationFiles = [...(state ? [] : [POCKETBASE_INIT_MIGRATION]), ...pending.map((migration) => migration.name)];
+  migrationFiles.forEach((file, index) => {
+    statements.push(insertStatement("_migrations", { file, applied: appliedAt + index }));
+  });
+
+  return {
+    created: state === null,
+    applied: pending.map((migration) => migration.name),
+    statements,
+    warnings: replay.warnings,
+    notes,
+  };
+}
+
+/**
+ * Reads the collections, rows and applied migrations out of an open database.
+ * Returns null for a database PocketBase never initialized.
+ */
+function readDatabaseState(database: SqliteDatabase): DatabaseState | null {
+  const tables = database.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[];
+  const tableNames = new Set(tables.map((table) => table.name));
+  if (!tableNames.has(COLLECTIONS_TABLE)) {
+    return null;
+  }
+
+  const collections = (
+    database.prepare(`SELECT * FROM ${COLLECTIONS_TABLE} ORDER BY created ASC, name ASC`).all() as Record<
+      string,
+      unknown
+    >[]
+  ).map((row) => rowToRawCollection(row));
+
+  const rows = new Map<string, Record<string, unknown>[]>();
+  for (const collection of collections) {
+    if (collection.type !== "view" && tableNames.has(collection.name)) {
+      rows.set(
+        collection.id,
+        database.prepare(`SELECT * FROM ${quoteIdentifier(collection.name)}`).all() as Record<string, unknown>[]
+      );
+    }
+  }
+
+  const applied = tableNames.has("_migrations")
+    ? (database.prepare("SELECT file FROM _migrations").all() as { file: string }[]).map((row) => row.file)
+    : [];
+
+  return { collections, rows, applied };
+}
+
+function runStatements(database: SqliteDatabase, statements: SqlStatement[]): void {
+  database.exec("BEGIN");
+  try {
+    for (const statement of statements) {
+      database.prepare(statement.sql).run(...statement.params);
+    }
+    database.exec("COMMIT");
+  } catch (error) {
+    database.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+/**
+ * Applies the pending migrations in a pb_migrations directory to a
+ * PocketBase database, creating the database when it does not exist
+ *
+ * @param migrationsPath - The pb_migrations directory
+ * @param dataPathOrFile - A pb_data directory or a data.db file
+ * @param options - Engine options, and `dryRun` to plan without writing
+ * @throws DatabaseApplyError when the database cannot be read or written
+ * @throws MigrationExecutionError when a pending migration fails; nothing is written
+ */
+export function applyMigrationsToDatabase(
+  migrationsPath: string,
+  dataPathOrFile: string,
+  options: DatabaseApplyOptions = {}
+): DatabaseApplyResult {
+  const { dryRun, ...engineOptions } = options;
+  const existing = resolveDatabasePath(dataPathOrFile);
+  const databasePath =
+    existing ??
+    (path.extname(dataPathOrFile) === ".db"
+      ? path.resolve(dataPathOrFile)
+      : path.resolve(dataPathOrFile, POCKETBASE_DATABASE_FILENAME));
+
+  if (!existing && dryRun) {
+    return { database: databasePath, ...planDatabaseApply(migrationsPath, null, engineOptions) };
+  }
+
+  const sqlite = loadSqliteModule();
+  if (!sqlite) {
+    throw new DatabaseApplyError(
+      `Writing a PocketBase database requires Node's built-in node:sqlite module (Node >= 22.5). ` +
+        `This process runs ${process.version}.`,
+      databasePath
+    );
+  }
+
+  let database: SqliteDatabase;
+  try {
+    if (!existing) {
+      fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    }
+    database = dryRun ? openReadOnlyDatabase(sqlite, databasePath) : openWritableDatabase(sqlite, databasePath);
+  } catch (error) {
+    throw new DatabaseApplyError(
+      `Failed to open ${databasePath}: ${errorMessage(error)}`,
+      databasePath,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  try {
+    let state: DatabaseState | null;
+    try {
+      state = readDatabaseState(database);
+    } catch (error) {
+      throw new DatabaseApplyError(
+        `Failed to read ${databasePath}: ${errorMessage(error)}`,
+        databasePath,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const plan = planDatabaseApply(migrationsPath, state, engineOptions);
+    if (!dryRun) {
+      try {
+        runStatements(database, plan.statements);
+      } catch (error) {
+        throw new DatabaseApplyError(
+          `Failed to write ${databasePath}; nothing was changed: ${errorMessage(error)}`,
+          databasePath,
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+    return { database: databasePath, ...plan };
+  } finally {
+    closeQuietly(database);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
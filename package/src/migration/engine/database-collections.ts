@@ -0,0 +1,195 @@
+/**
+ * `_collections` table awareness
+ *
+ * PocketBase keeps every collection definition in its internal `_collections`
+ * table. Reading it gives the schema the database is *actually* in —
+ * independent of whatever migration files exist — which is what `pull` turns
+ * into schema files for a project adopting this tool.
+ *
+ * The read uses the same read-only node:sqlite access as
+ * `readAppliedMigrations` (see `sqlite.ts`).
+ *
+ * Rows come back in the shape PocketBase serializes a collection to — the
+ * shape found in snapshot migrations and produced by the engine — so the rest
+ * of the pipeline (`rawCollectionsToSnapshot`, `compareRawCollections`, a
+ * `CollectionStore`) takes them as they are.
+ */
+
+import * as path from "path";
+import { resolveDatabasePath } from "./applied-migrations";
+import { closeQuietly, loadSqliteModule, openReadOnlyDatabase, type SqliteDatabase } from "./sqlite";
+import type { RawCollection } from "./types";
+
+/** PocketBase's internal table of collection definitions */
+export const COLLECTIONS_TABLE = "_collections";
+
+/** Columns holding JSON text rather than plain values */
+const JSON_COLUMNS = ["fields", "indexes", "options"];
+
+/** Columns copied onto the collection as-is */
+const RULE_COLUMNS = ["listRule", "viewRule", "createRule", "updateRule", "deleteRule"];
+
+/**
+ * Raised when `_collections` was requested but could not be read
+ */
+export class DatabaseCollectionsError extends Error {
+  public readonly source?: string;
+  public readonly originalError?: Error;
+
+  constructor(message: string, source?: string, originalError?: Error) {
+    super(message);
+    this.name = "DatabaseCollectionsError";
+    this.source = source;
+    this.originalError = originalError;
+    Object.setPrototypeOf(this, DatabaseCollectionsError.prototype);
+  }
+}
+
+export interface DatabaseCollectionsSource {
+  /** The database file the rows were read from */
+  origin: string;
+  /** Every collection, including PocketBase's own system collections */
+  collections: RawCollection[];
+}
+
+/**
+ * Reads `_collections` out of a PocketBase SQLite database.
+ *
+ * @param dataPathOrFile - A pb_data directory or a data.db file
+ * @throws DatabaseCollectionsError when the runtime, file, or table is unusable
+ */
+export function readDatabaseCollections(dataPathOrFile: string): DatabaseCollectionsSource {
+  const databasePath = resolveDatabasePath(dataPathOrFile);
+  if (!databasePath) {
+    throw new DatabaseCollectionsError(
+      `No PocketBase database found at ${path.resolve(dataPathOrFile)}. ` +
+        `Expected a data.db file, or a pb_data directory containing one.`,
+      dataPathOrFile
+    );
+  }
+
+  const sqlite = loadSqliteModule();
+  if (!sqlite) {
+    throw new DatabaseCollectionsError(
+      `Reading the ${COLLECTIONS_TABLE} table requires Node's built-in node:sqlite module (Node >= 22.5). ` +
+        `This process runs ${process.version}.`,
+      databasePath
+    );
+  }
+
+  let database: SqliteDatabase;
+  try {
+    database = openReadOnlyDatabase(sqlite, databasePath);
+  } catch (error) {
+    throw new DatabaseCollectionsError(
+      `Failed to open ${databasePath}: ${errorMessage(error)}`,
+      databasePath,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  try {
+    const rows = database.prepare(`SELECT * FROM ${COLLECTIONS_TABLE} ORDER BY created ASC, name ASC`).all() as Record<
+      string,
+      unknown
+    >[];
+
+    return { origin: databasePath, collections: rows.map((row) => rowToRawCollection(row)) };
+  } catch (error) {
+    throw new DatabaseCollectionsError(
+      `Failed to read the ${COLLECTIONS_TABLE} table from ${databasePath}: ${errorMessage(error)}`,
+      databasePath,
+      error instanceof Error ? error : undefined
+    );
+  } finally {
+    closeQuietly(database);
+  }
+}
+
+/**
+ * Turns one `_collections` row into the JSON shape PocketBase serializes a
+ * collection to: the JSON columns parsed, and the type-specific `options`
+ * column (viewQuery, the auth settings) flattened onto the collection the way
+ * PocketBase's own collection JSON does.
+ */
+export function rowToRawCollection(row: Record<string, unknown>): RawCollection {
+  const parsed: Record<string, unknown> = {};
+  for (const column of JSON_COLUMNS) {
+    parsed[column] = parseJsonColumn(row, column);
+  }
+
+  const collection: RawCollection = {
+    id: String(row.id ?? ""),
+    name: String(row.name ?? ""),
+    type: typeof row.type === "string" && row.type !== "" ? row.type : "base",
+    system: row.system === true || Number(row.system) === 1,
+    fields: Array.isArray(parsed.fields) ? parsed.fields : [],
+    indexes: Array.isArray(parsed.indexes) ? parsed.indexes : [],
+  };
+
+  for (const column of RULE_COLUMNS) {
+    collection[column] = typeof row[column] === "string" ? row[column] : null;
+  }
+
+  const options = parsed.options;
+  if (options && typeof options === "object" && !Array.isArray(options)) {
+    Object.assign(collection, options);
+  }
+
+  for (const column of ["created", "updated"]) {
+    if (typeof row[column] === "string") {
+      collection[column] = row[column];
+    }
+  }
+
+  return collection;
+}
+
+/**
+ * The inverse of rowToRawCollection(): a collection as the `_collections` row
+ * PocketBase stores, its type-specific settings gathered back into `options`
+ * and its JSON columns serialized. `created` and `updated` are left to the
+ * caller, which knows whether the row is new.
+ */
+export function rawCollectionToRow(collection: RawCollection): Record<string, unknown> {
+  const known = new Set(["id", "name", "type", "system", "created", "updated", ...JSON_COLUMNS, ...RULE_COLUMNS]);
+  const options: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(collection)) {
+    if (!known.has(key)) {
+      options[key] = value;
+    }
+  }
+
+  const row: Record<string, unknown> = {
+    id: collection.id,
+    system: collection.system === true ? 1 : 0,
+    type: typeof collection.type === "string" && collection.type !== "" ? collection.type : "base",
+    name: collection.name,
+    fields: JSON.stringify(Array.isArray(collection.fields) ? collection.fields : []),
+    indexes: JSON.stringify(Array.isArray(collection.indexes) ? collection.indexes : []),
+  };
+  for (const column of RULE_COLUMNS) {
+    row[column] = typeof collection[column] === "string" ? collection[column] : null;
+  }
+  row.options = JSON.stringify(options);
+  return row;
+}
+
+function parseJsonColumn(row: Record<string, unknown>, column: string): unknown {
+  const value = row[column];
+  if (typeof value !== "string" || value.trim() === "") {
+    return value ?? null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    throw new DatabaseCollectionsError(
+      `Collection "${String(row.name ?? row.id)}" has malformed JSON in ${COLLECTIONS_TABLE}.${column}: ` +
+        errorMessage(error)
+    );
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
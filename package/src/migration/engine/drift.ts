@@ -0,0 +1,166 @@
+/**
+ * Drift detection — the database's collections against the migrations'
+ *
+ * `_migrations` says which files ran; it cannot say whether the collections
+ * still look the way those files left them. Anything edited in the admin UI
+ * since shows up here: the applied migrations are replayed, the live
+ * `_collections` rows are loaded into a store of their own, and the two are
+ * compared with the same structural comparison down-verification uses.
+ *
+ * PocketBase's own system collections are left out on both sides, as is the
+ * default `users` collection when no migration touches it: PocketBase
+ * creates it on first start, outside any migration file.
+ */
+
+import { readAppliedMigrations } from "./applied-migrations";
+import { Collection } from "./collection";
+import { readDatabaseCollections } from "./database-collections";
+import { planMigrationReplay, type MigrationPlan } from "./migration-plan";
+import { replayMigrationsDirectory } from "./replayer";
+import { compareStores, type StateDifference } from "./state-compare";
+import { CollectionStore } from "./store";
+import type { EngineOptions, EngineWarning, RawCollection } from "./types";
+
+/** PocketBase's fixed id for the default users auth collection */
+const USERS_AUTH_ID = "_pb_users_auth_";
+
+/**
+ * One collection that differs between the migrations and the database
+ */
+export interface CollectionDrift {
+  /** The collection's name in the database, or in the migrations when the database lacks it */
+  collection: string;
+  /** As the applied migrations leave it; null when no migration creates it */
+  expected: RawCollection | null;
+  /** As the database holds it; null when it was deleted outside the migrations */
+  actual: RawCollection | null;
+  differences: StateDifference[];
+}
+
+export interface DriftOptions extends EngineOptions {
+  /** Also compare PocketBase's own collections: the system ones and the default users */
+  includeSystem?: boolean;
+}
+
+export interface DriftReport {
+  /** The database file the collections were read from */
+  database: string;
+  /** Which migrations were replayed, per the database's `_migrations` table */
+  plan: MigrationPlan;
+  /** Drifted collections, in the order the comparison found them */
+  collections: CollectionDrift[];
+  /** Every difference, flattened */
+  differences: StateDifference[];
+  /** Warnings from replaying the migrations */
+  warnings: EngineWarning[];
+}
+
+/**
+ * PocketBase flags its own collections as system; the `_` prefix catches the
+ * ones an older export left unflagged
+ */
+function isSystemCollection(collection: RawCollection): boolean {
+  return collection.system === true || String(collection.name).startsWith("_");
+}
+
+function findMatch(candidates: RawCollection[], target: RawCollection): RawCollection | null {
+  return (
+    candidates.find((candidate) => candidate.id && candidate.id === target.id) ??
+    candidates.find((candidate) => candidate.name && candidate.name === target.name) ??
+    null
+  );
+}
+
+function storeOf(collections: RawCollection[]): CollectionStore {
+  const store = new CollectionStore();
+  for (const raw of collections) {
+    store.upsert(new Collection(structuredClone(raw)));
+  }
+  return store;
+}
+
+/**
+ * Compares a replayed state with the collections a database holds
+ *
+ * @param expected - State the applied migrations produce
+ * @param databaseCollections - Rows from `_collections` (readDatabaseCollections)
+ * @param options - Whether system collections take part
+ * @returns One entry per drifted collection; empty when the two agree
+ */
+export function diffDatabaseCollections(
+  expected: CollectionStore,
+  databaseCollections: RawCollection[],
+  options: Pick<DriftOptions, "includeSystem"> = {}
+): CollectionDrift[] {
+  const keep = (collection: RawCollection) => options.includeSystem === true || !isSystemCollection(collection);
+  const expectedCollections = expected.serialize().filter(keep);
+  const actualCollections = databaseCollections.filter(keep).filter(
+    // The default users collection is PocketBase's, until a migration touches it
+    (collection) =>
+      options.includeSystem === true ||
+      collection.id !== USERS_AUTH_ID ||
+      findMatch(expectedCollections, collection) !== null
+  );
+
+  const differences = compareStores(storeOf(expectedCollections), storeOf(actualCollections), {
+    labels: { expected: "migrations", actual: "database" },
+  });
+
+  const drift = new Map<string, CollectionDrift>();
+  for (const difference of differences) {
+    let entry = drift.get(difference.collection);
+    if (!entry) {
+      // Differences name a collection as the migrations do, unless only the database has it
+      const expectedCollection =
+        difference.kind === "collection-added"
+          ? null
+          : (expectedCollections.find((collection) => collection.name === difference.collection) ?? null);
+      const actualCollection =
+        difference.kind === "collection-removed"
+          ? null
+          : expectedCollection
+            ? findMatch(actualCollections, expectedCollection)
+            : (actualCollections.find((collection) => collection.name === difference.collection) ?? null);
+
+      entry = {
+        collection: String(actualCollection?.name ?? difference.collection),
+        expected: expectedCollection,
+        actual: actualCollection,
+        differences: [],
+      };
+      drift.set(difference.collection, entry);
+    }
+    entry.differences.push(difference);
+  }
+
+  return [...drift.values()];
+}
+
+/**
+ * Replays the migrations a database has applied and compares the result
+ * with the collections the database actually holds
+ *
+ * @param migrationsPath - The pb_migrations directory
+ * @param dataPathOrFile - A pb_data directory or a data.db file
+ * @param options - Engine options, and whether system collections take part
+ * @throws AppliedMigrationsError or DatabaseCollectionsError when the database cannot be read
+ * @throws MigrationExecutionError when an applied migration cannot be replayed
+ */
+export function detectDrift(migrationsPath: string, dataPathOrFile: string, options: DriftOptions = {}): DriftReport {
+  const { includeSystem, ...engineOptions } = options;
+  const applied = readAppliedMigrations(dataPathOrFile);
+  const source = readDatabaseCollections(dataPathOrFile);
+
+  const replayed = replayMigrationsDirectory(migrationsPath, { ...engineOptions, applied });
+  const collections = diffDatabaseCollections(replayed?.store ?? new CollectionStore(), source.collections, {
+    includeSystem,
+  });
+
+  return {
+    database: source.origin,
+    plan: replayed?.plan ?? planMigrationReplay(migrationsPath, { applied }),
+    collections,
+    differences: collections.flatMap((entry) => entry.differences),
+    warnings: replayed?.warnings ?? [],
+  };
+}
@@ -12,6 +12,11 @@
  * `NOT`, parentheses, and `{:name}` bindings. Anything outside that raises
  * `ExpressionError`, which the caller reports as an unsupported query rather
  * than silently matching the wrong rows.
+ *
+ * The grammar also reads API rules: `@request.*`/`@collection.*` references,
+ * `:modifier` suffixes, the `?=`-style "any of" operators (marked `any`) and
+ * `//` comments. Evaluating those is the access simulator's job; here they
+ * only parse.
  */
 
 export class ExpressionError extends Error {
@@ -32,9 +37,9 @@ export type Condition =
   | { kind: "and"; operands: Condition[] }
   | { kind: "or"; operands: Condition[] }
   | { kind: "not"; operand: Condition }
-  | { kind: "compare"; operator: CompareOperator; left: Operand; right: Operand }
+  | { kind: "compare"; operator: CompareOperator; left: Operand; right: Operand; any?: boolean }
   | { kind: "in"; negated: boolean; left: Operand; values: Operand[] }
-  | { kind: "like"; negated: boolean; left: Operand; pattern: Operand; implicitWildcards: boolean }
+  | { kind: "like"; negated: boolean; left: Operand; pattern: Operand; implicitWildcards: boolean; any?: boolean }
   | { kind: "null"; negated: boolean; operand: Operand }
   | { kind: "between"; negated: boolean; operand: Operand; from: Operand; to: Operand }
   | { kind: "literal"; value: boolean };
@@ -58,7 +63,28 @@ interface Token {
   position: number;
 }
 
-const OPERATORS = ["?!=", "!~", "?=", "?~", "!=", "<>", ">=", "<=", "==", "&&", "||", "=", ">", "<", "~"];
+const OPERATORS = [
+  "?!=",
+  "?!~",
+  "?>=",
+  "?<=",
+  "!~",
+  "?=",
+  "?~",
+  "?>",
+  "?<",
+  "!=",
+  "<>",
+  ">=",
+  "<=",
+  "==",
+  "&&",
+  "||",
+  "=",
+  ">",
+  "<",
+  "~",
+];
 
 function tokenize(input: string): Token[] {
   const tokens: Token[] = [];
@@ -72,6 +98,13 @@ function tokenize(input: string): Token[] {
       continue;
     }
 
+    // API rules allow line comments
+    if (char === "/" && input[index + 1] === "/") {
+      const end = input.indexOf("\n", index);
+      index = end === -1 ? input.length : end;
+      continue;
+    }
+
     // {:name} — dbx/PocketBase parameter binding
     if (char === "{" && input[index + 1] === ":") {
       const end = input.indexOf("}", index);
@@ -100,8 +133,9 @@ function tokenize(input: string): Token[] {
       continue;
     }
 
-    // Identifiers may be qualified (table.column) or backtick/bracket quoted
-    if (/[A-Za-z_`[]/.test(char)) {
+    // Identifiers may be qualified (table.column) or backtick/bracket quoted;
+    // in API rules they may be @-prefixed and end in a :modifier
+    if (/[A-Za-z_`[@]/.test(char)) {
       const { value, next } = readIdentifier(input, index);
       tokens.push({ type: "identifier", value, position: index });
       index = next;
@@ -188,7 +222,7 @@ function readIdentifier(input: string, start: number): { value: string; next: nu
       }
       break;
     }
-    if (/[A-Za-z0-9_.$]/.test(char)) {
+    if (/[A-Za-z0-9_.$:]/.test(char) || (char === "@" && index === start)) {
       value += char;
       index++;
       continue;
@@ -304,14 +338,16 @@ class Parser {
     }
     this.index++;
 
+    const any = operator.startsWith("?");
     switch (operator) {
       case "~":
       case "?~":
-        return { kind: "like", negated: false, left, pattern: this.parseOperand(), implicitWildcards: true };
+        return { kind: "like", negated: false, left, pattern: this.parseOperand(), implicitWildcards: true, any };
       case "!~":
-        return { kind: "like", negated: true, left, pattern: this.parseOperand(), implicitWildcards: true };
+      case "?!~":
+        return { kind: "like", negated: true, left, pattern: this.parseOperand(), implicitWildcards: true, any };
       default:
-        return { kind: "compare", operator: normalizeOperator(operator), left, right: this.parseOperand() };
+        return { kind: "compare", operator: normalizeOperator(operator), left, right: this.parseOperand(), any };
     }
   }
 
@@ -418,7 +454,7 @@ function normalizeOperator(operator: string): CompareOperator {
     case "?!=":
       return "!=";
     default:
-      return operator as CompareOperator;
+      return operator.replace(/^\?/, "") as CompareOperator;
   }
 }
 
@@ -631,7 +667,7 @@ function toBoolean(value: unknown): boolean {
  * SQL LIKE. `implicitWildcards` is PocketBase's `~`, which wraps the term in
  * `%` unless the term already contains a wildcard.
  */
-function matchesLike(value: unknown, pattern: unknown, implicitWildcards: boolean): boolean {
+export function matchesLike(value: unknown, pattern: unknown, implicitWildcards: boolean): boolean {
   if (value === null || value === undefined || pattern === null || pattern === undefined) {
     return false;
   }
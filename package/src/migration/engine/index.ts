@@ -7,7 +7,9 @@
  * reconstructed correctly.
  */
 
-export { createSimulatedApp, createSimulatedAppBundle, isInertStub, type SimulatedApp } from "./app";
+export { AccessCheckError, checkAccess } from "./access";
+export type { AccessAction, AccessDecision, AccessRequest, SimulatedRecord, SimulatedRecords } from "./access";
+export { createSimulatedApp, createSimulatedAppBundle, envVariableOf, isInertStub, type SimulatedApp } from "./app";
 export {
   APPLIED_MIGRATIONS_TABLE,
   AppliedMigrationsError,
@@ -21,6 +23,18 @@ export {
 export type { AppliedMigration, AppliedMigrationsSource } from "./applied-migrations";
 export { Collection, generateRuntimeCollectionId } from "./collection";
 export { NO_ROWS_ERROR, createDataApi, type DataApi } from "./data-api";
+export { DatabaseApplyError, applyMigrationsToDatabase, planDatabaseApply } from "./database-apply";
+export type { DatabaseApplyOptions, DatabaseApplyPlan, DatabaseApplyResult, DatabaseState } from "./database-apply";
+export {
+  COLLECTIONS_TABLE,
+  DatabaseCollectionsError,
+  rawCollectionToRow,
+  readDatabaseCollections,
+  rowToRawCollection,
+} from "./database-collections";
+export type { DatabaseCollectionsSource } from "./database-collections";
+export { detectDrift, diffDatabaseCollections } from "./drift";
+export type { CollectionDrift, DriftOptions, DriftReport } from "./drift";
 export { UnsupportedQueryError, createDbx, isDbxExpression, parseStatement, type DbxExpression } from "./dbx";
 export {
   ExpressionError,
@@ -57,9 +71,15 @@ export {
   lintMigrationSource,
 } from "./goja-lint";
 export type { GojaLintFinding, GojaLintOptions, GojaLintResult, GojaLintRule, GojaLintSeverity } from "./goja-lint";
-export { discoverMigrations, extractTimestampFromFilename, planMigrationReplay } from "./migration-plan";
+export {
+  discoverMigrations,
+  extractTimestampFromFilename,
+  planMigrationReplay,
+  resolveMigrationRef,
+} from "./migration-plan";
 export type { DiscoveredMigration, MigrationPlan, PlanOptions } from "./migration-plan";
 export { RecordModel, RecordStore, generateRecordId } from "./records";
+export type { ColumnChanges } from "./records";
 export { replayMigrations, replayMigrationsDirectory } from "./replayer";
 export {
   executeMigrationDownFile,
@@ -67,9 +87,26 @@ export {
   executeMigrationFile,
   executeMigrationSource,
 } from "./runner";
+export {
+  columnType,
+  createCollectionStatements,
+  fromColumnValue,
+  recordDataToRow,
+  rowToRecordData,
+  schemaChangeStatements,
+  toColumnValue,
+  type SqlStatement,
+} from "./sqlite-schema";
 export { compareRawCollections, compareStores, describeStateDifferences } from "./state-compare";
 export type { StateCompareOptions, StateDifference } from "./state-compare";
+export { DEFAULT_SETTINGS, Settings, type RawSettings } from "./settings";
 export { CollectionStore } from "./store";
+export {
+  POCKETBASE_CORE_TABLES_SQL,
+  POCKETBASE_INIT_MIGRATION,
+  pocketBaseSystemCollections,
+  withPocketBaseDefaults,
+} from "./system-collections";
 export type {
   EngineOptions,
   EngineRecordMode,
@@ -93,3 +130,5 @@ export type {
   MigrationVerificationReport,
   VerifyOptions,
 } from "./verify";
+export { describeInvalidFieldValue, sampleFieldValues, verifyFieldConversions } from "./verify-conversions";
+export type { FieldConversionCheck, FieldConversionProblem, FieldConversionReport } from "./verify-conversions";
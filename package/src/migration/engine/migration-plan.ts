@@ -11,7 +11,8 @@
  * turns a pb_migrations directory into a plan:
  *
  * - `filesToReplay` — the applied prefix, starting at the newest *applied*
- *   snapshot, which is the checkpoint replay should start from
+ *   snapshot (or a squash's snapshot PocketBase has yet to run), which is
+ *   the checkpoint replay should start from
  * - `pending` — on disk, never applied
  * - `missing` — applied, no longer on disk
  * - `outOfOrder` — pending files whose timestamp sits behind an already
@@ -113,6 +114,19 @@ export function discoverMigrations(migrationsPath: string): DiscoveredMigration[
   return discovered;
 }
 
+/**
+ * Finds the migration a reference names: its filename (a path is reduced to
+ * the filename) or its timestamp.
+ *
+ * @param migrations - Discovered migrations, or anything else named by filename
+ * @param ref - Filename, path or timestamp
+ * @returns The migration, or undefined when none matches
+ */
+export function resolveMigrationRef<T extends { name: string }>(migrations: T[], ref: string): T | undefined {
+  const name = path.basename(ref);
+  return migrations.find((migration) => migration.name === name || migration.name.startsWith(`${name}_`));
+}
+
 /**
  * Builds the replay plan for a migrations directory.
  *
@@ -141,11 +155,23 @@ export function planMigrationReplay(migrationsPath: string, options: PlanOptions
   const appliedNames = new Set(applied.entries.map((entry) => entry.file));
   const onDisk = new Set(discovered.map((migration) => migration.name));
 
+  // A squash (see squash.ts) names its snapshot after the newest file it
+  // replaced. Until PocketBase runs it, that snapshot is the only record on
+  // disk of the state the replaced — applied, now missing — files left
+  const missingTimestamps = new Set(
+    applied.entries
+      .filter((entry) => !onDisk.has(entry.file))
+      .map((entry) => extractTimestampFromFilename(entry.file))
+      .filter((timestamp) => timestamp !== null)
+  );
+  const isCheckpoint = (migration: DiscoveredMigration) =>
+    appliedNames.has(migration.name) || (migration.isSnapshot && missingTimestamps.has(migration.timestamp));
+
   // Start from the newest snapshot that was actually applied: a snapshot
   // sitting on disk unapplied is not a checkpoint the database ever reached
-  const snapshot = lastSnapshot(discovered.filter((migration) => appliedNames.has(migration.name)));
+  const snapshot = lastSnapshot(discovered.filter(isCheckpoint));
   const filesToReplay = replayWindow(discovered, snapshot)
-    .filter((migration) => appliedNames.has(migration.name))
+    .filter((migration) => appliedNames.has(migration.name) || migration === snapshot)
     .map((migration) => migration.path);
 
   const pendingMigrations = discovered.filter((migration) => !appliedNames.has(migration.name));
@@ -181,6 +181,30 @@ export class RecordModel {
     this.original = { ...this.data };
   }
 
+  /**
+   * Follows a collection save that changed the record's columns: dropped
+   * fields lose their values, renamed fields carry them over, and multi-value
+   * fields whose `maxSelect` crossed 1 switch between a value and a list
+   */
+  applyColumnChanges(changes: ColumnChanges): void {
+    for (const values of [this.data, this.original]) {
+      const moved = changes.renamed.map(([from, to]) => [to, values[from]] as const);
+      for (const column of [...changes.dropped, ...changes.renamed.map(([from]) => from)]) {
+        delete values[column];
+      }
+      for (const [to, value] of moved) {
+        if (value !== undefined) {
+          values[to] = value;
+        }
+      }
+      for (const { column, multiple } of changes.cardinality) {
+        if (column in values) {
+          values[column] = normalizeCardinality(values[column], multiple);
+        }
+      }
+    }
+  }
+
   /** Fields the record carries that the collection does not declare */
   undeclaredFields(): string[] {
     const declared = new Set<string>(SYSTEM_RECORD_FIELDS);
@@ -193,18 +217,77 @@ export class RecordModel {
   }
 }
 
+/** How a collection save moved the columns its rows are stored under */
+export interface ColumnChanges {
+  /** Columns of removed fields */
+  dropped: string[];
+  /** Columns of renamed fields, as [old name, new name] */
+  renamed: Array<[string, string]>;
+  /** Select, relation and file fields whose `maxSelect` crossed 1 */
+  cardinality: Array<{ column: string; multiple: boolean }>;
+}
+
+/** What a field's column looked like at the collection's last save */
+interface ColumnShape {
+  name: string;
+  /** Multi-value field types only: whether the column holds a list */
+  multiple?: boolean;
+}
+
+const MULTI_VALUE_TYPES = new Set(["select", "relation", "file"]);
+
+/**
+ * PocketBase rewrites stored values when `maxSelect` crosses 1: a single
+ * value becomes a one-element list, and a list keeps its last element.
+ */
+function normalizeCardinality(value: unknown, multiple: boolean): unknown {
+  if (multiple) {
+    if (Array.isArray(value)) {
+      return value;
+    }
+    return value === null || value === undefined || value === "" ? [] : [value];
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value[value.length - 1] : "";
+  }
+  return value;
+}
+
+function columnShapes(collection: Collection): Map<string, ColumnShape> {
+  const shapes = new Map<string, ColumnShape>();
+  for (const field of collection.fields) {
+    if (typeof field.id !== "string" || typeof field.name !== "string") {
+      continue;
+    }
+    shapes.set(
+      field.id,
+      MULTI_VALUE_TYPES.has(field.type) ? { name: field.name, multiple: (field.maxSelect ?? 1) > 1 } : { name: field.name }
+    );
+  }
+  return shapes;
+}
+
 /**
  * Rows, keyed by collection id then record id. Insertion order is preserved
  * so unsorted queries come back the way they went in.
  */
 export class RecordStore {
   private byCollection = new Map<string, Map<string, RecordModel>>();
+  /**
+   * Each collection's columns as of its last save. A migration mutates the
+   * collection object it holds before saving it, so the previous columns
+   * cannot be read off the collection itself.
+   */
+  private columns = new Map<string, Map<string, ColumnShape>>();
 
   save(record: RecordModel): RecordModel {
     if (record.id === "") {
       record.id = generateRecordId();
     }
     const collection = record.collection();
+    if (!this.columns.has(collection.id)) {
+      this.columns.set(collection.id, columnShapes(collection));
+    }
     const rows = this.rowsFor(collection.id);
     rows.set(record.id, record);
     record.markPersisted();
@@ -234,6 +317,42 @@ export class RecordStore {
   /** Drops every row of a collection (what deleting the collection does) */
   dropCollection(collectionId: string): void {
     this.byCollection.delete(collectionId);
+    this.columns.delete(collectionId);
+  }
+
+  /**
+   * Brings a collection's rows in line with the collection just saved, the
+   * way PocketBase alters the table: columns follow their field by id.
+   */
+  syncColumns(collection: Collection): void {
+    const previous = this.columns.get(collection.id);
+    const current = columnShapes(collection);
+    this.columns.set(collection.id, current);
+    if (!previous) {
+      return;
+    }
+
+    const changes: ColumnChanges = { dropped: [], renamed: [], cardinality: [] };
+    for (const [fieldId, before] of previous) {
+      const after = current.get(fieldId);
+      if (!after) {
+        changes.dropped.push(before.name);
+        continue;
+      }
+      if (after.name !== before.name) {
+        changes.renamed.push([before.name, after.name]);
+      }
+      if (after.multiple !== undefined && before.multiple !== undefined && after.multiple !== before.multiple) {
+        changes.cardinality.push({ column: after.name, multiple: after.multiple });
+      }
+    }
+
+    if (changes.dropped.length + changes.renamed.length + changes.cardinality.length === 0) {
+      return;
+    }
+    for (const record of this.list(collection.id)) {
+      record.applyColumnChanges(changes);
+    }
   }
 
   /** Every collection id that currently holds at least one record */
@@ -260,12 +379,18 @@ export class RecordStore {
       }
       copy.byCollection.set(collectionId, copiedRows);
     }
+    for (const [collectionId, shapes] of this.columns.entries()) {
+      if (resolveCollection(collectionId)) {
+        copy.columns.set(collectionId, structuredClone(shapes));
+      }
+    }
     return copy;
   }
 
   /** Commit: adopt another store's rows */
   replaceWith(other: RecordStore): void {
     this.byCollection = new Map(other.byCollection);
+    this.columns = new Map(other.columns);
   }
 
   private rowsFor(collectionId: string): Map<string, RecordModel> {
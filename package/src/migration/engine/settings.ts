@@ -0,0 +1,109 @@
+/**
+ * Settings — what `app.settings()` hands a migration
+ *
+ * PocketBase keeps its app settings in one `_params` row, not in a
+ * collection. A migration reads them with `app.settings()`, edits the copy
+ * (directly or with `unmarshal`) and stores it with `app.save(settings)`.
+ * The store holds them as plain data, starting from the settings a fresh
+ * PocketBase has.
+ */
+
+/** Settings as plain data, in PocketBase's JSON shape */
+export type RawSettings = Record<string, any>;
+
+/**
+ * The settings a new PocketBase instance starts with (core/settings_model.go)
+ * Only the groups migrations can manage are listed
+ */
+export const DEFAULT_SETTINGS: RawSettings = {
+  meta: {
+    appName: "Acme",
+    appURL: "http://localhost:8090",
+    senderName: "Support",
+    senderAddress: "support@example.com",
+    hideControls: false,
+  },
+  smtp: {
+    enabled: false,
+    host: "smtp.example.com",
+    port: 587,
+    username: "",
+    password: "",
+    authMethod: "",
+    tls: false,
+    localName: "",
+  },
+  s3: {
+    enabled: false,
+    bucket: "",
+    region: "",
+    endpoint: "",
+    accessKey: "",
+    secret: "",
+    forcePathStyle: false,
+  },
+  backups: {
+    cron: "",
+    cronMaxKeep: 3,
+    s3: {
+      enabled: false,
+      bucket: "",
+      region: "",
+      endpoint: "",
+      accessKey: "",
+      secret: "",
+      forcePathStyle: false,
+    },
+  },
+  trustedProxy: {
+    headers: [],
+    useLeftmostIP: false,
+  },
+  rateLimits: {
+    enabled: false,
+    rules: [
+      { label: "*:auth", audience: "", duration: 3, maxRequests: 2 },
+      { label: "*:create", audience: "", duration: 5, maxRequests: 20 },
+      { label: "/api/batch", audience: "", duration: 1, maxRequests: 3 },
+      { label: "/api/", audience: "", duration: 10, maxRequests: 300 },
+    ],
+  },
+  batch: {
+    enabled: false,
+    maxRequests: 50,
+    timeout: 3,
+    maxBodySize: 0,
+  },
+};
+
+/**
+ * Deep copy of settings data
+ *
+ * Not structuredClone: a value read with `$os.getenv()` is an inert stub (a
+ * Proxy), which is kept as is so the variable it names survives the copy.
+ */
+export function copySettings<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((entry) => copySettings(entry)) as T;
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, copySettings(entry)])) as T;
+  }
+  return value;
+}
+
+/**
+ * The settings object `app.settings()` returns: a copy, which only
+ * `app.save()` stores back
+ */
+export class Settings {
+  [key: string]: any;
+
+  constructor(data: RawSettings = DEFAULT_SETTINGS) {
+    Object.assign(this, copySettings(data));
+  }
+
+  serialize(): RawSettings {
+    return copySettings({ ...this });
+  }
+}
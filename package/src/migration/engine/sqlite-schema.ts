@@ -0,0 +1,344 @@
+/**
+ * SQL for PocketBase's on-disk format
+ *
+ * PocketBase stores every base and auth collection as a table named after it,
+ * with one column per field, and every view collection as a SQL view. This
+ * module turns collections (as the engine serializes them) into that DDL, and
+ * records into rows, without touching a database — `database-apply.ts` runs
+ * what it produces.
+ *
+ * Schema changes follow PocketBase's own table sync: columns are matched to
+ * fields by field id, so a renamed field renames its column and keeps its
+ * data. A select, relation or file field whose `maxSelect` crosses 1 switches
+ * its column between a plain value and a JSON list.
+ */
+
+import { indexName } from "../utils/index-statements";
+import type { RawCollection } from "./types";
+
+/** One statement and its bound parameters */
+export interface SqlStatement {
+  sql: string;
+  params: unknown[];
+}
+
+/** The field types whose column holds a list once `maxSelect` exceeds 1 */
+const MULTI_VALUE_TYPES = new Set(["select", "relation", "file"]);
+
+/** PocketBase's timestamp format, `2006-01-02 15:04:05.000Z` */
+export function formatTimestamp(date: Date = new Date()): string {
+  return date.toISOString().replace("T", " ");
+}
+
+/** Quotes an identifier for SQLite */
+export function quoteIdentifier(name: string): string {
+  return `\`${name.replace(/`/g, "``")}\``;
+}
+
+/** Whether a field's column holds a JSON list */
+function isMultiple(field: RawCollection): boolean {
+  return MULTI_VALUE_TYPES.has(field.type) && Number(field.maxSelect ?? 1) > 1;
+}
+
+/** Whether a field's column holds JSON text */
+function isJsonColumn(field: RawCollection): boolean {
+  return field.type === "json" || field.type === "geoPoint" || isMultiple(field);
+}
+
+/**
+ * A field's column type and default, as PocketBase declares it
+ *
+ * @param field - A serialized field
+ */
+export function columnType(field: RawCollection): string {
+  if (field.primaryKey === true) {
+    return "TEXT PRIMARY KEY DEFAULT ('r'||lower(hex(randomblob(7)))) NOT NULL";
+  }
+  switch (field.type) {
+    case "number":
+      return "NUMERIC DEFAULT 0 NOT NULL";
+    case "bool":
+      return "BOOLEAN DEFAULT FALSE NOT NULL";
+    case "json":
+      return "JSON DEFAULT NULL";
+    case "geoPoint":
+      return `JSON DEFAULT '{"lon":0,"lat":0}' NOT NULL`;
+    default:
+      return isMultiple(field) ? "JSON DEFAULT '[]' NOT NULL" : "TEXT DEFAULT '' NOT NULL";
+  }
+}
+
+function tableFields(collection: RawCollection): RawCollection[] {
+  return (Array.isArray(collection.fields) ? collection.fields : []).filter(
+    (field: RawCollection) => typeof field.name === "string" && field.name !== ""
+  );
+}
+
+function isTable(collection: RawCollection | undefined): collection is RawCollection {
+  return collection !== undefined && collection.type !== "view";
+}
+
+function indexes(collection: RawCollection): string[] {
+  return Array.isArray(collection.indexes) ? collection.indexes : [];
+}
+
+function dropIndexes(collection: RawCollection): string[] {
+  return indexes(collection)
+    .map((index) => indexName(index))
+    .filter((name): name is string => name !== null)
+    .map((name) => `DROP INDEX IF EXISTS ${quoteIdentifier(name)}`);
+}
+
+/**
+ * Creates a collection: its table and indexes, or its view
+ *
+ * @param collection - A serialized collection
+ */
+export function createCollectionStatements(collection: RawCollection): string[] {
+  if (collection.type === "view") {
+    return [`CREATE VIEW ${quoteIdentifier(collection.name)} AS ${String(collection.viewQuery ?? "").trim()}`];
+  }
+  const columns = tableFields(collection).map((field) => `${quoteIdentifier(field.name)} ${columnType(field)}`);
+  return [`CREATE TABLE ${quoteIdentifier(collection.name)} (${columns.join(", ")})`, ...indexes(collection)];
+}
+
+/**
+ * Moves a column between a plain value and a JSON list, keeping the last
+ * element of a list and wrapping a value, as PocketBase does
+ */
+function cardinalityStatements(table: string, field: RawCollection): string[] {
+  const column = quoteIdentifier(field.name);
+  const temporary = quoteIdentifier(`${field.name}__pbzs_tmp`);
+  const converted = isMultiple(field)
+    ? `CASE WHEN ${column} IS NULL OR ${column} = '' THEN '[]' ` +
+      `WHEN json_valid(${column}) AND json_type(${column}) = 'array' THEN ${column} ` +
+      `ELSE json_array(${column}) END`
+    : `CASE WHEN json_valid(${column}) AND json_type(${column}) = 'array' ` +
+      `THEN COALESCE(json_extract(${column}, '$[#-1]'), '') ELSE COALESCE(${column}, '') END`;
+
+  return [
+    `ALTER TABLE ${table} ADD COLUMN ${temporary} ${columnType(field)}`,
+    `UPDATE ${table} SET ${temporary} = ${converted}`,
+    `ALTER TABLE ${table} DROP COLUMN ${column}`,
+    `ALTER TABLE ${table} RENAME COLUMN ${temporary} TO ${column}`,
+  ];
+}
+
+/** Brings an existing table from one version of its collection to the next */
+function alterTableStatements(before: RawCollection, after: RawCollection): string[] {
+  const statements = dropIndexes(before);
+  let table = quoteIdentifier(before.name);
+  if (before.name !== after.name) {
+    statements.push(`ALTER TABLE ${table} RENAME TO ${quoteIdentifier(after.name)}`);
+    table = quoteIdentifier(after.name);
+  }
+
+  const previous = new Map(tableFields(before).map((field) => [field.id, field]));
+  const current = new Set(tableFields(after).map((field) => field.id));
+
+  for (const field of tableFields(before)) {
+    if (!current.has(field.id) && field.primaryKey !== true) {
+      statements.push(`ALTER TABLE ${table} DROP COLUMN ${quoteIdentifier(field.name)}`);
+    }
+  }
+  for (const field of tableFields(after)) {
+    const old = previous.get(field.id);
+    if (!old) {
+      statements.push(`ALTER TABLE ${table} ADD COLUMN ${quoteIdentifier(field.name)} ${columnType(field)}`);
+      continue;
+    }
+    if (old.name !== field.name) {
+      statements.push(
+        `ALTER TABLE ${table} RENAME COLUMN ${quoteIdentifier(old.name)} TO ${quoteIdentifier(field.name)}`
+      );
+    }
+    if (MULTI_VALUE_TYPES.has(field.type) && isMultiple(old) !== isMultiple(field)) {
+      statements.push(...cardinalityStatements(table, field));
+    }
+  }
+
+  statements.push(...indexes(after));
+  return statements;
+}
+
+/**
+ * The DDL that takes a database from one set of collections to another
+ *
+ * Views are dropped first and created last, so no table change trips over a
+ * view that selects from it. Collections are matched by id.
+ *
+ * @param before - The collections the database holds
+ * @param after - The collections it should hold
+ */
+export function schemaChangeStatements(before: RawCollection[], after: RawCollection[]): string[] {
+  const previous = new Map(before.map((collection) => [collection.id, collection]));
+  const current = new Map(after.map((collection) => [collection.id, collection]));
+  const statements: string[] = [];
+
+  for (const collection of before) {
+    if (collection.type === "view") {
+      statements.push(`DROP VIEW IF EXISTS ${quoteIdentifier(collection.name)}`);
+    }
+  }
+  for (const collection of before) {
+    if (isTable(collection) && !isTable(current.get(collection.id))) {
+      statements.push(`DROP TABLE IF EXISTS ${quoteIdentifier(collection.name)}`);
+    }
+  }
+  for (const collection of after) {
+    if (!isTable(collection)) {
+      continue;
+    }
+    const old = previous.get(collection.id);
+    if (!isTable(old)) {
+      statements.push(...createCollectionStatements(collection));
+    } else if (JSON.stringify(schemaOf(old)) !== JSON.stringify(schemaOf(collection))) {
+      statements.push(...alterTableStatements(old, collection));
+    }
+  }
+  for (const collection of after) {
+    if (collection.type === "view") {
+      statements.push(...createCollectionStatements(collection));
+    }
+  }
+
+  return statements;
+}
+
+/** What a table's DDL depends on */
+function schemaOf(collection: RawCollection): unknown {
+  return {
+    name: collection.name,
+    fields: tableFields(collection).map((field) => [field.id, field.name, columnType(field)]),
+    indexes: indexes(collection),
+  };
+}
+
+/**
+ * A record value as its column stores it
+ *
+ * @param field - The field the column belongs to
+ * @param value - The value the record holds
+ */
+export function toColumnValue(field: RawCollection, value: unknown): unknown {
+  switch (field.type) {
+    case "bool":
+      return value === true || value === 1 || value === "1" || value === "true" ? 1 : 0;
+    case "number": {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : 0;
+    }
+    case "json":
+      return value === undefined || value === null ? null : JSON.stringify(value);
+    case "geoPoint":
+      return JSON.stringify(value && typeof value === "object" ? value : { lon: 0, lat: 0 });
+  }
+  if (isMultiple(field)) {
+    const list = Array.isArray(value) ? value : value === undefined || value === null || value === "" ? [] : [value];
+    return JSON.stringify(list);
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? String(value[value.length - 1]) : "";
+  }
+  return value === undefined || value === null ? "" : String(value);
+}
+
+/**
+ * A column value as a record holds it — the inverse of toColumnValue()
+ *
+ * @param field - The field the column belongs to
+ * @param value - The value SQLite returned
+ */
+export function fromColumnValue(field: RawCollection, value: unknown): unknown {
+  if (field.type === "bool") {
+    return Number(value) === 1 || value === true;
+  }
+  if (field.type === "number") {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : 0;
+  }
+  if (isJsonColumn(field)) {
+    if (typeof value !== "string" || value === "") {
+      return value === "" && isMultiple(field) ? [] : (value ?? null);
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * A stored row as record data, keyed by field name
+ *
+ * @param collection - The collection the row belongs to
+ * @param row - The row as SQLite returned it
+ */
+export function rowToRecordData(collection: RawCollection, row: Record<string, unknown>): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  for (const field of tableFields(collection)) {
+    if (field.name in row) {
+      data[field.name] = fromColumnValue(field, row[field.name]);
+    }
+  }
+  return data;
+}
+
+/**
+ * Record data as the row PocketBase stores, with a column for every field
+ *
+ * @param collection - The collection the record belongs to
+ * @param data - The record's values, keyed by field name
+ */
+export function recordDataToRow(collection: RawCollection, data: Record<string, unknown>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const field of tableFields(collection)) {
+    row[field.name] = toColumnValue(field, data[field.name]);
+  }
+  return row;
+}
+
+/**
+ * A parameterized INSERT of a whole row
+ *
+ * @param table - The table to insert into
+ * @param row - Column values, keyed by column name
+ */
+export function insertStatement(table: string, row: Record<string, unknown>): SqlStatement {
+  const columns = Object.keys(row);
+  return {
+    sql:
+      `INSERT INTO ${quoteIdentifier(table)} (${columns.map((column) => quoteIdentifier(column)).join(", ")}) ` +
+      `VALUES (${columns.map(() => "?").join(", ")})`,
+    params: columns.map((column) => row[column]),
+  };
+}
+
+/**
+ * A parameterized UPDATE of some columns of the row with the given id
+ *
+ * @param table - The table to update
+ * @param id - The row's id
+ * @param changes - The columns to set, keyed by column name
+ */
+export function updateStatement(table: string, id: string, changes: Record<string, unknown>): SqlStatement {
+  const columns = Object.keys(changes);
+  return {
+    sql:
+      `UPDATE ${quoteIdentifier(table)} SET ${columns.map((column) => `${quoteIdentifier(column)} = ?`).join(", ")} ` +
+      `WHERE ${quoteIdentifier("id")} = ?`,
+    params: [...columns.map((column) => changes[column]), id],
+  };
+}
+
+/**
+ * A parameterized DELETE of the row with the given id
+ *
+ * @param table - The table to delete from
+ * @param id - The row's id
+ */
+export function deleteStatement(table: string, id: string): SqlStatement {
+  return { sql: `DELETE FROM ${quoteIdentifier(table)} WHERE ${quoteIdentifier("id")} = ?`, params: [id] };
+}
@@ -0,0 +1,92 @@
+/**
+ * node:sqlite access, shared by everything that reads (or, for `apply`,
+ * writes) pb_data/data.db
+ *
+ * Node's built-in `node:sqlite` (Node >= 22.5) is fetched through
+ * `process.getBuiltinModule` so neither the ESM nor the CJS bundle carries a
+ * hard dependency on it — the rest of the engine runs on runtimes that do not
+ * ship it.
+ */
+
+export interface SqliteStatement {
+  all: (...params: unknown[]) => unknown[];
+  run: (...params: unknown[]) => unknown;
+}
+
+export interface SqliteDatabase {
+  prepare: (sql: string) => SqliteStatement;
+  exec: (sql: string) => void;
+  close: () => void;
+}
+
+export interface SqliteModule {
+  DatabaseSync: new (path: string, options?: { readOnly?: boolean }) => SqliteDatabase;
+}
+
+/**
+ * Loads node:sqlite without a static import. Returns null on runtimes that do
+ * not ship it.
+ */
+export function loadSqliteModule(): SqliteModule | null {
+  const getBuiltinModule = (process as NodeJS.Process & { getBuiltinModule?: (id: string) => unknown })
+    .getBuiltinModule;
+  if (typeof getBuiltinModule !== "function") {
+    return null;
+  }
+  try {
+    const module = withoutSqliteExperimentalWarning(() => getBuiltinModule("node:sqlite") as SqliteModule | undefined);
+    return module && typeof module.DatabaseSync === "function" ? module : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Opens a database file **read-only**, so a running PocketBase instance is
+ * never disturbed. Throws whatever node:sqlite throws.
+ */
+export function openReadOnlyDatabase(sqlite: SqliteModule, databasePath: string): SqliteDatabase {
+  return withoutSqliteExperimentalWarning(() => new sqlite.DatabaseSync(databasePath, { readOnly: true }));
+}
+
+/**
+ * Opens a database file for writing, creating it when it does not exist.
+ * Only `apply` does this; PocketBase must not be running against the file.
+ */
+export function openWritableDatabase(sqlite: SqliteModule, databasePath: string): SqliteDatabase {
+  return withoutSqliteExperimentalWarning(() => new sqlite.DatabaseSync(databasePath));
+}
+
+/** Closes a database, ignoring failures: they cannot invalidate rows already read */
+export function closeQuietly(database: SqliteDatabase): void {
+  try {
+    database.close();
+  } catch {
+    // A close failure cannot invalidate rows already read
+  }
+}
+
+/**
+ * node:sqlite emits an ExperimentalWarning on load and on open. Reading a
+ * read-only table is a bounded, deliberate use of it, and a CLI that prints a
+ * Node warning every time someone runs `status --verify` is just noise —
+ * so the warning is dropped for the duration of the call, and only that one.
+ */
+export function withoutSqliteExperimentalWarning<T>(operation: () => T): T {
+  const original = process.emitWarning;
+
+  process.emitWarning = ((warning: unknown, ...rest: unknown[]) => {
+    const name = typeof warning === "object" && warning !== null ? (warning as Error).name : rest[0];
+    const message = typeof warning === "string" ? warning : ((warning as Error)?.message ?? "");
+    if (name === "ExperimentalWarning" && /sqlite/i.test(message)) {
+      return;
+    }
+    (original as (...args: unknown[]) => void).call(process, warning, ...rest);
+  }) as typeof process.emitWarning;
+
+  try {
+    return operation();
+  } finally {
+    process.emitWarning = original;
+  }
+}
@@ -19,10 +19,14 @@
  *   compared (`min: 0` vs `min: 5` is a real difference).
  * - API rules are exempt from that rule: `null` (superuser only) and `""`
  *   (public) are different permissions, so only absent ≡ `null` holds.
+ * - Auth options (`otp`, `oauth2`, ...) that one side does not set agree
+ *   with any value: PocketBase fills in its defaults for them, which this
+ *   module does not know.
  * - Index order is not meaningful; index lists are compared as sets.
  * - Field order is not compared unless `strictFieldOrder` is set.
  */
 
+import { AUTH_OPTION_KEYS } from "../auth-options";
 import type { CollectionStore } from "./store";
 import type { RawCollection } from "./types";
 
@@ -63,6 +67,9 @@ const DEFAULT_IGNORED_KEYS = ["created", "updated"];
 /** Rules where absent means "superuser only" and "" means "public" */
 const RULE_KEYS = new Set(["listRule", "viewRule", "createRule", "updateRule", "deleteRule", "manageRule", "authRule"]);
 
+/** Auth collection settings, compared only where both sides set them */
+const AUTH_OPTION_KEY_SET = new Set<string>(AUTH_OPTION_KEYS);
+
 /** Handled structurally rather than as plain properties */
 const STRUCTURAL_KEYS = new Set(["fields", "indexes"]);
 
@@ -301,12 +308,30 @@ function valuesAgree(key: string, expected: unknown, actual: unknown): boolean {
   if (RULE_KEYS.has(key)) {
     return deepEqual(expected ?? null, actual ?? null);
   }
+  if (AUTH_OPTION_KEY_SET.has(key)) {
+    return authOptionsAgree(expected, actual);
+  }
   if (expected === undefined || actual === undefined) {
     return isUnset(expected) && isUnset(actual);
   }
   return deepEqual(expected, actual);
 }
 
+/** Auth options agree wherever one side leaves a value to PocketBase's default */
+function authOptionsAgree(expected: unknown, actual: unknown): boolean {
+  if (expected === undefined || actual === undefined) {
+    return true;
+  }
+  if (isPlainRecord(expected) && isPlainRecord(actual)) {
+    return unionKeys(expected, actual).every((key) => authOptionsAgree(expected[key], actual[key]));
+  }
+  return deepEqual(expected, actual);
+}
+
+function isPlainRecord(value: unknown): value is RawCollection {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
 /** Values that carry no constraint; an undeclared option means the same */
 function isUnset(value: unknown): boolean {
   return (
@@ -10,8 +10,10 @@
 
 import { rawCollectionsToSnapshot } from "../pocketbase-converter";
 import type { SchemaSnapshot } from "../types";
+import { isInertStub } from "./app";
 import { Collection } from "./collection";
 import { RecordStore } from "./records";
+import { copySettings, DEFAULT_SETTINGS, type RawSettings } from "./settings";
 import type { RawCollection } from "./types";
 
 /** PocketBase's fixed id for the default users auth collection */
@@ -27,6 +29,9 @@ export class CollectionStore {
    */
   readonly records = new RecordStore();
 
+  /** The app settings, as the last `app.save(settings)` left them */
+  settings: RawSettings = copySettings(DEFAULT_SETTINGS);
+
   list(): Collection[] {
     return [...this.byId.values()];
   }
@@ -67,11 +72,12 @@ export class CollectionStore {
   clone(): CollectionStore {
     const copy = new CollectionStore();
     for (const collection of this.byId.values()) {
-      copy.upsert(new Collection(structuredClone(collection.serialize())));
+      copy.upsert(new Collection(structuredClone(serializeCollection(collection))));
     }
     // Rows are rebound to the copied collections, so a record's collection()
     // sees the schema of the transaction it is running in
     copy.records.replaceWith(this.records.clone((id) => copy.getById(id)));
+    copy.settings = copySettings(this.settings);
     return copy;
   }
 
@@ -79,10 +85,11 @@ export class CollectionStore {
   replaceWith(other: CollectionStore): void {
     this.byId = new Map(other.byId);
     this.records.replaceWith(other.records);
+    this.settings = other.settings;
   }
 
   serialize(): RawCollection[] {
-    return this.list().map((collection) => collection.serialize());
+    return this.list().map((collection) => serializeCollection(collection));
   }
 
   /** Convert to the internal schema model used by diff/compare */
@@ -90,3 +97,27 @@ export class CollectionStore {
     return rawCollectionsToSnapshot(this.serialize());
   }
 }
+
+/**
+ * A collection as plain data
+ *
+ * A value taken from an unsimulated API - typically a secret read with
+ * `$os.getenv()` - is stored as the empty string, which is what PocketBase
+ * reads from an unset environment variable.
+ */
+function serializeCollection(collection: Collection): RawCollection {
+  return settleInertStubs(collection.serialize()) as RawCollection;
+}
+
+function settleInertStubs(value: unknown): unknown {
+  if (isInertStub(value)) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => settleInertStubs(entry));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, settleInertStubs(entry)]));
+  }
+  return value;
+}
@@ -0,0 +1,410 @@
+/**
+ * What PocketBase puts in a database before any JS migration runs
+ *
+ * `apply` writes a database PocketBase has never opened, so it has to leave
+ * it the way PocketBase's own init migration (`1640988000_init.go`) would:
+ * the internal `_params`, `_collections` and `_migrations` tables, the system
+ * collections behind MFA, OTP, auth origins and external auths, the
+ * superusers collection, and the default `users` collection. Only the init
+ * migration is recorded as applied; PocketBase runs its later core
+ * migrations itself on first start, as it would after its own init.
+ *
+ * It also fills in what PocketBase adds to a collection when saving it and a
+ * migration never states: the `id` field, the auth collections' unique
+ * `tokenKey`/`email` indexes, their options and token secrets, and the email
+ * templates.
+ */
+
+import { randomBytes } from "crypto";
+import { AUTH_OPTION_DEFAULTS } from "../auth-options";
+import { AUTH_SYSTEM_FIELDS, Collection, ensureAuthSystemFields } from "./collection";
+import { generateRuntimeFieldId } from "./fields";
+import type { RawCollection } from "./types";
+
+/** The Go core migration that creates the tables below */
+export const POCKETBASE_INIT_MIGRATION = "1640988000_init.go";
+
+/** PocketBase's fixed id for the default users auth collection */
+const USERS_AUTH_ID = "_pb_users_auth_";
+
+/** SQLite's expression for a PocketBase timestamp, `2006-01-02 15:04:05.000Z` */
+const NOW_SQL = "(strftime('%Y-%m-%d %H:%M:%fZ'))";
+
+/** The internal tables, as the init migration creates them */
+export const POCKETBASE_CORE_TABLES_SQL: string[] = [
+  `CREATE TABLE \`_params\` (
+  \`id\` TEXT PRIMARY KEY DEFAULT ('r'||lower(hex(randomblob(7)))) NOT NULL,
+  \`value\` JSON DEFAULT NULL,
+  \`created\` TEXT DEFAULT ${NOW_SQL} NOT NULL,
+  \`updated\` TEXT DEFAULT ${NOW_SQL} NOT NULL
+)`,
+  `CREATE TABLE \`_collections\` (
+  \`id\` TEXT PRIMARY KEY DEFAULT ('r'||lower(hex(randomblob(7)))) NOT NULL,
+  \`system\` BOOLEAN DEFAULT FALSE NOT NULL,
+  \`type\` TEXT DEFAULT 'base' NOT NULL,
+  \`name\` TEXT UNIQUE NOT NULL,
+  \`fields\` JSON DEFAULT '[]' NOT NULL,
+  \`indexes\` JSON DEFAULT '[]' NOT NULL,
+  \`listRule\` TEXT DEFAULT NULL,
+  \`viewRule\` TEXT DEFAULT NULL,
+  \`createRule\` TEXT DEFAULT NULL,
+  \`updateRule\` TEXT DEFAULT NULL,
+  \`deleteRule\` TEXT DEFAULT NULL,
+  \`options\` JSON DEFAULT '{}' NOT NULL,
+  \`created\` TEXT DEFAULT ${NOW_SQL} NOT NULL,
+  \`updated\` TEXT DEFAULT ${NOW_SQL} NOT NULL
+)`,
+  "CREATE INDEX IF NOT EXISTS `idx__collections_type` ON `_collections` (`type`)",
+  "CREATE TABLE IF NOT EXISTS `_migrations` (`file` VARCHAR(255) PRIMARY KEY NOT NULL, `applied` INTEGER NOT NULL)",
+];
+
+/** Token options that carry a signing secret */
+const TOKEN_OPTION_KEYS = ["authToken", "passwordResetToken", "emailChangeToken", "verificationToken", "fileToken"];
+
+/** A template whose button links to one of the dashboard's auth routes */
+function actionTemplate(intro: string, action: string, route: string, outro = ""): string {
+  return [
+    "<p>Hello,</p>",
+    `<p>${intro}</p>`,
+    "<p>",
+    `  <a class="btn" href="{APP_URL}/_/#/auth/${route}/{TOKEN}" target="_blank" rel="noopener">${action}</a>`,
+    "</p>",
+    ...(outro ? [`<p><i>${outro}</i></p>`] : []),
+    "<p>",
+    "  Thanks,<br/>",
+    "  {APP_NAME} team",
+    "</p>",
+  ].join("\n");
+}
+
+/**
+ * The email templates a new auth collection starts with, modeled on
+ * PocketBase's defaults. PocketBase refuses to save an auth collection with
+ * an empty template, so a database without them could not be edited in the
+ * dashboard.
+ */
+const AUTH_TEMPLATE_DEFAULTS: Record<string, any> = {
+  verificationTemplate: {
+    subject: "Verify your {APP_NAME} email",
+    body: actionTemplate(
+      "Thank you for joining us at {APP_NAME}. Click on the button below to verify your email address.",
+      "Verify",
+      "confirm-verification"
+    ),
+  },
+  resetPasswordTemplate: {
+    subject: "Reset your {APP_NAME} password",
+    body: actionTemplate(
+      "Click on the button below to reset your password.",
+      "Reset password",
+      "confirm-password-reset",
+      "If you didn't ask to reset your password, you can ignore this email."
+    ),
+  },
+  confirmEmailChangeTemplate: {
+    subject: "Confirm your {APP_NAME} new email address",
+    body: actionTemplate(
+      "Click on the button below to confirm your new email address.",
+      "Confirm new email",
+      "confirm-email-change",
+      "If you didn't ask to change your email address, you can ignore this email."
+    ),
+  },
+};
+
+const AUTH_ALERT_TEMPLATE = {
+  subject: "Login from a new location",
+  body: [
+    "<p>Hello,</p>",
+    "<p>We noticed a login to your {APP_NAME} account from a new location: <em>{ALERT_INFO}</em></p>",
+    "<p><strong>If this wasn't you, you should immediately change your {APP_NAME} account password.</strong></p>",
+    "<p>",
+    "  Thanks,<br/>",
+    "  {APP_NAME} team",
+    "</p>",
+  ].join("\n"),
+};
+
+const OTP_TEMPLATE = {
+  subject: "OTP for {APP_NAME}",
+  body: [
+    "<p>Hello,</p>",
+    "<p>Your one-time password is: <strong>{OTP}</strong></p>",
+    "<p><i>If you didn't ask for the one-time password, you can ignore this email.</i></p>",
+    "<p>",
+    "  Thanks,<br/>",
+    "  {APP_NAME} team",
+    "</p>",
+  ].join("\n"),
+};
+
+/** The `id` field PocketBase gives every collection that does not declare one */
+export function primaryKeyField(): RawCollection {
+  return {
+    autogeneratePattern: "[a-z0-9]{15}",
+    hidden: false,
+    id: generateRuntimeFieldId("text", "id"),
+    max: 15,
+    min: 15,
+    name: "id",
+    pattern: "^[a-z0-9]+$",
+    presentable: false,
+    primaryKey: true,
+    required: true,
+    system: true,
+    type: "text",
+  };
+}
+
+function textField(name: string, extra: RawCollection = {}): RawCollection {
+  return {
+    autogeneratePattern: "",
+    hidden: false,
+    id: generateRuntimeFieldId("text", name),
+    max: 0,
+    min: 0,
+    name,
+    pattern: "",
+    presentable: false,
+    primaryKey: false,
+    required: false,
+    system: false,
+    type: "text",
+    ...extra,
+  };
+}
+
+function autodateFields(system: boolean): RawCollection[] {
+  return [
+    { name: "created", onCreate: true, onUpdate: false },
+    { name: "updated", onCreate: true, onUpdate: true },
+  ].map((field) => ({
+    hidden: false,
+    id: generateRuntimeFieldId("autodate", field.name),
+    name: field.name,
+    onCreate: field.onCreate,
+    onUpdate: field.onUpdate,
+    presentable: false,
+    system,
+    type: "autodate",
+  }));
+}
+
+/** A required, system text field */
+function systemText(name: string, extra: RawCollection = {}): RawCollection {
+  return textField(name, { required: true, system: true, ...extra });
+}
+
+function systemCollection(
+  id: string,
+  name: string,
+  fields: RawCollection[],
+  indexes: string[],
+  rules: Partial<Record<"listRule" | "viewRule" | "deleteRule", string>>
+): RawCollection {
+  return {
+    id,
+    name,
+    type: "base",
+    system: true,
+    listRule: rules.listRule ?? null,
+    viewRule: rules.viewRule ?? null,
+    createRule: null,
+    updateRule: null,
+    deleteRule: rules.deleteRule ?? null,
+    fields: [primaryKeyField(), ...fields, ...autodateFields(true)],
+    indexes,
+  };
+}
+
+/**
+ * The collections the init migration creates, in the order it creates them
+ * and with PocketBase's defaults filled in
+ */
+export function pocketBaseSystemCollections(): RawCollection[] {
+  const ownerRule =
+    "@request.auth.id != '' && recordRef = @request.auth.id && collectionRef = @request.auth.collectionId";
+  const refs = [systemText("collectionRef"), systemText("recordRef")];
+
+  const collections: RawCollection[] = [
+    systemCollection(
+      "pbc_2279338944",
+      "_mfas",
+      [...refs, systemText("method")],
+      ["CREATE INDEX `idx_mfas_collectionRef_recordRef` ON `_mfas` (collectionRef,recordRef)"],
+      { listRule: ownerRule, viewRule: ownerRule }
+    ),
+    systemCollection(
+      "pbc_1638494021",
+      "_otps",
+      [
+        ...refs,
+        {
+          cost: 8,
+          hidden: true,
+          id: generateRuntimeFieldId("password", "password"),
+          max: 0,
+          min: 0,
+          name: "password",
+          pattern: "",
+          presentable: false,
+          required: true,
+          system: true,
+          type: "password",
+        },
+      ],
+      ["CREATE INDEX `idx_otps_collectionRef_recordRef` ON `_otps` (collectionRef, recordRef)"],
+      { listRule: ownerRule, viewRule: ownerRule }
+    ),
+    systemCollection(
+      "pbc_4275539003",
+      "_authOrigins",
+      [...refs, systemText("fingerprint")],
+      ["CREATE UNIQUE INDEX `idx_authOrigins_unique_pairs` ON `_authOrigins` (collectionRef, recordRef, fingerprint)"],
+      { listRule: ownerRule, viewRule: ownerRule, deleteRule: ownerRule }
+    ),
+    systemCollection(
+      "pbc_2281828961",
+      "_externalAuths",
+      [...refs, systemText("provider"), systemText("providerId")],
+      [
+        "CREATE UNIQUE INDEX `idx_externalAuths_record_provider` ON `_externalAuths` (collectionRef, recordRef, provider)",
+        "CREATE UNIQUE INDEX `idx_externalAuths_collection_provider` ON `_externalAuths` (collectionRef, provider, providerId)",
+      ],
+      { listRule: ownerRule, viewRule: ownerRule, deleteRule: ownerRule }
+    ),
+    {
+      id: "pbc_3142635823",
+      name: "_superusers",
+      type: "auth",
+      system: true,
+      listRule: null,
+      viewRule: null,
+      createRule: null,
+      updateRule: null,
+      deleteRule: null,
+      fields: [primaryKeyField(), ...structuredClone(AUTH_SYSTEM_FIELDS), ...autodateFields(true)],
+      indexes: [],
+      authToken: { duration: 86400 },
+    },
+    {
+      id: USERS_AUTH_ID,
+      name: "users",
+      type: "auth",
+      system: false,
+      listRule: "id = @request.auth.id",
+      viewRule: "id = @request.auth.id",
+      createRule: "",
+      updateRule: "id = @request.auth.id",
+      deleteRule: "id = @request.auth.id",
+      fields: [
+        primaryKeyField(),
+        ...structuredClone(AUTH_SYSTEM_FIELDS),
+        textField("name", { max: 255 }),
+        {
+          hidden: false,
+          id: generateRuntimeFieldId("file", "avatar"),
+          maxSelect: 1,
+          maxSize: 0,
+          mimeTypes: ["image/jpeg", "image/png", "image/svg+xml", "image/gif", "image/webp"],
+          name: "avatar",
+          presentable: false,
+          protected: false,
+          required: false,
+          system: false,
+          thumbs: null,
+          type: "file",
+        },
+        ...autodateFields(false),
+      ],
+      indexes: [],
+      oauth2: {
+        ...structuredClone(AUTH_OPTION_DEFAULTS.oauth2),
+        mappedFields: { id: "", name: "name", username: "", avatarURL: "avatar" },
+      },
+    },
+  ];
+
+  return collections.map((collection) => withPocketBaseDefaults(collection));
+}
+
+/** A 50-character secret, the length PocketBase generates */
+function randomSecret(): string {
+  const alphabet = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+  return [...randomBytes(50)].map((byte) => alphabet[byte % alphabet.length]).join("");
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Fills in what PocketBase adds when it saves a collection. A collection that
+ * already has them is returned unchanged, so filling in twice is a no-op.
+ *
+ * @param collection - A collection as the engine serializes it
+ * @returns A copy with the defaults in place
+ */
+export function withPocketBaseDefaults(collection: RawCollection): RawCollection {
+  const completed = structuredClone(collection);
+  if (completed.type === "view") {
+    // A view's fields come from its query, and PocketBase infers them itself
+    return completed;
+  }
+
+  const fields: RawCollection[] = Array.isArray(completed.fields) ? completed.fields : [];
+  if (!fields.some((field) => field.primaryKey === true || field.name === "id")) {
+    fields.unshift(primaryKeyField());
+  }
+  completed.fields = fields;
+
+  if (completed.type !== "auth") {
+    return completed;
+  }
+
+  const withSystemFields = new Collection(completed);
+  ensureAuthSystemFields(withSystemFields);
+  completed.fields = withSystemFields.fields.serialize();
+
+  const indexes: string[] = Array.isArray(completed.indexes) ? completed.indexes : [];
+  const uniqueIndexes: Array<[string, string]> = [
+    ["tokenKey", `CREATE UNIQUE INDEX \`idx_tokenKey_${completed.id}\` ON \`${completed.name}\` (\`tokenKey\`)`],
+    [
+      "email",
+      `CREATE UNIQUE INDEX \`idx_email_${completed.id}\` ON \`${completed.name}\` (\`email\`) WHERE \`email\` != ''`,
+    ],
+  ];
+  for (const [column, index] of uniqueIndexes) {
+    if (!indexes.some((existing) => new RegExp(`^CREATE UNIQUE INDEX .*\\(\`?${column}\`?\\)`, "i").test(existing))) {
+      indexes.push(index);
+    }
+  }
+  completed.indexes = indexes;
+
+  for (const [key, defaults] of Object.entries({ ...AUTH_OPTION_DEFAULTS, ...AUTH_TEMPLATE_DEFAULTS })) {
+    const current = completed[key];
+    completed[key] = isPlainObject(current) ? { ...structuredClone(defaults), ...current } : structuredClone(defaults);
+  }
+  for (const [key, template] of [
+    ["authAlert", AUTH_ALERT_TEMPLATE],
+    ["otp", OTP_TEMPLATE],
+  ] as const) {
+    if (!isPlainObject(completed[key].emailTemplate) || !completed[key].emailTemplate.body) {
+      completed[key].emailTemplate = { ...template };
+    }
+  }
+  for (const key of ["verificationTemplate", "resetPasswordTemplate", "confirmEmailChangeTemplate"]) {
+    for (const part of ["subject", "body"]) {
+      if (!completed[key][part]) {
+        completed[key][part] = AUTH_TEMPLATE_DEFAULTS[key][part];
+      }
+    }
+  }
+  for (const key of TOKEN_OPTION_KEYS) {
+    if (typeof completed[key].secret !== "string" || completed[key].secret === "") {
+      completed[key].secret = randomSecret();
+    }
+  }
+
+  return completed;
+}
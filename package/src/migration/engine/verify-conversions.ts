@@ -0,0 +1,242 @@
+/**
+ * Field conversion verification
+ *
+ * A migration that changes a field's type copies every record's value into a
+ * field of the new type. The round-trip check in `verify.ts` compares
+ * schemas, so it cannot tell whether those values survive the trip. This
+ * module seeds each converted field with sample rows, runs the migrations
+ * with record simulation on, and checks that every value comes out valid for
+ * the new type - and, after down(), valid for the old type again.
+ *
+ * Like the round-trip check, problems are returned rather than thrown.
+ */
+
+import { MigrationExecutionError } from "../errors";
+import { RecordModel } from "./records";
+import { executeMigrationDownSource, executeMigrationSource } from "./runner";
+import { CollectionStore } from "./store";
+import type { MigrationDirection, RawCollection } from "./types";
+import type { MigrationSourceRef, VerifyOptions } from "./verify";
+
+/** A field whose type the migrations change */
+export interface FieldConversionCheck {
+  collection: string;
+  field: string;
+}
+
+export interface FieldConversionProblem {
+  collection: string;
+  field: string;
+  /** After which direction the value was wrong */
+  phase: MigrationDirection;
+  /** The sample value the record started with */
+  input: unknown;
+  /** What the record held afterwards */
+  output: unknown;
+  message: string;
+}
+
+export interface FieldConversionReport {
+  /** Every sample converted to a valid value, both ways */
+  ok: boolean;
+  /** Sample records checked */
+  checked: number;
+  problems: FieldConversionProblem[];
+  /** Set when a migration failed to execute with the sample rows in place */
+  error?: { phase: MigrationDirection; file: string; message: string };
+}
+
+interface SeededRecord {
+  check: FieldConversionCheck;
+  collectionId: string;
+  recordId: string;
+  input: unknown;
+  /** The field as it was before the migrations, for checking down() */
+  originalField: RawCollection;
+}
+
+/**
+ * Runs migrations over sample rows and checks the converted values
+ *
+ * @param migrations - Migrations in the order they will be applied
+ * @param checks - The fields whose type they change
+ * @param options - Engine options; `initialStore` is the state before the migrations
+ */
+export function verifyFieldConversions(
+  migrations: MigrationSourceRef[],
+  checks: FieldConversionCheck[],
+  options: VerifyOptions = {}
+): FieldConversionReport {
+  const { initialStore, compare: _compare, ...engineOptions } = options;
+  const store = (initialStore ?? new CollectionStore()).clone();
+  const seeded = seedSampleRecords(store, checks);
+  const problems: FieldConversionProblem[] = [];
+  const runOptions = { ...engineOptions, records: "simulate" as const };
+
+  for (const migration of migrations) {
+    const file = migration.file ?? "<migration>";
+    try {
+      executeMigrationSource(migration.source, store, { ...runOptions, filename: file });
+    } catch (error) {
+      return { ok: false, checked: seeded.length, problems, error: toError(error, "up", file) };
+    }
+  }
+  problems.push(...checkSeededRecords(store, seeded, "up"));
+
+  for (const migration of [...migrations].reverse()) {
+    const file = migration.file ?? "<migration>";
+    try {
+      executeMigrationDownSource(migration.source, store, { ...runOptions, filename: file });
+    } catch (error) {
+      return { ok: false, checked: seeded.length, problems, error: toError(error, "down", file) };
+    }
+  }
+  problems.push(...checkSeededRecords(store, seeded, "down"));
+
+  return { ok: problems.length === 0, checked: seeded.length, problems };
+}
+
+/**
+ * Values a field of this shape can hold in practice, including the ones
+ * conversions tend to get wrong: empty values, numbers in text, lists
+ */
+export function sampleFieldValues(field: RawCollection): unknown[] {
+  const multiple = (field.maxSelect ?? 1) > 1;
+  const values: string[] = Array.isArray(field.values) ? field.values : [];
+
+  switch (field.type) {
+    case "text":
+    case "editor":
+      return ["", "42", "3.5", "true", "plain text"];
+    case "email":
+      return ["", "someone@example.com"];
+    case "url":
+      return ["", "https://example.com"];
+    case "number":
+      return [0, 42, -3.5];
+    case "bool":
+      return [true, false];
+    case "date":
+      return ["", "2024-01-31 12:00:00.000Z"];
+    case "select":
+      return multiple ? [[], values.slice(0, 2)] : ["", ...values.slice(0, 2)];
+    case "relation":
+      return multiple ? [[], ["a1b2c3d4e5f6g7h"]] : ["", "a1b2c3d4e5f6g7h"];
+    case "file":
+      return multiple ? [[], ["photo_a1b2c3d4e5.png"]] : ["", "photo_a1b2c3d4e5.png"];
+    case "json":
+      return [null, { key: "value" }, [1, 2]];
+    default:
+      return [""];
+  }
+}
+
+/**
+ * Why a value cannot be stored in a field of this shape
+ *
+ * @returns A description of the problem, or null when the value is valid.
+ *   A missing value is valid: the column holds the field's empty value.
+ */
+export function describeInvalidFieldValue(field: RawCollection, value: unknown): string | null {
+  if (value === undefined) {
+    return null;
+  }
+
+  const shown = JSON.stringify(value) ?? String(value);
+  const multiple = (field.maxSelect ?? 1) > 1;
+
+  switch (field.type) {
+    case "text":
+    case "editor":
+    case "email":
+    case "url":
+    case "date":
+      return typeof value === "string" ? null : `${shown} is not a string`;
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? null : `${shown} is not a finite number`;
+    case "bool":
+      return typeof value === "boolean" ? null : `${shown} is not a boolean`;
+    case "select": {
+      const allowed: unknown[] = Array.isArray(field.values) ? field.values : [];
+      if (multiple) {
+        return Array.isArray(value) && value.every((entry) => allowed.includes(entry))
+          ? null
+          : `${shown} is not a list of ${JSON.stringify(allowed)}`;
+      }
+      return value === "" || allowed.includes(value) ? null : `${shown} is not one of ${JSON.stringify(allowed)}`;
+    }
+    case "relation":
+    case "file":
+      if (multiple) {
+        return Array.isArray(value) && value.every((entry) => typeof entry === "string")
+          ? null
+          : `${shown} is not a list of strings`;
+      }
+      return typeof value === "string" ? null : `${shown} is not a string`;
+    default:
+      return null;
+  }
+}
+
+function seedSampleRecords(store: CollectionStore, checks: FieldConversionCheck[]): SeededRecord[] {
+  const seeded: SeededRecord[] = [];
+
+  for (const check of checks) {
+    const collection = store.getByNameOrId(check.collection);
+    const field = collection?.fields.getByName(check.field);
+    if (!collection || !field) {
+      // Nothing stored under this field yet, so nothing to convert
+      continue;
+    }
+
+    const originalField = structuredClone({ ...field });
+    for (const input of sampleFieldValues(originalField)) {
+      const record = store.records.save(new RecordModel(collection, { [check.field]: structuredClone(input) }));
+      seeded.push({ check, collectionId: collection.id, recordId: record.id, input, originalField });
+    }
+  }
+
+  return seeded;
+}
+
+function checkSeededRecords(
+  store: CollectionStore,
+  seeded: SeededRecord[],
+  phase: MigrationDirection
+): FieldConversionProblem[] {
+  const problems: FieldConversionProblem[] = [];
+
+  for (const entry of seeded) {
+    const { check, input } = entry;
+    const record = store.records.getById(entry.collectionId, entry.recordId);
+    const report = (output: unknown, message: string) =>
+      problems.push({ collection: check.collection, field: check.field, phase, input, output, message });
+
+    if (!record) {
+      report(undefined, "the record was lost");
+      continue;
+    }
+
+    const output = record.get(check.field);
+    const field =
+      phase === "up" ? store.getById(entry.collectionId)?.fields.getByName(check.field) : entry.originalField;
+    const invalid = field ? describeInvalidFieldValue(field, output) : null;
+    if (invalid) {
+      report(output, invalid);
+    }
+
+    const leftovers = record.undeclaredFields();
+    if (leftovers.length > 0) {
+      report(output, `values were left behind in ${leftovers.map((name) => `"${name}"`).join(", ")}`);
+    }
+  }
+
+  return problems;
+}
+
+function toError(error: unknown, phase: MigrationDirection, file: string): FieldConversionReport["error"] {
+  if (error instanceof MigrationExecutionError) {
+    return { phase: error.phase === "down" ? "down" : phase, file, message: error.message };
+  }
+  return { phase, file, message: error instanceof Error ? error.message : String(error) };
+}
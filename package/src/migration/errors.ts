@@ -168,6 +168,72 @@ export class MigrationGenerationError extends MigrationError {
   }
 }
 
+/**
+ * Base class for errors that carry every reason found, so one run reports
+ * them all
+ */
+export class MigrationReasonsError extends MigrationError {
+  public readonly reasons: string[];
+
+  constructor(message: string, reasons: string[] = []) {
+    super(message);
+    this.name = "MigrationReasonsError";
+    this.reasons = reasons;
+    Object.setPrototypeOf(this, MigrationReasonsError.prototype);
+  }
+
+  /**
+   * Creates a formatted error message listing each reason
+   */
+  public getDetailedMessage(): string {
+    return [this.message, ...this.reasons.map((reason) => `  - ${reason}`)].join("\n");
+  }
+}
+
+/**
+ * Error thrown when migrations cannot be squashed into a snapshot
+ */
+export class SquashError extends MigrationReasonsError {
+  constructor(message: string, reasons: string[] = []) {
+    super(message, reasons);
+    this.name = "SquashError";
+    Object.setPrototypeOf(this, SquashError.prototype);
+  }
+}
+
+/**
+ * Error thrown when applied migrations cannot be rolled back
+ */
+export class RollbackError extends MigrationReasonsError {
+  constructor(message: string, reasons: string[] = []) {
+    super(message, reasons);
+    this.name = "RollbackError";
+    Object.setPrototypeOf(this, RollbackError.prototype);
+  }
+}
+
+/**
+ * Error thrown when migrations cannot be rebased onto the merged state
+ */
+export class RebaseError extends MigrationReasonsError {
+  constructor(message: string, reasons: string[] = []) {
+    super(message, reasons);
+    this.name = "RebaseError";
+    Object.setPrototypeOf(this, RebaseError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a migration's checksum cannot be checked or recorded
+ */
+export class ChecksumError extends MigrationReasonsError {
+  constructor(message: string, reasons: string[] = []) {
+    super(message, reasons);
+    this.name = "ChecksumError";
+    Object.setPrototypeOf(this, ChecksumError.prototype);
+  }
+}
+
 /**
  * Error thrown when file system operations fail
  * Used for directory creation, file permissions, disk space issues
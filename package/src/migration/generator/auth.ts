@@ -0,0 +1,140 @@
+import { isEnvValue } from "../../schema/env";
+import { AUTH_OPTION_KEYS, stripAuthSecrets } from "../auth-options";
+import { generateFindCollectionCode } from "./utils";
+
+/**
+ * Formats an auth option value as JavaScript
+ *
+ * Written like the collection JSON around it, except that `{ env }`
+ * references become `$os.getenv()` calls, so the secret is read when the
+ * migration runs. Secrets stored as plain strings are dropped.
+ *
+ * @param value - Option value
+ * @param indent - Indentation of the line the value starts on
+ * @returns JavaScript source for the value
+ */
+export function formatAuthOptionValue(value: unknown, indent: string = ""): string {
+  return formatValueLines(stripAuthSecrets(value), indent);
+}
+
+function formatValueLines(value: unknown, indent: string): string {
+  if (isEnvValue(value)) {
+    return `$os.getenv(${JSON.stringify(value.env)})`;
+  }
+
+  const inner = `${indent}  `;
+
+  if (Array.isArray(value)) {
+    if (value.every((entry) => entry === null || typeof entry !== "object")) {
+      return JSON.stringify(value).replace(/","/g, '", "');
+    }
+    return `[\n${value.map((entry) => `${inner}${formatValueLines(entry, inner)}`).join(",\n")}\n${indent}]`;
+  }
+
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value).filter(([_key, entry]) => entry !== undefined);
+    if (entries.length === 0) {
+      return "{}";
+    }
+    const lines = entries.map(([key, entry]) => `${inner}${JSON.stringify(key)}: ${formatValueLines(entry, inner)}`);
+    return `{\n${lines.join(",\n")}\n${indent}}`;
+  }
+
+  return value === undefined ? "null" : JSON.stringify(value);
+}
+
+/**
+ * Generates the auth option properties of a `new Collection({...})` literal
+ *
+ * @param options - Auth options, keyed as in PocketBase's collection JSON
+ * @returns One `"key": value,` line per option, indented for the literal
+ */
+export function generateAuthOptionProperties(options: Record<string, any> | undefined): string[] {
+  const lines: string[] = [];
+
+  for (const key of AUTH_OPTION_KEYS) {
+    if (options?.[key] !== undefined) {
+      lines.push(`    "${key}": ${formatAuthOptionValue(options[key], "    ")},`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Generates code for updating an auth collection's options
+ *
+ * Uses unmarshal(), which merges objects key by key: only the options (and
+ * the keys within them) being changed are written, and everything else the
+ * collection has is kept. Like viewQuery, the options live on an embedded
+ * struct in PocketBase's Go model, where a direct assignment is dropped.
+ *
+ * @param collectionName - Name of the auth collection
+ * @param options - The options to set
+ * @param varName - Variable name to use for the collection (default: auto-generated)
+ * @param isLast - Whether this is the last operation (will return the result)
+ * @param collectionIdMap - Map of collection names to IDs
+ * @returns JavaScript code for updating the options
+ */
+export function generateAuthOptionsUpdate(
+  collectionName: string,
+  options: Record<string, any>,
+  varName?: string,
+  isLast: boolean = false,
+  collectionIdMap?: Map<string, string>
+): string {
+  const lines: string[] = [];
+  const collectionVar = varName || `collection_${collectionName}_auth`;
+
+  lines.push(`  const ${collectionVar} = ${generateFindCollectionCode(collectionName, collectionIdMap)};`);
+  lines.push(`  unmarshal({`);
+  for (const key of AUTH_OPTION_KEYS) {
+    if (options[key] !== undefined) {
+      lines.push(`    "${key}": ${formatAuthOptionValue(options[key], "    ")},`);
+    }
+  }
+  lines.push(`  }, ${collectionVar})`);
+  lines.push(isLast ? `  return app.save(${collectionVar});` : `  app.save(${collectionVar});`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Generates code restoring the auth options an update changed, for down()
+ *
+ * An option whose previous value is not known - an email template the
+ * collection never declared - cannot be put back, and is named in a comment
+ * instead.
+ *
+ * @param collectionName - Name of the auth collection
+ * @param oldValue - The previous values of the changed options
+ * @param newValue - The options the update set
+ * @returns JavaScript code, or just a comment when nothing can be restored
+ */
+export function generateAuthOptionsRevert(
+  collectionName: string,
+  oldValue: Record<string, any>,
+  newValue: Record<string, any>,
+  isLast: boolean = false,
+  collectionIdMap?: Map<string, string>
+): string {
+  const lines: string[] = [];
+  const unknown = Object.keys(newValue).filter((key) => oldValue[key] === undefined);
+
+  if (unknown.length > 0) {
+    lines.push(`  // Not restored, the previous value is not known: ${unknown.join(", ")}`);
+  }
+  if (Object.keys(oldValue).length > 0) {
+    lines.push(
+      generateAuthOptionsUpdate(
+        collectionName,
+        oldValue,
+        `collection_${collectionName}_revert_auth`,
+        isLast,
+        collectionIdMap
+      )
+    );
+  }
+
+  return lines.join("\n");
+}
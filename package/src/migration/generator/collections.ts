@@ -1,5 +1,6 @@
-import type { CollectionSchema } from "../types";
-import { generateFieldsArray } from "./fields";
+import type { CollectionSchema, DeferredRelations } from "../types";
+import { generateAuthOptionProperties } from "./auth";
+import { generateFieldConstructorOptions, generateFieldsArray } from "./fields";
 import { generateIndexesArray } from "./indexes";
 import { generateCollectionPermissions, generateCollectionRules } from "./rules";
 import {
@@ -8,6 +9,7 @@ import {
   generateFindCollectionCode,
   getAuthSystemFields,
   getAuthSystemIndexes,
+  getFieldConstructorName,
   getSystemFields,
   getSystemTimestampFields,
 } from "./utils";
@@ -84,6 +86,11 @@ export function generateCollectionCreation(
   }
   lines.push(`    "indexes": ${generateIndexesArray(allIndexes)},`);
 
+  // Add the auth options the schema declares
+  if (collection.type === "auth") {
+    lines.push(...generateAuthOptionProperties(collection.auth));
+  }
+
   lines.push(`  });`);
   lines.push(``);
   lines.push(isLast ? `  return app.save(${varName});` : `  app.save(${varName});`);
@@ -112,3 +119,114 @@ export function generateCollectionDeletion(
 
   return lines.join("\n");
 }
+
+/**
+ * Generates code for renaming a collection in place
+ * The collection keeps its id, so its records and the relations pointing at it
+ * survive the rename
+ *
+ * @param lookupName - Name the collection is found under (resolved to its id when known)
+ * @param newName - Name to give the collection
+ * @param varName - Variable name to use for the collection
+ * @param isLast - Whether this is the last operation (will return the result)
+ * @returns JavaScript code for renaming the collection
+ */
+export function generateCollectionRename(
+  lookupName: string,
+  newName: string,
+  varName: string = "collection",
+  isLast: boolean = false,
+  collectionIdMap?: Map<string, string>
+): string {
+  const lines: string[] = [];
+
+  lines.push(`  const ${varName} = ${generateFindCollectionCode(lookupName, collectionIdMap)};`);
+  lines.push(``);
+  lines.push(`  ${varName}.name = ${formatValue(newName)};`);
+  lines.push(``);
+  lines.push(isLast ? `  return app.save(${varName});` : `  app.save(${varName});`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Generates code adding relations held back from a cycle's collections, with
+ * the indexes and rules that mention them
+ *
+ * @param relations - Relations held back from one collection
+ * @param isLast - Whether this is the last operation (will return the result)
+ * @param collectionIdMap - Map of collection names to their pre-generated IDs
+ * @returns JavaScript code for adding the relations
+ */
+export function generateDeferredRelationsAddition(
+  relations: DeferredRelations,
+  isLast: boolean = false,
+  collectionIdMap?: Map<string, string>
+): string {
+  const lines: string[] = [];
+  const collectionVar = `collection_${relations.collection}_relations`;
+
+  lines.push(`  const ${collectionVar} = ${generateFindCollectionCode(relations.collection, collectionIdMap)};`);
+  lines.push(``);
+  for (const field of relations.fields) {
+    lines.push(`  ${collectionVar}.fields.add(new ${getFieldConstructorName(field.type)}({`);
+    lines.push(generateFieldConstructorOptions(field, collectionIdMap));
+    lines.push(`  }));`);
+    lines.push(``);
+  }
+  for (const index of relations.indexes) {
+    lines.push(`  ${collectionVar}.indexes.push(${JSON.stringify(index)});`);
+  }
+  if (relations.rules.length > 0) {
+    lines.push(`  unmarshal({`);
+    for (const rule of relations.rules) {
+      lines.push(`    "${rule.ruleType}": ${formatValue(rule.value)},`);
+    }
+    lines.push(`  }, ${collectionVar})`);
+  }
+  lines.push(isLast ? `  return app.save(${collectionVar});` : `  app.save(${collectionVar});`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Generates code removing relations held back from a cycle's collections,
+ * after the rules and indexes that mention them, so the cycle's collections
+ * can be deleted
+ *
+ * @param relations - Relations held back from one collection
+ * @param isLast - Whether this is the last operation (will return the result)
+ * @param collectionIdMap - Map of collection names to their pre-generated IDs
+ * @returns JavaScript code for removing the relations
+ */
+export function generateDeferredRelationsRemoval(
+  relations: DeferredRelations,
+  isLast: boolean = false,
+  collectionIdMap?: Map<string, string>
+): string {
+  const lines: string[] = [];
+  const collectionVar = `collection_${relations.collection}_relations`;
+
+  lines.push(`  const ${collectionVar} = ${generateFindCollectionCode(relations.collection, collectionIdMap)};`);
+  if (relations.rules.length > 0) {
+    lines.push(`  unmarshal({`);
+    for (const rule of relations.rules) {
+      lines.push(`    "${rule.ruleType}": null,`);
+    }
+    lines.push(`  }, ${collectionVar})`);
+  }
+  relations.indexes.forEach((index, i) => {
+    const indexVar = `${collectionVar}_indexToRemove_${i}`;
+    lines.push(`  const ${indexVar} = ${collectionVar}.indexes.findIndex(idx => idx === ${JSON.stringify(index)});`);
+    lines.push(`  if (${indexVar} !== -1) {`);
+    lines.push(`    ${collectionVar}.indexes.splice(${indexVar}, 1);`);
+    lines.push(`  }`);
+  });
+  for (const field of relations.fields) {
+    lines.push(`  ${collectionVar}.fields.removeByName("${field.name}");`);
+  }
+  lines.push(``);
+  lines.push(isLast ? `  return app.save(${collectionVar});` : `  app.save(${collectionVar});`);
+
+  return lines.join("\n");
+}
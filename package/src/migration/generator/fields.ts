@@ -1,3 +1,4 @@
+import { resolveFieldTypeConversion } from "../conversions";
 import type { FieldDefinition, FieldModification } from "../types";
 import { getFieldOptionUnsetValue } from "../utils/type-mapper";
 import { formatValue, generateFindCollectionCode, getFieldConstructorName } from "./utils";
@@ -211,10 +212,16 @@ export function generateFieldConstructorOptions(field: FieldDefinition, collecti
   return parts.join(",\n");
 }
 
+/** Records updated per query, so a large collection is never loaded at once */
+const RECORD_BATCH_SIZE = 500;
+
 /**
  * Generates code for adding a field to an existing collection
  * Uses the appropriate Field constructor based on field type
  *
+ * A field with a backfill is added as optional, filled in on every existing
+ * record, and only then made required, so no record is left without a value.
+ *
  * @param collectionName - Name of the collection
  * @param field - Field definition to add
  * @param varName - Variable name to use for the collection (default: auto-generated)
@@ -236,9 +243,38 @@ export function generateFieldAddition(
   lines.push(`  const ${collectionVar} = ${generateFindCollectionCode(collectionName, collectionIdMap)};`);
   lines.push(``);
   lines.push(`  ${collectionVar}.fields.add(new ${constructorName}({`);
-  lines.push(generateFieldConstructorOptions(field, collectionIdMap));
+  lines.push(generateFieldConstructorOptions(field.backfill ? { ...field, required: false } : field, collectionIdMap));
   lines.push(`  }));`);
   lines.push(``);
+
+  if (field.backfill) {
+    const backfillVar = `${collectionVar}_backfill`;
+    const value =
+      "source" in field.backfill ? `${backfillVar}(record)` : formatValue(field.backfill.value);
+
+    lines.push(`  app.save(${collectionVar});`);
+    lines.push(``);
+    lines.push(`  // Existing records get a value before the field can be required`);
+    if ("source" in field.backfill) {
+      lines.push(`  const ${backfillVar} = ${indentConverterSource(field.backfill.source, "  ")};`);
+    }
+    lines.push(`  for (let offset = 0; ; ) {`);
+    lines.push(
+      `    const records = app.findRecordsByFilter(${collectionVar}, "id != ''", "id", ${RECORD_BATCH_SIZE}, offset);`
+    );
+    lines.push(`    if (records.length === 0) break;`);
+    lines.push(`    for (const record of records) {`);
+    lines.push(`      record.set("${field.name}", ${value});`);
+    lines.push(`      app.saveNoValidate(record);`);
+    lines.push(`    }`);
+    lines.push(`    offset += records.length;`);
+    lines.push(`  }`);
+    lines.push(``);
+    if (field.required) {
+      lines.push(`  ${collectionVar}.fields.getByName("${field.name}").required = true;`);
+    }
+  }
+
   lines.push(isLast ? `  return app.save(${collectionVar});` : `  app.save(${collectionVar});`);
 
   return lines.join("\n");
@@ -261,6 +297,11 @@ export function generateFieldModification(
   isLast: boolean = false,
   collectionIdMap?: Map<string, string>
 ): string {
+  // PocketBase cannot change a field's type in place
+  if (resolveFieldTypeConversion(modification)) {
+    return generateFieldConversion(collectionName, modification, varName, isLast, collectionIdMap);
+  }
+
   const lines: string[] = [];
   const collectionVar = varName || `collection_${collectionName}_${modification.fieldName}`;
   const fieldVar = `${collectionVar}_field`;
@@ -321,6 +362,95 @@ export function generateFieldModification(
   return lines.join("\n");
 }
 
+/**
+ * Generates code for changing a field's type
+ *
+ * Adds a field of the new type beside the old one, copies each record's value
+ * into it through the conversion, then drops the old field and gives the new
+ * one its name. Records are written with `saveNoValidate`, so a record that
+ * fails some unrelated rule does not stop the copy. Without a conversion the
+ * field is still replaced, but its values are not carried over.
+ *
+ * @param collectionName - Name of the collection
+ * @param modification - Field modification with a type change
+ * @param varName - Variable name to use for the collection (default: auto-generated)
+ * @param isLast - Whether this is the last operation (will return the result)
+ * @param collectionIdMap - Map of collection names to their pre-generated IDs
+ * @returns JavaScript code for converting the field
+ */
+export function generateFieldConversion(
+  collectionName: string,
+  modification: FieldModification,
+  varName?: string,
+  isLast: boolean = false,
+  collectionIdMap?: Map<string, string>
+): string {
+  const conversion = resolveFieldTypeConversion(modification);
+  if (!conversion) {
+    throw new Error(`Field "${collectionName}.${modification.fieldName}" has no type change to convert`);
+  }
+
+  const lines: string[] = [];
+  const fieldName = modification.fieldName;
+  const tempName = `${fieldName}__converted`;
+  const collectionVar = varName || `collection_${collectionName}_${fieldName}`;
+  const convertVar = `${collectionVar}_convert`;
+  const { from, to, converter } = conversion;
+
+  lines.push(`  // ${from.type} -> ${to.type}: PocketBase cannot change a field's type in place`);
+  lines.push(`  const ${collectionVar} = ${generateFindCollectionCode(collectionName, collectionIdMap)};`);
+  lines.push(``);
+  lines.push(`  ${collectionVar}.fields.add(new ${getFieldConstructorName(to.type)}({`);
+  lines.push(generateFieldConstructorOptions({ ...to, name: tempName }, collectionIdMap));
+  lines.push(`  }));`);
+  lines.push(`  app.save(${collectionVar});`);
+  lines.push(``);
+
+  if (converter) {
+    lines.push(`  const ${convertVar} = ${indentConverterSource(converter, "  ")};`);
+    lines.push(`  for (let offset = 0; ; ) {`);
+    lines.push(
+      `    const records = app.findRecordsByFilter(${collectionVar}, "id != ''", "id", ${RECORD_BATCH_SIZE}, offset);`
+    );
+    lines.push(`    if (records.length === 0) break;`);
+    lines.push(`    for (const record of records) {`);
+    lines.push(`      record.set("${tempName}", ${convertVar}(record.get("${fieldName}"), record));`);
+    lines.push(`      app.saveNoValidate(record);`);
+    lines.push(`    }`);
+    lines.push(`    offset += records.length;`);
+    lines.push(`  }`);
+  } else {
+    lines.push(`  // No conversion from ${from.type} to ${to.type}: existing values are not carried over`);
+  }
+  lines.push(``);
+
+  lines.push(`  ${collectionVar}.fields.removeByName("${fieldName}");`);
+  lines.push(`  ${collectionVar}.fields.getByName("${tempName}").name = "${fieldName}";`);
+  lines.push(``);
+  lines.push(isLast ? `  return app.save(${collectionVar});` : `  app.save(${collectionVar});`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Re-indents a hook's source (a converter or a backfill) for the migration body
+ *
+ * A hook's source keeps the indentation it had in the schema file on every
+ * line but the first, so that is stripped before indenting. Method shorthand
+ * (`up(value) { ... }`) is not an expression on its own and becomes a
+ * function expression.
+ */
+function indentConverterSource(source: string, indent: string): string {
+  const trimmed = source.trim();
+  const expression =
+    /^[A-Za-z_$][\w$]*\s*\(/.test(trimmed) && !/^(function|async)\b/.test(trimmed) ? `function ${trimmed}` : trimmed;
+  const [first, ...rest] = expression.split("\n");
+  const indents = rest.filter((line) => line.trim() !== "").map((line) => line.length - line.trimStart().length);
+  const margin = indents.length > 0 ? Math.min(...indents) : 0;
+  const body = rest.map((line) => (line.trim() === "" ? "" : `${indent}${line.slice(margin)}`));
+  return [first, ...body].join("\n");
+}
+
 /**
  * Generates code for deleting a field from a collection
  *
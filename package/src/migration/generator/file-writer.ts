@@ -1,5 +1,6 @@
 import * as fs from "fs";
 import * as path from "path";
+import { withChecksumHeader } from "../checksums";
 import { FileSystemError, MigrationGenerationError } from "../errors";
 import { DEFAULT_CONFIG, mergeConfig, type MigrationGeneratorConfig } from "./config";
 
@@ -45,9 +46,69 @@ export function createMigrationFileStructure(
   return template;
 }
 
+/**
+ * Replaces migration files with new ones, never leaving the directory
+ * without either
+ *
+ * The new files are written under temporary names next to their final ones
+ * first, so a failed write leaves the old migrations where they were. The
+ * old files then move into `archiveDir` (or are deleted when it is null),
+ * and the new files are renamed into place, which also lets a new file take
+ * the name of an old one.
+ *
+ * @param migrationDir - The migrations directory
+ * @param files - The new files, by filename and content
+ * @param replaced - The files they replace
+ * @param archiveDir - Directory to move the replaced files into; null deletes them
+ * @returns The new files' paths and where each replaced file went
+ * @throws The file system error of the first step that fails
+ */
+export function replaceMigrationFiles(
+  migrationDir: string,
+  files: Array<{ filename: string; content: string }>,
+  replaced: Array<{ name: string; path: string }>,
+  archiveDir: string | null
+): { written: string[]; moved: Array<{ from: string; to: string | null }> } {
+  const staged: Array<{ temporary: string; final: string }> = [];
+  try {
+    for (const file of files) {
+      const final = path.join(migrationDir, file.filename);
+      const temporary = path.join(migrationDir, `.${file.filename}.tmp`);
+      fs.writeFileSync(temporary, withChecksumHeader(file.content), "utf-8");
+      staged.push({ temporary, final });
+    }
+  } catch (error) {
+    for (const { temporary } of staged) {
+      fs.rmSync(temporary, { force: true });
+    }
+    throw error;
+  }
+
+  const moved: Array<{ from: string; to: string | null }> = [];
+  if (archiveDir) {
+    fs.mkdirSync(archiveDir, { recursive: true });
+  }
+  for (const migration of replaced) {
+    if (archiveDir) {
+      const target = path.join(archiveDir, migration.name);
+      fs.renameSync(migration.path, target);
+      moved.push({ from: migration.path, to: target });
+    } else {
+      fs.unlinkSync(migration.path);
+      moved.push({ from: migration.path, to: null });
+    }
+  }
+
+  for (const { temporary, final } of staged) {
+    fs.renameSync(temporary, final);
+  }
+  return { written: staged.map(({ final }) => final), moved };
+}
+
 /**
  * Writes migration file to the specified directory
- * Creates directory if it doesn't exist
+ * Creates directory if it doesn't exist, and records the content's checksum
+ * in a header so a later edit can be noticed
  *
  * @param migrationDir - Directory to write migration file
  * @param filename - Migration filename
@@ -85,7 +146,7 @@ export function writeMigrationFile(migrationDir: string, filename: string, conte
     const filePath = path.join(migrationDir, filename);
 
     // Write migration file
-    fs.writeFileSync(filePath, content, "utf-8");
+    fs.writeFileSync(filePath, withChecksumHeader(content), "utf-8");
 
     return filePath;
   } catch (error) {
@@ -8,12 +8,27 @@
 
 import * as fs from "fs";
 import * as path from "path";
+import { computeMigrationChecksum } from "../checksums";
+import type { CollectionDrift } from "../engine/drift";
 import { FileSystemError, MigrationGenerationError } from "../errors";
+import type { SeedChanges } from "../seeds";
+import type { SettingChange } from "../settings";
 import type { CollectionOperation, SchemaDiff } from "../types";
 import { type MigrationGeneratorConfig } from "./config";
 import { createMigrationFileStructure, resolveMigrationDir, writeMigrationFile } from "./file-writer";
 import { generateOperationDownMigration, generateOperationUpMigration } from "./migrator";
 import { generateCollectionMigrationFilename, splitDiffByCollection } from "./operations";
+import {
+  generateReconcileDownMigration,
+  generateReconcileMigrationFilename,
+  generateReconcileUpMigration,
+} from "./reconcile";
+import { generateSeedDownMigration, generateSeedMigrationFilename, generateSeedUpMigration } from "./seeds";
+import {
+  generateSettingsDownMigration,
+  generateSettingsMigrationFilename,
+  generateSettingsUpMigration,
+} from "./settings";
 import { generateTimestamp } from "./utils";
 
 // Curated submodule surface — file-writer/config internals (mergeConfig,
@@ -23,7 +38,10 @@ export { createMigrationFileStructure, writeMigrationFile } from "./file-writer"
 export { generateFieldDefinitionObject } from "./fields";
 export { generateOperationDownMigration, generateOperationUpMigration } from "./migrator";
 export { generateCollectionMigrationFilename, splitDiffByCollection } from "./operations";
+export { generateReconcileDownMigration, generateReconcileUpMigration } from "./reconcile";
 export { generateCollectionPermissions } from "./rules";
+export { generateSeedDownMigration, generateSeedUpMigration } from "./seeds";
+export { generateSettingsDownMigration, generateSettingsUpMigration } from "./settings";
 
 /**
  * A migration file that has been generated but not yet written to disk
@@ -37,6 +55,42 @@ export interface PlannedMigration {
   operation: CollectionOperation;
 }
 
+/**
+ * A seed data migration that has been generated but not yet written to disk
+ */
+export interface PlannedSeedMigration {
+  /** Filename the migration will be written as */
+  filename: string;
+  /** Complete migration file content */
+  content: string;
+  /** The seed changes this file was generated from */
+  changes: SeedChanges;
+}
+
+/**
+ * A settings migration that has been generated but not yet written to disk
+ */
+export interface PlannedSettingsMigration {
+  /** Filename the migration will be written as */
+  filename: string;
+  /** Complete migration file content */
+  content: string;
+  /** The settings changes this file was generated from */
+  changes: SettingChange[];
+}
+
+/**
+ * A reconcile migration that has been generated but not yet written to disk
+ */
+export interface PlannedReconcileMigration {
+  /** Filename the migration will be written as */
+  filename: string;
+  /** Complete migration file content */
+  content: string;
+  /** The drifted collections this file was generated from */
+  drift: CollectionDrift[];
+}
+
 /**
  * Generates migration file contents from a schema diff without writing them
  *
@@ -95,12 +149,13 @@ export function planMigrations(diff: SchemaDiff, config: MigrationGeneratorConfi
     const planned: PlannedMigration[] = [];
 
     // Read existing files for duplicate check
+    // (compared by checksum, which leaves out the header written files carry)
     let existingFiles: string[] = [];
     if (!normalizedConfig.force && fs.existsSync(migrationDir)) {
       existingFiles = fs
         .readdirSync(migrationDir)
         .filter((f) => f.endsWith(".js") || f.endsWith(".ts"))
-        .map((f) => fs.readFileSync(path.join(migrationDir, f), "utf-8"));
+        .map((f) => computeMigrationChecksum(fs.readFileSync(path.join(migrationDir, f), "utf-8")));
     }
 
     for (const operation of operations) {
@@ -112,7 +167,7 @@ export function planMigrations(diff: SchemaDiff, config: MigrationGeneratorConfi
       const content = createMigrationFileStructure(upCode, downCode, normalizedConfig);
 
       // Check for duplicates
-      if (!normalizedConfig.force && existingFiles.some((existingContent) => existingContent === content)) {
+      if (!normalizedConfig.force && existingFiles.includes(computeMigrationChecksum(content))) {
         console.warn(
           `Duplicate migration detected for ${operation.type} ${
             typeof operation.collection === "string" ? operation.collection : operation.collection.name
@@ -143,6 +198,90 @@ export function planMigrations(diff: SchemaDiff, config: MigrationGeneratorConfi
   }
 }
 
+/**
+ * Generates one data migration per seeded collection that needs changes
+ *
+ * Timestamps start at the configured generator's and go up by one per
+ * file. Planned alongside schema migrations, pass a `timestampGenerator`
+ * that starts after them, so a collection exists before it is seeded.
+ *
+ * @param changes - Seed changes from diffSeeds()
+ * @param config - Migration generator configuration
+ * @returns One planned migration per collection, in the order given
+ */
+export function planSeedMigrations(
+  changes: SeedChanges[],
+  config: MigrationGeneratorConfig | string
+): PlannedSeedMigration[] {
+  const normalizedConfig: MigrationGeneratorConfig = typeof config === "string" ? { migrationDir: config } : config;
+  let timestamp = parseInt(generateTimestamp(normalizedConfig), 10);
+
+  return changes.map((collectionChanges) => {
+    const content = createMigrationFileStructure(
+      generateSeedUpMigration(collectionChanges),
+      generateSeedDownMigration(collectionChanges),
+      normalizedConfig
+    );
+    const filename = generateSeedMigrationFilename(collectionChanges, String(timestamp));
+    timestamp += 1;
+    return { filename, content, changes: collectionChanges };
+  });
+}
+
+/**
+ * Generates the migration bringing the app settings to their declared values
+ *
+ * @param changes - Settings changes from diffSettings()
+ * @param config - Migration generator configuration
+ * @returns The planned migration, or null when no setting changed
+ */
+export function planSettingsMigration(
+  changes: SettingChange[],
+  config: MigrationGeneratorConfig | string
+): PlannedSettingsMigration | null {
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const normalizedConfig: MigrationGeneratorConfig = typeof config === "string" ? { migrationDir: config } : config;
+  const content = createMigrationFileStructure(
+    generateSettingsUpMigration(changes),
+    generateSettingsDownMigration(changes),
+    normalizedConfig
+  );
+
+  return { filename: generateSettingsMigrationFilename(generateTimestamp(normalizedConfig)), content, changes };
+}
+
+/**
+ * Generates a migration that records drift found in a database
+ *
+ * Applied to the database it was detected in, up() changes nothing: the
+ * collections already look that way. Everywhere else it carries the same
+ * edits over, and down() puts back what the earlier migrations left.
+ *
+ * @param drift - Drifted collections from detectDrift() or diffDatabaseCollections()
+ * @param config - Migration generator configuration
+ * @returns The planned migration, or null when there is no drift
+ */
+export function planReconcileMigration(
+  drift: CollectionDrift[],
+  config: MigrationGeneratorConfig | string
+): PlannedReconcileMigration | null {
+  if (drift.length === 0) {
+    return null;
+  }
+
+  const normalizedConfig: MigrationGeneratorConfig = typeof config === "string" ? { migrationDir: config } : config;
+  const content = createMigrationFileStructure(
+    generateReconcileUpMigration(drift),
+    generateReconcileDownMigration(drift),
+    normalizedConfig
+  );
+
+  return { filename: generateReconcileMigrationFilename(generateTimestamp(normalizedConfig)), content, drift };
+}
+
 /**
  * Main generation function
  * Generates migration files from schema diff (one file per collection operation)
@@ -166,10 +305,14 @@ export function generate(diff: SchemaDiff, config: MigrationGeneratorConfig | st
 /**
  * Writes planned migrations to disk, in order
  *
- * @param planned - Migrations produced by planMigrations()
+ * @param planned - Migrations produced by planMigrations(), planSeedMigrations(), planSettingsMigration()
+ *   or planReconcileMigration()
  * @param migrationDir - Absolute path to the migrations directory
  * @returns Array of paths to the written files
  */
-export function writePlannedMigrations(planned: PlannedMigration[], migrationDir: string): string[] {
+export function writePlannedMigrations(
+  planned: Array<Pick<PlannedMigration, "filename" | "content">>,
+  migrationDir: string
+): string[] {
   return planned.map((migration) => writeMigrationFile(migrationDir, migration.filename, migration.content));
 }
@@ -1,9 +1,29 @@
-import type { CollectionOperation, CollectionSchema, FieldModification, SchemaDiff } from "../types";
-import { generateCollectionCreation, generateCollectionDeletion } from "./collections";
+import type {
+  CollectionModification,
+  CollectionOperation,
+  CollectionSchema,
+  FieldModification,
+  SchemaDiff,
+} from "../types";
+import { generateAuthOptionsRevert, generateAuthOptionsUpdate } from "./auth";
+import {
+  generateCollectionCreation,
+  generateCollectionDeletion,
+  generateCollectionRename,
+  generateDeferredRelationsAddition,
+  generateDeferredRelationsRemoval,
+} from "./collections";
 import { generateFieldAddition, generateFieldDeletion, generateFieldModification } from "./fields";
 import { generateIndexAddition, generateIndexRemoval } from "./indexes";
 import { generateGroupedRuleUpdates, generatePermissionUpdate, generateRuleUpdate, generateViewQueryUpdate } from "./rules";
 
+/**
+ * Whether down() has previous auth option values to write back
+ */
+function hasAuthOptionsToRestore(modification: CollectionModification): boolean {
+  return Object.keys(modification.authOptionsUpdate?.oldValue ?? {}).length > 0;
+}
+
 /**
  * Generates the up migration code for a single collection operation
  * Handles create, modify, and delete operations
@@ -22,7 +42,19 @@ export function generateOperationUpMigration(
     // Handle collection creation
     const collection = operation.collection as CollectionSchema;
     const varName = "collection";
-    lines.push(generateCollectionCreation(collection, varName, true, collectionIdMap));
+    const deferred = operation.deferred ?? [];
+    lines.push(generateCollectionCreation(collection, varName, deferred.length === 0, collectionIdMap));
+
+    // The relations closing a cycle, now that every collection in it exists
+    if (deferred.length > 0) {
+      lines.push("");
+      lines.push(`  // Add the relations between ${deferred.map((relations) => relations.collection).join(", ")}`);
+    }
+    deferred.forEach((relations, i) => {
+      const isLast = i === deferred.length - 1;
+      lines.push(generateDeferredRelationsAddition(relations, isLast, collectionIdMap));
+      if (!isLast) lines.push("");
+    });
   } else if (operation.type === "modify") {
     // Handle collection modification
     const modification = operation.modifications!;
@@ -39,8 +71,26 @@ export function generateOperationUpMigration(
       modification.indexesToAdd.length +
       modification.indexesToRemove.length +
       (modification.viewQueryUpdate ? 1 : 0) +
+      (modification.authOptionsUpdate ? 1 : 0) +
+      (modification.nameUpdate ? 1 : 0) +
       (modification.permissionsToUpdate.length > 0 ? 1 : modification.rulesToUpdate.length > 0 ? 1 : 0);
 
+    // Rename the collection first, so everything after addresses it by its new name
+    if (modification.nameUpdate) {
+      operationCount++;
+      const isLast = operationCount === totalOperations;
+      lines.push(
+        generateCollectionRename(
+          modification.nameUpdate.oldValue,
+          modification.nameUpdate.newValue,
+          `collection_${collectionName}_rename`,
+          isLast,
+          collectionIdMap
+        )
+      );
+      if (!isLast) lines.push("");
+    }
+
     // Update the view query (view collections only)
     if (modification.viewQueryUpdate) {
       operationCount++;
@@ -105,6 +155,22 @@ export function generateOperationUpMigration(
       if (!isLast) lines.push("");
     }
 
+    // Update the auth options once the fields they refer to exist (auth collections only)
+    if (modification.authOptionsUpdate) {
+      operationCount++;
+      const isLast = operationCount === totalOperations;
+      lines.push(
+        generateAuthOptionsUpdate(
+          collectionName,
+          modification.authOptionsUpdate.newValue,
+          undefined,
+          isLast,
+          collectionIdMap
+        )
+      );
+      if (!isLast) lines.push("");
+    }
+
     // Update permissions (preferred) or rules (fallback)
     if (modification.permissionsToUpdate && modification.permissionsToUpdate.length > 0) {
       operationCount++;
@@ -199,9 +265,14 @@ export function generateOperationDownMigration(
   const lines: string[] = [];
 
   if (operation.type === "create") {
-    // Rollback: delete the created collection
+    // Rollback: remove the relations closing a cycle, so its collections
+    // can be deleted, then delete the created collection
     const collection = operation.collection as CollectionSchema;
     const varName = "collection";
+    for (const relations of [...(operation.deferred ?? [])].reverse()) {
+      lines.push(generateDeferredRelationsRemoval(relations, false, collectionIdMap));
+      lines.push("");
+    }
     lines.push(generateCollectionDeletion(collection.name, varName, true, collectionIdMap));
   } else if (operation.type === "modify") {
     // Rollback: revert all modifications
@@ -219,6 +290,8 @@ export function generateOperationDownMigration(
       modification.indexesToAdd.length +
       modification.indexesToRemove.length +
       (modification.viewQueryUpdate ? 1 : 0) +
+      (hasAuthOptionsToRestore(modification) ? 1 : 0) +
+      (modification.nameUpdate ? 1 : 0) +
       (modification.permissionsToUpdate.length > 0 ? 1 : modification.rulesToUpdate.length > 0 ? 1 : 0);
 
     // Restore the previous view query (view collections only)
@@ -237,6 +310,23 @@ export function generateOperationDownMigration(
       if (!isLast) lines.push("");
     }
 
+    // Restore the previous auth options while the fields they refer to still exist
+    if (modification.authOptionsUpdate) {
+      const restores = hasAuthOptionsToRestore(modification);
+      if (restores) operationCount++;
+      const isLast = restores && operationCount === totalOperations;
+      lines.push(
+        generateAuthOptionsRevert(
+          collectionName,
+          modification.authOptionsUpdate.oldValue,
+          modification.authOptionsUpdate.newValue,
+          isLast,
+          collectionIdMap
+        )
+      );
+      if (!isLast) lines.push("");
+    }
+
     // Revert permissions (preferred) or rules (fallback)
     if (modification.permissionsToUpdate && modification.permissionsToUpdate.length > 0) {
       operationCount++;
@@ -303,8 +393,11 @@ export function generateOperationDownMigration(
         newValue: change.oldValue,
       }));
 
+      // A renamed field is found under its new name by the time down() runs
+      const renamedTo = fieldMod.changes.find((change) => change.property === "name")?.newValue;
+
       const reverseMod: FieldModification = {
-        fieldName: fieldMod.fieldName,
+        fieldName: renamedTo ?? fieldMod.fieldName,
         currentDefinition: fieldMod.newDefinition,
         newDefinition: fieldMod.currentDefinition,
         changes: reverseChanges,
@@ -324,6 +417,22 @@ export function generateOperationDownMigration(
       lines.push(generateFieldDeletion(collectionName, field.name, varName, isLast, collectionIdMap));
       if (!isLast) lines.push("");
     }
+
+    // Restore the previous collection name last, mirroring up()
+    if (modification.nameUpdate) {
+      operationCount++;
+      const isLast = operationCount === totalOperations;
+      lines.push(
+        generateCollectionRename(
+          modification.nameUpdate.newValue,
+          modification.nameUpdate.oldValue,
+          `collection_${collectionName}_revert_rename`,
+          isLast,
+          collectionIdMap
+        )
+      );
+      if (!isLast) lines.push("");
+    }
   } else if (operation.type === "delete") {
     // Rollback: recreate the deleted collection
     const collection = operation.collection;
@@ -425,6 +534,21 @@ export function generateUpMigration(diff: SchemaDiff): string {
     for (const modification of diff.collectionsToModify) {
       const collectionName = modification.collection;
 
+      // Rename the collection first, so everything after addresses it by its new name
+      if (modification.nameUpdate) {
+        lines.push(`  // Rename ${modification.nameUpdate.oldValue} to ${collectionName}`);
+        lines.push(
+          generateCollectionRename(
+            modification.nameUpdate.oldValue,
+            modification.nameUpdate.newValue,
+            `collection_${collectionName}_rename`,
+            false,
+            collectionIdMap
+          )
+        );
+        lines.push(``);
+      }
+
       // Update the view query (view collections only)
       if (modification.viewQueryUpdate) {
         lines.push(`  // Update the view query of ${collectionName}`);
@@ -493,6 +617,21 @@ export function generateUpMigration(diff: SchemaDiff): string {
         }
       }
 
+      // Update the auth options once the fields they refer to exist (auth collections only)
+      if (modification.authOptionsUpdate) {
+        lines.push(`  // Update the auth options of ${collectionName}`);
+        lines.push(
+          generateAuthOptionsUpdate(
+            collectionName,
+            modification.authOptionsUpdate.newValue,
+            undefined,
+            false,
+            collectionIdMap
+          )
+        );
+        lines.push(``);
+      }
+
       // Update permissions (preferred) or rules (fallback)
       if (modification.permissionsToUpdate && modification.permissionsToUpdate.length > 0) {
         lines.push(`  // Update permissions for ${collectionName}`);
@@ -652,6 +791,21 @@ export function generateDownMigration(diff: SchemaDiff): string {
         lines.push(``);
       }
 
+      // Restore the previous auth options while the fields they refer to still exist
+      if (modification.authOptionsUpdate) {
+        lines.push(`  // Restore the auth options of ${collectionName}`);
+        lines.push(
+          generateAuthOptionsRevert(
+            collectionName,
+            modification.authOptionsUpdate.oldValue,
+            modification.authOptionsUpdate.newValue,
+            false,
+            collectionIdMap
+          )
+        );
+        lines.push(``);
+      }
+
       // Revert permissions (preferred) or rules (fallback)
       if (modification.permissionsToUpdate && modification.permissionsToUpdate.length > 0) {
         lines.push(`  // Revert permissions for ${collectionName}`);
@@ -720,8 +874,10 @@ export function generateDownMigration(diff: SchemaDiff): string {
             newValue: change.oldValue,
           }));
 
+          // A renamed field is found under its new name by the time down() runs
+          const renamedTo = fieldMod.changes.find((change) => change.property === "name")?.newValue;
           const reverseMod: FieldModification = {
-            fieldName: fieldMod.fieldName,
+            fieldName: renamedTo ?? fieldMod.fieldName,
             currentDefinition: fieldMod.newDefinition,
             newDefinition: fieldMod.currentDefinition,
             changes: reverseChanges,
@@ -742,6 +898,21 @@ export function generateDownMigration(diff: SchemaDiff): string {
           lines.push(``);
         }
       }
+
+      // Restore the previous collection name last, mirroring up()
+      if (modification.nameUpdate) {
+        lines.push(`  // Rename ${collectionName} back to ${modification.nameUpdate.oldValue}`);
+        lines.push(
+          generateCollectionRename(
+            modification.nameUpdate.newValue,
+            modification.nameUpdate.oldValue,
+            `collection_${collectionName}_revert_rename`,
+            false,
+            collectionIdMap
+          )
+        );
+        lines.push(``);
+      }
     }
   }
 
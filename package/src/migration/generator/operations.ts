@@ -1,5 +1,5 @@
 import type { CollectionOperation, SchemaDiff } from "../types";
-import { sortCollectionsByDependency } from "../utils/dependency-sorter";
+import { splitCircularRelations } from "../utils/dependency-sorter";
 import { type MigrationGeneratorConfig } from "./config";
 import { generateTimestamp } from "./utils";
 
@@ -16,12 +16,14 @@ export function splitDiffByCollection(diff: SchemaDiff, baseTimestamp: string):
   let currentTimestamp = parseInt(baseTimestamp, 10);
 
   // Split collectionsToCreate into individual operations
-  // Sort collections by dependency to ensure collections are created in the correct order
-  const sortedCollections = sortCollectionsByDependency(diff.collectionsToCreate);
+  // Sort collections by dependency to ensure collections are created in the correct order,
+  // holding back the relations that form a cycle until the cycle's last collection exists
+  const { collections: sortedCollections, deferred } = splitCircularRelations(diff.collectionsToCreate);
   for (const collection of sortedCollections) {
     operations.push({
       type: "create",
       collection: collection,
+      ...(deferred.has(collection.name) ? { deferred: deferred.get(collection.name) } : {}),
       timestamp: currentTimestamp.toString(),
     });
     currentTimestamp += 1; // Increment by 1 second
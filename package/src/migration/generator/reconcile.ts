@@ -0,0 +1,103 @@
+import type { CollectionDrift } from "../engine/drift";
+import type { RawCollection } from "../engine/types";
+
+/** Bookkeeping PocketBase stamps itself; never written by a migration */
+const AUTODATE_KEYS = ["created", "updated"];
+
+/**
+ * Generates the helpers a reconcile migration works through
+ *
+ * Collections are found by id, which a drifted collection keeps even when it
+ * was renamed. `upsert` merges the whole collection in with `unmarshal`, so
+ * fields, rules and indexes all end up exactly as written.
+ *
+ * @returns JavaScript code declaring `find`, `upsert` and `remove`
+ */
+function generateReconcileHelpers(): string {
+  return [
+    `  const find = (id) => {`,
+    `    try {`,
+    `      return app.findCollectionByNameOrId(id);`,
+    `    } catch (error) {`,
+    `      return null;`,
+    `    }`,
+    `  };`,
+    `  const upsert = (data) => {`,
+    `    const collection = find(data.id);`,
+    `    if (!collection) {`,
+    `      app.save(new Collection(data));`,
+    `      return;`,
+    `    }`,
+    `    unmarshal(data, collection);`,
+    `    app.save(collection);`,
+    `  };`,
+    `  const remove = (id) => {`,
+    `    const collection = find(id);`,
+    `    if (collection) {`,
+    `      app.delete(collection);`,
+    `    }`,
+    `  };`,
+  ].join("\n");
+}
+
+function withoutAutodates(collection: RawCollection): RawCollection {
+  return Object.fromEntries(Object.entries(collection).filter(([key]) => !AUTODATE_KEYS.includes(key)));
+}
+
+/**
+ * Generates code that brings drifted collections to one side's state
+ * Collections are written before any is removed, so a relation to a
+ * collection about to be removed has already been dropped
+ */
+function generateReconcileBody(drift: CollectionDrift[], side: "expected" | "actual"): string {
+  const other = side === "expected" ? "actual" : "expected";
+  const lines = [generateReconcileHelpers(), ``];
+
+  for (const entry of drift) {
+    const collection = entry[side];
+    if (collection) {
+      lines.push(`  upsert(${JSON.stringify(withoutAutodates(collection), null, 2).replace(/\n/g, "\n  ")});`);
+    }
+  }
+  for (const entry of drift) {
+    const removed = entry[other];
+    if (!entry[side] && removed) {
+      lines.push(`  remove(${JSON.stringify(removed.id ?? removed.name)});`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Generates the up migration for a reconcile: the migrations' state becomes
+ * the database's, as it is now
+ *
+ * @param drift - Drifted collections (diffDatabaseCollections)
+ * @returns JavaScript code for the up migration
+ */
+export function generateReconcileUpMigration(drift: CollectionDrift[]): string {
+  return generateReconcileBody(drift, "actual");
+}
+
+/**
+ * Generates the down migration for a reconcile: the collections go back to
+ * what the earlier migrations left
+ *
+ * @param drift - Drifted collections (diffDatabaseCollections)
+ * @returns JavaScript code for the down migration
+ */
+export function generateReconcileDownMigration(drift: CollectionDrift[]): string {
+  return generateReconcileBody(drift, "expected");
+}
+
+/**
+ * Generates the filename for a reconcile migration
+ * Format: {timestamp}_reconciled_drift.js
+ *
+ * @param timestamp - Timestamp for the file
+ * @returns Migration filename
+ */
+export function generateReconcileMigrationFilename(timestamp: string): string {
+  return `${timestamp}_reconciled_drift.js`;
+}
@@ -0,0 +1,103 @@
+import type { SeedRecord } from "../../schema/seed";
+import type { SeedChanges } from "../seeds";
+
+/**
+ * Generates the helpers a seed migration works through
+ *
+ * Records are always found by their natural key, never by id: ids differ
+ * between environments. `upsert` makes inserting idempotent — a database
+ * that already holds a record with the key has it updated instead of
+ * failing on a duplicate.
+ *
+ * @param changes - The collection's seed changes
+ * @returns JavaScript code declaring `collection`, `find`, `upsert` and `remove`
+ */
+function generateSeedHelpers(changes: SeedChanges): string {
+  const filter = changes.key.map((field) => `${field} = {:${field}}`).join(" && ");
+
+  return [
+    `  const collection = app.findCollectionByNameOrId(${JSON.stringify(changes.collection)});`,
+    ``,
+    `  const find = (params) => {`,
+    `    try {`,
+    `      return app.findFirstRecordByFilter(collection, ${JSON.stringify(filter)}, params);`,
+    `    } catch (error) {`,
+    `      return null;`,
+    `    }`,
+    `  };`,
+    `  const upsert = (data) => {`,
+    `    const record = find(data) || new Record(collection);`,
+    `    record.load(data);`,
+    `    app.save(record);`,
+    `  };`,
+    `  const remove = (params) => {`,
+    `    const record = find(params);`,
+    `    if (record) {`,
+    `      app.delete(record);`,
+    `    }`,
+    `  };`,
+  ].join("\n");
+}
+
+function keyOf(record: SeedRecord, key: string[]): SeedRecord {
+  return Object.fromEntries(key.map((field) => [field, record[field] ?? null]));
+}
+
+/**
+ * Generates the up migration for a collection's seed changes
+ * Deletes run first, so a key freed by one record can be taken by another
+ *
+ * @param changes - The collection's seed changes
+ * @returns JavaScript code for the up migration
+ */
+export function generateSeedUpMigration(changes: SeedChanges): string {
+  const lines = [generateSeedHelpers(changes), ``];
+
+  for (const record of changes.deletes) {
+    lines.push(`  remove(${JSON.stringify(keyOf(record, changes.key))});`);
+  }
+  for (const update of changes.updates) {
+    lines.push(`  upsert(${JSON.stringify({ ...update.key, ...update.after })});`);
+  }
+  for (const record of changes.inserts) {
+    lines.push(`  upsert(${JSON.stringify(record)});`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Generates the down migration for a collection's seed changes
+ * Inserted records are removed, updated fields restored, and deleted
+ * records re-created with their original id, so relations to them resolve
+ *
+ * @param changes - The collection's seed changes
+ * @returns JavaScript code for the down migration
+ */
+export function generateSeedDownMigration(changes: SeedChanges): string {
+  const lines = [generateSeedHelpers(changes), ``];
+
+  for (const record of changes.inserts) {
+    lines.push(`  remove(${JSON.stringify(keyOf(record, changes.key))});`);
+  }
+  for (const update of changes.updates) {
+    lines.push(`  upsert(${JSON.stringify({ ...update.key, ...update.before })});`);
+  }
+  for (const record of changes.deletes) {
+    lines.push(`  upsert(${JSON.stringify(record)});`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Generates the filename for a collection's seed migration
+ * Format: {timestamp}_seeded_{collection_name}.js
+ *
+ * @param changes - The collection's seed changes
+ * @param timestamp - Timestamp for the file
+ * @returns Migration filename
+ */
+export function generateSeedMigrationFilename(changes: SeedChanges, timestamp: string): string {
+  return `${timestamp}_seeded_${changes.collection.replace(/[^a-zA-Z0-9_]/g, "_")}.js`;
+}
@@ -0,0 +1,85 @@
+import { isEnvValue } from "../../schema/env";
+import type { SettingChange } from "../settings";
+
+/**
+ * Renders a setting's value as JavaScript
+ * An environment reference becomes the `$os.getenv()` call that reads it
+ */
+function renderValue(value: unknown): string {
+  if (isEnvValue(value)) {
+    return `$os.getenv(${JSON.stringify(value.env)})`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Nests dotted paths back into the object shape `unmarshal` merges */
+function nest(entries: Array<[string, unknown]>): Map<string, unknown> {
+  const root = new Map<string, unknown>();
+  for (const [path, value] of entries) {
+    const keys = path.split(".");
+    let node = root;
+    for (const key of keys.slice(0, -1)) {
+      if (!(node.get(key) instanceof Map)) {
+        node.set(key, new Map<string, unknown>());
+      }
+      node = node.get(key) as Map<string, unknown>;
+    }
+    node.set(keys[keys.length - 1], value);
+  }
+  return root;
+}
+
+function renderObject(node: Map<string, unknown>, indent: string): string {
+  const lines = [...node].map(([key, value]) => {
+    const rendered = value instanceof Map ? renderObject(value, `${indent}  `) : renderValue(value);
+    return `${indent}  ${key}: ${rendered},`;
+  });
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+/**
+ * Generates code merging one side of the changes into `app.settings()`
+ * `unmarshal` leaves every setting it is not given as it is
+ */
+function generateSettingsBody(changes: SettingChange[], side: "before" | "after"): string {
+  const values = nest(changes.map((change) => [change.path, change[side]]));
+  return [
+    `  const settings = app.settings();`,
+    ``,
+    `  unmarshal(${renderObject(values, "  ")}, settings);`,
+    ``,
+    `  return app.save(settings);`,
+  ].join("\n");
+}
+
+/**
+ * Generates the up migration for settings changes: the declared values
+ *
+ * @param changes - Settings changes from diffSettings()
+ * @returns JavaScript code for the up migration
+ */
+export function generateSettingsUpMigration(changes: SettingChange[]): string {
+  return generateSettingsBody(changes, "after");
+}
+
+/**
+ * Generates the down migration for settings changes: the values the earlier
+ * migrations left
+ *
+ * @param changes - Settings changes from diffSettings()
+ * @returns JavaScript code for the down migration
+ */
+export function generateSettingsDownMigration(changes: SettingChange[]): string {
+  return generateSettingsBody(changes, "before");
+}
+
+/**
+ * Generates the filename for a settings migration
+ * Format: {timestamp}_updated_settings.js
+ *
+ * @param timestamp - Timestamp for the file
+ * @returns Migration filename
+ */
+export function generateSettingsMigrationFilename(timestamp: string): string {
+  return `${timestamp}_updated_settings.js`;
+}
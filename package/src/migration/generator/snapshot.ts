@@ -0,0 +1,47 @@
+import type { RawCollection } from "../engine/types";
+
+/** Bookkeeping PocketBase stamps itself; never written by a migration */
+const AUTODATE_KEYS = ["created", "updated"];
+
+/**
+ * Generates the up migration for a collections snapshot, in the shape
+ * PocketBase's own `migrate collections` writes
+ *
+ * `deleteMissing` is false: the snapshot only ever adds to what a database
+ * holds, so PocketBase's system collections are left alone.
+ *
+ * @param collections - Every collection, in creation order
+ * @returns JavaScript code for the up migration
+ */
+export function generateSnapshotUpMigration(collections: RawCollection[]): string {
+  const snapshot = collections.map((collection) =>
+    Object.fromEntries(Object.entries(collection).filter(([key]) => !AUTODATE_KEYS.includes(key)))
+  );
+
+  return [
+    `  const snapshot = ${JSON.stringify(snapshot, null, 2).replace(/\n/g, "\n  ")};`,
+    ``,
+    `  return app.importCollections(snapshot, false);`,
+  ].join("\n");
+}
+
+/**
+ * Generates the down migration for a collections snapshot
+ * A snapshot replaces the history before it, so there is nothing to roll back to
+ *
+ * @returns JavaScript code for the down migration
+ */
+export function generateSnapshotDownMigration(): string {
+  return `  return null;`;
+}
+
+/**
+ * Generates the filename for a collections snapshot
+ * Format: {timestamp}_collections_snapshot.js, which replay recognizes as a checkpoint
+ *
+ * @param timestamp - Timestamp for the file
+ * @returns Migration filename
+ */
+export function generateSnapshotMigrationFilename(timestamp: string): string {
+  return `${timestamp}_collections_snapshot.js`;
+}
@@ -15,7 +15,13 @@ export { findLatestSnapshot, loadSnapshotWithMigrations } from "./snapshot.js";
 export type { SnapshotConfig } from "./snapshot.js";
 
 // Diff
-export { categorizeChangesBySeverity, compare, filterDiff } from "./diff/index.js";
+export {
+  categorizeChangesBySeverity,
+  compare,
+  filterDiff,
+  filterSeedChanges,
+  filterSettingsChanges,
+} from "./diff/index.js";
 export type { DiffEngineConfig, FilterOptions } from "./diff/index.js";
 
 // Destructive-change detection (the single implementation)
@@ -28,9 +34,92 @@ export {
 } from "./validation.js";
 export type { DestructiveChange, DestructiveChangeType } from "./validation.js";
 
+// Schema-wide rule validation
+export { formatSchemaRuleIssue, validateSchemaRules } from "./schema-rule-validator.js";
+export type { SchemaRuleIssue } from "./schema-rule-validator.js";
+
+// Access simulation (API rules evaluated against sample requests)
+export { AccessCheckError, checkAccess } from "./engine/index.js";
+export type { AccessAction, AccessDecision, AccessRequest, SimulatedRecord, SimulatedRecords } from "./engine/index.js";
+
+// Seed data (declared records against the records migrations produce)
+export { diffSeeds } from "./seeds.js";
+export type { SeedChanges, SeedRecordUpdate } from "./seeds.js";
+
+// App settings (declared settings against the settings migrations leave)
+export { diffSettings, formatSettingValue, summarizeSettingValue } from "./settings.js";
+export type { SettingChange } from "./settings.js";
+
+// Mixins (pending changes attributed to the mixins that contributed them)
+export { attributeMixinChanges } from "./mixins.js";
+export type { MixinChanges } from "./mixins.js";
+
+// Drift (the live database against the applied migrations)
+export { detectDrift, diffDatabaseCollections } from "./engine/index.js";
+export type { CollectionDrift, DriftOptions, DriftReport, StateDifference } from "./engine/index.js";
+
+// Squashing (migrations folded into a collections snapshot)
+export { applySquash, planSquash } from "./squash.js";
+export type { SquashOptions, SquashPlan, SquashResult } from "./squash.js";
+
+// Rollback (previewing or reverting the newest applied migrations)
+export { planRevertMigrations, planRollback } from "./rollback.js";
+export type { RollbackOptions, RollbackPlan } from "./rollback.js";
+
+// Rebasing (migrations from merged branches regenerated on the merged state)
+export { applyRebase, diagnoseMigrations, planRebase } from "./rebase.js";
+export type {
+  DiagnoseOptions,
+  MigrationConflict,
+  MigrationDiagnosis,
+  RebaseOptions,
+  RebasePlan,
+  RebaseResult,
+} from "./rebase.js";
+
+// Checksums (applied migrations edited after the fact)
+export {
+  acceptMigrationChanges,
+  checkMigrationChecksums,
+  computeMigrationChecksum,
+  readMigrationChecksum,
+  withChecksumHeader,
+} from "./checksums.js";
+export type { AcceptedChange, ChecksumReport, MigrationChecksum, MigrationChecksumStatus } from "./checksums.js";
+
+// Questions about ambiguous changes (answered by an interactive generate)
+export {
+  applyBackfills,
+  findBackfillQuestions,
+  findDestructiveQuestions,
+  findRenameQuestions,
+  formatDiffQuestion,
+  listDiffQuestions,
+  parseBackfillAnswer,
+  splitRenames,
+} from "./questions.js";
+export type { BackfillQuestion, DestructiveQuestion, DiffQuestion, RenameQuestion } from "./questions.js";
+
+// Applying migrations to a SQLite database without PocketBase
+export { DatabaseApplyError, applyMigrationsToDatabase, planDatabaseApply } from "./engine/index.js";
+export type { DatabaseApplyOptions, DatabaseApplyPlan, DatabaseApplyResult, DatabaseState } from "./engine/index.js";
+
 // Generator
-export { generate, planMigrations, writePlannedMigrations } from "./generator/index.js";
-export type { MigrationGeneratorConfig, PlannedMigration } from "./generator/index.js";
+export {
+  generate,
+  planMigrations,
+  planReconcileMigration,
+  planSeedMigrations,
+  planSettingsMigration,
+  writePlannedMigrations,
+} from "./generator/index.js";
+export type {
+  MigrationGeneratorConfig,
+  PlannedMigration,
+  PlannedReconcileMigration,
+  PlannedSeedMigration,
+  PlannedSettingsMigration,
+} from "./generator/index.js";
 
 // Execution engine
 export {
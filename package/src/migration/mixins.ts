@@ -0,0 +1,81 @@
+/**
+ * Mixin attribution — which pending changes come from a collection's mixins
+ *
+ * defineCollection({ mixins }) records what each mixin added to the
+ * collection. Matching a diff's changes against those records tells a
+ * schema-wide change (every collection gaining a field because its mixin
+ * did) apart from one collection's own.
+ */
+
+import type { CollectionSchema, SchemaDefinition, SchemaDiff } from "./types";
+import { indexName } from "./utils/index-statements";
+
+/**
+ * The pending changes one mixin accounts for in one collection
+ */
+export interface MixinChanges {
+  collection: string;
+  mixin: string;
+  /** Changes in summary form: "+field owner", "~field owner", "+index idx_notes_owner", "~listRule" */
+  changes: string[];
+}
+
+function attribute(
+  collection: CollectionSchema,
+  fieldsAdded: string[],
+  fieldsModified: string[],
+  indexesAdded: string[],
+  rulesUpdated: string[]
+): MixinChanges[] {
+  return (collection.mixins ?? []).flatMap((mixin) => {
+    const changes = [
+      ...fieldsAdded.filter((name) => mixin.fields.includes(name)).map((name) => `+field ${name}`),
+      ...fieldsModified.filter((name) => mixin.fields.includes(name)).map((name) => `~field ${name}`),
+      ...indexesAdded
+        .filter((index) => mixin.indexes.includes(index))
+        .map((index) => `+index ${indexName(index) ?? index}`),
+      ...rulesUpdated.filter((rule) => (mixin.rules as string[]).includes(rule)).map((rule) => `~${rule}`),
+    ];
+    return changes.length > 0 ? [{ collection: collection.name, mixin: mixin.name, changes }] : [];
+  });
+}
+
+/**
+ * Attributes a diff's changes to the mixins that contributed them
+ *
+ * A new collection's mixin fields, indexes and rules all count. For a
+ * modified collection, added and modified fields, added indexes and updated
+ * rules count; what a mixin no longer contributes is the collection's own
+ * removal and is not attributed.
+ *
+ * @param diff - Diff of the schema against the migration files
+ * @param schema - The schema the diff was computed from
+ * @returns One entry per collection and mixin with changes, in diff order
+ */
+export function attributeMixinChanges(diff: SchemaDiff, schema: SchemaDefinition): MixinChanges[] {
+  const created = diff.collectionsToCreate.flatMap((collection) =>
+    attribute(
+      collection,
+      collection.fields.map((field) => field.name),
+      [],
+      collection.indexes ?? [],
+      Object.keys(collection.rules ?? {})
+    )
+  );
+
+  const modified = diff.collectionsToModify.flatMap((modification) => {
+    const collection = schema.collections.get(modification.collection);
+    if (!collection) {
+      return [];
+    }
+    return attribute(
+      collection,
+      modification.fieldsToAdd.map((field) => field.name),
+      modification.fieldsToModify.map((field) => field.fieldName),
+      modification.indexesToAdd,
+      modification.rulesToUpdate.map((rule) => rule.ruleType)
+    );
+  });
+
+  return [...created, ...modified];
+}
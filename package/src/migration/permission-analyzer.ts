@@ -10,6 +10,7 @@
 
 import { resolveTemplate } from "../utils/permission-templates";
 import type { APIRuleType, PermissionSchema, PermissionTemplateConfig } from "../utils/permissions";
+import { hasConjunct, parenthesize } from "../utils/rule-conditions";
 import type { RuleValidationResult } from "./rule-validator";
 import { RuleValidator } from "./rule-validator";
 import type { FieldDefinition } from "./types";
@@ -203,4 +204,41 @@ export class PermissionAnalyzer {
       manageRule: permissions.manageRule ?? null,
     };
   }
+
+  /**
+   * Hide soft-deleted records from the list and view rules
+   *
+   * Adds `<field> = ""` to both rules. A locked rule (null or unset) stays
+   * locked, a public one ("") becomes the condition alone, and a rule that
+   * already requires the condition (as a top-level && operand) is left as
+   * it is. Any other rule is parenthesized before the condition is joined.
+   *
+   * @param permissions - Resolved permission schema
+   * @param field - The soft-delete date field
+   * @returns Permission schema with the list and view rules amended
+   *
+   * @example
+   * ```typescript
+   * analyzer.applySoftDelete({ listRule: "owner = @request.auth.id", viewRule: "" }, "deletedAt");
+   * // { listRule: '(owner = @request.auth.id) && deletedAt = ""', viewRule: 'deletedAt = ""' }
+   * ```
+   */
+  applySoftDelete(permissions: PermissionSchema, field: string): PermissionSchema {
+    const condition = `${field} = ""`;
+    const amended: PermissionSchema = { ...permissions };
+
+    for (const ruleType of ["listRule", "viewRule"] as const) {
+      const rule = permissions[ruleType];
+      if (rule === undefined || rule === null || hasConjunct(rule, condition)) {
+        continue;
+      }
+      if (rule.trim() === "") {
+        amended[ruleType] = condition;
+      } else {
+        amended[ruleType] = `${parenthesize(rule)} && ${condition}`;
+      }
+    }
+
+    return amended;
+  }
 }
@@ -7,6 +7,7 @@
  */
 
 import { dedentSql } from "../schema/view";
+import { pickAuthOptions } from "./auth-options";
 import type { CollectionSchema, FieldDefinition, SchemaSnapshot } from "./types";
 import { getSupportedFieldOptionKeys } from "./utils/type-mapper";
 
@@ -186,6 +187,14 @@ export function convertPocketBaseCollection(pbCollection: any): CollectionSchema
     schema.viewQuery = dedentSql(pbCollection.viewQuery);
   }
 
+  // Preserve the auth options of an auth collection
+  if (pbCollection.type === "auth") {
+    const auth = pickAuthOptions(pbCollection);
+    if (auth) {
+      schema.auth = auth;
+    }
+  }
+
   // Add indexes if present
   if (pbCollection.indexes && Array.isArray(pbCollection.indexes)) {
     schema.indexes = pbCollection.indexes;
@@ -0,0 +1,267 @@
+/**
+ * Diff questions — the parts of a schema diff only a person can decide
+ *
+ * The diff engine guesses where the schema does not say: a removed field and
+ * an added one of the same type are read as a rename, a required field is
+ * added to a collection whose records have no value for it, and destructive
+ * changes are either all left out or, with --force, all kept. An interactive
+ * `generate` asks about each of these instead, and the answers are applied
+ * to the diff here before it reaches filterDiff and the generators.
+ */
+
+import type { FieldBackfill, FieldDefinition, FieldModification, SchemaDiff } from "./types";
+import { DestructiveChangeType, detectDestructiveChanges, type DestructiveChange } from "./validation";
+
+/** A field the diff engine renamed without a `renamedFrom` hint saying so */
+export interface RenameQuestion {
+  kind: "rename";
+  collection: string;
+  from: string;
+  to: string;
+}
+
+/** A required field added to an existing collection, whose records have no value for it */
+export interface BackfillQuestion {
+  kind: "backfill";
+  collection: string;
+  field: FieldDefinition;
+}
+
+/** A destructive change, which may be left out of the migration */
+export interface DestructiveQuestion {
+  kind: "destructive";
+  change: DestructiveChange;
+}
+
+export type DiffQuestion = RenameQuestion | BackfillQuestion | DestructiveQuestion;
+
+/** A value cannot be stored in these fields, or PocketBase fills them itself */
+const NON_BACKFILLABLE_TYPES = new Set(["file", "autodate"]);
+
+function isGuessedRename(collection: string, modification: FieldModification, question: RenameQuestion): boolean {
+  return (
+    question.collection === collection &&
+    question.from === modification.fieldName &&
+    question.to === modification.newDefinition.name
+  );
+}
+
+/**
+ * Finds the renames the diff engine guessed from field types alone
+ *
+ * @param diff - Schema diff
+ * @returns One question per renamed field without a `renamedFrom` hint
+ */
+export function findRenameQuestions(diff: SchemaDiff): RenameQuestion[] {
+  const questions: RenameQuestion[] = [];
+  for (const modification of diff.collectionsToModify) {
+    for (const fieldMod of modification.fieldsToModify) {
+      const renamed = fieldMod.changes.some((change) => change.property === "name");
+      if (renamed && fieldMod.newDefinition.renamedFrom !== fieldMod.fieldName) {
+        questions.push({
+          kind: "rename",
+          collection: modification.collection,
+          from: fieldMod.fieldName,
+          to: fieldMod.newDefinition.name,
+        });
+      }
+    }
+  }
+  return questions;
+}
+
+/**
+ * Turns guessed renames back into the removal and addition they were read from
+ *
+ * @param diff - Schema diff
+ * @param renames - Rename questions answered "drop and add"
+ * @returns A new diff; the given one is not modified
+ */
+export function splitRenames(diff: SchemaDiff, renames: RenameQuestion[]): SchemaDiff {
+  if (renames.length === 0) {
+    return diff;
+  }
+
+  const collectionsToModify = diff.collectionsToModify.map((modification) => {
+    const split = modification.fieldsToModify.filter((fieldMod) =>
+      renames.some((question) => isGuessedRename(modification.collection, fieldMod, question))
+    );
+    if (split.length === 0) {
+      return modification;
+    }
+    return {
+      ...modification,
+      fieldsToAdd: [...modification.fieldsToAdd, ...split.map((fieldMod) => fieldMod.newDefinition)],
+      fieldsToRemove: [...modification.fieldsToRemove, ...split.map((fieldMod) => fieldMod.currentDefinition)],
+      fieldsToModify: modification.fieldsToModify.filter((fieldMod) => !split.includes(fieldMod)),
+    };
+  });
+
+  return { ...diff, collectionsToModify };
+}
+
+/**
+ * Finds required fields added to existing collections without a backfill
+ *
+ * @param diff - Schema diff
+ * @returns One question per field the existing records need a value for
+ */
+export function findBackfillQuestions(diff: SchemaDiff): BackfillQuestion[] {
+  const questions: BackfillQuestion[] = [];
+  for (const modification of diff.collectionsToModify) {
+    for (const field of modification.fieldsToAdd) {
+      if (field.required && !field.backfill && !NON_BACKFILLABLE_TYPES.has(field.type)) {
+        questions.push({ kind: "backfill", collection: modification.collection, field });
+      }
+    }
+  }
+  return questions;
+}
+
+/**
+ * Gives added fields the value their existing records are filled with
+ *
+ * @param diff - Schema diff
+ * @param answers - Backfill questions with the value chosen for each
+ * @returns A new diff; the given one is not modified
+ */
+export function applyBackfills(
+  diff: SchemaDiff,
+  answers: Array<{ question: BackfillQuestion; backfill: FieldBackfill }>
+): SchemaDiff {
+  if (answers.length === 0) {
+    return diff;
+  }
+
+  const collectionsToModify = diff.collectionsToModify.map((modification) => ({
+    ...modification,
+    fieldsToAdd: modification.fieldsToAdd.map((field) => {
+      const answer = answers.find(
+        ({ question }) => question.collection === modification.collection && question.field.name === field.name
+      );
+      return answer ? { ...field, backfill: answer.backfill } : field;
+    }),
+  }));
+
+  return { ...diff, collectionsToModify };
+}
+
+/**
+ * Finds the destructive changes that may be left out
+ *
+ * Type changes with a conversion keep the data and are not asked about.
+ *
+ * @param diff - Schema diff
+ * @returns One question per destructive change
+ */
+export function findDestructiveQuestions(diff: SchemaDiff): DestructiveQuestion[] {
+  return detectDestructiveChanges(diff)
+    .filter((change) => change.severity !== "low")
+    .map((change) => ({ kind: "destructive", change }));
+}
+
+/**
+ * Lists every question an interactive run would ask, taking each guessed
+ * rename to be a rename
+ *
+ * A required field added without a backfill is destructive too, but it is
+ * only asked about as such when no value is given, so it is listed once.
+ *
+ * @param diff - Schema diff
+ * @returns Renames first, then backfills, then destructive changes
+ */
+export function listDiffQuestions(diff: SchemaDiff): DiffQuestion[] {
+  const backfills = findBackfillQuestions(diff);
+  const destructive = findDestructiveQuestions(diff).filter(
+    ({ change }) =>
+      change.type !== DestructiveChangeType.FIELD_REQUIRED_ADDITION ||
+      !backfills.some((question) => question.collection === change.collection && question.field.name === change.field)
+  );
+  return [...findRenameQuestions(diff), ...backfills, ...destructive];
+}
+
+/**
+ * Describes a question in one line
+ */
+export function formatDiffQuestion(question: DiffQuestion): string {
+  switch (question.kind) {
+    case "rename":
+      return (
+        `Rename ${question.collection}.${question.from} to ${question.to}, ` +
+        `or drop ${question.from} and add ${question.to}?`
+      );
+    case "backfill":
+      return `Value for ${question.collection}.${question.field.name} (${question.field.type}, required) on existing records?`;
+    case "destructive":
+      return `Skip this destructive change? ${question.change.description}`;
+  }
+}
+
+/**
+ * Reads a typed answer as a value for a field
+ *
+ * Numbers, booleans and JSON are parsed; multi-value select and relation
+ * fields take a comma-separated list; everything else is kept as typed.
+ *
+ * @param field - The field being filled
+ * @param answer - What the user typed
+ * @returns The backfill, or null for a blank answer
+ * @throws Error when the answer is not a value the field can hold
+ */
+export function parseBackfillAnswer(field: FieldDefinition, answer: string): FieldBackfill | null {
+  const text = answer.trim();
+  if (text === "") {
+    return null;
+  }
+
+  switch (field.type) {
+    case "number": {
+      const value = Number(text);
+      if (!Number.isFinite(value)) {
+        throw new Error(`"${text}" is not a number`);
+      }
+      return { value };
+    }
+    case "bool":
+      if (/^(y|yes|true)$/i.test(text)) {
+        return { value: true };
+      }
+      if (/^(n|no|false)$/i.test(text)) {
+        return { value: false };
+      }
+      throw new Error(`"${text}" is not true or false`);
+    case "json":
+    case "geoPoint":
+      try {
+        return { value: JSON.parse(text) };
+      } catch {
+        throw new Error(`"${text}" is not valid JSON`);
+      }
+    case "date":
+      if (Number.isNaN(Date.parse(text))) {
+        throw new Error(`"${text}" is not a date`);
+      }
+      return { value: text };
+    case "select": {
+      const values: string[] = field.options?.values ?? [];
+      const multiple = (field.options?.maxSelect ?? 1) > 1;
+      const chosen = multiple ? splitList(text) : [text];
+      const unknown = chosen.filter((value) => values.length > 0 && !values.includes(value));
+      if (unknown.length > 0) {
+        throw new Error(`Not one of ${values.join(", ")}: ${unknown.join(", ")}`);
+      }
+      return { value: multiple ? chosen : text };
+    }
+    case "relation":
+      return { value: (field.relation?.maxSelect ?? 1) > 1 ? splitList(text) : text };
+    default:
+      return { value: text };
+  }
+}
+
+function splitList(text: string): string[] {
+  return text
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "");
+}
@@ -0,0 +1,458 @@
+/**
+ * Rebasing — regenerating one branch's migrations on top of another's
+ *
+ * Two branches that each run `generate` write migrations against the state
+ * they knew about. Once merged, the files sit side by side in pb_migrations,
+ * their timestamps possibly interleaved, and a migration from one branch may
+ * now run after the other branch changed the same collection: its `up()`
+ * looks for a field that is gone, or its `down()` restores a value that was
+ * only current on its own branch.
+ *
+ * Diagnosing replays the directory and round-trips every migration against
+ * the state its predecessors leave — the state it will actually meet. A
+ * migration whose `up()` fails there, or whose `down()` does not bring that
+ * state back, was written for a different pre-state, and the earlier
+ * migrations that changed the same thing are what it collides with.
+ *
+ * Rebasing takes the conflicting migrations (and any later ones that only
+ * replay on top of them) out, replays what is left as the merged state, and
+ * generates fresh migrations from the schema on top of it, the same way
+ * `generate` would. Like a squash, it rewrites history: a migration any
+ * database has already applied cannot be rebased.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { compare } from "./diff/index";
+import type { AppliedMigrationsSource } from "./engine/applied-migrations";
+import {
+  discoverMigrations,
+  planMigrationReplay,
+  resolveMigrationRef,
+  type DiscoveredMigration,
+} from "./engine/migration-plan";
+import { executeMigrationFile, executeMigrationSource } from "./engine/runner";
+import { compareStores, describeStateDifferences, type StateDifference } from "./engine/state-compare";
+import { CollectionStore } from "./engine/store";
+import type { EngineOptions, EngineWarning } from "./engine/types";
+import { verifyMigrationRoundTrip, verifyMigrationSources } from "./engine/verify";
+import { FileSystemError, MigrationExecutionError, RebaseError } from "./errors";
+import type { MigrationGeneratorConfig } from "./generator/config";
+import { replaceMigrationFiles } from "./generator/file-writer";
+import { planMigrations, type PlannedMigration } from "./generator/index";
+import type { SchemaDefinition, SchemaDiff } from "./types";
+
+/**
+ * A migration written for a state it no longer meets
+ */
+export interface MigrationConflict {
+  /** Basename of the migration */
+  file: string;
+  /**
+   * `up-failed`: its up() fails against the state its predecessors leave.
+   * `stale-down`: its down() fails, or does not restore that state.
+   */
+  kind: "up-failed" | "stale-down";
+  /** The error, or what down() fails to restore */
+  details: string[];
+  /** Basenames of the earlier migrations that changed the same collections, fields or rules */
+  conflictsWith: string[];
+}
+
+export interface MigrationDiagnosis {
+  /** Basenames of the migrations checked, in replay order */
+  checked: string[];
+  conflicts: MigrationConflict[];
+  /** Warnings from executing the migrations */
+  warnings: EngineWarning[];
+}
+
+export interface DiagnoseOptions {
+  /** Options forwarded to the execution engine */
+  engineOptions?: EngineOptions;
+}
+
+export interface RebaseOptions {
+  /**
+   * Migrations to regenerate, by filename or timestamp. Defaults to the
+   * migrations diagnosing the directory finds in conflict.
+   */
+  files?: string[];
+  /** The database's `_migrations` table; without it the safety check is skipped */
+  applied?: AppliedMigrationsSource | null;
+  /** Options forwarded to the execution engine */
+  engineOptions?: EngineOptions;
+  /** Template settings for the regenerated migrations */
+  generatorConfig?: Omit<MigrationGeneratorConfig, "migrationDir">;
+}
+
+export interface RebasePlan {
+  /** The migrations taken out, in replay order */
+  replaced: DiscoveredMigration[];
+  /** Basenames of those that were not asked for, but only replay on top of the others */
+  dependents: string[];
+  /** The conflicts the selection came from, when no files were given */
+  conflicts: MigrationConflict[];
+  /** The schema compared against the merged state: what the regenerated migrations do */
+  diff: SchemaDiff;
+  /** The regenerated migrations, with fresh timestamps */
+  migrations: PlannedMigration[];
+  /** Warnings from replaying the merged state */
+  warnings: EngineWarning[];
+}
+
+export interface RebaseResult {
+  /** Paths of the regenerated migrations */
+  written: string[];
+  /** Where each replaced file went, or null where it was deleted */
+  moved: Array<{ from: string; to: string | null }>;
+}
+
+/** What one migration's up() changed, kept to find what a later one collides with */
+interface AppliedChanges {
+  file: string;
+  changes: StateDifference[];
+}
+
+function hasChanges(diff: SchemaDiff): boolean {
+  return diff.collectionsToCreate.length + diff.collectionsToDelete.length + diff.collectionsToModify.length > 0;
+}
+
+/**
+ * Collections a migration names by name or ID, as found in the state it runs
+ * against — the only clue to what an up() that failed was after
+ */
+function referencedCollections(source: string, store: CollectionStore): string[] {
+  return store
+    .list()
+    .filter(
+      (collection) => source.includes(JSON.stringify(collection.name)) || source.includes(JSON.stringify(collection.id))
+    )
+    .map((collection) => collection.name);
+}
+
+/**
+ * The newest earlier migration that changed each difference's collection,
+ * field and property — or, failing that, the same collection
+ */
+function findCollisions(history: AppliedChanges[], targets: Array<Partial<StateDifference>>): string[] {
+  const collisions = new Set<string>();
+
+  for (const target of targets) {
+    const sameThing = (change: StateDifference) =>
+      change.collection === target.collection &&
+      (target.field === undefined || change.field === target.field) &&
+      (target.property === undefined || change.property === target.property);
+    const sameCollection = (change: StateDifference) => change.collection === target.collection;
+
+    const match =
+      [...history].reverse().find((entry) => entry.changes.some(sameThing)) ??
+      [...history].reverse().find((entry) => entry.changes.some(sameCollection));
+    if (match) {
+      collisions.add(match.file);
+    }
+  }
+
+  return [...collisions];
+}
+
+/**
+ * Replays the migrations directory and round-trips every migration against
+ * the state its predecessors leave, reporting those written for another
+ * pre-state
+ *
+ * A migration whose up() fails is skipped, as PocketBase's transaction would
+ * leave it, and the ones after it are checked against the state without it.
+ *
+ * @param migrationsPath - The pb_migrations directory
+ * @param options - Engine options
+ * @returns The conflicting migrations, in replay order
+ * @throws MigrationExecutionError when the snapshot replay starts from cannot be executed
+ */
+export function diagnoseMigrations(migrationsPath: string, options: DiagnoseOptions = {}): MigrationDiagnosis {
+  const engineOptions = options.engineOptions ?? {};
+  const discovered = new Map(discoverMigrations(migrationsPath).map((migration) => [migration.path, migration]));
+  const window = planMigrationReplay(migrationsPath).filesToReplay;
+
+  let store = new CollectionStore();
+  const history: AppliedChanges[] = [];
+  const conflicts: MigrationConflict[] = [];
+  const warnings: EngineWarning[] = [];
+
+  for (const filePath of window) {
+    const file = path.basename(filePath);
+    const source = fs.readFileSync(filePath, "utf-8");
+
+    // A snapshot's down() restores nothing, so only its up() is replayed
+    if (discovered.get(filePath)?.isSnapshot) {
+      const after = store.clone();
+      const result = executeMigrationSource(source, after, { ...engineOptions, filename: filePath });
+      warnings.push(...result.warnings);
+      history.push({ file, changes: compareStores(store, after) });
+      store = after;
+      continue;
+    }
+
+    const result = verifyMigrationRoundTrip({ source, file: filePath }, store, engineOptions);
+    warnings.push(...result.warnings);
+
+    if (result.error && result.error.phase !== "down") {
+      conflicts.push({
+        file,
+        kind: "up-failed",
+        details: [result.error.message],
+        conflictsWith: findCollisions(
+          history,
+          referencedCollections(source, store).map((collection) => ({ collection }))
+        ),
+      });
+      continue;
+    }
+
+    const changes = compareStores(store, result.storeAfterUp);
+    if (result.error) {
+      conflicts.push({
+        file,
+        kind: "stale-down",
+        details: [result.error.message],
+        conflictsWith: findCollisions(history, changes),
+      });
+    } else if (result.downApplied && !result.reversible) {
+      conflicts.push({
+        file,
+        kind: "stale-down",
+        details: describeStateDifferences(result.differences),
+        conflictsWith: findCollisions(history, result.differences),
+      });
+    }
+
+    history.push({ file, changes });
+    store = result.storeAfterUp;
+  }
+
+  return { checked: window.map((file) => path.basename(file)), conflicts, warnings };
+}
+
+/**
+ * Finds the migrations named by filename or timestamp
+ */
+function resolveFiles(refs: string[], discovered: DiscoveredMigration[]): DiscoveredMigration[] {
+  const unknown: string[] = [];
+  const found = refs.flatMap((ref) => {
+    const migration = resolveMigrationRef(discovered, ref);
+    if (!migration) {
+      unknown.push(ref);
+      return [];
+    }
+    return [migration];
+  });
+
+  if (unknown.length > 0) {
+    throw new RebaseError(`Cannot rebase ${unknown.join(", ")}: no such migration`);
+  }
+  return found;
+}
+
+/**
+ * Replays every migration in the window but the replaced ones. A migration
+ * that fails after a replaced one is taken to build on it and is replaced
+ * too; one that fails before any is broken on its own, and is thrown.
+ */
+function replayWithout(
+  window: DiscoveredMigration[],
+  replaced: Set<string>,
+  engineOptions: EngineOptions
+): { store: CollectionStore; warnings: EngineWarning[] } {
+  for (;;) {
+    const store = new CollectionStore();
+    const warnings: EngineWarning[] = [];
+    let dependent: DiscoveredMigration | null = null;
+
+    for (const migration of window) {
+      if (replaced.has(migration.name)) {
+        continue;
+      }
+      try {
+        warnings.push(...executeMigrationFile(migration.path, store, engineOptions).warnings);
+      } catch (error) {
+        const afterReplaced = window
+          .slice(0, window.indexOf(migration))
+          .some((candidate) => replaced.has(candidate.name));
+        if (error instanceof MigrationExecutionError && afterReplaced) {
+          dependent = migration;
+          break;
+        }
+        throw error;
+      }
+    }
+
+    if (!dependent) {
+      return { store, warnings };
+    }
+    replaced.add(dependent.name);
+  }
+}
+
+/**
+ * Plans a rebase: takes the migrations out, replays the rest as the merged
+ * state and regenerates the schema's changes on top of it
+ *
+ * The regenerated migrations are verified before they are returned: their
+ * up() must bring the merged state to the schema, and their down() back.
+ *
+ * @param migrationsPath - The pb_migrations directory
+ * @param schema - The schema, as merged
+ * @param options - Migrations to rebase, the applied migrations and engine options
+ * @returns The replaced migrations and their replacements; nothing is written
+ * @throws RebaseError when there is nothing to rebase or it cannot be rebased
+ * @throws MigrationExecutionError when a kept migration cannot be replayed
+ */
+export function planRebase(migrationsPath: string, schema: SchemaDefinition, options: RebaseOptions = {}): RebasePlan {
+  const discovered = discoverMigrations(migrationsPath);
+  const engineOptions = options.engineOptions ?? {};
+  const windowPaths = new Set(planMigrationReplay(migrationsPath).filesToReplay);
+  const window = discovered.filter((migration) => windowPaths.has(migration.path));
+
+  let conflicts: MigrationConflict[] = [];
+  let selected: DiscoveredMigration[];
+  if (options.files && options.files.length > 0) {
+    selected = resolveFiles(options.files, discovered);
+  } else {
+    conflicts = diagnoseMigrations(migrationsPath, { engineOptions }).conflicts;
+    if (conflicts.length === 0) {
+      throw new RebaseError("Nothing to rebase: every migration matches the state its predecessors leave");
+    }
+    selected = resolveFiles(
+      conflicts.map((conflict) => conflict.file),
+      discovered
+    );
+  }
+
+  const reasons: string[] = [];
+  const beforeWindow = selected.filter((migration) => !windowPaths.has(migration.path));
+  if (beforeWindow.length > 0) {
+    reasons.push(
+      `older than the newest collections snapshot, which already contains them: ` +
+        beforeWindow.map((migration) => migration.name).join(", ")
+    );
+  }
+  const snapshots = selected.filter((migration) => migration.isSnapshot);
+  if (snapshots.length > 0) {
+    reasons.push(
+      `collections snapshots, which hold no changes to regenerate: ${snapshots.map((m) => m.name).join(", ")}`
+    );
+  }
+  if (reasons.length > 0) {
+    throw new RebaseError(`Cannot rebase ${selected.map((migration) => migration.name).join(", ")}:`, reasons);
+  }
+
+  const requested = new Set(selected.map((migration) => migration.name));
+  const replacedNames = new Set(requested);
+  const merged = replayWithout(window, replacedNames, { ...engineOptions, records: "simulate" });
+  const replaced = window.filter((migration) => replacedNames.has(migration.name));
+
+  const withRecords = replaced.filter((migration) => fs.readFileSync(migration.path, "utf-8").includes("new Record("));
+  if (withRecords.length > 0) {
+    reasons.push(
+      `they create records, and a rebase regenerates schema changes only: ` +
+        `${withRecords.map((migration) => migration.name).join(", ")}. Declare the records with defineSeed().`
+    );
+  }
+
+  if (options.applied) {
+    const appliedNames = new Set(options.applied.entries.map((entry) => entry.file));
+    const alreadyApplied = replaced.filter((migration) => appliedNames.has(migration.name));
+    if (alreadyApplied.length > 0) {
+      reasons.push(
+        `already applied to ${options.applied.origin}: ${alreadyApplied.map((migration) => migration.name).join(", ")}. ` +
+          `Write a new migration on top of them instead.`
+      );
+    }
+  }
+
+  if (reasons.length > 0) {
+    throw new RebaseError(`Cannot rebase ${replaced.map((migration) => migration.name).join(", ")}:`, reasons);
+  }
+
+  const diff = compare(schema, merged.store.toSnapshot());
+  // The replaced files are still on disk, and a regenerated migration may
+  // match one of them byte for byte; it must not be skipped as a duplicate
+  const migrations = planMigrations(diff, { ...options.generatorConfig, migrationDir: migrationsPath, force: true });
+
+  verifyRegenerated(migrations, merged.store, schema, engineOptions);
+
+  return {
+    replaced,
+    dependents: replaced.filter((migration) => !requested.has(migration.name)).map((migration) => migration.name),
+    conflicts,
+    diff,
+    migrations,
+    warnings: merged.warnings,
+  };
+}
+
+/**
+ * Round-trips the regenerated migrations on the merged state and checks they
+ * end at the schema
+ */
+function verifyRegenerated(
+  migrations: PlannedMigration[],
+  mergedStore: CollectionStore,
+  schema: SchemaDefinition,
+  engineOptions: EngineOptions
+): void {
+  const report = verifyMigrationSources(
+    migrations.map((migration) => ({ source: migration.content, file: migration.filename })),
+    { ...engineOptions, initialStore: mergedStore }
+  );
+  if (!report.ok) {
+    throw new RebaseError(
+      "The regenerated migrations do not round-trip on the merged state:",
+      report.failures.map((failure) =>
+        failure.error
+          ? `${failure.file}: ${failure.error.phase}() failed: ${failure.error.message}`
+          : `${failure.file}: ${describeStateDifferences(failure.differences).join("; ")}`
+      )
+    );
+  }
+
+  const remaining = compare(schema, report.store.toSnapshot());
+  if (hasChanges(remaining)) {
+    const collections = [
+      ...remaining.collectionsToCreate.map((collection) => collection.name),
+      ...remaining.collectionsToDelete.map((collection) => collection.name),
+      ...remaining.collectionsToModify.map((modification) => modification.collection),
+    ];
+    throw new RebaseError("The regenerated migrations do not reproduce the schema:", [
+      `collections that still differ: ${collections.join(", ")}`,
+    ]);
+  }
+}
+
+/**
+ * Writes the regenerated migrations and moves the ones they replace out of
+ * the migrations directory — into `archiveDir`, or nowhere when it is null
+ *
+ * The replacements are written before any replaced file leaves, so a failed
+ * write loses no history.
+ *
+ * @param plan - Result of planRebase()
+ * @param migrationsPath - The pb_migrations directory
+ * @param archiveDir - Directory to move the replaced files into; null deletes them
+ * @returns The regenerated migrations' paths and where each replaced file went
+ * @throws FileSystemError when a file cannot be moved or written
+ */
+export function applyRebase(plan: RebasePlan, migrationsPath: string, archiveDir: string | null): RebaseResult {
+  try {
+    return replaceMigrationFiles(migrationsPath, plan.migrations, plan.replaced, archiveDir);
+  } catch (error) {
+    const fsError = error as NodeJS.ErrnoException;
+    throw new FileSystemError(
+      `Failed to rebase migrations: ${fsError.message}`,
+      fsError.path ?? migrationsPath,
+      "write",
+      fsError.code,
+      fsError
+    );
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Rollback — reverting the newest applied migrations
+ *
+ * PocketBase's `migrate down [n]` runs the `down()` of the last n migrations
+ * `_migrations` lists, newest first. Before anyone runs it, the same closures
+ * are executed here against the replayed state, so the schema the database
+ * would be left with can be previewed, gated like any destructive change,
+ * and — for databases that must only ever move forward — written as a new
+ * migration that reverts the schema instead.
+ *
+ * Only a run of migrations at the end of the application order can be
+ * reverted: PocketBase could not revert anything else either, and a `down()`
+ * is only meaningful against the state its own `up()` left behind.
+ */
+
+import { compare } from "./diff/index";
+import type { AppliedMigrationsSource } from "./engine/applied-migrations";
+import {
+  discoverMigrations,
+  planMigrationReplay,
+  resolveMigrationRef,
+  type DiscoveredMigration,
+} from "./engine/migration-plan";
+import { replayMigrations } from "./engine/replayer";
+import { executeMigrationDownFile, executeMigrationSource } from "./engine/runner";
+import type { CollectionStore } from "./engine/store";
+import type { EngineOptions, EngineWarning } from "./engine/types";
+import { RollbackError } from "./errors";
+import type { MigrationGeneratorConfig } from "./generator/config";
+import { planMigrations, type PlannedMigration } from "./generator/index";
+import type { SchemaDiff, SchemaSnapshot } from "./types";
+
+export interface RollbackOptions {
+  /** How many of the newest applied migrations to revert. Defaults to 1. */
+  steps?: number;
+  /**
+   * Revert every migration applied after this one, given as a filename or
+   * timestamp. The migration itself stays applied.
+   */
+  to?: string;
+  /** The database's `_migrations` table; without it every file on disk counts as applied */
+  applied?: AppliedMigrationsSource | null;
+  /** Options forwarded to the execution engine */
+  engineOptions?: EngineOptions;
+}
+
+export interface RollbackPlan {
+  /** The migrations to revert, newest first — the order their `down()` runs in */
+  reverted: DiscoveredMigration[];
+  /** The schema as the applied migrations leave it */
+  current: SchemaSnapshot;
+  /** The schema once the reverted migrations' `down()` has run */
+  target: SchemaSnapshot;
+  /** Changes that take the current schema to the target */
+  diff: SchemaDiff;
+  /** The PocketBase command that performs the rollback */
+  downCommand: string;
+  /** Warnings from executing the migrations */
+  warnings: EngineWarning[];
+  /** The replayed state, for generating a revert migration */
+  currentStore: CollectionStore;
+}
+
+function hasChanges(diff: SchemaDiff): boolean {
+  return diff.collectionsToCreate.length + diff.collectionsToDelete.length + diff.collectionsToModify.length > 0;
+}
+
+/** Basenames of the applied migrations, in the order PocketBase applied them */
+function applicationOrder(
+  discovered: DiscoveredMigration[],
+  replayed: string[],
+  applied: AppliedMigrationsSource | null
+): string[] {
+  if (applied) {
+    return applied.entries.map((entry) => entry.file);
+  }
+  const inWindow = new Set(replayed);
+  return discovered.filter((migration) => inWindow.has(migration.path)).map((migration) => migration.name);
+}
+
+function selectReverted(order: string[], options: RollbackOptions): string[] {
+  if (options.to !== undefined) {
+    const applied = order.map((name) => ({ name }));
+    const target = resolveMigrationRef(applied, options.to);
+    if (!target) {
+      throw new RollbackError(`Cannot roll back to ${options.to}: it is not an applied migration`);
+    }
+    return order.slice(order.indexOf(target.name) + 1);
+  }
+
+  const steps = options.steps ?? 1;
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new RollbackError(`Cannot roll back ${steps} step(s): pass a positive whole number`);
+  }
+  if (steps > order.length) {
+    throw new RollbackError(`Cannot roll back ${steps} step(s): only ${order.length} migration(s) are applied`);
+  }
+  return order.slice(order.length - steps);
+}
+
+/**
+ * Plans a rollback: picks the migrations to revert and runs their `down()`
+ * against the replayed state
+ *
+ * @param migrationsPath - The pb_migrations directory
+ * @param options - How far to roll back, the applied migrations and engine options
+ * @returns The reverted migrations and the schema diff they cause; nothing is written
+ * @throws RollbackError when there is nothing to revert or it cannot be reverted
+ * @throws MigrationExecutionError when a migration cannot be executed
+ */
+export function planRollback(migrationsPath: string, options: RollbackOptions = {}): RollbackPlan {
+  const discovered = discoverMigrations(migrationsPath);
+  const applied = options.applied ?? null;
+  const engineOptions = options.engineOptions ?? {};
+
+  const replayPlan = planMigrationReplay(migrationsPath, { applied });
+  const order = applicationOrder(discovered, replayPlan.filesToReplay, applied);
+  if (order.length === 0) {
+    throw new RollbackError(`Nothing to roll back: no migrations are applied`);
+  }
+
+  const revertedNames = selectReverted(order, options);
+  if (revertedNames.length === 0) {
+    throw new RollbackError(`Nothing to roll back: ${options.to} is the newest applied migration`);
+  }
+
+  const byName = new Map(discovered.map((migration) => [migration.name, migration]));
+  const reasons: string[] = [];
+
+  const missing = revertedNames.filter((name) => !byName.has(name));
+  if (missing.length > 0) {
+    reasons.push(`no longer on disk, so their down() cannot run: ${missing.join(", ")}`);
+  }
+  const snapshots = revertedNames.filter((name) => byName.get(name)?.isSnapshot);
+  if (snapshots.length > 0) {
+    reasons.push(
+      `collections snapshots, whose down() restores nothing: ${snapshots.join(", ")}. ` +
+        `Roll back to a migration after the snapshot.`
+    );
+  }
+
+  // The reverted files must be the last ones the replay executes, or their
+  // down() would run against a state their up() never produced
+  const replayTail = replayPlan.filesToReplay.slice(-revertedNames.length);
+  const revertedPaths = new Set(revertedNames.map((name) => byName.get(name)?.path));
+  if (missing.length === 0 && !replayTail.every((file) => revertedPaths.has(file))) {
+    reasons.push(
+      `they were not applied in filename order, so their down() cannot be previewed against the replayed state`
+    );
+  }
+
+  if (reasons.length > 0) {
+    throw new RollbackError(`Cannot roll back ${revertedNames.join(", ")}:`, reasons);
+  }
+
+  const replay = replayMigrations(replayPlan.filesToReplay, engineOptions);
+  const targetStore = replay.store.clone();
+  const reverted = revertedNames.map((name) => byName.get(name)!).reverse();
+  const warnings = [...replay.warnings];
+
+  const withoutDown: string[] = [];
+  for (const migration of reverted) {
+    const result = executeMigrationDownFile(migration.path, targetStore, engineOptions);
+    warnings.push(...result.warnings);
+    if (!result.applied) {
+      withoutDown.push(migration.name);
+    }
+  }
+  if (withoutDown.length > 0) {
+    throw new RollbackError(`Cannot roll back ${revertedNames.join(", ")}:`, [
+      `no down() is registered in ${withoutDown.join(", ")}, so PocketBase would only forget them`,
+    ]);
+  }
+
+  const current = replay.store.toSnapshot();
+  const target = targetStore.toSnapshot();
+
+  return {
+    reverted,
+    current,
+    target,
+    diff: compare({ collections: target.collections }, current),
+    downCommand: `./pocketbase migrate down ${reverted.length}`,
+    warnings,
+    currentStore: replay.store,
+  };
+}
+
+/**
+ * Generates forward migrations that take the schema to the rolled-back
+ * state, for databases that never run `migrate down`
+ *
+ * The migrations are executed against the replayed state before they are
+ * returned, and must arrive at the same schema the `down()` closures do.
+ *
+ * @param plan - Result of planRollback()
+ * @param config - Migration generator configuration
+ * @returns One planned migration per collection the rollback changes
+ * @throws RollbackError when the generated migrations end in another schema
+ */
+export function planRevertMigrations(plan: RollbackPlan, config: MigrationGeneratorConfig): PlannedMigration[] {
+  // A revert can match an older migration byte for byte; skipping it as a
+  // duplicate would leave part of the rollback out
+  const planned = planMigrations(plan.diff, { ...config, force: true });
+
+  const store = plan.currentStore.clone();
+  for (const migration of planned) {
+    executeMigrationSource(migration.content, store, { filename: migration.filename });
+  }
+
+  const remaining = compare({ collections: store.toSnapshot().collections }, plan.target);
+  if (hasChanges(remaining)) {
+    const collections = [
+      ...remaining.collectionsToCreate.map((collection) => collection.name),
+      ...remaining.collectionsToDelete.map((collection) => collection.name),
+      ...remaining.collectionsToModify.map((modification) => modification.collection),
+    ];
+    throw new RollbackError("The revert migration does not reproduce the rolled-back schema:", [
+      `collections that still differ: ${collections.join(", ")}`,
+    ]);
+  }
+
+  return planned;
+}
@@ -50,6 +50,7 @@ export interface RuleValidationResult {
  * `User.email` and back-relations like `Members_via_WorkspaceRef.UserRef` —
  * is accepted unresolved and reported neither as an error nor a warning.
  * `@collection.*` references are likewise out of reach and are skipped.
+ * `validateSchemaRules` resolves all of them, against the whole schema.
  */
 export class RuleValidator {
   private fields: Map<string, FieldDefinition>;
@@ -163,9 +164,11 @@ export class RuleValidator {
     // First, remove string literals and @-references to avoid matching them.
     // @collection.<Name>.<path> addresses a *different* collection, so its
     // segments are not fields of this one and must not be validated as such.
+    // Modifiers (`:isset`, `:length`) and aliases go along with the reference.
     let cleaned = expression.replace(/"[^"]*"/g, '""').replace(/'[^']*'/g, "''");
-    cleaned = cleaned.replace(/@request\.[a-zA-Z_][a-zA-Z0-9_.]*/g, "");
-    cleaned = cleaned.replace(/@collection\.[a-zA-Z_][a-zA-Z0-9_.]*/g, "");
+    cleaned = cleaned.replace(/@request\.[a-zA-Z_][a-zA-Z0-9_.:]*/g, "");
+    cleaned = cleaned.replace(/@collection\.[a-zA-Z_][a-zA-Z0-9_.:]*/g, "");
+    cleaned = cleaned.replace(/:[a-zA-Z_][a-zA-Z0-9_]*/g, "");
 
     // Match field names (not starting with @)
     // Handles dot notation for relations: user.email, post.author.name
@@ -190,7 +193,7 @@ export class RuleValidator {
    * @returns True if the word is a keyword
    */
   private isKeyword(word: string): boolean {
-    const keywords = ["true", "false", "null", "AND", "OR", "NOT", "LIKE", "IN"];
+    const keywords = ["TRUE", "FALSE", "NULL", "AND", "OR", "NOT", "LIKE", "IN"];
     return keywords.includes(word.toUpperCase());
   }
 
@@ -0,0 +1,635 @@
+/**
+ * Schema-wide rule validation
+ *
+ * `RuleValidator` sees one collection at a time, so it stops at the first
+ * hop of a path. This pass has the whole `SchemaDefinition` and follows
+ * every hop PocketBase would:
+ *
+ * - relation chains (`author.team.name`) into the collection each relation
+ *   points at
+ * - back-relations (`comments_via_post.author`), which must name a relation
+ *   field of another collection pointing back at this one
+ * - `@collection.<name>.*` references and `@request.auth.*` / `@request.body.*`
+ * - modifiers (`:length`, `:each`, `:lower`, `:isset`, `:changed`)
+ *
+ * It then checks each comparison's operator against the operands it joins:
+ * `~` on a number, `>` on a bool, `?=` where neither side holds several
+ * values. A path PocketBase would reject is an error; an operator that only
+ * makes the rule mean something else is a warning.
+ *
+ * A hop into a collection the schema does not define (or a view, whose
+ * fields come from its query) cannot be checked and is accepted as written.
+ */
+
+import type { APIRuleType } from "../utils/permissions";
+import type { CollectionSchema, FieldDefinition, SchemaDefinition } from "./types";
+
+/**
+ * A problem with a reference or operator in a collection's rule
+ */
+export interface SchemaRuleIssue {
+  collection: string;
+  rule: APIRuleType;
+  /** `error` for a rule PocketBase rejects, `warning` for one it accepts */
+  severity: "error" | "warning";
+  message: string;
+  /** Mixins whose rules the collection's rule includes (defineCollection({ mixins })) */
+  mixins?: string[];
+}
+
+const RULE_TYPES: APIRuleType[] = ["listRule", "viewRule", "createRule", "updateRule", "deleteRule", "manageRule"];
+
+/** Fields every collection has, whether or not the schema lists them */
+const SYSTEM_FIELDS: Record<string, FieldDefinition["type"]> = {
+  id: "text",
+  created: "autodate",
+  updated: "autodate",
+  collectionId: "text",
+  collectionName: "text",
+};
+
+const AUTH_SYSTEM_FIELDS: Record<string, FieldDefinition["type"]> = {
+  email: "email",
+  emailVisibility: "bool",
+  verified: "bool",
+  tokenKey: "text",
+  password: "password",
+};
+
+/** Auth fields a request body can carry beyond the collection's own */
+const AUTH_BODY_FIELDS: Record<string, FieldDefinition["type"]> = {
+  ...AUTH_SYSTEM_FIELDS,
+  passwordConfirm: "password",
+  oldPassword: "password",
+};
+
+const DATE_MACROS = [
+  "@now",
+  "@yesterday",
+  "@tomorrow",
+  "@todayStart",
+  "@todayEnd",
+  "@monthStart",
+  "@monthEnd",
+  "@yearStart",
+  "@yearEnd",
+];
+const NUMBER_MACROS = ["@second", "@minute", "@hour", "@weekday", "@day", "@month", "@year"];
+
+const BACK_RELATION_SEGMENT = /^([a-zA-Z_][a-zA-Z0-9_]*)_via_([a-zA-Z_][a-zA-Z0-9_]*)$/;
+
+const OPERATORS = ["?!=", "?!~", "?>=", "?<=", "?=", "?>", "?<", "?~", "!=", "!~", ">=", "<=", "=", ">", "<", "~"];
+const LIKE_OPERATORS = ["~", "!~", "?~", "?!~"];
+const ORDER_OPERATORS = [">", ">=", "<", "<=", "?>", "?>=", "?<", "?<="];
+
+type Token =
+  | { kind: "operand"; text: string; literal?: "string" | "number" | "bool" | "null" }
+  | { kind: "operator"; text: string }
+  /** Parentheses, commas, `&&`/`||` and function names */
+  | { kind: "other"; text: string };
+
+/**
+ * What an operand compares: the kind of value it holds and whether it holds
+ * several. `unresolved` operands are not checked any further.
+ */
+interface Operand {
+  text: string;
+  unresolved?: boolean;
+  /** Field type of a field operand; absent for literals and macros */
+  fieldType?: FieldDefinition["type"];
+  value?: "text" | "number" | "bool" | "date" | "null";
+  multiple: boolean;
+  literal?: boolean;
+}
+
+class RuleReferenceError extends Error {}
+
+/**
+ * Splits a rule into operands, operators and everything else
+ *
+ * Strings are kept whole so their content is never read as a reference, and
+ * `//` comments are dropped.
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const rest = expression.slice(i);
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (rest.startsWith("//")) {
+      const end = expression.indexOf("\n", i);
+      i = end === -1 ? expression.length : end;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      let end = i + 1;
+      while (end < expression.length && expression[end] !== char) {
+        end += expression[end] === "\\" ? 2 : 1;
+      }
+      tokens.push({ kind: "operand", text: expression.slice(i, end + 1), literal: "string" });
+      i = end + 1;
+      continue;
+    }
+    if (rest.startsWith("&&") || rest.startsWith("||")) {
+      tokens.push({ kind: "other", text: rest.slice(0, 2) });
+      i += 2;
+      continue;
+    }
+    const operator = OPERATORS.find((candidate) => rest.startsWith(candidate));
+    if (operator) {
+      tokens.push({ kind: "operator", text: operator });
+      i += operator.length;
+      continue;
+    }
+    const number = /^-?\d+(\.\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ kind: "operand", text: number[0], literal: "number" });
+      i += number[0].length;
+      continue;
+    }
+    const identifier = /^@?[a-zA-Z_][a-zA-Z0-9_]*(?:[.:][a-zA-Z0-9_]+)*/.exec(rest);
+    if (identifier) {
+      const text = identifier[0];
+      i += text.length;
+      if (/^\s*\(/.test(expression.slice(i))) {
+        // A function call: its arguments are checked as operands of their own
+        tokens.push({ kind: "other", text });
+      } else if (text === "true" || text === "false") {
+        tokens.push({ kind: "operand", text, literal: "bool" });
+      } else if (text === "null") {
+        tokens.push({ kind: "operand", text, literal: "null" });
+      } else {
+        tokens.push({ kind: "operand", text });
+      }
+      continue;
+    }
+
+    tokens.push({ kind: "other", text: char });
+    i++;
+  }
+
+  return tokens;
+}
+
+function isMultipleField(field: FieldDefinition): boolean {
+  if (field.type === "relation") {
+    return (field.relation?.maxSelect ?? 1) > 1;
+  }
+  if (field.type === "select" || field.type === "file") {
+    return (field.options?.maxSelect ?? 1) > 1;
+  }
+  return false;
+}
+
+function valueOfFieldType(type: FieldDefinition["type"]): Operand["value"] {
+  switch (type) {
+    case "number":
+      return "number";
+    case "bool":
+      return "bool";
+    case "date":
+    case "autodate":
+      return "date";
+    default:
+      return "text";
+  }
+}
+
+/**
+ * Resolves the references of one schema's rules
+ */
+class SchemaRuleResolver {
+  constructor(private readonly schema: SchemaDefinition) {}
+
+  /**
+   * Looks a field up, system fields included
+   */
+  private findField(collection: CollectionSchema, name: string): FieldDefinition | undefined {
+    const field = collection.fields.find((candidate) => candidate.name === name);
+    if (field) {
+      return field;
+    }
+    const systemFields = collection.type === "auth" ? { ...SYSTEM_FIELDS, ...AUTH_SYSTEM_FIELDS } : SYSTEM_FIELDS;
+    return Object.hasOwn(systemFields, name) ? { name, id: name, type: systemFields[name], required: true } : undefined;
+  }
+
+  /**
+   * A collection whose fields can be checked, or undefined for one the
+   * schema does not define or a view
+   */
+  private checkable(name: string): CollectionSchema | undefined {
+    const collection = this.schema.collections.get(name);
+    return collection && collection.type !== "view" ? collection : undefined;
+  }
+
+  /**
+   * Resolves `<collection>_via_<field>` from the collection it is read on
+   *
+   * @returns The collection the back-relation's records belong to
+   */
+  private resolveBackRelation(collection: CollectionSchema, segment: string): CollectionSchema | undefined {
+    const match = BACK_RELATION_SEGMENT.exec(segment);
+    if (!match) {
+      return undefined;
+    }
+
+    const [, sourceName, fieldName] = match;
+    const source = this.schema.collections.get(sourceName);
+    if (!source) {
+      throw new RuleReferenceError(`Collection '${sourceName}' in back-relation '${segment}' does not exist`);
+    }
+    const field = source.fields.find((candidate) => candidate.name === fieldName);
+    if (!field) {
+      throw new RuleReferenceError(
+        `Field '${fieldName}' does not exist in collection '${sourceName}', referenced by back-relation '${segment}'`
+      );
+    }
+    if (field.type !== "relation" || field.relation?.collection !== collection.name) {
+      throw new RuleReferenceError(
+        `Field '${fieldName}' of collection '${sourceName}' is not a relation to '${collection.name}', so '${segment}' is not a back-relation`
+      );
+    }
+    return source;
+  }
+
+  /**
+   * Follows a dotted path from a collection, hop by hop
+   *
+   * @param prefix - What the path is written after, for messages
+   * @param multiple - Whether the path is already reached through several records
+   */
+  resolvePath(
+    collection: CollectionSchema,
+    path: string,
+    prefix: string = "",
+    multiple: boolean = false,
+    extraFields: Record<string, FieldDefinition["type"]> = {}
+  ): Operand {
+    const text = `${prefix}${path}`;
+    const segments = path.split(".");
+    let current = collection;
+
+    for (let index = 0; index < segments.length; index++) {
+      const [name, ...modifiers] = segments[index].split(":");
+      const isLast = index === segments.length - 1;
+      if (modifiers.length > 0 && !isLast) {
+        throw new RuleReferenceError(`Modifier ':${modifiers[0]}' must end the path '${text}'`);
+      }
+      if (modifiers.length > 1) {
+        throw new RuleReferenceError(`Only one modifier is allowed, in '${text}'`);
+      }
+
+      const field =
+        this.findField(current, name) ??
+        (index === 0 && Object.hasOwn(extraFields, name)
+          ? { name, id: name, type: extraFields[name], required: false }
+          : undefined);
+
+      if (!field) {
+        const source = this.resolveBackRelation(current, name);
+        if (!source) {
+          throw new RuleReferenceError(`Field '${name}' does not exist in collection '${current.name}'`);
+        }
+        if (isLast) {
+          const backRelation: FieldDefinition = { name, id: name, type: "relation", required: false };
+          return this.applyModifier(
+            { text, fieldType: "relation", value: "text", multiple: true },
+            backRelation,
+            modifiers[0],
+            true
+          );
+        }
+        current = source;
+        multiple = true;
+        continue;
+      }
+
+      if (isLast) {
+        const fieldMultiple = isMultipleField(field);
+        const operand: Operand = {
+          text,
+          fieldType: field.type,
+          value: valueOfFieldType(field.type),
+          multiple: multiple || fieldMultiple,
+        };
+        return this.applyModifier(operand, field, modifiers[0], fieldMultiple);
+      }
+
+      // JSON keys and geoPoint coordinates are not fields PocketBase knows
+      if (field.type === "json" || field.type === "geoPoint") {
+        return { text, unresolved: true, multiple };
+      }
+      if (field.type !== "relation") {
+        throw new RuleReferenceError(
+          `Field '${name}' is not a relation field, cannot access nested property '${segments[index + 1].split(":")[0]}'`
+        );
+      }
+
+      const target = field.relation ? this.checkable(field.relation.collection) : undefined;
+      if (!target) {
+        return { text, unresolved: true, multiple: true };
+      }
+      current = target;
+      multiple = multiple || isMultipleField(field);
+    }
+
+    return { text, unresolved: true, multiple };
+  }
+
+  /**
+   * Applies a path's modifier to the operand of its last field
+   *
+   * @param fieldMultiple - Whether the field itself holds several values
+   */
+  private applyModifier(
+    operand: Operand,
+    field: FieldDefinition,
+    modifier: string | undefined,
+    fieldMultiple: boolean
+  ): Operand {
+    switch (modifier) {
+      case undefined:
+        return operand;
+      case "length":
+      case "each":
+        if (!fieldMultiple) {
+          throw new RuleReferenceError(
+            `Modifier ':${modifier}' needs a multi-value field, but '${field.name}' holds a single value`
+          );
+        }
+        return modifier === "length"
+          ? { text: operand.text, value: "number", multiple: false }
+          : { ...operand, multiple: false };
+      case "lower":
+        return { text: operand.text, value: "text", multiple: operand.multiple };
+      case "isset":
+      case "changed":
+        throw new RuleReferenceError(
+          `Modifier ':${modifier}' only applies to @request.body fields, in '${operand.text}'`
+        );
+      default:
+        throw new RuleReferenceError(`Unknown modifier ':${modifier}' in '${operand.text}'`);
+    }
+  }
+
+  /**
+   * Resolves `@request.auth.<path>` against the schema's auth collections
+   *
+   * The rule does not say which auth collection a request is made as, so a
+   * path is accepted when any of them has it.
+   */
+  private resolveAuth(path: string): Operand {
+    const authCollections = Array.from(this.schema.collections.values()).filter(
+      (collection) => collection.type === "auth"
+    );
+    if (authCollections.length === 0) {
+      return { text: `@request.auth.${path}`, unresolved: true, multiple: false };
+    }
+
+    let firstError: RuleReferenceError | undefined;
+    for (const collection of authCollections) {
+      try {
+        return this.resolvePath(collection, path, "@request.auth.");
+      } catch (error) {
+        if (!(error instanceof RuleReferenceError)) throw error;
+        firstError ??= error;
+      }
+    }
+
+    const field = path.split(".")[0].split(":")[0];
+    if (authCollections.length > 1 && !authCollections.some((collection) => this.findField(collection, field))) {
+      throw new RuleReferenceError(
+        `Field '${field}' does not exist in any auth collection (${authCollections.map((collection) => `'${collection.name}'`).join(", ")})`
+      );
+    }
+    throw firstError;
+  }
+
+  /**
+   * Resolves `@request.body.<field>`, whose modifiers also include `:isset`
+   * and `:changed`
+   */
+  private resolveBody(collection: CollectionSchema, path: string): Operand {
+    const [fieldPath, modifier] = path.split(":");
+    const extraFields = collection.type === "auth" ? AUTH_BODY_FIELDS : {};
+
+    if (modifier === "isset" || modifier === "changed") {
+      this.resolvePath(collection, fieldPath, "@request.body.", false, extraFields);
+      return { text: `@request.body.${path}`, value: "bool", multiple: false };
+    }
+    return this.resolvePath(collection, path, "@request.body.", false, extraFields);
+  }
+
+  /**
+   * Resolves `@collection.<name>[:alias].<path>`
+   */
+  private resolveCollectionReference(reference: string): Operand {
+    const [, nameAndAlias = "", ...path] = reference.split(".");
+    const name = nameAndAlias.split(":")[0];
+
+    if (!this.schema.collections.has(name)) {
+      throw new RuleReferenceError(`Collection '${name}' in '${reference}' does not exist`);
+    }
+    const collection = this.checkable(name);
+    if (!collection || path.length === 0) {
+      return { text: reference, unresolved: true, multiple: true };
+    }
+    // A join over every record of the collection
+    return this.resolvePath(collection, path.join("."), `@collection.${nameAndAlias}.`, true);
+  }
+
+  /**
+   * Resolves any operand of a rule on a collection
+   */
+  resolveOperand(collection: CollectionSchema, token: Extract<Token, { kind: "operand" }>): Operand {
+    const text = token.text;
+
+    switch (token.literal) {
+      case "string":
+        return { text, value: "text", multiple: false, literal: true };
+      case "number":
+        return { text, value: "number", multiple: false, literal: true };
+      case "bool":
+        return { text, value: "bool", multiple: false, literal: true };
+      case "null":
+        return { text, value: "null", multiple: false, literal: true };
+    }
+
+    if (text.startsWith("@request.auth.")) {
+      return this.resolveAuth(text.slice("@request.auth.".length));
+    }
+    if (text.startsWith("@request.body.")) {
+      return this.resolveBody(collection, text.slice("@request.body.".length));
+    }
+    if (text.startsWith("@request.")) {
+      // Query parameters, headers, method and context: plain strings
+      return { text, value: "text", multiple: false };
+    }
+    if (text.startsWith("@collection.")) {
+      return this.resolveCollectionReference(text);
+    }
+    if (DATE_MACROS.includes(text)) {
+      return { text, value: "date", multiple: false };
+    }
+    if (NUMBER_MACROS.includes(text)) {
+      return { text, value: "number", multiple: false };
+    }
+    if (text.startsWith("@")) {
+      throw new RuleReferenceError(`Unknown macro '${text}'`);
+    }
+    return this.resolvePath(collection, text);
+  }
+}
+
+function describeOperand(operand: Operand): string {
+  if (operand.literal) {
+    return operand.text;
+  }
+  return operand.fieldType ? `${operand.fieldType} field '${operand.text}'` : `'${operand.text}'`;
+}
+
+/**
+ * Checks that an operator suits the operands it compares
+ *
+ * @returns A warning message, or null when the comparison is sound
+ */
+function checkComparison(operator: string, left: Operand, right: Operand): string | null {
+  if (left.unresolved || right.unresolved) {
+    return null;
+  }
+
+  if (LIKE_OPERATORS.includes(operator)) {
+    const misfit = [left, right].find(
+      (operand) => !operand.literal && (operand.value === "number" || operand.value === "bool")
+    );
+    if (misfit) {
+      return `Operator '${operator}' matches text, but ${describeOperand(misfit)} holds a ${misfit.value}`;
+    }
+  }
+
+  if (ORDER_OPERATORS.includes(operator)) {
+    const misfit = [left, right].find((operand) => operand.value === "bool");
+    if (misfit) {
+      return `Operator '${operator}' orders values, but ${describeOperand(misfit)} is a bool`;
+    }
+  }
+
+  if (operator.startsWith("?") && !left.multiple && !right.multiple) {
+    return `Operator '${operator}' matches any of several values, but ${describeOperand(left)} holds a single value; use '${operator.slice(1)}'`;
+  }
+
+  return null;
+}
+
+/**
+ * Validates one rule of a collection
+ */
+function validateRule(
+  resolver: SchemaRuleResolver,
+  collection: CollectionSchema,
+  rule: APIRuleType,
+  expression: string
+): SchemaRuleIssue[] {
+  const issues: SchemaRuleIssue[] = [];
+  const tokens = tokenize(expression);
+  const operands = new Map<number, Operand>();
+
+  tokens.forEach((token, index) => {
+    if (token.kind !== "operand") return;
+    try {
+      operands.set(index, resolver.resolveOperand(collection, token));
+    } catch (error) {
+      if (!(error instanceof RuleReferenceError)) throw error;
+      issues.push({ collection: collection.name, rule, severity: "error", message: error.message });
+    }
+  });
+
+  tokens.forEach((token, index) => {
+    if (token.kind !== "operator") return;
+    const left = operands.get(index - 1);
+    const right = operands.get(index + 1);
+    if (!left || !right) return;
+
+    const message = checkComparison(token.text, left, right);
+    if (message) {
+      issues.push({ collection: collection.name, rule, severity: "warning", message });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Checks the tenant a rule's membership check goes through
+ *
+ * The membership collection is resolved like any other `@collection`
+ * reference, but the tenant relation it is compared with may point into a
+ * collection the schema does not define, which is otherwise accepted.
+ */
+function validateTenant(
+  schema: SchemaDefinition,
+  collection: CollectionSchema,
+  rule: APIRuleType,
+  expression: string
+): SchemaRuleIssue[] {
+  const tenant = collection.tenant;
+  if (
+    !tenant ||
+    !expression.includes(`@collection.${tenant.membership.collection}.${tenant.membership.tenantField} ?=`)
+  ) {
+    return [];
+  }
+  if (schema.collections.has(tenant.collection)) {
+    return [];
+  }
+  return [
+    {
+      collection: collection.name,
+      rule,
+      severity: "error",
+      message: `Tenant collection '${tenant.collection}' does not exist, so membership in '${tenant.membership.collection}' cannot be checked`,
+    },
+  ];
+}
+
+/**
+ * Validates the rules of every collection against the whole schema
+ *
+ * View collections' rules are skipped: their fields come from the view's
+ * query, which the schema does not describe.
+ *
+ * @param schema - Schema whose rules to validate
+ * @returns Every issue found, in collection and rule order
+ */
+export function validateSchemaRules(schema: SchemaDefinition): SchemaRuleIssue[] {
+  const resolver = new SchemaRuleResolver(schema);
+  const issues: SchemaRuleIssue[] = [];
+
+  for (const collection of schema.collections.values()) {
+    if (collection.type === "view") continue;
+
+    for (const rule of RULE_TYPES) {
+      const expression = collection.rules?.[rule] ?? collection.permissions?.[rule];
+      if (typeof expression !== "string" || expression.trim() === "") continue;
+      const mixins = (collection.mixins ?? []).filter((mixin) => mixin.rules.includes(rule)).map((mixin) => mixin.name);
+      const ruleIssues = [
+        ...validateTenant(schema, collection, rule, expression),
+        ...validateRule(resolver, collection, rule, expression),
+      ];
+      issues.push(...ruleIssues.map((issue) => (mixins.length > 0 ? { ...issue, mixins } : issue)));
+    }
+  }
+
+  return issues;
+}
+
+export function formatSchemaRuleIssue(issue: SchemaRuleIssue): string {
+  const source = issue.mixins ? ` (combined with mixin ${issue.mixins.map((name) => `"${name}"`).join(", ")})` : "";
+  return `${issue.collection}.${issue.rule}${source}: ${issue.message}`;
+}
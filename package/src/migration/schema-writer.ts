@@ -0,0 +1,384 @@
+/**
+ * Schema writer — PocketBase collections back into Zod schema files
+ *
+ * The inverse of the analyzer: given collections in the shape PocketBase
+ * serializes them (read from `_collections`, or from a snapshot), render one
+ * `defineCollection()`/`defineView()` source file per collection, written with
+ * the same field helpers a hand-authored schema uses.
+ *
+ * The output is held to one contract: parsing the rendered files and comparing
+ * them against the collections they came from yields an empty diff. Anything
+ * the field helpers cannot express (a `presentable` flag, email domain
+ * restrictions) is reported as a warning on the file rather than silently
+ * dropped, because it *will* show up as a change on the next `generate`.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { normalizeOptionValue } from "./diff/utils";
+import type { RawCollection } from "./engine/types";
+import { FileSystemError } from "./errors";
+import { formatSqlTemplate } from "./generator/utils";
+import { convertPocketBaseField } from "./pocketbase-converter";
+import type { FieldDefinition } from "./types";
+
+export interface SchemaWriterOptions {
+  /**
+   * Module the rendered files import the field helpers from.
+   * Defaults to "pocketbase-zod-schema".
+   */
+  importSource?: string;
+  /** Also render PocketBase's own system collections (`_superusers`, ...) */
+  includeSystem?: boolean;
+}
+
+export interface RenderedSchemaFile {
+  /** Collection name */
+  collection: string;
+  /** File name, relative to the schema directory */
+  filename: string;
+  content: string;
+  /** What the file could not express, one line each */
+  warnings: string[];
+}
+
+export interface WriteSchemaFilesResult {
+  written: string[];
+  /** Files left untouched because they already existed */
+  skipped: string[];
+}
+
+const DEFAULT_IMPORT_SOURCE = "pocketbase-zod-schema";
+
+/** Fields every collection has; the analyzer never reads them from a schema */
+const SYSTEM_FIELD_NAMES = new Set(["id", "created", "updated", "collectionId", "collectionName", "expand"]);
+
+/** Auth fields the analyzer adds to every auth collection on its own */
+const AUTH_SYSTEM_FIELD_NAMES = new Set(["email", "emailVisibility", "verified", "password", "tokenKey"]);
+
+/** Options every field carries that no field helper accepts */
+const UNIVERSAL_OPTIONS = ["hidden", "presentable"];
+
+const BASE_RULES = ["listRule", "viewRule", "createRule", "updateRule", "deleteRule"] as const;
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Renders one schema file per collection, in the order given.
+ *
+ * @param collections - PocketBase-shaped collections, e.g. from `readDatabaseCollections`
+ * @param options - Rendering options
+ */
+export function renderSchemaFiles(
+  collections: RawCollection[],
+  options: SchemaWriterOptions = {}
+): RenderedSchemaFile[] {
+  // Relation fields point at collections by id; the schema names them
+  const namesById = new Map<string, string>();
+  for (const collection of collections) {
+    if (typeof collection?.id === "string" && typeof collection?.name === "string") {
+      namesById.set(collection.id, collection.name);
+    }
+  }
+
+  return collections
+    .filter((collection) => typeof collection?.name === "string" && collection.name !== "")
+    .filter((collection) => options.includeSystem || !isSystemCollection(collection))
+    .map((collection) => renderSchemaFile(collection, namesById, options));
+}
+
+/**
+ * Writes rendered files into a schema directory. Existing files are left alone
+ * unless `overwrite` is set — a pulled schema is a starting point, and the
+ * file on disk may already carry edits.
+ */
+export function writeSchemaFiles(
+  files: RenderedSchemaFile[],
+  directory: string,
+  options: { overwrite?: boolean } = {}
+): WriteSchemaFilesResult {
+  const result: WriteSchemaFilesResult = { written: [], skipped: [] };
+
+  try {
+    fs.mkdirSync(directory, { recursive: true });
+  } catch (error) {
+    const fsError = error as NodeJS.ErrnoException;
+    throw new FileSystemError(
+      `Failed to create schema directory: ${fsError.message}`,
+      directory,
+      "create",
+      fsError.code,
+      fsError
+    );
+  }
+
+  for (const file of files) {
+    const filePath = path.join(directory, file.filename);
+    if (fs.existsSync(filePath) && !options.overwrite) {
+      result.skipped.push(filePath);
+      continue;
+    }
+    try {
+      fs.writeFileSync(filePath, file.content, "utf-8");
+    } catch (error) {
+      const fsError = error as NodeJS.ErrnoException;
+      throw new FileSystemError(
+        `Failed to write schema file: ${fsError.message}`,
+        filePath,
+        "write",
+        fsError.code,
+        fsError
+      );
+    }
+    result.written.push(filePath);
+  }
+
+  return result;
+}
+
+/**
+ * PocketBase flags its own collections as system; the `_` prefix catches the
+ * ones an older export left unflagged
+ */
+function isSystemCollection(collection: RawCollection): boolean {
+  return collection.system === true || String(collection.name).startsWith("_");
+}
+
+function renderSchemaFile(
+  collection: RawCollection,
+  namesById: Map<string, string>,
+  options: SchemaWriterOptions
+): RenderedSchemaFile {
+  const name = String(collection.name);
+  const type = collection.type === "auth" || collection.type === "view" ? collection.type : "base";
+  const warnings: string[] = [];
+  const helpers = new Set<string>([type === "view" ? "defineView" : "defineCollection"]);
+
+  const fieldLines: string[] = [];
+  for (const raw of Array.isArray(collection.fields) ? collection.fields : []) {
+    const fieldName = String(raw?.name ?? "");
+    if (fieldName === "" || SYSTEM_FIELD_NAMES.has(fieldName)) {
+      continue;
+    }
+    if (type === "auth" && AUTH_SYSTEM_FIELD_NAMES.has(fieldName)) {
+      continue;
+    }
+
+    const field = convertPocketBaseField(raw);
+    if (field.relation) {
+      field.relation.collection = namesById.get(field.relation.collection) ?? field.relation.collection;
+    }
+
+    const rendered = renderField(field, helpers, (message) => warnings.push(`${name}.${fieldName}: ${message}`));
+    if (rendered !== null) {
+      fieldLines.push(`    ${formatKey(fieldName)}: ${rendered},`);
+    }
+  }
+
+  const exportName = `${toPascalCase(name)}Collection`;
+  const configLines: string[] = [`  collectionName: ${JSON.stringify(name)},`];
+
+  if (type === "auth") {
+    configLines.push(`  type: "auth",`);
+  }
+
+  configLines.push(
+    fieldLines.length > 0 ? `  schema: z.object({\n${fieldLines.join("\n")}\n  }),` : `  schema: z.object({}),`
+  );
+
+  if (type === "view") {
+    helpers.add("sql");
+    configLines.push(`  viewQuery: sql${formatSqlTemplate(String(collection.viewQuery ?? ""), "    ")},`);
+  }
+
+  const ruleKeys: string[] =
+    type === "view" ? ["listRule", "viewRule"] : type === "auth" ? [...BASE_RULES, "manageRule"] : [...BASE_RULES];
+  configLines.push(`  permissions: {`);
+  for (const key of ruleKeys) {
+    const rule = typeof collection[key] === "string" ? collection[key] : null;
+    configLines.push(`    ${key}: ${JSON.stringify(rule)},`);
+  }
+  configLines.push(`  },`);
+
+  const indexes: string[] = Array.isArray(collection.indexes) ? collection.indexes.map(String) : [];
+  if (type !== "view" && indexes.length > 0) {
+    configLines.push(`  indexes: [`);
+    for (const index of indexes) {
+      configLines.push(`    ${JSON.stringify(index)},`);
+    }
+    configLines.push(`  ],`);
+  }
+
+  const definer = type === "view" ? "defineView" : "defineCollection";
+  const importSource = options.importSource ?? DEFAULT_IMPORT_SOURCE;
+  const lines = [
+    `import { z } from "zod";`,
+    `import { ${[...helpers].sort().join(", ")} } from ${JSON.stringify(importSource)};`,
+    ``,
+    `export const ${exportName} = ${definer}({`,
+    ...configLines,
+    `});`,
+    ``,
+    `export default ${exportName};`,
+    ``,
+  ];
+
+  return { collection: name, filename: `${name}.ts`, content: lines.join("\n"), warnings };
+}
+
+/**
+ * Renders the field helper call for one field, or null when no helper can
+ * express it.
+ */
+function renderField(field: FieldDefinition, helpers: Set<string>, warn: (message: string) => void): string | null {
+  const options = field.options ?? {};
+  const optional = field.required ? "" : ".optional()";
+
+  for (const key of UNIVERSAL_OPTIONS) {
+    if (options[key] === true) {
+      warn(`"${key}" is not expressible with a field helper and is left out`);
+    }
+  }
+
+  const call = (helper: string, args: string[] = []) => {
+    helpers.add(helper);
+    return `${helper}(${args.filter((arg) => arg !== "").join(", ")})`;
+  };
+
+  switch (field.type) {
+    case "text":
+      return call("TextField", [formatOptions(field, ["min", "max", "pattern", "autogeneratePattern"])]) + optional;
+
+    case "number": {
+      // NumberField reads `required` from its options, not from `.optional()`
+      const numberOptions = formatOptions(field, ["min", "max", "noDecimal"], field.required ? { required: true } : {});
+      return call("NumberField", [numberOptions]) + optional;
+    }
+
+    case "bool":
+      return call("BoolField") + optional;
+
+    case "email":
+    case "url":
+      warnUnexpressed(field, ["exceptDomains", "onlyDomains"], warn);
+      return call(field.type === "email" ? "EmailField" : "URLField") + optional;
+
+    case "editor":
+      warnUnexpressed(field, ["convertURLs", "maxSize"], warn);
+      return call("EditorField") + optional;
+
+    case "date":
+      return call("DateField", [formatOptions(field, ["min", "max"])]) + optional;
+
+    case "autodate":
+      return (
+        call("AutodateField", [
+          formatObject({ onCreate: options.onCreate === true, onUpdate: options.onUpdate === true }),
+        ]) + optional
+      );
+
+    case "select": {
+      const values: unknown[] = Array.isArray(options.values) ? options.values : [];
+      if (values.length === 0) {
+        warn("select field has no values; SelectField needs at least one, so the field is left out");
+        return null;
+      }
+      const maxSelect = typeof options.maxSelect === "number" ? options.maxSelect : 1;
+      const args = [formatValue(values), maxSelect > 1 ? formatObject({ maxSelect }) : ""];
+      return call("SelectField", args) + optional;
+    }
+
+    case "file": {
+      const maxSelect = typeof options.maxSelect === "number" ? options.maxSelect : 1;
+      const keys = ["mimeTypes", "maxSize", "thumbs", "protected"];
+      if (maxSelect > 1) {
+        return call("FilesField", [formatOptions(field, keys, { maxSelect })]) + optional;
+      }
+      return call("FileField", [formatOptions(field, keys)]) + optional;
+    }
+
+    case "relation": {
+      const relation = field.relation;
+      const config: Record<string, unknown> = { collection: relation?.collection ?? "" };
+      if (relation?.cascadeDelete) {
+        config.cascadeDelete = true;
+      }
+      const maxSelect = relation?.maxSelect ?? 1;
+      if (maxSelect > 1) {
+        // RelationsField defaults maxSelect to 999; the stored limit is always spelled out
+        if (relation?.minSelect) {
+          config.minSelect = relation.minSelect;
+        }
+        config.maxSelect = maxSelect;
+        return call("RelationsField", [formatObject(config)]) + optional;
+      }
+      return call("RelationField", [formatObject(config)]) + optional;
+    }
+
+    case "json":
+      return call("JSONField", [formatOptions(field, ["maxSize"])]) + optional;
+
+    case "geoPoint":
+      return call("GeoPointField") + optional;
+
+    default:
+      warn(`field type "${field.type}" has no field helper; the field is left out`);
+      return null;
+  }
+}
+
+/**
+ * The subset of `keys` that carries a constraint, as an object literal —
+ * options at PocketBase's zero value mean "unset" and are left out, exactly as
+ * the diff reads them.
+ */
+function formatOptions(field: FieldDefinition, keys: string[], extra: Record<string, unknown> = {}): string {
+  const picked: Record<string, unknown> = {};
+  for (const key of keys) {
+    const value = field.options?.[key];
+    if (normalizeOptionValue(key, value, field.type) !== undefined) {
+      picked[key] = value;
+    }
+  }
+  return formatObject({ ...picked, ...extra });
+}
+
+function warnUnexpressed(field: FieldDefinition, keys: string[], warn: (message: string) => void): void {
+  for (const key of keys) {
+    if (normalizeOptionValue(key, field.options?.[key], field.type) !== undefined) {
+      warn(`"${key}" is not expressible with a field helper and is left out`);
+    }
+  }
+}
+
+/** An object literal in source form, or "" for an empty object */
+function formatObject(value: Record<string, unknown>): string {
+  const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{ ${entries.map(([key, entry]) => `${formatKey(key)}: ${formatValue(entry)}`).join(", ")} }`;
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((entry) => formatValue(entry)).join(", ")}]`;
+  }
+  if (value && typeof value === "object") {
+    return formatObject(value as Record<string, unknown>) || "{}";
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function formatKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+function toPascalCase(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter((part) => part !== "")
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+  return /^[0-9]/.test(pascal) || pascal === "" ? `_${pascal}` : pascal;
+}
@@ -0,0 +1,106 @@
+/**
+ * Seed diff — declared seed records against the records migrations produce
+ *
+ * The existing migrations are replayed with `records: "simulate"`, so the
+ * store holds every record they insert, update or delete. Each seed is then
+ * matched to those records by its natural key:
+ *
+ * - a declared record with no match is inserted
+ * - a match whose declared fields differ is updated, and only those fields
+ * - a record the migrations produced whose key is no longer declared is
+ *   deleted; its full contents are kept so down() can restore it
+ */
+
+import type { SeedDefinition, SeedRecord } from "../schema/seed";
+import type { CollectionStore } from "./engine/store";
+
+/** Autodate columns PocketBase stamps itself; never written by a seed */
+const AUTODATE_FIELDS = ["created", "updated"];
+
+/**
+ * A seeded record whose declared fields changed
+ */
+export interface SeedRecordUpdate {
+  /** The record's key fields */
+  key: SeedRecord;
+  /** The changed fields' current values */
+  before: SeedRecord;
+  /** The changed fields' declared values */
+  after: SeedRecord;
+}
+
+/**
+ * What one collection's seed migration has to do
+ */
+export interface SeedChanges {
+  collection: string;
+  /** Key fields, as declared */
+  key: string[];
+  /** Declared records with no matching record */
+  inserts: SeedRecord[];
+  updates: SeedRecordUpdate[];
+  /** Records no longer declared, as stored (including their id) */
+  deletes: SeedRecord[];
+}
+
+function pick(record: SeedRecord, fields: string[]): SeedRecord {
+  return Object.fromEntries(fields.map((field) => [field, record[field] ?? null]));
+}
+
+function identity(record: SeedRecord, key: string[]): string {
+  return JSON.stringify(key.map((field) => record[field] ?? null));
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Compares declared seeds with the records in a replayed store
+ *
+ * @param seeds - Seeds from the schema (SchemaDefinition.seeds)
+ * @param store - Store replayed with `records: "simulate"`, or null for an empty database
+ * @returns Changes per seeded collection, omitting collections already in sync
+ *
+ * @example
+ * const replayed = replayMigrationsDirectory(migrationsDir, { records: "simulate" });
+ * const changes = diffSeeds(schema.seeds ?? [], replayed?.store ?? null);
+ */
+export function diffSeeds(seeds: SeedDefinition[], store: CollectionStore | null): SeedChanges[] {
+  const changes: SeedChanges[] = [];
+
+  for (const seed of seeds) {
+    const collection = store?.getByNameOrId(seed.collection);
+    const stored = collection && store ? store.records.list(collection.id).map((record) => record.export()) : [];
+    const storedByKey = new Map(stored.map((record) => [identity(record, seed.key), record]));
+    const declaredKeys = new Set(seed.records.map((record) => identity(record, seed.key)));
+
+    const inserts: SeedRecord[] = [];
+    const updates: SeedRecordUpdate[] = [];
+
+    for (const record of seed.records) {
+      const match = storedByKey.get(identity(record, seed.key));
+      if (!match) {
+        inserts.push(record);
+        continue;
+      }
+
+      const changed = Object.keys(record).filter((field) => field !== "id" && !sameValue(record[field], match[field]));
+      if (changed.length > 0) {
+        updates.push({ key: pick(record, seed.key), before: pick(match, changed), after: pick(record, changed) });
+      }
+    }
+
+    const deletes = stored
+      .filter((record) => !declaredKeys.has(identity(record, seed.key)))
+      .map((record) =>
+        Object.fromEntries(Object.entries(record).filter(([field]) => !AUTODATE_FIELDS.includes(field)))
+      );
+
+    if (inserts.length + updates.length + deletes.length > 0) {
+      changes.push({ collection: seed.collection, key: seed.key, inserts, updates, deletes });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,141 @@
+/**
+ * Settings diff — declared app settings against the settings migrations leave
+ *
+ * The existing migrations are replayed; each `app.save(settings)` they make
+ * lands in the store, on top of the settings a fresh PocketBase starts with.
+ * Every declared setting is then compared with the replayed value. Settings
+ * the schema leaves out are not managed and never show up as changes.
+ *
+ * A value read with `$os.getenv()` compares by the variable it names: the
+ * variable's value is unknown until the migration runs in PocketBase.
+ */
+
+import { isEnvValue } from "../schema/env";
+import type { SettingsDefinition } from "../schema/settings";
+import { envVariableOf, isInertStub } from "./engine/app";
+import { DEFAULT_SETTINGS, type RawSettings } from "./engine/settings";
+import type { CollectionStore } from "./engine/store";
+
+/** Settings whose literal values are kept out of summaries */
+const SECRET_SETTINGS = ["password", "secret", "accessKey"];
+
+/**
+ * One declared setting whose value differs from what the migrations leave
+ */
+export interface SettingChange {
+  /** Dotted path into the settings, e.g. "smtp.host" */
+  path: string;
+  /** Value the migrations leave, with `$os.getenv()` reads as `{ env }` references */
+  before: unknown;
+  /** Declared value */
+  after: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value) && !isEnvValue(value);
+}
+
+/** Declared settings as dotted paths to values; arrays are replaced whole, so they are values too */
+function flatten(value: Record<string, unknown>, prefix = ""): Array<[string, unknown]> {
+  return Object.entries(value).flatMap(([key, entry]): Array<[string, unknown]> => {
+    if (entry === undefined) {
+      return [];
+    }
+    const path = prefix ? `${prefix}.${key}` : key;
+    return isPlainObject(entry) ? flatten(entry, path) : [[path, entry]];
+  });
+}
+
+/** A replayed value in declaration terms: `$os.getenv()` reads become references */
+function fromReplayed(value: unknown): unknown {
+  const variable = envVariableOf(value);
+  if (variable !== null) {
+    return { env: variable };
+  }
+  // Any other unsimulated value is what PocketBase would have stored for it
+  if (isInertStub(value)) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => fromReplayed(entry));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, fromReplayed(entry)]));
+  }
+  return value;
+}
+
+function valueAt(settings: RawSettings, path: string): unknown {
+  let value: unknown = settings;
+  for (const key of path.split(".")) {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return fromReplayed(value);
+}
+
+/** JSON with object keys sorted, so key order never reads as a change */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((entry) => canonical(entry)).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonical(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Compares declared settings with the settings in a replayed store
+ *
+ * @param definition - Settings from the schema (SchemaDefinition.settings)
+ * @param store - Store the existing migrations were replayed into, or null for a fresh PocketBase
+ * @returns One change per declared setting that differs, in declaration order
+ *
+ * @example
+ * const replayed = replayMigrationsDirectory(migrationsDir);
+ * const changes = diffSettings(schema.settings, replayed?.store ?? null);
+ */
+export function diffSettings(definition: SettingsDefinition, store: CollectionStore | null): SettingChange[] {
+  const current = store?.settings ?? DEFAULT_SETTINGS;
+
+  return flatten(definition.settings as Record<string, unknown>).flatMap(([path, after]) => {
+    const before = valueAt(current, path);
+    return canonical(before) === canonical(after) ? [] : [{ path, before: before ?? null, after }];
+  });
+}
+
+function isLiteralSecret(path: string, value: unknown): boolean {
+  return typeof value === "string" && value !== "" && SECRET_SETTINGS.includes(path.split(".").pop() ?? "");
+}
+
+/**
+ * A setting's value as reports show it: environment references as
+ * `{ env: name }`, literal secrets masked
+ *
+ * @param path - Dotted path of the setting
+ * @param value - Value from a SettingChange
+ * @returns JSON-safe value
+ */
+export function summarizeSettingValue(path: string, value: unknown): unknown {
+  return isLiteralSecret(path, value) ? "(secret)" : value;
+}
+
+/**
+ * Formats a setting's value for a summary
+ *
+ * Environment references show the variable, and literal secrets are masked.
+ *
+ * @param path - Dotted path of the setting
+ * @param value - Value from a SettingChange
+ * @returns Readable value
+ */
+export function formatSettingValue(path: string, value: unknown): string {
+  if (isEnvValue(value)) {
+    return `$os.getenv(${JSON.stringify(value.env)})`;
+  }
+  return isLiteralSecret(path, value) ? "(secret)" : JSON.stringify(value);
+}
@@ -0,0 +1,274 @@
+/**
+ * Squashing — folding a run of migrations into one collections snapshot
+ *
+ * Every migration up to a chosen timestamp is replayed, and the resulting
+ * collections are written as a single `importCollections` snapshot, the same
+ * checkpoint PocketBase's own `migrate collections` produces. Replay then
+ * starts from the snapshot instead of the files before it.
+ *
+ * A snapshot is only safe where it runs as a no-op or on an empty database.
+ * PocketBase runs it in every database that has not recorded it yet, after
+ * whatever that database has already applied, and `importCollections`
+ * replaces the collections it names. So:
+ *
+ * - every squashed migration must already be applied, and nothing after the
+ *   squash point may be: otherwise the snapshot would run after later
+ *   migrations and undo them
+ * - migrations that write records cannot be squashed: a snapshot carries
+ *   collections, not data (declare the records with defineSeed() instead)
+ *
+ * Before anything is written, the snapshot is executed and compared with the
+ * replayed state — alone, and with the remaining migrations on top of it.
+ */
+
+import type { AppliedMigrationsSource } from "./engine/applied-migrations";
+import { discoverMigrations, planMigrationReplay, type DiscoveredMigration } from "./engine/migration-plan";
+import { replayMigrations } from "./engine/replayer";
+import { executeMigrationSource } from "./engine/runner";
+import { compareStores, describeStateDifferences } from "./engine/state-compare";
+import { CollectionStore } from "./engine/store";
+import type { EngineOptions, EngineWarning } from "./engine/types";
+import { FileSystemError, SquashError } from "./errors";
+import type { MigrationGeneratorConfig } from "./generator/config";
+import { createMigrationFileStructure, replaceMigrationFiles } from "./generator/file-writer";
+import {
+  generateSnapshotDownMigration,
+  generateSnapshotMigrationFilename,
+  generateSnapshotUpMigration,
+} from "./generator/snapshot";
+
+export interface SquashOptions {
+  /**
+   * Newest migration timestamp to fold into the snapshot. Defaults to the
+   * newest applied migration when `applied` is given, else the newest on disk.
+   */
+  to?: number;
+  /** The database's `_migrations` table; squashing is refused without it */
+  applied?: AppliedMigrationsSource | null;
+  /**
+   * Squash without `_migrations`, trusting that every database has applied
+   * exactly the squashed migrations. The safety checks are skipped.
+   */
+  assumeApplied?: boolean;
+  /** Options forwarded to the execution engine */
+  engineOptions?: EngineOptions;
+  /** Template settings for the snapshot file */
+  generatorConfig?: Omit<MigrationGeneratorConfig, "migrationDir">;
+}
+
+export interface SquashPlan {
+  /** Timestamp of the newest squashed migration, which the snapshot takes */
+  cutoff: number;
+  /** Snapshot filename */
+  filename: string;
+  /** Complete snapshot file content */
+  content: string;
+  /** Every file the snapshot replaces, older snapshots included */
+  superseded: DiscoveredMigration[];
+  /** Basenames of the migrations left after the snapshot */
+  remaining: string[];
+  /** Number of collections in the snapshot */
+  collectionCount: number;
+  /** Warnings from replaying the squashed migrations */
+  warnings: EngineWarning[];
+}
+
+export interface SquashResult {
+  /** Path of the written snapshot */
+  snapshotPath: string;
+  /** Where each superseded file went, or null where it was deleted */
+  moved: Array<{ from: string; to: string | null }>;
+}
+
+function defaultCutoff(discovered: DiscoveredMigration[], applied: AppliedMigrationsSource | null): number | null {
+  const appliedNames = applied ? new Set(applied.entries.map((entry) => entry.file)) : null;
+  const candidates = appliedNames ? discovered.filter((migration) => appliedNames.has(migration.name)) : discovered;
+  return candidates.length > 0 ? candidates[candidates.length - 1].timestamp : null;
+}
+
+/**
+ * Reasons the snapshot would not be a no-op in the database `_migrations` came from
+ */
+function checkApplied(
+  superseded: DiscoveredMigration[],
+  later: DiscoveredMigration[],
+  applied: AppliedMigrationsSource
+): string[] {
+  const appliedNames = new Set(applied.entries.map((entry) => entry.file));
+  const reasons: string[] = [];
+
+  const unapplied = superseded.filter((migration) => !appliedNames.has(migration.name));
+  if (unapplied.length > 0) {
+    reasons.push(
+      `not yet applied to ${applied.origin}: ${unapplied.map((migration) => migration.name).join(", ")}. ` +
+        `Apply them first, or squash to before them.`
+    );
+  }
+
+  const appliedLater = later.filter((migration) => appliedNames.has(migration.name));
+  if (appliedLater.length > 0) {
+    reasons.push(
+      `applied to ${applied.origin} after the squash point: ${appliedLater.map((migration) => migration.name).join(", ")}. ` +
+        `The snapshot would run after them and undo their changes; squash up to the newest of them.`
+    );
+  }
+
+  return reasons;
+}
+
+/**
+ * Plans a squash: replays the migrations up to the cutoff, generates the
+ * snapshot and verifies it against the replayed state
+ *
+ * @param migrationsPath - The pb_migrations directory
+ * @param options - Cutoff, applied migrations and engine options
+ * @returns The snapshot and the files it supersedes; nothing is written
+ * @throws SquashError when there is nothing to squash, `_migrations` is not
+ *   given and not assumed, squashing is unsafe, or the snapshot does not
+ *   reproduce the replayed state
+ * @throws MigrationExecutionError when a migration cannot be replayed
+ */
+export function planSquash(migrationsPath: string, options: SquashOptions = {}): SquashPlan {
+  const discovered = discoverMigrations(migrationsPath);
+  const applied = options.applied ?? null;
+  const engineOptions = options.engineOptions ?? {};
+
+  if (!applied && !options.assumeApplied) {
+    throw new SquashError("Cannot squash without the database's _migrations table:", [
+      "there is no telling which migrations have been applied, so the snapshot could undo later ones. " +
+        "Point at the database, or assume every database has applied exactly the squashed migrations (--assume-applied).",
+    ]);
+  }
+
+  const cutoff = options.to ?? defaultCutoff(discovered, applied);
+  if (cutoff === null) {
+    throw new SquashError(`No migrations to squash in ${migrationsPath}`);
+  }
+
+  const superseded = discovered.filter((migration) => migration.timestamp <= cutoff);
+  const later = discovered.filter((migration) => migration.timestamp > cutoff);
+  if (superseded.length === 0 || (superseded.length === 1 && superseded[0].isSnapshot)) {
+    throw new SquashError(`Nothing to squash: no migrations before ${cutoff} besides a snapshot`);
+  }
+
+  const reasons = applied ? checkApplied(superseded, later, applied) : [];
+
+  // The replay window up to the cutoff: its newest snapshot, then what follows
+  const window = planMigrationReplay(migrationsPath, {
+    applied: superseded.map((migration) => migration.name),
+  }).filesToReplay;
+  const squashed = replayMigrations(window, { ...engineOptions, records: "simulate" });
+
+  const withRecords = squashed.store
+    .list()
+    .filter((collection) => squashed.store.records.count(collection.id) > 0)
+    .map((collection) => collection.name);
+  if (withRecords.length > 0) {
+    reasons.push(
+      `the squashed migrations write records to ${withRecords.join(", ")}, which a snapshot cannot carry. ` +
+        `Declare them with defineSeed(), or squash to before the migrations that write them.`
+    );
+  }
+
+  if (reasons.length > 0) {
+    throw new SquashError(`Cannot squash the migrations up to ${cutoff}:`, reasons);
+  }
+
+  const filename = generateSnapshotMigrationFilename(String(cutoff));
+  const content = createMigrationFileStructure(
+    generateSnapshotUpMigration(squashed.store.serialize()),
+    generateSnapshotDownMigration(),
+    { ...options.generatorConfig, migrationDir: migrationsPath }
+  );
+
+  verifySnapshot(migrationsPath, content, filename, squashed.store, later, engineOptions);
+
+  return {
+    cutoff,
+    filename,
+    content,
+    superseded,
+    remaining: later.map((migration) => migration.name),
+    collectionCount: squashed.store.list().length,
+    warnings: squashed.warnings,
+  };
+}
+
+/**
+ * Executes the snapshot and checks it reproduces the squashed state, and
+ * that the remaining migrations end where they did before
+ */
+function verifySnapshot(
+  migrationsPath: string,
+  content: string,
+  filename: string,
+  squashedStore: CollectionStore,
+  later: DiscoveredMigration[],
+  engineOptions: EngineOptions
+): void {
+  const store = new CollectionStore();
+  executeMigrationSource(content, store, { ...engineOptions, filename });
+
+  const snapshotDifferences = compareStores(squashedStore, store, {
+    labels: { expected: "the squashed migrations", actual: "the snapshot" },
+    strictFieldOrder: true,
+  });
+  if (snapshotDifferences.length > 0) {
+    throw new SquashError(
+      "The snapshot does not reproduce the squashed migrations:",
+      describeStateDifferences(snapshotDifferences)
+    );
+  }
+
+  const fullWindow = planMigrationReplay(migrationsPath).filesToReplay;
+  const original = replayMigrations(fullWindow, engineOptions).store;
+
+  // A snapshot after the cutoff is where replay starts either way
+  const laterPaths = new Set(later.map((migration) => migration.path));
+  const laterWindow = fullWindow.filter((file) => laterPaths.has(file));
+  const startsFromLaterSnapshot = later.some((migration) => migration.isSnapshot && migration.path === laterWindow[0]);
+  const squashed = replayMigrations(laterWindow, {
+    ...engineOptions,
+    initialStore: startsFromLaterSnapshot ? new CollectionStore() : store,
+  }).store;
+
+  const finalDifferences = compareStores(original, squashed, {
+    labels: { expected: "the original migrations", actual: "the squashed migrations" },
+    strictFieldOrder: true,
+  });
+  if (finalDifferences.length > 0) {
+    throw new SquashError(
+      "The migrations after the snapshot end in a different state than before:",
+      describeStateDifferences(finalDifferences)
+    );
+  }
+}
+
+/**
+ * Writes a planned snapshot and moves the files it supersedes out of the
+ * migrations directory — into `archiveDir`, or nowhere when it is null
+ *
+ * The snapshot is written before any superseded file leaves, so a failed
+ * write loses no history; it may take the name of an older snapshot.
+ *
+ * @param plan - Result of planSquash()
+ * @param migrationsPath - The pb_migrations directory
+ * @param archiveDir - Directory to move the superseded files into; null deletes them
+ * @returns The snapshot's path and where each superseded file went
+ * @throws FileSystemError when a file cannot be moved or written
+ */
+export function applySquash(plan: SquashPlan, migrationsPath: string, archiveDir: string | null): SquashResult {
+  try {
+    const { written, moved } = replaceMigrationFiles(migrationsPath, [plan], plan.superseded, archiveDir);
+    return { snapshotPath: written[0], moved };
+  } catch (error) {
+    const fsError = error as NodeJS.ErrnoException;
+    throw new FileSystemError(
+      `Failed to squash migrations: ${fsError.message}`,
+      fsError.path ?? migrationsPath,
+      "write",
+      fsError.code,
+      fsError
+    );
+  }
+}
@@ -4,6 +4,10 @@
 
 import { z } from "zod";
 import type { PocketBaseFieldType } from "../schema/fields.js";
+import type { MixinContribution } from "../schema/mixin.js";
+import type { SeedDefinition } from "../schema/seed.js";
+import type { SettingsDefinition } from "../schema/settings.js";
+import type { TenantConfig } from "../schema/tenant.js";
 import type { APIRuleType } from "../utils/permissions.js";
 
 export interface FieldDefinition {
@@ -21,6 +25,37 @@ export interface FieldDefinition {
     minSelect?: number;
     displayFields?: string[] | null;
   };
+  /**
+   * The field's previous name, from a `renamedFrom` hint in the schema
+   * Makes the diff emit an in-place rename instead of a drop and an add
+   */
+  renamedFrom?: string;
+  /**
+   * Converter source from the field's `convert` hook, used only when the
+   * field's type changes
+   */
+  convert?: FieldConverterSource;
+  /**
+   * What the records a collection already has get in this field when it is
+   * added, used only when the field is added to an existing collection
+   */
+  backfill?: FieldBackfill;
+}
+
+/**
+ * What existing records get in a newly added field: a value set on every
+ * record, or the source of a function called with each record
+ */
+export type FieldBackfill = { value: unknown } | { source: string };
+
+/**
+ * A `convert` hook as JavaScript source, ready to be copied into a migration
+ */
+export interface FieldConverterSource {
+  /** Converts a value of the previous type to this field's type */
+  up: string;
+  /** Converts back, for the migration's down() */
+  down?: string;
 }
 
 export interface CollectionSchema {
@@ -39,6 +74,32 @@ export interface CollectionSchema {
    * is not emitted into migrations for view collections
    */
   viewQuery?: string;
+  /**
+   * Auth collection options (type: "auth" only), keyed as in PocketBase's
+   * collection JSON - see `AUTH_OPTION_KEYS`. From the schema, secrets are
+   * `{ env }` references; from a snapshot they may be plain strings.
+   */
+  auth?: Record<string, any>;
+  /**
+   * The collection's previous name, from a `renamedFrom` hint in the schema
+   * Makes the diff emit an in-place rename instead of a delete and a create
+   */
+  renamedFrom?: string;
+  /**
+   * What each mixin given to defineCollection() contributed, for attributing
+   * changes and rule errors; never part of the collection PocketBase stores
+   */
+  mixins?: MixinContribution[];
+  /**
+   * Records are marked deleted through the `deletedAt` field instead of
+   * removed (defineCollection({ softDelete: true })); read by generate-types
+   */
+  softDelete?: boolean;
+  /**
+   * The tenant the collection is scoped by (defineCollection({ tenant })),
+   * for checking its membership collection exists
+   */
+  tenant?: TenantConfig;
   fields: FieldDefinition[];
   indexes?: string[];
   rules?: {
@@ -61,6 +122,10 @@ export interface CollectionSchema {
 
 export interface SchemaDefinition {
   collections: Map<string, CollectionSchema>;
+  /** Reference records declared with defineSeed(), one seed per collection */
+  seeds?: SeedDefinition[];
+  /** App settings declared with defineSettings(), at most once per schema */
+  settings?: SettingsDefinition;
 }
 
 export interface SchemaSnapshot {
@@ -106,6 +171,26 @@ export interface ViewQueryUpdate {
   newValue: string;
 }
 
+/**
+ * Auth option change tracking for auth collections
+ * Both sides hold only the options the schema declares, limited to the keys
+ * it declares; a value the previous state does not know is left out of
+ * `oldValue`
+ */
+export interface AuthOptionsUpdate {
+  oldValue: Record<string, any>;
+  newValue: Record<string, any>;
+}
+
+/**
+ * Name change tracking for renamed collections
+ * Applied in place so the collection ID (and its records) stay
+ */
+export interface CollectionNameUpdate {
+  oldValue: string;
+  newValue: string;
+}
+
 export interface CollectionModification {
   collection: string;
   fieldsToAdd: FieldDefinition[];
@@ -119,6 +204,14 @@ export interface CollectionModification {
    * Set when a view collection's SQL query changed (view collections only)
    */
   viewQueryUpdate?: ViewQueryUpdate;
+  /**
+   * Set when declared auth options changed (auth collections only)
+   */
+  authOptionsUpdate?: AuthOptionsUpdate;
+  /**
+   * Set when the collection was renamed (`collection` holds the new name)
+   */
+  nameUpdate?: CollectionNameUpdate;
 }
 
 export interface SchemaDiff {
@@ -132,6 +225,19 @@ export interface SchemaDiff {
   existingCollectionIds?: Map<string, string>;
 }
 
+/**
+ * Relation fields held back from a collection's creation because they close
+ * a cycle between new collections, along with the indexes and rules that
+ * mention them and so cannot be saved without them
+ */
+export interface DeferredRelations {
+  /** Collection the fields belong to */
+  collection: string;
+  fields: FieldDefinition[];
+  indexes: string[];
+  rules: Array<{ ruleType: string; value: string | null }>;
+}
+
 /**
  * Represents a single collection operation for file splitting
  * Each operation will generate a separate migration file
@@ -154,6 +260,12 @@ export interface CollectionOperation {
    */
   modifications?: CollectionModification;
 
+  /**
+   * Relations added once the collections of a cycle all exist (only for the
+   * 'create' operation of the cycle's last collection)
+   */
+  deferred?: DeferredRelations[];
+
   /**
    * Timestamp for this operation's migration file
    */
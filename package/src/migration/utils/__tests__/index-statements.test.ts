@@ -0,0 +1,14 @@
+/**
+ * Unit tests for index statement utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import { indexName } from "../index-statements";
+
+describe("indexName", () => {
+  it("reads the name out of an index statement", () => {
+    expect(indexName("CREATE UNIQUE INDEX IF NOT EXISTS `idx_a` ON `t` (`a`)")).toBe("idx_a");
+    expect(indexName("CREATE INDEX idx_b ON t (b)")).toBe("idx_b");
+    expect(indexName("not an index")).toBeNull();
+  });
+});
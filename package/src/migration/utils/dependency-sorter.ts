@@ -1,8 +1,12 @@
-import type { CollectionSchema } from "../types";
+import type { CollectionSchema, DeferredRelations } from "../types";
+
+const RULE_TYPES = ["listRule", "viewRule", "createRule", "updateRule", "deleteRule", "manageRule"] as const;
 
 /**
  * Sorts collections based on their relationship dependencies.
  * Collections that are referenced by others should be created first.
+ * Collections in a cycle are appended in their original order; split the
+ * cycles first with splitCircularRelations().
  *
  * @param collections - List of collections to sort
  * @returns Sorted list of collections
@@ -47,6 +51,14 @@ export function sortCollectionsByDependency(collections: CollectionSchema[]): Co
         }
       }
     });
+
+    // A tenant-scoped collection's rules read the membership collection through
+    // @collection, which PocketBase resolves when it saves the rules
+    const membership = col.tenant?.membership.collection;
+    if (membership && membership !== col.name && collectionMap.has(membership)) {
+      adjList.get(membership)?.push(col.name);
+      inDegree.set(col.name, (inDegree.get(col.name) || 0) + 1);
+    }
   });
 
   // Kahn's algorithm for topological sort
@@ -100,3 +112,149 @@ export function sortCollectionsByDependency(collections: CollectionSchema[]): Co
 
   return sortedResult;
 }
+
+/**
+ * Groups collections into strongly connected components of the relation
+ * graph between them (Tarjan's algorithm)
+ *
+ * @returns The component index of each collection name
+ */
+function findRelationComponents(collections: CollectionSchema[]): Map<string, number> {
+  const names = new Set(collections.map((col) => col.name));
+  const targets = new Map(
+    collections.map((col) => [
+      col.name,
+      col.fields.flatMap((field) =>
+        field.relation && names.has(field.relation.collection) ? [field.relation.collection] : []
+      ),
+    ])
+  );
+
+  const component = new Map<string, number>();
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  let counter = 0;
+  let components = 0;
+
+  const visit = (name: string): void => {
+    index.set(name, counter);
+    lowLink.set(name, counter);
+    counter++;
+    stack.push(name);
+
+    for (const target of targets.get(name) ?? []) {
+      if (!index.has(target)) {
+        visit(target);
+        lowLink.set(name, Math.min(lowLink.get(name)!, lowLink.get(target)!));
+      } else if (!component.has(target)) {
+        lowLink.set(name, Math.min(lowLink.get(name)!, index.get(target)!));
+      }
+    }
+
+    if (lowLink.get(name) === index.get(name)) {
+      let member: string;
+      do {
+        member = stack.pop()!;
+        component.set(member, components);
+      } while (member !== name);
+      components++;
+    }
+  };
+
+  for (const col of collections) {
+    if (!index.has(col.name)) {
+      visit(col.name);
+    }
+  }
+
+  return component;
+}
+
+function mentions(text: string, fieldNames: string[]): boolean {
+  return fieldNames.some((name) => new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`).test(text));
+}
+
+/**
+ * Splits the cycles out of the relations between new collections.
+ *
+ * PocketBase refuses to save a relation field whose target collection does
+ * not exist yet, so `users.team -> teams` and `teams.owner -> users`, or a
+ * self-referencing `comments.parent`, cannot be created in any order. Every
+ * relation between two collections of the same cycle is held back, together
+ * with the indexes and rules that mention it: the collections are created
+ * without them, and they are added once the cycle's last collection exists.
+ *
+ * @param collections - Collections being created
+ * @returns The collections without their held-back relations, in creation
+ *   order, and the held-back relations keyed by the collection whose
+ *   creation completes their cycle
+ */
+export function splitCircularRelations(collections: CollectionSchema[]): {
+  collections: CollectionSchema[];
+  deferred: Map<string, DeferredRelations[]>;
+} {
+  const component = findRelationComponents(collections);
+  const held = new Map<string, DeferredRelations>();
+
+  const stripped = collections.map((col) => {
+    const fields = col.fields.filter(
+      (field) =>
+        field.relation &&
+        component.has(field.relation.collection) &&
+        component.get(field.relation.collection) === component.get(col.name)
+    );
+    if (fields.length === 0) {
+      return col;
+    }
+
+    const fieldNames = fields.map((field) => field.name);
+    const indexes = (col.indexes ?? []).filter((index) => mentions(index, fieldNames));
+
+    // Permissions win over rules when both are given, as in the generated collection
+    const effective =
+      col.permissions && Object.values(col.permissions).some((value) => value !== undefined)
+        ? col.permissions
+        : col.rules;
+    const ruleTypes = RULE_TYPES.filter((ruleType) => {
+      const value = effective?.[ruleType];
+      return typeof value === "string" && mentions(value, fieldNames);
+    });
+    const withoutRules = (rules: CollectionSchema["rules"]) =>
+      rules &&
+      Object.fromEntries(Object.entries(rules).filter(([ruleType]) => !ruleTypes.some((type) => type === ruleType)));
+
+    held.set(col.name, {
+      collection: col.name,
+      fields,
+      indexes,
+      rules: ruleTypes.map((ruleType) => ({ ruleType, value: effective?.[ruleType] ?? null })),
+    });
+
+    return {
+      ...col,
+      fields: col.fields.filter((field) => !fields.includes(field)),
+      indexes: col.indexes?.filter((index) => !indexes.includes(index)),
+      rules: withoutRules(col.rules),
+      permissions: withoutRules(col.permissions),
+    };
+  });
+
+  const sorted = sortCollectionsByDependency(stripped);
+
+  // Each cycle's relations are added after its last collection is created
+  const deferred = new Map<string, DeferredRelations[]>();
+  const completedBy = new Map<number, string>();
+  for (const col of sorted) {
+    completedBy.set(component.get(col.name)!, col.name);
+  }
+  for (const col of sorted) {
+    const relations = held.get(col.name);
+    if (relations) {
+      const owner = completedBy.get(component.get(col.name)!)!;
+      deferred.set(owner, [...(deferred.get(owner) ?? []), relations]);
+    }
+  }
+
+  return { collections: sorted, deferred };
+}
@@ -0,0 +1,13 @@
+/**
+ * Index statement utilities shared by the diff reports and the engine
+ */
+
+/**
+ * The name an index statement creates, or null when it cannot be parsed
+ *
+ * @param index - A `CREATE [UNIQUE] INDEX` statement from a collection's `indexes`
+ */
+export function indexName(index: string): string | null {
+  const match = /^\s*CREATE\s+(?:UNIQUE\s+)?INDEX\s+(?:IF\s+NOT\s+EXISTS\s+)?[`"[]?([^`"\]\s(]+)/i.exec(index);
+  return match ? match[1] : null;
+}
@@ -3,6 +3,7 @@
  * Detects destructive changes and provides warnings
  */
 
+import { resolveFieldTypeConversion } from "./conversions";
 import type { SchemaDiff } from "./types";
 
 /**
@@ -12,7 +13,9 @@ export enum DestructiveChangeType {
   COLLECTION_DELETION = "collection_deletion",
   FIELD_DELETION = "field_deletion",
   FIELD_TYPE_CHANGE = "field_type_change",
+  FIELD_TYPE_CONVERSION = "field_type_conversion",
   FIELD_REQUIRED_CHANGE = "field_required_change",
+  FIELD_REQUIRED_ADDITION = "field_required_addition",
 }
 
 /**
@@ -95,21 +98,44 @@ function detectFieldTypeChanges(diff: SchemaDiff): DestructiveChange[] {
   for (const modification of diff.collectionsToModify) {
     for (const fieldMod of modification.fieldsToModify) {
       const typeChange = fieldMod.changes.find((c) => c.property === "type");
+      if (!typeChange) {
+        continue;
+      }
 
-      if (typeChange) {
+      // A type change with a conversion keeps the data; only what the
+      // conversion turns into empty values is lost
+      const conversion = resolveFieldTypeConversion(fieldMod);
+      if (conversion?.converter) {
         changes.push({
-          type: DestructiveChangeType.FIELD_TYPE_CHANGE,
-          description: `Change field type: ${modification.collection}.${fieldMod.fieldName}`,
+          type: DestructiveChangeType.FIELD_TYPE_CONVERSION,
+          description: `Convert field type: ${modification.collection}.${fieldMod.fieldName}`,
           collection: modification.collection,
           field: fieldMod.fieldName,
           details: {
             oldValue: typeChange.oldValue,
             newValue: typeChange.newValue,
           },
-          severity: "high",
-          warning: `Changing field type from "${typeChange.oldValue}" to "${typeChange.newValue}" may cause data loss or conversion errors.`,
+          severity: "low",
+          warning:
+            conversion.origin === "hook"
+              ? `Existing values are converted from "${typeChange.oldValue}" to "${typeChange.newValue}" by the field's convert hook.`
+              : `Existing values are converted from "${typeChange.oldValue}" to "${typeChange.newValue}"; values that do not convert become empty.`,
         });
+        continue;
       }
+
+      changes.push({
+        type: DestructiveChangeType.FIELD_TYPE_CHANGE,
+        description: `Change field type: ${modification.collection}.${fieldMod.fieldName}`,
+        collection: modification.collection,
+        field: fieldMod.fieldName,
+        details: {
+          oldValue: typeChange.oldValue,
+          newValue: typeChange.newValue,
+        },
+        severity: "high",
+        warning: `Changing field type from "${typeChange.oldValue}" to "${typeChange.newValue}" may cause data loss or conversion errors.`,
+      });
     }
   }
 
@@ -151,6 +177,38 @@ function detectFieldRequiredChanges(diff: SchemaDiff): DestructiveChange[] {
   return changes;
 }
 
+/**
+ * Detects required fields added to existing collections without a backfill
+ *
+ * The records the collection already has get no value for the field, so
+ * PocketBase rejects each of them on its next update.
+ *
+ * @param diff - Schema diff
+ * @returns Array of destructive changes for required field additions
+ */
+function detectRequiredFieldAdditions(diff: SchemaDiff): DestructiveChange[] {
+  const changes: DestructiveChange[] = [];
+
+  for (const modification of diff.collectionsToModify) {
+    for (const field of modification.fieldsToAdd) {
+      if (!field.required || field.backfill) {
+        continue;
+      }
+
+      changes.push({
+        type: DestructiveChangeType.FIELD_REQUIRED_ADDITION,
+        description: `Add required field without a backfill: ${modification.collection}.${field.name}`,
+        collection: modification.collection,
+        field: field.name,
+        severity: "medium",
+        warning: `Existing records in "${modification.collection}" get no value for "${field.name}" and will fail validation on their next update. Give the field a backfill.`,
+      });
+    }
+  }
+
+  return changes;
+}
+
 /**
  * Detects all destructive changes in a schema diff
  *
@@ -172,6 +230,9 @@ export function detectDestructiveChanges(diff: SchemaDiff): DestructiveChange[]
   // Detect field required changes
   changes.push(...detectFieldRequiredChanges(diff));
 
+  // Detect required fields added without a backfill
+  changes.push(...detectRequiredFieldAdditions(diff));
+
   return changes;
 }
 
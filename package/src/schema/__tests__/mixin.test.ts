@@ -0,0 +1,198 @@
+/**
+ * Tests for collection mixins (defineMixin + defineCollection({ mixins }))
+ * and the attribution the analyzer and status derive from them
+ */
+
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { convertZodSchemaToCollectionSchema } from "../../migration/analyzer/converter";
+import { compare } from "../../migration/diff";
+import { attributeMixinChanges } from "../../migration/mixins";
+import { formatSchemaRuleIssue, validateSchemaRules } from "../../migration/schema-rule-validator";
+import type { CollectionSchema, SchemaDefinition } from "../../migration/types";
+import { defineCollection, RelationField } from "../base";
+import { defineMixin, isMixinDefinition } from "../mixin";
+
+const Owned = defineMixin({
+  name: "owned",
+  fields: { owner: RelationField({ collection: "users" }) },
+  indexes: ["CREATE INDEX idx_{collection}_owner ON {collection} (owner)"],
+  permissions: {
+    listRule: "owner = @request.auth.id",
+    viewRule: "owner = @request.auth.id",
+    deleteRule: "owner = @request.auth.id",
+  },
+});
+
+const Published = defineMixin({
+  name: "published",
+  fields: { published: z.boolean() },
+  permissions: { listRule: "published = true || owner = @request.auth.id" },
+  combine: "override",
+});
+
+function metadataOf(schema: z.ZodObject<any>): any {
+  return JSON.parse(schema.description!);
+}
+
+function schemaOf(...collections: CollectionSchema[]): SchemaDefinition {
+  return { collections: new Map(collections.map((collection) => [collection.name, collection])) };
+}
+
+describe("defineMixin", () => {
+  it("marks the mixin and resolves permission templates", () => {
+    const mixin = defineMixin({ name: "mine", permissions: { template: "owner-only", ownerField: "owner" } });
+
+    expect(isMixinDefinition(mixin)).toBe(true);
+    expect(isMixinDefinition({ name: "mine" })).toBe(false);
+    expect(mixin.permissions.updateRule).toBe('@request.auth.id != "" && owner = @request.auth.id');
+    expect(mixin.combine).toBe("and");
+  });
+
+  it("needs a name", () => {
+    expect(() => defineMixin({ name: "" })).toThrow(/needs a name/);
+  });
+});
+
+describe("defineCollection({ mixins })", () => {
+  it("adds the mixin fields after the collection's own and instantiates its indexes", () => {
+    const Notes = defineCollection({
+      collectionName: "notes",
+      schema: z.object({ body: z.string() }),
+      indexes: ["CREATE INDEX idx_notes_body ON notes (body)"],
+      mixins: [Owned],
+    });
+
+    expect(Object.keys(Notes.shape)).toEqual(["body", "owner"]);
+    expect(metadataOf(Notes).indexes).toEqual([
+      "CREATE INDEX idx_notes_body ON notes (body)",
+      "CREATE INDEX idx_notes_owner ON notes (owner)",
+    ]);
+    expect(metadataOf(Notes).mixins).toEqual([
+      {
+        name: "owned",
+        fields: ["owner"],
+        indexes: ["CREATE INDEX idx_notes_owner ON notes (owner)"],
+        rules: ["listRule", "viewRule", "deleteRule"],
+      },
+    ]);
+  });
+
+  it("joins rules with && and lets the collection override an override mixin", () => {
+    const Posts = defineCollection({
+      collectionName: "posts",
+      schema: z.object({ title: z.string() }),
+      permissions: { listRule: '@request.auth.id != ""', viewRule: "", deleteRule: null },
+      mixins: [Owned, Published],
+    });
+    const permissions = metadataOf(Posts).permissions;
+
+    expect(permissions.listRule).toBe('(@request.auth.id != "") && (owner = @request.auth.id)');
+    expect(permissions.viewRule).toBe("owner = @request.auth.id");
+    expect(permissions.deleteRule).toBeNull();
+    // The collection sets its own listRule, which replaces the override mixin's
+    expect(metadataOf(Posts).mixins[1].rules).toEqual([]);
+
+    const Drafts = defineCollection({
+      collectionName: "drafts",
+      schema: z.object({ title: z.string() }),
+      mixins: [Published, Owned],
+    });
+    expect(metadataOf(Drafts).permissions.listRule).toBe(
+      "(published = true || owner = @request.auth.id) && (owner = @request.auth.id)"
+    );
+
+    // A rule already requiring the mixin's condition is kept; one merely mentioning it is not
+    const Shared = defineMixin({ name: "shared", permissions: { listRule: "owner = @request.auth.id" } });
+    const rulesWith = (listRule: string) =>
+      metadataOf(
+        defineCollection({ collectionName: "notes", schema: z.object({}), permissions: { listRule }, mixins: [Shared] })
+      ).permissions.listRule;
+    expect(rulesWith("(owner = @request.auth.id) && title != ''")).toBe("(owner = @request.auth.id) && title != ''");
+    expect(rulesWith("title = 'a || b' || owner = @request.auth.id")).toBe(
+      "(title = 'a || b' || owner = @request.auth.id) && (owner = @request.auth.id)"
+    );
+  });
+
+  it("keeps a field the collection declares itself", () => {
+    const Tasks = defineCollection({
+      collectionName: "tasks",
+      schema: z.object({ owner: RelationField({ collection: "teams" }) }),
+      mixins: [Owned],
+    });
+
+    expect(metadataOf(Tasks).mixins[0].fields).toEqual([]);
+    expect(convertZodSchemaToCollectionSchema("tasks", Tasks).fields[0].relation?.collection).toBe("teams");
+  });
+
+  it("rejects two mixins adding the same field", () => {
+    const Shared = defineMixin({ name: "shared", fields: { owner: RelationField({ collection: "teams" }) } });
+
+    expect(() => defineCollection({ collectionName: "files", schema: z.object({}), mixins: [Owned, Shared] })).toThrow(
+      'field "owner" is added by both mixin "owned" and mixin "shared"'
+    );
+  });
+});
+
+describe("mixin attribution", () => {
+  const Notes = defineCollection({
+    collectionName: "notes",
+    schema: z.object({ body: z.string() }),
+    mixins: [Owned],
+  });
+  const notes = convertZodSchemaToCollectionSchema("notes", Notes);
+
+  it("carries the contributions onto the analyzed collection", () => {
+    expect(notes.mixins?.map((mixin) => mixin.name)).toEqual(["owned"]);
+    expect(notes.rules?.listRule).toBe("owner = @request.auth.id");
+  });
+
+  it("attributes a collection's pending changes to its mixins", () => {
+    const previous = {
+      version: "1.0.0",
+      timestamp: "2024-01-01",
+      collections: new Map<string, CollectionSchema>([
+        ["notes", { name: "notes", id: "pb_notes", type: "base", fields: notes.fields.slice(0, 1) }],
+      ]),
+    };
+    const schema = schemaOf(notes);
+
+    expect(attributeMixinChanges(compare(schema, previous), schema)).toEqual([
+      {
+        collection: "notes",
+        mixin: "owned",
+        changes: ["+field owner", "+index idx_notes_owner", "~listRule", "~viewRule", "~deleteRule"],
+      },
+    ]);
+  });
+
+  it("attributes a new collection's rules to each mixin once, and only its own", () => {
+    const Posts = defineCollection({
+      collectionName: "posts",
+      schema: z.object({ title: z.string() }),
+      mixins: [Owned, Published],
+    });
+    const schema = schemaOf(convertZodSchemaToCollectionSchema("posts", Posts));
+
+    expect(attributeMixinChanges(compare(schema, null), schema)).toEqual([
+      {
+        collection: "posts",
+        mixin: "owned",
+        changes: ["+field owner", "+index idx_posts_owner", "~listRule", "~viewRule", "~deleteRule"],
+      },
+      { collection: "posts", mixin: "published", changes: ["+field published", "~listRule"] },
+    ]);
+  });
+
+  it("names the mixin in rule problems", () => {
+    const Broken = defineMixin({ name: "broken", permissions: { listRule: "missing = @request.auth.id" } });
+    const broken = convertZodSchemaToCollectionSchema(
+      "notes",
+      defineCollection({ collectionName: "notes", schema: z.object({ body: z.string() }), mixins: [Broken] })
+    );
+    const issues = validateSchemaRules(schemaOf(broken));
+
+    expect(issues.length).toBeGreaterThan(0);
+    expect(formatSchemaRuleIssue(issues[0])).toMatch(/^notes\.listRule \(combined with mixin "broken"\): /);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for the typed rule expression builder
+ *
+ * Tests that ruleFor():
+ * - serializes to PocketBase's rule syntax, grouping mixed && / || explicitly
+ * - checks field names against the collection's schema and follows relations
+ *   into the schemas of their target collections
+ * - produces rules the permission analyzer accepts as written
+ *
+ * Typos are compile errors too; the @ts-expect-error lines are checked by tsc.
+ */
+
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { convertZodSchemaToCollectionSchema } from "../../migration/analyzer";
+import { baseSchema, defineCollection, RelationField, RelationsField } from "../base";
+import { SelectField, TextField } from "../fields";
+import { ruleFor } from "../rules";
+
+const UserSchema = z
+  .object({
+    name: TextField(),
+    role: SelectField(["member", "admin"]),
+    team: RelationField({ collection: "teams" }).optional(),
+  })
+  .extend(baseSchema);
+
+const TeamSchema = z
+  .object({
+    title: TextField(),
+    owner: RelationField({ collection: "users" }),
+  })
+  .extend(baseSchema);
+
+const PostSchema = z
+  .object({
+    title: TextField(),
+    status: SelectField(["draft", "published"]),
+    owner: RelationField({ collection: "users" }),
+    editors: RelationsField({ collection: "users" }).optional(),
+  })
+  .extend(baseSchema);
+
+const CommentSchema = z
+  .object({
+    body: TextField(),
+    post: RelationField({ collection: "posts" }),
+    author: RelationField({ collection: "users" }),
+  })
+  .extend(baseSchema);
+
+const rule = ruleFor(PostSchema, {
+  auth: UserSchema,
+  collections: { users: UserSchema, teams: TeamSchema, posts: PostSchema, comments: CommentSchema },
+});
+
+describe("ruleFor", () => {
+  it("serializes comparisons and request references", () => {
+    expect(rule((f) => f.auth.id.neq(""))).toBe('@request.auth.id != ""');
+    expect(rule((f) => f.field("owner").eq(f.auth.id))).toBe("owner = @request.auth.id");
+    expect(rule((f) => f.field("editors").any.eq(f.auth.id))).toBe("editors ?= @request.auth.id");
+    expect(rule((f) => f.field("status").eq("published"))).toBe('status = "published"');
+    expect(rule((f) => f.body.owner.isset().eq(false))).toBe("@request.body.owner:isset = false");
+    expect(rule((f) => f.field("editors").length().lte(5))).toBe("editors:length <= 5");
+    expect(rule((f) => f.field("created").lte(f.now))).toBe("created <= @now");
+    expect(rule((f) => f.context.neq("oauth2"))).toBe('@request.context != "oauth2"');
+    expect(rule((f) => f.field("title").like('say "hi"'))).toBe('title ~ "say \\"hi\\""');
+  });
+
+  it("groups mixed && and || with parentheses", () => {
+    expect(rule((f) => f.auth.id.neq("").and(f.field("owner").eq(f.auth.id)))).toBe(
+      '@request.auth.id != "" && owner = @request.auth.id'
+    );
+    expect(
+      rule((f) => f.auth.id.neq("").and(f.field("owner").eq(f.auth.id).or(f.field("editors").any.eq(f.auth.id))))
+    ).toBe('@request.auth.id != "" && (owner = @request.auth.id || editors ?= @request.auth.id)');
+    expect(rule((f) => f.and(f.field("status").eq("published"), f.raw("a = 1 || b = 2")))).toBe(
+      'status = "published" && (a = 1 || b = 2)'
+    );
+  });
+
+  it("follows relations, back-relations and @collection references", () => {
+    expect(rule((f) => f.field("owner").field("role").eq("admin"))).toBe('owner.role = "admin"');
+    expect(rule((f) => f.auth.team.field("owner").eq(f.auth.id))).toBe("@request.auth.team.owner = @request.auth.id");
+    expect(rule((f) => f.via("comments", "post").field("author").any.eq(f.auth.id))).toBe(
+      "comments_via_post.author ?= @request.auth.id"
+    );
+    expect(rule((f) => f.collection("teams").field("owner").eq(f.auth.id))).toBe(
+      "@collection.teams.owner = @request.auth.id"
+    );
+  });
+
+  it("rejects names the schemas do not have", () => {
+    // @ts-expect-error - not a field of posts
+    expect(() => rule((f) => f.field("titel").eq(""))).toThrow("Field 'titel' does not exist in the collection");
+    // @ts-expect-error - not a field of the auth collection
+    expect(() => rule((f) => f.auth.rol.eq("admin"))).toThrow("Field 'rol' does not exist in the auth collection");
+    // @ts-expect-error - not a field of users
+    expect(() => rule((f) => f.field("owner").field("rol").eq("admin"))).toThrow(
+      "Field 'rol' does not exist in collection 'users'"
+    );
+    // @ts-expect-error - title is not a relation
+    expect(() => rule((f) => f.field("title").field("length"))).toThrow(
+      "Field 'title' is not a relation field, cannot access nested property 'length'"
+    );
+    // @ts-expect-error - not a field of comments
+    expect(() => rule((f) => f.via("comments", "pots").eq(""))).toThrow(
+      "Field 'pots' does not exist in collection 'comments'"
+    );
+  });
+
+  it("accepts any name past a collection it was not given", () => {
+    const loose = ruleFor(CommentSchema);
+
+    expect(loose((f) => f.auth.anything.eq(true))).toBe("@request.auth.anything = true");
+    expect(loose((f) => f.field("author").field("anything").field("deeper").eq(1))).toBe("author.anything.deeper = 1");
+  });
+
+  it("names the collection in errors when given its defineCollection() schema", () => {
+    const posts = defineCollection({ collectionName: "posts", schema: PostSchema });
+    expect(() => ruleFor(posts)((f) => f.field("titel").eq(""))).toThrow(
+      "Field 'titel' does not exist in collection 'posts'"
+    );
+  });
+
+  it("produces rules the analyzer accepts as written", () => {
+    const updateRule = rule((f) =>
+      f.auth.id.neq("").and(f.field("owner").eq(f.auth.id).or(f.field("owner").field("role").eq("admin")))
+    );
+    const posts = defineCollection({
+      collectionName: "posts",
+      schema: PostSchema,
+      permissions: { listRule: rule((f) => f.auth.id.neq("")), updateRule },
+    });
+
+    const collection = convertZodSchemaToCollectionSchema("posts", posts);
+    expect(collection.rules?.updateRule).toBe(updateRule);
+    expect(collection.permissions?.updateRule).toBe(updateRule);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for soft-deleted collections (defineCollection({ softDelete: true })):
+ * the injected field and index, the amended rules and the generated helpers
+ */
+
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { convertZodSchemaToCollectionSchema } from "../../migration/analyzer/converter";
+import { PermissionAnalyzer } from "../../migration/permission-analyzer";
+import { TypeGenerator } from "../../type-gen/generator";
+import { defineCollection, RelationField } from "../base";
+
+const Posts = defineCollection({
+  collectionName: "posts",
+  schema: z.object({ title: z.string(), author: RelationField({ collection: "users" }) }),
+  permissions: {
+    listRule: "",
+    viewRule: "author = @request.auth.id || @request.auth.role = 'admin'",
+    deleteRule: "author = @request.auth.id",
+  },
+  softDelete: true,
+});
+
+describe("defineCollection({ softDelete })", () => {
+  it("adds an optional deletedAt date field and a partial index over the live records", () => {
+    const posts = convertZodSchemaToCollectionSchema("posts", Posts);
+
+    expect(posts.softDelete).toBe(true);
+    expect(posts.fields.find((field) => field.name === "deletedAt")).toMatchObject({ type: "date", required: false });
+    expect(posts.indexes).toEqual(["CREATE INDEX idx_posts_deletedAt ON posts (deletedAt) WHERE deletedAt = ''"]);
+  });
+
+  it("hides deleted records from the list and view rules only", () => {
+    const posts = convertZodSchemaToCollectionSchema("posts", Posts);
+
+    expect(posts.rules?.listRule).toBe('deletedAt = ""');
+    expect(posts.rules?.viewRule).toBe(
+      "(author = @request.auth.id || @request.auth.role = 'admin') && deletedAt = \"\""
+    );
+    expect(posts.rules?.deleteRule).toBe("author = @request.auth.id");
+  });
+
+  it("rejects view collections", () => {
+    expect(() =>
+      defineCollection({
+        collectionName: "stats",
+        type: "view",
+        viewQuery: "SELECT id FROM posts",
+        schema: z.object({}),
+        softDelete: true,
+      })
+    ).toThrow(/cannot use softDelete/);
+  });
+});
+
+describe("PermissionAnalyzer.applySoftDelete", () => {
+  it("keeps locked rules locked and does not repeat the condition", () => {
+    const analyzer = new PermissionAnalyzer();
+
+    expect(
+      analyzer.applySoftDelete({ listRule: null, viewRule: 'owner = @request.auth.id && deletedAt = ""' }, "deletedAt")
+    ).toEqual({ listRule: null, viewRule: 'owner = @request.auth.id && deletedAt = ""' });
+  });
+
+  it("adds the condition to a rule that mentions it without requiring it", () => {
+    const analyzer = new PermissionAnalyzer();
+
+    expect(
+      analyzer.applySoftDelete(
+        { listRule: 'published = true || deletedAt = ""', viewRule: `title ~ 'a && deletedAt = ""'` },
+        "deletedAt"
+      )
+    ).toEqual({
+      listRule: '(published = true || deletedAt = "") && deletedAt = ""',
+      viewRule: `(title ~ 'a && deletedAt = ""') && deletedAt = ""`,
+    });
+  });
+});
+
+describe("generate-types", () => {
+  it("emits softDelete/restore helpers typed to the soft-deleted collections", () => {
+    const output = new TypeGenerator({
+      collections: new Map([
+        ["posts", convertZodSchemaToCollectionSchema("posts", Posts)],
+        ["tags", { name: "tags", type: "base", fields: [] }],
+      ]),
+    }).generate();
+
+    expect(output).toContain('export type SoftDeleteCollection = "posts";');
+    expect(output).toContain("export function softDelete<C extends SoftDeleteCollection>(");
+    expect(output).toContain('.update<CollectionResponses[C]>(id, { deletedAt: "" });');
+    expect(output).toContain("  deletedAt?: string;");
+  });
+
+  it("emits no helpers without soft-deleted collections", () => {
+    const output = new TypeGenerator({
+      collections: new Map([["tags", { name: "tags", type: "base", fields: [] }]]),
+    }).generate();
+
+    expect(output).not.toContain("SoftDeleteCollection");
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for multi-tenant scoping (defineCollection({ tenant })): the injected
+ * relation, the membership rules, the tenant-leading indexes and the
+ * schema-wide check of the membership collection
+ */
+
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { convertZodSchemaToCollectionSchema } from "../../migration/analyzer/converter";
+import { checkAccess } from "../../migration/engine/access";
+import { formatSchemaRuleIssue, validateSchemaRules } from "../../migration/schema-rule-validator";
+import type { CollectionSchema, SchemaDefinition } from "../../migration/types";
+import { PermissionTemplates } from "../../utils/permission-templates";
+import { defineCollection, RelationField } from "../base";
+import type { TenantConfig } from "../tenant";
+
+const tenant: TenantConfig = {
+  field: "workspace",
+  collection: "workspaces",
+  membership: { collection: "members", userField: "user", tenantField: "workspace" },
+};
+
+const MEMBER_RULE = "@collection.members.user ?= @request.auth.id && @collection.members.workspace ?= workspace";
+
+const Documents = defineCollection({
+  collectionName: "documents",
+  schema: z.object({ title: z.string(), slug: z.string() }),
+  permissions: { listRule: "", deleteRule: null },
+  indexes: ["CREATE UNIQUE INDEX idx_documents_slug ON documents (slug)"],
+  tenant,
+});
+
+function schemaOf(...collections: CollectionSchema[]): SchemaDefinition {
+  return { collections: new Map(collections.map((collection) => [collection.name, collection])) };
+}
+
+const users = convertZodSchemaToCollectionSchema(
+  "users",
+  defineCollection({ collectionName: "users", type: "auth", schema: z.object({ name: z.string() }) })
+);
+const workspaces = convertZodSchemaToCollectionSchema(
+  "workspaces",
+  defineCollection({ collectionName: "workspaces", schema: z.object({ name: z.string() }) })
+);
+const members = convertZodSchemaToCollectionSchema(
+  "members",
+  defineCollection({
+    collectionName: "members",
+    schema: z.object({
+      user: RelationField({ collection: "users" }),
+      workspace: RelationField({ collection: "workspaces" }),
+      role: z.string(),
+    }),
+  })
+);
+
+describe("PermissionTemplates.tenantMember", () => {
+  const editors = PermissionTemplates.tenantMember("workspace", { ...tenant.membership, roles: ["admin", "editor"] });
+
+  it("checks for one membership linking the user to the tenant, with any of the roles given", () => {
+    expect(PermissionTemplates.tenantMember("workspace", tenant.membership).listRule).toBe(MEMBER_RULE);
+    expect(editors.deleteRule).toBe(
+      `${MEMBER_RULE} && (@collection.members.role ?= "admin" || @collection.members.role ?= "editor")`
+    );
+    expect(editors.updateRule).toBe(
+      `${editors.deleteRule} && (@request.body.workspace:isset = false || @request.body.workspace = workspace)`
+    );
+  });
+
+  it("takes the user and the role from the same membership, and keeps records in their tenant", () => {
+    const documents = convertZodSchemaToCollectionSchema(
+      "documents",
+      defineCollection({
+        collectionName: "documents",
+        schema: z.object({ title: z.string() }),
+        tenant: { ...tenant, membership: { ...tenant.membership, roles: ["admin", "editor"] } },
+      })
+    );
+    const records = {
+      users: [{ id: "u1" }, { id: "u2" }],
+      workspaces: [{ id: "w1" }, { id: "w2" }],
+      members: [
+        { id: "m1", user: "u1", workspace: "w1", role: "editor" },
+        { id: "m2", user: "u2", workspace: "w1", role: "viewer" },
+        { id: "m3", user: "u1", workspace: "w2", role: "editor" },
+      ],
+      documents: [{ id: "d1", title: "Plan", workspace: "w1" }],
+    };
+    const update = (auth: string, body: Record<string, unknown>) =>
+      checkAccess(schemaOf(users, workspaces, members, documents), records, {
+        collection: "documents",
+        action: "update",
+        record: "d1",
+        auth: { id: auth, collectionName: "users" },
+        body,
+      }).allowed;
+
+    expect(update("u1", { title: "Renamed" })).toBe(true);
+    expect(update("u2", { title: "Renamed" })).toBe(false);
+    expect(update("u1", { workspace: "w1" })).toBe(true);
+    expect(update("u1", { workspace: "w2" })).toBe(false);
+  });
+});
+
+describe("defineCollection({ tenant })", () => {
+  const documents = convertZodSchemaToCollectionSchema("documents", Documents);
+
+  it("adds the tenant relation and joins the membership check to every rule", () => {
+    expect(documents.fields.find((field) => field.name === "workspace")?.relation?.collection).toBe("workspaces");
+    expect(documents.rules?.listRule).toBe(MEMBER_RULE);
+    expect(documents.rules?.viewRule).toBe(MEMBER_RULE);
+    expect(documents.rules?.deleteRule).toBeNull();
+    expect(documents.mixins?.[0]).toMatchObject({ name: "tenant", fields: ["workspace"] });
+  });
+
+  it("leads the collection's indexes with the tenant column", () => {
+    expect(documents.indexes).toEqual(["CREATE UNIQUE INDEX idx_documents_slug ON documents (workspace, slug)"]);
+    expect(documents.mixins?.[0].indexes).toEqual(documents.indexes);
+
+    const Notes = defineCollection({ collectionName: "notes", schema: z.object({ body: z.string() }), tenant });
+    expect(convertZodSchemaToCollectionSchema("notes", Notes).indexes).toEqual([
+      "CREATE INDEX idx_notes_workspace ON notes (workspace)",
+    ]);
+  });
+
+  it("requires the membership fields", () => {
+    expect(() =>
+      defineCollection({
+        collectionName: "notes",
+        schema: z.object({}),
+        tenant: { ...tenant, membership: { ...tenant.membership, userField: "" } },
+      })
+    ).toThrow('Collection "notes": tenant.membership.userField is required');
+  });
+});
+
+describe("tenant rule validation", () => {
+  const documents = convertZodSchemaToCollectionSchema("documents", Documents);
+
+  it("accepts a membership collection with both relations", () => {
+    expect(validateSchemaRules(schemaOf(users, workspaces, members, documents))).toEqual([]);
+  });
+
+  it("fails when the membership collection or its fields do not exist", () => {
+    const missingCollection = validateSchemaRules(schemaOf(users, workspaces, documents));
+    expect(missingCollection.some((issue) => issue.severity === "error")).toBe(true);
+    expect(formatSchemaRuleIssue(missingCollection[0])).toContain(
+      "Collection 'members' in '@collection.members.user' does not exist"
+    );
+
+    const Scoped = defineCollection({
+      collectionName: "pages",
+      schema: z.object({}),
+      tenant: { ...tenant, membership: { ...tenant.membership, roles: ["admin"], roleField: "level" } },
+    });
+    const missingField = validateSchemaRules(
+      schemaOf(users, workspaces, members, convertZodSchemaToCollectionSchema("pages", Scoped))
+    );
+    expect(missingField[0].message).toBe("Field 'level' does not exist in collection 'members'");
+  });
+
+  it("fails when the tenant collection does not exist", () => {
+    const issues = validateSchemaRules(schemaOf(users, members, documents));
+
+    expect(issues[0]).toMatchObject({ collection: "documents", rule: "listRule", severity: "error" });
+    expect(formatSchemaRuleIssue(issues[0])).toBe(
+      "documents.listRule (combined with mixin \"tenant\"): Tenant collection 'workspaces' does not exist, " +
+        "so membership in 'members' cannot be checked"
+    );
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Auth collection options
+ *
+ * Everything PocketBase stores per auth collection besides fields, indexes
+ * and rules: which sign-in methods are enabled, OAuth2 providers, token
+ * lifetimes and the email templates. Declared on `defineCollection({ type:
+ * "auth", auth: { ... } })`, so they are versioned with the schema instead of
+ * being set by hand in the dashboard of every environment.
+ *
+ * Only the options declared here are managed; anything left out keeps
+ * whatever value the collection has. Key names match PocketBase's own
+ * collection JSON.
+ */
+
+import type { EnvValue } from "./env";
+
+/**
+ * An email template; `{APP_NAME}`, `{APP_URL}`, `{TOKEN}` and the other
+ * PocketBase placeholders are kept as-is
+ */
+export interface AuthEmailTemplate {
+  subject: string;
+  /** HTML body */
+  body: string;
+}
+
+/**
+ * Lifetime of one kind of token
+ *
+ * The signing secret is left to PocketBase, which generates it per collection.
+ */
+export interface AuthTokenOptions {
+  /** Seconds */
+  duration: number;
+}
+
+/**
+ * An OAuth2 provider, e.g. `{ name: "google", clientId: ..., clientSecret: { env: "GOOGLE_SECRET" } }`
+ */
+export interface OAuth2ProviderOptions {
+  /** PocketBase provider name: "google", "github", "apple", "oidc", ... */
+  name: string;
+  clientId: string | EnvValue;
+  /** Always read from the environment */
+  clientSecret: EnvValue;
+  displayName?: string;
+  /** Only needed by self-hosted providers such as "oidc" */
+  authURL?: string;
+  tokenURL?: string;
+  userInfoURL?: string;
+  pkce?: boolean | null;
+  /** Provider-specific settings */
+  extra?: Record<string, unknown>;
+}
+
+export interface AuthCollectionOptions {
+  /** Sign-in with an identity field and password */
+  passwordAuth?: {
+    enabled?: boolean;
+    /** Fields accepted as the identity, e.g. `["email", "username"]` */
+    identityFields?: string[];
+  };
+
+  /** Sign-in with OAuth2 providers */
+  oauth2?: {
+    enabled?: boolean;
+    /** Collection fields filled from the OAuth2 profile on sign-up */
+    mappedFields?: {
+      id?: string;
+      name?: string;
+      username?: string;
+      avatarURL?: string;
+    };
+    /** Replaces the collection's provider list as a whole */
+    providers?: OAuth2ProviderOptions[];
+  };
+
+  /** Sign-in with a one-time password sent by email */
+  otp?: {
+    enabled?: boolean;
+    /** Seconds */
+    duration?: number;
+    length?: number;
+    emailTemplate?: AuthEmailTemplate;
+  };
+
+  /** Require a second sign-in method */
+  mfa?: {
+    enabled?: boolean;
+    /** Seconds */
+    duration?: number;
+    /** Filter selecting the records MFA applies to; "" applies it to all */
+    rule?: string;
+  };
+
+  /** Email the user when they sign in from a new location */
+  authAlert?: {
+    enabled?: boolean;
+    emailTemplate?: AuthEmailTemplate;
+  };
+
+  authToken?: AuthTokenOptions;
+  passwordResetToken?: AuthTokenOptions;
+  emailChangeToken?: AuthTokenOptions;
+  verificationToken?: AuthTokenOptions;
+  fileToken?: AuthTokenOptions;
+
+  verificationTemplate?: AuthEmailTemplate;
+  resetPasswordTemplate?: AuthEmailTemplate;
+  confirmEmailChangeTemplate?: AuthEmailTemplate;
+}
@@ -1,5 +1,9 @@
 import { z } from "zod";
 import type { PermissionSchema, PermissionTemplateConfig } from "../utils/permissions";
+import type { AuthCollectionOptions } from "./auth";
+import { DateField, type FieldBackfiller } from "./fields";
+import { applyMixins, type MixinDefinition } from "./mixin";
+import { scopeByTenant, type TenantConfig } from "./tenant";
 
 /**
  * Base schema fields that PocketBase automatically adds to all records
@@ -14,6 +18,12 @@ export const baseSchema = {
   updated: z.string().describe("last update timestamp"),
 };
 
+/**
+ * Name of the date field a soft-deleted collection marks records deleted with
+ * Empty while the record is live, which is what the list and view rules check
+ */
+export const SOFT_DELETE_FIELD = "deletedAt";
+
 // ============================================================================
 // Common PocketBase Field Type Patterns
 // ============================================================================
@@ -44,6 +54,17 @@ export interface RelationConfig {
    * Fields to display in the admin UI
    */
   displayFields?: string[] | null;
+
+  /**
+   * The name this field had before - see `FieldHelperOptions.renamedFrom`
+   */
+  renamedFrom?: string;
+
+  /**
+   * The record id(s) existing records get when this field is added - see
+   * `FieldHelperOptions.backfill`
+   */
+  backfill?: FieldBackfiller | string | readonly string[];
 }
 
 /**
@@ -69,6 +90,32 @@ export interface RelationsConfig extends RelationConfig {
  */
 const RELATION_METADATA_KEY = "__pocketbase_relation__";
 
+declare const relationTarget: unique symbol;
+
+/**
+ * Type-only record of the collection a relation field points at
+ *
+ * Lets the rule builder (`ruleFor`) follow a relation to the schema of its
+ * target collection. Nothing is stored at runtime.
+ */
+export interface RelationTarget<C extends string = string> {
+  readonly [relationTarget]: C;
+}
+
+/**
+ * Relation metadata entry for a backfill, wrapped like the field helpers'
+ * (`{ source }` for a function, `{ value }` otherwise)
+ */
+function relationBackfillMetadata(config: RelationConfig): { backfill?: { source?: string; value?: unknown } } {
+  if (config.backfill === undefined) {
+    return {};
+  }
+  return {
+    backfill:
+      typeof config.backfill === "function" ? { source: config.backfill.toString() } : { value: config.backfill },
+  };
+}
+
 /**
  * Creates a single relation field schema with explicit collection target
  * Maps to PocketBase 'relation' field type with maxSelect=1
@@ -93,7 +140,7 @@ const RELATION_METADATA_KEY = "__pocketbase_relation__";
  *   post: RelationField({ collection: 'posts', cascadeDelete: true }),
  * });
  */
-export function RelationField(config: RelationConfig) {
+export function RelationField<const C extends string>(config: RelationConfig & { collection: C }) {
   const metadata = {
     [RELATION_METADATA_KEY]: {
       type: "single",
@@ -102,10 +149,12 @@ export function RelationField(config: RelationConfig) {
       maxSelect: 1,
       minSelect: 0,
       displayFields: config.displayFields ?? null,
+      ...(config.renamedFrom !== undefined ? { renamedFrom: config.renamedFrom } : {}),
+      ...relationBackfillMetadata(config),
     },
   };
 
-  return z.string().describe(JSON.stringify(metadata));
+  return z.string().describe(JSON.stringify(metadata)) as z.ZodString & RelationTarget<C>;
 }
 
 /**
@@ -136,7 +185,7 @@ export function RelationField(config: RelationConfig) {
  *   }),
  * });
  */
-export function RelationsField(config: RelationsConfig) {
+export function RelationsField<const C extends string>(config: RelationsConfig & { collection: C }) {
   const metadata = {
     [RELATION_METADATA_KEY]: {
       type: "multiple",
@@ -145,6 +194,8 @@ export function RelationsField(config: RelationsConfig) {
       maxSelect: config.maxSelect ?? 999,
       minSelect: config.minSelect ?? 0,
       displayFields: config.displayFields ?? null,
+      ...(config.renamedFrom !== undefined ? { renamedFrom: config.renamedFrom } : {}),
+      ...relationBackfillMetadata(config),
     },
   };
 
@@ -158,7 +209,7 @@ export function RelationsField(config: RelationsConfig) {
     schema = schema.max(config.maxSelect);
   }
 
-  return schema.describe(JSON.stringify(metadata));
+  return schema.describe(JSON.stringify(metadata)) as z.ZodArray<z.ZodString> & RelationTarget<C>;
 }
 
 /**
@@ -175,6 +226,8 @@ export function extractRelationMetadata(description: string | undefined): {
   maxSelect: number;
   minSelect: number;
   displayFields?: string[] | null;
+  renamedFrom?: string;
+  backfill?: { source?: string; value?: unknown };
 } | null {
   if (!description) return null;
 
@@ -238,6 +291,73 @@ export interface CollectionConfig {
    * for TypeScript types only.
    */
   viewQuery?: string;
+
+  /**
+   * Auth collection options: sign-in methods, OAuth2 providers, token
+   * durations and email templates
+   *
+   * Only valid when type is "auth". Options left out keep the collection's
+   * current values. Secrets are read from the environment, never stored here.
+   *
+   * @example
+   * auth: {
+   *   passwordAuth: { identityFields: ["email", "username"] },
+   *   oauth2: {
+   *     enabled: true,
+   *     providers: [{ name: "google", clientId: { env: "GOOGLE_CLIENT_ID" }, clientSecret: { env: "GOOGLE_CLIENT_SECRET" } }],
+   *   },
+   *   authToken: { duration: 60 * 60 * 24 * 7 },
+   * }
+   */
+  auth?: AuthCollectionOptions;
+
+  /**
+   * The name this collection had before
+   *
+   * The next generated migration renames the existing collection in place -
+   * same collection id, records kept - instead of deleting it and creating a
+   * new one. The hint is ignored once the collection already carries its new
+   * name, so it can stay in the schema after the migration has run.
+   */
+  renamedFrom?: string;
+
+  /**
+   * Mixins adding shared fields, indexes and rules, created with defineMixin()
+   *
+   * Their fields follow the collection's own, which win over a mixin field of
+   * the same name. Their index templates are instantiated with the collection
+   * name, and their rules are joined to the collection's with && (or replaced
+   * by them, for a mixin with combine: "override").
+   */
+  mixins?: MixinDefinition[];
+
+  /**
+   * Soft delete: records are marked deleted instead of removed
+   *
+   * Adds a `deletedAt` date field (unless the schema declares it), a partial
+   * index over the live records, and `deletedAt = ""` to the list and view
+   * rules. `generate-types` emits typed softDelete()/restore() helpers.
+   * Not supported on view collections.
+   */
+  softDelete?: boolean;
+
+  /**
+   * Scopes the collection by tenant: records belong to one tenant, and only
+   * the tenant's members may access them
+   *
+   * Adds the relation field to the tenant, joins a membership check to every
+   * rule (see `PermissionTemplates.tenantMember`) and leads the collection's
+   * own indexes with the tenant column. Applied as a mixin named "tenant",
+   * before the other mixins.
+   *
+   * @example
+   * tenant: {
+   *   field: "workspace",
+   *   collection: "workspaces",
+   *   membership: { collection: "members", userField: "user", tenantField: "workspace", roles: ["admin", "editor"] },
+   * }
+   */
+  tenant?: TenantConfig;
 }
 
 /**
@@ -316,9 +436,53 @@ export interface CollectionConfig {
  *     },
  *   },
  * });
+ *
+ * @example
+ * // Collection taking its owner field, index and rules from a mixin
+ * export const NoteSchema = defineCollection({
+ *   collectionName: "notes",
+ *   schema: z.object({
+ *     body: z.string(),
+ *   }),
+ *   mixins: [Owned],
+ * });
  */
 export function defineCollection(config: CollectionConfig): z.ZodObject<any> {
-  const { collectionName, schema, permissions, indexes, type, viewQuery } = config;
+  const { collectionName, type, viewQuery, auth, renamedFrom, softDelete, tenant } = config;
+  let { schema, permissions, indexes, mixins = [] } = config;
+
+  // Scope the collection's indexes by tenant; the rest comes as a mixin
+  if (tenant) {
+    if (type === "view") {
+      throw new Error(
+        `View collection "${collectionName}" cannot be scoped by tenant: it holds no records of its own.`
+      );
+    }
+    const scoped = scopeByTenant(collectionName, tenant, indexes);
+    indexes = scoped.indexes;
+    mixins = [scoped.mixin, ...mixins];
+  }
+
+  // Merge in the mixins, remembering what each contributed
+  const mixed = mixins.length > 0 ? applyMixins(collectionName, schema, indexes, permissions, mixins) : null;
+  if (mixed) {
+    ({ schema, permissions, indexes } = mixed);
+  }
+
+  // Add the deletion marker and the index over the live records; the list and
+  // view rules are amended when the analyzer resolves them
+  if (softDelete) {
+    if (type === "view") {
+      throw new Error(`View collection "${collectionName}" cannot use softDelete: it holds no records of its own.`);
+    }
+    if (!(SOFT_DELETE_FIELD in schema.shape)) {
+      schema = schema.extend({ [SOFT_DELETE_FIELD]: DateField().optional() });
+    }
+    const liveIndex = `CREATE INDEX idx_${collectionName}_${SOFT_DELETE_FIELD} ON ${collectionName} (${SOFT_DELETE_FIELD}) WHERE ${SOFT_DELETE_FIELD} = ''`;
+    if (!(indexes ?? []).includes(liveIndex)) {
+      indexes = [...(indexes ?? []), liveIndex];
+    }
+  }
 
   // Build metadata object
   const metadata: any = {
@@ -335,6 +499,11 @@ export function defineCollection(config: CollectionConfig): z.ZodObject<any> {
     metadata.viewQuery = viewQuery;
   }
 
+  // Add the auth collection options
+  if (auth !== undefined) {
+    metadata.auth = auth;
+  }
+
   // Add permissions if provided
   if (permissions) {
     metadata.permissions = permissions;
@@ -345,6 +514,26 @@ export function defineCollection(config: CollectionConfig): z.ZodObject<any> {
     metadata.indexes = indexes;
   }
 
+  // Add the previous name of a renamed collection
+  if (renamedFrom !== undefined) {
+    metadata.renamedFrom = renamedFrom;
+  }
+
+  // Add the mixin attribution
+  if (mixed) {
+    metadata.mixins = mixed.contributions;
+  }
+
+  // Mark the collection soft-deleted
+  if (softDelete) {
+    metadata.softDelete = true;
+  }
+
+  // Add the tenant scoping, for the schema-wide rule validation
+  if (tenant) {
+    metadata.tenant = tenant;
+  }
+
   // Attach all metadata to schema using Zod's describe() method
   return schema.describe(JSON.stringify(metadata)) as z.ZodObject<any>;
 }
@@ -0,0 +1,50 @@
+/**
+ * Values read from the environment when a migration runs
+ *
+ * Secrets never belong in the schema or in a migration file. Auth options
+ * and app settings both declare them as `{ env: "NAME" }` (or `fromEnv("NAME")`,
+ * which builds the same value), and the generated migration reads them with
+ * `$os.getenv("NAME")`, so each environment supplies its own.
+ */
+
+/**
+ * A value read from an environment variable when the migration runs
+ *
+ * An unset variable reads as the empty string.
+ *
+ * @example
+ * clientSecret: { env: "GOOGLE_CLIENT_SECRET" }
+ */
+export interface EnvValue {
+  /** Name of the environment variable */
+  env: string;
+}
+
+/**
+ * Reads a value from the environment when the migration runs
+ *
+ * @param name - Environment variable name
+ * @returns The `{ env: name }` reference
+ *
+ * @example
+ * smtp: { host: "smtp.example.com", password: fromEnv("SMTP_PASSWORD") }
+ */
+export function fromEnv(name: string): EnvValue {
+  if (typeof name !== "string" || name === "") {
+    throw new Error("fromEnv() needs the name of an environment variable");
+  }
+  return { env: name };
+}
+
+/**
+ * Whether a value is an environment reference: an object holding only `env`
+ */
+export function isEnvValue(value: unknown): value is EnvValue {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.keys(value).length === 1 &&
+    typeof (value as EnvValue).env === "string"
+  );
+}
@@ -68,10 +68,64 @@ export function extractFieldMetadata(description: string | undefined): FieldMeta
 // Field Options Interfaces
 // ============================================================================
 
+/**
+ * Converts one record's value when a field changes type
+ *
+ * Runs inside the generated migration, in PocketBase's JavaScript runtime:
+ * the function is copied into the migration as source, so it must not use
+ * anything from the module it is declared in. `record` is the PocketBase
+ * record being converted (`record.get("otherField")`).
+ */
+export type FieldConverter = (value: any, record: any) => unknown;
+
+/**
+ * Computes the value an existing record gets in a newly added field
+ *
+ * Copied into the generated migration as source, like a `convert` hook, so
+ * it must be self-contained. `record` is the PocketBase record being filled.
+ */
+export type FieldBackfiller = (record: any) => unknown;
+
+/**
+ * Options every field helper accepts
+ */
+export interface FieldHelperOptions {
+  /**
+   * The name this field had before
+   *
+   * The next generated migration renames the existing field in place - same
+   * field id, data kept - instead of dropping it and adding a new one. The
+   * hint is ignored once the field already carries its new name, so it can
+   * stay in the schema after the migration has run.
+   */
+  renamedFrom?: string;
+
+  /**
+   * Converts existing values when this field's type changes
+   *
+   * Only consulted by a migration that changes the field's type; common
+   * conversions (text to number, number to text, text to select, ...) are
+   * built in. `down` converts back for the rollback and defaults to the
+   * built-in conversion, if there is one.
+   */
+  convert?: FieldConverter | { up: FieldConverter; down?: FieldConverter };
+
+  /**
+   * The value records that already exist get when this field is added
+   *
+   * Only consulted by a migration that adds the field to an existing
+   * collection: the field is added as optional, every record is filled in,
+   * and only then is the field made required. Either a value, or a function
+   * called with each record. A required field added without one is a
+   * destructive change, since existing records would fail validation.
+   */
+  backfill?: FieldBackfiller | string | number | boolean | null | readonly unknown[] | Record<string, unknown>;
+}
+
 /**
  * Text field configuration options
  */
-export interface TextFieldOptions {
+export interface TextFieldOptions extends FieldHelperOptions {
   /**
    * Minimum length constraint
    */
@@ -97,7 +151,7 @@ export interface TextFieldOptions {
 /**
  * Number field configuration options
  */
-export interface NumberFieldOptions {
+export interface NumberFieldOptions extends FieldHelperOptions {
   /**
    * Minimum value constraint
    */
@@ -127,7 +181,7 @@ export interface NumberFieldOptions {
 /**
  * Date field configuration options
  */
-export interface DateFieldOptions {
+export interface DateFieldOptions extends FieldHelperOptions {
   /**
    * Minimum date constraint
    */
@@ -142,7 +196,7 @@ export interface DateFieldOptions {
 /**
  * Autodate field configuration options
  */
-export interface AutodateFieldOptions {
+export interface AutodateFieldOptions extends FieldHelperOptions {
   /**
    * Set date automatically on record creation
    * @default false
@@ -159,7 +213,7 @@ export interface AutodateFieldOptions {
 /**
  * Select field configuration options
  */
-export interface SelectFieldOptions {
+export interface SelectFieldOptions extends FieldHelperOptions {
   /**
    * Maximum number of selections allowed
    * If > 1, enables multiple selection
@@ -183,7 +237,7 @@ export type ByteSize = number | `${number}${"K" | "M" | "G" | "k" | "m" | "g"}`;
 /**
  * File field configuration options
  */
-export interface FileFieldOptions {
+export interface FileFieldOptions extends FieldHelperOptions {
   /**
    * Allowed MIME types
    * Example: ["image/*", "application/pdf"]
@@ -237,7 +291,7 @@ export interface FilesFieldOptions extends FileFieldOptions {
 /**
  * JSON field configuration options
  */
-export interface JSONFieldOptions {
+export interface JSONFieldOptions extends FieldHelperOptions {
   /**
    * Maximum size of the serialized JSON value.
    *
@@ -336,6 +390,37 @@ function normalizeJSONFieldOptions(
   };
 }
 
+/**
+ * Metadata `options` for a helper that has no PocketBase options of its own,
+ * so a field without hints serializes exactly as it always has
+ */
+function helperOptionsMetadata(options: FieldHelperOptions | undefined): { options?: FieldHelperOptions } {
+  const { renamedFrom, convert, backfill } = options ?? {};
+  if (renamedFrom === undefined && convert === undefined && backfill === undefined) {
+    return {};
+  }
+  return {
+    options: {
+      ...(renamedFrom !== undefined ? { renamedFrom } : {}),
+      ...(convert !== undefined ? { convert } : {}),
+      ...(backfill !== undefined ? { backfill } : {}),
+    },
+  };
+}
+
+/**
+ * `JSON.stringify` replacer for field metadata. JSON has no functions, so a
+ * `convert` hook travels as its source - the form the generator copies into
+ * the migration anyway. A backfill is wrapped as `{ source }` or `{ value }`,
+ * since a function's source and a string value would otherwise look alike.
+ */
+function serializeConverters(key: string, value: unknown): unknown {
+  if (key === "backfill" && value !== undefined) {
+    return typeof value === "function" ? { source: value.toString() } : { value };
+  }
+  return typeof value === "function" ? value.toString() : value;
+}
+
 // ============================================================================
 // Field Helper Functions
 // ============================================================================
@@ -344,6 +429,7 @@ function normalizeJSONFieldOptions(
  * Creates a boolean field schema
  * Maps to PocketBase 'bool' field type
  *
+ * @param options - Optional field options (`renamedFrom`, `convert`, `backfill`)
  * @returns Zod boolean schema with PocketBase metadata
  *
  * @example
@@ -352,14 +438,15 @@ function normalizeJSONFieldOptions(
  *   featured: BoolField().optional(),
  * });
  */
-export function BoolField(): z.ZodBoolean {
+export function BoolField(options?: FieldHelperOptions): z.ZodBoolean {
   const metadata = {
     [FIELD_METADATA_KEY]: {
       type: "bool" as const,
+      ...helperOptionsMetadata(options),
     },
   };
 
-  return z.boolean().describe(JSON.stringify(metadata));
+  return z.boolean().describe(JSON.stringify(metadata, serializeConverters));
 }
 
 /**
@@ -410,7 +497,7 @@ export function NumberField(options?: NumberFieldOptions): z.ZodNumber {
     },
   };
 
-  return schema.describe(JSON.stringify(metadata));
+  return schema.describe(JSON.stringify(metadata, serializeConverters));
 }
 
 /**
@@ -465,13 +552,14 @@ export function TextField(options?: TextFieldOptions): z.ZodString {
     },
   };
 
-  return schema.describe(JSON.stringify(metadata));
+  return schema.describe(JSON.stringify(metadata, serializeConverters));
 }
 
 /**
  * Creates an email field schema
  * Maps to PocketBase 'email' field type
  *
+ * @param options - Optional field options (`renamedFrom`, `convert`, `backfill`)
  * @returns Zod string schema with email validation and PocketBase metadata
  *
  * @example
@@ -480,20 +568,22 @@ export function TextField(options?: TextFieldOptions): z.ZodString {
  *   alternateEmail: EmailField().optional(),
  * });
  */
-export function EmailField(): z.ZodString {
+export function EmailField(options?: FieldHelperOptions): z.ZodString {
   const metadata = {
     [FIELD_METADATA_KEY]: {
       type: "email" as const,
+      ...helperOptionsMetadata(options),
     },
   };
 
-  return z.string().email().describe(JSON.stringify(metadata));
+  return z.string().email().describe(JSON.stringify(metadata, serializeConverters));
 }
 
 /**
  * Creates a URL field schema
  * Maps to PocketBase 'url' field type
  *
+ * @param options - Optional field options (`renamedFrom`, `convert`, `backfill`)
  * @returns Zod string schema with URL validation and PocketBase metadata
  *
  * @example
@@ -502,20 +592,22 @@ export function EmailField(): z.ZodString {
  *   documentation: URLField().optional(),
  * });
  */
-export function URLField(): z.ZodString {
+export function URLField(options?: FieldHelperOptions): z.ZodString {
   const metadata = {
     [FIELD_METADATA_KEY]: {
       type: "url" as const,
+      ...helperOptionsMetadata(options),
     },
   };
 
-  return z.string().url().describe(JSON.stringify(metadata));
+  return z.string().url().describe(JSON.stringify(metadata, serializeConverters));
 }
 
 /**
  * Creates a rich text editor field schema
  * Maps to PocketBase 'editor' field type
  *
+ * @param options - Optional field options (`renamedFrom`, `convert`, `backfill`)
  * @returns Zod string schema with PocketBase metadata
  *
  * @example
@@ -524,14 +616,15 @@ export function URLField(): z.ZodString {
  *   summary: EditorField().optional(),
  * });
  */
-export function EditorField(): z.ZodString {
+export function EditorField(options?: FieldHelperOptions): z.ZodString {
   const metadata = {
     [FIELD_METADATA_KEY]: {
       type: "editor" as const,
+      ...helperOptionsMetadata(options),
     },
   };
 
-  return z.string().describe(JSON.stringify(metadata));
+  return z.string().describe(JSON.stringify(metadata, serializeConverters));
 }
 
 /**
@@ -569,7 +662,7 @@ export function DateField(options?: DateFieldOptions): z.ZodString {
     },
   };
 
-  return schema.describe(JSON.stringify(metadata));
+  return schema.describe(JSON.stringify(metadata, serializeConverters));
 }
 
 /**
@@ -597,7 +690,7 @@ export function AutodateField(options?: AutodateFieldOptions): z.ZodString {
     },
   };
 
-  return schema.describe(JSON.stringify(metadata));
+  return schema.describe(JSON.stringify(metadata, serializeConverters));
 }
 
 /**
@@ -629,11 +722,11 @@ export function AutodateField(options?: AutodateFieldOptions): z.ZodString {
  */
 export function SelectField<const T extends readonly [string, ...string[]]>(
   values: T,
-  options?: { maxSelect?: 1 }
+  options?: { maxSelect?: 1 } & FieldHelperOptions
 ): EnumFromArray<T>;
 export function SelectField<const T extends readonly [string, ...string[]]>(
   values: T,
-  options: { maxSelect: number }
+  options: { maxSelect: number } & FieldHelperOptions
 ): z.ZodArray<EnumFromArray<T>>;
 export function SelectField<const T extends readonly [string, ...string[]]>(
   values: T,
@@ -651,15 +744,16 @@ export function SelectField<const T extends readonly [string, ...string[]]>(
       options: {
         values,
         maxSelect,
+        ...helperOptionsMetadata(options).options,
       },
     },
   };
 
   if (maxSelect > 1) {
-    return z.array(z.enum(values)).describe(JSON.stringify(metadata)) as z.ZodArray<EnumFromArray<T>>;
+    return z.array(z.enum(values)).describe(JSON.stringify(metadata, serializeConverters)) as z.ZodArray<EnumFromArray<T>>;
   }
 
-  return z.enum(values).describe(JSON.stringify(metadata)) as EnumFromArray<T>;
+  return z.enum(values).describe(JSON.stringify(metadata, serializeConverters)) as EnumFromArray<T>;
 }
 
 /**
@@ -698,7 +792,7 @@ export function FileField(options?: FileFieldOptions): z.ZodType<string, File |
     },
   };
 
-  return schema.describe(JSON.stringify(metadata));
+  return schema.describe(JSON.stringify(metadata, serializeConverters));
 }
 
 /**
@@ -756,7 +850,7 @@ export function FilesField(options?: FilesFieldOptions): z.ZodType<string[], (Fi
     },
   };
 
-  return schema.describe(JSON.stringify(metadata)) as z.ZodType<string[], (File | string)[]>;
+  return schema.describe(JSON.stringify(metadata, serializeConverters)) as z.ZodType<string[], (File | string)[]>;
 }
 
 /**
@@ -833,13 +927,14 @@ export function JSONField<T extends z.ZodTypeAny>(
     },
   };
 
-  return baseSchema.describe(JSON.stringify(metadata)) as T | z.ZodRecord<z.ZodString, z.ZodAny>;
+  return baseSchema.describe(JSON.stringify(metadata, serializeConverters)) as T | z.ZodRecord<z.ZodString, z.ZodAny>;
 }
 
 /**
  * Creates a geographic point field schema
  * Maps to PocketBase 'geoPoint' field type
  *
+ * @param options - Optional field options (`renamedFrom`, `convert`, `backfill`)
  * @returns Zod object schema with lon/lat fields and PocketBase metadata
  *
  * @example
@@ -848,7 +943,7 @@ export function JSONField<T extends z.ZodTypeAny>(
  *   homeLocation: GeoPointField().optional(),
  * });
  */
-export function GeoPointField(): z.ZodObject<{
+export function GeoPointField(options?: FieldHelperOptions): z.ZodObject<{
   lon: z.ZodNumber;
   lat: z.ZodNumber;
 }> {
@@ -861,8 +956,9 @@ export function GeoPointField(): z.ZodObject<{
   const metadata = {
     [FIELD_METADATA_KEY]: {
       type: "geoPoint" as const,
+      ...helperOptionsMetadata(options),
     },
   };
 
-  return schema.describe(JSON.stringify(metadata));
+  return schema.describe(JSON.stringify(metadata, serializeConverters));
 }
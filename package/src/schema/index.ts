@@ -7,7 +7,32 @@ export * from "./fields";
 // View collection support (defineView, sql tagged template)
 export * from "./view";
 
+// Values read from the environment when a migration runs (fromEnv)
+export * from "./env";
+
+// Auth collection options (OAuth2, OTP, MFA, tokens, email templates)
+export * from "./auth";
+
+// Seed data (defineSeed)
+export * from "./seed";
+
+// App settings (defineSettings)
+export * from "./settings";
+
+// Collection mixins (defineMixin) - applyMixins stays internal to defineCollection
+export {
+  defineMixin,
+  isMixinDefinition,
+  type MixinConfig,
+  type MixinContribution,
+  type MixinDefinition,
+} from "./mixin";
+
+// Multi-tenant scoping (defineCollection({ tenant })) - scopeByTenant stays internal
+export type { TenantConfig } from "./tenant";
+
 // Permission system
+export * from "./rules";
 export * from "../utils/permission-templates";
 export * from "../utils/permissions";
 
@@ -0,0 +1,234 @@
+/**
+ * Mixins — field groups, indexes and rules shared across collections
+ *
+ * An owner relation, the index over it and the rules keeping records to
+ * their owner: what many collections repeat word for word. A mixin declares
+ * them once, and defineCollection({ mixins }) merges them into each
+ * collection using it, recording which mixin contributed what so reports
+ * can say where a change comes from.
+ */
+
+import type { z } from "zod";
+import { resolveTemplate } from "../utils/permission-templates";
+import type { APIRuleType, PermissionSchema, PermissionTemplateConfig, RuleExpression } from "../utils/permissions";
+import { hasConjunct, parenthesize } from "../utils/rule-conditions";
+
+/**
+ * Internal marker for mixin definitions
+ * Lets schema files export mixins without the analyzer warning about them
+ */
+const MIXIN_MARKER_KEY = "__pocketbase_mixin__";
+
+/** Stands for the collection's name in a mixin's index statements */
+const COLLECTION_PLACEHOLDER = "{collection}";
+
+const RULE_TYPES: APIRuleType[] = ["listRule", "viewRule", "createRule", "updateRule", "deleteRule", "manageRule"];
+
+/**
+ * Configuration for a mixin
+ */
+export interface MixinConfig {
+  /** Name reports attribute the mixin's fields, indexes and rules to */
+  name: string;
+
+  /** Fields added to every collection using the mixin */
+  fields?: z.ZodRawShape;
+
+  /**
+   * Index statements, with `{collection}` standing for the collection's name
+   * Example: 'CREATE INDEX idx_{collection}_owner ON {collection} (owner)'
+   */
+  indexes?: string[];
+
+  /**
+   * Rules the collection's records must also satisfy
+   * A template config or custom rules, as for defineCollection()
+   */
+  permissions?: PermissionTemplateConfig | PermissionSchema;
+
+  /**
+   * How a rule of the mixin meets the collection's rule for the same operation
+   * - "and" (default): both must hold; the rules are joined with &&
+   * - "override": the collection's rule, when it sets one, replaces the mixin's
+   */
+  combine?: "and" | "override";
+}
+
+/**
+ * A mixin as defineCollection() applies it, produced by defineMixin()
+ */
+export interface MixinDefinition {
+  readonly [MIXIN_MARKER_KEY]: true;
+  name: string;
+  fields: z.ZodRawShape;
+  indexes: string[];
+  /** The rules, templates resolved */
+  permissions: PermissionSchema;
+  combine: "and" | "override";
+}
+
+/**
+ * What one mixin contributed to a collection
+ * Kept in the collection's metadata, and on CollectionSchema by the analyzer
+ */
+export interface MixinContribution {
+  name: string;
+  /** Fields the mixin added; fields the collection declares itself are its own */
+  fields: string[];
+  /** Index statements, instantiated for the collection */
+  indexes: string[];
+  /** Rules the mixin's rule is part of */
+  rules: APIRuleType[];
+}
+
+/**
+ * A collection's fields, indexes and rules with its mixins applied
+ */
+export interface MixedCollection {
+  schema: z.ZodObject<any>;
+  indexes?: string[];
+  permissions?: PermissionSchema;
+  contributions: MixinContribution[];
+}
+
+function toRules(config: PermissionTemplateConfig | PermissionSchema): PermissionSchema {
+  return "template" in config ? resolveTemplate(config as PermissionTemplateConfig) : { ...config };
+}
+
+/**
+ * Both rules at once: null (superusers only) wins, "" (everyone) drops out,
+ * and a rule already requiring the other is kept as it is
+ */
+function and(rule: RuleExpression | undefined, other: RuleExpression): RuleExpression {
+  if (rule === undefined || rule === "" || rule === other) {
+    return other;
+  }
+  if (rule === null || other === null) {
+    return null;
+  }
+  if (other === "" || hasConjunct(rule, other)) {
+    return rule;
+  }
+  return `${parenthesize(rule)} && ${parenthesize(other)}`;
+}
+
+/**
+ * Declares fields, indexes and rules several collections share
+ *
+ * Pass the result in defineCollection({ mixins }). Mixins can be exported
+ * from a schema file of their own; the analyzer passes over them.
+ *
+ * @param config - The mixin's name, fields, index templates and rules
+ * @returns Mixin definition for defineCollection()
+ * @throws Error when the name is missing
+ *
+ * @example
+ * export const Owned = defineMixin({
+ *   name: "owned",
+ *   fields: { owner: RelationField({ collection: "users" }) },
+ *   indexes: ["CREATE INDEX idx_{collection}_owner ON {collection} (owner)"],
+ *   permissions: { listRule: "owner = @request.auth.id", viewRule: "owner = @request.auth.id" },
+ * });
+ */
+export function defineMixin(config: MixinConfig): MixinDefinition {
+  if (typeof config.name !== "string" || config.name === "") {
+    throw new Error("defineMixin() needs a name to attribute the mixin's changes to");
+  }
+
+  return {
+    [MIXIN_MARKER_KEY]: true,
+    name: config.name,
+    fields: config.fields ?? {},
+    indexes: config.indexes ?? [],
+    permissions: config.permissions ? toRules(config.permissions) : {},
+    combine: config.combine ?? "and",
+  };
+}
+
+/**
+ * Whether a value is a mixin produced by defineMixin()
+ *
+ * Checks the marker rather than the prototype, so mixins from a second copy
+ * of this package (a schema file importing its own) are still recognized.
+ */
+export function isMixinDefinition(value: unknown): value is MixinDefinition {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as Record<string, unknown>)[MIXIN_MARKER_KEY] === true &&
+    typeof (value as MixinDefinition).name === "string"
+  );
+}
+
+/**
+ * Applies mixins to a collection's fields, indexes and rules
+ *
+ * Mixin fields are added after the collection's own; a field the collection
+ * declares itself keeps its declaration. Index templates are instantiated
+ * with the collection's name. Rules are combined per `combine`.
+ *
+ * @param collectionName - Name of the collection the mixins are applied to
+ * @param schema - The collection's own Zod schema
+ * @param indexes - The collection's own index statements
+ * @param permissions - The collection's own permissions
+ * @param mixins - Mixins in the order given to defineCollection()
+ * @returns The merged schema, indexes and rules, and what each mixin contributed
+ * @throws Error when two mixins add the same field
+ */
+export function applyMixins(
+  collectionName: string,
+  schema: z.ZodObject<any>,
+  indexes: string[] | undefined,
+  permissions: PermissionTemplateConfig | PermissionSchema | undefined,
+  mixins: MixinDefinition[]
+): MixedCollection {
+  const ownRules = permissions ? toRules(permissions) : {};
+  const rules: PermissionSchema = { ...ownRules };
+  const addedFields: Record<string, z.ZodRawShape[string]> = {};
+  const fieldSources = new Map<string, string>();
+  const allIndexes = [...(indexes ?? [])];
+
+  const contributions = mixins.map((mixin): MixinContribution => {
+    if (!isMixinDefinition(mixin)) {
+      throw new Error(`Collection "${collectionName}": mixins must be created with defineMixin()`);
+    }
+
+    const fields = Object.keys(mixin.fields).filter((name) => !(name in schema.shape));
+    for (const name of fields) {
+      const source = fieldSources.get(name);
+      if (source) {
+        throw new Error(
+          `Collection "${collectionName}": field "${name}" is added by both mixin "${source}" and mixin "${mixin.name}". ` +
+            `Declare the field on the collection to choose its definition.`
+        );
+      }
+      fieldSources.set(name, mixin.name);
+      addedFields[name] = mixin.fields[name];
+    }
+
+    const mixinIndexes = mixin.indexes
+      .map((statement) => statement.split(COLLECTION_PLACEHOLDER).join(collectionName))
+      .filter((statement) => !allIndexes.includes(statement));
+    allIndexes.push(...mixinIndexes);
+
+    const mixinRules = RULE_TYPES.filter((ruleType) => {
+      const rule = mixin.permissions[ruleType];
+      if (rule === undefined || (mixin.combine === "override" && ownRules[ruleType] !== undefined)) {
+        return false;
+      }
+      rules[ruleType] = and(rules[ruleType], rule);
+      return true;
+    });
+
+    return { name: mixin.name, fields, indexes: mixinIndexes, rules: mixinRules };
+  });
+
+  const hasRules = permissions !== undefined || contributions.some((contribution) => contribution.rules.length > 0);
+
+  return {
+    schema: schema.extend(addedFields),
+    indexes: allIndexes.length > 0 ? allIndexes : undefined,
+    permissions: hasRules ? rules : undefined,
+    contributions,
+  };
+}
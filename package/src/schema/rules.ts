@@ -0,0 +1,534 @@
+import type { z } from "zod";
+import { extractRelationMetadata, type RelationTarget } from "./base";
+
+// ============================================================================
+// Rule Expression Types
+// ============================================================================
+
+type ObjectSchema = z.ZodObject<any>;
+
+/**
+ * The schemas of the collections a rule can reach, keyed by collection name
+ *
+ * Relations to these collections, back-relations from them and
+ * `@collection` references to them are checked against their fields.
+ */
+export type RuleCollections = Record<string, ObjectSchema>;
+
+type SystemFieldName = "id" | "created" | "updated" | "collectionId" | "collectionName";
+type AuthSystemFieldName = "email" | "emailVisibility" | "verified";
+type AuthBodyFieldName = AuthSystemFieldName | "password" | "passwordConfirm" | "oldPassword";
+
+type ShapeOf<S> = S extends z.ZodObject<infer Shape> ? Shape : never;
+
+type Unwrapped<T> =
+  T extends z.ZodOptional<infer Inner>
+    ? Unwrapped<Inner>
+    : T extends z.ZodNullable<infer Inner>
+      ? Unwrapped<Inner>
+      : T extends z.ZodDefault<infer Inner>
+        ? Unwrapped<Inner>
+        : T;
+
+type TargetOf<T> = Unwrapped<T> extends RelationTarget<infer Target> ? Target : never;
+
+type SchemaOf<Name, C> = Name extends keyof C ? C[Name] : undefined;
+
+/**
+ * The field names of a schema, system fields included; any name when the
+ * schema is not known
+ */
+export type RuleFieldName<S> = S extends ObjectSchema ? Extract<keyof ShapeOf<S>, string> | SystemFieldName : string;
+
+type FieldOperand<T, C> = [TargetOf<T>] extends [never] ? RuleOperand : RuleRelation<SchemaOf<TargetOf<T>, C>, C>;
+
+/**
+ * The operand for a field: a relation to follow when the field is one, a
+ * plain operand otherwise
+ */
+export type RuleField<S, K extends string, C> = S extends ObjectSchema
+  ? K extends keyof ShapeOf<S>
+    ? FieldOperand<ShapeOf<S>[K], C>
+    : RuleOperand
+  : RuleRelation<undefined, C>;
+
+/**
+ * A value a rule compares against: a literal, or another operand
+ */
+export type RuleValue = string | number | boolean | null | Date | RuleOperand;
+
+/**
+ * A rule expression, or a part of one
+ */
+export interface RuleCondition {
+  /** Joins conditions with `&&` */
+  and(...conditions: RuleCondition[]): RuleCondition;
+
+  /** Joins conditions with `||` */
+  or(...conditions: RuleCondition[]): RuleCondition;
+
+  /** The expression in PocketBase's rule syntax */
+  toString(): string;
+}
+
+/**
+ * Comparison operators of PocketBase's rule syntax
+ */
+export interface RuleComparisons {
+  /** `=` */
+  eq(value: RuleValue): RuleCondition;
+  /** `!=` */
+  neq(value: RuleValue): RuleCondition;
+  /** `>` */
+  gt(value: RuleValue): RuleCondition;
+  /** `>=` */
+  gte(value: RuleValue): RuleCondition;
+  /** `<` */
+  lt(value: RuleValue): RuleCondition;
+  /** `<=` */
+  lte(value: RuleValue): RuleCondition;
+  /** `~` - contains, or a LIKE pattern when the value has a `%` */
+  like(value: RuleValue): RuleCondition;
+  /** `!~` */
+  notLike(value: RuleValue): RuleCondition;
+}
+
+/**
+ * A field, request value or macro a rule compares
+ */
+export interface RuleOperand extends RuleComparisons {
+  /**
+   * "Any of" comparisons (`?=`, `?!=`, ...) for operands holding several
+   * values, which plain comparisons require all of to match
+   */
+  readonly any: RuleComparisons;
+
+  /** `:length` - the number of values of a multi-value field */
+  length(): RuleOperand;
+
+  /** `:lower` - the value in lower case */
+  lower(): RuleOperand;
+
+  /** `:each` - each of the values of a multi-value field */
+  each(): RuleOperand;
+
+  /** The operand in PocketBase's rule syntax */
+  toString(): string;
+}
+
+/**
+ * A relation, whose target collection's fields can be followed
+ *
+ * @typeParam S - Schema of the target collection, when known
+ * @typeParam C - The collections the rule can reach
+ */
+export interface RuleRelation<S, C> extends RuleOperand {
+  /** A field of the related record(s): `relation.field` */
+  field<K extends RuleFieldName<S>>(name: K): RuleField<S, K, C>;
+}
+
+/**
+ * A field of the submitted request body
+ */
+export interface RuleBodyField extends RuleOperand {
+  /** `:isset` - whether the request sets the field */
+  isset(): RuleOperand;
+
+  /** `:changed` - whether the request changes the field's value */
+  changed(): RuleOperand;
+}
+
+/**
+ * The fields of the authenticated record, as `@request.auth.*`
+ */
+export type RuleAuth<A, C> = A extends ObjectSchema
+  ? { readonly [K in RuleFieldName<A> | AuthSystemFieldName]: RuleField<A, K, C> }
+  : Readonly<Record<string, RuleRelation<undefined, C>>>;
+
+/**
+ * The fields of the request body, as `@request.body.*`
+ */
+export type RuleBody<S> = { readonly [K in RuleFieldName<S> | AuthBodyFieldName]: RuleBodyField };
+
+/**
+ * What a rule is built from: the collection's fields, the request, and the
+ * collections it can reach
+ *
+ * @typeParam S - Schema of the collection the rule belongs to
+ * @typeParam C - The collections the rule can reach
+ * @typeParam A - Schema of the auth collection requests are made as, when known
+ */
+export interface RuleFields<S, C, A> {
+  /** A field of the record: `name` */
+  field<K extends RuleFieldName<S>>(name: K): RuleField<S, K, C>;
+
+  /** The authenticated record: `@request.auth.*` */
+  readonly auth: RuleAuth<A, C>;
+
+  /** The submitted data: `@request.body.*` */
+  readonly body: RuleBody<S>;
+
+  /** A query parameter: `@request.query.*` */
+  query(name: string): RuleOperand;
+
+  /** A request header, lower case with `-` as `_`: `@request.headers.*` */
+  headers(name: string): RuleOperand;
+
+  /** The request's HTTP method: `@request.method` */
+  readonly method: RuleOperand;
+
+  /** Where the request comes from (`default`, `oauth2`, `otp`, ...): `@request.context` */
+  readonly context: RuleOperand;
+
+  /** The current date and time: `@now` */
+  readonly now: RuleOperand;
+
+  /**
+   * The records of another collection whose relation field points at this
+   * record: `<collection>_via_<field>`
+   */
+  via<T extends string, K extends RuleFieldName<SchemaOf<T, C>>>(
+    collection: T,
+    field: K
+  ): RuleRelation<SchemaOf<T, C>, C>;
+
+  /** The records of any collection, joined by the rule: `@collection.<name>` */
+  collection<T extends string>(name: T): Pick<RuleRelation<SchemaOf<T, C>, C>, "field">;
+
+  /** Joins conditions with `&&` */
+  and(...conditions: RuleCondition[]): RuleCondition;
+
+  /** Joins conditions with `||` */
+  or(...conditions: RuleCondition[]): RuleCondition;
+
+  /** An expression the builder has no method for, used as written */
+  raw(expression: string): RuleCondition;
+}
+
+/**
+ * Options for `ruleFor()`
+ */
+export interface RuleBuilderOptions<C extends RuleCollections, A extends ObjectSchema | undefined> {
+  /**
+   * The schemas of the collections relations point at, keyed by collection
+   * name
+   */
+  collections?: C;
+
+  /**
+   * The schema of the auth collection requests are made as
+   *
+   * Without it, any `@request.auth.*` field is accepted.
+   */
+  auth?: A;
+}
+
+// ============================================================================
+// Rule Expression Builder
+// ============================================================================
+
+const SYSTEM_FIELD_NAMES = ["id", "created", "updated", "collectionId", "collectionName"];
+const AUTH_SYSTEM_FIELD_NAMES = ["email", "emailVisibility", "verified"];
+
+/** Auth fields a request body can set without the schema declaring them */
+const AUTH_BODY_FIELD_NAMES = [...AUTH_SYSTEM_FIELD_NAMES, "password", "passwordConfirm", "oldPassword"];
+
+/**
+ * A collection whose fields a path can continue into
+ * A missing schema means the fields are not known and any name is accepted.
+ */
+interface FieldScope {
+  schema?: ObjectSchema;
+  label: string;
+  extraFields: string[];
+  collections: RuleCollections;
+}
+
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let current: any = schema;
+  while (current?._def?.innerType) {
+    current = current._def.innerType;
+  }
+  return current;
+}
+
+function collectionLabel(name: string | undefined): string {
+  return name ? `collection '${name}'` : "the collection";
+}
+
+function scopeOf(name: string, collections: RuleCollections): FieldScope {
+  return { schema: collections[name], label: collectionLabel(name), extraFields: [], collections };
+}
+
+/**
+ * Looks a field up in a scope
+ *
+ * @returns The scope of the relation's target collection, or null when the
+ *   field is not a relation
+ * @throws Error when the scope's schema has no such field
+ */
+function resolveField(scope: FieldScope, name: string): FieldScope | null {
+  if (!scope.schema) {
+    return { label: "the related collection", extraFields: [], collections: scope.collections };
+  }
+  if (SYSTEM_FIELD_NAMES.includes(name) || scope.extraFields.includes(name)) {
+    return null;
+  }
+
+  const fieldSchema = (scope.schema.shape as Record<string, z.ZodTypeAny>)[name];
+  if (!fieldSchema) {
+    throw new Error(`Field '${name}' does not exist in ${scope.label}`);
+  }
+
+  const relation = extractRelationMetadata(unwrapSchema(fieldSchema).description);
+  return relation ? scopeOf(relation.collection, scope.collections) : null;
+}
+
+function formatRuleValue(value: RuleValue): string {
+  if (value instanceof Operand) {
+    return value.toString();
+  }
+  if (value instanceof Date) {
+    // PocketBase's datetime format: "2006-01-02 15:04:05.000Z"
+    return `"${value.toISOString().replace("T", " ")}"`;
+  }
+  if (typeof value === "string") {
+    return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  }
+  return String(value);
+}
+
+class Condition implements RuleCondition {
+  constructor(
+    private readonly kind: "leaf" | "raw" | "&&" | "||",
+    private readonly expression: string,
+    private readonly parts: Condition[] = []
+  ) {}
+
+  and(...conditions: RuleCondition[]): RuleCondition {
+    return Condition.join("&&", [this, ...conditions]);
+  }
+
+  or(...conditions: RuleCondition[]): RuleCondition {
+    return Condition.join("||", [this, ...conditions]);
+  }
+
+  toString(): string {
+    return this.expression;
+  }
+
+  /**
+   * Joins conditions, flattening nested joins of the same operator and
+   * parenthesizing the rest, so the result never depends on precedence
+   */
+  static join(operator: "&&" | "||", conditions: RuleCondition[]): Condition {
+    const parts = conditions.flatMap((condition) => {
+      if (!(condition instanceof Condition)) {
+        throw new Error("Rule conditions must come from the rule builder");
+      }
+      return condition.kind === operator ? condition.parts : [condition];
+    });
+
+    if (parts.length === 1) {
+      return parts[0];
+    }
+
+    const expression = parts
+      .map((part) => (part.kind === "leaf" ? part.expression : `(${part.expression})`))
+      .join(` ${operator} `);
+    return new Condition(operator, expression, parts);
+  }
+}
+
+class Operand implements RuleBodyField {
+  readonly any: RuleComparisons;
+
+  /**
+   * @param path - The operand in rule syntax
+   * @param target - Scope of the collection the operand is a relation to,
+   *   or null when it is not a relation
+   */
+  constructor(
+    private readonly path: string,
+    private readonly target: FieldScope | null = null
+  ) {
+    this.any = {
+      eq: (value) => this.compare("?=", value),
+      neq: (value) => this.compare("?!=", value),
+      gt: (value) => this.compare("?>", value),
+      gte: (value) => this.compare("?>=", value),
+      lt: (value) => this.compare("?<", value),
+      lte: (value) => this.compare("?<=", value),
+      like: (value) => this.compare("?~", value),
+      notLike: (value) => this.compare("?!~", value),
+    };
+  }
+
+  eq(value: RuleValue): RuleCondition {
+    return this.compare("=", value);
+  }
+
+  neq(value: RuleValue): RuleCondition {
+    return this.compare("!=", value);
+  }
+
+  gt(value: RuleValue): RuleCondition {
+    return this.compare(">", value);
+  }
+
+  gte(value: RuleValue): RuleCondition {
+    return this.compare(">=", value);
+  }
+
+  lt(value: RuleValue): RuleCondition {
+    return this.compare("<", value);
+  }
+
+  lte(value: RuleValue): RuleCondition {
+    return this.compare("<=", value);
+  }
+
+  like(value: RuleValue): RuleCondition {
+    return this.compare("~", value);
+  }
+
+  notLike(value: RuleValue): RuleCondition {
+    return this.compare("!~", value);
+  }
+
+  length(): RuleOperand {
+    return new Operand(`${this.path}:length`);
+  }
+
+  lower(): RuleOperand {
+    return new Operand(`${this.path}:lower`);
+  }
+
+  each(): RuleOperand {
+    return new Operand(`${this.path}:each`);
+  }
+
+  isset(): RuleOperand {
+    return new Operand(`${this.path}:isset`);
+  }
+
+  changed(): RuleOperand {
+    return new Operand(`${this.path}:changed`);
+  }
+
+  field(name: string): any {
+    if (!this.target) {
+      const field = this.path.slice(this.path.lastIndexOf(".") + 1);
+      throw new Error(`Field '${field}' is not a relation field, cannot access nested property '${name}'`);
+    }
+    return new Operand(`${this.path}.${name}`, resolveField(this.target, name));
+  }
+
+  toString(): string {
+    return this.path;
+  }
+
+  private compare(operator: string, value: RuleValue): RuleCondition {
+    return new Condition("leaf", `${this.path} ${operator} ${formatRuleValue(value)}`);
+  }
+}
+
+/**
+ * An object whose properties are operands under a path prefix, for
+ * `f.auth.<field>` and `f.body.<field>`
+ */
+function fieldsProxy(prefix: string, operand: (path: string, name: string) => Operand): any {
+  return new Proxy(
+    {},
+    {
+      get(_target, name) {
+        if (typeof name !== "string" || name === "then" || name in Object.prototype) {
+          return undefined;
+        }
+        return operand(`${prefix}.${name}`, name);
+      },
+    }
+  );
+}
+
+/**
+ * Creates a typed builder for a collection's permission rules
+ *
+ * Field names are checked against the collection's Zod schema, both by the
+ * type checker and when the rule is built; relations are followed into the
+ * schemas of the collections they point at, when those are given. The
+ * builder produces the same strings as a hand-written rule, so its output
+ * goes anywhere a rule does.
+ *
+ * @param schema - Zod schema of the collection the rules belong to
+ * @param options - Schemas of related collections and of the auth collection
+ * @returns A function building one rule
+ *
+ * @example
+ * const rule = ruleFor(PostSchema, {
+ *   auth: UserSchema,
+ *   collections: { users: UserSchema },
+ * });
+ *
+ * const PostCollection = defineCollection({
+ *   collectionName: "posts",
+ *   schema: PostSchema,
+ *   permissions: {
+ *     listRule: rule((f) => f.auth.id.neq("")),
+ *     // @request.auth.id != "" && (owner = @request.auth.id || owner.role = "admin")
+ *     updateRule: rule((f) =>
+ *       f.auth.id.neq("").and(f.field("owner").eq(f.auth.id).or(f.field("owner").field("role").eq("admin")))
+ *     ),
+ *   },
+ * });
+ */
+export function ruleFor<
+  S extends ObjectSchema,
+  C extends RuleCollections = Record<never, never>,
+  A extends ObjectSchema | undefined = undefined,
+>(schema: S, options: RuleBuilderOptions<C, A> = {}): (build: (f: RuleFields<S, C, A>) => RuleCondition) => string {
+  const collections: RuleCollections = options.collections ?? {};
+
+  let collectionName: string | undefined;
+  try {
+    collectionName = schema.description ? JSON.parse(schema.description).collectionName : undefined;
+  } catch {
+    // Not defineCollection() metadata, ignore
+  }
+
+  const own: FieldScope = { schema, label: collectionLabel(collectionName), extraFields: [], collections };
+  const auth: FieldScope = {
+    schema: options.auth,
+    label: "the auth collection",
+    extraFields: AUTH_SYSTEM_FIELD_NAMES,
+    collections,
+  };
+  const body: FieldScope = { ...own, extraFields: AUTH_BODY_FIELD_NAMES };
+
+  const fields = {
+    field: (name: string) => new Operand(name, resolveField(own, name)),
+    auth: fieldsProxy("@request.auth", (path, name) => new Operand(path, resolveField(auth, name))),
+    body: fieldsProxy("@request.body", (path, name) => {
+      resolveField(body, name);
+      return new Operand(path);
+    }),
+    query: (name: string) => new Operand(`@request.query.${name}`),
+    headers: (name: string) => new Operand(`@request.headers.${name}`),
+    method: new Operand("@request.method"),
+    context: new Operand("@request.context"),
+    now: new Operand("@now"),
+    via: (collection: string, field: string) => {
+      const source = scopeOf(collection, collections);
+      if (source.schema && resolveField(source, field) === null) {
+        throw new Error(`Field '${field}' of ${source.label} is not a relation field`);
+      }
+      return new Operand(`${collection}_via_${field}`, source);
+    },
+    collection: (name: string) => new Operand(`@collection.${name}`, scopeOf(name, collections)),
+    and: (...conditions: RuleCondition[]) => Condition.join("&&", conditions),
+    or: (...conditions: RuleCondition[]) => Condition.join("||", conditions),
+    raw: (expression: string) => new Condition("raw", expression),
+  };
+
+  return (build) => build(fields as unknown as RuleFields<S, C, A>).toString();
+}
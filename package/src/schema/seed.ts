@@ -0,0 +1,120 @@
+/**
+ * Seed data — reference records shipped with the schema
+ *
+ * Roles, categories, feature flags: rows the application expects to exist
+ * in every environment. A seed declares them next to the collection, and
+ * `generate` emits a data migration for whatever the existing migrations
+ * have not already put in place.
+ */
+
+/**
+ * Internal marker for seed definitions
+ * Used by the analyzer to find seeds among a schema file's exports
+ */
+const SEED_MARKER_KEY = "__pocketbase_seed__";
+
+/** One seeded record: field names to values, relations as record ids */
+export type SeedRecord = Record<string, unknown>;
+
+/**
+ * Configuration for a collection's seed records
+ */
+export interface SeedConfig<K extends string = string> {
+  /** Name of the collection the records belong to */
+  collection: string;
+
+  /**
+   * Natural key: the field (or fields) that identify a record across
+   * environments, where record ids differ. Migrations find records by it,
+   * so applying one to a database that already holds a record updates it
+   * instead of inserting a duplicate.
+   */
+  key: K | K[];
+
+  /**
+   * The records, each carrying its key fields
+   *
+   * Only the fields listed are managed; others keep whatever value they
+   * have. The collection's seeded records are exactly these: a record the
+   * migrations inserted that is no longer listed is deleted.
+   */
+  records: Array<SeedRecord & Record<K, unknown>>;
+}
+
+/**
+ * A seed as the analyzer reads it, produced by defineSeed()
+ */
+export interface SeedDefinition {
+  readonly [SEED_MARKER_KEY]: true;
+  collection: string;
+  /** Key fields, in declaration order */
+  key: string[];
+  records: SeedRecord[];
+}
+
+/**
+ * Declares reference records for a collection
+ *
+ * Export the result from a schema file — alongside the collection it seeds,
+ * or from a file of its own. `generate` compares the records against what
+ * the existing migrations produce and writes a migration inserting, updating
+ * and deleting records to match, with a `down()` that reverses it.
+ *
+ * @param config - Collection, natural key and records
+ * @returns Seed definition for the migration tool
+ * @throws Error when a record lacks a key field or two records share a key
+ *
+ * @example
+ * export const RoleSeed = defineSeed({
+ *   collection: "roles",
+ *   key: "slug",
+ *   records: [
+ *     { slug: "admin", label: "Administrator", level: 100 },
+ *     { slug: "member", label: "Member", level: 10 },
+ *   ],
+ * });
+ */
+export function defineSeed<const K extends string>(config: SeedConfig<K>): SeedDefinition {
+  const key: string[] = Array.isArray(config.key) ? [...config.key] : [config.key];
+  if (key.length === 0) {
+    throw new Error(`Seed for "${config.collection}" needs at least one key field`);
+  }
+
+  const seen = new Set<string>();
+  for (const record of config.records) {
+    const missing = key.filter((field) => record[field] === undefined || record[field] === null);
+    if (missing.length > 0) {
+      throw new Error(
+        `Seed record for "${config.collection}" is missing key field(s) ${missing.join(", ")}: ${JSON.stringify(record)}`
+      );
+    }
+
+    const identity = JSON.stringify(key.map((field) => record[field]));
+    if (seen.has(identity)) {
+      throw new Error(`Seed for "${config.collection}" declares ${key.join(", ")} = ${identity} more than once`);
+    }
+    seen.add(identity);
+  }
+
+  return {
+    [SEED_MARKER_KEY]: true,
+    collection: config.collection,
+    key,
+    records: config.records.map((record) => ({ ...record })),
+  };
+}
+
+/**
+ * Whether a value is a seed produced by defineSeed()
+ *
+ * Checks the marker rather than the prototype, so seeds from a second copy
+ * of this package (a schema file importing its own) are still recognized.
+ */
+export function isSeedDefinition(value: unknown): value is SeedDefinition {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as Record<string, unknown>)[SEED_MARKER_KEY] === true &&
+    typeof (value as SeedDefinition).collection === "string"
+  );
+}
@@ -0,0 +1,258 @@
+/**
+ * App settings — the instance configuration shipped with the schema
+ *
+ * Application name and URL, SMTP, S3 storage, backups, trusted proxy, rate
+ * limits and batch requests: settings PocketBase keeps outside any
+ * collection, usually configured by hand in each environment's admin UI.
+ * Declared with defineSettings(), `generate` emits a migration setting
+ * whatever the existing migrations have not already put in place.
+ */
+
+import { isEnvValue, type EnvValue } from "./env";
+
+/**
+ * Internal marker for settings definitions
+ * Used by the analyzer to find the settings among a schema file's exports
+ */
+const SETTINGS_MARKER_KEY = "__pocketbase_settings__";
+
+/** A string setting, given as is or read from the environment */
+export type SettingString = string | EnvValue;
+
+export interface MetaSettings {
+  appName?: SettingString;
+  appURL?: SettingString;
+  senderName?: SettingString;
+  senderAddress?: SettingString;
+  hideControls?: boolean;
+}
+
+export interface SMTPSettings {
+  enabled?: boolean;
+  host?: SettingString;
+  port?: number;
+  username?: SettingString;
+  password?: SettingString;
+  /** "PLAIN" (PocketBase's default when unset) or "LOGIN" */
+  authMethod?: "" | "PLAIN" | "LOGIN";
+  tls?: boolean;
+  /** Domain name sent with HELO/EHLO */
+  localName?: SettingString;
+}
+
+export interface S3Settings {
+  enabled?: boolean;
+  bucket?: SettingString;
+  region?: SettingString;
+  endpoint?: SettingString;
+  accessKey?: SettingString;
+  secret?: SettingString;
+  forcePathStyle?: boolean;
+}
+
+export interface BackupsSettings {
+  /** Cron expression for automatic backups; empty disables them */
+  cron?: string;
+  /** How many automatic backups to keep */
+  cronMaxKeep?: number;
+  /** Where backups are stored, when not in pb_data */
+  s3?: S3Settings;
+}
+
+export interface TrustedProxySettings {
+  /** Headers holding the client IP, e.g. X-Forwarded-For */
+  headers?: string[];
+  useLeftmostIP?: boolean;
+}
+
+export interface RateLimitRule {
+  /** Path prefix ("/api/") or collection action ("posts:create", "*:auth") */
+  label: string;
+  /** Who the rule applies to: everyone (""), guests or authenticated requests */
+  audience?: "" | "@guest" | "@auth";
+  /** Window in seconds */
+  duration: number;
+  /** Requests allowed per window */
+  maxRequests: number;
+}
+
+export interface RateLimitSettings {
+  enabled?: boolean;
+  /** The complete rule list; it replaces the one PocketBase has */
+  rules?: RateLimitRule[];
+}
+
+export interface BatchSettings {
+  enabled?: boolean;
+  /** Requests allowed in one batch */
+  maxRequests?: number;
+  /** Seconds a batch may run */
+  timeout?: number;
+  /** Bytes a batch body may hold; 0 keeps PocketBase's default */
+  maxBodySize?: number;
+}
+
+/**
+ * Configuration for the app settings, one section per settings group
+ *
+ * Only the settings listed are managed; others keep whatever value they
+ * have, so settings still edited by hand can simply be left out.
+ */
+export interface SettingsConfig {
+  meta?: MetaSettings;
+  smtp?: SMTPSettings;
+  s3?: S3Settings;
+  backups?: BackupsSettings;
+  trustedProxy?: TrustedProxySettings;
+  rateLimits?: RateLimitSettings;
+  batch?: BatchSettings;
+}
+
+/**
+ * The settings as the analyzer reads them, produced by defineSettings()
+ */
+export interface SettingsDefinition {
+  readonly [SETTINGS_MARKER_KEY]: true;
+  settings: SettingsConfig;
+}
+
+/** The type a setting holds; a "string" setting may also be read from the environment */
+type SettingKind = "string" | "boolean" | "number" | "array";
+
+/** The settings of a section by name; nested sections map to their own settings */
+interface SettingsShape {
+  [key: string]: SettingKind | SettingsShape;
+}
+
+const S3_SETTINGS: SettingsShape = {
+  enabled: "boolean",
+  bucket: "string",
+  region: "string",
+  endpoint: "string",
+  accessKey: "string",
+  secret: "string",
+  forcePathStyle: "boolean",
+};
+
+/** The settings defineSettings() accepts, per section */
+const KNOWN_SETTINGS: Record<string, SettingsShape> = {
+  meta: { appName: "string", appURL: "string", senderName: "string", senderAddress: "string", hideControls: "boolean" },
+  smtp: {
+    enabled: "boolean",
+    host: "string",
+    port: "number",
+    username: "string",
+    password: "string",
+    authMethod: "string",
+    tls: "boolean",
+    localName: "string",
+  },
+  s3: S3_SETTINGS,
+  backups: { cron: "string", cronMaxKeep: "number", s3: S3_SETTINGS },
+  trustedProxy: { headers: "array", useLeftmostIP: "boolean" },
+  rateLimits: { enabled: "boolean", rules: "array" },
+  batch: { enabled: "boolean", maxRequests: "number", timeout: "number", maxBodySize: "number" },
+};
+
+const KIND_DESCRIPTIONS: Record<SettingKind, string> = {
+  string: "a string or an environment reference",
+  boolean: "a boolean",
+  number: "a number",
+  array: "an array",
+};
+
+const RATE_LIMIT_AUDIENCES = ["", "@guest", "@auth"];
+
+function hasKind(value: unknown, kind: SettingKind): boolean {
+  switch (kind) {
+    case "string":
+      return typeof value === "string" || isEnvValue(value);
+    case "array":
+      return Array.isArray(value);
+    default:
+      return typeof value === kind;
+  }
+}
+
+function checkSettings(section: string, value: unknown, shape: SettingsShape): void {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`Settings section "${section}" must be an object`);
+  }
+  for (const [key, entry] of Object.entries(value)) {
+    const kind = shape[key];
+    if (!kind) {
+      throw new Error(`Unknown setting "${section}.${key}" (${section} accepts ${Object.keys(shape).join(", ")})`);
+    }
+    if (typeof kind === "object") {
+      checkSettings(`${section}.${key}`, entry, kind);
+    } else if (entry !== undefined && !hasKind(entry, kind)) {
+      throw new Error(`Setting "${section}.${key}" must be ${KIND_DESCRIPTIONS[kind]}, got ${JSON.stringify(entry)}`);
+    }
+  }
+}
+
+function normalizeRateLimitRule(rule: RateLimitRule): Required<RateLimitRule> {
+  const audience = rule.audience ?? "";
+  if (!rule.label) {
+    throw new Error(`Rate limit rule needs a label: ${JSON.stringify(rule)}`);
+  }
+  if (!RATE_LIMIT_AUDIENCES.includes(audience)) {
+    throw new Error(`Rate limit rule "${rule.label}" has audience "${audience}" (expected "", "@guest" or "@auth")`);
+  }
+  if (!(rule.duration > 0) || !(rule.maxRequests > 0)) {
+    throw new Error(`Rate limit rule "${rule.label}" needs a positive duration and maxRequests`);
+  }
+  // PocketBase's own key order, so a rule reads the same as in its settings
+  return { label: rule.label, audience, duration: rule.duration, maxRequests: rule.maxRequests };
+}
+
+/**
+ * Declares the app settings
+ *
+ * Export the result from any schema file — at most one per schema. `generate`
+ * compares the settings against what the existing migrations leave and
+ * writes a migration updating `app.settings()` to match, with a `down()`
+ * that puts back the previous values.
+ *
+ * @param config - The settings to manage, by section
+ * @returns Settings definition for the migration tool
+ * @throws Error for an unknown setting, a value of the wrong type or an invalid rate limit rule
+ *
+ * @example
+ * export const Settings = defineSettings({
+ *   meta: { appName: "Acme", appURL: fromEnv("APP_URL") },
+ *   smtp: { enabled: true, host: "smtp.example.com", port: 587, password: fromEnv("SMTP_PASSWORD") },
+ *   rateLimits: { enabled: true, rules: [{ label: "/api/", duration: 10, maxRequests: 300 }] },
+ * });
+ */
+export function defineSettings(config: SettingsConfig): SettingsDefinition {
+  for (const [section, value] of Object.entries(config)) {
+    const shape = KNOWN_SETTINGS[section];
+    if (!shape) {
+      throw new Error(`Unknown settings section "${section}" (expected ${Object.keys(KNOWN_SETTINGS).join(", ")})`);
+    }
+    checkSettings(section, value, shape);
+  }
+
+  const settings = structuredClone(config);
+  if (settings.rateLimits?.rules) {
+    settings.rateLimits.rules = settings.rateLimits.rules.map((rule) => normalizeRateLimitRule(rule));
+  }
+
+  return { [SETTINGS_MARKER_KEY]: true, settings };
+}
+
+/**
+ * Whether a value is settings produced by defineSettings()
+ *
+ * Checks the marker rather than the prototype, so settings from a second
+ * copy of this package (a schema file importing its own) are still recognized.
+ */
+export function isSettingsDefinition(value: unknown): value is SettingsDefinition {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as Record<string, unknown>)[SETTINGS_MARKER_KEY] === true &&
+    typeof (value as SettingsDefinition).settings === "object"
+  );
+}
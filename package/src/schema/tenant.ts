@@ -0,0 +1,105 @@
+/**
+ * Multi-tenant scoping — records belonging to a tenant its members may access
+ *
+ * defineCollection({ tenant }) adds the relation to the tenant, restricts
+ * every rule to the tenant's members (a record of the membership collection
+ * linking the user to the record's tenant) and leads the collection's indexes with the tenant column,
+ * so lookups and uniqueness are per tenant. It is applied as a mixin named
+ * "tenant", so reports attribute its fields, indexes and rules to it.
+ */
+
+import { PermissionTemplates } from "../utils/permission-templates";
+import type { TenantMembershipConfig } from "../utils/permissions";
+import { RelationField } from "./base";
+import { defineMixin, type MixinDefinition } from "./mixin";
+
+/**
+ * Configuration for scoping a collection by tenant
+ */
+export interface TenantConfig {
+  /** Relation field holding the record's tenant, e.g. 'workspace' */
+  field: string;
+
+  /** The tenant collection the field points at, e.g. 'workspaces' */
+  collection: string;
+
+  /** The collection linking users to tenants */
+  membership: TenantMembershipConfig;
+}
+
+/** The column list of an index statement, and what precedes and follows it */
+const INDEX_COLUMNS_REGEX =
+  /^(\s*CREATE\s+(?:UNIQUE\s+)?INDEX\s+[\s\S]*?\bON\s+[`"[]?\w+[`"\]]?\s*\()([^)]*)(\)[\s\S]*)$/i;
+
+function unquote(column: string): string {
+  return column.trim().replace(/^[`"[]|[`"\]]$/g, "");
+}
+
+/**
+ * Leads an index with the tenant column, unless it already covers it
+ * A statement that cannot be parsed is kept as written
+ */
+function prefixTenantColumn(index: string, field: string): string {
+  const match = INDEX_COLUMNS_REGEX.exec(index);
+  if (!match) {
+    return index;
+  }
+  const [, head, columns, tail] = match;
+  const names = columns.split(",").map((column) => unquote(column.split(/\s+/).find(Boolean) ?? ""));
+  return names.includes(field) ? index : `${head}${field}, ${columns.trim()}${tail}`;
+}
+
+function leadsWith(index: string, field: string): boolean {
+  const match = INDEX_COLUMNS_REGEX.exec(index);
+  return match !== null && unquote(match[2].split(",")[0].split(/\s+/).find(Boolean) ?? "") === field;
+}
+
+/**
+ * Scopes a collection's own indexes and builds the mixin adding the tenant
+ *
+ * An index the tenant column has to be added to becomes the mixin's, so
+ * reports attribute the change to it.
+ *
+ * @param collectionName - Name of the collection being scoped
+ * @param tenant - The tenant configuration from defineCollection()
+ * @param indexes - The collection's own index statements
+ * @returns The indexes already led by or covering the tenant column, and the tenant mixin
+ * @throws Error when the configuration leaves out a name
+ */
+export function scopeByTenant(
+  collectionName: string,
+  tenant: TenantConfig,
+  indexes: string[] | undefined
+): { indexes?: string[]; mixin: MixinDefinition } {
+  const { field, collection, membership } = tenant;
+  for (const [name, value] of Object.entries({
+    field,
+    collection,
+    "membership.collection": membership?.collection,
+    "membership.userField": membership?.userField,
+    "membership.tenantField": membership?.tenantField,
+  })) {
+    if (typeof value !== "string" || value === "") {
+      throw new Error(`Collection "${collectionName}": tenant.${name} is required`);
+    }
+  }
+
+  const own: string[] = [];
+  const scoped: string[] = [];
+  for (const index of indexes ?? []) {
+    const prefixed = prefixTenantColumn(index, field);
+    (prefixed === index ? own : scoped).push(prefixed);
+  }
+  const tenantIndex = `CREATE INDEX idx_{collection}_${field} ON {collection} (${field})`;
+
+  return {
+    indexes: indexes && own,
+    mixin: defineMixin({
+      name: "tenant",
+      fields: { [field]: RelationField({ collection }) },
+      // An index led by the tenant column already serves lookups by tenant
+      indexes: [...own, ...scoped].some((index) => leadsWith(index, field)) ? scoped : [...scoped, tenantIndex],
+      permissions: PermissionTemplates.tenantMember(field, membership),
+    }),
+  };
+}
@@ -45,6 +45,11 @@ export interface ViewCollectionConfig {
    * Optional read permissions (listRule / viewRule)
    */
   permissions?: ViewPermissionSchema;
+
+  /**
+   * The name this view had before - see `CollectionConfig.renamedFrom`
+   */
+  renamedFrom?: string;
 }
 
 /**
@@ -209,7 +214,7 @@ export function validateViewQuery(collectionName: string, viewQuery: unknown): a
  * // - no top-level UNION (wrap unions in a subquery)
  */
 export function defineView(config: ViewCollectionConfig): z.ZodObject<any> {
-  const { collectionName, schema, viewQuery, permissions } = config;
+  const { collectionName, schema, viewQuery, permissions, renamedFrom } = config;
 
   validateViewQuery(collectionName, viewQuery);
 
@@ -218,6 +223,7 @@ export function defineView(config: ViewCollectionConfig): z.ZodObject<any> {
     schema,
     type: "view",
     viewQuery,
+    renamedFrom,
     // Write rules are always locked for views - PocketBase rejects anything else
     permissions: {
       listRule: permissions?.listRule ?? null,
@@ -10,4 +10,4 @@ export * from "./migration/index.js";
 // Programmatic CLI API
 export { executeGenerate as generateMigration } from "./cli/commands/generate.js";
 export { executeStatus as getMigrationStatus } from "./cli/commands/status.js";
-export { loadConfig, type MigrationConfig } from "./cli/utils/config.js";
+export { loadConfig, type EnvironmentConfig, type MigrationConfig } from "./cli/utils/config.js";
@@ -68,7 +68,8 @@ describe("TypeGenerator", () => {
     expect(output).toContain("author: string;");
     expect(output).toContain("reviewers?: string[];");
 
-    expect(output).toContain("expand?: {");
+    expect(output).toContain("export interface PostsExpand {");
+    expect(output).toContain("expand?: PostsExpand;");
     expect(output).toContain("author?: UsersResponse;");
     expect(output).toContain("reviewers?: UsersResponse[];");
   });
@@ -155,6 +156,76 @@ describe("TypeGenerator", () => {
 
     // Views are still reachable through the typed client
     expect(output).toContain("ProjectStats: ProjectStatsResponse;");
-    expect(output).toContain('collection(idOrName: "ProjectStats"): RecordService<ProjectStatsResponse>;');
+    expect(output).toContain('collection(idOrName: "ProjectStats"): TypedRecordService<ProjectStatsResponse>;');
+  });
+
+  it("should generate back-relations in the expand of the collection they point at", () => {
+    const usersCollection: CollectionSchema = {
+      name: "users",
+      type: "auth",
+      fields: [],
+    };
+
+    const postsCollection: CollectionSchema = {
+      name: "posts",
+      type: "base",
+      fields: [
+        {
+          id: "pb_author_field",
+          name: "author",
+          type: "relation",
+          required: true,
+          relation: { collection: "users", maxSelect: 1 },
+        },
+      ],
+    };
+
+    const profilesCollection: CollectionSchema = {
+      name: "profiles",
+      type: "base",
+      fields: [
+        {
+          id: "pb_user_field",
+          name: "user",
+          type: "relation",
+          required: true,
+          relation: { collection: "users", maxSelect: 1 },
+        },
+      ],
+      indexes: ["CREATE UNIQUE INDEX `idx_profiles_user` ON `profiles` (`user`)"],
+    };
+
+    const schema: SchemaDefinition = {
+      collections: new Map([
+        ["users", usersCollection],
+        ["posts", postsCollection],
+        ["profiles", profilesCollection],
+      ]),
+    };
+
+    const output = new TypeGenerator(schema).generate();
+
+    expect(output).toContain("export interface UsersExpand {");
+    expect(output).toContain("posts_via_author?: PostsResponse[];");
+    // A unique relation points back at one record at most
+    expect(output).toContain("profiles_via_user?: ProfilesResponse;");
+    expect(output).toContain("expand?: UsersExpand;");
+  });
+
+  it("should type expand from the expand option of the typed client", () => {
+    const schema: SchemaDefinition = {
+      collections: new Map([["posts", { name: "posts", type: "base", fields: [] } as CollectionSchema]]),
+    };
+
+    const output = new TypeGenerator(schema).generate();
+
+    expect(output).toContain("export type Expanded<R, E extends string> = R & {");
+    expect(output).toContain("export interface TypedRecordService<M> extends RecordService<M> {");
+    expect(output).toContain(
+      "getOne<E extends string>(id: string, options: RecordOptions & { expand: E }): Promise<Expanded<M, E>>;"
+    );
+    expect(output).toContain(
+      'import type { ListResult, RecordFullListOptions, RecordListOptions, RecordOptions, RecordService } from "pocketbase";'
+    );
   });
 });
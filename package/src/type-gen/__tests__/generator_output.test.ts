@@ -28,7 +28,7 @@ describe("TypeGenerator", () => {
 
         // Check TypedPocketBase
         expect(output).toContain('export interface TypedPocketBase extends PocketBase {');
-        expect(output).toContain('collection(idOrName: "users"): RecordService<UsersResponse>;');
+        expect(output).toContain('collection(idOrName: "users"): TypedRecordService<UsersResponse>;');
 
         // Check that generic fallback is NOT present (strongly typed only)
         expect(output).not.toContain('collection(idOrName: string)');
@@ -0,0 +1,172 @@
+/**
+ * Tests for the generated create/update input validators
+ *
+ * The generated module is written inside the package, so it resolves "zod",
+ * and imported back to check it accepts and rejects what PocketBase would.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { convertZodSchemaToCollectionSchema } from "../../migration/analyzer";
+import type { SchemaDefinition } from "../../migration/types";
+import { RelationField, RelationsField, baseSchema, defineCollection } from "../../schema/base";
+import {
+  BoolField,
+  DateField,
+  EmailField,
+  FileField,
+  FilesField,
+  JSONField,
+  NumberField,
+  SelectField,
+  TextField,
+} from "../../schema/fields";
+import { ValidatorGenerator } from "../validators";
+
+const Posts = defineCollection({
+  collectionName: "posts",
+  schema: z
+    .object({
+      title: TextField({ min: 3, max: 20, pattern: /^[A-Z]/ }),
+      subtitle: TextField({ min: 5 }).optional(),
+      contact: EmailField().optional(),
+      views: NumberField({ min: 0, max: 100, noDecimal: true }),
+      rating: NumberField({ min: 1, required: true }),
+      published: BoolField(),
+      publishOn: DateField({ min: "2020-01-01" }).optional(),
+      status: SelectField(["draft", "live"]),
+      tags: SelectField(["a", "b", "c"], { maxSelect: 2 }),
+      author: RelationField({ collection: "users" }),
+      reviewers: RelationsField({ collection: "users", minSelect: 2, maxSelect: 3 }).optional(),
+      cover: FileField({ maxSize: 100, mimeTypes: ["image/png"] }),
+      attachments: FilesField({ maxSelect: 2 }).optional(),
+      meta: JSONField().optional(),
+    })
+    .extend(baseSchema),
+});
+
+const Users = defineCollection({
+  collectionName: "users",
+  type: "auth",
+  schema: z.object({ name: TextField() }).extend(baseSchema),
+});
+
+const VALID_POST = {
+  title: "Hello",
+  views: 0,
+  rating: 4,
+  published: true,
+  status: "draft",
+  tags: ["a"],
+  author: "abc123",
+  cover: "cover_abc.png",
+};
+
+describe("ValidatorGenerator", () => {
+  let tempDir: string;
+  let output: string;
+  let validators: any;
+
+  beforeAll(async () => {
+    const schema: SchemaDefinition = {
+      collections: new Map([
+        ["posts", convertZodSchemaToCollectionSchema("posts", Posts)],
+        ["users", convertZodSchemaToCollectionSchema("users", Users)],
+        ["stats", { name: "stats", type: "view", fields: [], viewQuery: "SELECT id FROM posts" }],
+      ]),
+    };
+    output = new ValidatorGenerator(schema).generate();
+
+    // Inside the package so the generated module resolves "zod"
+    tempDir = fs.mkdtempSync(path.join(__dirname, ".validators-"));
+    const file = path.join(tempDir, "pocketbase-validators.ts");
+    fs.writeFileSync(file, output);
+    validators = await import(file);
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("exports create and update schemas for every writable collection", () => {
+    expect(output).toContain("export const PostsCreateSchema = z.object(postsShape);");
+    expect(output).toContain("export type PostsUpdate = z.input<typeof PostsUpdateSchema>;");
+    expect(Object.keys(validators.collectionValidators)).toEqual(["posts", "users"]);
+    expect(output).not.toContain("Stats");
+  });
+
+  it("leaves out system fields", () => {
+    const shape = validators.PostsCreateSchema.shape;
+    expect(shape).not.toHaveProperty("id");
+    expect(shape).not.toHaveProperty("created");
+    expect(shape).not.toHaveProperty("updated");
+  });
+
+  it("accepts a valid record", () => {
+    expect(validators.PostsCreateSchema.safeParse(VALID_POST).success).toBe(true);
+    expect(
+      validators.PostsCreateSchema.safeParse({
+        ...VALID_POST,
+        cover: new File(["png"], "cover.png", { type: "image/png" }),
+        reviewers: ["u1", "u2"],
+        publishOn: "2024-05-01 10:00:00.000Z",
+      }).success
+    ).toBe(true);
+  });
+
+  it("applies the constraints of each field", () => {
+    const rejects = (overrides: Record<string, unknown>) =>
+      validators.PostsCreateSchema.safeParse({ ...VALID_POST, ...overrides }).success === false;
+
+    expect(rejects({ title: "Hi" })).toBe(true);
+    expect(rejects({ title: "hello" })).toBe(true);
+    expect(rejects({ views: 1.5 })).toBe(true);
+    expect(rejects({ views: 101 })).toBe(true);
+    expect(rejects({ rating: 0 })).toBe(true);
+    expect(rejects({ published: false })).toBe(true);
+    expect(rejects({ status: "archived" })).toBe(true);
+    expect(rejects({ tags: ["a", "b", "c"] })).toBe(true);
+    expect(rejects({ tags: [] })).toBe(true);
+    expect(rejects({ author: "" })).toBe(true);
+    expect(rejects({ reviewers: ["u1"] })).toBe(true);
+    expect(rejects({ publishOn: "2019-12-31" })).toBe(true);
+    expect(rejects({ cover: new File(["x".repeat(200)], "big.png", { type: "image/png" }) })).toBe(true);
+    expect(rejects({ cover: new File(["gif"], "cover.gif", { type: "image/gif" }) })).toBe(true);
+    expect(rejects({ contact: "not-an-email" })).toBe(true);
+  });
+
+  it("accepts the empty value of a field that is not required", () => {
+    expect(
+      validators.PostsCreateSchema.safeParse({ ...VALID_POST, subtitle: "", contact: "", reviewers: [] }).success
+    ).toBe(true);
+  });
+
+  it("makes every field optional on update, without loosening the values given", () => {
+    expect(validators.PostsUpdateSchema.safeParse({}).success).toBe(true);
+    expect(validators.PostsUpdateSchema.safeParse({ title: "Renamed" }).success).toBe(true);
+    expect(validators.PostsUpdateSchema.safeParse({ title: "" }).success).toBe(false);
+  });
+
+  it("takes an auth collection's email and password in place of its system fields", () => {
+    const user = { email: "a@example.com", password: "password123", passwordConfirm: "password123", name: "A" };
+    expect(validators.UsersCreateSchema.safeParse(user).success).toBe(true);
+    expect(
+      validators.UsersCreateSchema.safeParse({ ...user, password: "short", passwordConfirm: "short" }).success
+    ).toBe(false);
+    expect(validators.UsersCreateSchema.safeParse({ ...user, passwordConfirm: "different1" }).success).toBe(false);
+    expect(validators.UsersUpdateSchema.safeParse({ name: "B" }).success).toBe(true);
+    expect(
+      validators.UsersUpdateSchema.safeParse({ password: "password456", passwordConfirm: "password456" }).success
+    ).toBe(false);
+    expect(
+      validators.UsersUpdateSchema.safeParse({
+        oldPassword: "password123",
+        password: "password456",
+        passwordConfirm: "password456",
+      }).success
+    ).toBe(true);
+    expect(output).not.toContain("tokenKey");
+  });
+});
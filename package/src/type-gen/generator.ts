@@ -1,18 +1,82 @@
 import type { CollectionSchema, FieldDefinition, SchemaDefinition } from "../migration/types";
-import { zodToTs } from "./utils";
+import { SOFT_DELETE_FIELD } from "../schema/base";
+import { toPascalCase, zodToTs } from "./utils";
 
 export interface TypeGeneratorConfig {
   outPath?: string;
 }
 
-const PASCAL_CASE_REGEX = /(?:^\w|[A-Z]|\b\w)/g;
-const WORD_SEPARATOR_REGEX = /[\s_-]+/g;
+/**
+ * Matches a unique index on a single column, capturing the column
+ * PocketBase expands a back-relation through such a column as one record
+ */
+const SINGLE_COLUMN_UNIQUE_INDEX_REGEX = /^CREATE\s+UNIQUE\s+INDEX\s+.*?\(\s*[`"]?(\w+)[`"]?\s*\)/i;
+
+/**
+ * Types shared by every generated file: the expand string parsing behind
+ * `Expanded`, and the record service whose reads use it
+ */
+const EXPAND_HELPERS = `/** The relation paths an expand string names: "author, tags.owner" -> "author" | "tags.owner" */
+type ExpandPaths<E extends string> = E extends \`\${infer Head},\${infer Rest}\`
+  ? ExpandPaths<Head> | ExpandPaths<Rest>
+  : E extends \` \${infer Path}\`
+    ? ExpandPaths<Path>
+    : E extends \`\${infer Path} \`
+      ? ExpandPaths<Path>
+      : E;
+type ExpandRoot<P extends string> = P extends \`\${infer Root}.\${string}\` ? Root : P;
+type ExpandChild<P extends string, Root extends string> = P extends \`\${Root}.\${infer Child}\` ? Child : never;
+type ExpandOf<R> = R extends { expand?: infer X } ? NonNullable<X> : {};
+type ExpandedValue<V, Child extends string> = [Child] extends [never]
+  ? V
+  : V extends Array<infer Item>
+    ? Array<Expanded<Item, Child>>
+    : Expanded<V, Child>;
+
+/**
+ * A record with the relations an expand string names, nested ones included
+ *
+ * PocketBase leaves out a relation that is empty, so an optional relation
+ * may still be missing at runtime.
+ *
+ * @example Expanded<PostsResponse, "author,comments_via_post.author">
+ */
+export type Expanded<R, E extends string> = R & {
+  expand: {
+    [K in ExpandRoot<ExpandPaths<E>> & keyof ExpandOf<R>]-?: ExpandedValue<
+      NonNullable<ExpandOf<R>[K]>,
+      ExpandChild<ExpandPaths<E>, K>
+    >;
+  };
+};
+
+/** A RecordService whose reads type \`expand\` from the expand option they are given */
+export interface TypedRecordService<M> extends RecordService<M> {
+  getOne<E extends string>(id: string, options: RecordOptions & { expand: E }): Promise<Expanded<M, E>>;
+  getOne<T = M>(id: string, options?: RecordOptions): Promise<T>;
+  getList<E extends string>(
+    page: number | undefined,
+    perPage: number | undefined,
+    options: RecordListOptions & { expand: E }
+  ): Promise<ListResult<Expanded<M, E>>>;
+  getList<T = M>(page?: number, perPage?: number, options?: RecordListOptions): Promise<ListResult<T>>;
+  getFullList<E extends string>(options: RecordFullListOptions & { expand: E }): Promise<Array<Expanded<M, E>>>;
+  getFullList<T = M>(options?: RecordFullListOptions): Promise<Array<T>>;
+  getFullList<T = M>(batch?: number, options?: RecordListOptions): Promise<Array<T>>;
+  getFirstListItem<E extends string>(
+    filter: string,
+    options: RecordListOptions & { expand: E }
+  ): Promise<Expanded<M, E>>;
+  getFirstListItem<T = M>(filter: string, options?: RecordListOptions): Promise<T>;
+}`;
 
 export class TypeGenerator {
   private schema: SchemaDefinition;
+  private backRelations: Map<string, string[]>;
 
   constructor(schema: SchemaDefinition) {
     this.schema = schema;
+    this.backRelations = this.collectBackRelations();
   }
 
   public generate(): string {
@@ -29,13 +93,18 @@ export class TypeGenerator {
     const needsRecordModel = this.checkIfRecordModelNeeded();
 
     lines.push(`import PocketBase from "pocketbase";`);
-    lines.push(`import type { RecordService } from "pocketbase";`);
+    lines.push(
+      `import type { ListResult, RecordFullListOptions, RecordListOptions, RecordOptions, RecordService } from "pocketbase";`
+    );
 
     if (needsRecordModel) {
       lines.push(`import type { RecordModel } from "pocketbase";`);
     }
     lines.push(``);
 
+    lines.push(EXPAND_HELPERS);
+    lines.push(``);
+
     // Generate types for each collection
     const collectionNames = Array.from(this.schema.collections.keys());
 
@@ -57,14 +126,54 @@ export class TypeGenerator {
     lines.push(`export interface TypedPocketBase extends PocketBase {`);
     for (const name of collectionNames) {
       const typeName = this.toPascalCase(name);
-      lines.push(`  collection(idOrName: "${name}"): RecordService<${typeName}Response>;`);
+      lines.push(`  collection(idOrName: "${name}"): TypedRecordService<${typeName}Response>;`);
     }
     lines.push(`}`);
     lines.push(``);
 
+    const softDeleted = collectionNames.filter((name) => this.schema.collections.get(name)?.softDelete);
+    if (softDeleted.length > 0) {
+      lines.push(this.generateSoftDeleteHelpers(softDeleted));
+      lines.push(``);
+    }
+
     return lines.join("\n");
   }
 
+  /**
+   * Generates the softDelete()/restore() helpers for the soft-deleted collections
+   *
+   * The typed collection() overloads take one literal name each, so the
+   * helpers call the untyped one and type the result themselves.
+   */
+  private generateSoftDeleteHelpers(collectionNames: string[]): string {
+    const union = collectionNames.map((name) => `"${name}"`).join(" | ");
+    return [
+      `/** Collections whose records are marked deleted instead of removed */`,
+      `export type SoftDeleteCollection = ${union};`,
+      ``,
+      `/** Marks a record deleted; the list and view rules hide it from then on */`,
+      `export function softDelete<C extends SoftDeleteCollection>(`,
+      `  pb: TypedPocketBase,`,
+      `  collection: C,`,
+      `  id: string`,
+      `): Promise<CollectionResponses[C]> {`,
+      `  return (pb as PocketBase)`,
+      `    .collection(collection)`,
+      `    .update<CollectionResponses[C]>(id, { ${SOFT_DELETE_FIELD}: new Date().toISOString() });`,
+      `}`,
+      ``,
+      `/** Brings back a soft-deleted record */`,
+      `export function restore<C extends SoftDeleteCollection>(`,
+      `  pb: TypedPocketBase,`,
+      `  collection: C,`,
+      `  id: string`,
+      `): Promise<CollectionResponses[C]> {`,
+      `  return (pb as PocketBase).collection(collection).update<CollectionResponses[C]>(id, { ${SOFT_DELETE_FIELD}: "" });`,
+      `}`,
+    ].join("\n");
+  }
+
   private generateCollectionType(collection: CollectionSchema): string {
     const typeName = this.toPascalCase(collection.name);
     const isView = collection.type === "view";
@@ -133,14 +242,22 @@ export class TypeGenerator {
       }
     }
 
-    // Generate Response Interface (with expand)
+    // Back-relations: the records of other collections pointing at this one,
+    // expanded as `<collection>_via_<field>`
+    if (!isView) {
+      expandFields.push(...(this.backRelations.get(collection.name) ?? []));
+    }
+
+    // Generate Expand and Response Interfaces
     if (expandFields.length > 0) {
-      lines.push(`export interface ${typeName}Response extends ${typeName}Record {`);
-      lines.push(`  expand?: {`);
+      lines.push(`export interface ${typeName}Expand {`);
       for (const ef of expandFields) {
-        lines.push(`    ${ef};`);
+        lines.push(`  ${ef};`);
       }
-      lines.push(`  };`);
+      lines.push(`}`);
+      lines.push(``);
+      lines.push(`export interface ${typeName}Response extends ${typeName}Record {`);
+      lines.push(`  expand?: ${typeName}Expand;`);
       lines.push(`}`);
     } else {
       lines.push(`export type ${typeName}Response = ${typeName}Record;`);
@@ -202,11 +319,41 @@ export class TypeGenerator {
   }
 
   private toPascalCase(str: string): string {
-    return str
-      .replace(PASCAL_CASE_REGEX, (word) => {
-        return word.toUpperCase();
-      })
-      .replace(WORD_SEPARATOR_REGEX, '');
+    return toPascalCase(str);
+  }
+
+  /**
+   * Collects the back-relation expand entries of every collection in the schema
+   *
+   * A relation field of a base or auth collection is expandable from the
+   * collection it points at, as an array of records, or as one record when
+   * the field holds a single id under a unique index.
+   *
+   * @returns Expand entries keyed by the name of the collection they belong to
+   */
+  private collectBackRelations(): Map<string, string[]> {
+    const backRelations = new Map<string, string[]>();
+
+    for (const [_, collection] of this.schema.collections) {
+      if (collection.type === "view") continue;
+
+      const uniqueColumns = (collection.indexes ?? [])
+        .map((index) => SINGLE_COLUMN_UNIQUE_INDEX_REGEX.exec(index)?.[1])
+        .filter((column): column is string => column !== undefined);
+
+      for (const field of collection.fields) {
+        if (field.type !== "relation" || !field.relation) continue;
+        if (!this.schema.collections.has(field.relation.collection)) continue;
+
+        const sourceType = `${this.toPascalCase(collection.name)}Response`;
+        const isSingle = (field.relation.maxSelect ?? 1) <= 1 && (field.unique || uniqueColumns.includes(field.name));
+        const entries = backRelations.get(field.relation.collection) ?? [];
+        entries.push(`${collection.name}_via_${field.name}?: ${isSingle ? sourceType : `${sourceType}[]`}`);
+        backRelations.set(field.relation.collection, entries);
+      }
+    }
+
+    return backRelations;
   }
 
   /**
@@ -112,3 +112,15 @@ export function zodToTs(schema: ZodTypeAny): string {
 
   return "any";
 }
+
+const PASCAL_CASE_REGEX = /(?:^\w|[A-Z]|\b\w)/g;
+const WORD_SEPARATOR_REGEX = /[\s_-]+/g;
+
+/**
+ * Converts a collection name to the PascalCase prefix of its generated names
+ *
+ * @example toPascalCase("blog_posts") // "BlogPosts"
+ */
+export function toPascalCase(str: string): string {
+  return str.replace(PASCAL_CASE_REGEX, (word) => word.toUpperCase()).replace(WORD_SEPARATOR_REGEX, "");
+}
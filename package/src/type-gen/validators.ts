@@ -0,0 +1,343 @@
+import { getAuthSystemFields } from "../migration/generator/utils";
+import type { CollectionSchema, FieldDefinition, SchemaDefinition } from "../migration/types";
+import { toPascalCase } from "./utils";
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/;
+
+/** Fields PocketBase fills in itself, on every collection type */
+const SYSTEM_FIELD_NAMES = ["id", "created", "updated"];
+
+/**
+ * PocketBase caps passwords at 71 characters (bcrypt's limit) when the field
+ * sets no maximum of its own
+ */
+const DEFAULT_PASSWORD_MAX = 71;
+
+/**
+ * Generates a module of Zod schemas for the input of each collection's
+ * create and update requests
+ *
+ * The schemas hold the constraints PocketBase itself enforces on a record
+ * (required, min/max, patterns, select values, file limits), so a client can
+ * reject a request before sending it:
+ * - system fields are left out; auth collections take the email and
+ *   password fields of PocketBase's auth API instead
+ * - relations are record ids
+ * - files are a `File` to upload, or the name of a file the record has
+ * - a field that is not required also accepts its empty value, which
+ *   PocketBase never checks against the field's constraints
+ *
+ * View collections are read-only and get no schemas.
+ */
+export class ValidatorGenerator {
+  private schema: SchemaDefinition;
+
+  constructor(schema: SchemaDefinition) {
+    this.schema = schema;
+  }
+
+  public generate(): string {
+    const lines: string[] = [];
+
+    lines.push(`/**`);
+    lines.push(` * This file was auto-generated by pocketbase-zod-schema.`);
+    lines.push(` * Do not modify it manually.`);
+    lines.push(` */`);
+    lines.push(``);
+    lines.push(`import { z } from "zod";`);
+    lines.push(``);
+
+    const collections = Array.from(this.schema.collections.values()).filter((collection) => collection.type !== "view");
+
+    for (const collection of collections) {
+      lines.push(this.generateCollectionValidators(collection));
+      lines.push(``);
+    }
+
+    lines.push(`export const collectionValidators = {`);
+    for (const collection of collections) {
+      const typeName = toPascalCase(collection.name);
+      lines.push(
+        `  ${this.formatKey(collection.name)}: { create: ${typeName}CreateSchema, update: ${typeName}UpdateSchema },`
+      );
+    }
+    lines.push(`} as const;`);
+    lines.push(``);
+
+    return lines.join("\n");
+  }
+
+  private generateCollectionValidators(collection: CollectionSchema): string {
+    const typeName = toPascalCase(collection.name);
+    const shapeName = `${typeName.charAt(0).toLowerCase()}${typeName.slice(1)}Shape`;
+    const isAuth = collection.type === "auth";
+    const lines: string[] = [];
+
+    lines.push(`const ${shapeName} = {`);
+    if (isAuth) {
+      lines.push(...this.getAuthInputLines());
+    }
+    for (const field of this.getInputFields(collection)) {
+      lines.push(`  ${this.formatKey(field.name)}: ${this.getFieldValidator(field)},`);
+    }
+    lines.push(`};`);
+    lines.push(``);
+
+    // PocketBase checks the confirmation against the password it confirms
+    const refinement = isAuth
+      ? `.refine((data) => data.password === data.passwordConfirm, { message: "Values don't match.", path: ["passwordConfirm"] })`
+      : "";
+
+    lines.push(`export const ${typeName}CreateSchema = z.object(${shapeName})${refinement};`);
+    // A user changing their own password must also send the current one
+    const updateShape = isAuth ? `{ ...${shapeName}, oldPassword: z.string() }` : shapeName;
+    const updateRefinement = isAuth
+      ? `${refinement}.refine((data) => data.password === undefined || !!data.oldPassword, { message: "Cannot be blank.", path: ["oldPassword"] })`
+      : "";
+    lines.push(`export const ${typeName}UpdateSchema = z.object(${updateShape}).partial()${updateRefinement};`);
+    lines.push(`export type ${typeName}Create = z.input<typeof ${typeName}CreateSchema>;`);
+    lines.push(`export type ${typeName}Update = z.input<typeof ${typeName}UpdateSchema>;`);
+
+    return lines.join("\n");
+  }
+
+  /**
+   * The fields a client sets: everything but the system fields and the
+   * autodate fields PocketBase maintains
+   */
+  private getInputFields(collection: CollectionSchema): FieldDefinition[] {
+    const systemFieldNames = [...SYSTEM_FIELD_NAMES];
+    if (collection.type === "auth") {
+      systemFieldNames.push(...getAuthSystemFields().map((field) => field.name));
+    }
+
+    return collection.fields.filter(
+      (field) => !systemFieldNames.includes(field.name) && field.type !== "autodate" && !field.options?.system
+    );
+  }
+
+  /**
+   * The credentials an auth collection's create and update requests take in
+   * place of its system fields
+   */
+  private getAuthInputLines(): string[] {
+    const password = getAuthSystemFields().find((field) => field.name === "password");
+    const min = password?.options?.min || 1;
+    const max = password?.options?.max || DEFAULT_PASSWORD_MAX;
+
+    return [
+      `  email: z.email(),`,
+      `  emailVisibility: z.boolean().optional(),`,
+      `  password: z.string().min(${min}).max(${max}),`,
+      `  passwordConfirm: z.string(),`,
+    ];
+  }
+
+  private getFieldValidator(field: FieldDefinition): string {
+    const options = field.options ?? {};
+
+    switch (field.type) {
+      case "text":
+      case "editor":
+      case "password":
+        return this.orEmpty(field, this.getTextValidator(field), `""`);
+
+      case "email":
+        return this.orEmpty(field, `z.email()${this.getDomainChecks(options, 'value.split("@").pop()')}`, `""`);
+
+      case "url":
+        return this.orEmpty(field, `z.url()${this.getDomainChecks(options, "new URL(value).hostname")}`, `""`);
+
+      case "date":
+        return this.orEmpty(field, this.getDateValidator(field), `""`);
+
+      case "number":
+        return this.orEmpty(field, this.getNumberValidator(field), `0`);
+
+      case "bool":
+        // A required bool has to be true: false is its empty value
+        return field.required ? `z.literal(true)` : `z.boolean().optional()`;
+
+      case "select":
+        return this.getSelectValidator(field);
+
+      case "relation":
+        return this.getRelationValidator(field);
+
+      case "file":
+        return this.getFileValidator(field);
+
+      case "json":
+        return field.required ? `z.json()` : `z.json().optional()`;
+
+      case "geoPoint": {
+        const point = `z.object({ lon: z.number().min(-180).max(180), lat: z.number().min(-90).max(90) })`;
+        return field.required ? point : `${point}.optional()`;
+      }
+
+      default:
+        return field.required ? `z.unknown()` : `z.unknown().optional()`;
+    }
+  }
+
+  /**
+   * Makes a validator optional for a field that is not required
+   *
+   * PocketBase skips the constraints of such a field when it holds its empty
+   * value, so the empty value is accepted alongside the validator.
+   */
+  private orEmpty(field: FieldDefinition, validator: string, emptyValue: string): string {
+    if (field.required) {
+      return validator;
+    }
+    if (validator === "z.string()" || validator === "z.number()") {
+      return `${validator}.optional()`;
+    }
+    return `z.union([z.literal(${emptyValue}), ${validator}]).optional()`;
+  }
+
+  private getTextValidator(field: FieldDefinition): string {
+    const options = field.options ?? {};
+    let validator = "z.string()";
+
+    if (typeof options.min === "number" && options.min > 0) {
+      validator += `.min(${options.min})`;
+    } else if (field.required) {
+      validator += `.min(1)`;
+    }
+    if (typeof options.max === "number" && options.max > 0) {
+      validator += `.max(${options.max})`;
+    }
+    if (typeof options.pattern === "string" && options.pattern !== "") {
+      validator += `.regex(new RegExp(${JSON.stringify(options.pattern)}))`;
+    }
+
+    return validator;
+  }
+
+  private getNumberValidator(field: FieldDefinition): string {
+    const options = field.options ?? {};
+    let validator = "z.number()";
+
+    if (options.noDecimal || options.onlyInt) {
+      validator += `.int()`;
+    }
+    if (typeof options.min === "number") {
+      validator += `.min(${options.min})`;
+    }
+    if (typeof options.max === "number") {
+      validator += `.max(${options.max})`;
+    }
+    // A required number has to be non-zero: zero is its empty value
+    if (field.required) {
+      validator += `.refine((value) => value !== 0, "Cannot be blank.")`;
+    }
+
+    return validator;
+  }
+
+  private getDateValidator(field: FieldDefinition): string {
+    const options = field.options ?? {};
+    let validator = `z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Invalid date.")`;
+
+    if (options.min) {
+      const min = JSON.stringify(this.formatDate(options.min));
+      validator += `.refine((value) => Date.parse(value) >= Date.parse(${min}), "Must be no earlier than ${this.formatDate(options.min)}.")`;
+    }
+    if (options.max) {
+      const max = JSON.stringify(this.formatDate(options.max));
+      validator += `.refine((value) => Date.parse(value) <= Date.parse(${max}), "Must be no later than ${this.formatDate(options.max)}.")`;
+    }
+
+    return validator;
+  }
+
+  private formatDate(value: unknown): string {
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+
+  /**
+   * Domain allow/deny lists of email and url fields
+   *
+   * @param domainExpression - Expression extracting the domain from `value`
+   */
+  private getDomainChecks(options: Record<string, any>, domainExpression: string): string {
+    let checks = "";
+
+    if (Array.isArray(options.onlyDomains) && options.onlyDomains.length > 0) {
+      checks += `.refine((value) => ${this.formatList(options.onlyDomains)}.includes(${domainExpression}), "Domain not allowed.")`;
+    }
+    if (Array.isArray(options.exceptDomains) && options.exceptDomains.length > 0) {
+      checks += `.refine((value) => !${this.formatList(options.exceptDomains)}.includes(${domainExpression}), "Domain not allowed.")`;
+    }
+
+    return checks;
+  }
+
+  private getSelectValidator(field: FieldDefinition): string {
+    const options = field.options ?? {};
+    const values: string[] = Array.isArray(options.values) ? options.values : [];
+    const value = values.length > 0 ? `z.enum(${this.formatList(values)})` : `z.string()`;
+
+    if (options.maxSelect && options.maxSelect > 1) {
+      return this.getMultipleValidator(field, value, undefined, options.maxSelect);
+    }
+    return this.orEmpty(field, value, `""`);
+  }
+
+  private getRelationValidator(field: FieldDefinition): string {
+    const maxSelect = field.relation?.maxSelect ?? 1;
+
+    if (maxSelect > 1) {
+      return this.getMultipleValidator(field, "z.string()", field.relation?.minSelect, maxSelect);
+    }
+    return field.required ? `z.string().min(1)` : `z.string().optional()`;
+  }
+
+  private getFileValidator(field: FieldDefinition): string {
+    const options = field.options ?? {};
+    let upload = "z.instanceof(File)";
+
+    if (typeof options.maxSize === "number" && options.maxSize > 0) {
+      upload += `.refine((file) => file.size <= ${options.maxSize}, "File is too large.")`;
+    }
+    if (Array.isArray(options.mimeTypes) && options.mimeTypes.length > 0) {
+      upload += `.refine((file) => ${this.formatList(options.mimeTypes)}.includes(file.type), "File type not allowed.")`;
+    }
+
+    if (options.maxSelect && options.maxSelect > 1) {
+      return this.getMultipleValidator(field, `z.union([${upload}, z.string()])`, options.minSelect, options.maxSelect);
+    }
+    const existing = field.required ? "z.string().min(1)" : "z.string()";
+    const validator = `z.union([${upload}, ${existing}])`;
+    return field.required ? validator : `${validator}.optional()`;
+  }
+
+  private getMultipleValidator(
+    field: FieldDefinition,
+    element: string,
+    minSelect: number | undefined,
+    maxSelect: number
+  ): string {
+    let validator = `z.array(${element})`;
+
+    if (field.required) {
+      validator += `.min(${Math.max(minSelect ?? 0, 1)})`;
+    }
+    validator += `.max(${maxSelect})`;
+    if (!field.required && minSelect && minSelect > 1) {
+      // Like any empty value, an empty list skips the minimum
+      validator += `.refine((values) => values.length === 0 || values.length >= ${minSelect}, "Select at least ${minSelect}.")`;
+    }
+
+    return field.required ? validator : `${validator}.optional()`;
+  }
+
+  private formatList(values: unknown[]): string {
+    return `[${values.map((value) => JSON.stringify(value)).join(", ")}]`;
+  }
+
+  private formatKey(name: string): string {
+    return IDENTIFIER_REGEX.test(name) ? name : JSON.stringify(name);
+  }
+}
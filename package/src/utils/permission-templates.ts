@@ -1,4 +1,4 @@
-import type { PermissionSchema, PermissionTemplateConfig } from "../utils/permissions";
+import type { PermissionSchema, PermissionTemplateConfig, TenantMembershipConfig } from "../utils/permissions";
 
 /**
  * Predefined permission templates for common access control patterns
@@ -38,6 +38,29 @@ export const PermissionTemplates = {
     deleteRule: `@request.auth.id != "" && ${ownerField} = @request.auth.id`,
   }),
 
+  /**
+   * Tenant members only - users can only access records of a tenant they belong to
+   * The membership, its tenant and its role are read from one membership record;
+   * updates cannot move a record to another tenant
+   * @param tenantField - Name of the relation field pointing to the tenant
+   * @param membership - The membership collection and its fields
+   */
+  tenantMember: (tenantField: string, membership: TenantMembershipConfig): PermissionSchema => {
+    const members = `@collection.${membership.collection}`;
+    const roleField = membership.roleField ?? "role";
+    const roles = (membership.roles ?? []).map((role) => `${members}.${roleField} ?= ${JSON.stringify(role)}`);
+    const rule =
+      `${members}.${membership.userField} ?= @request.auth.id && ${members}.${membership.tenantField} ?= ${tenantField}` +
+      (roles.length === 0 ? "" : roles.length === 1 ? ` && ${roles[0]}` : ` && (${roles.join(" || ")})`);
+    return {
+      listRule: rule,
+      viewRule: rule,
+      createRule: rule,
+      updateRule: `${rule} && (@request.body.${tenantField}:isset = false || @request.body.${tenantField} = ${tenantField})`,
+      deleteRule: rule,
+    };
+  },
+
   /**
    * Admin/superuser only access
    * Assumes a 'role' field exists with 'admin' value
@@ -81,3 +81,26 @@ export interface PermissionTemplateConfig {
   /** Custom rules that override template-generated rules */
   customRules?: Partial<PermissionSchema>;
 }
+
+/**
+ * The collection recording which users belong to which tenant
+ *
+ * Used by the `tenantMember` template and defineCollection({ tenant }): a
+ * user may access a tenant's records when a membership record links them.
+ */
+export interface TenantMembershipConfig {
+  /** Membership collection, e.g. 'members' */
+  collection: string;
+
+  /** Relation field of the membership pointing at the user */
+  userField: string;
+
+  /** Relation field of the membership pointing at the tenant */
+  tenantField: string;
+
+  /** Membership roles allowed access; any member when left out */
+  roles?: string[];
+
+  /** Field of the membership holding the role (default: 'role') - used with `roles` */
+  roleField?: string;
+}
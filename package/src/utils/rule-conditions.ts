@@ -0,0 +1,99 @@
+/**
+ * Conditions of an API rule, read at the top level of the expression
+ *
+ * Joining rules with && is only safe with each rule parenthesized, and a
+ * condition only constrains a rule as one of its top-level && operands:
+ * `published = true || deletedAt = ""` contains `deletedAt = ""` but does
+ * not require it. Parentheses and quoted strings are skipped over, so their
+ * contents are never mistaken for operators.
+ */
+
+/**
+ * The positions of an expression outside quoted strings, with the depth of
+ * parentheses each is at (a closing parenthesis is at the depth it closes)
+ */
+function* positions(expression: string): Generator<{ index: number; depth: number }> {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let index = 0; index < expression.length; index++) {
+    const char = expression[index];
+    if (quote) {
+      if (char === "\\") {
+        index++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      continue;
+    }
+    if (char === ")") {
+      depth--;
+    }
+    yield { index, depth };
+    if (char === "(") {
+      depth++;
+    }
+  }
+}
+
+/** Splits an expression on && found outside parentheses and quotes */
+function splitConjuncts(expression: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (const { index, depth } of positions(expression)) {
+    if (depth === 0 && index >= start && expression.startsWith("&&", index)) {
+      parts.push(expression.slice(start, index));
+      start = index + 2;
+    }
+  }
+  parts.push(expression.slice(start));
+  return parts;
+}
+
+/** Whether the parentheses around an expression enclose all of it */
+function isWrapped(expression: string): boolean {
+  if (!expression.startsWith("(") || !expression.endsWith(")")) {
+    return false;
+  }
+  for (const { index, depth } of positions(expression)) {
+    if (depth === 0 && index > 0 && index < expression.length - 1) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** A condition without surrounding whitespace or parentheses, spaces collapsed */
+function normalize(condition: string): string {
+  let normalized = condition.trim();
+  while (isWrapped(normalized)) {
+    normalized = normalized.slice(1, -1).trim();
+  }
+  return normalized.replace(/\s+/g, " ");
+}
+
+/**
+ * Parenthesizes a rule for joining with &&, unless it is one group already
+ *
+ * @param rule - A non-empty rule expression
+ */
+export function parenthesize(rule: string): string {
+  const trimmed = rule.trim();
+  return isWrapped(trimmed) ? trimmed : `(${trimmed})`;
+}
+
+/**
+ * Whether a condition is one of a rule's top-level && operands, so the rule
+ * already requires it
+ *
+ * @param rule - The rule expression
+ * @param condition - The condition looked for
+ */
+export function hasConjunct(rule: string, condition: string): boolean {
+  const wanted = normalize(condition);
+  return splitConjuncts(normalize(rule)).some((part) => normalize(part) === wanted);
+}
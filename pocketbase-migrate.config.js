@@ -1,8 +1,22 @@
 export default {
   schema: {
     directory: "./package/src/schema",
-    // base.ts / fields.ts / view.ts hold helpers, not collection definitions
-    exclude: ["*.test.ts", "*.spec.ts", "base.ts", "fields.ts", "index.ts", "view.ts"],
+    // These modules hold helpers, not collection definitions
+    exclude: [
+      "*.test.ts",
+      "*.spec.ts",
+      "auth.ts",
+      "env.ts",
+      "base.ts",
+      "fields.ts",
+      "index.ts",
+      "view.ts",
+      "rules.ts",
+      "seed.ts",
+      "settings.ts",
+      "mixin.ts",
+      "tenant.ts",
+    ],
   },
   migrations: {
     directory: "../pocketbase/pb_migrations",
@@ -13,4 +27,3 @@ export default {
     requireForceForDestructive: true,
   },
 };
-